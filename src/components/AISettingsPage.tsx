@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Cpu, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react';
+import { AI_PROVIDERS, AIProviderId, AITask, createAIProvider } from '../services/ai-providers';
+import {
+  AI_TASKS,
+  AISettings,
+  SUGGESTED_MODELS,
+  aiSettingsService
+} from '../services/ai-settings-service';
+
+interface AISettingsPageProps {
+  onBack: () => void;
+}
+
+type ConnectionTest = { state: 'idle' | 'testing' } | { state: 'ok' | 'failed'; message: string };
+
+export const AISettingsPage: React.FC<AISettingsPageProps> = ({ onBack }) => {
+  const [settings, setSettings] = useState<AISettings>(() => aiSettingsService.getSettings());
+  const [connectionTest, setConnectionTest] = useState<ConnectionTest>({ state: 'idle' });
+  const forcedMock = import.meta.env.VITE_AI_PROVIDER === 'mock';
+
+  const update = (next: AISettings) => {
+    setSettings(aiSettingsService.saveSettings(next));
+  };
+
+  const updateTask = (task: AITask, provider: AIProviderId, model: string) => {
+    update({ ...settings, tasks: { ...settings.tasks, [task]: { provider, model } } });
+  };
+
+  const handleProviderChange = (task: AITask, provider: AIProviderId) => {
+    // A model name rarely carries over between providers, so start from a suggested one
+    updateTask(task, provider, SUGGESTED_MODELS[provider][0]);
+  };
+
+  const handleTestConnection = async () => {
+    const model = Object.values(settings.tasks).find(choice => choice.provider === 'openai-compatible')?.model ||
+      SUGGESTED_MODELS['openai-compatible'][0];
+    setConnectionTest({ state: 'testing' });
+    try {
+      const completion = await createAIProvider('openai-compatible', settings).complete({
+        task: 'story-structure',
+        model,
+        messages: [{ role: 'user', content: 'Reply with the single word OK.' }],
+        maxTokens: 5,
+        temperature: 0
+      });
+      setConnectionTest({ state: 'ok', message: `Connected to ${completion.model}` });
+    } catch (error) {
+      setConnectionTest({ state: 'failed', message: error instanceof Error ? error.message : 'Could not reach the server' });
+    }
+  };
+
+  return (
+    <div className="flex-1 bg-[#f2eee2] rounded-t-[17px] overflow-hidden flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">AI Models</h1>
+            <p className="text-gray-600 mt-1">Choose which provider and model handles each AI feature</p>
+          </div>
+          <button
+            onClick={onBack}
+            className="flex items-center space-x-2 px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00] text-white rounded-lg transition-colors"
+          >
+            Back to Settings
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {forcedMock && (
+          <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            VITE_AI_PROVIDER is set to mock, so every feature uses the offline provider regardless of the choices below.
+          </div>
+        )}
+
+        {/* Tasks */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <div className="flex items-center gap-2">
+              <Cpu className="w-4 h-4 text-gray-600" />
+              <h2 className="font-semibold text-gray-900">Models by feature</h2>
+            </div>
+            <button
+              onClick={() => setSettings(aiSettingsService.resetSettings())}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset to defaults
+            </button>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {AI_TASKS.map(({ task, label, description }) => {
+              const choice = settings.tasks[task];
+              return (
+                <div key={task} className="flex items-center gap-4 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{label}</div>
+                    <div className="text-xs text-gray-500">{description}</div>
+                  </div>
+                  <select
+                    value={choice.provider}
+                    onChange={e => handleProviderChange(task, e.target.value as AIProviderId)}
+                    className="w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent"
+                  >
+                    {AI_PROVIDERS.map(provider => (
+                      <option key={provider.id} value={provider.id}>{provider.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={choice.model}
+                    onChange={e => updateTask(task, choice.provider, e.target.value)}
+                    list={`ai-models-${choice.provider}`}
+                    disabled={choice.provider === 'mock'}
+                    className="w-56 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent disabled:bg-gray-50"
+                  />
+                </div>
+              );
+            })}
+          </div>
+          {AI_PROVIDERS.map(provider => (
+            <datalist key={provider.id} id={`ai-models-${provider.id}`}>
+              {SUGGESTED_MODELS[provider.id].map(model => <option key={model} value={model} />)}
+            </datalist>
+          ))}
+        </div>
+
+        {/* OpenAI-compatible server */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h2 className="font-semibold text-gray-900">OpenAI-compatible server</h2>
+          <p className="text-sm text-gray-600 mt-1 mb-3">
+            Features set to OpenAI-compatible send requests straight from this browser to this address. Use it for a model
+            you run yourself, such as Ollama (http://localhost:11434/v1) or a llama.cpp server. No API key is sent.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              value={settings.openAICompatibleUrl}
+              onChange={e => update({ ...settings, openAICompatibleUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent"
+            />
+            <button
+              onClick={handleTestConnection}
+              disabled={connectionTest.state === 'testing' || !settings.openAICompatibleUrl}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {connectionTest.state === 'testing' ? 'Testing...' : 'Test connection'}
+            </button>
+          </div>
+          {(connectionTest.state === 'ok' || connectionTest.state === 'failed') && (
+            <p className={`flex items-center gap-1 text-sm mt-2 ${connectionTest.state === 'ok' ? 'text-green-700' : 'text-red-600'}`}>
+              {connectionTest.state === 'ok' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+              {connectionTest.message}
+            </p>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Anthropic requests go through the app's server, which holds the API key. These choices are saved in this browser.
+        </p>
+      </div>
+    </div>
+  );
+};
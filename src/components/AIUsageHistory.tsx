@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Sparkles, RefreshCw } from 'lucide-react';
+import { aiCreditService, operationLabel } from '../services/ai-credit-service';
+import type { AIUsageBreakdown, AIUsageRecord, AIUsageStatus } from '../types/ai-analysis';
+
+const HISTORY_LIMIT = 25;
+
+const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+// Credits refill on the first of the month (UTC), so "this month" starts there too
+const startOfMonth = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+};
+
+const STATUS_LABELS: Record<AIUsageRecord['status'], { label: string; className: string }> = {
+  settled: { label: 'Charged', className: 'bg-gray-100 text-gray-700' },
+  reserved: { label: 'In progress', className: 'bg-blue-100 text-blue-700' },
+  refunded: { label: 'Refunded', className: 'bg-green-100 text-green-700' },
+  expired: { label: 'Did not finish', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+// AI credits left this month, request limits, and where the credits went
+export function AIUsageHistory() {
+  const [status, setStatus] = useState<AIUsageStatus | null>(null);
+  const [breakdown, setBreakdown] = useState<AIUsageBreakdown[]>([]);
+  const [history, setHistory] = useState<AIUsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = async () => {
+    setLoading(true);
+    const [nextStatus, nextBreakdown, nextHistory] = await Promise.all([
+      aiCreditService.getStatus(),
+      aiCreditService.getBreakdown(startOfMonth()),
+      aiCreditService.getHistory(HISTORY_LIMIT)
+    ]);
+    setStatus(nextStatus);
+    setBreakdown(nextBreakdown);
+    setHistory(nextHistory);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const usedPercent = status && status.monthly_credits > 0
+    ? Math.min(100, Math.round(((status.monthly_credits - status.credits_remaining) / status.monthly_credits) * 100))
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-gray-700" />
+          <h2 className="text-lg font-semibold text-gray-900 font-inter">AI Usage</h2>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 font-inter disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {!status && !loading && (
+        <p className="text-sm text-gray-500 font-inter">AI usage couldn't be loaded. Try again in a moment.</p>
+      )}
+
+      {status && (
+        <div className="space-y-6">
+          {/* Credits */}
+          <div>
+            <div className="flex items-baseline justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700 font-inter">
+                {formatNumber(status.credits_remaining)} of {formatNumber(status.monthly_credits)} credits left
+              </span>
+              <span className="text-xs text-gray-500 font-inter capitalize">
+                {status.subscription_tier} plan · refills {new Date(status.next_refill).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usedPercent >= 90 ? 'bg-red-500' : 'bg-[#ff4e00]'}`}
+                style={{ width: `${usedPercent}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1 font-inter">One credit is one token sent to or received from the AI model.</p>
+          </div>
+
+          {/* Limits */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500 font-inter">Requests this hour</div>
+              <div className="text-lg font-semibold text-gray-900 font-inter">
+                {status.hourly_count} / {status.hourly_limit}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500 font-inter">Requests today</div>
+              <div className="text-lg font-semibold text-gray-900 font-inter">
+                {status.daily_count} / {status.daily_limit}
+              </div>
+            </div>
+          </div>
+
+          {/* By operation */}
+          <div>
+            <h3 className="font-medium text-gray-900 mb-2 font-inter">This month by feature</h3>
+            {breakdown.length === 0 ? (
+              <p className="text-sm text-gray-500 font-inter">No AI requests yet this month.</p>
+            ) : (
+              <table className="w-full text-sm font-inter">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Feature</th>
+                    <th className="py-2 font-medium text-right">Requests</th>
+                    <th className="py-2 font-medium text-right">Tokens in</th>
+                    <th className="py-2 font-medium text-right">Tokens out</th>
+                    <th className="py-2 font-medium text-right">Credits</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {breakdown.map(row => (
+                    <tr key={row.operation} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-900">{operationLabel(row.operation)}</td>
+                      <td className="py-2 text-right text-gray-700">{formatNumber(row.requests)}</td>
+                      <td className="py-2 text-right text-gray-700">{formatNumber(row.input_tokens)}</td>
+                      <td className="py-2 text-right text-gray-700">{formatNumber(row.output_tokens)}</td>
+                      <td className="py-2 text-right font-medium text-gray-900">{formatNumber(row.credits)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Recent requests */}
+          {history.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2 font-inter">Recent requests</h3>
+              <div className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+                {history.map(record => {
+                  const badge = STATUS_LABELS[record.status] || STATUS_LABELS.settled;
+                  return (
+                    <div key={record.id} className="flex items-center gap-3 py-2 text-sm font-inter">
+                      <span className="w-36 flex-shrink-0 text-xs text-gray-500">
+                        {new Date(record.created_at).toLocaleString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </span>
+                      <span className="flex-1 min-w-0 truncate text-gray-900">
+                        {operationLabel(record.analysis_type)}
+                        {record.model && <span className="text-gray-400"> · {record.model}</span>}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs ${badge.className}`}>{badge.label}</span>
+                      <span className="w-20 text-right text-gray-700">{formatNumber(record.credits_charged)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
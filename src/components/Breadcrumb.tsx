@@ -103,6 +103,13 @@ export function Breadcrumb({ activeView, currentChapter, projectTitle, onNavigat
           { label: 'Settings', view: 'settings', href: '#' },
           { label: 'Integrations', view: 'integrations', href: '#', active: true }
         ];
+
+      case 'ai-settings':
+        return [
+          ...basePath,
+          { label: 'Settings', view: 'settings', href: '#' },
+          { label: 'AI Models', view: 'ai-settings', href: '#', active: true }
+        ];
       
       case 'help':
         return [
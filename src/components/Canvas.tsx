@@ -25,12 +25,21 @@ import { useAuth } from '../contexts/AuthContext';
 import { useCanvasPlanningData } from '../hooks/useCanvasPlanningData';
 import { useUnifiedAutoSave } from '../hooks/useUnifiedAutoSave';
 import { useCanvasConnections } from '../hooks/useCanvasConnections';
+import { syncService } from '../services/sync-service';
 
 // Import enhanced components
 import { EnhancedCanvasToolbar } from './canvas/toolbar/EnhancedCanvasToolbar';
+import { AIAnalysisPanel, AIAnalysisKind } from './canvas/AIAnalysisPanel';
 import { CharacterPopup } from './canvas/CharacterPopup';
 import Integration from './Integration';
 import { ConnectionControls } from './canvas/connection-controls';
+import { VisualizationSelector } from './canvas/toolbar/VisualizationSelector';
+import { TimelineView } from './canvas/TimelineView';
+import { RelationshipGraph } from './canvas/RelationshipGraph';
+import { continuityService } from '../services/continuity-service';
+import { storyCalendarService } from '../services/story-calendar-service';
+import { GREGORIAN_CALENDAR, resolveTimeline, timelineEventsFromNodes } from '../utils/storyCalendar';
+import { computeLayout, interpolatePositions, LayoutKind } from '../utils/canvasLayout';
 
 // Import node types from index file
 import {
@@ -91,6 +100,11 @@ interface ReactFlowEdge extends Edge {
   data?: any; // For auto-connection metadata
 }
 
+const LAYOUT_ANIMATION_MS = 400;
+const MAX_LAYOUT_UNDO = 20;
+
+type NodePositions = Record<string, { x: number; y: number }>;
+
 // Main Canvas Flow Component
 const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
   const { user } = useAuth();
@@ -98,8 +112,15 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [userEdges, setUserEdges] = useState<ReactFlowEdge[]>([]); // Separate user-created edges
-  const [syncStatus, setSyncStatus] = useState<'synced' | 'syncing' | 'error' | 'pending'>('synced');
-  const [canvasMode, setCanvasMode] = useState('explore');
+  const [isRefreshingPlanning, setIsRefreshingPlanning] = useState(false);
+  const [canvasMode, setCanvasMode] = useState('canvas');
+  const [isCheckingContinuity, setIsCheckingContinuity] = useState(false);
+  const [continuityResult, setContinuityResult] = useState<string | null>(null);
+  const [aiAnalysis, setAIAnalysis] = useState<AIAnalysisKind | null>(null);
+  const [keepPinned, setKeepPinned] = useState(true);
+  // Node positions before each auto-layout, most recent last
+  const [layoutHistory, setLayoutHistory] = useState<NodePositions[]>([]);
+  const layoutAnimationRef = useRef<number | null>(null);
   
   // Integration modal state
   const [showIntegrationsModal, setShowIntegrationsModal] = useState(false);
@@ -110,14 +131,13 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
   const planningData = useCanvasPlanningData(projectId);
   
   const reactFlowInstance = useReactFlow();
-  const viewport = reactFlowInstance?.getViewport() || { x: 0, y: 0, zoom: 1 };
   
   const canvasState: CanvasState = useMemo(() => ({
     nodes,
     edges,
-    viewport,
+    viewport: reactFlowInstance?.getViewport() || { x: 0, y: 0, zoom: 1 },
     lastModified: Date.now()
-  }), [nodes, edges, viewport]);
+  }), [nodes, edges, reactFlowInstance]);
 
   // Add the auto-connections hook
   const {
@@ -306,6 +326,7 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
       return (
         <ConflictNode
           {...props}
+          projectId={projectId}
           onDataChange={(newData: any) => {
             console.log('📝 ConflictNode data change:', props.id, newData);
             handleNodeDataChange(props.id, newData);
@@ -363,7 +384,7 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
   // ✅ ENHANCED SYNC HANDLER - Support for ALL planning integration types
   const handleSync = useCallback(async () => {
     console.log('🔄 Starting canvas sync for all planning-integrated nodes...');
-    setSyncStatus('syncing');
+    setIsRefreshingPlanning(true);
     
     try {
       await planningData.refresh();
@@ -453,17 +474,130 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
       refreshConnections();
       
       await forceSave();
+      // Push any edits queued while offline along with the canvas
+      await syncService.flush();
       
-      setSyncStatus('synced');
       setLastSynced(new Date());
       setHasChanges(false);
       console.log('✅ Canvas sync completed successfully for all node types');
     } catch (error) {
       console.error('❌ Sync failed:', error);
-      setSyncStatus('error');
+    } finally {
+      setIsRefreshingPlanning(false);
     }
   }, [planningData, nodes, forceSave, setNodes, refreshConnections]);
 
+  // Replace the previous continuity findings with a fresh set of conflict nodes
+  const handleCheckContinuity = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsCheckingContinuity(true);
+    try {
+      const findings = await continuityService.checkProject(projectId, timelineEventsFromNodes(nodes));
+      const open = findings.filter(finding => !finding.userDismissed);
+
+      setNodes((nds) => {
+        const kept = nds.filter(node => !node.data?.continuityId);
+        const right = kept.reduce((max, node) => Math.max(max, node.position.x), 0);
+        const findingNodes = open.map((finding, index) => ({
+          id: uuidv4(),
+          type: 'conflict',
+          position: {
+            x: right + 350 + (index % 3) * 320,
+            y: Math.floor(index / 3) * 260
+          },
+          data: {
+            name: `Continuity: ${finding.type}`,
+            description: finding.description,
+            finding,
+            continuityId: finding.id
+          }
+        }));
+        return [...kept, ...findingNodes];
+      });
+
+      setContinuityResult(open.length === 0
+        ? 'No continuity issues found'
+        : `${open.length} issue${open.length === 1 ? '' : 's'} added to the canvas`);
+      setHasChanges(true);
+    } catch (error) {
+      console.error('Continuity check failed:', error);
+      setContinuityResult('Continuity check failed');
+    } finally {
+      setIsCheckingContinuity(false);
+    }
+  }, [projectId, nodes, setNodes]);
+
+  const selectedNodeIds = useMemo(() => nodes.filter(node => node.selected).map(node => node.id), [nodes]);
+
+  // Glide nodes to their new positions instead of jumping there
+  const animateNodesTo = useCallback((targets: NodePositions) => {
+    if (layoutAnimationRef.current !== null) cancelAnimationFrame(layoutAnimationRef.current);
+    const start: NodePositions = Object.fromEntries(nodes.map(node => [node.id, node.position]));
+    const startedAt = performance.now();
+
+    const step = (now: number) => {
+      const progress = Math.min((now - startedAt) / LAYOUT_ANIMATION_MS, 1);
+      const frame = interpolatePositions(start, targets, progress);
+      setNodes((nds) => nds.map(node => frame[node.id] ? { ...node, position: frame[node.id] } : node));
+
+      if (progress < 1) {
+        layoutAnimationRef.current = requestAnimationFrame(step);
+      } else {
+        layoutAnimationRef.current = null;
+        reactFlowInstance?.fitView({ padding: 0.2, duration: 300 });
+      }
+    };
+    layoutAnimationRef.current = requestAnimationFrame(step);
+  }, [nodes, setNodes, reactFlowInstance]);
+
+  useEffect(() => () => {
+    if (layoutAnimationRef.current !== null) cancelAnimationFrame(layoutAnimationRef.current);
+  }, []);
+
+  const handleLayout = useCallback(async (kind: LayoutKind) => {
+    let chronologicalOrder: string[] | undefined;
+    if (kind === 'chronological') {
+      const calendar = projectId ? await storyCalendarService.getCalendar(projectId) : GREGORIAN_CALENDAR;
+      chronologicalOrder = resolveTimeline(calendar, timelineEventsFromNodes(nodes)).events.map(event => event.id);
+    }
+
+    const targets = computeLayout(
+      kind,
+      nodes.map(node => ({ id: node.id, type: node.type, position: node.position, pinned: !!node.data?.pinned })),
+      userEdges,
+      { centerId: selectedNodeIds[0], chronologicalOrder, keepPinned }
+    );
+    if (Object.keys(targets).length === 0) return;
+
+    const before: NodePositions = Object.fromEntries(nodes.map(node => [node.id, node.position]));
+    setLayoutHistory(prev => [...prev.slice(-(MAX_LAYOUT_UNDO - 1)), before]);
+    animateNodesTo(targets);
+  }, [projectId, nodes, userEdges, selectedNodeIds, keepPinned, animateNodesTo]);
+
+  const handleUndoLayout = useCallback(() => {
+    const previous = layoutHistory[layoutHistory.length - 1];
+    if (!previous) return;
+    setLayoutHistory(prev => prev.slice(0, -1));
+    animateNodesTo(previous);
+  }, [layoutHistory, animateNodesTo]);
+
+  // Pin the selected nodes, or unpin them when they are all pinned already
+  const selectionPinned = selectedNodeIds.length > 0 &&
+    nodes.filter(node => node.selected).every(node => node.data?.pinned);
+
+  const handleTogglePin = useCallback(() => {
+    setNodes((nds) => nds.map(node =>
+      node.selected ? { ...node, data: { ...node.data, pinned: !selectionPinned } } : node
+    ));
+  }, [selectionPinned, setNodes]);
+
+  // Outline pinned nodes so it is clear which ones layouts leave alone
+  const displayNodes = useMemo(
+    () => nodes.map(node => node.data?.pinned ? { ...node, className: 'canvas-node-pinned' } : node),
+    [nodes]
+  );
+
   // Helper function for location completeness calculation
   const calculateLocationCompleteness = useCallback((location: any) => {
     const requiredFields = ['name', 'type', 'description'];
@@ -674,15 +808,36 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
         {onBack && (
           <button
             onClick={onBack}
-            className="absolute top-4 left-4 z-10 flex items-center gap-2 px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+            className="absolute top-4 left-4 z-30 flex items-center gap-2 px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
           >
             <ArrowLeft className="w-4 h-4" />
             <span className="text-sm font-medium">Back</span>
           </button>
         )}
 
+        {/* View mode */}
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-white border border-gray-200 rounded-lg shadow-sm px-2 py-1">
+          <VisualizationSelector
+            currentMode={canvasMode}
+            onModeChange={setCanvasMode}
+            availableModes={['canvas', 'timeline', 'relationships']}
+          />
+        </div>
+
+        {canvasMode === 'timeline' && (
+          <div className="absolute inset-0 z-10 pt-16 bg-white">
+            <TimelineView projectId={projectId} nodes={nodes} onUpdateNode={handleNodeDataChange} />
+          </div>
+        )}
+
+        {canvasMode === 'relationships' && (
+          <div className="absolute inset-0 z-10 pt-16 bg-white">
+            <RelationshipGraph projectId={projectId} />
+          </div>
+        )}
+
         {/* Connection Controls */}
-        {nodes.length > 0 && (
+        {nodes.length > 0 && canvasMode === 'canvas' && (
           <ConnectionControls
             settings={connectionSettings}
             onToggle={toggleConnectionType}
@@ -695,7 +850,7 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
         )}
 
         <ReactFlow
-          nodes={nodes}
+          nodes={displayNodes}
           edges={combinedEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={(changes) => {
@@ -734,8 +889,19 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
           />
         </ReactFlow>
 
+        {aiAnalysis && (
+          <AIAnalysisPanel
+            key={aiAnalysis}
+            kind={aiAnalysis}
+            projectId={projectId}
+            nodes={nodes}
+            edges={userEdges}
+            onClose={() => setAIAnalysis(null)}
+          />
+        )}
+
         {/* Welcome Message */}
-        {nodes.length === 0 && (
+        {nodes.length === 0 && canvasMode === 'canvas' && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
             <div className="text-center p-8 bg-white rounded-lg shadow-lg border border-gray-200 max-w-md">
               <div className="text-4xl mb-4">🎨</div>
@@ -768,9 +934,8 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
         onBack={onBack}
         onExport={handleExport}
         lastSynced={lastSynced}
-        isSyncing={isSaving || syncStatus === 'syncing'}
-        selectedNodes={[]} // TODO: Implement selection tracking
-        syncStatus={syncStatus}
+        isSyncing={isSaving || isRefreshingPlanning}
+        selectedNodes={selectedNodeIds}
         isOnline={isOnline}
         canvasMode={canvasMode}
         onModeChange={setCanvasMode}
@@ -778,6 +943,18 @@ const CanvasFlow: React.FC<CanvasProps> = ({ projectId, onBack }) => {
         nodeCount={nodes.length}
         edgeCount={combinedEdges.length}
         hasChanges={hasChanges}
+        onCheckContinuity={projectId ? handleCheckContinuity : undefined}
+        isCheckingContinuity={isCheckingContinuity}
+        continuityResult={continuityResult}
+        onRunAIAnalysis={setAIAnalysis}
+        activeAIAnalysis={aiAnalysis}
+        onLayout={handleLayout}
+        onUndoLayout={handleUndoLayout}
+        canUndoLayout={layoutHistory.length > 0}
+        keepPinned={keepPinned}
+        onKeepPinnedChange={setKeepPinned}
+        onTogglePin={handleTogglePin}
+        selectionPinned={selectionPinned}
       />
 
       {/* Integration Modal */}
@@ -0,0 +1,396 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Bookmark, Clock, FileText, RotateCcw, Save, Tag, Undo2, X } from 'lucide-react';
+import { chapterService, Chapter } from '../services/chapterService';
+import { autoSaveService, ContentDraft } from '../services/autoSaveService';
+import { diffParagraphs, cherryPickParagraph, summarizeDiff, ParagraphDiff } from '../utils/textDiff';
+
+// The live chapter content is shown as a pseudo-version at the top of the timeline
+const CURRENT_VERSION_ID = 'current';
+
+interface ChapterVersion {
+  id: string;
+  label?: string;
+  saveType: ContentDraft['saveType'] | 'current';
+  content: string;
+  title: string;
+  wordCount: number;
+  createdAt: Date;
+}
+
+export function ChapterVersionHistory() {
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [selectedChapterId, setSelectedChapterId] = useState<string>('');
+  const [versions, setVersions] = useState<ChapterVersion[]>([]);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>(CURRENT_VERSION_ID);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    chapterService.getAllChapters().then(allChapters => {
+      setChapters(allChapters);
+      if (allChapters.length > 0) setSelectedChapterId(allChapters[0].id);
+    });
+  }, []);
+
+  const loadVersions = useCallback(async (chapterId: string, keepSelection = false) => {
+    if (!chapterId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [chapter, drafts, snapshots] = await Promise.all([
+        chapterService.getChapter(chapterId),
+        autoSaveService.getChapterDrafts(chapterId, 50),
+        autoSaveService.getNamedSnapshots(chapterId)
+      ]);
+
+      // Named snapshots may be older than the recent-drafts window, so merge both lists
+      const byId = new Map<string, ContentDraft>();
+      [...drafts, ...snapshots].forEach(draft => byId.set(draft.id, draft));
+      const history: ChapterVersion[] = Array.from(byId.values())
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(draft => ({ ...draft }));
+
+      const current: ChapterVersion[] = chapter
+        ? [{
+            id: CURRENT_VERSION_ID,
+            saveType: 'current',
+            content: chapter.content,
+            title: chapter.title,
+            wordCount: chapter.wordCount,
+            createdAt: new Date(chapter.updatedAt)
+          }]
+        : [];
+
+      setVersions([...current, ...history]);
+      // Keep comparing the same versions after a restore so further paragraphs can be picked
+      if (!keepSelection) {
+        setToId(CURRENT_VERSION_ID);
+        setFromId(history[0]?.id ?? null);
+      }
+    } catch (err) {
+      console.error('Error loading chapter versions:', err);
+      setError('Failed to load version history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVersions(selectedChapterId);
+  }, [selectedChapterId, loadVersions]);
+
+  const fromVersion = versions.find(version => version.id === fromId);
+  const toVersion = versions.find(version => version.id === toId);
+  const currentVersion = versions.find(version => version.id === CURRENT_VERSION_ID);
+
+  const diffs = useMemo<ParagraphDiff[]>(
+    () => (fromVersion && toVersion ? diffParagraphs(fromVersion.content, toVersion.content) : []),
+    [fromVersion, toVersion]
+  );
+  const summary = useMemo(() => summarizeDiff(diffs), [diffs]);
+  // Unchanged empty paragraphs and rules carry markup but nothing to read
+  const visibleDiffs = diffs.filter(diff =>
+    diff.op !== 'equal' || (!onlyChanges && diff.words.some(part => part.text.trim()))
+  );
+
+  // Writes content to the chapter, keeping a backup of what it replaces
+  const writeChapterContent = async (content: string) => {
+    if (!currentVersion) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await autoSaveService.createBackup({
+        chapterId: selectedChapterId,
+        content: currentVersion.content,
+        title: currentVersion.title,
+        wordCount: currentVersion.wordCount
+      });
+      const updated = await chapterService.updateChapter(selectedChapterId, { content });
+      if (!updated) throw new Error('Chapter update failed');
+      await loadVersions(selectedChapterId, true);
+    } catch (err) {
+      console.error('Error restoring chapter content:', err);
+      setError('Failed to update the chapter. Your current text was not changed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: ChapterVersion) => {
+    const name = version.label || version.createdAt.toLocaleString();
+    if (!window.confirm(`Replace the current chapter text with the version from ${name}? A backup of the current text is saved first.`)) {
+      return;
+    }
+    await writeChapterContent(version.content);
+  };
+
+  const handleCherryPick = async (diff: ParagraphDiff) => {
+    if (!currentVersion) return;
+    await writeChapterContent(cherryPickParagraph(currentVersion.content, diff));
+  };
+
+  const handleCreateSnapshot = async () => {
+    if (!currentVersion || !snapshotName.trim()) return;
+    setIsSaving(true);
+    const snapshot = await autoSaveService.createSnapshot({
+      chapterId: selectedChapterId,
+      content: currentVersion.content,
+      title: currentVersion.title,
+      wordCount: currentVersion.wordCount
+    }, snapshotName);
+    setIsSaving(false);
+
+    if (snapshot) {
+      setSnapshotName('');
+      await loadVersions(selectedChapterId, true);
+    } else {
+      setError('Failed to save snapshot.');
+    }
+  };
+
+  const handleSaveLabel = async (versionId: string) => {
+    const saved = await autoSaveService.setDraftLabel(versionId, labelDraft || null);
+    setEditingLabelId(null);
+    if (saved) {
+      setVersions(prev => prev.map(version =>
+        version.id === versionId ? { ...version, label: labelDraft.trim() || undefined } : version
+      ));
+    }
+  };
+
+  const getVersionName = (version: ChapterVersion) => {
+    if (version.id === CURRENT_VERSION_ID) return 'Current text';
+    if (version.label) return version.label;
+    switch (version.saveType) {
+      case 'manual':
+        return 'Manual save';
+      case 'backup':
+        return 'Backup';
+      default:
+        return 'Auto-save';
+    }
+  };
+
+  if (chapters.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <FileText className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No chapters yet</h3>
+          <p className="text-gray-600">Chapter versions will appear here once you start writing.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Revision timeline */}
+      <div className="w-80 border-r border-gray-200 flex flex-col">
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <select
+            value={selectedChapterId}
+            onChange={(e) => setSelectedChapterId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent"
+          >
+            {chapters.map(chapter => (
+              <option key={chapter.id} value={chapter.id}>{chapter.title}</option>
+            ))}
+          </select>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateSnapshot()}
+              placeholder="Snapshot name, e.g. Sent to beta readers"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent"
+            />
+            <button
+              onClick={handleCreateSnapshot}
+              disabled={!snapshotName.trim() || isSaving}
+              className="px-3 py-2 bg-[#ff4e00] text-white rounded-lg hover:bg-[#ff4e00]/80 transition-colors disabled:opacity-50"
+              title="Save named snapshot"
+            >
+              <Save className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">Named snapshots are kept permanently.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="w-6 h-6 border-4 border-[#ff4e00] border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            versions.map(version => (
+              <div
+                key={version.id}
+                className={`px-4 py-3 border-b border-gray-100 ${
+                  version.id === fromId || version.id === toId ? 'bg-[#e8ddc1]' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  {editingLabelId === version.id ? (
+                    <input
+                      type="text"
+                      autoFocus
+                      value={labelDraft}
+                      onChange={(e) => setLabelDraft(e.target.value)}
+                      onBlur={() => handleSaveLabel(version.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveLabel(version.id);
+                        if (e.key === 'Escape') setEditingLabelId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded"
+                    />
+                  ) : (
+                    <span className="flex items-center gap-1 text-sm font-medium text-gray-900 truncate">
+                      {version.label && <Bookmark className="w-3 h-3 text-[#ff4e00] flex-shrink-0" />}
+                      {getVersionName(version)}
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500 flex-shrink-0">{version.wordCount} words</span>
+                </div>
+
+                <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                  <Clock className="w-3 h-3" />
+                  {version.createdAt.toLocaleString()}
+                </div>
+
+                <div className="flex items-center gap-2 mt-2 text-xs">
+                  <button
+                    onClick={() => setFromId(version.id)}
+                    className={`px-2 py-0.5 rounded border transition-colors ${
+                      version.id === fromId ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    Old
+                  </button>
+                  <button
+                    onClick={() => setToId(version.id)}
+                    className={`px-2 py-0.5 rounded border transition-colors ${
+                      version.id === toId ? 'bg-green-100 border-green-300 text-green-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    New
+                  </button>
+                  {version.id !== CURRENT_VERSION_ID && (
+                    <>
+                      <button
+                        onClick={() => {
+                          setEditingLabelId(version.id);
+                          setLabelDraft(version.label || '');
+                        }}
+                        className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                        title={version.label ? 'Rename snapshot' : 'Name this version'}
+                      >
+                        <Tag className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleRestore(version)}
+                        disabled={isSaving}
+                        className="p-1 rounded hover:bg-gray-100 text-gray-500 disabled:opacity-50"
+                        title="Restore this version"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Diff viewer */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            {fromVersion && toVersion ? (
+              <>
+                Comparing <span className="font-medium">{getVersionName(fromVersion)}</span> with{' '}
+                <span className="font-medium">{getVersionName(toVersion)}</span>
+                <span className="ml-3 text-green-700">+{summary.added}</span>
+                <span className="ml-2 text-red-700">-{summary.removed}</span>
+              </>
+            ) : (
+              'Pick an old and a new version to compare'
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={onlyChanges}
+              onChange={(e) => setOnlyChanges(e.target.checked)}
+            />
+            Only show changes
+          </label>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-3 px-3 py-2 bg-red-50 border border-red-200 rounded text-sm text-red-700 flex items-center justify-between">
+            {error}
+            <button onClick={() => setError(null)}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {fromVersion && toVersion && visibleDiffs.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-12">These versions are identical.</p>
+          )}
+
+          {visibleDiffs.map((diff, index) => (
+            <div
+              key={index}
+              className={`group relative rounded-lg border p-3 text-sm leading-relaxed ${
+                diff.op === 'equal' ? 'border-transparent text-gray-500' : 'bg-white border-[#C6C5C5] text-gray-900'
+              }`}
+            >
+              <p className="whitespace-pre-wrap">
+                {diff.words.map((part, partIndex) => (
+                  <span
+                    key={partIndex}
+                    className={
+                      part.op === 'insert'
+                        ? 'bg-green-100 text-green-900'
+                        : part.op === 'delete'
+                          ? 'bg-red-100 text-red-900 line-through'
+                          : ''
+                    }
+                  >
+                    {part.text}
+                  </span>
+                ))}
+              </p>
+
+              {/* Cherry-picking only makes sense when applying onto the live chapter */}
+              {diff.op !== 'equal' && toId === CURRENT_VERSION_ID && fromId !== CURRENT_VERSION_ID && (
+                <button
+                  onClick={() => handleCherryPick(diff)}
+                  disabled={isSaving}
+                  className="absolute top-2 right-2 hidden group-hover:flex items-center gap-1 px-2 py-1 text-xs bg-[#e8ddc1] text-gray-700 rounded hover:bg-[#ff4e00] hover:text-white transition-colors disabled:opacity-50"
+                  title="Apply the old version of this paragraph to the current text"
+                >
+                  <Undo2 className="w-3 h-3" />
+                  {diff.op === 'insert' ? 'Remove paragraph' : 'Restore paragraph'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useLayoutEffect, RefObject } from 'react';
+import { Collaborator, RemoteCursor } from '../services/collaboration-service';
+import { getRectsForOffsets } from '../utils/textOffsets';
+
+const initialsOf = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]?.toUpperCase())
+    .join('') || '?';
+
+// Avatars of the other writers currently in the chapter
+export function CollaboratorAvatars({ peers }: { peers: Collaborator[] }) {
+  if (peers.length === 0) return null;
+
+  const visible = peers.slice(0, 4);
+  const hidden = peers.length - visible.length;
+
+  return (
+    <div className="flex items-center -space-x-2" title={peers.map(peer => peer.name).join(', ')}>
+      {visible.map(peer => (
+        <div
+          key={peer.sessionId}
+          className="w-6 h-6 rounded-full border-2 border-white flex items-center justify-center text-[10px] font-semibold text-white"
+          style={{ backgroundColor: peer.color }}
+          title={peer.name}
+        >
+          {initialsOf(peer.name)}
+        </div>
+      ))}
+      {hidden > 0 && (
+        <div className="w-6 h-6 rounded-full border-2 border-white bg-gray-400 flex items-center justify-center text-[10px] font-semibold text-white">
+          +{hidden}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CursorBox {
+  key: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface PlacedCursor {
+  cursor: RemoteCursor;
+  caret: CursorBox | null;
+  selection: CursorBox[];
+}
+
+interface RemoteCursorsProps {
+  cursors: RemoteCursor[];
+  editorRef: RefObject<HTMLDivElement>;
+  // Changes whenever the editor content changes, so positions are recomputed
+  contentVersion: string;
+}
+
+/**
+ * Draws other writers' carets and selections over the editor. Must be
+ * rendered inside the same positioned container as the editor element.
+ */
+export function RemoteCursors({ cursors, editorRef, contentVersion }: RemoteCursorsProps) {
+  const [placed, setPlaced] = useState<PlacedCursor[]>([]);
+
+  useLayoutEffect(() => {
+    const editor = editorRef.current;
+    const container = editor?.offsetParent as HTMLElement | null;
+    if (!editor || !container) {
+      setPlaced([]);
+      return;
+    }
+
+    const origin = container.getBoundingClientRect();
+    const toBox = (rect: DOMRect, key: string): CursorBox => ({
+      key,
+      left: rect.left - origin.left + container.scrollLeft,
+      top: rect.top - origin.top + container.scrollTop,
+      width: rect.width,
+      height: rect.height
+    });
+
+    setPlaced(cursors.map(cursor => {
+      const headRects = getRectsForOffsets(editor, cursor.head, cursor.head);
+      const selectionRects = cursor.anchor === cursor.head
+        ? []
+        : getRectsForOffsets(editor, cursor.anchor, cursor.head);
+
+      return {
+        cursor,
+        caret: headRects[0] ? toBox(headRects[0], 'caret') : null,
+        selection: selectionRects.map((rect, index) => toBox(rect, String(index)))
+      };
+    }));
+  }, [cursors, editorRef, contentVersion]);
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-10">
+      {placed.map(({ cursor, caret, selection }) => (
+        <div key={cursor.sessionId}>
+          {selection.map(box => (
+            <div
+              key={box.key}
+              className="absolute opacity-20"
+              style={{ left: box.left, top: box.top, width: box.width, height: box.height, backgroundColor: cursor.color }}
+            />
+          ))}
+          {caret && (
+            <div className="absolute" style={{ left: caret.left, top: caret.top, height: caret.height }}>
+              <div className="w-0.5 h-full" style={{ backgroundColor: cursor.color }} />
+              <div
+                className="absolute -top-4 left-0 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+                style={{ backgroundColor: cursor.color }}
+              >
+                {cursor.name}
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
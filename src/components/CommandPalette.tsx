@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Search,
+  FileText,
+  StickyNote,
+  Users,
+  GitBranch,
+  Zap,
+  Lightbulb,
+  Globe,
+  ListTree,
+  FileInput,
+  CornerDownLeft,
+  Loader2,
+  LucideIcon
+} from 'lucide-react';
+import { useDebounce } from '../hooks/useUtilities';
+import { searchService, SearchResult, SearchResultType, HighlightRange } from '../services/search-service';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  onSelect: (result: SearchResult) => void;
+}
+
+const RESULT_GROUPS: { type: SearchResultType; label: string; icon: LucideIcon }[] = [
+  { type: 'chapter', label: 'Chapters', icon: FileText },
+  { type: 'note', label: 'Notes', icon: StickyNote },
+  { type: 'character', label: 'Characters', icon: Users },
+  { type: 'plot_thread', label: 'Plot Threads', icon: GitBranch },
+  { type: 'plot_event', label: 'Plot Events', icon: Zap },
+  { type: 'theme', label: 'Themes', icon: Lightbulb },
+  { type: 'world_element', label: 'World Building', icon: Globe },
+  { type: 'outline_node', label: 'Outline', icon: ListTree },
+  { type: 'imported_item', label: 'Imported Files', icon: FileInput }
+];
+
+function Highlighted({ text, ranges }: { text: string; ranges: HighlightRange[] }) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > position) parts.push(text.slice(position, range.start));
+    parts.push(
+      <mark key={index} className="bg-[#ff4e00]/20 text-inherit rounded-sm">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export function CommandPalette({ isOpen, projectId, onClose, onSelect }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const debouncedQuery = useDebounce(query, 150);
+
+  // Start from a fresh index each time the palette opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setQuery('');
+    setResults([]);
+    setActiveIndex(0);
+    inputRef.current?.focus();
+    if (!projectId) return;
+
+    let cancelled = false;
+    setIsIndexing(true);
+    searchService.indexProject(projectId, true)
+      .catch(error => console.error('Error building search index:', error))
+      .finally(() => {
+        if (!cancelled) setIsIndexing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    if (!isOpen || !projectId || debouncedQuery.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    searchService.search(projectId, debouncedQuery)
+      .then(found => {
+        if (cancelled) return;
+        setResults(found);
+        setActiveIndex(0);
+      })
+      .catch(error => console.error('Error searching project:', error))
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId, debouncedQuery]);
+
+  // Show results grouped by type; keyboard order follows the grouping
+  const groups = RESULT_GROUPS
+    .map(group => ({ ...group, results: results.filter(result => result.document.type === group.type) }))
+    .filter(group => group.results.length > 0);
+  const ordered = groups.flatMap(group => group.results);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const choose = (result: SearchResult | undefined) => {
+    if (!result) return;
+    onSelect(result);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, ordered.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(ordered[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const busy = isIndexing || isSearching;
+  const hasQuery = debouncedQuery.trim().length >= 2;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 pt-[12vh] px-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Query */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-200">
+          <Search className="w-5 h-5 text-[#889096] flex-shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={projectId ? 'Search chapters, notes, characters, plot, world...' : 'Select a project to search'}
+            disabled={!projectId}
+            className="flex-1 text-base text-gray-900 outline-none bg-transparent font-inter placeholder-gray-400"
+          />
+          {busy && <Loader2 className="w-4 h-4 text-[#889096] animate-spin flex-shrink-0" />}
+          <kbd className="text-[10px] text-[#889096] border border-[#C6C5C5] rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {/* Results */}
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto">
+          {hasQuery && !busy && ordered.length === 0 && (
+            <p className="text-sm text-[#889096] text-center py-10">No matches for "{debouncedQuery.trim()}"</p>
+          )}
+          {!hasQuery && (
+            <p className="text-sm text-[#889096] text-center py-10">
+              {isIndexing ? 'Indexing your project...' : 'Type at least two characters to search the whole project.'}
+            </p>
+          )}
+
+          {groups.map(group => {
+            const Icon = group.icon;
+            return (
+              <div key={group.type} className="py-2">
+                <h3 className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-[#889096]">
+                  {group.label}
+                </h3>
+                {group.results.map(result => {
+                  const index = ordered.indexOf(result);
+                  const isActive = index === activeIndex;
+                  const { document } = result;
+
+                  return (
+                    <button
+                      key={document.key}
+                      data-result-index={index}
+                      onClick={() => choose(result)}
+                      onMouseMove={() => setActiveIndex(index)}
+                      className={`w-full text-left px-4 py-2 flex items-start gap-3 transition-colors ${
+                        isActive ? 'bg-[#f2eee2]' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4 text-[#889096] mt-0.5 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-gray-900 truncate">
+                            {document.title
+                              ? <Highlighted text={document.title} ranges={result.titleHighlights} />
+                              : document.subtitle}
+                          </span>
+                          {document.title && document.subtitle && (
+                            <span className="text-xs text-[#889096] truncate capitalize">{document.subtitle}</span>
+                          )}
+                        </div>
+                        {result.snippet && (
+                          <p className="text-xs text-gray-600 line-clamp-2 mt-0.5">
+                            <Highlighted text={result.snippet} ranges={result.snippetHighlights} />
+                          </p>
+                        )}
+                      </div>
+                      {isActive && <CornerDownLeft className="w-4 h-4 text-[#889096] mt-0.5 flex-shrink-0" />}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-4 px-4 py-2 border-t border-gray-200 text-[11px] text-[#889096]">
+          <span>↑↓ to navigate</span>
+          <span>Enter to open</span>
+          <span className="ml-auto">{ordered.length > 0 && `${ordered.length} results`}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
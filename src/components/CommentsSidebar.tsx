@@ -0,0 +1,336 @@
+import { useState, useLayoutEffect, RefObject } from 'react';
+import { Check, CheckCheck, MessageSquare, RotateCcw, Trash2, X } from 'lucide-react';
+import { CommentThread, CommentStatus } from '../services/comment-service';
+import { Suggestion } from '../utils/trackChanges';
+import { AnchorRange } from '../utils/textAnchors';
+import { getRectsForOffsets } from '../utils/textOffsets';
+
+const formatTime = (date: Date) =>
+  date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+interface CommentHighlightsProps {
+  threads: CommentThread[];
+  positions: Map<string, AnchorRange | null>;
+  activeThreadId: string | null;
+  editorRef: RefObject<HTMLDivElement>;
+  contentVersion: string;
+}
+
+interface HighlightBox {
+  key: string;
+  active: boolean;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Highlights commented text over the editor without touching the chapter
+ * HTML. Must be rendered inside the same positioned container as the editor.
+ */
+export function CommentHighlights({ threads, positions, activeThreadId, editorRef, contentVersion }: CommentHighlightsProps) {
+  const [boxes, setBoxes] = useState<HighlightBox[]>([]);
+
+  useLayoutEffect(() => {
+    const editor = editorRef.current;
+    const container = editor?.offsetParent as HTMLElement | null;
+    if (!editor || !container) {
+      setBoxes([]);
+      return;
+    }
+
+    const origin = container.getBoundingClientRect();
+    setBoxes(threads
+      .filter(thread => thread.status === 'open')
+      .flatMap(thread => {
+        const range = positions.get(thread.id);
+        if (!range || range.end <= range.start) return [];
+        return getRectsForOffsets(editor, range.start, range.end).map((rect, index) => ({
+          key: `${thread.id}-${index}`,
+          active: thread.id === activeThreadId,
+          left: rect.left - origin.left + container.scrollLeft,
+          top: rect.top - origin.top + container.scrollTop,
+          width: rect.width,
+          height: rect.height
+        }));
+      }));
+  }, [threads, positions, activeThreadId, editorRef, contentVersion]);
+
+  return (
+    <div className="pointer-events-none absolute inset-0">
+      {boxes.map(box => (
+        <div
+          key={box.key}
+          className={`absolute rounded-sm ${box.active ? 'bg-yellow-300/60' : 'bg-yellow-200/40'}`}
+          style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface CommentsSidebarProps {
+  threads: CommentThread[];
+  positions: Map<string, AnchorRange | null>;
+  suggestions: Suggestion[];
+  activeThreadId: string | null;
+  // Text selected for a new comment, if the writer started one
+  pendingQuote: string | null;
+  onSelectThread: (thread: CommentThread) => void;
+  onAddComment: (body: string) => void;
+  onCancelComment: () => void;
+  onReply: (thread: CommentThread, body: string) => void;
+  onSetStatus: (thread: CommentThread, status: CommentStatus) => void;
+  onDeleteThread: (thread: CommentThread) => void;
+  onAcceptSuggestion: (id: string) => void;
+  onRejectSuggestion: (id: string) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onClose: () => void;
+}
+
+function ReplyBox({ onSubmit, placeholder, autoFocus = false }: { onSubmit: (body: string) => void; placeholder: string; autoFocus?: boolean }) {
+  const [body, setBody] = useState('');
+
+  const submit = () => {
+    if (!body.trim()) return;
+    onSubmit(body.trim());
+    setBody('');
+  };
+
+  return (
+    <div className="flex items-end gap-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+        }}
+        placeholder={placeholder}
+        rows={2}
+        autoFocus={autoFocus}
+        className="flex-1 text-xs border border-[#C6C5C5] rounded px-2 py-1 resize-none focus:outline-none focus:border-[#ff4e00]"
+      />
+      <button
+        onClick={submit}
+        disabled={!body.trim()}
+        className="px-2 py-1 text-xs bg-[#ff4e00] text-white rounded hover:bg-[#ff4e00]/90 disabled:opacity-50 transition-colors"
+      >
+        Post
+      </button>
+    </div>
+  );
+}
+
+export function CommentsSidebar({
+  threads,
+  positions,
+  suggestions,
+  activeThreadId,
+  pendingQuote,
+  onSelectThread,
+  onAddComment,
+  onCancelComment,
+  onReply,
+  onSetStatus,
+  onDeleteThread,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  onAcceptAll,
+  onRejectAll,
+  onClose
+}: CommentsSidebarProps) {
+  const [showResolved, setShowResolved] = useState(false);
+
+  // Reading order; threads whose text was deleted go last
+  const ordered = [...threads].sort((a, b) =>
+    (positions.get(a.id)?.start ?? Infinity) - (positions.get(b.id)?.start ?? Infinity)
+  );
+  const open = ordered.filter(thread => thread.status === 'open');
+  const resolved = ordered.filter(thread => thread.status === 'resolved');
+
+  const renderThread = (thread: CommentThread) => {
+    const isDetached = !positions.get(thread.id);
+    const isActive = thread.id === activeThreadId;
+
+    return (
+      <div
+        key={thread.id}
+        onClick={() => onSelectThread(thread)}
+        className={`rounded-lg border p-3 cursor-pointer transition-colors ${
+          isActive ? 'border-[#ff4e00] bg-white' : 'border-gray-200 bg-white hover:border-gray-300'
+        } ${thread.status === 'resolved' ? 'opacity-70' : ''}`}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <p className="text-xs text-[#889096] italic line-clamp-2 border-l-2 border-yellow-300 pl-2">
+            {thread.anchor.text || '(empty selection)'}
+          </p>
+          {isDetached && (
+            <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 whitespace-nowrap" title="The commented text was deleted">
+              Detached
+            </span>
+          )}
+        </div>
+
+        {[thread, ...thread.replies].map(comment => (
+          <div key={comment.id} className="mb-2">
+            <div className="flex items-center justify-between text-[11px] text-[#889096]">
+              <span className="font-medium text-gray-700">{comment.authorName}</span>
+              <span>{formatTime(comment.createdAt)}</span>
+            </div>
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+          </div>
+        ))}
+
+        {isActive && (
+          <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+            {thread.status === 'open' && (
+              <ReplyBox placeholder="Reply..." onSubmit={(body) => onReply(thread, body)} />
+            )}
+            <div className="flex items-center gap-1">
+              {thread.status === 'open' ? (
+                <button
+                  onClick={() => onSetStatus(thread, 'resolved')}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-green-700 rounded hover:bg-green-50 transition-colors"
+                >
+                  <Check className="w-3 h-3" />
+                  Resolve
+                </button>
+              ) : (
+                <button
+                  onClick={() => onSetStatus(thread, 'open')}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-100 transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Reopen
+                </button>
+              )}
+              <button
+                onClick={() => onDeleteThread(thread)}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-red-600 rounded hover:bg-red-50 transition-colors"
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-72 flex-shrink-0 h-full flex flex-col bg-gray-50 border border-gray-200 rounded-lg shadow-sm mr-3 md:mr-6 mb-3 md:mb-6 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-[#889096]" />
+          <h3 className="text-sm font-semibold text-gray-900">Review</h3>
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-gray-200 transition-colors" title="Close">
+          <X className="w-4 h-4 text-[#889096]" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {/* Suggestions */}
+        {suggestions.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-[#889096]">
+                Suggestions ({suggestions.length})
+              </h4>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={onAcceptAll}
+                  className="flex items-center gap-1 px-2 py-0.5 text-xs text-green-700 rounded hover:bg-green-50 transition-colors"
+                  title="Accept all suggestions"
+                >
+                  <CheckCheck className="w-3 h-3" />
+                  All
+                </button>
+                <button
+                  onClick={onRejectAll}
+                  className="flex items-center gap-1 px-2 py-0.5 text-xs text-red-600 rounded hover:bg-red-50 transition-colors"
+                  title="Reject all suggestions"
+                >
+                  <X className="w-3 h-3" />
+                  All
+                </button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {suggestions.map(suggestion => (
+                <div key={suggestion.id} className="rounded-lg border border-gray-200 bg-white p-2">
+                  <div className="flex items-center justify-between text-[11px] text-[#889096] mb-1">
+                    <span>
+                      <span className="font-medium text-gray-700">{suggestion.authorName}</span>
+                      {suggestion.type === 'insert' ? ' added' : ' deleted'}
+                    </span>
+                    <span>{formatTime(suggestion.createdAt)}</span>
+                  </div>
+                  <p className={`text-sm line-clamp-3 ${
+                    suggestion.type === 'insert' ? 'text-green-700 underline' : 'text-red-600 line-through'
+                  }`}>
+                    {suggestion.text || '(line break)'}
+                  </p>
+                  <div className="flex items-center gap-1 mt-1">
+                    <button
+                      onClick={() => onAcceptSuggestion(suggestion.id)}
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs text-green-700 rounded hover:bg-green-50 transition-colors"
+                    >
+                      <Check className="w-3 h-3" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => onRejectSuggestion(suggestion.id)}
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs text-red-600 rounded hover:bg-red-50 transition-colors"
+                    >
+                      <X className="w-3 h-3" />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* New comment */}
+        {pendingQuote !== null && (
+          <div className="rounded-lg border border-[#ff4e00] bg-white p-3 space-y-2">
+            <p className="text-xs text-[#889096] italic line-clamp-2 border-l-2 border-yellow-300 pl-2">
+              {pendingQuote}
+            </p>
+            <ReplyBox placeholder="Add a comment..." onSubmit={onAddComment} autoFocus />
+            <button onClick={onCancelComment} className="text-xs text-[#889096] hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {/* Threads */}
+        <div className="space-y-2">
+          {open.length === 0 && pendingQuote === null && (
+            <p className="text-xs text-[#889096] text-center py-4">
+              Select text and use the comment button to start a thread.
+            </p>
+          )}
+          {open.map(renderThread)}
+        </div>
+
+        {resolved.length > 0 && (
+          <div>
+            <button
+              onClick={() => setShowResolved(!showResolved)}
+              className="text-xs text-[#889096] hover:text-gray-700 mb-2"
+            >
+              {showResolved ? 'Hide' : 'Show'} {resolved.length} resolved
+            </button>
+            {showResolved && <div className="space-y-2">{resolved.map(renderThread)}</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { KanbanApp } from './KanbanApp';
+import { WritingStatistics } from './WritingStatistics';
+import { Project, TaskLink } from '../types/kanban';
 
 interface DashboardPageProps {
   onViewChange?: (view: string) => void;
+  // Project the statistics tab reports on
+  projectId?: string;
+  onOpenTaskLink?: (project: Project, link: TaskLink) => void;
 }
 
-export function DashboardPage({ onViewChange }: DashboardPageProps) {
+export function DashboardPage({ onViewChange, projectId, onOpenTaskLink }: DashboardPageProps) {
+  const [activeTab, setActiveTab] = useState<'board' | 'statistics'>('board');
+
   return (
     <div className="h-full w-full">
       {/* Dashboard Header */}
@@ -15,6 +22,26 @@ export function DashboardPage({ onViewChange }: DashboardPageProps) {
             <h1 className="text-2xl font-bold text-gray-900">Project Dashboard</h1>
             <p className="text-gray-600 mt-1">Manage your writing projects with Kanban boards</p>
           </div>
+
+          {/* Tabs */}
+          <div className="flex items-center gap-1 bg-[#e8ddc1] rounded-lg p-1">
+            {([
+              { id: 'board', label: 'Board' },
+              { id: 'statistics', label: 'Statistics' }
+            ] as const).map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  activeTab === tab.id
+                    ? 'bg-[#f2eee2] text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
           
           <div className="flex items-center gap-3">
             <button
@@ -39,9 +66,16 @@ export function DashboardPage({ onViewChange }: DashboardPageProps) {
         </div>
       </div>
 
-      {/* Kanban Board Integration */}
       <div className="h-[calc(100vh-120px)]">
-        <KanbanApp />
+        {activeTab === 'board' ? (
+          <KanbanApp onOpenTaskLink={onOpenTaskLink} />
+        ) : projectId ? (
+          <WritingStatistics projectId={projectId} />
+        ) : (
+          <div className="flex items-center justify-center h-64 text-[#889096]">
+            Create a project to start tracking your writing.
+          </div>
+        )}
       </div>
     </div>
   );
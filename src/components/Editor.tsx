@@ -12,12 +12,39 @@ import {
   RotateCw,
   Check,
   Cloud,
-  ChevronDown
+  ChevronDown,
+  SeparatorHorizontal,
+  Clapperboard,
+  MessageSquare,
+  MessageSquarePlus,
+  PenLine
 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
 import { EditorContent } from '../types';
 import { useWordCount, useUndo, useKeyboard } from '../hooks/useUtilities';
 import { useUnifiedAutoSave } from '../hooks/useUnifiedAutoSave';
 import { chapterService } from '../services/chapterService';
+import { writingStatsService } from '../services/writing-stats-service';
+import { sceneService, createSceneBreakHtml, Scene } from '../services/scene-service';
+import { ScenesPanel } from './ScenesPanel';
+import { SyncIndicator } from './SyncIndicator';
+import { CollaboratorAvatars, RemoteCursors } from './CollaborationPresence';
+import { useChapterCollaboration } from '../hooks/useChapterCollaboration';
+import { getSelectionOffsets, setSelectionOffsets, shiftOffset } from '../utils/textOffsets';
+import { useAuth } from '../contexts/AuthContext';
+import { useChapterComments } from '../hooks/useChapterComments';
+import { CommentsSidebar, CommentHighlights } from './CommentsSidebar';
+import { CommentThread } from '../services/comment-service';
+import {
+  handleSuggestionInput,
+  getSuggestions,
+  acceptSuggestion,
+  rejectSuggestion,
+  acceptAllSuggestions,
+  rejectAllSuggestions,
+  acceptedText,
+  Suggestion
+} from '../utils/trackChanges';
 
 interface EditorProps {
   content: EditorContent;
@@ -25,6 +52,9 @@ interface EditorProps {
   selectedChapter?: { id: string; title: string; number?: number } | null;
   isLoading?: boolean;
   className?: string;
+  // Text to select once the chapter is showing, e.g. a project search match
+  focusRange?: { chapterId: string; start: number; end: number } | null;
+  onFocusHandled?: () => void;
 }
 
 const FONT_OPTIONS = [
@@ -169,9 +199,12 @@ export const Editor: React.FC<EditorProps> = ({
   onChange, 
   selectedChapter = null,
   isLoading = false,
-  className = ''
+  className = '',
+  focusRange = null,
+  onFocusHandled
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
   
   // Use stable state that doesn't flicker
   const [localTitle, setLocalTitle] = useState(content.title);
@@ -183,14 +216,25 @@ export const Editor: React.FC<EditorProps> = ({
   const [currentFontSize, setCurrentFontSize] = useState(16);
   const [currentAlignment, setCurrentAlignment] = useState('left');
   const [showWordCount, setShowWordCount] = useState(true);
+
+  // Scenes in the current chapter, kept in step with its scene-break markers
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [showScenesPanel, setShowScenesPanel] = useState(false);
+
+  // Review: comment threads and suggestion (track-changes) mode
+  const [showComments, setShowComments] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [pendingComment, setPendingComment] = useState<{ start: number; end: number; quote: string } | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   
   // Get chapter number from selected chapter
   const [chapterNumber, setChapterNumber] = useState<number | null>(null);
   
-  // Helper function to get text content safely
+  // Helper function to get text content safely, with suggestions as if accepted
   function getTextContent(): string {
     if (editorRef.current) {
-      return editorRef.current.textContent || '';
+      return acceptedText(editorRef.current);
     }
     return '';
   }
@@ -202,6 +246,65 @@ export const Editor: React.FC<EditorProps> = ({
     content: localContent
   });
 
+  // Word count as last saved, so each save can log how many words it added
+  const savedWordsRef = useRef<{ chapter: EditorProps['selectedChapter']; words: number } | null>(null);
+
+  // Apply a co-writer's edit (or a collaborative undo) without losing the local caret
+  const handleRemoteContent = useCallback((html: string) => {
+    const editor = editorRef.current;
+    if (!editor || editor.innerHTML === html) return;
+
+    // Words a co-writer added aren't this writer's, so they move the baseline
+    if (savedWordsRef.current) {
+      savedWordsRef.current.words += chapterService.countWords(html) - chapterService.countWords(editor.innerHTML);
+    }
+
+    const oldText = editor.textContent || '';
+    const selection = getSelectionOffsets(editor);
+    editor.innerHTML = html;
+    const newText = editor.textContent || '';
+
+    if (selection) {
+      setSelectionOffsets(editor, {
+        anchor: shiftOffset(selection.anchor, oldText, newText),
+        head: shiftOffset(selection.head, oldText, newText)
+      });
+    }
+
+    setLocalContent(html);
+    setHasUnsavedChanges(true);
+    const acceptedWords = acceptedText(editor).trim();
+    onChange({
+      title: localTitle,
+      content: html,
+      wordCount: acceptedWords === '' ? 0 : acceptedWords.split(/\s+/).length,
+      lastSaved: new Date(),
+    });
+  }, [localTitle, onChange]);
+
+  const collaboration = useChapterCollaboration(selectedChapter?.id || null, content.content, handleRemoteContent);
+  const { updateCursor, applyLocalHtml } = collaboration;
+
+  useEffect(() => {
+    if (selectedChapter && savedWordsRef.current?.chapter !== selectedChapter) {
+      savedWordsRef.current = { chapter: selectedChapter, words: chapterService.countWords(content.content) };
+    }
+  }, [selectedChapter, content.content]);
+
+  // Share the local caret and selection with co-writers
+  useEffect(() => {
+    if (!collaboration.isCollaborating) return;
+
+    const handleSelectionChange = () => {
+      if (!editorRef.current) return;
+      const selection = getSelectionOffsets(editorRef.current);
+      if (selection) updateCursor(selection.anchor, selection.head);
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [collaboration.isCollaborating, updateCursor]);
+
   // Enhanced auto-save with useUnifiedAutoSave hook
   const { 
     lastSaved, 
@@ -217,13 +320,33 @@ export const Editor: React.FC<EditorProps> = ({
       enableCloud: true,
       delay: 2000,
       onSaveSuccess: (data) => {
-        // Save to database when auto-save triggers
+        // Every writer logs their own words, online or not
         if (selectedChapter?.id) {
+          const words = chapterService.countWords(data.content);
+          if (savedWordsRef.current?.chapter === selectedChapter) {
+            writingStatsService.logWords(selectedChapter.id, words - savedWordsRef.current.words);
+          }
+          savedWordsRef.current = { chapter: selectedChapter, words };
+        }
+
+        // Save to database when auto-save triggers. With co-writers present
+        // only one of them writes, since everyone holds the same document.
+        if (selectedChapter?.id && collaboration.shouldPersist()) {
           chapterService.updateChapter(selectedChapter.id, {
             title: data.title,
             content: data.content,
             wordCount: data.wordCount
-          }).catch(error => {
+          })
+            .then(saved => {
+              // Refused, e.g. for a co-writer who doesn't own the project;
+              // another writer in the room saves instead
+              if (!saved) {
+                collaboration.reportSaveRejected();
+                return;
+              }
+              return sceneService.syncChapterScenes(selectedChapter.id, data.content).then(setScenes);
+            })
+            .catch(error => {
             console.error('Failed to save chapter to database:', error);
           });
         }
@@ -263,6 +386,28 @@ export const Editor: React.FC<EditorProps> = ({
     }
   }, [selectedChapter, content]);
 
+  const comments = useChapterComments(selectedChapter?.id || null, editorRef, localContent);
+  const { addThread } = comments;
+
+  // Pending suggestions are read from the chapter markup
+  useEffect(() => {
+    setSuggestions(editorRef.current ? getSuggestions(editorRef.current) : []);
+  }, [localContent]);
+
+  useEffect(() => {
+    setPendingComment(null);
+    setActiveThreadId(null);
+  }, [selectedChapter?.id]);
+
+  // Load scene records for the selected chapter
+  useEffect(() => {
+    if (!selectedChapter?.id) {
+      setScenes([]);
+      return;
+    }
+    sceneService.getChapterScenes(selectedChapter.id).then(setScenes);
+  }, [selectedChapter?.id]);
+
   // Keyboard shortcuts
   useKeyboard({
     'ctrl+s': (e) => {
@@ -271,11 +416,14 @@ export const Editor: React.FC<EditorProps> = ({
     },
     'ctrl+z': (e) => {
       e.preventDefault();
-      if (canUndo) undo();
+      // Co-writing: undo only this writer's own edits
+      if (collaboration.isCollaborating) collaboration.undo();
+      else if (canUndo) undo();
     },
     'ctrl+y': (e) => {
       e.preventDefault();
-      if (canRedo) redo();
+      if (collaboration.isCollaborating) collaboration.redo();
+      else if (canRedo) redo();
     },
     'ctrl+b': (e) => {
       e.preventDefault();
@@ -289,7 +437,7 @@ export const Editor: React.FC<EditorProps> = ({
       e.preventDefault();
       formatText('underline');
     }
-  }, [canUndo, canRedo, undo, redo]);
+  }, [canUndo, canRedo, undo, redo, collaboration.isCollaborating, collaboration.undo, collaboration.redo]);
 
   const handleContentChange = useCallback(() => {
     if (editorRef.current) {
@@ -298,6 +446,7 @@ export const Editor: React.FC<EditorProps> = ({
       
       setLocalContent(newContent);
       setUndoState({ title: localTitle, content: newContent });
+      applyLocalHtml(newContent);
       setHasUnsavedChanges(true);
       
       onChange({
@@ -307,7 +456,69 @@ export const Editor: React.FC<EditorProps> = ({
         lastSaved: new Date(),
       });
     }
-  }, [localTitle, onChange, setUndoState]);
+  }, [localTitle, onChange, setUndoState, applyLocalHtml]);
+
+  // In suggestion mode typing and deleting are recorded as proposals
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isSuggesting || !editor || !user) return;
+
+    const author = { id: user.id, name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'Anonymous' };
+    const handleBeforeInput = (event: InputEvent) => {
+      if (handleSuggestionInput(event, editor, author)) handleContentChange();
+    };
+
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput);
+  }, [isSuggesting, user, handleContentChange, selectedChapter?.id]);
+
+  const resolveSuggestions = useCallback((apply: (root: HTMLElement) => void) => {
+    if (!editorRef.current) return;
+    apply(editorRef.current);
+    handleContentChange();
+  }, [handleContentChange]);
+
+  const startComment = useCallback(() => {
+    if (!editorRef.current) return;
+    const selection = getSelectionOffsets(editorRef.current);
+    if (!selection || selection.anchor === selection.head) return;
+
+    const start = Math.min(selection.anchor, selection.head);
+    const end = Math.max(selection.anchor, selection.head);
+    setPendingComment({ start, end, quote: (editorRef.current.textContent || '').slice(start, end) });
+    setShowComments(true);
+  }, []);
+
+  const addComment = useCallback(async (body: string) => {
+    if (!pendingComment) return;
+    const thread = await addThread(pendingComment, body);
+    if (thread) {
+      setPendingComment(null);
+      setActiveThreadId(thread.id);
+    }
+  }, [pendingComment, addThread]);
+
+  // Select the commented text and bring it into view
+  const selectThread = useCallback((thread: CommentThread) => {
+    setActiveThreadId(thread.id);
+    const range = comments.positions.get(thread.id);
+    if (!editorRef.current || !range) return;
+
+    setSelectionOffsets(editorRef.current, { anchor: range.start, head: range.end });
+    window.getSelection()?.anchorNode?.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [comments.positions]);
+
+  // Select a search match once its chapter has loaded into the editor
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!focusRange || isLoading || !editor || selectedChapter?.id !== focusRange.chapterId) return;
+    if ((editor.textContent || '').length < focusRange.end) return;
+
+    editor.focus();
+    setSelectionOffsets(editor, { anchor: focusRange.start, head: focusRange.end });
+    window.getSelection()?.anchorNode?.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    onFocusHandled?.();
+  }, [focusRange, isLoading, selectedChapter?.id, localContent, onFocusHandled]);
 
   const handleTitleChange = useCallback((newTitle: string) => {
     setLocalTitle(newTitle);
@@ -331,6 +542,22 @@ export const Editor: React.FC<EditorProps> = ({
     handleContentChange();
   }, [handleContentChange]);
 
+  const insertSceneBreak = useCallback(() => {
+    editorRef.current?.focus();
+    document.execCommand('insertHTML', false, `${createSceneBreakHtml(uuidv4())}<p><br></p>`);
+    handleContentChange();
+  }, [handleContentChange]);
+
+  const jumpToScene = useCallback((scene: Scene, index: number) => {
+    if (!editorRef.current) return;
+    const marker = editorRef.current.querySelector(`hr[data-scene-id="${scene.id}"]`);
+    if (marker) {
+      marker.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else if (index === 0) {
+      editorRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, []);
+
   const applyFont = useCallback((font: string) => {
     setCurrentFont(font);
     if (editorRef.current) {
@@ -501,6 +728,36 @@ export const Editor: React.FC<EditorProps> = ({
           currentAlignment={currentAlignment} 
           onAlignmentChange={applyAlignment} 
         />
+
+        {/* Scene Break */}
+        <button
+          onClick={insertSceneBreak}
+          className="p-1 rounded hover:bg-gray-200 transition-colors text-black"
+          title="Insert Scene Break"
+        >
+          <SeparatorHorizontal className="w-3 h-3" />
+        </button>
+
+        {/* 1pt Separator */}
+        <div className="w-px h-4 bg-gray-400"></div>
+
+        {/* Section 4: Review */}
+        <button
+          onClick={startComment}
+          className="p-1 rounded hover:bg-gray-200 transition-colors text-black"
+          title="Comment on Selection"
+        >
+          <MessageSquarePlus className="w-3 h-3" />
+        </button>
+        <button
+          onClick={() => setIsSuggesting(!isSuggesting)}
+          className={`p-1 rounded transition-colors ${
+            isSuggesting ? 'bg-[#ff4e00] text-white' : 'hover:bg-gray-200 text-black'
+          }`}
+          title={isSuggesting ? 'Stop Suggesting' : 'Suggest Edits'}
+        >
+          <PenLine className="w-3 h-3" />
+        </button>
       </div>
 
       {/* Editor Container - Full width since NotesPanel is handled by App.tsx */}
@@ -508,12 +765,18 @@ export const Editor: React.FC<EditorProps> = ({
         <div className="w-full h-full bg-white mx-3 md:mx-6 mb-3 md:mb-6 rounded-lg shadow-sm border border-gray-200 overflow-hidden">
           {/* Chapter Info - Better display logic */}
           {selectedChapter?.title && (
-            <div className="px-4 md:px-6 py-3 bg-gray-50 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-2">
+            <div className="relative px-4 md:px-6 py-3 bg-gray-50 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-2">
               <div className="flex items-center space-x-3">
                 <FileText className="w-4 h-4 text-gray-500" />
                 <span className="text-sm text-gray-700">
                   {selectedChapter.title}
                 </span>
+                <CollaboratorAvatars peers={collaboration.peers} />
+                {isSuggesting && (
+                  <span className="text-xs px-2 py-0.5 rounded bg-orange-100 text-[#ff4e00]">
+                    Suggesting
+                  </span>
+                )}
                 {/* Cloud sync status indicator */}
                 {cloudSyncStatus === 'syncing' && (
                   <div className="flex items-center text-xs text-blue-600">
@@ -528,12 +791,41 @@ export const Editor: React.FC<EditorProps> = ({
                   </div>
                 )}
               </div>
-              {showWordCount && (
-                <div className="flex flex-wrap items-center gap-2 md:gap-4 text-xs md:text-sm text-gray-600">
-                  <span>{words} words</span>
-                  <span className="hidden sm:inline">{characters} characters</span>
-                  <span className="hidden md:inline">{readingTime} min read</span>
-                </div>
+              <div className="flex flex-wrap items-center gap-2 md:gap-4 text-xs md:text-sm text-gray-600">
+                <button
+                  onClick={() => setShowScenesPanel(!showScenesPanel)}
+                  className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+                  title="Scenes"
+                >
+                  <Clapperboard className="w-3 h-3" />
+                  <span>{scenes.length} {scenes.length === 1 ? 'scene' : 'scenes'}</span>
+                </button>
+                <button
+                  onClick={() => setShowComments(!showComments)}
+                  className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+                  title="Comments and Suggestions"
+                >
+                  <MessageSquare className="w-3 h-3" />
+                  <span>
+                    {comments.threads.filter(thread => thread.status === 'open').length + suggestions.length} to review
+                  </span>
+                </button>
+                {showWordCount && (
+                  <>
+                    <span>{words} words</span>
+                    <span className="hidden sm:inline">{characters} characters</span>
+                    <span className="hidden md:inline">{readingTime} min read</span>
+                  </>
+                )}
+              </div>
+              {showScenesPanel && (
+                <ScenesPanel
+                  chapterId={selectedChapter.id}
+                  scenes={scenes}
+                  onScenesChange={setScenes}
+                  onJumpToScene={jumpToScene}
+                  onClose={() => setShowScenesPanel(false)}
+                />
               )}
             </div>
           )}
@@ -550,7 +842,7 @@ export const Editor: React.FC<EditorProps> = ({
               </div>
             ) : (
               <div className="px-4 md:px-10 pt-6 md:pt-10 pb-20 md:pb-32">
-                <div className="max-w-[803px] mx-auto">
+                <div className="relative max-w-[803px] mx-auto">
                   {/* Title Input - More stable */}
                   <input
                     type="text"
@@ -560,6 +852,14 @@ export const Editor: React.FC<EditorProps> = ({
                     placeholder="Chapter Title"
                   />
                   
+                  <CommentHighlights
+                    threads={comments.threads}
+                    positions={comments.positions}
+                    activeThreadId={activeThreadId}
+                    editorRef={editorRef}
+                    contentVersion={localContent}
+                  />
+
                   {/* Content Editor */}
                   <div
                     ref={editorRef}
@@ -574,11 +874,39 @@ export const Editor: React.FC<EditorProps> = ({
                     suppressContentEditableWarning={true}
                     data-placeholder="Start writing your chapter..."
                   />
+                  {collaboration.isCollaborating && (
+                    <RemoteCursors
+                      cursors={collaboration.cursors}
+                      editorRef={editorRef}
+                      contentVersion={localContent}
+                    />
+                  )}
                 </div>
               </div>
             )}
           </div>
         </div>
+
+        {showComments && selectedChapter && (
+          <CommentsSidebar
+            threads={comments.threads}
+            positions={comments.positions}
+            suggestions={suggestions}
+            activeThreadId={activeThreadId}
+            pendingQuote={pendingComment?.quote ?? null}
+            onSelectThread={selectThread}
+            onAddComment={addComment}
+            onCancelComment={() => setPendingComment(null)}
+            onReply={comments.reply}
+            onSetStatus={comments.setStatus}
+            onDeleteThread={comments.deleteThread}
+            onAcceptSuggestion={(id) => resolveSuggestions(root => acceptSuggestion(root, id))}
+            onRejectSuggestion={(id) => resolveSuggestions(root => rejectSuggestion(root, id))}
+            onAcceptAll={() => resolveSuggestions(acceptAllSuggestions)}
+            onRejectAll={() => resolveSuggestions(rejectAllSuggestions)}
+            onClose={() => setShowComments(false)}
+          />
+        )}
       </div>
 
       {/* Bottom Status Bar */}
@@ -591,6 +919,7 @@ export const Editor: React.FC<EditorProps> = ({
             <span>{readingTime} min read</span>
           </div>
           <div className="flex items-center gap-2">
+            <SyncIndicator className="-my-1" />
             {isSaving ? (
               <span className="text-blue-600">Auto-saving...</span>
             ) : (
@@ -7,7 +7,13 @@ interface FilesItem extends ImportedItem {
   tags: ItemTag[]
 }
 
-export function Files() {
+interface FilesProps {
+  // Item to open once loaded, e.g. picked from project search
+  focusItemId?: string
+  onFocusHandled?: () => void
+}
+
+export function Files({ focusItemId, onFocusHandled }: FilesProps) {
   const [items, setItems] = useState<FilesItem[]>([])
   const [filteredItems, setFilteredItems] = useState<FilesItem[]>([])
   const [searchQuery, setSearchQuery] = useState('')
@@ -32,6 +38,13 @@ export function Files() {
     filterItems()
   }, [items, searchQuery, selectedType])
 
+  useEffect(() => {
+    if (!focusItemId || isLoading) return
+    const item = items.find(candidate => candidate.id === focusItemId)
+    if (item) setSelectedItem(item)
+    onFocusHandled?.()
+  }, [focusItemId, isLoading, items, onFocusHandled])
+
   const loadItems = async () => {
     try {
       // Load items with their tags
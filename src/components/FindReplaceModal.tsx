@@ -0,0 +1,396 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { X, Replace, CaseSensitive, WholeWord, Regex, ChevronDown, ChevronRight, Undo2, AlertCircle, Loader2 } from 'lucide-react';
+import { useDebounce } from '../hooks/useUtilities';
+import { Chapter } from '../services/chapterService';
+import { findReplaceService, ChapterMatches, EntityRename, ReplaceBatch } from '../services/find-replace-service';
+import { FindOptions, buildPattern } from '../utils/findReplace';
+
+interface FindReplaceModalProps {
+  isOpen: boolean;
+  projectId: string | null;
+  onClose: () => void;
+  // Chapters whose text changed, after a replace or an undo
+  onApplied: (chapterIds: string[]) => void;
+}
+
+const matchKey = (chapterId: string, matchId: string) => `${chapterId}|${matchId}`;
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function FindReplaceModal({ isOpen, projectId, onClose, onApplied }: FindReplaceModalProps) {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [renameEntities, setRenameEntities] = useState(false);
+
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<ChapterMatches[]>([]);
+  const [renames, setRenames] = useState<EntityRename[]>([]);
+  const [patternError, setPatternError] = useState<string | null>(null);
+  // Matches the writer unticked, as chapterId|matchId
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const [applying, setApplying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [batches, setBatches] = useState<ReplaceBatch[]>([]);
+
+  const debouncedQuery = useDebounce(query, 250);
+  const debouncedReplacement = useDebounce(replacement, 250);
+
+  const loadChapters = useCallback(async () => {
+    if (!projectId) return;
+    setLoading(true);
+    try {
+      setChapters(await findReplaceService.getChapters(projectId));
+      setBatches(findReplaceService.getBatches(projectId));
+    } catch (error) {
+      console.error('Error loading chapters for replace:', error);
+      setMessage('Failed to load chapters. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMessage(null);
+    loadChapters();
+  }, [isOpen, loadChapters]);
+
+  // Re-run the search whenever the query, replacement or options change
+  useEffect(() => {
+    setExcluded(new Set());
+    if (!debouncedQuery) {
+      setResults([]);
+      setRenames([]);
+      setPatternError(null);
+      return;
+    }
+
+    let pattern: RegExp;
+    try {
+      pattern = buildPattern(debouncedQuery, options);
+    } catch (error) {
+      setPatternError(error instanceof Error ? error.message : 'Invalid pattern');
+      setResults([]);
+      setRenames([]);
+      return;
+    }
+
+    setPatternError(null);
+    setResults(findReplaceService.findInChapters(chapters, pattern, debouncedReplacement, options));
+
+    if (!renameEntities || !projectId) {
+      setRenames([]);
+      return;
+    }
+
+    let cancelled = false;
+    findReplaceService.findEntityRenames(projectId, pattern, debouncedReplacement, options).then(found => {
+      if (!cancelled) setRenames(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, debouncedReplacement, options, chapters, renameEntities, projectId]);
+
+  const totalMatches = results.reduce((sum, result) => sum + result.matches.length, 0);
+  const selections = useMemo(() => results.map(({ chapter, matches }) => ({
+    chapter,
+    matchIds: matches.filter(match => !excluded.has(matchKey(chapter.id, match.id))).map(match => match.id)
+  })), [results, excluded]);
+  const selectedCount = selections.reduce((sum, selection) => sum + selection.matchIds.length, 0);
+  const selectedChapters = selections.filter(selection => selection.matchIds.length > 0).length;
+
+  if (!isOpen) return null;
+
+  const toggleOption = (key: keyof FindOptions) => setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+
+  const toggleMatch = (key: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Tick or untick every match in a chapter
+  const toggleChapter = (result: ChapterMatches, include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      result.matches.forEach(match => {
+        const key = matchKey(result.chapter.id, match.id);
+        if (include) next.delete(key);
+        else next.add(key);
+      });
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (chapterId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(chapterId)) next.delete(chapterId);
+      else next.add(chapterId);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!projectId || (selectedCount === 0 && renames.length === 0)) return;
+
+    setApplying(true);
+    setMessage(null);
+    try {
+      const { batch, skipped } = await findReplaceService.applyBatch({
+        projectId,
+        query,
+        pattern: buildPattern(query, options),
+        replacement,
+        options,
+        selections,
+        renames
+      });
+
+      const replaced = batch?.chapters.reduce((sum, item) => sum + item.count, 0) || 0;
+      const parts = [`Replaced ${replaced} ${replaced === 1 ? 'match' : 'matches'} in ${batch?.chapters.length || 0} chapters.`];
+      if (batch && batch.renames.length > 0) parts.push(`Renamed ${batch.renames.length}.`);
+      if (skipped.length > 0) parts.push(`Skipped: ${skipped.map(item => `${item.title} (${item.reason})`).join(', ')}.`);
+      setMessage(parts.join(' '));
+
+      if (batch) onApplied(batch.chapters.map(item => item.chapterId));
+      await loadChapters();
+    } catch (error) {
+      console.error('Error applying replace:', error);
+      setMessage('Replace failed. Please try again.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleUndo = async (batch: ReplaceBatch) => {
+    if (!window.confirm(`Undo replacing "${batch.query}" with "${batch.replacement}"? Chapters and names edited since then are left as they are.`)) return;
+
+    setApplying(true);
+    try {
+      const { restored, failed, edited } = await findReplaceService.undoBatch(batch);
+      const parts = [`Restored ${restored} ${restored === 1 ? 'item' : 'items'}.`];
+      if (edited.length > 0) parts.push(`Left ${edited.join(', ')} alone, as ${edited.length === 1 ? 'it was' : 'they were'} edited after the replace.`);
+      if (failed.length > 0) parts.push(`Could not restore ${failed.join(', ')}.`);
+      setMessage(parts.join(' '));
+      onApplied(batch.chapters.map(item => item.chapterId));
+      await loadChapters();
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const optionButton = (key: keyof FindOptions, Icon: typeof Regex, title: string) => (
+    <button
+      onClick={() => toggleOption(key)}
+      title={title}
+      className={`p-1.5 rounded transition-colors ${
+        options[key] ? 'bg-[#ff4e00] text-white' : 'text-[#889096] hover:bg-gray-100'
+      }`}
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <Replace className="w-5 h-5 text-[#889096]" />
+            <h2 className="text-lg font-semibold text-gray-900">Find and Replace</h2>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100 transition-colors" title="Close">
+            <X className="w-5 h-5 text-[#889096]" />
+          </button>
+        </div>
+
+        {/* Query */}
+        <div className="px-6 py-4 space-y-3 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Find"
+              autoFocus
+              className="flex-1 px-3 py-2 text-sm border border-[#C6C5C5] rounded-lg focus:outline-none focus:border-[#ff4e00]"
+            />
+            {optionButton('caseSensitive', CaseSensitive, 'Match case')}
+            {optionButton('wholeWord', WholeWord, 'Whole word')}
+            {optionButton('regex', Regex, 'Regular expression')}
+          </div>
+          <input
+            type="text"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder={options.regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+            className="w-full px-3 py-2 text-sm border border-[#C6C5C5] rounded-lg focus:outline-none focus:border-[#ff4e00]"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={renameEntities}
+              onChange={(e) => setRenameEntities(e.target.checked)}
+              className="rounded border-gray-300 text-[#ff4e00] focus:ring-[#ff4e00]"
+            />
+            Also rename matching characters and world elements
+          </label>
+          {patternError && (
+            <p className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="w-3 h-3" />
+              {patternError}
+            </p>
+          )}
+        </div>
+
+        {/* Matches */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {loading && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-[#889096]">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading chapters...
+            </div>
+          )}
+
+          {!loading && debouncedQuery && !patternError && totalMatches === 0 && renames.length === 0 && (
+            <p className="text-sm text-[#889096] text-center py-8">No matches in {chapters.length} chapters.</p>
+          )}
+
+          {renames.length > 0 && (
+            <div className="rounded-lg border border-gray-200 p-3">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-[#889096] mb-2">Renames</h3>
+              <ul className="space-y-1">
+                {renames.map(rename => (
+                  <li key={`${rename.kind}-${rename.id}`} className="text-sm text-gray-700">
+                    <span className="text-xs text-[#889096] mr-2">
+                      {rename.kind === 'character' ? 'Character' : 'World element'}
+                    </span>
+                    <span className="line-through text-red-600">{rename.before}</span>
+                    {' → '}
+                    <span className="text-green-700">{rename.after}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {results.map(result => {
+            const { chapter, matches } = result;
+            const isCollapsed = collapsed.has(chapter.id);
+            const included = matches.filter(match => !excluded.has(matchKey(chapter.id, match.id))).length;
+
+            return (
+              <div key={chapter.id} className="rounded-lg border border-gray-200">
+                <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 rounded-t-lg">
+                  <button onClick={() => toggleCollapsed(chapter.id)} className="p-0.5 rounded hover:bg-gray-200">
+                    {isCollapsed
+                      ? <ChevronRight className="w-4 h-4 text-[#889096]" />
+                      : <ChevronDown className="w-4 h-4 text-[#889096]" />}
+                  </button>
+                  <input
+                    type="checkbox"
+                    checked={included === matches.length}
+                    ref={(input) => {
+                      if (input) input.indeterminate = included > 0 && included < matches.length;
+                    }}
+                    onChange={(e) => toggleChapter(result, e.target.checked)}
+                    className="rounded border-gray-300 text-[#ff4e00] focus:ring-[#ff4e00]"
+                  />
+                  <span className="flex-1 text-sm font-medium text-gray-900 truncate">
+                    Chapter {chapter.orderIndex}: {chapter.title}
+                  </span>
+                  <span className="text-xs text-[#889096]">{included}/{matches.length}</span>
+                </div>
+
+                {!isCollapsed && (
+                  <ul className="divide-y divide-gray-100">
+                    {matches.map(match => {
+                      const key = matchKey(chapter.id, match.id);
+                      return (
+                        <li key={match.id}>
+                          <label className="flex items-start gap-2 px-3 py-2 cursor-pointer hover:bg-gray-50">
+                            <input
+                              type="checkbox"
+                              checked={!excluded.has(key)}
+                              onChange={() => toggleMatch(key)}
+                              className="mt-0.5 rounded border-gray-300 text-[#ff4e00] focus:ring-[#ff4e00]"
+                            />
+                            <span className="text-sm text-gray-600 break-words">
+                              {match.before}
+                              <del className="bg-red-100 text-red-700">{match.text}</del>
+                              {match.replacement && <ins className="bg-green-100 text-green-700 no-underline">{match.replacement}</ins>}
+                              {match.after}
+                            </span>
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          {batches.length > 0 && (
+            <div className="pt-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-[#889096] mb-2">Recent replacements</h3>
+              <ul className="space-y-1">
+                {batches.map(batch => (
+                  <li key={batch.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <span className="flex-1 truncate">
+                      "{batch.query}" → "{batch.replacement}"
+                      <span className="text-xs text-[#889096] ml-2">
+                        {batch.chapters.length} chapters · {formatTime(batch.createdAt)}
+                      </span>
+                    </span>
+                    {batch.undoneAt ? (
+                      <span className="text-xs text-[#889096]">Undone</span>
+                    ) : (
+                      <button
+                        onClick={() => handleUndo(batch)}
+                        disabled={applying}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                      >
+                        <Undo2 className="w-3 h-3" />
+                        Undo
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 space-y-2">
+          {message && <p className="text-sm text-gray-700">{message}</p>}
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-[#889096]">
+              A snapshot of each chapter is saved to version history before it changes.
+            </p>
+            <button
+              onClick={handleApply}
+              disabled={applying || !!patternError || (selectedCount === 0 && renames.length === 0)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-[#ff4e00] text-white rounded-lg hover:bg-[#ff4e00]/90 disabled:opacity-50 transition-colors"
+            >
+              {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Replace {selectedCount} in {selectedChapters} {selectedChapters === 1 ? 'chapter' : 'chapters'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
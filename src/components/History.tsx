@@ -3,6 +3,7 @@ import { Clock, Edit, Plus, Trash2, FileText, User, MapPin, Zap, RotateCcw, X }
 import { SimpleSearchFilter, useSimpleFilter } from './shared/simple-search-filter';
 import { useNotes } from '../hooks/use-notes';
 import { DeletedNote } from '../services/notes-service';
+import { ChapterVersionHistory } from './ChapterVersionHistory';
 
 interface HistoryEntry {
   id: string;
@@ -30,6 +31,7 @@ const History: React.FC<HistoryProps> = ({ onBack }) => {
   const [timeFilter, setTimeFilter] = useState<'all' | 'today' | 'week' | 'month'>('all');
   const [showDeletedNotes, setShowDeletedNotes] = useState(false);
   const [selectedNote, setSelectedNote] = useState<DeletedNote | null>(null);
+  const [activeTab, setActiveTab] = useState<'activity' | 'versions'>('activity');
 
   const { deletedNotes, restoreNote, permanentlyDeleteNote, refreshDeletedNotes } = useNotes();
 
@@ -262,7 +264,7 @@ const History: React.FC<HistoryProps> = ({ onBack }) => {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Activity History</h1>
-            <p className="text-gray-600 mt-1">Track your writing progress and recover deleted notes</p>
+            <p className="text-gray-600 mt-1">Track your writing progress, compare chapter versions and recover deleted notes</p>
           </div>
           <button
             onClick={onBack}
@@ -271,8 +273,32 @@ const History: React.FC<HistoryProps> = ({ onBack }) => {
             Back to Settings
           </button>
         </div>
+
+        {/* Tabs */}
+        <div className="flex items-center gap-1 bg-[#e8ddc1] rounded-lg p-1 mt-4 w-fit">
+          {([
+            { id: 'activity', label: 'Activity' },
+            { id: 'versions', label: 'Chapter Versions' }
+          ] as const).map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                activeTab === tab.id
+                  ? 'bg-[#f2eee2] text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
       </div>
 
+      {activeTab === 'versions' ? (
+        <ChapterVersionHistory />
+      ) : (
+      <>
       {/* Simplified Search and Filters */}
       <div className="p-6 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center gap-4 mb-4">
@@ -553,6 +579,8 @@ const History: React.FC<HistoryProps> = ({ onBack }) => {
           </div>
         </div>
       </div>
+      </>
+      )}
     </div>
   );
 };
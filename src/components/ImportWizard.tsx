@@ -157,11 +157,11 @@ export function ImportWizard({ onClose, onImportComplete }: ImportWizardProps) {
               <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
                 <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                 <p className="text-lg font-medium mb-2">Drop files here or click to browse</p>
-                <p className="text-gray-500 mb-4">Supports .docx and .txt files (max 10MB each)</p>
+                <p className="text-gray-500 mb-4">Supports .docx, .txt and .md files (max 10MB each)</p>
                 <input
                   type="file"
                   multiple
-                  accept=".docx,.txt"
+                  accept=".docx,.txt,.md"
                   onChange={(e) => handleFileSelection(e.target.files)}
                   className="hidden"
                   id="file-upload"
@@ -12,11 +12,18 @@ import {
   Database,
   Users,
   FileText,
-  Globe
+  Globe,
+  Eye
 } from 'lucide-react';
 import { NotionImportService, ImportedDatabase } from '../services/notion-import-service';
 import { EnhancedSupabaseImportService, ImportResult } from '../services/enhanced-supabase-import-service';
 import { PostImportNavigation } from './integration/PostImportNavigation';
+import { NotionFieldMapper } from './integration/NotionFieldMapper';
+import { NotionMappingPreview } from './integration/NotionMappingPreview';
+import { NotionSyncPanel } from './integration/NotionSyncPanel';
+import { notionMappingService } from '../services/notion-mapping-service';
+import { notionSyncService } from '../services/notion-sync-service';
+import { FieldMapping, NotionRecordType, applyProfile, guessMapping } from '../utils/notionMapping';
 import { useAuth } from '../contexts/AuthContext';
 
 interface IntegrationProps {
@@ -28,13 +35,15 @@ interface IntegrationProps {
   onNavigateToProjects?: () => void;
 }
 
-type Step = 'connect' | 'preview' | 'importing' | 'success' | 'error';
+type Step = 'connect' | 'mapping' | 'preview' | 'importing' | 'success' | 'error';
 
 interface IntegrationState {
   step: Step;
   token: string;
   databaseUrls: string;
   databases: ImportedDatabase[];
+  // Field mapping for each database, by database id
+  mappings: Record<string, FieldMapping>;
   importResult: ImportResult | null;
   isLoading: boolean;
   error: string | null;
@@ -54,6 +63,7 @@ export default function Integration({
     token: '',
     databaseUrls: '',
     databases: [],
+    mappings: {},
     importResult: null,
     isLoading: false,
     error: null
@@ -125,7 +135,19 @@ export default function Integration({
 
       console.log('✅ Successfully imported databases:', databases.map(db => ({ name: db.name, type: db.type, records: db.records.length })));
 
-      setState(prev => ({ ...prev, databases, step: 'preview', isLoading: false }));
+      // Start from the mapping last saved for each database, or a guess from its schema
+      const mappings: Record<string, FieldMapping> = {};
+      const mappedDatabases = databases.map(database => {
+        const profile = notionMappingService.getLatestFor(database.id);
+        if (!profile) {
+          mappings[database.id] = guessMapping(database.type, database.properties);
+          return database;
+        }
+        mappings[database.id] = applyProfile(profile, database.properties);
+        return withRecordType(database, profile.recordType);
+      });
+
+      setState(prev => ({ ...prev, databases: mappedDatabases, mappings, step: 'mapping', isLoading: false }));
 
     } catch (error) {
       console.error('❌ Import failed:', error);
@@ -133,6 +155,23 @@ export default function Integration({
     }
   };
 
+  const withRecordType = (database: ImportedDatabase, type: NotionRecordType): ImportedDatabase => ({
+    ...database,
+    type,
+    records: database.records.map(record => ({ ...record, type }))
+  });
+
+  const handleMappingChange = (databaseId: string, mapping: FieldMapping) => {
+    setState(prev => ({ ...prev, mappings: { ...prev.mappings, [databaseId]: mapping } }));
+  };
+
+  const handleRecordTypeChange = (databaseId: string, type: NotionRecordType) => {
+    setState(prev => ({
+      ...prev,
+      databases: prev.databases.map(database => database.id === databaseId ? withRecordType(database, type) : database)
+    }));
+  };
+
   const handleImport = async () => {
     if (!user?.id) {
       handleError('User authentication required');
@@ -157,13 +196,19 @@ export default function Integration({
       const result = await importService.importFromNotion(
         state.databases,
         projectName,
-        user.id
+        user.id,
+        state.mappings
       );
 
       if (!result.success) {
         throw new Error(result.errors.join(', ') || 'Import failed');
       }
 
+      // Keep the import linked to Notion so it can be synced from this page later
+      if (result.projectId) {
+        await notionSyncService.createIntegration(user.id, result.projectId, projectName, state.databases, state.mappings);
+      }
+
       setState(prev => ({ ...prev, importResult: result, step: 'success', isLoading: false }));
 
     } catch (error) {
@@ -177,6 +222,7 @@ export default function Integration({
       step: 'connect',
       error: null,
       databases: [],
+      mappings: {},
       importResult: null
     }));
   };
@@ -302,6 +348,30 @@ export default function Integration({
                 </div>
               </div>
             )}
+
+            {user?.id && <NotionSyncPanel userId={user.id} token={state.token} />}
+          </div>
+        );
+
+      case 'mapping':
+        return (
+          <div className="space-y-6">
+            <div className="text-center">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Map Your Fields</h2>
+              <p className="text-gray-600">Choose where each Notion property goes in Nimbus</p>
+            </div>
+
+            <div className="space-y-4">
+              {state.databases.map((db) => (
+                <NotionFieldMapper
+                  key={db.id}
+                  database={db}
+                  mapping={state.mappings[db.id] || {}}
+                  onChange={(mapping) => handleMappingChange(db.id, mapping)}
+                  onTypeChange={(type) => handleRecordTypeChange(db.id, type)}
+                />
+              ))}
+            </div>
           </div>
         );
 
@@ -331,13 +401,8 @@ export default function Integration({
                       <div className="text-xs text-gray-500">records</div>
                     </div>
                   </div>
-                  
-                  {db.records.length > 0 && (
-                    <div className="text-sm text-gray-600">
-                      <strong>Sample:</strong> {db.records.slice(0, 3).map(r => r.name).join(', ')}
-                      {db.records.length > 3 && `, +${db.records.length - 3} more`}
-                    </div>
-                  )}
+
+                  <NotionMappingPreview database={db} mapping={state.mappings[db.id] || {}} />
                 </div>
               ))}
             </div>
@@ -448,7 +513,27 @@ export default function Integration({
               className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
               {state.isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Database className="w-4 h-4" />}
-              {state.isLoading ? 'Connecting...' : 'Load Preview'}
+              {state.isLoading ? 'Connecting...' : 'Map Fields'}
+            </button>
+          </div>
+        );
+
+      case 'mapping':
+        return (
+          <div className="flex justify-between">
+            <button
+              onClick={() => setState(prev => ({ ...prev, step: 'connect' }))}
+              className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </button>
+            <button
+              onClick={() => setState(prev => ({ ...prev, step: 'preview' }))}
+              className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Eye className="w-4 h-4" />
+              Preview Records
             </button>
           </div>
         );
@@ -457,7 +542,7 @@ export default function Integration({
         return (
           <div className="flex justify-between">
             <button
-              onClick={() => setState(prev => ({ ...prev, step: 'connect' }))}
+              onClick={() => setState(prev => ({ ...prev, step: 'mapping' }))}
               className="flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
             >
               <ArrowLeft className="w-4 h-4" />
@@ -488,6 +573,7 @@ export default function Integration({
             <div className="flex items-center justify-between">
               {[
                 { key: 'connect', label: 'Connect' },
+                { key: 'mapping', label: 'Map Fields' },
                 { key: 'preview', label: 'Preview' },
                 { key: 'importing', label: 'Import' },
                 { key: 'success', label: 'Complete' }
@@ -522,7 +608,7 @@ export default function Integration({
   );
 
   function getStepIcon(stepName: Step, currentStep: Step) {
-    const steps = ['connect', 'preview', 'importing', 'success'];
+    const steps = ['connect', 'mapping', 'preview', 'importing', 'success'];
     const currentIndex = steps.indexOf(currentStep);
     const stepIndex = steps.indexOf(stepName);
     
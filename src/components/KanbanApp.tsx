@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
 import { LibraryView } from './library/LibraryView';
 import { KanbanBoard } from './kanban';
-import { Project } from '../types/kanban';
+import { Project, TaskLink } from '../types/kanban';
 
-export function KanbanApp() {
+interface KanbanAppProps {
+  // Open a task's linked chapter, character or world element in its project
+  onOpenTaskLink?: (project: Project, link: TaskLink) => void;
+}
+
+export function KanbanApp({ onOpenTaskLink }: KanbanAppProps) {
   const [currentView, setCurrentView] = useState<'library' | 'kanban'>('library');
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
 
@@ -23,6 +28,7 @@ export function KanbanApp() {
         projectId={selectedProject.id}
         projectTitle={selectedProject.title}
         onBackToLibrary={handleBackToLibrary}
+        onOpenLink={onOpenTaskLink ? (link) => onOpenTaskLink(selectedProject, link) : undefined}
       />
     );
   }
@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { X, Download, BookOpen, FileText, FileCode } from 'lucide-react';
+import {
+  manuscriptExportService,
+  DEFAULT_EXPORT_OPTIONS,
+  ManuscriptExportOptions,
+  ManuscriptFormat,
+  ChapterStatus
+} from '../services/manuscript-export-service';
+import { useAuth } from '../contexts/AuthContext';
+
+interface ManuscriptExportModalProps {
+  projectId: string;
+  projectTitle: string;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ManuscriptFormat; label: string; description: string; icon: typeof BookOpen }[] = [
+  { value: 'docx', label: 'Word (DOCX)', description: 'For editors, agents and print', icon: FileText },
+  { value: 'epub', label: 'EPUB 3', description: 'For e-readers and beta readers', icon: BookOpen },
+  { value: 'markdown', label: 'Markdown', description: 'A single plain-text file', icon: FileCode }
+];
+
+const STATUS_OPTIONS: { value: ChapterStatus; label: string }[] = [
+  { value: 'outline', label: 'Outline' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'revision', label: 'Revision' },
+  { value: 'final', label: 'Final' }
+];
+
+export function ManuscriptExportModal({ projectId, projectTitle, onClose }: ManuscriptExportModalProps) {
+  const { user } = useAuth();
+  const [options, setOptions] = useState<ManuscriptExportOptions>({
+    ...DEFAULT_EXPORT_OPTIONS,
+    title: projectTitle,
+    author: user?.user_metadata?.full_name || ''
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastExport, setLastExport] = useState<{ chapterCount: number; wordCount: number } | null>(null);
+
+  const updateOptions = (updates: Partial<ManuscriptExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  const toggleStatus = (status: ChapterStatus) => {
+    const current = options.statuses || [];
+    updateOptions({
+      statuses: current.includes(status)
+        ? current.filter(s => s !== status)
+        : [...current, status]
+    });
+  };
+
+  const handlePresetChange = (standardManuscript: boolean) => {
+    if (standardManuscript) {
+      setOptions(prev => manuscriptExportService.getStandardManuscriptOptions({
+        title: prev.title,
+        author: prev.author,
+        statuses: prev.statuses,
+        includeTitlePage: true
+      }));
+    } else {
+      updateOptions({ preset: 'default' });
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const result = await manuscriptExportService.exportManuscript(projectId, options);
+      manuscriptExportService.downloadExport(result);
+      setLastExport({ chapterCount: result.chapterCount, wordCount: result.wordCount });
+    } catch (error) {
+      console.error('Error exporting manuscript:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export manuscript. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isStandardManuscript = options.preset === 'standard_manuscript';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Export Manuscript</h2>
+            <p className="text-sm text-gray-600 mt-1">Assemble every chapter into a finished book</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {lastExport && !error && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+              Exported {lastExport.chapterCount} chapters ({lastExport.wordCount.toLocaleString()} words)
+            </div>
+          )}
+
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMAT_OPTIONS.map(format => {
+                const Icon = format.icon;
+                const isSelected = options.format === format.value;
+                const isDisabled = isStandardManuscript && format.value !== 'docx';
+                return (
+                  <button
+                    key={format.value}
+                    onClick={() => updateOptions({ format: format.value })}
+                    disabled={isDisabled}
+                    className={`p-3 border rounded-lg text-left transition-colors ${
+                      isSelected
+                        ? 'border-[#ff4e00] bg-orange-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    } ${isDisabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+                  >
+                    <Icon className="w-4 h-4 text-gray-600 mb-1" />
+                    <div className="text-sm font-medium text-gray-900">{format.label}</div>
+                    <div className="text-xs text-gray-500">{format.description}</div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Title & author */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input
+                type="text"
+                value={options.title || ''}
+                onChange={(e) => updateOptions({ title: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Author</label>
+              <input
+                type="text"
+                value={options.author || ''}
+                onChange={(e) => updateOptions({ author: e.target.value })}
+                placeholder="Your name"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Status filter */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Chapters to include</label>
+            <p className="text-xs text-gray-500 mb-2">Leave all unchecked to export every chapter</p>
+            <div className="flex flex-wrap gap-2">
+              {STATUS_OPTIONS.map(status => (
+                <label key={status.value} className="flex items-center gap-2 px-3 py-1.5 border border-gray-200 rounded-lg text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={(options.statuses || []).includes(status.value)}
+                    onChange={() => toggleStatus(status.value)}
+                  />
+                  {status.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Structure */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Front matter</label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.includeTitlePage}
+                onChange={(e) => updateOptions({ includeTitlePage: e.target.checked })}
+              />
+              Title page
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.includeTableOfContents}
+                onChange={(e) => updateOptions({ includeTableOfContents: e.target.checked })}
+              />
+              Table of contents
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.includeSummaries}
+                onChange={(e) => updateOptions({ includeSummaries: e.target.checked })}
+              />
+              Chapter summaries
+            </label>
+          </div>
+
+          {/* Preset */}
+          <div className="bg-[#F9FAFB] rounded-lg p-4">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isStandardManuscript}
+                onChange={(e) => handlePresetChange(e.target.checked)}
+                className="mt-1"
+              />
+              <div>
+                <div className="text-sm font-medium text-gray-900">Standard manuscript format</div>
+                <div className="text-xs text-gray-600 mt-0.5">
+                  Courier 12pt, double-spaced, 1" margins, word count on the title page and a
+                  "Surname / TITLE / page" running header. Use this for agent submissions.
+                </div>
+              </div>
+            </label>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00]/80 text-gray-900 rounded-lg transition-colors font-medium disabled:opacity-50"
+          >
+            {isExporting ? (
+              <div className="w-4 h-4 border-2 border-gray-900 border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
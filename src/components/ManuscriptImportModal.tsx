@@ -0,0 +1,307 @@
+import { useRef, useState } from 'react';
+import { X, Upload, FileText, FolderOpen, Layers } from 'lucide-react';
+import {
+  manuscriptImportService,
+  ChapterDraft,
+  ManuscriptImportProgress,
+  ManuscriptSource
+} from '../services/manuscript-import-service';
+import { Chapter } from '../services/chapterService';
+import { DEFAULT_SPLIT_OPTIONS, SplitOptions, htmlText } from '../utils/manuscriptParsers';
+
+interface ManuscriptImportModalProps {
+  projectId: string;
+  onImported: (chapters: Chapter[]) => void;
+  onClose: () => void;
+}
+
+const SOURCE_OPTIONS: { value: ManuscriptSource; label: string; description: string; icon: typeof FileText }[] = [
+  { value: 'manuscript', label: 'Manuscript', description: 'One .docx, .txt or .md file split into chapters', icon: FileText },
+  { value: 'markdown', label: 'Markdown', description: 'A folder or zip, one file per chapter', icon: FolderOpen },
+  { value: 'scrivener', label: 'Scrivener', description: 'A .scriv folder or a zip of it', icon: Layers }
+];
+
+const SPLIT_OPTIONS: { key: keyof Omit<SplitOptions, 'customPattern'>; label: string }[] = [
+  { key: 'chapterHeadings', label: '"Chapter 1" lines' },
+  { key: 'headings', label: 'Top-level headings' },
+  { key: 'pageBreaks', label: 'Page breaks' }
+];
+
+// Directory inputs are non-standard, so React's types leave the attribute out
+const DIRECTORY_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+export function ManuscriptImportModal({ projectId, onImported, onClose }: ManuscriptImportModalProps) {
+  const [source, setSource] = useState<ManuscriptSource>('manuscript');
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>(DEFAULT_SPLIT_OPTIONS);
+  const [files, setFiles] = useState<File[]>([]);
+  const [drafts, setDrafts] = useState<ChapterDraft[]>([]);
+  const [included, setIncluded] = useState<boolean[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [progress, setProgress] = useState<ManuscriptImportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const parse = async (selected: File[], options: SplitOptions = splitOptions) => {
+    if (selected.length === 0) return;
+    setIsParsing(true);
+    setError(null);
+
+    try {
+      const parsed = source === 'manuscript'
+        ? await manuscriptImportService.parseManuscriptFile(selected[0], options)
+        : source === 'markdown'
+          ? await manuscriptImportService.parseMarkdownFiles(selected)
+          : await manuscriptImportService.parseScrivener(selected);
+      setDrafts(parsed);
+      setIncluded(parsed.map(() => true));
+    } catch (error) {
+      console.error('Error reading manuscript:', error);
+      setError(error instanceof Error ? error.message : 'Failed to read the manuscript.');
+      setDrafts([]);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleFiles = (list: FileList | null) => {
+    const selected = Array.from(list || []);
+    setFiles(selected);
+    parse(selected);
+  };
+
+  const handleSourceChange = (value: ManuscriptSource) => {
+    setSource(value);
+    setFiles([]);
+    setDrafts([]);
+    setError(null);
+  };
+
+  // Re-split the chosen manuscript whenever the rules change
+  const updateSplitOptions = (updates: Partial<SplitOptions>) => {
+    const next = { ...splitOptions, ...updates };
+    setSplitOptions(next);
+    parse(files, next);
+  };
+
+  const renameDraft = (index: number, title: string) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, title } : draft));
+  };
+
+  const handleImport = async () => {
+    const selected = drafts.filter((_, index) => included[index]);
+    setError(null);
+
+    try {
+      const result = await manuscriptImportService.importChapters(projectId, selected, setProgress);
+      onImported(result.chapters);
+      if (result.failed.length > 0) {
+        setError(`Imported ${result.chapters.length} chapters. These failed: ${result.failed.join(', ')}`);
+      } else {
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error importing manuscript:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import chapters. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const includedCount = included.filter(Boolean).length;
+  const isImporting = progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Import Manuscript</h2>
+            <p className="text-sm text-gray-600 mt-1">Bring chapters in from Scrivener, Markdown or a single manuscript</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {/* Source */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Import from</label>
+            <div className="grid grid-cols-3 gap-2">
+              {SOURCE_OPTIONS.map(option => {
+                const Icon = option.icon;
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => handleSourceChange(option.value)}
+                    disabled={isImporting}
+                    className={`p-3 border rounded-lg text-left transition-colors ${
+                      source === option.value
+                        ? 'border-[#ff4e00] bg-orange-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4 text-gray-600 mb-1" />
+                    <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                    <div className="text-xs text-gray-500">{option.description}</div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Files */}
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={source === 'manuscript' ? '.docx,.txt,.md,.markdown' : '.zip'}
+              className="hidden"
+              onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+              {...DIRECTORY_PROPS}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isParsing || isImporting}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              {source === 'manuscript' ? 'Choose file' : 'Choose zip'}
+            </button>
+            {source !== 'manuscript' && (
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isParsing || isImporting}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+              >
+                <FolderOpen className="w-4 h-4" />
+                Choose folder
+              </button>
+            )}
+            {files.length > 0 && (
+              <span className="text-sm text-gray-500">
+                {files.length === 1 ? files[0].name : `${files.length} files`}
+              </span>
+            )}
+          </div>
+
+          {/* Chapter splitting */}
+          {source === 'manuscript' && (
+            <div className="bg-[#F9FAFB] rounded-lg p-4 space-y-3">
+              <label className="block text-sm font-medium text-gray-700">Start a new chapter at</label>
+              <div className="flex flex-wrap gap-4">
+                {SPLIT_OPTIONS.map(option => (
+                  <label key={option.key} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={splitOptions[option.key]}
+                      onChange={(e) => updateSplitOptions({ [option.key]: e.target.checked })}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Lines matching this pattern (regular expression)</label>
+                <input
+                  type="text"
+                  value={splitOptions.customPattern}
+                  onChange={(e) => setSplitOptions(prev => ({ ...prev, customPattern: e.target.value }))}
+                  onBlur={() => parse(files)}
+                  placeholder="e.g. ^Part [IVX]+"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#ff4e00] focus:border-transparent text-sm font-mono"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {isParsing && <p className="text-sm text-gray-500">Reading manuscript...</p>}
+          {!isParsing && drafts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {drafts.length} chapters found
+              </label>
+              <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+                {drafts.map((draft, index) => {
+                  const words = htmlText(draft.content).split(' ').filter(Boolean).length;
+                  return (
+                    <li key={index} className="flex items-start gap-3 p-3">
+                      <input
+                        type="checkbox"
+                        checked={included[index] ?? true}
+                        onChange={(e) => setIncluded(prev => prev.map((value, i) => i === index ? e.target.checked : value))}
+                        className="mt-2"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <input
+                          type="text"
+                          value={draft.title}
+                          onChange={(e) => renameDraft(index, e.target.value)}
+                          className="w-full px-2 py-1 border border-transparent hover:border-gray-200 focus:border-gray-300 rounded text-sm font-medium text-gray-900"
+                        />
+                        <div className="px-2 text-xs text-gray-500 truncate">
+                          {words.toLocaleString()} words
+                          {draft.scenes && draft.scenes.length > 1 && ` • ${draft.scenes.length} scenes`}
+                          {draft.summary && ` • ${draft.summary}`}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-gray-200">
+          <span className="text-sm text-gray-500">
+            {progress && `Importing ${progress.current} of ${progress.total}: ${progress.title}`}
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={isImporting}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={includedCount === 0 || isParsing || isImporting}
+              className="flex items-center gap-2 px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00]/80 text-gray-900 rounded-lg transition-colors font-medium disabled:opacity-50"
+            >
+              {isImporting ? (
+                <div className="w-4 h-4 border-2 border-gray-900 border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              {isImporting ? 'Importing...' : `Import ${includedCount} chapters`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,11 @@ interface NotesPanelProps {
   onDeleteNote?: (id: string) => void; // Legacy prop
   isCollapsed: boolean;
   onToggleCollapse?: () => void;
+  // Shows the project's notes and adds new ones to it
+  projectId?: string;
+  // Note to reveal once loaded, e.g. picked from project search
+  focusNoteId?: string;
+  onFocusHandled?: () => void;
 }
 
 const categories: { label: NoteCategory; active?: boolean }[] = [
@@ -22,7 +27,10 @@ const categories: { label: NoteCategory; active?: boolean }[] = [
 
 export function NotesPanel({ 
   isCollapsed, 
-  onToggleCollapse 
+  onToggleCollapse,
+  projectId,
+  focusNoteId,
+  onFocusHandled
 }: NotesPanelProps) {
   const { 
     notes: allNotes, 
@@ -31,7 +39,7 @@ export function NotesPanel({
     createNote, 
     updateNote, 
     deleteNote: deleteNoteFromDb 
-  } = useNotes();
+  } = useNotes(projectId);
 
   const [activeCategory, setActiveCategory] = useState<NoteCategory>('All');
   const [isAddingNote, setIsAddingNote] = useState(false);
@@ -41,6 +49,7 @@ export function NotesPanel({
   const [editData, setEditData] = useState({ title: '', content: '' });
   const [noteMenuOpen, setNoteMenuOpen] = useState<string | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState<string | null>(null);
+  const [highlightedNoteId, setHighlightedNoteId] = useState<string | null>(null);
 
   // Filter notes by active category
   const filteredNotes = React.useMemo(() => {
@@ -53,6 +62,22 @@ export function NotesPanel({
       : allNotes.filter(note => note.category === activeCategory);
   }, [allNotes, activeCategory]);
 
+  useEffect(() => {
+    if (!focusNoteId || loading || isCollapsed) return;
+    setActiveCategory('All');
+    setHighlightedNoteId(focusNoteId);
+    onFocusHandled?.();
+    requestAnimationFrame(() => {
+      document.getElementById(`note-${focusNoteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [focusNoteId, loading, isCollapsed, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedNoteId) return;
+    const timer = setTimeout(() => setHighlightedNoteId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedNoteId]);
+
   const handleCategoryChange = (category: NoteCategory) => {
     setActiveCategory(category);
     setScrollPercentage(0);
@@ -293,7 +318,7 @@ export function NotesPanel({
 
         {/* Notes List */}
         {!loading && filteredNotes.length > 0 && filteredNotes.map((note) => (
-          <div key={note.id} className="relative">
+          <div key={note.id} id={`note-${note.id}`} className="relative">
             {editingNote === note.id ? (
               /* Edit Mode */
               <div className="bg-white p-4 rounded border-2 border-blue-200">
@@ -327,7 +352,9 @@ export function NotesPanel({
               </div>
             ) : (
               /* Display Mode */
-              <div className="bg-[#FAF9F9] p-4 rounded relative group">
+              <div className={`bg-[#FAF9F9] p-4 rounded relative group ${
+                note.id === highlightedNoteId ? 'ring-2 ring-[#ff4e00]' : ''
+              }`}>
                 {/* Note Actions Menu */}
                 <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
                   <button
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { User, Lock, Mail, Calendar, Shield, Eye, EyeOff, AlertCircle, CheckCircle, Save, Trash2, LogOut } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { AIUsageHistory } from './AIUsageHistory';
 
 interface ProfilePageProps {
   activeView: string;
@@ -727,6 +728,9 @@ export function ProfilePage({ activeView, onNavigate }: ProfilePageProps) {
             </div>
           </div>
 
+          {/* AI Usage */}
+          <AIUsageHistory />
+
           {/* Danger Zone */}
           <div className="bg-white rounded-lg shadow-sm border border-red-200 p-6">
             <div className="flex items-center justify-between mb-6">
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GripVertical, MapPin, User, FileText } from 'lucide-react';
+import { sceneService, Scene } from '../services/scene-service';
+import { Chapter } from '../services/chapterService';
+import { characterService, Character } from '../services/character-service';
+import { worldBuildingService, WorldElement } from '../services/world-building-service';
+
+interface SceneBoardProps {
+  projectId: string;
+  chapters: Chapter[];
+  onScenesMoved?: () => void;
+}
+
+export function SceneBoard({ projectId, chapters, onScenesMoved }: SceneBoardProps) {
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [locations, setLocations] = useState<WorldElement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMoving, setIsMoving] = useState(false);
+  const [draggedScene, setDraggedScene] = useState<Scene | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ chapterId: string; index: number } | null>(null);
+
+  const loadScenes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [projectScenes, projectCharacters, worldElements] = await Promise.all([
+        sceneService.getProjectScenes(projectId),
+        characterService.getCharacters(projectId).catch(() => [] as Character[]),
+        worldBuildingService.getWorldElements(projectId).catch(() => [] as WorldElement[])
+      ]);
+      setScenes(projectScenes);
+      setCharacters(projectCharacters);
+      setLocations(worldElements);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadScenes();
+  }, [loadScenes]);
+
+  const handleDrop = async (e: React.DragEvent, chapterId: string, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    if (!draggedScene) return;
+
+    const scene = draggedScene;
+    setDraggedScene(null);
+
+    // Dropping a scene just below itself is a no-op
+    if (scene.chapterId === chapterId && (index === scene.orderIndex || index === scene.orderIndex + 1)) {
+      return;
+    }
+
+    // Indexes above the dragged scene shift down once it is removed
+    const targetIndex = scene.chapterId === chapterId && index > scene.orderIndex ? index - 1 : index;
+
+    setIsMoving(true);
+    const moved = await sceneService.moveScene(scene.id, chapterId, targetIndex);
+    setIsMoving(false);
+
+    if (moved) {
+      await loadScenes();
+      onScenesMoved?.();
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, chapterId: string, index: number) => {
+    e.preventDefault();
+    if (dropTarget?.chapterId !== chapterId || dropTarget.index !== index) {
+      setDropTarget({ chapterId, index });
+    }
+  };
+
+  const characterName = (id?: string) => characters.find(character => character.id === id)?.name;
+  const locationName = (id?: string) => locations.find(location => location.id === id)?.title;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-4 border-[#ff4e00] border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const sortedChapters = [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+
+  return (
+    <div className={`space-y-4 ${isMoving ? 'opacity-60 pointer-events-none' : ''}`}>
+      <p className="text-sm text-[#889096]">
+        Drag scenes to reorder them within a chapter or move them to another chapter. The scene's prose moves with it.
+      </p>
+
+      {sortedChapters.map(chapter => {
+        const chapterScenes = scenes.filter(scene => scene.chapterId === chapter.id);
+
+        return (
+          <div
+            key={chapter.id}
+            className="bg-white rounded-lg border border-[#C6C5C5] p-4"
+            onDragOver={(e) => handleDragOver(e, chapter.id, chapterScenes.length)}
+            onDrop={(e) => handleDrop(e, chapter.id, chapterScenes.length)}
+          >
+            <div className="flex items-center gap-2 mb-3">
+              <FileText className="w-4 h-4 text-blue-500" />
+              <h3 className="font-semibold text-gray-900">{chapter.title}</h3>
+              <span className="text-xs text-[#889096]">
+                {chapterScenes.length} {chapterScenes.length === 1 ? 'scene' : 'scenes'}
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              {chapterScenes.map((scene, index) => (
+                <div
+                  key={scene.id}
+                  draggable
+                  onDragStart={() => setDraggedScene(scene)}
+                  onDragEnd={() => {
+                    setDraggedScene(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={(e) => {
+                    e.stopPropagation();
+                    handleDragOver(e, chapter.id, index);
+                  }}
+                  onDrop={(e) => handleDrop(e, chapter.id, index)}
+                  className={`flex items-start gap-2 p-3 border rounded-lg cursor-move transition-colors ${
+                    dropTarget?.chapterId === chapter.id && dropTarget.index === index
+                      ? 'border-t-4 border-t-[#ff4e00] border-gray-200'
+                      : 'border-gray-200 hover:border-blue-300'
+                  } ${draggedScene?.id === scene.id ? 'opacity-50' : ''}`}
+                >
+                  <GripVertical className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-900 truncate">
+                        {scene.title || `Scene ${index + 1}`}
+                      </span>
+                      <span className="text-xs text-[#889096] flex-shrink-0">{scene.wordCount} words</span>
+                    </div>
+                    {scene.summary && (
+                      <p className="text-xs text-gray-600 mt-1 line-clamp-2">{scene.summary}</p>
+                    )}
+                    {(scene.povCharacterId || scene.locationId) && (
+                      <div className="flex items-center gap-3 mt-1 text-xs text-[#889096]">
+                        {scene.povCharacterId && (
+                          <span className="flex items-center gap-1">
+                            <User className="w-3 h-3" />
+                            {characterName(scene.povCharacterId) || 'Unknown'}
+                          </span>
+                        )}
+                        {scene.locationId && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {locationName(scene.locationId) || 'Unknown'}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {/* End-of-chapter drop zone */}
+              <div
+                className={`h-10 flex items-center justify-center text-xs rounded-lg border-2 border-dashed transition-colors ${
+                  dropTarget?.chapterId === chapter.id && dropTarget.index === chapterScenes.length && draggedScene
+                    ? 'border-[#ff4e00] text-[#ff4e00] bg-orange-50'
+                    : 'border-gray-200 text-gray-400'
+                }`}
+              >
+                {chapterScenes.length === 0 ? 'No scenes yet - drop a scene here' : 'Drop here to move to end of chapter'}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { X, Clapperboard, MapPin, User, CornerDownRight } from 'lucide-react';
+import { sceneService, Scene } from '../services/scene-service';
+import { chapterService } from '../services/chapterService';
+import { characterService, Character } from '../services/character-service';
+import { worldBuildingService, WorldElement } from '../services/world-building-service';
+
+interface ScenesPanelProps {
+  chapterId: string;
+  scenes: Scene[];
+  onScenesChange: (scenes: Scene[]) => void;
+  onJumpToScene: (scene: Scene, index: number) => void;
+  onClose: () => void;
+}
+
+export function ScenesPanel({ chapterId, scenes, onScenesChange, onJumpToScene, onClose }: ScenesPanelProps) {
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [locations, setLocations] = useState<WorldElement[]>([]);
+
+  // Load the project's cast and locations for the POV/location pickers
+  useEffect(() => {
+    const loadPlanningData = async () => {
+      try {
+        const chapter = await chapterService.getChapter(chapterId);
+        if (!chapter) return;
+
+        const [projectCharacters, worldElements] = await Promise.all([
+          characterService.getCharacters(chapter.projectId),
+          worldBuildingService.getWorldElements(chapter.projectId)
+        ]);
+        setCharacters(projectCharacters);
+        setLocations(worldElements.filter(element => element.category === 'location'));
+      } catch (error) {
+        console.error('Error loading scene planning data:', error);
+      }
+    };
+
+    loadPlanningData();
+  }, [chapterId]);
+
+  const handleUpdate = async (scene: Scene, updates: Parameters<typeof sceneService.updateScene>[1]) => {
+    const updated = await sceneService.updateScene(scene.id, updates);
+    if (updated) {
+      onScenesChange(scenes.map(s => (s.id === updated.id ? updated : s)));
+    }
+  };
+
+  return (
+    <div className="absolute right-4 top-12 z-40 w-80 max-h-[70vh] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+          <Clapperboard className="w-4 h-4" />
+          Scenes
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded transition-colors">
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      {scenes.length === 0 ? (
+        <p className="px-4 py-6 text-xs text-[#889096] text-center">
+          Scenes appear here once the chapter is saved. Insert a scene break to start a new scene.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {scenes.map((scene, index) => (
+            <div key={scene.id} className="px-4 py-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  defaultValue={scene.title}
+                  placeholder={`Scene ${index + 1}`}
+                  onBlur={(e) => {
+                    if (e.target.value !== scene.title) handleUpdate(scene, { title: e.target.value });
+                  }}
+                  className="flex-1 text-sm font-medium text-gray-900 bg-transparent border-none outline-none"
+                />
+                <span className="text-xs text-[#889096]">{scene.wordCount} words</span>
+                <button
+                  onClick={() => onJumpToScene(scene, index)}
+                  className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  title="Jump to scene"
+                >
+                  <CornerDownRight className="w-3 h-3 text-gray-500" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <User className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                <select
+                  value={scene.povCharacterId || ''}
+                  onChange={(e) => handleUpdate(scene, { povCharacterId: e.target.value || null })}
+                  className="flex-1 text-xs bg-transparent border border-gray-200 rounded px-1 py-0.5"
+                >
+                  <option value="">No POV character</option>
+                  {characters.map(character => (
+                    <option key={character.id} value={character.id}>{character.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <MapPin className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                <select
+                  value={scene.locationId || ''}
+                  onChange={(e) => handleUpdate(scene, { locationId: e.target.value || null })}
+                  className="flex-1 text-xs bg-transparent border border-gray-200 rounded px-1 py-0.5"
+                >
+                  <option value="">No location</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.title}</option>
+                  ))}
+                </select>
+              </div>
+
+              <textarea
+                defaultValue={scene.summary}
+                placeholder="Scene summary..."
+                rows={2}
+                onBlur={(e) => {
+                  if (e.target.value !== scene.summary) handleUpdate(scene, { summary: e.target.value });
+                }}
+                className="w-full text-xs text-gray-700 border border-gray-200 rounded px-2 py-1 resize-none outline-none focus:border-gray-400"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -228,7 +228,8 @@ const menuItems: MenuItem[] = [
     subItems: [
       { id: 'profile', label: 'Profile' },
       { id: 'history', label: 'History' },
-      { id: 'integrations', label: 'Integrations' }
+      { id: 'integrations', label: 'Integrations' },
+      { id: 'ai-settings', label: 'AI Models' }
     ]
   },
   {
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { syncService, SyncConflict } from '../services/sync-service';
+import { applyChunkResolutions, FieldConflict, MergeChunk } from '../utils/threeWayMerge';
+import { ParagraphBlock } from '../utils/textDiff';
+
+type Choice = 'local' | 'server' | 'both';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  content: 'Text',
+  title: 'Title',
+  summary: 'Summary',
+  name: 'Name',
+  description: 'Description',
+  status: 'Status'
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '(empty)' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const chunkChoice = (chunk: MergeChunk, choice: Choice): ParagraphBlock[] => {
+  if (choice === 'local') return chunk.local;
+  if (choice === 'server') return chunk.server;
+  return [...chunk.local, ...chunk.server];
+};
+
+export function SyncConflictDialog({ conflicts, onClose }: SyncConflictDialogProps) {
+  const [index, setIndex] = useState(0);
+  // Choices keyed by `${field}` for plain fields and `${field}:${chunkIndex}` for text chunks
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const conflict = conflicts[Math.min(index, conflicts.length - 1)];
+  if (!conflict) return null;
+
+  const choose = (key: string, choice: Choice) => setChoices(prev => ({ ...prev, [key]: choice }));
+
+  const buildResolution = (fieldConflicts: FieldConflict[]) => {
+    const resolved: Record<string, unknown> = {};
+    fieldConflicts.forEach(field => {
+      if (field.chunks) {
+        const resolutions: Record<number, ParagraphBlock[]> = {};
+        field.chunks.forEach((chunk, chunkIndex) => {
+          if (chunk.conflict) resolutions[chunkIndex] = chunkChoice(chunk, choices[`${field.field}:${chunkIndex}`] || 'local');
+        });
+        resolved[field.field] = applyChunkResolutions(field.chunks, resolutions);
+      } else {
+        resolved[field.field] = (choices[field.field] || 'local') === 'server' ? field.server : field.local;
+      }
+    });
+    return resolved;
+  };
+
+  const finish = async (action: () => Promise<unknown>) => {
+    setIsResolving(true);
+    await action();
+    setIsResolving(false);
+    setChoices({});
+    if (conflicts.length <= 1) {
+      onClose();
+    } else {
+      setIndex(0);
+    }
+  };
+
+  const ChoiceButtons = ({ choiceKey, allowBoth }: { choiceKey: string; allowBoth?: boolean }) => {
+    const current = choices[choiceKey] || 'local';
+    const options: Array<{ value: Choice; label: string }> = [
+      { value: 'local', label: 'Keep mine' },
+      { value: 'server', label: 'Keep theirs' },
+      ...(allowBoth ? [{ value: 'both' as const, label: 'Keep both' }] : [])
+    ];
+
+    return (
+      <div className="flex items-center gap-1">
+        {options.map(option => (
+          <button
+            key={option.value}
+            onClick={() => choose(choiceKey, option.value)}
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              current === option.value
+                ? 'bg-[#ff4e00] border-[#ff4e00] text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Resolve sync conflict</h3>
+              <p className="text-sm text-gray-600">
+                "{conflict.title}" was changed on another device while you were offline.
+                {conflicts.length > 1 && ` (${index + 1} of ${conflicts.length})`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {conflict.conflicts.map(field => (
+            <div key={field.field}>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">{FIELD_LABELS[field.field] || field.field}</h4>
+
+              {field.chunks ? (
+                <div className="space-y-3">
+                  {field.chunks.map((chunk, chunkIndex) => chunk.conflict && (
+                    <div key={chunkIndex} className="border border-orange-200 rounded-lg overflow-hidden">
+                      <div className="grid grid-cols-2 divide-x divide-gray-200 text-sm">
+                        <div className="p-3 bg-blue-50">
+                          <div className="text-xs font-medium text-blue-700 mb-1">Your version</div>
+                          {chunk.local.length > 0
+                            ? chunk.local.map((block, i) => <p key={i} className="mb-1">{block.text}</p>)
+                            : <p className="italic text-gray-500">Removed</p>}
+                        </div>
+                        <div className="p-3 bg-green-50">
+                          <div className="text-xs font-medium text-green-700 mb-1">Other device</div>
+                          {chunk.server.length > 0
+                            ? chunk.server.map((block, i) => <p key={i} className="mb-1">{block.text}</p>)
+                            : <p className="italic text-gray-500">Removed</p>}
+                        </div>
+                      </div>
+                      <div className="px-3 py-2 bg-gray-50 border-t border-gray-200 flex justify-end">
+                        <ChoiceButtons choiceKey={`${field.field}:${chunkIndex}`} allowBoth />
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">
+                    {field.chunks.filter(chunk => !chunk.conflict && chunk.local !== chunk.server).length} other changes were merged automatically.
+                  </p>
+                </div>
+              ) : (
+                <div className="border border-orange-200 rounded-lg overflow-hidden">
+                  <div className="grid grid-cols-2 divide-x divide-gray-200 text-sm">
+                    <div className="p-3 bg-blue-50">
+                      <div className="text-xs font-medium text-blue-700 mb-1">Your version</div>
+                      {formatValue(field.local)}
+                    </div>
+                    <div className="p-3 bg-green-50">
+                      <div className="text-xs font-medium text-green-700 mb-1">Other device</div>
+                      {formatValue(field.server)}
+                    </div>
+                  </div>
+                  <div className="px-3 py-2 bg-gray-50 border-t border-gray-200 flex justify-end">
+                    <ChoiceButtons choiceKey={field.field} />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={() => finish(() => syncService.discardLocalChange(conflict.mutationId))}
+            disabled={isResolving}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Discard my changes
+          </button>
+          <button
+            onClick={() => finish(() => syncService.resolveConflict(conflict.mutationId, buildResolution(conflict.conflicts)))}
+            disabled={isResolving}
+            className="px-4 py-2 bg-[#ff4e00] text-white rounded-lg hover:bg-[#ff4e00]/80 transition-colors disabled:opacity-50"
+          >
+            {isResolving ? 'Saving...' : 'Apply resolution'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { syncService, SyncStatus } from '../services/sync-service';
+import { SyncConflictDialog } from './SyncConflictDialog';
+
+interface SyncIndicatorProps {
+  // Icon only, for narrow toolbars
+  compact?: boolean;
+  className?: string;
+}
+
+const STATUS_DISPLAY: Record<SyncStatus, { icon: typeof Cloud; color: string; label: string }> = {
+  synced: { icon: Cloud, color: 'text-green-600', label: 'Synced' },
+  syncing: { icon: RefreshCw, color: 'text-blue-600', label: 'Syncing...' },
+  pending: { icon: RefreshCw, color: 'text-orange-600', label: 'Changes pending' },
+  offline: { icon: CloudOff, color: 'text-gray-500', label: 'Offline' },
+  error: { icon: CloudOff, color: 'text-red-600', label: 'Sync error' },
+  conflict: { icon: AlertTriangle, color: 'text-orange-600', label: 'Needs review' }
+};
+
+export function SyncIndicator({ compact = false, className = '' }: SyncIndicatorProps) {
+  const { status, pendingCount, conflicts, lastSyncedAt, lastError } = useSyncStatus();
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  const display = STATUS_DISPLAY[status];
+  const Icon = display.icon;
+  const label = status === 'offline' && pendingCount > 0
+    ? `Offline - ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} saved locally`
+    : status === 'conflict'
+      ? `${conflicts.length} ${conflicts.length === 1 ? 'conflict' : 'conflicts'} to review`
+      : display.label;
+  const title = [
+    label,
+    lastError && status === 'error' ? lastError : null,
+    lastSyncedAt ? `Last synced ${lastSyncedAt.toLocaleTimeString()}` : null
+  ].filter(Boolean).join('\n');
+
+  const handleClick = () => {
+    if (conflicts.length > 0) {
+      setShowConflicts(true);
+    } else {
+      syncService.retry();
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        title={title}
+        className={`flex items-center gap-2 rounded-lg transition-colors hover:bg-gray-100 ${compact ? 'p-2' : 'px-2 py-1'} ${className}`}
+      >
+        <Icon className={`w-4 h-4 ${display.color} ${status === 'syncing' ? 'animate-spin' : ''}`} />
+        {!compact && <span className="text-xs text-gray-500">{label}</span>}
+      </button>
+
+      {showConflicts && conflicts.length > 0 && (
+        <SyncConflictDialog conflicts={conflicts} onClose={() => setShowConflicts(false)} />
+      )}
+    </>
+  );
+}
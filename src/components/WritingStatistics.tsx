@@ -0,0 +1,485 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Flame, Target, Trophy, CalendarClock, Clock, BookOpen, Loader2 } from 'lucide-react';
+import { projectService, Project } from '../services/projectService';
+import { chapterService, Chapter } from '../services/chapterService';
+import {
+  writingStatsService,
+  WritingActivity,
+  WritingGoals,
+  DailyTotal,
+  CHALLENGE_PRESETS,
+  EMPTY_GOALS,
+  toDateKey,
+  fromDateKey,
+  addDays,
+  createChallenge,
+  dailyTotals,
+  hourlyTotals,
+  chapterTotals,
+  summarizeStreaks,
+  projectDeadline,
+  challengeProgress
+} from '../services/writing-stats-service';
+
+interface WritingStatisticsProps {
+  projectId: string;
+}
+
+const CHART_DAYS = 30;
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatDate = (key: string) =>
+  fromDateKey(key).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const parseGoal = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+function StatCard({ icon: Icon, label, value, detail }: {
+  icon: React.ElementType;
+  label: string;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <div className="bg-white border border-[#C6C5C5] rounded-lg p-4">
+      <div className="flex items-center gap-2 text-sm text-[#889096]">
+        <Icon className="w-4 h-4" />
+        {label}
+      </div>
+      <div className="text-2xl font-semibold text-gray-900 mt-1">{value}</div>
+      {detail && <div className="text-xs text-[#889096] mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+// Vertical bars for net words per day, with an optional dashed goal line
+function DailyChart({ days, goal }: { days: DailyTotal[]; goal: number | null }) {
+  const max = Math.max(1, goal || 0, ...days.map(day => day.words));
+
+  return (
+    <div>
+      <div className="relative h-40 flex items-end gap-1">
+        {goal && (
+          <div
+            className="absolute left-0 right-0 border-t border-dashed border-[#ff4e00]"
+            style={{ bottom: `${(goal / max) * 100}%` }}
+            title={`Goal: ${formatNumber(goal)} words`}
+          />
+        )}
+        {days.map(day => (
+          <div
+            key={day.date}
+            className={`flex-1 rounded-t ${goal && day.words >= goal ? 'bg-[#ff4e00]' : 'bg-[#e8ddc1]'}`}
+            style={{ height: `${(Math.max(0, day.words) / max) * 100}%` }}
+            title={`${formatDate(day.date)}: ${formatNumber(day.words)} words`}
+          />
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div className="flex justify-between text-xs text-[#889096] mt-1">
+          <span>{formatDate(days[0].date)}</span>
+          <span>{formatDate(days[days.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WritingStatistics({ projectId }: WritingStatisticsProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [activity, setActivity] = useState<WritingActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [goals, setGoals] = useState<WritingGoals>(EMPTY_GOALS);
+  const [draft, setDraft] = useState({ dailyWords: '', weeklyWords: '', deadline: '', targetWords: '' });
+  const [challengeDraft, setChallengeDraft] = useState({
+    presetId: CHALLENGE_PRESETS[0].id,
+    startDate: toDateKey(new Date()),
+    targetWords: '',
+    days: ''
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([
+      projectService.getProject(projectId),
+      chapterService.getProjectChapters(projectId),
+      writingStatsService.getActivity(projectId)
+    ])
+      .then(([loadedProject, loadedChapters, loadedActivity]) => {
+        if (cancelled) return;
+        const loadedGoals = writingStatsService.getGoals(loadedProject);
+        setProject(loadedProject);
+        setChapters([...loadedChapters].sort((a, b) => a.orderIndex - b.orderIndex));
+        setActivity(loadedActivity);
+        setGoals(loadedGoals);
+        setDraft({
+          dailyWords: loadedGoals.dailyWords ? String(loadedGoals.dailyWords) : '',
+          weeklyWords: loadedGoals.weeklyWords ? String(loadedGoals.weeklyWords) : '',
+          deadline: loadedGoals.deadline || '',
+          targetWords: loadedProject?.wordCountTarget ? String(loadedProject.wordCountTarget) : ''
+        });
+      })
+      .catch(error => console.error('Error loading writing statistics:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const today = toDateKey(new Date());
+  // Weeks start on Monday
+  const weekStart = addDays(today, -((fromDateKey(today).getDay() + 6) % 7));
+  const currentWords = chapters.reduce((sum, chapter) => sum + (chapter.wordCount || 0), 0);
+  const targetWords = project?.wordCountTarget || 0;
+
+  const stats = useMemo(() => {
+    const recent = dailyTotals(activity, addDays(today, -(CHART_DAYS - 1)), today);
+    const byChapter = chapterTotals(activity);
+
+    return {
+      recent,
+      todayWords: recent[recent.length - 1]?.words || 0,
+      weekWords: dailyTotals(activity, weekStart, today).reduce((sum, day) => sum + day.words, 0),
+      streaks: summarizeStreaks(activity, goals.dailyWords, today),
+      hours: hourlyTotals(activity),
+      chapters: [
+        ...chapters.filter(chapter => byChapter.has(chapter.id)).map(chapter => ({
+          id: chapter.id,
+          title: chapter.title,
+          words: byChapter.get(chapter.id) || 0
+        })),
+        ...Array.from(byChapter.entries())
+          .filter(([id]) => !chapters.some(chapter => chapter.id === id))
+          .map(([id, words]) => ({ id, title: 'Deleted chapter', words }))
+      ],
+      deadline: targetWords > 0 ? projectDeadline(activity, currentWords, targetWords, goals.deadline, today) : null,
+      challenge: goals.challenge ? challengeProgress(activity, goals.challenge, today) : null
+    };
+  }, [activity, chapters, goals, today, weekStart, currentWords, targetWords]);
+
+  const persistGoals = async (nextGoals: WritingGoals, nextTarget?: number) => {
+    setIsSaving(true);
+    try {
+      const updated = await writingStatsService.saveGoals(projectId, nextGoals, nextTarget);
+      if (updated) {
+        setProject(updated);
+        setGoals(writingStatsService.getGoals(updated));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveGoals = (e: React.FormEvent) => {
+    e.preventDefault();
+    persistGoals({
+      ...goals,
+      dailyWords: parseGoal(draft.dailyWords),
+      weeklyWords: parseGoal(draft.weeklyWords),
+      deadline: draft.deadline || null
+    }, parseGoal(draft.targetWords) || 0);
+  };
+
+  const handleStartChallenge = () => {
+    const preset = CHALLENGE_PRESETS.find(item => item.id === challengeDraft.presetId);
+    const custom = {
+      id: 'custom',
+      name: 'Writing challenge',
+      targetWords: parseGoal(challengeDraft.targetWords) || 0,
+      days: parseGoal(challengeDraft.days) || 0
+    };
+    const chosen = preset || custom;
+    if (chosen.targetWords <= 0 || chosen.days <= 0) return;
+
+    persistGoals({ ...goals, challenge: createChallenge(chosen, challengeDraft.startDate) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64 text-[#889096]">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading statistics...
+      </div>
+    );
+  }
+
+  const maxHour = Math.max(1, ...stats.hours);
+  const maxChapter = Math.max(1, ...stats.chapters.map(chapter => chapter.words));
+  const inputClass = 'w-full px-3 py-2 border border-[#C6C5C5] rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-[#ff4e00]';
+
+  return (
+    <div className="p-6 space-y-6 overflow-y-auto h-full">
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          icon={Target}
+          label="Today"
+          value={formatNumber(stats.todayWords)}
+          detail={goals.dailyWords ? `of ${formatNumber(goals.dailyWords)} daily goal` : 'words written'}
+        />
+        <StatCard
+          icon={CalendarClock}
+          label="This week"
+          value={formatNumber(stats.weekWords)}
+          detail={goals.weeklyWords ? `of ${formatNumber(goals.weeklyWords)} weekly goal` : 'words written'}
+        />
+        <StatCard
+          icon={Flame}
+          label="Current streak"
+          value={`${stats.streaks.current} day${stats.streaks.current === 1 ? '' : 's'}`}
+          detail={`Longest: ${stats.streaks.longest} day${stats.streaks.longest === 1 ? '' : 's'}${stats.streaks.metToday ? '' : ' · not yet today'}`}
+        />
+        <StatCard
+          icon={BookOpen}
+          label="Manuscript"
+          value={formatNumber(currentWords)}
+          detail={targetWords ? `of ${formatNumber(targetWords)} words` : 'words so far'}
+        />
+      </div>
+
+      {/* Deadline projection */}
+      {stats.deadline && (
+        <div className={`rounded-lg p-4 border ${stats.deadline.onTrack ? 'bg-green-50 border-green-200' : 'bg-[#FAF9F9] border-[#C6C5C5]'}`}>
+          <h3 className="font-semibold text-gray-900 mb-1">Deadline</h3>
+          {stats.deadline.remainingWords === 0 ? (
+            <p className="text-sm text-gray-700">You've reached your target of {formatNumber(targetWords)} words.</p>
+          ) : (
+            <p className="text-sm text-gray-700">
+              {formatNumber(stats.deadline.remainingWords)} words to go.
+              {goals.deadline && (
+                <> {stats.deadline.daysLeft > 0
+                  ? `${formatNumber(stats.deadline.requiredPerDay)} words a day for ${stats.deadline.daysLeft} day${stats.deadline.daysLeft === 1 ? '' : 's'} to finish by ${formatDate(goals.deadline)}.`
+                  : `The deadline of ${formatDate(goals.deadline)} has passed.`}</>
+              )}
+              {' '}At your recent pace of {formatNumber(stats.deadline.averagePerDay)} words a day
+              {stats.deadline.projectedFinish ? ` you'll finish around ${formatDate(stats.deadline.projectedFinish)}.` : ' there is no projected finish yet.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Challenge */}
+      {goals.challenge && stats.challenge && (
+        <div className="bg-white border border-[#C6C5C5] rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-[#ff4e00]" />
+              <h3 className="font-semibold text-gray-900">{goals.challenge.name}</h3>
+              <span className="text-sm text-[#889096]">
+                {formatDate(goals.challenge.startDate)} – {formatDate(goals.challenge.endDate)}
+              </span>
+            </div>
+            <button
+              onClick={() => persistGoals({ ...goals, challenge: null })}
+              disabled={isSaving}
+              className="text-sm text-[#889096] hover:text-gray-900"
+            >
+              End challenge
+            </button>
+          </div>
+
+          <div className="relative h-3 bg-[#e8ddc1] rounded-full overflow-hidden">
+            <div
+              className="h-full bg-[#ff4e00]"
+              style={{ width: `${Math.min(100, (stats.challenge.wordsWritten / goals.challenge.targetWords) * 100)}%` }}
+            />
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-gray-900"
+              style={{ left: `${Math.min(100, (stats.challenge.parWords / goals.challenge.targetWords) * 100)}%` }}
+              title={`Par: ${formatNumber(stats.challenge.parWords)} words`}
+            />
+          </div>
+          <div className="flex justify-between text-sm text-gray-700 mt-2">
+            <span>
+              {formatNumber(stats.challenge.wordsWritten)} / {formatNumber(goals.challenge.targetWords)} words
+              {stats.challenge.dayNumber > 0 && ` · day ${stats.challenge.dayNumber} of ${stats.challenge.totalDays}`}
+            </span>
+            <span>
+              {stats.challenge.wordsWritten >= stats.challenge.parWords ? 'On par' : `${formatNumber(stats.challenge.parWords - stats.challenge.wordsWritten)} behind par`}
+              {stats.challenge.requiredPerDay > 0 && ` · ${formatNumber(stats.challenge.requiredPerDay)} a day to finish`}
+            </span>
+          </div>
+
+          {stats.challenge.daily.length > 0 && (
+            <div className="mt-4">
+              <DailyChart
+                days={stats.challenge.daily}
+                goal={Math.ceil(goals.challenge.targetWords / stats.challenge.totalDays)}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Charts */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white border border-[#C6C5C5] rounded-lg p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Words per day</h3>
+            <DailyChart days={stats.recent} goal={goals.dailyWords} />
+          </div>
+
+          <div className="bg-white border border-[#C6C5C5] rounded-lg p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Words per chapter</h3>
+            {stats.chapters.length === 0 ? (
+              <p className="text-sm text-[#889096]">Nothing written yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.chapters.map(chapter => (
+                  <div key={chapter.id} className="flex items-center gap-3 text-sm">
+                    <span className="w-40 truncate text-gray-700" title={chapter.title}>{chapter.title}</span>
+                    <div className="flex-1 h-3 bg-[#FAF9F9] rounded">
+                      <div
+                        className="h-full bg-[#e8ddc1] rounded"
+                        style={{ width: `${(Math.max(0, chapter.words) / maxChapter) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-16 text-right text-[#889096]">{formatNumber(chapter.words)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white border border-[#C6C5C5] rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Clock className="w-4 h-4 text-[#889096]" />
+              <h3 className="font-semibold text-gray-900">Time of day</h3>
+            </div>
+            <div className="h-32 flex items-end gap-1">
+              {stats.hours.map((words, hour) => (
+                <div
+                  key={hour}
+                  className="flex-1 bg-[#e8ddc1] rounded-t"
+                  style={{ height: `${(Math.max(0, words) / maxHour) * 100}%` }}
+                  title={`${String(hour).padStart(2, '0')}:00: ${formatNumber(words)} words`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-[#889096] mt-1">
+              {[0, 6, 12, 18, 23].map(hour => <span key={hour}>{String(hour).padStart(2, '0')}:00</span>)}
+            </div>
+          </div>
+        </div>
+
+        {/* Goals */}
+        <div className="space-y-6">
+          <form onSubmit={handleSaveGoals} className="bg-white border border-[#C6C5C5] rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold text-gray-900">Goals</h3>
+            <label className="block text-sm text-gray-700">
+              Daily words
+              <input
+                type="number"
+                min={0}
+                value={draft.dailyWords}
+                onChange={e => setDraft(prev => ({ ...prev, dailyWords: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Weekly words
+              <input
+                type="number"
+                min={0}
+                value={draft.weeklyWords}
+                onChange={e => setDraft(prev => ({ ...prev, weeklyWords: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Manuscript target
+              <input
+                type="number"
+                min={0}
+                value={draft.targetWords}
+                onChange={e => setDraft(prev => ({ ...prev, targetWords: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Deadline
+              <input
+                type="date"
+                value={draft.deadline}
+                onChange={e => setDraft(prev => ({ ...prev, deadline: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00]/80 text-white rounded-lg transition-colors font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save goals'}
+            </button>
+          </form>
+
+          {!goals.challenge && (
+            <div className="bg-white border border-[#C6C5C5] rounded-lg p-4 space-y-3">
+              <h3 className="font-semibold text-gray-900">Start a challenge</h3>
+              <select
+                value={challengeDraft.presetId}
+                onChange={e => setChallengeDraft(prev => ({ ...prev, presetId: e.target.value }))}
+                className={inputClass}
+              >
+                {CHALLENGE_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name} ({formatNumber(preset.targetWords)} words in {preset.days} days)
+                  </option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              {challengeDraft.presetId === 'custom' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="Words"
+                    value={challengeDraft.targetWords}
+                    onChange={e => setChallengeDraft(prev => ({ ...prev, targetWords: e.target.value }))}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    placeholder="Days"
+                    value={challengeDraft.days}
+                    onChange={e => setChallengeDraft(prev => ({ ...prev, days: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              <label className="block text-sm text-gray-700">
+                Starting
+                <input
+                  type="date"
+                  value={challengeDraft.startDate}
+                  onChange={e => setChallengeDraft(prev => ({ ...prev, startDate: e.target.value }))}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <button
+                onClick={handleStartChallenge}
+                disabled={isSaving || !challengeDraft.startDate}
+                className="w-full px-4 py-2 border border-[#C6C5C5] text-gray-900 rounded-lg hover:bg-[#FAF9F9] transition-colors disabled:opacity-50"
+              >
+                Start challenge
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
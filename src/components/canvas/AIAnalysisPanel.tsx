@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sparkles, X, Loader2, AlertCircle } from 'lucide-react';
+import { Node, Edge } from 'reactflow';
+import {
+  aiService,
+  AIResult,
+  CharacterArc,
+  RelationshipSuggestion,
+  StoryCoherenceResult
+} from '../../services/aiService';
+import type { PackedContext } from '../../utils/aiContext';
+import { AIContextDetails } from './AIContextDetails';
+
+export type AIAnalysisKind = 'coherence' | 'arcs' | 'relationships';
+
+const TITLES: Record<AIAnalysisKind, string> = {
+  coherence: 'Story coherence',
+  arcs: 'Character arcs',
+  relationships: 'Relationship ideas'
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: 'bg-red-100 text-red-700',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  minor: 'bg-gray-100 text-gray-700'
+};
+
+type Findings = StoryCoherenceResult | CharacterArc[] | RelationshipSuggestion[];
+
+type RunState =
+  | { state: 'running' }
+  | { state: 'done'; droppedIssues: number }
+  | { state: 'failed'; error: string }
+  | { state: 'cancelled' };
+
+interface AIAnalysisPanelProps {
+  kind: AIAnalysisKind;
+  // Grounds the analysis in the project's planning data
+  projectId?: string;
+  nodes: Node[];
+  edges: Edge[];
+  onClose: () => void;
+}
+
+/**
+ * Runs one AI analysis of the canvas, showing findings as they stream in.
+ * Cancelling, or closing the panel, stops the request; credits for the part
+ * of the reply that wasn't written are refunded by the server.
+ */
+export const AIAnalysisPanel: React.FC<AIAnalysisPanelProps> = ({ kind, projectId, nodes, edges, onClose }) => {
+  const [findings, setFindings] = useState<Findings | null>(null);
+  const [run, setRun] = useState<RunState>({ state: 'running' });
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [contexts, setContexts] = useState<PackedContext[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+  // The canvas as it was when the analysis started; edits meanwhile don't restart it
+  const snapshotRef = useRef({ nodes, edges });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { nodes: analyzedNodes, edges: analyzedEdges } = snapshotRef.current;
+    const request = {
+      signal: controller.signal,
+      onPartial: (data: Findings) => setFindings(data),
+      projectId,
+      onContext: (context: PackedContext) => setContexts(previous => [...previous, context])
+    };
+
+    setFindings(null);
+    setProgress(null);
+    setContexts([]);
+    setRun({ state: 'running' });
+
+    const pending: Promise<AIResult<Findings>> =
+      kind === 'coherence' ? aiService.analyzeStoryCoherence(analyzedNodes, analyzedEdges, request) :
+      kind === 'arcs' ? aiService.analyzeCharacterArcs(analyzedNodes, analyzedEdges, { ...request, onProgress: setProgress }) :
+      aiService.generateRelationshipSuggestions(analyzedNodes, analyzedEdges, request);
+
+    pending.then(result => {
+      if (controller.signal.aborted && result.status !== 'cancelled') return;
+      if (result.status === 'cancelled') {
+        setRun({ state: 'cancelled' });
+      } else if (result.status === 'failed') {
+        setRun({ state: 'failed', error: result.error });
+      } else {
+        setFindings(result.data);
+        setRun({ state: 'done', droppedIssues: result.status === 'partial' ? result.issues.length : 0 });
+      }
+    });
+
+    return () => controller.abort();
+  }, [kind, projectId]);
+
+  const nameOf = (id: string) => {
+    const node = snapshotRef.current.nodes.find(n => n.id === id);
+    return node?.data?.name || node?.data?.title || id;
+  };
+
+  const handleCancel = () => controllerRef.current?.abort();
+
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    onClose();
+  };
+
+  const renderCoherence = (result: StoryCoherenceResult) => (
+    <div className="space-y-3">
+      <div className="text-sm text-gray-700">
+        Coherence score: <span className="font-semibold text-gray-900">{result.overallScore}/100</span>
+      </div>
+      {[...result.issues, ...result.plotHoles].length === 0 && run.state === 'done' && (
+        <p className="text-sm text-gray-500">No problems found.</p>
+      )}
+      {result.issues.map((issue, index) => (
+        <div key={`issue-${index}`} className="p-2 border border-gray-200 rounded">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`px-1.5 py-0.5 rounded text-xs ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+            <span className="text-xs text-gray-500">{issue.type.replace(/_/g, ' ')}</span>
+          </div>
+          <p className="text-sm text-gray-900">{issue.description}</p>
+          {issue.suggestedFix && <p className="text-xs text-gray-600 mt-1">Fix: {issue.suggestedFix}</p>}
+        </div>
+      ))}
+      {result.plotHoles.map(hole => (
+        <div key={hole.id} className="p-2 border border-gray-200 rounded">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`px-1.5 py-0.5 rounded text-xs ${SEVERITY_STYLES[hole.severity]}`}>{hole.severity}</span>
+            <span className="text-xs text-gray-500">plot hole · {hole.location}</span>
+          </div>
+          <p className="text-sm text-gray-900">{hole.description}</p>
+          {hole.suggestedResolution && <p className="text-xs text-gray-600 mt-1">Fix: {hole.suggestedResolution}</p>}
+        </div>
+      ))}
+      {result.suggestions.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+          {result.suggestions.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+
+  const renderArcs = (arcs: CharacterArc[]) => (
+    <div className="space-y-3">
+      {arcs.map(arc => (
+        <div key={arc.characterId} className="p-2 border border-gray-200 rounded">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-900">{nameOf(arc.characterId)}</span>
+            <span className="text-xs text-gray-500">growth {arc.growth}/10</span>
+          </div>
+          {arc.stages.map((stage, index) => (
+            <p key={index} className="text-xs text-gray-700">
+              <span className="font-medium capitalize">{stage.stage}:</span> {stage.characterState}
+            </p>
+          ))}
+          {arc.conflicts.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">Conflicts: {arc.conflicts.join('; ')}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderRelationships = (suggestions: RelationshipSuggestion[]) => (
+    <div className="space-y-3">
+      {suggestions.map((suggestion, index) => (
+        <div key={index} className="p-2 border border-gray-200 rounded">
+          <div className="text-sm text-gray-900">
+            {nameOf(suggestion.fromNodeId)} <span className="text-gray-400">→</span> {nameOf(suggestion.toNodeId)}
+          </div>
+          <div className="text-xs text-gray-500 mb-1">
+            {suggestion.relationshipType} · strength {suggestion.strength}/10
+          </div>
+          <p className="text-xs text-gray-700">{suggestion.reasoning}</p>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="absolute left-4 bottom-4 z-20 w-96 max-h-[60vh] flex flex-col bg-white rounded-lg shadow-lg border border-gray-200">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-[#ff4e00]" />
+          <h3 className="font-semibold text-sm text-gray-900">{TITLES[kind]}</h3>
+          {run.state === 'running' && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+        </div>
+        <div className="flex items-center gap-2">
+          {run.state === 'running' && (
+            <button
+              onClick={handleCancel}
+              className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+          <button onClick={handleClose} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Batch progress */}
+      {progress && progress.total > 0 && run.state === 'running' && (
+        <div className="px-4 pt-3">
+          <div className="text-xs text-gray-500 mb-1">{progress.completed} of {progress.total} characters analyzed</div>
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-[#ff4e00] transition-all"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {run.state === 'failed' && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">Analysis failed</div>
+              <div className="text-xs mt-1">{run.error}</div>
+            </div>
+          </div>
+        )}
+        {run.state === 'cancelled' && (
+          <p className="text-xs text-gray-500">Cancelled. Anything shown below is incomplete.</p>
+        )}
+        {run.state === 'done' && run.droppedIssues > 0 && (
+          <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+            Part of the reply couldn't be used and was left out.
+          </p>
+        )}
+        {!findings && run.state === 'running' && (
+          <p className="text-sm text-gray-500">Waiting for the first results...</p>
+        )}
+
+        {findings && run.state !== 'failed' && (
+          kind === 'coherence' ? renderCoherence(findings as StoryCoherenceResult) :
+          kind === 'arcs' ? renderArcs(findings as CharacterArc[]) :
+          renderRelationships(findings as RelationshipSuggestion[])
+        )}
+
+        {run.state === 'done' && Array.isArray(findings) && findings.length === 0 && (
+          <p className="text-sm text-gray-500">Nothing to suggest for this canvas.</p>
+        )}
+      </div>
+
+      <AIContextDetails contexts={contexts} />
+    </div>
+  );
+};
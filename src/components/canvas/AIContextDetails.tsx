@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { PackedContext } from '../../utils/aiContext';
+
+interface AIContextDetailsProps {
+  contexts: PackedContext[];
+}
+
+/**
+ * The story context that went out with an AI request: what was included
+ * and why, what didn't fit the budget, and the exact text sent.
+ */
+export const AIContextDetails: React.FC<AIContextDetailsProps> = ({ contexts }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [showText, setShowText] = useState<number | null>(null);
+
+  if (contexts.length === 0) return null;
+
+  const itemCount = contexts.reduce((sum, context) => sum + context.included.length, 0);
+
+  return (
+    <div className="border-t border-gray-200 px-4 py-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Story context sent ({itemCount} {itemCount === 1 ? 'item' : 'items'})
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-3 max-h-64 overflow-y-auto">
+          {contexts.map((context, index) => (
+            <div key={index} className="text-xs">
+              <div className="flex items-center justify-between text-gray-700 mb-1">
+                <span className="font-medium">{context.target || 'Whole canvas'}</span>
+                <span className="text-gray-500">~{context.tokens} of {context.budget} tokens</span>
+              </div>
+
+              {context.included.length === 0 ? (
+                <p className="text-gray-500">No planning data was relevant, so only the prompt was sent.</p>
+              ) : (
+                <ul className="space-y-0.5">
+                  {context.included.map(entry => (
+                    <li key={entry.id} className="text-gray-700">
+                      <span className="text-gray-400 capitalize">{entry.kind}</span> {entry.label}
+                      {entry.reasons.length > 0 && (
+                        <span className="text-gray-400"> · {entry.reasons.join('; ')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {context.omitted.length > 0 && (
+                <p className="text-gray-500 mt-1">
+                  Left out to fit the budget: {context.omitted.map(entry => entry.label).join(', ')}
+                </p>
+              )}
+
+              {context.text && (
+                <>
+                  <button
+                    onClick={() => setShowText(showText === index ? null : index)}
+                    className="mt-1 text-[#ff4e00] hover:underline"
+                  >
+                    {showText === index ? 'Hide exact text' : 'Show exact text'}
+                  </button>
+                  {showText === index && (
+                    <pre className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded whitespace-pre-wrap font-mono text-[11px] text-gray-700">
+                      {context.text}
+                    </pre>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
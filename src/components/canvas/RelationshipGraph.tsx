@@ -0,0 +1,640 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { GitBranch, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { characterService, Character } from '../../services/character-service';
+import { chapterService, Chapter } from '../../services/chapterService';
+import { relationshipService } from '../../services/relationship-service';
+import {
+  CharacterRelationship,
+  Point,
+  RELATIONSHIP_TYPES,
+  forceLayout,
+  relationshipAt,
+  relationshipType
+} from '../../utils/relationshipGraph';
+
+interface RelationshipGraphProps {
+  projectId?: string;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 700;
+const NODE_RADIUS = 22;
+// How far the two edges between the same pair bow apart
+const PAIR_OFFSET = 28;
+
+const ROLE_OPTIONS: { value: Character['role']; label: string; color: string }[] = [
+  { value: 'protagonist', label: 'Protagonist', color: '#2563eb' },
+  { value: 'antagonist', label: 'Antagonist', color: '#dc2626' },
+  { value: 'supporting', label: 'Supporting', color: '#16a34a' },
+  { value: 'minor', label: 'Minor', color: '#6b7280' }
+];
+
+const roleColor = (role: Character['role']) =>
+  ROLE_OPTIONS.find(option => option.value === role)?.color || '#6b7280';
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const EMPTY_DRAFT = { fromId: '', toId: '', type: 'friend', strength: 5 };
+const EMPTY_CHANGE = { chapterId: '', type: '', strength: '', description: '', ended: false };
+
+export const RelationshipGraph: React.FC<RelationshipGraphProps> = ({ projectId }) => {
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [relationships, setRelationships] = useState<CharacterRelationship[]>([]);
+  const [typeFilter, setTypeFilter] = useState<string[]>([]);
+  const [roleFilter, setRoleFilter] = useState<Character['role'][]>([]);
+  // Index into the chapters, or null for the end of the story
+  const [position, setPosition] = useState<number | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
+  const [positions, setPositions] = useState<Record<string, Point>>({});
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [changeDraft, setChangeDraft] = useState(EMPTY_CHANGE);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    characterService.getCharacters(projectId)
+      .then(setCharacters)
+      .catch(error => console.error('Error loading characters for relationships:', error));
+    chapterService.getProjectChapters(projectId)
+      .then(loaded => setChapters([...loaded].sort((a, b) => a.orderIndex - b.orderIndex)));
+    relationshipService.getRelationships(projectId).then(setRelationships);
+  }, [projectId]);
+
+  const chapterOrder = useMemo(
+    () => new Map(chapters.map((chapter, index) => [chapter.id, index])),
+    [chapters]
+  );
+
+  const visibleCharacters = useMemo(
+    () => characters.filter(character => roleFilter.length === 0 || roleFilter.includes(character.role)),
+    [characters, roleFilter]
+  );
+  const visibleIds = useMemo(() => new Set(visibleCharacters.map(character => character.id)), [visibleCharacters]);
+
+  // Relationships between shown characters as they stand at the scrubber position
+  const edges = useMemo(() => relationships
+    .filter(relationship => visibleIds.has(relationship.fromId) && visibleIds.has(relationship.toId))
+    .map(relationship => ({ relationship, state: relationshipAt(relationship, chapterOrder, position) }))
+    .filter(({ state }) => state.active && (typeFilter.length === 0 || typeFilter.includes(relationshipType(state.type).id))),
+  [relationships, visibleIds, chapterOrder, position, typeFilter]);
+
+  // Lay out on every relationship rather than the scrubbed ones, so nodes stay put while scrubbing.
+  // Keyed on the ids and strengths only, so editing a description doesn't move anything.
+  const layoutKey = useMemo(() => JSON.stringify([
+    visibleCharacters.map(character => character.id),
+    relationships.map(relationship => [relationship.fromId, relationship.toId, relationship.strength])
+  ]), [visibleCharacters, relationships]);
+
+  const layoutInput = useMemo(() => {
+    const [nodeIds, links] = JSON.parse(layoutKey) as [string[], [string, string, number][]];
+    return { nodeIds, links: links.map(([from, to, strength]) => ({ from, to, strength })) };
+  }, [layoutKey]);
+
+  const handleRelayout = useCallback(() => {
+    setPositions(forceLayout(layoutInput.nodeIds, layoutInput.links, WIDTH, HEIGHT));
+  }, [layoutInput]);
+
+  useEffect(handleRelayout, [handleRelayout]);
+
+  const typesInUse = useMemo(() => {
+    const ids = new Set(relationships.flatMap(relationship => [
+      relationship.type,
+      ...relationship.changes.map(change => change.type || relationship.type)
+    ]).map(type => relationshipType(type).id));
+    return Array.from(ids).map(id => relationshipType(id));
+  }, [relationships]);
+
+  const nameOf = (id: string) => characters.find(character => character.id === id)?.name || 'Unknown';
+  const selectedEdge = edges.find(edge => edge.relationship.id === selectedEdgeId) || null;
+  const selectedRelationship = relationships.find(relationship => relationship.id === selectedEdgeId) || null;
+  const selectedCharacter = characters.find(character => character.id === selectedCharacterId) || null;
+
+  // ===== Dragging nodes =====
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const rect = svg.getBoundingClientRect();
+    const scale = Math.max(WIDTH / rect.width, HEIGHT / rect.height);
+    return {
+      x: (e.clientX - rect.left - (rect.width - WIDTH / scale) / 2) * scale,
+      y: (e.clientY - rect.top - (rect.height - HEIGHT / scale) / 2) * scale
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const id = dragRef.current;
+    const point = id ? toSvgPoint(e) : null;
+    if (id && point) setPositions(prev => ({ ...prev, [id]: point }));
+  };
+
+  // ===== Editing =====
+
+  const replaceRelationship = (updated: CharacterRelationship) => {
+    setRelationships(prev => prev.map(relationship => relationship.id === updated.id ? updated : relationship));
+  };
+
+  const handleCreate = async () => {
+    if (!projectId || !draft.fromId || !draft.toId || draft.fromId === draft.toId) return;
+    const created = await relationshipService.createRelationship(projectId, {
+      ...draft,
+      description: '',
+      introducedChapterId: null
+    });
+    if (created) {
+      setRelationships(prev => [...prev, created]);
+      setSelectedEdgeId(created.id);
+      setDraft(EMPTY_DRAFT);
+    } else {
+      alert('Could not add the relationship. These two characters may already have one in this direction.');
+    }
+  };
+
+  const handleUpdate = async (updates: Partial<CharacterRelationship>) => {
+    if (!selectedRelationship) return;
+    const next = { ...selectedRelationship, ...updates };
+    replaceRelationship(next);
+    const saved = await relationshipService.updateRelationship(next);
+    if (saved) replaceRelationship(saved);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedRelationship) return;
+    if (!window.confirm(`Delete the relationship between ${nameOf(selectedRelationship.fromId)} and ${nameOf(selectedRelationship.toId)}?`)) return;
+    if (await relationshipService.deleteRelationship(selectedRelationship.id)) {
+      setRelationships(prev => prev.filter(relationship => relationship.id !== selectedRelationship.id));
+      setSelectedEdgeId(null);
+    }
+  };
+
+  const handleAddChange = async () => {
+    if (!selectedRelationship || !changeDraft.chapterId) return;
+    const saved = await relationshipService.saveChange(selectedRelationship, {
+      chapterId: changeDraft.chapterId,
+      type: changeDraft.type || null,
+      strength: changeDraft.strength ? Number(changeDraft.strength) : null,
+      description: changeDraft.description.trim() || null,
+      ended: changeDraft.ended
+    });
+    if (saved) {
+      replaceRelationship({
+        ...selectedRelationship,
+        changes: [...selectedRelationship.changes.filter(change => change.chapterId !== saved.chapterId), saved]
+      });
+      setChangeDraft(EMPTY_CHANGE);
+    }
+  };
+
+  const handleDeleteChange = async (changeId: string) => {
+    if (!selectedRelationship) return;
+    if (await relationshipService.deleteChange(changeId)) {
+      replaceRelationship({
+        ...selectedRelationship,
+        changes: selectedRelationship.changes.filter(change => change.id !== changeId)
+      });
+    }
+  };
+
+  // ===== Drawing =====
+
+  const edgeGeometry = (fromId: string, toId: string) => {
+    const from = positions[fromId];
+    const to = positions[toId];
+    if (!from || !to) return null;
+
+    const paired = edges.some(edge => edge.relationship.fromId === toId && edge.relationship.toId === fromId);
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.max(Math.hypot(dx, dy), 1);
+    const offset = paired ? PAIR_OFFSET : 0;
+    const control = {
+      x: (from.x + to.x) / 2 + (-dy / length) * offset,
+      y: (from.y + to.y) / 2 + (dx / length) * offset
+    };
+
+    // Stop the line at the edge of each node so the arrowhead stays visible
+    const trim = (point: Point, toward: Point) => {
+      const tx = toward.x - point.x;
+      const ty = toward.y - point.y;
+      const distance = Math.max(Math.hypot(tx, ty), 1);
+      return { x: point.x + (tx / distance) * (NODE_RADIUS + 2), y: point.y + (ty / distance) * (NODE_RADIUS + 2) };
+    };
+    const start = trim(from, control);
+    const end = trim(to, control);
+
+    return {
+      path: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`,
+      label: { x: (start.x + 2 * control.x + end.x) / 4, y: (start.y + 2 * control.y + end.y) / 4 }
+    };
+  };
+
+  const markerColors = Array.from(new Set(edges.map(({ state }) => relationshipType(state.type).color)));
+  const markerId = (color: string) => `relationship-arrow-${color.slice(1)}`;
+  const positionLabel = position === null
+    ? 'End of story'
+    : `Chapter ${position + 1}: ${chapters[position]?.title || ''}`;
+
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const chipClass = (active: boolean) => `px-2 py-0.5 rounded-full text-xs border transition-colors ${
+    active ? 'bg-blue-100 text-blue-700 border-blue-200' : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className="h-full flex bg-white">
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-3 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <GitBranch className="w-4 h-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-900">{edges.length} relationships</span>
+          </div>
+          {typesInUse.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500 mr-1">Type</span>
+              {typesInUse.map(type => (
+                <button key={type.id} onClick={() => setTypeFilter(prev => toggle(prev, type.id))} className={chipClass(typeFilter.includes(type.id))}>
+                  <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: type.color }} />
+                  {type.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-gray-500 mr-1">Role</span>
+            {ROLE_OPTIONS.map(role => (
+              <button key={role.value} onClick={() => setRoleFilter(prev => toggle(prev, role.value))} className={chipClass(roleFilter.includes(role.value))}>
+                {role.label}
+              </button>
+            ))}
+          </div>
+          <button onClick={handleRelayout} className="ml-auto p-1.5 text-gray-600 hover:bg-gray-100 rounded" title="Lay out again">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Graph */}
+        <div className="flex-1 relative min-h-0">
+          {visibleCharacters.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-center text-gray-500 p-8">
+              <div>
+                <p className="font-medium text-gray-700 mb-1">No characters to show</p>
+                <p className="text-sm">Add characters on the Characters page, then connect them here.</p>
+              </div>
+            </div>
+          ) : (
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full h-full select-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => { dragRef.current = null; }}
+              onPointerLeave={() => { dragRef.current = null; }}
+              onClick={() => { setSelectedEdgeId(null); setSelectedCharacterId(null); }}
+            >
+              <defs>
+                {markerColors.map(color => (
+                  <marker key={color} id={markerId(color)} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                  </marker>
+                ))}
+              </defs>
+
+              {edges.map(({ relationship, state }) => {
+                const geometry = edgeGeometry(relationship.fromId, relationship.toId);
+                if (!geometry) return null;
+                const type = relationshipType(state.type);
+                const isSelected = relationship.id === selectedEdgeId;
+                const dimmed = selectedCharacterId !== null &&
+                  relationship.fromId !== selectedCharacterId && relationship.toId !== selectedCharacterId;
+                return (
+                  <g
+                    key={relationship.id}
+                    className="cursor-pointer"
+                    opacity={dimmed ? 0.15 : 1}
+                    onClick={e => { e.stopPropagation(); setSelectedEdgeId(relationship.id); setSelectedCharacterId(null); }}
+                  >
+                    {/* Wide transparent stroke makes thin edges easy to click */}
+                    <path d={geometry.path} stroke="transparent" strokeWidth={14} fill="none" />
+                    <path
+                      d={geometry.path}
+                      stroke={type.color}
+                      strokeWidth={1 + state.strength * 0.5 + (isSelected ? 2 : 0)}
+                      strokeOpacity={isSelected ? 1 : 0.75}
+                      fill="none"
+                      markerEnd={type.symmetric ? undefined : `url(#${markerId(type.color)})`}
+                    />
+                    <text x={geometry.label.x} y={geometry.label.y - 4} textAnchor="middle" className="text-[11px]" fill={type.color}>
+                      {type.label}
+                    </text>
+                  </g>
+                );
+              })}
+
+              {visibleCharacters.map(character => {
+                const point = positions[character.id];
+                if (!point) return null;
+                const isSelected = character.id === selectedCharacterId;
+                return (
+                  <g
+                    key={character.id}
+                    transform={`translate(${point.x}, ${point.y})`}
+                    className="cursor-grab"
+                    onPointerDown={e => { e.stopPropagation(); dragRef.current = character.id; }}
+                    onClick={e => { e.stopPropagation(); setSelectedCharacterId(character.id); setSelectedEdgeId(null); }}
+                  >
+                    <circle r={NODE_RADIUS} fill="white" stroke={roleColor(character.role)} strokeWidth={isSelected ? 4 : 2} />
+                    <text textAnchor="middle" dy="0.35em" className="text-xs font-semibold" fill={roleColor(character.role)}>
+                      {initials(character.name)}
+                    </text>
+                    <text textAnchor="middle" y={NODE_RADIUS + 14} className="text-xs" fill="#374151">
+                      {character.name}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+
+        {/* Story scrubber */}
+        {chapters.length > 0 && (
+          <div className="flex items-center gap-3 px-4 py-3 border-t border-gray-200">
+            <span className="text-xs text-gray-500 whitespace-nowrap">Through the story</span>
+            <input
+              type="range"
+              min={0}
+              max={chapters.length}
+              value={position === null ? chapters.length : position}
+              onChange={e => {
+                const value = Number(e.target.value);
+                setPosition(value >= chapters.length ? null : value);
+              }}
+              className="flex-1"
+            />
+            <span className="text-xs font-medium text-gray-800 w-56 truncate">{positionLabel}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Details */}
+      <div className="w-80 border-l border-gray-200 overflow-y-auto">
+        {selectedRelationship ? (
+          <div className="p-4 space-y-4">
+            <div className="flex items-start justify-between">
+              <h3 className="font-semibold text-gray-900">
+                {nameOf(selectedRelationship.fromId)}{' '}
+                <span className="font-normal text-gray-600">{relationshipType(selectedEdge?.state.type || selectedRelationship.type).verb}</span>{' '}
+                {nameOf(selectedRelationship.toId)}
+              </h3>
+              <button onClick={() => setSelectedEdgeId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                Close
+              </button>
+            </div>
+            {selectedEdge && position !== null && (
+              <p className="text-xs text-gray-500">
+                As of chapter {position + 1}: strength {selectedEdge.state.strength}
+                {selectedEdge.state.description && ` • ${selectedEdge.state.description}`}
+              </p>
+            )}
+
+            <label className="block text-xs font-medium text-gray-700">
+              At the start
+              <select
+                value={relationshipType(selectedRelationship.type).id}
+                onChange={e => handleUpdate({ type: e.target.value })}
+                className={`${inputClass} mt-1`}
+              >
+                {!RELATIONSHIP_TYPES.some(type => type.id === relationshipType(selectedRelationship.type).id) && (
+                  <option value={relationshipType(selectedRelationship.type).id}>{relationshipType(selectedRelationship.type).label}</option>
+                )}
+                {RELATIONSHIP_TYPES.map(type => (
+                  <option key={type.id} value={type.id}>{type.label} ({type.verb})</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Strength: {selectedRelationship.strength}
+              <input
+                type="range"
+                min={1}
+                max={10}
+                value={selectedRelationship.strength}
+                onChange={e => handleUpdate({ strength: Number(e.target.value) })}
+                className="w-full mt-1"
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Description
+              <textarea
+                value={selectedRelationship.description}
+                onChange={e => replaceRelationship({ ...selectedRelationship, description: e.target.value })}
+                onBlur={e => handleUpdate({ description: e.target.value })}
+                rows={2}
+                className={`${inputClass} mt-1 resize-none`}
+              />
+            </label>
+            {chapters.length > 0 && (
+              <label className="block text-xs font-medium text-gray-700">
+                Begins in
+                <select
+                  value={selectedRelationship.introducedChapterId || ''}
+                  onChange={e => handleUpdate({ introducedChapterId: e.target.value || null })}
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="">Before the story starts</option>
+                  {chapters.map((chapter, index) => (
+                    <option key={chapter.id} value={chapter.id}>Chapter {index + 1}: {chapter.title}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* Changes over the story */}
+            {chapters.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-2">Changes across chapters</div>
+                <div className="space-y-1 mb-3">
+                  {[...selectedRelationship.changes]
+                    .sort((a, b) => (chapterOrder.get(a.chapterId) ?? 0) - (chapterOrder.get(b.chapterId) ?? 0))
+                    .map(change => (
+                      <div key={change.id} className="flex items-start justify-between gap-2 text-xs bg-gray-50 rounded p-2">
+                        <div>
+                          <span className="font-medium text-gray-900">Ch. {(chapterOrder.get(change.chapterId) ?? 0) + 1}</span>{' '}
+                          {change.ended
+                            ? 'ends'
+                            : [
+                                change.type && relationshipType(change.type).label,
+                                change.strength !== null && `strength ${change.strength}`
+                              ].filter(Boolean).join(', ') || 'note'}
+                          {change.description && <span className="block text-gray-500">{change.description}</span>}
+                        </div>
+                        <button onClick={() => handleDeleteChange(change.id)} className="text-gray-400 hover:text-red-600">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  {selectedRelationship.changes.length === 0 && (
+                    <p className="text-xs text-gray-500">No changes yet. Record a turn in the relationship below.</p>
+                  )}
+                </div>
+
+                <div className="space-y-2 border border-gray-200 rounded-md p-2">
+                  <select
+                    value={changeDraft.chapterId}
+                    onChange={e => setChangeDraft({ ...changeDraft, chapterId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">From chapter...</option>
+                    {chapters.map((chapter, index) => (
+                      <option key={chapter.id} value={chapter.id}>Chapter {index + 1}: {chapter.title}</option>
+                    ))}
+                  </select>
+                  <div className="flex gap-2">
+                    <select
+                      value={changeDraft.type}
+                      onChange={e => setChangeDraft({ ...changeDraft, type: e.target.value })}
+                      className={inputClass}
+                      disabled={changeDraft.ended}
+                    >
+                      <option value="">Same type</option>
+                      {RELATIONSHIP_TYPES.map(type => (
+                        <option key={type.id} value={type.id}>{type.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={changeDraft.strength}
+                      onChange={e => setChangeDraft({ ...changeDraft, strength: e.target.value })}
+                      placeholder="Strength"
+                      className={`${inputClass} w-24`}
+                      disabled={changeDraft.ended}
+                    />
+                  </div>
+                  <input
+                    value={changeDraft.description}
+                    onChange={e => setChangeDraft({ ...changeDraft, description: e.target.value })}
+                    placeholder="What happened?"
+                    className={inputClass}
+                  />
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={changeDraft.ended}
+                      onChange={e => setChangeDraft({ ...changeDraft, ended: e.target.checked })}
+                    />
+                    The relationship ends here
+                  </label>
+                  <button
+                    onClick={handleAddChange}
+                    disabled={!changeDraft.chapterId}
+                    className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Record change
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <button onClick={handleDelete} className="text-sm text-red-600 hover:text-red-700">
+              Delete relationship
+            </button>
+          </div>
+        ) : selectedCharacter ? (
+          <div className="p-4 space-y-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-gray-900">{selectedCharacter.name}</h3>
+                <p className="text-xs text-gray-500 capitalize">{selectedCharacter.role}</p>
+              </div>
+              <button onClick={() => setSelectedCharacterId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                Close
+              </button>
+            </div>
+            <div className="space-y-1">
+              {edges
+                .filter(({ relationship }) => relationship.fromId === selectedCharacter.id || relationship.toId === selectedCharacter.id)
+                .map(({ relationship, state }) => (
+                  <button
+                    key={relationship.id}
+                    onClick={() => setSelectedEdgeId(relationship.id)}
+                    className="block w-full text-left text-sm text-gray-700 hover:text-blue-700"
+                  >
+                    {nameOf(relationship.fromId)} {relationshipType(state.type).verb} {nameOf(relationship.toId)}
+                  </button>
+                ))}
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            <p className="text-sm text-gray-500">
+              Select a relationship to edit it and record how it changes over the story. Drag characters to rearrange them.
+            </p>
+
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-gray-700">Add a relationship</div>
+              <select value={draft.fromId} onChange={e => setDraft({ ...draft, fromId: e.target.value })} className={inputClass}>
+                <option value="">Character...</option>
+                {characters.map(character => (
+                  <option key={character.id} value={character.id}>{character.name}</option>
+                ))}
+              </select>
+              <select value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value })} className={inputClass}>
+                {RELATIONSHIP_TYPES.map(type => (
+                  <option key={type.id} value={type.id}>{type.verb}</option>
+                ))}
+              </select>
+              <select value={draft.toId} onChange={e => setDraft({ ...draft, toId: e.target.value })} className={inputClass}>
+                <option value="">Character...</option>
+                {characters.filter(character => character.id !== draft.fromId).map(character => (
+                  <option key={character.id} value={character.id}>{character.name}</option>
+                ))}
+              </select>
+              <label className="block text-xs text-gray-700">
+                Strength: {draft.strength}
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  value={draft.strength}
+                  onChange={e => setDraft({ ...draft, strength: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+              <button
+                onClick={handleCreate}
+                disabled={!draft.fromId || !draft.toId}
+                className="flex items-center justify-center gap-2 w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+
+            <div>
+              <div className="text-xs font-medium text-gray-700 mb-2">Legend</div>
+              <div className="space-y-1 text-xs text-gray-600">
+                <p>Arrows point from the character who feels or acts toward the other.</p>
+                <p>Thicker lines are stronger relationships.</p>
+                {ROLE_OPTIONS.map(role => (
+                  <div key={role.value} className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full border-2" style={{ borderColor: role.color }} />
+                    {role.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import {
+  StoryCalendar,
+  CALENDAR_PRESETS,
+  parseStoryDate,
+  formatStoryDate
+} from '../../utils/storyCalendar';
+
+interface StoryCalendarEditorProps {
+  calendar: StoryCalendar;
+  onSave: (calendar: StoryCalendar) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const StoryCalendarEditor: React.FC<StoryCalendarEditorProps> = ({
+  calendar,
+  onSave,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<StoryCalendar>(calendar);
+  const [weekdaysText, setWeekdaysText] = useState(calendar.weekdays.join(', '));
+
+  const update = (changes: Partial<StoryCalendar>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const applyPreset = (preset: StoryCalendar) => {
+    setDraft({ ...preset, present: draft.present });
+    setWeekdaysText(preset.weekdays.join(', '));
+  };
+
+  const handleWeekdaysChange = (value: string) => {
+    setWeekdaysText(value);
+    const weekdays = value.split(',').map(day => day.trim()).filter(Boolean);
+    update({ weekdays, epochWeekday: Math.min(draft.epochWeekday, Math.max(0, weekdays.length - 1)) });
+  };
+
+  const monthsValid = draft.months.length > 0 && draft.months.every(month => month.name.trim() && month.days >= 1);
+  const presentDay = draft.present?.trim() && monthsValid ? parseStoryDate(draft, draft.present) : null;
+  const presentInvalid = !!draft.present?.trim() && presentDay === null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Story calendar</h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Start from:</span>
+            {CALENDAR_PRESETS.map(preset => (
+              <button
+                key={preset.name}
+                onClick={() => applyPreset(preset)}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Name
+            <input
+              value={draft.name}
+              onChange={e => update({ name: e.target.value })}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+
+          {/* Months */}
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Months</div>
+            <div className="space-y-2">
+              {draft.months.map((month, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-xs text-gray-400 text-right">{index + 1}</span>
+                  <input
+                    value={month.name}
+                    onChange={e => update({
+                      months: draft.months.map((item, i) => i === index ? { ...item, name: e.target.value } : item)
+                    })}
+                    className={`${inputClass} flex-1`}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={month.days}
+                    onChange={e => update({
+                      months: draft.months.map((item, i) => i === index ? { ...item, days: parseInt(e.target.value, 10) || 0 } : item)
+                    })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-xs text-gray-500">days</span>
+                  <button
+                    onClick={() => update({ months: draft.months.filter((_, i) => i !== index) })}
+                    disabled={draft.months.length === 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => update({ months: [...draft.months, { name: `Month ${draft.months.length + 1}`, days: 30 }] })}
+              className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" /> Add month
+            </button>
+          </div>
+
+          {/* Weekdays */}
+          <div className="grid grid-cols-3 gap-3">
+            <label className="col-span-2 block text-sm font-medium text-gray-700">
+              Weekdays (comma separated)
+              <input
+                value={weekdaysText}
+                onChange={e => handleWeekdaysChange(e.target.value)}
+                className={`${inputClass} w-full mt-1`}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Year 1 begins on
+              <select
+                value={draft.epochWeekday}
+                onChange={e => update({ epochWeekday: Number(e.target.value) })}
+                disabled={draft.weekdays.length === 0}
+                className={`${inputClass} w-full mt-1`}
+              >
+                {draft.weekdays.map((day, index) => (
+                  <option key={index} value={index}>{day}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Leap days */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!draft.leap}
+                onChange={e => update({ leap: e.target.checked ? { month: 0, every: 4, except: null, unless: null } : null })}
+              />
+              Leap days
+            </label>
+            {draft.leap && (
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-gray-600">
+                Add a day to
+                <select
+                  value={draft.leap.month}
+                  onChange={e => update({ leap: { ...draft.leap!, month: Number(e.target.value) } })}
+                  className={inputClass}
+                >
+                  {draft.months.map((month, index) => (
+                    <option key={index} value={index}>{month.name}</option>
+                  ))}
+                </select>
+                every
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.leap.every}
+                  onChange={e => update({ leap: { ...draft.leap!, every: parseInt(e.target.value, 10) || 0 } })}
+                  className={`${inputClass} w-16`}
+                />
+                years, except every
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.leap.except || ''}
+                  onChange={e => update({ leap: { ...draft.leap!, except: parseInt(e.target.value, 10) || null } })}
+                  className={`${inputClass} w-16`}
+                />
+                unless every
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.leap.unless || ''}
+                  onChange={e => update({ leap: { ...draft.leap!, unless: parseInt(e.target.value, 10) || null } })}
+                  className={`${inputClass} w-16`}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Eras */}
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-1">Eras</div>
+            <p className="text-xs text-gray-500 mb-2">
+              Years count continuously from year 1; an era relabels the years from its start. A counting-down era
+              (like BC) numbers years back from the era after it.
+            </p>
+            <div className="space-y-2">
+              {draft.eras.map((era, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={era.name}
+                    placeholder="Name"
+                    onChange={e => update({
+                      eras: draft.eras.map((item, i) => i === index ? { ...item, name: e.target.value } : item)
+                    })}
+                    className={`${inputClass} flex-1`}
+                  />
+                  <input
+                    value={era.abbreviation}
+                    placeholder="Abbr."
+                    onChange={e => update({
+                      eras: draft.eras.map((item, i) => i === index ? { ...item, abbreviation: e.target.value } : item)
+                    })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <input
+                    type="number"
+                    value={era.startYear}
+                    title="First year"
+                    onChange={e => update({
+                      eras: draft.eras.map((item, i) => i === index ? { ...item, startYear: parseInt(e.target.value, 10) || 0 } : item)
+                    })}
+                    className={`${inputClass} w-24`}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={!!era.backward}
+                      onChange={e => update({
+                        eras: draft.eras.map((item, i) => i === index ? { ...item, backward: e.target.checked } : item)
+                      })}
+                    />
+                    Counts down
+                  </label>
+                  <button
+                    onClick={() => update({ eras: draft.eras.filter((_, i) => i !== index) })}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => update({ eras: [...draft.eras, { name: '', abbreviation: '', startYear: 1 }] })}
+              className="mt-2 flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" /> Add era
+            </button>
+          </div>
+
+          {/* Present */}
+          <label className="block text-sm font-medium text-gray-700">
+            Story present
+            <span className="block text-xs font-normal text-gray-500">
+              Characters' ages are as of this date. Leave empty to use the first event on the timeline.
+            </span>
+            <input
+              value={draft.present || ''}
+              onChange={e => update({ present: e.target.value || null })}
+              placeholder={`e.g. 15 ${draft.months[0]?.name || ''} 1042`}
+              className={`${inputClass} w-full mt-1 ${presentInvalid ? 'border-red-400' : ''}`}
+            />
+            {presentDay !== null && (
+              <span className="block text-xs text-gray-500 mt-1">{formatStoryDate(draft, presentDay, { weekday: true })}</span>
+            )}
+            {presentInvalid && <span className="block text-xs text-red-600 mt-1">Not a date in this calendar</span>}
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, eras: draft.eras.filter(era => era.name.trim() || era.abbreviation.trim()) })}
+            disabled={!monthsValid || presentInvalid || (!!draft.leap && draft.leap.every < 1)}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save calendar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
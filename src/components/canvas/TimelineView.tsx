@@ -0,0 +1,455 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Node } from 'reactflow';
+import { ZoomIn, ZoomOut, Maximize2, CalendarDays, AlertTriangle, Users } from 'lucide-react';
+import { characterService, Character } from '../../services/character-service';
+import { storyCalendarService } from '../../services/story-calendar-service';
+import { StoryCalendarEditor } from './StoryCalendarEditor';
+import {
+  StoryCalendar,
+  GREGORIAN_CALENDAR,
+  resolveTimeline,
+  timelineEventsFromNodes,
+  parseStoryDate,
+  formatStoryDate,
+  formatYear,
+  fromDayNumber,
+  toDayNumber,
+  averageYearLength,
+  ageAt
+} from '../../utils/storyCalendar';
+
+interface TimelineViewProps {
+  projectId?: string;
+  nodes: Node[];
+  onUpdateNode: (nodeId: string, changes: Record<string, unknown>) => void;
+}
+
+interface Tick {
+  at: number;
+  label: string;
+  major: boolean;
+}
+
+const LANE_HEIGHT = 56;
+const LABEL_WIDTH = 160;
+const MIN_PIXELS_PER_DAY = 1e-5;
+const MAX_PIXELS_PER_DAY = 2000;
+const YEAR_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 100000];
+
+// Axis ticks for the visible scale: days, months or multi-year steps
+function buildTicks(calendar: StoryCalendar, from: number, to: number, pixelsPerDay: number): Tick[] {
+  const ticks: Tick[] = [];
+  const yearPixels = averageYearLength(calendar) * pixelsPerDay;
+  const monthPixels = yearPixels / calendar.months.length;
+  const first = fromDayNumber(calendar, from);
+
+  if (pixelsPerDay >= 40) {
+    for (let day = Math.floor(from); day <= to; day++) {
+      const date = fromDayNumber(calendar, day);
+      ticks.push({
+        at: day,
+        label: date.day === 1 ? `${date.day} ${calendar.months[date.month].name}` : String(date.day),
+        major: date.day === 1
+      });
+    }
+  } else if (monthPixels >= 50) {
+    let year = first.year;
+    let month = first.month;
+    for (let at = toDayNumber(calendar, { year, month, day: 1, hour: 0, minute: 0 }); at <= to;) {
+      ticks.push({
+        at,
+        label: month === 0 ? `${calendar.months[month].name} ${formatYear(calendar, year)}` : calendar.months[month].name,
+        major: month === 0
+      });
+      month++;
+      if (month === calendar.months.length) {
+        month = 0;
+        year++;
+      }
+      at = toDayNumber(calendar, { year, month, day: 1, hour: 0, minute: 0 });
+    }
+  } else {
+    const step = YEAR_STEPS.find(value => value * yearPixels >= 70) || YEAR_STEPS[YEAR_STEPS.length - 1];
+    for (let year = Math.floor(first.year / step) * step; ; year += step) {
+      const at = toDayNumber(calendar, { year, month: 0, day: 1, hour: 0, minute: 0 });
+      if (at > to) break;
+      ticks.push({ at, label: formatYear(calendar, year), major: year % (step * 5) === 0 });
+    }
+  }
+
+  return ticks.filter(tick => tick.at >= from);
+}
+
+export const TimelineView: React.FC<TimelineViewProps> = ({
+  projectId,
+  nodes,
+  onUpdateNode
+}) => {
+  const [calendar, setCalendar] = useState<StoryCalendar>(GREGORIAN_CALENDAR);
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [showCalendarEditor, setShowCalendarEditor] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pixelsPerDay, setPixelsPerDay] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    storyCalendarService.getCalendar(projectId).then(setCalendar);
+    characterService.getCharacters(projectId)
+      .then(loaded => setCharacters(loaded.filter(character => typeof character.age === 'number')))
+      .catch(error => console.error('Error loading characters for timeline:', error));
+  }, [projectId]);
+
+  const timelineNodes = useMemo(() => nodes.filter(node => node.type === 'timeline'), [nodes]);
+
+  const timeline = useMemo(
+    () => resolveTimeline(calendar, timelineEventsFromNodes(timelineNodes)),
+    [calendar, timelineNodes]
+  );
+
+  const placed = useMemo(() => timeline.events.filter(event => event.start !== null), [timeline]);
+  const unplaced = timeline.events.filter(event => event.start === null);
+
+  // Time span of the placed events with a margin either side
+  const range = useMemo(() => {
+    if (placed.length === 0) return null;
+    const starts = placed.map(event => event.start as number);
+    const ends = placed.map(event => event.end ?? (event.start as number));
+    const from = Math.min(...starts);
+    const to = Math.max(...ends);
+    const margin = Math.max((to - from) * 0.05, 1);
+    return { from: from - margin, to: to + margin };
+  }, [placed]);
+
+  const fitScale = useCallback(() => {
+    if (!range || !scrollRef.current) return;
+    const width = scrollRef.current.clientWidth - LABEL_WIDTH;
+    setPixelsPerDay(Math.min(MAX_PIXELS_PER_DAY, Math.max(MIN_PIXELS_PER_DAY, width / (range.to - range.from))));
+  }, [range]);
+
+  useEffect(() => {
+    if (pixelsPerDay === null) fitScale();
+  }, [pixelsPerDay, fitScale]);
+
+  const scale = pixelsPerDay ?? 1;
+
+  // Zoom about a point in the view, keeping the time under it in place
+  const zoom = useCallback((factor: number, anchorX?: number) => {
+    const container = scrollRef.current;
+    const next = Math.min(MAX_PIXELS_PER_DAY, Math.max(MIN_PIXELS_PER_DAY, scale * factor));
+    setPixelsPerDay(next);
+    if (container) {
+      const x = anchorX ?? container.clientWidth / 2;
+      const ratio = next / scale;
+      requestAnimationFrame(() => {
+        container.scrollLeft = (container.scrollLeft + x) * ratio - x;
+      });
+    }
+  }, [scale]);
+
+  // Ctrl + scroll zooms. React's wheel listener is passive, so the page zoom
+  // can only be prevented from a native listener.
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomRef.current(e.deltaY < 0 ? 1.25 : 0.8, e.clientX - rect.left);
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const layout = useMemo(() => {
+    if (!range) return { items: [], lanes: 0, width: 0 };
+    const laneEnds: number[] = [];
+    const items = placed.map(event => {
+      const x = ((event.start as number) - range.from) * scale;
+      const barWidth = event.end !== null ? Math.max(4, (event.end - (event.start as number)) * scale) : 0;
+      const occupied = Math.max(barWidth, LABEL_WIDTH);
+      let lane = laneEnds.findIndex(end => end <= x);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(0);
+      }
+      laneEnds[lane] = x + occupied + 8;
+      return { event, x, barWidth, lane };
+    });
+    return { items, lanes: laneEnds.length, width: (range.to - range.from) * scale };
+  }, [placed, range, scale]);
+
+  const ticks = useMemo(
+    () => (range ? buildTicks(calendar, range.from, range.to, scale) : []),
+    [calendar, range, scale]
+  );
+
+  const issuesFor = (id: string) => timeline.issues.filter(issue => issue.eventId === id);
+  const selectedNode = timelineNodes.find(node => node.id === selectedId) || null;
+  const selectedEvent = timeline.events.find(event => event.id === selectedId) || null;
+  const titleOf = (id: string | null) => timeline.events.find(event => event.id === id)?.title;
+
+  // Ages are given as of the story present, or the first event when none is set
+  const presentDay = calendar.present ? parseStoryDate(calendar, calendar.present) : null;
+  const agesAsOf = presentDay ?? (placed[0]?.start ?? null);
+
+  const handleSaveCalendar = async (next: StoryCalendar) => {
+    setCalendar(next);
+    setShowCalendarEditor(false);
+    if (projectId) await storyCalendarService.saveCalendar(projectId, next);
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="h-full flex bg-white">
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="w-4 h-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-900">{calendar.name}</span>
+            <button
+              onClick={() => setShowCalendarEditor(true)}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Edit calendar
+            </button>
+            {timeline.issues.length > 0 && (
+              <span className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2 py-0.5">
+                <AlertTriangle className="w-3 h-3" />
+                {timeline.issues.length} issue{timeline.issues.length === 1 ? '' : 's'}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={() => zoom(0.5)} className="p-1.5 text-gray-600 hover:bg-gray-100 rounded" title="Zoom out">
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <button onClick={() => zoom(2)} className="p-1.5 text-gray-600 hover:bg-gray-100 rounded" title="Zoom in">
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button onClick={fitScale} className="p-1.5 text-gray-600 hover:bg-gray-100 rounded" title="Fit all events">
+              <Maximize2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div ref={scrollRef} className="flex-1 overflow-auto relative">
+          {!range ? (
+            <div className="h-full flex items-center justify-center text-center text-gray-500 p-8">
+              <div>
+                <p className="font-medium text-gray-700 mb-1">No dated events yet</p>
+                <p className="text-sm">
+                  Add Timeline elements on the canvas and give them a date, or a time relative to another event
+                  such as "3 days after the Coronation".
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="relative" style={{ width: layout.width + LABEL_WIDTH, minHeight: '100%' }}>
+              {/* Axis */}
+              <div className="sticky top-0 z-10 h-10 bg-white border-b border-gray-200">
+                {ticks.map(tick => (
+                  <div
+                    key={tick.at}
+                    className={`absolute top-0 h-full border-l ${tick.major ? 'border-gray-400' : 'border-gray-200'}`}
+                    style={{ left: (tick.at - range.from) * scale }}
+                  >
+                    <span className={`absolute top-1 left-1 whitespace-nowrap text-xs ${tick.major ? 'font-medium text-gray-800' : 'text-gray-500'}`}>
+                      {tick.label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Grid lines */}
+              {ticks.map(tick => (
+                <div
+                  key={tick.at}
+                  className={`absolute top-10 bottom-0 border-l ${tick.major ? 'border-gray-200' : 'border-gray-100'}`}
+                  style={{ left: (tick.at - range.from) * scale }}
+                />
+              ))}
+
+              {/* Events */}
+              <div className="relative" style={{ height: Math.max(1, layout.lanes) * LANE_HEIGHT + 16 }}>
+                {layout.items.map(({ event, x, barWidth, lane }) => {
+                  const hasIssues = issuesFor(event.id).length > 0;
+                  return (
+                    <button
+                      key={event.id}
+                      onClick={() => setSelectedId(event.id)}
+                      className="absolute text-left"
+                      style={{ left: x, top: 8 + lane * LANE_HEIGHT, width: Math.max(barWidth, LABEL_WIDTH) }}
+                    >
+                      {barWidth > 0 ? (
+                        <div
+                          className={`h-2 rounded-full ${selectedId === event.id ? 'bg-blue-600' : 'bg-indigo-300'}`}
+                          style={{ width: barWidth }}
+                        />
+                      ) : (
+                        <div className={`w-3 h-3 -ml-1.5 rounded-full border-2 border-white shadow ${selectedId === event.id ? 'bg-blue-600' : 'bg-indigo-500'}`} />
+                      )}
+                      <div className={`mt-1 text-xs truncate ${selectedId === event.id ? 'text-blue-700 font-medium' : 'text-gray-800'}`}>
+                        {hasIssues && <AlertTriangle className="inline w-3 h-3 text-amber-600 mr-1" />}
+                        {event.title}
+                      </div>
+                      <div className="text-[11px] text-gray-500 truncate">
+                        {formatStoryDate(calendar, event.start as number)}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Details */}
+      <div className="w-80 border-l border-gray-200 overflow-y-auto">
+        {selectedNode && selectedEvent ? (
+          <div className="p-4 space-y-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-gray-900">{selectedEvent.title}</h3>
+                {selectedEvent.start !== null ? (
+                  <p className="text-sm text-gray-600 mt-1">
+                    {formatStoryDate(calendar, selectedEvent.start, { weekday: true, time: true })}
+                    {selectedEvent.end !== null && ` – ${formatStoryDate(calendar, selectedEvent.end, { weekday: true, time: true })}`}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500 mt-1">Not on the timeline</p>
+                )}
+                {selectedEvent.anchorId && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {selectedNode.data?.relativeTime} ({titleOf(selectedEvent.anchorId)})
+                  </p>
+                )}
+              </div>
+              <button onClick={() => setSelectedId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                Close
+              </button>
+            </div>
+
+            {issuesFor(selectedEvent.id).map((issue, index) => (
+              <div key={index} className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {issue.message}
+              </div>
+            ))}
+
+            <label className="block text-xs font-medium text-gray-700">
+              Date
+              <input
+                value={selectedNode.data?.absoluteTime || ''}
+                onChange={e => onUpdateNode(selectedNode.id, { absoluteTime: e.target.value })}
+                placeholder={`e.g. 15 ${calendar.months[0]?.name || ''} 1042`}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Relative to another event
+              <input
+                value={selectedNode.data?.relativeTime || ''}
+                onChange={e => onUpdateNode(selectedNode.id, { relativeTime: e.target.value })}
+                placeholder="e.g. 3 days after the Coronation"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Duration
+              <input
+                value={selectedNode.data?.duration || ''}
+                onChange={e => onUpdateNode(selectedNode.id, { duration: e.target.value })}
+                placeholder="e.g. 2 weeks"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+
+            {characters.length > 0 && selectedEvent.start !== null && agesAsOf !== null && (
+              <div>
+                <div className="flex items-center gap-1 text-xs font-medium text-gray-700 mb-2">
+                  <Users className="w-3 h-3" />
+                  Ages at this point
+                </div>
+                <div className="space-y-1">
+                  {characters.map(character => {
+                    const age = ageAt(calendar, character.age as number, agesAsOf, selectedEvent.start as number);
+                    return (
+                      <div key={character.id} className="flex justify-between text-sm">
+                        <span className="text-gray-700 truncate">{character.name}</span>
+                        <span className="text-gray-500">{age < 0 ? 'Not yet born' : age}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-[11px] text-gray-400 mt-2">
+                  Ages as of {presentDay !== null ? 'the story present' : 'the first event'}
+                  {' '}({formatStoryDate(calendar, agesAsOf)}).
+                </p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            <p className="text-sm text-gray-500">
+              Select an event to see its date and characters' ages. Ctrl + scroll to zoom.
+            </p>
+
+            {timeline.issues.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-2">Issues</div>
+                <div className="space-y-2">
+                  {timeline.issues.map((issue, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setSelectedId(issue.eventId)}
+                      className="w-full text-left text-xs bg-amber-50 border border-amber-200 rounded p-2 hover:bg-amber-100"
+                    >
+                      <span className="font-medium text-gray-900">{titleOf(issue.eventId)}</span>
+                      <span className="block text-amber-800">{issue.message}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {unplaced.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-2">Not on the timeline</div>
+                <div className="space-y-1">
+                  {unplaced.map(event => (
+                    <button
+                      key={event.id}
+                      onClick={() => setSelectedId(event.id)}
+                      className="block w-full text-left text-sm text-gray-700 hover:text-blue-700 truncate"
+                    >
+                      {event.title}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showCalendarEditor && (
+        <StoryCalendarEditor
+          calendar={calendar}
+          onSave={handleSaveCalendar}
+          onClose={() => setShowCalendarEditor(false)}
+        />
+      )}
+    </div>
+  );
+};
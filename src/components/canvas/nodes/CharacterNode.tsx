@@ -2,8 +2,9 @@ import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { Handle, Position } from 'reactflow';
 import { BaseCanvasNode, withCanvasComponent, BaseCanvasComponentProps } from '../core/BaseCanvasComponent';
 import { useCanvasPlanningData } from '../../../hooks/useCanvasPlanningData';
+import { useCharacterMentions } from '../../../hooks/useCharacterMentions';
 import { CharacterPopup } from '../CharacterPopup';
-import { User, Heart, Atom, ChevronDown, X, Search, Edit } from 'lucide-react';
+import { User, Heart, Atom, ChevronDown, X, Search, Edit, AlertTriangle } from 'lucide-react';
 
 export interface CharacterNodeData {
   name: string;
@@ -61,6 +62,10 @@ const CharacterNodeComponent: React.FC<CharacterNodeProps> = ({
   // ✅ FIX: Pass projectId to the hook to filter characters correctly
   const { planningCharacters, loading, refreshCharacters, error: planningError } = useCanvasPlanningData(projectId);
 
+  // Manuscript mentions for the linked planning character
+  const { index: mentionIndex } = useCharacterMentions(data.fromPlanning ? projectId : undefined);
+  const mentionSummary = data.planningId ? mentionIndex?.summaries[data.planningId] : undefined;
+
   // Debug planning data
   useEffect(() => {
     console.log('🐛 CharacterNode Debug Info:', {
@@ -320,6 +325,25 @@ const CharacterNodeComponent: React.FC<CharacterNodeProps> = ({
           </div>
         </div>
 
+        {/* Manuscript Mentions */}
+        {mentionSummary && mentionIndex && (
+          <div className="flex items-center gap-2 text-xs text-gray-600 mb-2">
+            <span title={`Mentioned in ${mentionSummary.appearances.length} of ${mentionIndex.chapters.length} chapters`}>
+              {mentionSummary.totalMentions} {mentionSummary.totalMentions === 1 ? 'mention' : 'mentions'}
+              {' '}&middot; {mentionSummary.appearances.length}/{mentionIndex.chapters.length} chapters
+            </span>
+            {mentionSummary.isVanishing && (
+              <span
+                className="flex items-center gap-0.5 text-orange-600"
+                title={`Not mentioned for ${mentionSummary.longestAbsence} chapters in a row`}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                Vanishes
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Character Description */}
         {isEditing ? (
           <div className="space-y-2">
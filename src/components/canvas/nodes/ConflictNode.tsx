@@ -1,9 +1,11 @@
 // src/components/canvas/nodes/ConflictNode.tsx
 import React, { useState, useCallback } from 'react';
 import { Handle, Position } from 'reactflow';
-import { Zap, Shield, Users, Building, AlertTriangle } from 'lucide-react';
+import { Zap, Shield, Users, Building, AlertTriangle, X } from 'lucide-react';
 import { useCanvasPlanningData } from '../../../hooks/useCanvasPlanningData';
+import { continuityService } from '../../../services/continuity-service';
 import type { CanvasConflictData } from '../../../services/canvas-integration-service';
+import type { ConflictData } from '../../../types/masterCanvas';
 
 interface ConflictNodeData {
   id: string;
@@ -15,6 +17,9 @@ interface ConflictNodeData {
   tensionLevel?: number;
   charactersInvolved?: string[];
   plotThreads?: string[];
+  // Set on nodes added by the continuity checker
+  finding?: ConflictData;
+  continuityId?: string;
 }
 
 interface ConflictNodeProps {
@@ -63,6 +68,16 @@ const ConflictNode: React.FC<ConflictNodeProps> = ({
     setShowDropdown(!showDropdown);
   }, [showDropdown]);
 
+  const handleDismiss = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (!data.finding) return;
+
+    if (projectId && data.continuityId) {
+      continuityService.dismiss(projectId, data.continuityId);
+    }
+    onDataChange?.({ finding: { ...data.finding, userDismissed: true } });
+  }, [data.finding, data.continuityId, projectId, onDataChange]);
+
   const handleConnectClick = useCallback((event: React.MouseEvent) => {
     event.stopPropagation();
     event.preventDefault();
@@ -116,11 +131,18 @@ const ConflictNode: React.FC<ConflictNodeProps> = ({
 
   const tensionIndicator = getTensionIndicator();
 
+  const severityColors: Record<ConflictData['severity'], string> = {
+    high: 'bg-red-100 text-red-800 border-red-200',
+    medium: 'bg-orange-100 text-orange-800 border-orange-200',
+    low: 'bg-yellow-100 text-yellow-800 border-yellow-200'
+  };
+
   return (
     <div className={`
       bg-white rounded-lg shadow-md border-2 transition-all duration-200 min-w-[200px] max-w-[300px]
       ${selected ? 'border-red-400 shadow-lg' : 'border-red-200'}
       ${data.fromPlanning ? 'ring-2 ring-green-200' : ''}
+      ${data.finding?.userDismissed ? 'opacity-50' : ''}
     `}>
       <Handle
         type="target"
@@ -143,6 +165,17 @@ const ConflictNode: React.FC<ConflictNodeProps> = ({
           </div>
           
           <div className="flex space-x-1">
+            {/* Dismiss a continuity finding so re-running the check skips it */}
+            {data.finding && !data.finding.userDismissed && (
+              <button
+                onClick={handleDismiss}
+                className="text-red-600 hover:text-red-800 hover:bg-red-100 p-1 rounded transition-colors"
+                title="Dismiss this finding"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+
             {/* Atom button for planning integration */}
             <button
               onClick={handleAtomClick}
@@ -219,6 +252,23 @@ const ConflictNode: React.FC<ConflictNodeProps> = ({
           {data.description}
         </p>
 
+        {/* Continuity Finding */}
+        {data.finding && (
+          <div className="space-y-2 mb-2">
+            <div className="flex items-center justify-between">
+              <span className={`text-xs px-2 py-1 rounded-full border capitalize ${severityColors[data.finding.severity]}`}>
+                {data.finding.severity}
+              </span>
+              <span className="text-xs text-gray-500">
+                {data.finding.userDismissed ? 'Dismissed' : `${Math.round(data.finding.confidence * 100)}% confident`}
+              </span>
+            </div>
+            {data.finding.suggestedFix && (
+              <p className="text-xs text-gray-600 bg-gray-50 rounded p-2">{data.finding.suggestedFix}</p>
+            )}
+          </div>
+        )}
+
         {/* Conflict Details */}
         <div className="space-y-2">
           {data.conflictType && (
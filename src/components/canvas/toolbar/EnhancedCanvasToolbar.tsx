@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { 
   User, BookOpen, MapPin, Lightbulb, Zap, Calendar, FileText,
-  RefreshCw, Upload, Cloud, CloudOff, Trash2,
+  RefreshCw, Upload, Cloud, Trash2,
   Download, ChevronDown, ChevronUp, PanelRightClose,
-  Plus, Sparkles
+  Plus, Sparkles, ShieldCheck, LayoutGrid, Pin, Undo
 } from 'lucide-react';
+import { SyncIndicator } from '../../SyncIndicator';
+import { LAYOUTS, LayoutKind } from '../../../utils/canvasLayout';
+import type { AIAnalysisKind } from '../AIAnalysisPanel';
 
 interface EnhancedCanvasToolbarProps {
   onCreateNode: (type: string) => void;
@@ -18,7 +21,6 @@ interface EnhancedCanvasToolbarProps {
   lastSynced: Date | null;
   isSyncing: boolean;
   selectedNodes: string[];
-  syncStatus: string;
   isOnline: boolean;
   canvasMode: string;
   onModeChange: (mode: string) => void;
@@ -26,8 +28,29 @@ interface EnhancedCanvasToolbarProps {
   nodeCount?: number;
   edgeCount?: number;
   hasChanges?: boolean;
+  onCheckContinuity?: () => void;
+  isCheckingContinuity?: boolean;
+  // Summary of the last continuity check, e.g. "3 issues found"
+  continuityResult?: string | null;
+  onRunAIAnalysis?: (kind: AIAnalysisKind) => void;
+  // The AI analysis open on the canvas, if any
+  activeAIAnalysis?: AIAnalysisKind | null;
+  onLayout?: (kind: LayoutKind) => void;
+  onUndoLayout?: () => void;
+  canUndoLayout?: boolean;
+  keepPinned?: boolean;
+  onKeepPinnedChange?: (keepPinned: boolean) => void;
+  onTogglePin?: () => void;
+  // Whether every selected node is already pinned
+  selectionPinned?: boolean;
 }
 
+const AI_ANALYSES: { kind: AIAnalysisKind; label: string; description: string }[] = [
+  { kind: 'coherence', label: 'Check story coherence', description: 'Plot holes, contradictions and motivation gaps' },
+  { kind: 'arcs', label: 'Trace character arcs', description: 'How each character changes across the plot' },
+  { kind: 'relationships', label: 'Suggest relationships', description: 'New links between characters and plot points' }
+];
+
 // Enhanced Tooltip Component
 const Tooltip = ({ content, children, position = 'left' }: { 
   content: string; 
@@ -67,14 +90,25 @@ export const EnhancedCanvasToolbar: React.FC<EnhancedCanvasToolbarProps> = ({
   lastSynced,
   isSyncing,
   selectedNodes,
-  syncStatus,
   isOnline,
   canvasMode,
   onModeChange,
   hasNodes,
   nodeCount = 0,
   edgeCount = 0,
-  hasChanges = false
+  hasChanges = false,
+  onCheckContinuity,
+  isCheckingContinuity = false,
+  continuityResult,
+  onRunAIAnalysis,
+  activeAIAnalysis = null,
+  onLayout,
+  onUndoLayout,
+  canUndoLayout = false,
+  keepPinned = true,
+  onKeepPinnedChange,
+  onTogglePin,
+  selectionPinned = false
 }) => {
   // Toolbar collapse state
   const [isCollapsed, setIsCollapsed] = useState(false);
@@ -116,26 +150,6 @@ export const EnhancedCanvasToolbar: React.FC<EnhancedCanvasToolbarProps> = ({
     { id: 'fantasyEpic', title: 'Shattered Crown', description: 'Fantasy epic adventure' },
   ];
 
-  // Get sync status indicator
-  const getSyncStatusIndicator = () => {
-    if (isSyncing) {
-      return { icon: RefreshCw, color: 'text-blue-600', label: 'Syncing...', spinning: true };
-    }
-    if (hasChanges) {
-      return { icon: RefreshCw, color: 'text-orange-600', label: 'Changes pending', spinning: false };
-    }
-    if (syncStatus === 'synced') {
-      return { icon: Cloud, color: 'text-green-600', label: 'Synced', spinning: false };
-    }
-    if (syncStatus === 'error') {
-      return { icon: CloudOff, color: 'text-red-600', label: 'Sync error', spinning: false };
-    }
-    return { icon: Cloud, color: 'text-gray-400', label: 'Ready', spinning: false };
-  };
-
-  const statusIndicator = getSyncStatusIndicator();
-  const StatusIcon = statusIndicator.icon;
-
   // Accordion Section Component
   const AccordionSection = ({ 
     id, 
@@ -181,13 +195,7 @@ export const EnhancedCanvasToolbar: React.FC<EnhancedCanvasToolbarProps> = ({
       <div className="h-full flex flex-col bg-white border-l border-gray-200 w-16">
         {/* Collapsed Header - REMOVED back button arrow */}
         <div className="p-2 border-b border-gray-200 flex flex-col items-center space-y-2">
-          <Tooltip content={statusIndicator.label}>
-            <div className="p-2">
-              <StatusIcon 
-                className={`w-4 h-4 ${statusIndicator.color} ${statusIndicator.spinning ? 'animate-spin' : ''}`} 
-              />
-            </div>
-          </Tooltip>
+          <SyncIndicator compact />
         </div>
 
         {/* Collapsed Quick Actions */}
@@ -239,12 +247,7 @@ export const EnhancedCanvasToolbar: React.FC<EnhancedCanvasToolbarProps> = ({
       {/* Header - REMOVED back button with arrow */}
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between mb-3">
-          <div className="flex items-center space-x-2">
-            <StatusIcon 
-              className={`w-4 h-4 ${statusIndicator.color} ${statusIndicator.spinning ? 'animate-spin' : ''}`} 
-            />
-            <span className="text-xs text-gray-500">{statusIndicator.label}</span>
-          </div>
+          <SyncIndicator className="-ml-2" />
         </div>
 
         {/* Canvas Stats */}
@@ -275,6 +278,62 @@ export const EnhancedCanvasToolbar: React.FC<EnhancedCanvasToolbarProps> = ({
           </div>
         </AccordionSection>
 
+        {/* Layout Section */}
+        {onLayout && hasNodes && (
+          <AccordionSection id="layout" title="Arrange" icon={LayoutGrid}>
+            <div className="space-y-2">
+              {LAYOUTS.map(layout => {
+                const needsSelection = layout.kind === 'radial' && selectedNodes.length === 0;
+                return (
+                  <button
+                    key={layout.kind}
+                    onClick={() => onLayout(layout.kind)}
+                    disabled={needsSelection}
+                    className="w-full text-left p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <div className="font-medium text-sm">{layout.label}</div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {needsSelection ? 'Select an element to arrange around' : layout.description}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex gap-2 mt-3">
+              {onTogglePin && (
+                <button
+                  onClick={onTogglePin}
+                  disabled={selectedNodes.length === 0}
+                  className="flex-1 flex items-center justify-center gap-1 py-1.5 px-2 bg-gray-50 text-gray-600 rounded text-xs hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                  <Pin className="w-3 h-3" />
+                  {selectionPinned ? 'Unpin selected' : 'Pin selected'}
+                </button>
+              )}
+              {onUndoLayout && (
+                <button
+                  onClick={onUndoLayout}
+                  disabled={!canUndoLayout}
+                  className="flex-1 flex items-center justify-center gap-1 py-1.5 px-2 bg-gray-50 text-gray-600 rounded text-xs hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                  <Undo className="w-3 h-3" />
+                  Undo layout
+                </button>
+              )}
+            </div>
+            {onKeepPinnedChange && (
+              <label className="flex items-center gap-2 text-xs text-gray-600 mt-3">
+                <input
+                  type="checkbox"
+                  checked={keepPinned}
+                  onChange={e => onKeepPinnedChange(e.target.checked)}
+                />
+                Keep pinned elements in place
+              </label>
+            )}
+          </AccordionSection>
+        )}
+
         {/* Templates Section */}
         <AccordionSection id="templates" title="Story Templates" icon={Sparkles}>
           <div className="space-y-2">
@@ -318,6 +377,47 @@ export const EnhancedCanvasToolbar: React.FC<EnhancedCanvasToolbarProps> = ({
             </div>
           )}
         </AccordionSection>
+
+        {/* Analysis Section */}
+        {(onCheckContinuity || onRunAIAnalysis) && (
+          <AccordionSection id="analysis" title="Analysis" icon={ShieldCheck}>
+            {onCheckContinuity && (
+              <button
+                onClick={onCheckContinuity}
+                disabled={isCheckingContinuity}
+                className="w-full text-left p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <div className="font-medium text-sm">
+                  {isCheckingContinuity ? 'Checking continuity...' : 'Check continuity'}
+                </div>
+                <div className="text-xs text-gray-600 mt-1">
+                  Deaths, event order, dates, places and ages across the manuscript
+                </div>
+              </button>
+            )}
+            {continuityResult && (
+              <p className="text-xs text-gray-500 mt-2">{continuityResult}</p>
+            )}
+            {onRunAIAnalysis && (
+              <div className={`space-y-2 ${onCheckContinuity ? 'mt-2' : ''}`}>
+                {AI_ANALYSES.map(({ kind, label, description }) => (
+                  <button
+                    key={kind}
+                    onClick={() => onRunAIAnalysis(kind)}
+                    disabled={!hasNodes || activeAIAnalysis === kind}
+                    className="w-full text-left p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <div className="flex items-center gap-2 font-medium text-sm">
+                      <Sparkles className="w-4 h-4 text-[#ff4e00]" />
+                      {label}
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">{description}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </AccordionSection>
+        )}
       </div>
 
       {/* Footer Actions */}
@@ -10,11 +10,14 @@ import {
 interface VisualizationSelectorProps {
   currentMode: string;
   onModeChange: (mode: string) => void;
+  // Limit the choice to the modes the host can show
+  availableModes?: string[];
 }
 
 export const VisualizationSelector: React.FC<VisualizationSelectorProps> = ({
   currentMode,
-  onModeChange
+  onModeChange,
+  availableModes
 }) => {
   const modes = [
     {
@@ -33,7 +36,7 @@ export const VisualizationSelector: React.FC<VisualizationSelectorProps> = ({
       id: 'relationships',
       name: 'Relationships',
       icon: GitBranch,
-      description: 'Connection analysis'
+      description: 'Character relationship graph'
     },
     {
       id: 'influence',
@@ -48,7 +51,7 @@ export const VisualizationSelector: React.FC<VisualizationSelectorProps> = ({
       <Eye className="w-4 h-4 text-gray-500 mr-2" />
       <span className="text-sm font-medium text-gray-700 mr-3">View:</span>
       
-      {modes.map((mode) => {
+      {modes.filter(mode => !availableModes || availableModes.includes(mode.id)).map((mode) => {
         const IconComponent = mode.icon;
         const isActive = currentMode === mode.id;
         
@@ -92,8 +92,8 @@ export interface TimelineNodeData extends BaseNodeData {
   order: number;
   significance: 'critical' | 'high' | 'medium' | 'low';
   connectedEvents?: string[];
-  absoluteTime?: string; // ISO date string 
-  relativeTime?: string; // "3 days after X"
+  absoluteTime?: string; // Date in the project's story calendar, e.g. "15 Frostfall 1042 AF" or ISO
+  relativeTime?: string; // "3 days after X", resolved by utils/storyCalendar
 }
 
 export interface ResearchNodeData extends BaseNodeData {
@@ -18,10 +18,14 @@ import {
   File,
   Trash2,
   RefreshCw,
-  Download
+  Download,
+  Upload
 } from 'lucide-react';
 import { chapterService, Chapter } from '../services/chapterService';
 import { SimpleSearchFilter, useSimpleFilter } from './shared/simple-search-filter';
+import { ManuscriptExportModal } from './ManuscriptExportModal';
+import { ManuscriptImportModal } from './ManuscriptImportModal';
+import { SceneBoard } from './SceneBoard';
 
 interface ChapterWithMeta extends Chapter {
   tags?: string[];
@@ -123,7 +127,7 @@ export function ChaptersPage({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'order' | 'title' | 'lastModified' | 'wordCount'>('order');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'scenes'>('list');
   const [showNewChapterModal, setShowNewChapterModal] = useState(false);
   const [isCreatingChapter, setIsCreatingChapter] = useState(false);
   const [newChapter, setNewChapter] = useState({
@@ -134,6 +138,8 @@ export function ChaptersPage({
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [chapterToPreview, setChapterToPreview] = useState<Chapter | null>(null);
   const [showChapterMenu, setShowChapterMenu] = useState<string | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   // Define filter options for chapters
   const statusFilterOptions = [
@@ -446,6 +452,27 @@ export function ChaptersPage({
                   </div>
                 </div>
                 
+                {projectId && (
+                  <button
+                    onClick={() => setShowImportModal(true)}
+                    className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Import
+                  </button>
+                )}
+
+                {projectId && (
+                  <button
+                    onClick={() => setShowExportModal(true)}
+                    disabled={chapters.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export Manuscript
+                  </button>
+                )}
+
                 <button
                   onClick={() => setShowNewChapterModal(true)}
                   className="flex items-center gap-2 px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00]/80 rounded-lg transition-colors font-semibold"
@@ -503,6 +530,18 @@ export function ChaptersPage({
                   >
                     Grid
                   </button>
+                  {projectId && (
+                    <button
+                      onClick={() => setViewMode('scenes')}
+                      className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                        viewMode === 'scenes'
+                          ? 'bg-[#f2eee2] text-gray-900 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      Scenes
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -571,6 +610,16 @@ export function ChaptersPage({
                   )}
                 </div>
               </div>
+            ) : viewMode === 'scenes' && projectId ? (
+              <SceneBoard
+                projectId={projectId}
+                chapters={chapters}
+                onScenesMoved={async () => {
+                  // Moved prose changes chapter word counts
+                  const refreshed = await chapterService.getProjectChapters(projectId);
+                  setChapters(refreshed.map(chapter => ({ ...chapter, tags: [], notes: chapter.summary || '' })));
+                }}
+              />
             ) : viewMode === 'list' ? (
               <div className="space-y-4">
                 {filteredAndSortedChapters.map(chapter => (
@@ -845,7 +894,28 @@ export function ChaptersPage({
           onEditChapter={onSelectChapter}
         />
       )}
-      
+
+      {/* Manuscript Export Modal */}
+      {showExportModal && projectId && (
+        <ManuscriptExportModal
+          projectId={projectId}
+          projectTitle={projectTitle}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {/* Manuscript Import Modal */}
+      {showImportModal && projectId && (
+        <ManuscriptImportModal
+          projectId={projectId}
+          onImported={(imported) => setChapters(prev => [
+            ...prev,
+            ...imported.map(chapter => ({ ...chapter, tags: [], notes: chapter.summary || '' }))
+          ])}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
       {/* New Chapter Modal */}
       {showNewChapterModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,186 @@
+// src/components/integration/NotionFieldMapper.tsx
+
+import React, { useState } from 'react';
+import { ArrowRight, Save, Trash2 } from 'lucide-react';
+import { ImportedDatabase } from '../../services/notion-import-service';
+import { notionMappingService } from '../../services/notion-mapping-service';
+import {
+  CHARACTER_DATA_PREFIX,
+  FieldMapping,
+  IGNORE_FIELD,
+  MappingProfile,
+  NotionRecordType,
+  TARGET_FIELDS,
+  applyProfile,
+  dataKey,
+  guessMapping
+} from '../../utils/notionMapping';
+
+interface NotionFieldMapperProps {
+  database: ImportedDatabase;
+  mapping: FieldMapping;
+  onChange: (mapping: FieldMapping) => void;
+  onTypeChange: (type: NotionRecordType) => void;
+}
+
+const RECORD_TYPES: Array<{ value: NotionRecordType; label: string }> = [
+  { value: 'character', label: 'Characters' },
+  { value: 'plot', label: 'Plot threads' },
+  { value: 'chapter', label: 'Chapters' },
+  { value: 'location', label: 'Locations' },
+  { value: 'unknown', label: 'World elements' }
+];
+
+export const NotionFieldMapper: React.FC<NotionFieldMapperProps> = ({
+  database,
+  mapping,
+  onChange,
+  onTypeChange
+}) => {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => notionMappingService.getProfilesFor(database.id));
+  const [profileId, setProfileId] = useState<string>(() => notionMappingService.getLatestFor(database.id)?.id || '');
+  const [profileName, setProfileName] = useState<string>(() =>
+    notionMappingService.getLatestFor(database.id)?.name || database.name);
+
+  const targets = TARGET_FIELDS[database.type];
+
+  const handleTypeChange = (type: NotionRecordType) => {
+    onTypeChange(type);
+    onChange(guessMapping(type, database.properties));
+    setProfileId('');
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(item => item.id === id);
+    if (!profile) {
+      onChange(guessMapping(database.type, database.properties));
+      return;
+    }
+    if (profile.recordType !== database.type) onTypeChange(profile.recordType);
+    onChange(applyProfile(profile, database.properties));
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = () => {
+    const existing = profiles.find(item => item.id === profileId && item.databaseId === database.id);
+    const id = existing?.id || `mapping_${Date.now().toString(36)}`;
+    notionMappingService.saveProfile({
+      id,
+      name: profileName.trim() || database.name,
+      databaseId: database.id,
+      recordType: database.type,
+      fields: mapping,
+      updatedAt: new Date().toISOString()
+    });
+    setProfiles(notionMappingService.getProfilesFor(database.id));
+    setProfileId(id);
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = profiles.find(item => item.id === profileId);
+    if (!profile || !window.confirm(`Delete the "${profile.name}" mapping?`)) return;
+    notionMappingService.deleteProfile(profile.id);
+    setProfiles(notionMappingService.getProfilesFor(database.id));
+    setProfileId('');
+  };
+
+  const ownProfiles = profiles.filter(profile => profile.databaseId === database.id);
+  const otherProfiles = profiles.filter(profile => profile.databaseId !== database.id);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-gray-900">{database.name}</h3>
+          <p className="text-sm text-gray-600">
+            {Object.keys(database.properties).length} properties • {database.records.length} records
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Import as
+          <select
+            value={database.type}
+            onChange={(e) => handleTypeChange(e.target.value as NotionRecordType)}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {RECORD_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Saved mappings */}
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 rounded-md">
+        <select
+          value={profileId}
+          onChange={(e) => handleProfileChange(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 rounded-md text-sm bg-white"
+        >
+          <option value="">Suggested mapping</option>
+          {ownProfiles.length > 0 && (
+            <optgroup label="Saved for this database">
+              {ownProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </optgroup>
+          )}
+          {otherProfiles.length > 0 && (
+            <optgroup label="From other databases">
+              {otherProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Mapping name"
+          className="flex-1 min-w-[160px] px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          onClick={handleSaveProfile}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-700 border border-blue-200 rounded-md hover:bg-blue-50"
+        >
+          <Save className="w-4 h-4" />
+          Save mapping
+        </button>
+        {ownProfiles.some(profile => profile.id === profileId) && (
+          <button
+            onClick={handleDeleteProfile}
+            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md"
+            title="Delete saved mapping"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Property rows */}
+      <div className="divide-y divide-gray-100">
+        {Object.entries(database.properties).map(([name, property]) => (
+          <div key={name} className="flex items-center gap-3 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{name}</div>
+              <div className="text-xs text-gray-500">{property.type.replace(/_/g, ' ')}</div>
+            </div>
+            <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <select
+              value={mapping[name] ?? IGNORE_FIELD}
+              onChange={(e) => onChange({ ...mapping, [name]: e.target.value })}
+              className={`w-56 px-2 py-1.5 border rounded-md text-sm ${
+                mapping[name] ? 'border-gray-300' : 'border-gray-200 text-gray-400'
+              }`}
+            >
+              <option value={IGNORE_FIELD}>Skip</option>
+              {targets.map(target => (
+                <option key={target.key} value={target.key}>{target.label}</option>
+              ))}
+              {database.type === 'character' && (
+                <option value={`${CHARACTER_DATA_PREFIX}${dataKey(name)}`}>Extra data: {dataKey(name)}</option>
+              )}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+// src/components/integration/NotionMappingPreview.tsx
+
+import React, { useMemo } from 'react';
+import { ImportedDatabase } from '../../services/notion-import-service';
+import { FieldMapping, MappedRecord, TARGET_FIELDS, applyMapping } from '../../utils/notionMapping';
+
+interface NotionMappingPreviewProps {
+  database: ImportedDatabase;
+  mapping: FieldMapping;
+  limit?: number;
+}
+
+const formatValue = (value: MappedRecord['fields'][string] | undefined) =>
+  Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value);
+
+export const NotionMappingPreview: React.FC<NotionMappingPreviewProps> = ({ database, mapping, limit = 5 }) => {
+  const records = useMemo(
+    () => database.records.slice(0, limit).map(record => applyMapping(record, database.type, mapping)),
+    [database, mapping, limit]
+  );
+
+  // Only the fields something maps to, in their usual order
+  const columns = TARGET_FIELDS[database.type].filter(target =>
+    records.some(record => formatValue(record.fields[target.key]) !== ''));
+  const hasData = records.some(record => Object.keys(record.data).length > 0);
+
+  if (records.length === 0) {
+    return <p className="text-sm text-gray-500">This database has no records.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border border-gray-100 rounded-md">
+      <table className="min-w-full text-xs">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            {columns.map(target => (
+              <th key={target.key} className="px-3 py-2 text-left font-medium whitespace-nowrap">{target.label}</th>
+            ))}
+            {hasData && <th className="px-3 py-2 text-left font-medium whitespace-nowrap">Extra data</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {records.map(({ record, fields, data }) => (
+            <tr key={record.id}>
+              {columns.map(target => (
+                <td key={target.key} className="px-3 py-2 text-gray-800 align-top max-w-[220px]">
+                  <div className="line-clamp-3">{formatValue(fields[target.key])}</div>
+                </td>
+              ))}
+              {hasData && (
+                <td className="px-3 py-2 text-gray-500 align-top max-w-[220px]">
+                  <div className="line-clamp-3">{Object.keys(data).join(', ')}</div>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {database.records.length > limit && (
+        <p className="px-3 py-2 text-xs text-gray-500 bg-gray-50">
+          Showing {limit} of {database.records.length} records
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+// src/components/integration/NotionSyncPanel.tsx
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, RefreshCw, Unlink, XCircle } from 'lucide-react';
+import {
+  NotionIntegration,
+  SyncConflict,
+  SyncLogEntry,
+  SyncResult,
+  notionSyncService
+} from '../../services/notion-sync-service';
+
+interface NotionSyncPanelProps {
+  userId: string;
+  // The token entered on the connect form; it is never stored
+  token: string;
+}
+
+const LOG_STYLES: Record<SyncLogEntry['status'], { icon: React.ReactNode; label: string }> = {
+  success: { icon: <CheckCircle className="w-4 h-4 text-green-600" />, label: 'Synced' },
+  conflicts: { icon: <AlertTriangle className="w-4 h-4 text-amber-500" />, label: 'Conflicts' },
+  failed: { icon: <XCircle className="w-4 h-4 text-red-600" />, label: 'Failed' }
+};
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : 'Never';
+
+export const NotionSyncPanel: React.FC<NotionSyncPanelProps> = ({ userId, token }) => {
+  const [integrations, setIntegrations] = useState<NotionIntegration[]>([]);
+  const [logs, setLogs] = useState<Record<string, SyncLogEntry[]>>({});
+  const [results, setResults] = useState<Record<string, SyncResult>>({});
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const loadLog = useCallback(async (integrationId: string) => {
+    const log = await notionSyncService.getLog(integrationId);
+    setLogs(prev => ({ ...prev, [integrationId]: log }));
+  }, []);
+
+  useEffect(() => {
+    notionSyncService.getIntegrations(userId).then(loaded => {
+      setIntegrations(loaded);
+      loaded.forEach(integration => loadLog(integration.id));
+    });
+  }, [userId, loadLog]);
+
+  const handleSync = async (integration: NotionIntegration) => {
+    setSyncingId(integration.id);
+    try {
+      const result = await notionSyncService.sync(integration, token.trim());
+      setResults(prev => ({ ...prev, [integration.id]: result }));
+      setIntegrations(await notionSyncService.getIntegrations(userId));
+      await loadLog(integration.id);
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  const handleResolve = async (integrationId: string, conflict: SyncConflict, keep: 'notion' | 'nimbus') => {
+    setResolving(conflict.link.id);
+    try {
+      await notionSyncService.resolveConflict(conflict, keep, token.trim());
+      setResults(prev => ({
+        ...prev,
+        [integrationId]: {
+          ...prev[integrationId],
+          conflicts: prev[integrationId].conflicts.filter(other => other.link.id !== conflict.link.id)
+        }
+      }));
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      alert(`Could not resolve the conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleDelete = async (integration: NotionIntegration) => {
+    if (!window.confirm(`Stop syncing "${integration.name}"? Imported content stays in Nimbus.`)) return;
+    if (await notionSyncService.deleteIntegration(integration.id)) {
+      setIntegrations(prev => prev.filter(item => item.id !== integration.id));
+    }
+  };
+
+  if (integrations.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Synced Imports</h3>
+        <p className="text-sm text-gray-600">
+          Pull Notion edits into Nimbus and push Nimbus edits back. Enter your integration token above to sync.
+        </p>
+      </div>
+
+      {integrations.map(integration => {
+        const result = results[integration.id];
+        const log = logs[integration.id] || [];
+
+        return (
+          <div key={integration.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h4 className="font-medium text-gray-900">{integration.name}</h4>
+                <p className="text-xs text-gray-500">
+                  {integration.databases.map(database => database.name).join(', ')} • Last synced {formatTime(integration.last_synced_at)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleSync(integration)}
+                  disabled={!token.trim() || syncingId !== null}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {syncingId === integration.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  {syncingId === integration.id ? 'Syncing...' : 'Sync now'}
+                </button>
+                <button
+                  onClick={() => handleDelete(integration)}
+                  className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md"
+                  title="Stop syncing"
+                >
+                  <Unlink className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {/* Conflicts from the latest sync */}
+            {result && result.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <h5 className="text-sm font-medium text-amber-800">
+                  {result.conflicts.length} changed on both sides
+                </h5>
+                {result.conflicts.map(conflict => (
+                  <div key={conflict.link.id} className="bg-amber-50 border border-amber-200 rounded-md p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {conflict.title} <span className="text-gray-500 font-normal">({conflict.database.name})</span>
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleResolve(integration.id, conflict, 'notion')}
+                          disabled={resolving !== null}
+                          className="px-2 py-1 text-xs border border-gray-300 bg-white rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Keep Notion
+                        </button>
+                        <button
+                          onClick={() => handleResolve(integration.id, conflict, 'nimbus')}
+                          disabled={resolving !== null}
+                          className="px-2 py-1 text-xs border border-gray-300 bg-white rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Keep Nimbus
+                        </button>
+                      </div>
+                    </div>
+                    {conflict.changes.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead className="text-gray-500">
+                          <tr>
+                            <th className="text-left font-medium pr-2">Field</th>
+                            <th className="text-left font-medium pr-2">Notion</th>
+                            <th className="text-left font-medium">Nimbus</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {conflict.changes.map(change => (
+                            <tr key={change.field} className="align-top">
+                              <td className="pr-2 py-0.5 text-gray-600">{change.label}</td>
+                              <td className="pr-2 py-0.5 text-gray-900 max-w-[200px] truncate">{change.notion}</td>
+                              <td className="py-0.5 text-gray-900 max-w-[200px] truncate">{change.nimbus}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Sync log */}
+            {log.length > 0 && (
+              <div className="border-t border-gray-100 pt-2">
+                <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Sync log</h5>
+                <ul className="space-y-1">
+                  {log.map(entry => (
+                    <li key={entry.id} className="flex items-start gap-2 text-xs text-gray-700">
+                      {LOG_STYLES[entry.status].icon}
+                      <div>
+                        <span className="font-medium">{LOG_STYLES[entry.status].label}</span>
+                        {' '}{formatTime(entry.started_at)} • {entry.pulled} pulled, {entry.pushed} pushed, {entry.created} new
+                        {entry.conflicts > 0 && `, ${entry.conflicts} conflicts`}
+                        {entry.messages.length > 0 && (
+                          <div className="text-gray-500">{entry.messages.slice(0, 3).join(' • ')}</div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,42 +1,62 @@
-import React, { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useMemo } from 'react';
 import { KanbanColumn } from './KanbanColumn';
 import { TaskLightbox } from './TaskLightbox';
 import { CreateTaskModal } from './CreateTaskModal';
 import { Plus, Search, Share2, MoreHorizontal } from 'lucide-react';
-import { Task, KanbanColumn as KanbanColumnType } from '../../types/kanban';
-import { useLocalStorage } from '../../hooks/useLocalStorage';
+import { Task, TaskLink, KanbanColumn as KanbanColumnType } from '../../types/kanban';
+import {
+  taskService,
+  groupTasks,
+  moveTask,
+  EMPTY_LINK_TARGETS,
+  TaskLinkTargets
+} from '../../services/task-service';
 
 interface KanbanBoardProps {
   projectId: string;
   projectTitle: string;
   onBackToLibrary: () => void;
+  onOpenLink?: (link: TaskLink) => void;
 }
 
-export function KanbanBoard({ projectId, projectTitle, onBackToLibrary }: KanbanBoardProps) {
-  const [rawColumns, setRawColumns] = useLocalStorage<KanbanColumnType[]>(`kanban-${projectId}`, [
-    { id: 'todo', title: 'TO DO', tasks: [] },
-    { id: 'active', title: 'Active', tasks: [] },
-    { id: 'in_progress', title: 'In Progress', tasks: [] },
-    { id: 'completed', title: 'Completed', tasks: [] },
-  ]);
-
-  // Convert date strings back to Date objects when retrieving from localStorage
-  const columns = useMemo(() => {
-    return rawColumns.map(column => ({
-      ...column,
-      tasks: column.tasks.map(task => ({
-        ...task,
-        createdAt: typeof task.createdAt === 'string' ? new Date(task.createdAt) : task.createdAt,
-        updatedAt: typeof task.updatedAt === 'string' ? new Date(task.updatedAt) : task.updatedAt,
-        dueDate: task.dueDate && typeof task.dueDate === 'string' ? new Date(task.dueDate) : task.dueDate,
-      }))
-    }));
-  }, [rawColumns]);
-
-  const setColumns = useCallback((updater: React.SetStateAction<KanbanColumnType[]>) => {
-    setRawColumns(updater);
-  }, [setRawColumns]);
+const BOARD_COLUMNS: Omit<KanbanColumnType, 'tasks'>[] = [
+  { id: 'todo', title: 'TO DO' },
+  { id: 'active', title: 'Active' },
+  { id: 'in_progress', title: 'In Progress' },
+  { id: 'completed', title: 'Completed' },
+];
+
+export function KanbanBoard({ projectId, projectTitle, onBackToLibrary, onOpenLink }: KanbanBoardProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [linkTargets, setLinkTargets] = useState<TaskLinkTargets>(EMPTY_LINK_TARGETS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const columns = useMemo(() => groupTasks(tasks, BOARD_COLUMNS), [tasks]);
+
+  // Move any board left in localStorage to Supabase, then add tasks for planned outline nodes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBoard = async () => {
+      setIsLoading(true);
+      await taskService.migrateLocalBoard(projectId);
+      const loaded = await taskService.getTasks(projectId);
+      const synced = await taskService.syncOutlineTasks(projectId, loaded);
+      const syncedIds = new Set(synced.map(task => task.id));
+      const targets = await taskService.getLinkTargets(projectId);
+
+      if (cancelled) return;
+      setTasks([...loaded.filter(task => !syncedIds.has(task.id)), ...synced]);
+      setLinkTargets(targets);
+      setIsLoading(false);
+    };
+
+    loadBoard();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
 
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -47,39 +67,38 @@ export function KanbanBoard({ projectId, projectTitle, onBackToLibrary }: Kanban
     setSelectedTask(task);
   }, []);
 
-  const handleTaskUpdate = useCallback((updatedTask: Task) => {
-    setColumns(prev => prev.map(column => ({
-      ...column,
-      tasks: column.tasks.map(task => 
-        task.id === updatedTask.id ? updatedTask : task
-      )
-    })));
-    setSelectedTask(null);
-  }, [setColumns]);
+  const handleTaskUpdate = useCallback(async (updatedTask: Task) => {
+    const previous = tasks.find(task => task.id === updatedTask.id);
+    // A task moved to another column from the lightbox goes to the end of it
+    const placed = previous && previous.status !== updatedTask.status
+      ? { ...updatedTask, positionInColumn: tasks.filter(task => task.status === updatedTask.status).length }
+      : updatedTask;
 
-  const handleTaskDelete = useCallback((taskId: string) => {
-    setColumns(prev => prev.map(column => ({
-      ...column,
-      tasks: column.tasks.filter(task => task.id !== taskId)
-    })));
     setSelectedTask(null);
-  }, [setColumns]);
+    const saved = await taskService.updateTask(placed);
+    if (saved) {
+      setTasks(prev => prev.map(task => task.id === saved.id ? saved : task));
+    }
+  }, [tasks]);
 
-  const handleCreateTask = useCallback((newTask: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const task: Task = {
-      ...newTask,
-      id: Date.now().toString(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  const handleTaskDelete = useCallback(async (taskId: string) => {
+    const task = tasks.find(item => item.id === taskId);
+    setSelectedTask(null);
+    if (task && await taskService.deleteTask(task)) {
+      setTasks(prev => prev.filter(item => item.id !== taskId));
+    }
+  }, [tasks]);
 
-    setColumns(prev => prev.map(column => 
-      column.id === task.status 
-        ? { ...column, tasks: [...column.tasks, task] }
-        : column
-    ));
+  const handleCreateTask = useCallback(async (newTask: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => {
     setIsCreateModalOpen(false);
-  }, [setColumns]);
+    const created = await taskService.createTask(projectId, {
+      ...newTask,
+      positionInColumn: tasks.filter(task => task.status === newTask.status).length
+    });
+    if (created) {
+      setTasks(prev => [...prev, created]);
+    }
+  }, [projectId, tasks]);
 
   const handleDragStart = useCallback((task: Task) => {
     setDraggedTask(task);
@@ -89,26 +108,16 @@ export function KanbanBoard({ projectId, projectTitle, onBackToLibrary }: Kanban
     setDraggedTask(null);
   }, []);
 
-  const handleDrop = useCallback((columnId: string) => {
+  const handleDrop = useCallback((columnId: string, index?: number) => {
     if (!draggedTask) return;
 
-    setColumns(prev => {
-      const newColumns = prev.map(column => ({
-        ...column,
-        tasks: column.tasks.filter(task => task.id !== draggedTask.id)
-      }));
-
-      return newColumns.map(column => 
-        column.id === columnId 
-          ? { 
-              ...column, 
-              tasks: [...column.tasks, { ...draggedTask, status: columnId as any }]
-            }
-          : column
-      );
-    });
+    const moved = moveTask(tasks, draggedTask.id, columnId as Task['status'], index);
+    setTasks(moved.tasks);
     setDraggedTask(null);
-  }, [draggedTask, setColumns]);
+    if (moved.changed.length > 0) {
+      taskService.saveOrder(moved.changed);
+    }
+  }, [draggedTask, tasks]);
 
   const handleViewChange = (view: 'board' | 'library') => {
     setActiveView(view);
@@ -186,10 +195,14 @@ export function KanbanBoard({ projectId, projectTitle, onBackToLibrary }: Kanban
       {/* Kanban Board */}
       <div className="flex-1 p-6 overflow-x-auto">
         <div className="flex gap-6 min-w-max">
-          {columns.map(column => (
+          {isLoading && (
+            <div className="text-sm text-gray-500">Loading tasks...</div>
+          )}
+          {!isLoading && columns.map(column => (
             <KanbanColumn
               key={column.id}
               column={column}
+              linkTargets={linkTargets}
               onTaskClick={handleTaskClick}
               onDragStart={handleDragStart}
               onDragEnd={handleDragEnd}
@@ -204,6 +217,8 @@ export function KanbanBoard({ projectId, projectTitle, onBackToLibrary }: Kanban
       {selectedTask && (
         <TaskLightbox
           task={selectedTask}
+          linkTargets={linkTargets}
+          onOpenLink={onOpenLink}
           onUpdate={handleTaskUpdate}
           onDelete={handleTaskDelete}
           onClose={() => setSelectedTask(null)}
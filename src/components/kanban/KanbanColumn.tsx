@@ -2,18 +2,22 @@ import React from 'react';
 import { TaskCard } from './TaskCard';
 import { Plus } from 'lucide-react';
 import { KanbanColumn as KanbanColumnType, Task } from '../../types/kanban';
+import { TaskLinkTargets, resolveTaskLink } from '../../services/task-service';
 
 interface KanbanColumnProps {
   column: KanbanColumnType;
+  linkTargets: TaskLinkTargets;
   onTaskClick: (task: Task) => void;
   onDragStart: (task: Task) => void;
   onDragEnd: () => void;
-  onDrop: (columnId: string) => void;
+  // index is where the task lands in the column; the end when omitted
+  onDrop: (columnId: string, index?: number) => void;
   isDraggedOver: boolean;
 }
 
 export function KanbanColumn({ 
   column, 
+  linkTargets,
   onTaskClick, 
   onDragStart, 
   onDragEnd, 
@@ -29,6 +33,13 @@ export function KanbanColumn({
     onDrop(column.id);
   };
 
+  // Dropping on a card puts the dragged task in front of it
+  const handleDropOnTask = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onDrop(column.id, index);
+  };
+
   return (
     <div className="flex flex-col w-[300px]">
       {/* Column Header */}
@@ -55,14 +66,16 @@ export function KanbanColumn({
         onDragOver={handleDragOver}
         onDrop={handleDrop}
       >
-        {column.tasks.map(task => (
-          <TaskCard
-            key={task.id}
-            task={task}
-            onClick={() => onTaskClick(task)}
-            onDragStart={() => onDragStart(task)}
-            onDragEnd={onDragEnd}
-          />
+        {column.tasks.map((task, index) => (
+          <div key={task.id} onDragOver={handleDragOver} onDrop={(e) => handleDropOnTask(e, index)}>
+            <TaskCard
+              task={task}
+              link={resolveTaskLink(task, linkTargets)}
+              onClick={() => onTaskClick(task)}
+              onDragStart={() => onDragStart(task)}
+              onDragEnd={onDragEnd}
+            />
+          </div>
         ))}
         
         {column.tasks.length === 0 && !isDraggedOver && (
@@ -1,9 +1,10 @@
 import React from 'react';
-import { Calendar, MessageSquare, Paperclip, User } from 'lucide-react';
-import { Task } from '../../types/kanban';
+import { Calendar, MessageSquare, Paperclip, User, FileText, Globe } from 'lucide-react';
+import { Task, TaskLink } from '../../types/kanban';
 
 interface TaskCardProps {
   task: Task;
+  link: TaskLink | null;
   onClick: () => void;
   onDragStart: () => void;
   onDragEnd: () => void;
@@ -37,7 +38,13 @@ const taskTypeStyles = {
   },
 };
 
-export function TaskCard({ task, onClick, onDragStart, onDragEnd }: TaskCardProps) {
+const linkIcons = {
+  chapter: FileText,
+  character: User,
+  world_element: Globe,
+};
+
+export function TaskCard({ task, link, onClick, onDragStart, onDragEnd }: TaskCardProps) {
   const formatDate = (date: Date) => {
     const now = new Date();
     const diffTime = date.getTime() - now.getTime();
@@ -54,6 +61,7 @@ export function TaskCard({ task, onClick, onDragStart, onDragEnd }: TaskCardProp
 
   const isOverdue = task.dueDate && new Date(task.dueDate) < new Date();
   const taskStyle = taskTypeStyles[task.taskType];
+  const LinkIcon = linkIcons[link?.type || 'chapter'];
 
   // Mock data for demonstration (in real app, this would come from task data)
   const mockComments = Math.floor(Math.random() * 5);
@@ -89,6 +97,14 @@ export function TaskCard({ task, onClick, onDragStart, onDragEnd }: TaskCardProp
         </p>
       )}
 
+      {/* Linked chapter, character or world element */}
+      {link && (
+        <div className={`flex items-center gap-1 text-xs mb-3 ${link.title ? 'text-gray-600' : 'text-gray-400 italic'}`}>
+          <LinkIcon className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{link.title || 'Linked item was deleted'}</span>
+        </div>
+      )}
+
       {/* Bottom Section */}
       <div className="flex items-center justify-between text-xs text-gray-500">
         {/* Left side - Due date */}
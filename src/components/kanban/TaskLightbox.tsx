@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { X, Calendar, AlertTriangle, User, FileText } from 'lucide-react';
-import { Task } from '../../types/kanban';
+import { X, Calendar, AlertTriangle, User, FileText, ExternalLink } from 'lucide-react';
+import { Task, TaskLink } from '../../types/kanban';
+import { TaskLinkTargets, resolveTaskLink } from '../../services/task-service';
 
 interface TaskLightboxProps {
   task: Task;
+  linkTargets: TaskLinkTargets;
+  onOpenLink?: (link: TaskLink) => void;
   onUpdate: (task: Task) => void;
   onDelete: (taskId: string) => void;
   onClose: () => void;
@@ -30,7 +33,11 @@ const statusOptions = [
   { value: 'completed', label: 'Completed' },
 ];
 
-export function TaskLightbox({ task, onUpdate, onDelete, onClose }: TaskLightboxProps) {
+// Links are chosen from one select as "type:id"
+const linkValue = (link: TaskLink | null) => link ? `${link.type}:${link.id}` : '';
+
+export function TaskLightbox({ task, linkTargets, onOpenLink, onUpdate, onDelete, onClose }: TaskLightboxProps) {
+  const currentLink = resolveTaskLink(task, linkTargets);
   const [formData, setFormData] = useState({
     title: task.title,
     description: task.description || '',
@@ -38,13 +45,15 @@ export function TaskLightbox({ task, onUpdate, onDelete, onClose }: TaskLightbox
     priority: task.priority,
     status: task.status,
     dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '',
+    link: linkValue(currentLink),
   });
 
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    const [linkType, linkId] = formData.link.split(':');
     const updatedTask: Task = {
       ...task,
       title: formData.title,
@@ -53,12 +62,25 @@ export function TaskLightbox({ task, onUpdate, onDelete, onClose }: TaskLightbox
       priority: formData.priority as any,
       status: formData.status as any,
       dueDate: formData.dueDate && formData.dueDate.trim() !== '' ? new Date(formData.dueDate) : undefined,
+      linkedChapterId: linkType === 'chapter' ? linkId : undefined,
+      linkedCharacterId: linkType === 'character' ? linkId : undefined,
+      linkedWorldElementId: linkType === 'world_element' ? linkId : undefined,
       updatedAt: new Date(),
     };
 
     onUpdate(updatedTask);
   };
 
+  const selectedLink = [...linkTargets.chapters, ...linkTargets.characters, ...linkTargets.worldElements]
+    .find(target => linkValue(target) === formData.link);
+
+  const handleOpenLink = () => {
+    if (selectedLink && onOpenLink) {
+      onClose();
+      onOpenLink(selectedLink);
+    }
+  };
+
   const handleDelete = () => {
     onDelete(task.id);
   };
@@ -181,6 +203,48 @@ export function TaskLightbox({ task, onUpdate, onDelete, onClose }: TaskLightbox
             </div>
           </div>
 
+          {/* Linked item */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Linked To
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={formData.link}
+                onChange={(e) => setFormData({ ...formData, link: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Nothing</option>
+                {currentLink && !currentLink.title && (
+                  <option value={linkValue(currentLink)}>Deleted item</option>
+                )}
+                {([
+                  ['Chapters', linkTargets.chapters],
+                  ['Characters', linkTargets.characters],
+                  ['World Elements', linkTargets.worldElements],
+                ] as const).map(([label, targets]) => targets.length > 0 && (
+                  <optgroup key={label} label={label}>
+                    {targets.map(target => (
+                      <option key={target.id} value={linkValue(target)}>
+                        {target.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              {selectedLink && onOpenLink && (
+                <button
+                  type="button"
+                  onClick={handleOpenLink}
+                  className="flex items-center gap-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                  Open
+                </button>
+              )}
+            </div>
+          </div>
+
           {/* Description */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Plus, Search, Filter, Edit2, Trash2, Eye, User, Users, Crown, Shield } from 'lucide-react';
+import { Plus, Search, Filter, Edit2, Trash2, Eye, User, Users, Crown, Shield, Grid3X3, RefreshCw, AlertTriangle } from 'lucide-react';
 import { characterService, type Character, type CreateCharacterData, type UpdateCharacterData } from '../../services/character-service';
 import { useAppData } from '../../contexts/AppDataContext';
+import { useCharacterMentions } from '../../hooks/useCharacterMentions';
+import { CharacterAppearanceHeatmap } from './character-appearance-heatmap';
 
 interface CharactersPageProps {
   projectId?: string;
+  // Character to open once loaded, e.g. picked from project search
+  focusCharacterId?: string;
+  onFocusHandled?: () => void;
 }
 
-export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) => {
+export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId, focusCharacterId, onFocusHandled }) => {
   const { currentProject } = useAppData();
   const effectiveProjectId = projectId || currentProject?.id;
 
@@ -19,6 +24,12 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
   const [isCreating, setIsCreating] = useState(false);
   const [editingCharacter, setEditingCharacter] = useState<Character | null>(null);
   const [selectedCharacter, setSelectedCharacter] = useState<Character | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+
+  // Where each character is mentioned in the manuscript
+  const { index: mentionIndex, loading: indexing, refresh: refreshMentions } = useCharacterMentions(effectiveProjectId);
+  const chapterTitle = (chapterId: string | null) =>
+    mentionIndex?.chapters.find(chapter => chapter.id === chapterId)?.title || 'Untitled chapter';
 
   // Form state
   const [formData, setFormData] = useState<CreateCharacterData>({
@@ -31,7 +42,8 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
     age: undefined,
     occupation: '',
     tags: [],
-    project_id: effectiveProjectId || ''
+    project_id: effectiveProjectId || '',
+    character_data: { aliases: [] }
   });
 
   // Load characters
@@ -55,6 +67,13 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
     loadCharacters();
   }, [loadCharacters]);
 
+  useEffect(() => {
+    if (!focusCharacterId || loading) return;
+    const character = characters.find(item => item.id === focusCharacterId);
+    if (character) setSelectedCharacter(character);
+    onFocusHandled?.();
+  }, [focusCharacterId, loading, characters, onFocusHandled]);
+
   // Search and filter
   const filteredCharacters = characters.filter(character => {
     const matchesSearch = character.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -83,7 +102,8 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
           physical_description: formData.physical_description,
           age: formData.age,
           occupation: formData.occupation,
-          tags: formData.tags
+          tags: formData.tags,
+          character_data: { ...(editingCharacter.character_data || {}), ...formData.character_data }
         };
         
         await characterService.updateCharacter(editingCharacter.id, updateData);
@@ -108,11 +128,13 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
         age: undefined,
         occupation: '',
         tags: [],
-        project_id: effectiveProjectId
+        project_id: effectiveProjectId,
+        character_data: { aliases: [] }
       });
 
-      // Reload characters
+      // Reload characters, then re-index since names or aliases may have changed
       await loadCharacters();
+      refreshMentions();
     } catch (err) {
       console.error('Error saving character:', err);
       setError('Failed to save character');
@@ -146,7 +168,8 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
       age: character.age,
       occupation: character.occupation || '',
       tags: character.tags || [],
-      project_id: character.project_id || effectiveProjectId || ''
+      project_id: character.project_id || effectiveProjectId || '',
+      character_data: { aliases: character.character_data?.aliases || [] }
     });
     setIsCreating(true);
   };
@@ -170,7 +193,8 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
       age: undefined,
       occupation: '',
       tags: [],
-      project_id: effectiveProjectId || ''
+      project_id: effectiveProjectId || '',
+      character_data: { aliases: [] }
     });
   };
 
@@ -249,16 +273,59 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
           </div>
         </div>
 
-        {/* Add Character Button */}
-        <button
-          onClick={() => setIsCreating(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Character
-        </button>
+        <div className="flex items-center gap-2">
+          {/* Appearance Heatmap Toggle */}
+          <button
+            onClick={() => setShowHeatmap(!showHeatmap)}
+            className={`inline-flex items-center px-4 py-2 border text-sm font-medium rounded-lg transition-colors ${
+              showHeatmap ? 'border-blue-600 text-blue-700 bg-blue-50' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <Grid3X3 className="w-4 h-4 mr-2" />
+            Appearances
+          </button>
+
+          {/* Add Character Button */}
+          <button
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Character
+          </button>
+        </div>
       </div>
 
+      {/* Appearance Heatmap */}
+      {showHeatmap && (
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-gray-600">
+              Mentions per chapter, matched on names, aliases and nicknames.
+            </p>
+            <button
+              onClick={refreshMentions}
+              disabled={indexing}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3 h-3 ${indexing ? 'animate-spin' : ''}`} />
+              Re-scan manuscript
+            </button>
+          </div>
+          {mentionIndex ? (
+            <CharacterAppearanceHeatmap
+              characters={filteredCharacters}
+              index={mentionIndex}
+              onSelectCharacter={handleView}
+            />
+          ) : (
+            <div className="text-center py-8 bg-gray-50 rounded-lg text-sm text-gray-500">
+              {indexing ? 'Scanning chapters...' : 'No appearance data yet.'}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Character List */}
       {loading ? (
         <div className="text-center py-12">
@@ -321,6 +388,22 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
                       <span className="bg-blue-50 text-blue-700 px-2 py-1 rounded">
                         {character.completeness_score}% Complete
                       </span>
+                      {mentionIndex?.summaries[character.id] && (
+                        <span className="bg-gray-50 text-gray-700 px-2 py-1 rounded">
+                          {mentionIndex.summaries[character.id].appearances.length > 0
+                            ? `Appears in ${mentionIndex.summaries[character.id].appearances.length} of ${mentionIndex.chapters.length} chapters`
+                            : 'Not mentioned yet'}
+                        </span>
+                      )}
+                      {mentionIndex?.summaries[character.id]?.isVanishing && (
+                        <span
+                          className="bg-orange-50 text-orange-700 px-2 py-1 rounded inline-flex items-center gap-1"
+                          title={`Not mentioned for ${mentionIndex.summaries[character.id].longestAbsence} chapters in a row`}
+                        >
+                          <AlertTriangle className="w-3 h-3" />
+                          Vanishes
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -484,6 +567,26 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
                   />
                 </div>
 
+                {/* Aliases */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Aliases &amp; nicknames (comma-separated)
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.character_data?.aliases?.join(', ') || ''}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      character_data: {
+                        ...prev.character_data,
+                        aliases: e.target.value.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0)
+                      }
+                    }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Lizzy, the Captain"
+                  />
+                </div>
+
                 {/* Tags */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -608,6 +711,38 @@ export const CharactersPage: React.FC<CharactersPageProps> = ({ projectId }) =>
                   </div>
                 )}
 
+                {mentionIndex?.summaries[selectedCharacter.id] && (() => {
+                  const summary = mentionIndex.summaries[selectedCharacter.id];
+                  return (
+                    <div>
+                      <h3 className="font-medium text-gray-900 mb-1">Appears In</h3>
+                      {summary.appearances.length === 0 ? (
+                        <p className="text-gray-600">Not mentioned in any chapter yet.</p>
+                      ) : (
+                        <>
+                          <p className="text-sm text-gray-600 mb-2">
+                            {summary.totalMentions} {summary.totalMentions === 1 ? 'mention' : 'mentions'} &middot;
+                            first in {chapterTitle(summary.firstChapterId)}, last in {chapterTitle(summary.lastChapterId)}
+                          </p>
+                          {summary.isVanishing && (
+                            <p className="text-sm text-orange-700 mb-2 flex items-center gap-1">
+                              <AlertTriangle className="w-4 h-4" />
+                              Missing for {summary.longestAbsence} chapters in a row
+                            </p>
+                          )}
+                          <div className="flex flex-wrap gap-2">
+                            {mentionIndex.chapters.map((chapter, position) => summary.chapterCounts[position] > 0 && (
+                              <span key={chapter.id} className="bg-gray-50 text-gray-700 px-2 py-1 rounded text-sm">
+                                {chapter.title} ({summary.chapterCounts[position]})
+                              </span>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  );
+                })()}
+
                 <div>
                   <h3 className="font-medium text-gray-900 mb-1">Completeness</h3>
                   <div className="flex items-center gap-2">
@@ -1,15 +1,42 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { ArrowLeft, Plus, BookOpen, ChevronRight, ChevronDown, MoreVertical, Trash2 } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { ArrowLeft, Plus, BookOpen, ChevronRight, ChevronDown, MoreVertical, Trash2, ListChecks } from 'lucide-react';
 import { outlineService, type OutlineNode, type CreateOutlineNodeData } from '../../services/outlineService';
+import { chapterService } from '../../services/chapterService';
+import { projectService } from '../../services/projectService';
+import { beatSheetService } from '../../services/beat-sheet-service';
 import { CreateOutlineNodeModal } from './CreateOutlineNodeModal';
+import { BeatSheetPanel } from './beat-sheet-panel';
+import {
+  BeatSheetState,
+  ChapterItem,
+  DEFAULT_BEAT_SHEET_STATE,
+  assignmentKey,
+  findSheet,
+  outlineTargetWords
+} from '../../utils/beatSheets';
 
 interface OutlinePageProps {
   onBack: () => void;
+  projectId?: string;
+  // Node to reveal once loaded, e.g. picked from project search
+  focusNodeId?: string;
+  onFocusHandled?: () => void;
 }
 
-export function OutlinePage({ onBack }: OutlinePageProps) {
+// IDs of the nodes from the root down to (and including) nodeId
+function findNodePath(nodes: OutlineNode[], nodeId: string): string[] | null {
+  for (const node of nodes) {
+    if (node.id === nodeId) return [node.id];
+    const path = findNodePath(node.children || [], nodeId);
+    if (path) return [node.id, ...path];
+  }
+  return null;
+}
+
+export function OutlinePage({ onBack, projectId, focusNodeId, onFocusHandled }: OutlinePageProps) {
   const [outlineData, setOutlineData] = useState<OutlineNode[]>([]);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const [highlightedNodeId, setHighlightedNodeId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedParentNode, setSelectedParentNode] = useState<{
@@ -24,21 +51,33 @@ export function OutlinePage({ onBack }: OutlinePageProps) {
     completion: 0
   });
 
+  // Beat sheet state
+  const [showBeats, setShowBeats] = useState(false);
+  const [beatState, setBeatState] = useState<BeatSheetState>(DEFAULT_BEAT_SHEET_STATE);
+  const [chapters, setChapters] = useState<ChapterItem[]>([]);
+  const [projectTarget, setProjectTarget] = useState(0);
+
   // Get current project ID - in a real app, this would come from context/props
   // For now, we'll use the existing project from your database
-  const currentProjectId = "90994f56-c3b1-4ae7-87bd-5020cc2f29f2";
+  const currentProjectId = projectId || "90994f56-c3b1-4ae7-87bd-5020cc2f29f2";
 
   // Load outline data
   const loadOutlineData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [nodes, statistics] = await Promise.all([
+      const [nodes, statistics, beats, projectChapters, project] = await Promise.all([
         outlineService.getOutlineNodes(currentProjectId),
-        outlineService.getOutlineStats(currentProjectId)
+        outlineService.getOutlineStats(currentProjectId),
+        beatSheetService.getState(currentProjectId),
+        chapterService.getProjectChapters(currentProjectId),
+        projectService.getProject(currentProjectId)
       ]);
       
       setOutlineData(nodes);
       setStats(statistics);
+      setBeatState(beats);
+      setChapters(projectChapters.map(chapter => ({ id: chapter.id, title: chapter.title, wordCount: chapter.wordCount })));
+      setProjectTarget(project?.wordCountTarget || 0);
     } catch (error) {
       console.error('Error loading outline data:', error);
     } finally {
@@ -50,6 +89,26 @@ export function OutlinePage({ onBack }: OutlinePageProps) {
     loadOutlineData();
   }, [loadOutlineData]);
 
+  // Expand the focused node's ancestors, then scroll it into view
+  useEffect(() => {
+    if (!focusNodeId || isLoading) return;
+    const path = findNodePath(outlineData, focusNodeId);
+    onFocusHandled?.();
+    if (!path) return;
+
+    setExpandedNodes(prev => new Set([...prev, ...path.slice(0, -1)]));
+    setHighlightedNodeId(focusNodeId);
+    requestAnimationFrame(() => {
+      document.getElementById(`outline-node-${focusNodeId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [focusNodeId, isLoading, outlineData, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedNodeId) return;
+    const timer = setTimeout(() => setHighlightedNodeId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedNodeId]);
+
   const handleCreateNode = useCallback(async (data: CreateOutlineNodeData) => {
     const newNode = await outlineService.createOutlineNode(data);
     if (newNode) {
@@ -97,6 +156,25 @@ export function OutlinePage({ onBack }: OutlinePageProps) {
     }
   }, [loadOutlineData]);
 
+  const handleBeatStateChange = useCallback((state: BeatSheetState) => {
+    setBeatState(state);
+    beatSheetService.saveState(currentProjectId, state).catch(error => {
+      console.error('Error saving beat sheet:', error);
+    });
+  }, [currentProjectId]);
+
+  // Beat names per outline node for the current sheet
+  const beatsByNode = useMemo(() => {
+    const sheet = findSheet(beatState);
+    const map = new Map<string, string[]>();
+    sheet.beats.forEach(beat => {
+      (beatState.assignments[assignmentKey(sheet.id, beat.id)] || [])
+        .filter(assignment => assignment.kind === 'outline')
+        .forEach(assignment => map.set(assignment.id, [...(map.get(assignment.id) || []), beat.name]));
+    });
+    return map;
+  }, [beatState]);
+
   // Show loading state
   if (isLoading) {
     return (
@@ -236,13 +314,24 @@ export function OutlinePage({ onBack }: OutlinePageProps) {
               </div>
             </div>
             
-            <button 
-              onClick={handleAddRootNode}
-              className="flex items-center gap-2 px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00]/80 rounded-lg transition-colors font-semibold text-white"
-            >
-              <Plus className="w-4 h-4" />
-              Add Act
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowBeats(!showBeats)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors font-semibold ${
+                  showBeats ? 'bg-[#e8ddc1] text-gray-900' : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <ListChecks className="w-4 h-4" />
+                Beat Sheet
+              </button>
+              <button 
+                onClick={handleAddRootNode}
+                className="flex items-center gap-2 px-4 py-2 bg-[#ff4e00] hover:bg-[#ff4e00]/80 rounded-lg transition-colors font-semibold text-white"
+              >
+                <Plus className="w-4 h-4" />
+                Add Act
+              </button>
+            </div>
           </div>
 
           {/* Outline Statistics */}
@@ -269,20 +358,39 @@ export function OutlinePage({ onBack }: OutlinePageProps) {
         </div>
 
         {/* Content - Outline Tree */}
-        <div className="flex-1 overflow-y-auto p-6">
-          <div className="space-y-2">
-            {outlineData.map(node => (
-              <OutlineNodeComponent
-                key={node.id}
-                node={node}
-                isExpanded={expandedNodes.has(node.id)}
-                onToggleExpanded={toggleExpanded}
-                onAddChild={handleAddChildNode}
-                onDelete={handleDeleteNode}
-                level={0}
-              />
-            ))}
+        <div className="flex-1 flex overflow-hidden">
+          <div className="flex-1 overflow-y-auto p-6">
+            <div className="space-y-2">
+              {outlineData.map(node => (
+                <OutlineNodeComponent
+                  key={node.id}
+                  node={node}
+                  isExpanded={expandedNodes.has(node.id)}
+                  expandedNodes={expandedNodes}
+                  highlightedNodeId={highlightedNodeId}
+                  beatsByNode={beatsByNode}
+                  onToggleExpanded={toggleExpanded}
+                  onAddChild={handleAddChildNode}
+                  onDelete={handleDeleteNode}
+                  level={0}
+                />
+              ))}
+            </div>
           </div>
+
+          {/* Beat Sheet */}
+          {showBeats && (
+            <div className="w-[420px] flex-shrink-0 overflow-y-auto p-6 pl-0">
+              <BeatSheetPanel
+                state={beatState}
+                onChange={handleBeatStateChange}
+                outline={outlineData}
+                chapters={chapters}
+                targetWords={projectTarget || outlineTargetWords(outlineData)}
+                writtenWords={chapters.reduce((sum, chapter) => sum + (chapter.wordCount || 0), 0)}
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -302,6 +410,9 @@ export function OutlinePage({ onBack }: OutlinePageProps) {
 interface OutlineNodeComponentProps {
   node: OutlineNode;
   isExpanded: boolean;
+  expandedNodes: Set<string>;
+  highlightedNodeId: string | null;
+  beatsByNode: Map<string, string[]>;
   onToggleExpanded: (nodeId: string) => void;
   onAddChild: (node: OutlineNode) => void;
   onDelete: (nodeId: string) => void;
@@ -311,6 +422,9 @@ interface OutlineNodeComponentProps {
 const OutlineNodeComponent: React.FC<OutlineNodeComponentProps> = ({
   node,
   isExpanded,
+  expandedNodes,
+  highlightedNodeId,
+  beatsByNode,
   onToggleExpanded,
   onAddChild,
   onDelete,
@@ -345,7 +459,12 @@ const OutlineNodeComponent: React.FC<OutlineNodeComponentProps> = ({
 
   return (
     <div style={indentStyle}>
-      <div className="bg-white border border-gray-200 rounded-lg p-4 hover:border-gray-300 transition-colors group">
+      <div
+        id={`outline-node-${node.id}`}
+        className={`bg-white border rounded-lg p-4 transition-colors group ${
+          node.id === highlightedNodeId ? 'border-[#ff4e00]' : 'border-gray-200 hover:border-gray-300'
+        }`}
+      >
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3 flex-1">
             {hasChildren && (
@@ -363,7 +482,14 @@ const OutlineNodeComponent: React.FC<OutlineNodeComponentProps> = ({
             <span className="text-lg">{getTypeIcon(node.type)}</span>
             
             <div className="flex-1">
-              <h3 className="font-semibold text-gray-900">{node.title}</h3>
+              <div className="flex items-center gap-2 flex-wrap">
+                <h3 className="font-semibold text-gray-900">{node.title}</h3>
+                {beatsByNode.get(node.id)?.map(beat => (
+                  <span key={beat} className="px-2 py-0.5 text-xs rounded-full bg-[#e8ddc1] text-gray-800">
+                    {beat}
+                  </span>
+                ))}
+              </div>
               <p className="text-sm text-gray-600 mt-1">{node.description}</p>
             </div>
           </div>
@@ -428,6 +554,9 @@ const OutlineNodeComponent: React.FC<OutlineNodeComponentProps> = ({
               key={childNode.id}
               node={childNode}
               isExpanded={expandedNodes.has(childNode.id)}
+              expandedNodes={expandedNodes}
+              highlightedNodeId={highlightedNodeId}
+              beatsByNode={beatsByNode}
               onToggleExpanded={onToggleExpanded}
               onAddChild={onAddChild}
               onDelete={onDelete}
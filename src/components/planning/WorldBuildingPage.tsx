@@ -12,9 +12,12 @@ import {
 interface WorldBuildingPageProps {
   onBack: () => void;
   projectId?: string;
+  // Element to open once loaded, e.g. picked from project search
+  focusElementId?: string;
+  onFocusHandled?: () => void;
 }
 
-export function WorldBuildingPage({ onBack, projectId }: WorldBuildingPageProps) {
+export function WorldBuildingPage({ onBack, projectId, focusElementId, onFocusHandled }: WorldBuildingPageProps) {
   const [worldElements, setWorldElements] = useState<WorldElement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -148,6 +151,13 @@ export function WorldBuildingPage({ onBack, projectId }: WorldBuildingPageProps)
     setIsDetailModalOpen(true);
   }, []);
 
+  useEffect(() => {
+    if (!focusElementId || isLoading) return;
+    const element = worldElements.find(item => item.id === focusElementId);
+    if (element) handleElementClick(element);
+    onFocusHandled?.();
+  }, [focusElementId, isLoading, worldElements, handleElementClick, onFocusHandled]);
+
   const handleViewElement = useCallback((e: React.MouseEvent, element: WorldElement) => {
     e.stopPropagation();
     setElementToView(element);
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import type { Beat, BeatSheet } from '../../utils/beatSheets';
+
+interface BeatSheetEditorProps {
+  sheet: BeatSheet;
+  onSave: (sheet: BeatSheet) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-[#ff4e00]/40';
+
+export function BeatSheetEditor({ sheet, onSave, onClose }: BeatSheetEditorProps) {
+  const [draft, setDraft] = useState<BeatSheet>(sheet);
+
+  const updateBeat = (index: number, changes: Partial<Beat>) => {
+    setDraft(prev => ({
+      ...prev,
+      beats: prev.beats.map((item, i) => i === index ? { ...item, ...changes } : item)
+    }));
+  };
+
+  const addBeat = () => {
+    const last = draft.beats[draft.beats.length - 1];
+    setDraft(prev => ({
+      ...prev,
+      beats: [...prev.beats, {
+        id: `beat_${Date.now().toString(36)}`,
+        name: '',
+        description: '',
+        position: Math.min(100, (last?.position ?? 0) + 10)
+      }]
+    }));
+  };
+
+  const valid = draft.name.trim() && draft.beats.length > 0 &&
+    draft.beats.every(item => item.name.trim() && item.position >= 0 && item.position <= 100);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Edit beat sheet</h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Name
+            <input
+              value={draft.name}
+              onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Description
+            <input
+              value={draft.description}
+              onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-1">Beats</div>
+            <p className="text-xs text-gray-500 mb-2">
+              Position is where the beat should start, as a percentage of the book's target length.
+            </p>
+            <div className="space-y-3">
+              {draft.beats.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <div className="flex-1 space-y-1">
+                    <input
+                      value={item.name}
+                      placeholder="Beat name"
+                      onChange={e => updateBeat(index, { name: e.target.value })}
+                      className={`${inputClass} w-full`}
+                    />
+                    <input
+                      value={item.description}
+                      placeholder="What happens here"
+                      onChange={e => updateBeat(index, { description: e.target.value })}
+                      className={`${inputClass} w-full text-xs`}
+                    />
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={item.position}
+                    onChange={e => updateBeat(index, { position: Number(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-sm text-gray-500 pt-1.5">%</span>
+                  <button
+                    onClick={() => setDraft(prev => ({ ...prev, beats: prev.beats.filter((_, i) => i !== index) }))}
+                    disabled={draft.beats.length === 1}
+                    className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addBeat}
+              className="mt-3 flex items-center gap-1 text-sm text-[#ff4e00] hover:text-[#ff4e00]/80"
+            >
+              <Plus className="w-4 h-4" /> Add beat
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, beats: [...draft.beats].sort((a, b) => a.position - b.position) })}
+            disabled={!valid}
+            className="px-4 py-2 text-sm bg-[#ff4e00] text-white rounded-lg hover:bg-[#ff4e00]/80 disabled:opacity-50"
+          >
+            Save beat sheet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Edit3, Plus, Trash2, X } from 'lucide-react';
+import { BeatSheetEditor } from './beat-sheet-editor';
+import {
+  BUILT_IN_BEAT_SHEETS,
+  BeatAssignment,
+  BeatProgress,
+  BeatSheet,
+  BeatSheetState,
+  ChapterItem,
+  OutlineItem,
+  assignmentKey,
+  beatProgress,
+  createCustomSheet,
+  findSheet,
+  placeItems
+} from '../../utils/beatSheets';
+
+interface BeatSheetPanelProps {
+  state: BeatSheetState;
+  onChange: (state: BeatSheetState) => void;
+  outline: OutlineItem[];
+  chapters: ChapterItem[];
+  targetWords: number;
+  writtenWords: number;
+}
+
+const STATUS_STYLES: Record<BeatProgress['status'], { badge: string; dot: string; label: string }> = {
+  on_track: { badge: 'bg-green-100 text-green-800', dot: '#16a34a', label: 'On track' },
+  early: { badge: 'bg-amber-100 text-amber-800', dot: '#d97706', label: 'Early' },
+  late: { badge: 'bg-red-100 text-red-800', dot: '#dc2626', label: 'Late' },
+  unassigned: { badge: 'bg-gray-100 text-gray-600', dot: '#9ca3af', label: 'Unassigned' }
+};
+
+// Outline nodes in reading order with their depth, for the assign menu
+function flattenOutline(nodes: OutlineItem[], depth = 0): Array<{ node: OutlineItem; depth: number }> {
+  return nodes.flatMap(node => [{ node, depth }, ...flattenOutline(node.children || [], depth + 1)]);
+}
+
+export function BeatSheetPanel({ state, onChange, outline, chapters, targetWords, writtenWords }: BeatSheetPanelProps) {
+  const [editing, setEditing] = useState<BeatSheet | null>(null);
+
+  const sheet = findSheet(state);
+  const places = useMemo(() => placeItems(outline, chapters, targetWords), [outline, chapters, targetWords]);
+  const progress = useMemo(() => beatProgress(sheet, state.assignments, places), [sheet, state.assignments, places]);
+  const outlineOptions = useMemo(() => flattenOutline(outline), [outline]);
+  const writtenPercent = targetWords > 0 ? Math.min(100, (writtenWords / targetWords) * 100) : 0;
+
+  const setAssignments = (beatId: string, assignments: BeatAssignment[]) => {
+    onChange({ ...state, assignments: { ...state.assignments, [assignmentKey(sheet.id, beatId)]: assignments } });
+  };
+
+  const handleAssign = (beatId: string, value: string) => {
+    if (!value) return;
+    const [kind, id] = value.split(':') as [BeatAssignment['kind'], string];
+    const current = state.assignments[assignmentKey(sheet.id, beatId)] || [];
+    if (current.some(item => item.kind === kind && item.id === id)) return;
+    setAssignments(beatId, [...current, { kind, id }]);
+  };
+
+  const handleSaveSheet = (saved: BeatSheet) => {
+    const exists = state.customSheets.some(item => item.id === saved.id);
+    onChange({
+      ...state,
+      sheetId: saved.id,
+      customSheets: exists
+        ? state.customSheets.map(item => item.id === saved.id ? saved : item)
+        : [...state.customSheets, saved]
+    });
+    setEditing(null);
+  };
+
+  const handleDeleteSheet = () => {
+    if (!window.confirm(`Delete the "${sheet.name}" beat sheet?`)) return;
+    const prefix = `${sheet.id}:`;
+    onChange({
+      sheetId: BUILT_IN_BEAT_SHEETS[0].id,
+      customSheets: state.customSheets.filter(item => item.id !== sheet.id),
+      assignments: Object.fromEntries(Object.entries(state.assignments).filter(([key]) => !key.startsWith(prefix)))
+    });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      {/* Sheet picker */}
+      <div className="flex items-center gap-2">
+        <select
+          value={sheet.id}
+          onChange={e => onChange({ ...state, sheetId: e.target.value })}
+          className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+        >
+          <optgroup label="Templates">
+            {BUILT_IN_BEAT_SHEETS.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </optgroup>
+          {state.customSheets.length > 0 && (
+            <optgroup label="Custom">
+              {state.customSheets.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {sheet.builtIn ? (
+          <button
+            onClick={() => setEditing(createCustomSheet(sheet))}
+            className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+            title="Copy as a custom beat sheet"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+        ) : (
+          <>
+            <button onClick={() => setEditing(sheet)} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="Edit beat sheet">
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button onClick={handleDeleteSheet} className="p-1.5 text-gray-500 hover:bg-red-50 hover:text-red-600 rounded" title="Delete beat sheet">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setEditing(createCustomSheet())}
+          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+          title="New custom beat sheet"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      {sheet.description && <p className="text-xs text-gray-500 -mt-2">{sheet.description}</p>}
+
+      {/* Progress overlay: expected positions above the line, actual below */}
+      <div>
+        <div className="relative h-16">
+          <div className="absolute left-0 right-0 top-1/2 h-1.5 -mt-0.5 bg-gray-100 rounded-full" />
+          <div
+            className="absolute left-0 top-1/2 h-1.5 -mt-0.5 bg-[#e8ddc1] rounded-full"
+            style={{ width: `${writtenPercent}%` }}
+            title={`${Math.round(writtenPercent)}% of the target written`}
+          />
+          {progress.map(({ beat, actual, status }) => (
+            <React.Fragment key={beat.id}>
+              <div
+                className="absolute top-1 w-0.5 h-6 bg-gray-400"
+                style={{ left: `${beat.position}%` }}
+                title={`${beat.name}: expected at ${beat.position}%`}
+              />
+              {actual !== null && (
+                <>
+                  <div
+                    className="absolute top-1/2 h-0.5"
+                    style={{
+                      left: `${Math.min(beat.position, actual)}%`,
+                      width: `${Math.abs(actual - beat.position)}%`,
+                      backgroundColor: STATUS_STYLES[status].dot
+                    }}
+                  />
+                  <div
+                    className="absolute bottom-1 w-3 h-3 -ml-1.5 rounded-full border-2 border-white"
+                    style={{ left: `${Math.min(100, actual)}%`, backgroundColor: STATUS_STYLES[status].dot }}
+                    title={`${beat.name}: lands at ${actual}%`}
+                  />
+                </>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-gray-400">
+          <span>0%</span>
+          <span>{targetWords > 0 ? `${targetWords.toLocaleString()} word target` : 'Set word count targets to place beats'}</span>
+          <span>100%</span>
+        </div>
+      </div>
+
+      {/* Beats */}
+      <div className="space-y-3">
+        {progress.map(({ beat, items, actual, offset, status }) => (
+          <div key={beat.id} className="border border-gray-100 rounded-lg p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium text-sm text-gray-900">{beat.name}</div>
+                {beat.description && <div className="text-xs text-gray-500 mt-0.5">{beat.description}</div>}
+              </div>
+              <div className="text-right flex-shrink-0">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[status].badge}`}>
+                  {STATUS_STYLES[status].label}
+                </span>
+                <div className="text-[11px] text-gray-500 mt-1">
+                  {beat.position}%{actual !== null && ` → ${actual}%`}
+                  {offset !== null && offset !== 0 && ` (${offset > 0 ? '+' : ''}${offset})`}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1.5 mt-2">
+              {items.map(item => (
+                <span
+                  key={`${item.assignment.kind}:${item.assignment.id}`}
+                  className="flex items-center gap-1 px-2 py-0.5 bg-gray-100 rounded-full text-xs text-gray-700"
+                >
+                  {item.assignment.kind === 'chapter' ? '📄' : '📖'} {item.title}
+                  <button
+                    onClick={() => setAssignments(beat.id, items
+                      .filter(other => other !== item)
+                      .map(other => other.assignment))}
+                    className="text-gray-400 hover:text-gray-700"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <select
+                value=""
+                onChange={e => handleAssign(beat.id, e.target.value)}
+                className="text-xs text-gray-500 border border-dashed border-gray-300 rounded-full px-2 py-0.5 bg-white"
+              >
+                <option value="">+ Assign</option>
+                {outlineOptions.length > 0 && (
+                  <optgroup label="Outline">
+                    {outlineOptions.map(({ node, depth }) => (
+                      <option key={node.id} value={`outline:${node.id}`}>
+                        {'\u00a0\u00a0'.repeat(depth)}{node.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                {chapters.length > 0 && (
+                  <optgroup label="Chapters">
+                    {chapters.map(chapter => (
+                      <option key={chapter.id} value={`chapter:${chapter.id}`}>{chapter.title}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <BeatSheetEditor sheet={editing} onSave={handleSaveSheet} onClose={() => setEditing(null)} />
+      )}
+    </div>
+  );
+}
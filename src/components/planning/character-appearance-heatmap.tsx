@@ -0,0 +1,90 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { Character } from '../../services/character-service';
+import type { MentionIndex } from '../../services/character-mention-service';
+
+interface CharacterAppearanceHeatmapProps {
+  characters: Character[];
+  index: MentionIndex;
+  onSelectCharacter?: (character: Character) => void;
+}
+
+// Shade a cell by its share of the busiest cell in the grid
+const cellColor = (count: number, max: number) => {
+  if (count === 0 || max === 0) return 'bg-gray-100';
+  const ratio = count / max;
+  if (ratio > 0.75) return 'bg-blue-700';
+  if (ratio > 0.5) return 'bg-blue-500';
+  if (ratio > 0.25) return 'bg-blue-300';
+  return 'bg-blue-200';
+};
+
+export const CharacterAppearanceHeatmap: React.FC<CharacterAppearanceHeatmapProps> = ({
+  characters,
+  index,
+  onSelectCharacter
+}) => {
+  const max = Math.max(0, ...characters.flatMap(character => index.summaries[character.id]?.chapterCounts || []));
+
+  if (index.chapters.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-50 rounded-lg text-sm text-gray-500">
+        Write some chapters to see where your characters appear.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 overflow-x-auto">
+      <table className="border-separate" style={{ borderSpacing: '3px' }}>
+        <thead>
+          <tr>
+            <th className="text-left text-xs font-medium text-gray-500 pr-3">Character</th>
+            {index.chapters.map((chapter, position) => (
+              <th
+                key={chapter.id}
+                className="text-[10px] font-normal text-gray-400 w-6"
+                title={chapter.title}
+              >
+                {position + 1}
+              </th>
+            ))}
+            <th className="text-left text-xs font-medium text-gray-500 pl-3">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {characters.map(character => {
+            const summary = index.summaries[character.id];
+            if (!summary) return null;
+
+            return (
+              <tr key={character.id}>
+                <td className="pr-3 whitespace-nowrap">
+                  <button
+                    onClick={() => onSelectCharacter?.(character)}
+                    className="text-sm text-gray-900 hover:text-blue-600 flex items-center gap-1"
+                  >
+                    {character.name}
+                    {summary.isVanishing && (
+                      <span title={`Missing for ${summary.longestAbsence} chapters in a row`}>
+                        <AlertTriangle className="w-3 h-3 text-orange-500" />
+                      </span>
+                    )}
+                  </button>
+                </td>
+                {summary.chapterCounts.map((count, position) => (
+                  <td
+                    key={index.chapters[position].id}
+                    className={`w-6 h-6 rounded ${cellColor(count, max)}`}
+                    title={`${index.chapters[position].title}: ${count} ${count === 1 ? 'mention' : 'mentions'}`}
+                  />
+                ))}
+                <td className="pl-3 text-sm text-gray-600">{summary.totalMentions}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
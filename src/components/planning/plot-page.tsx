@@ -1,12 +1,14 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { ArrowLeft, Plus, BookOpen, Edit3, Trash2, Eye, Circle } from 'lucide-react';
+import { ArrowLeft, Plus, BookOpen, Edit3, Trash2, Eye, Circle, LayoutGrid, Activity } from 'lucide-react';
 import { SimpleSearchFilter, useSimpleFilter } from '../shared/simple-search-filter';
 import { plotService } from '../../services/plot-service';
+import { chapterService } from '../../services/chapterService';
 import { CreatePlotThreadModal } from './create-plot-thread-modal';
 import { PlotThreadDetailModal } from './plot-thread-detail-modal';
-import type { PlotThread, CreatePlotThreadRequest, PlotPageProps } from '../../types/plot';
+import { TensionChart } from './tension-chart';
+import type { PlotThread, PlotEvent, CreatePlotThreadRequest, PlotPageProps, PlotViewMode } from '../../types/plot';
 
-export function PlotPage({ onBack, projectId }: PlotPageProps) {
+export function PlotPage({ onBack, projectId, focusThreadId, onFocusHandled }: PlotPageProps) {
   const [plotThreads, setPlotThreads] = useState<PlotThread[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -22,6 +24,12 @@ export function PlotPage({ onBack, projectId }: PlotPageProps) {
   const [detailModalOpen, setDetailModalOpen] = useState(false);
   const [threadToView, setThreadToView] = useState<PlotThread | null>(null);
 
+  // Tension view state
+  const [viewMode, setViewMode] = useState<PlotViewMode>('threads');
+  const [plotEvents, setPlotEvents] = useState<PlotEvent[]>([]);
+  const [chapters, setChapters] = useState<Array<{ id: string; title: string }>>([]);
+  const [isLoadingTension, setIsLoadingTension] = useState(false);
+
   // Define filter options for plot thread types
   const typeFilterOptions = [
     { value: 'all', label: 'All Types' },
@@ -67,6 +75,50 @@ export function PlotPage({ onBack, projectId }: PlotPageProps) {
     }
   };
 
+  // Events and chapters for the tension chart; stored curves are brought up to date on the way
+  const loadTensionData = useCallback(async () => {
+    try {
+      setIsLoadingTension(true);
+      const [events, projectChapters] = await Promise.all([
+        plotService.getPlotEvents(undefined, projectId),
+        chapterService.getProjectChapters(projectId)
+      ]);
+      setPlotEvents(events);
+      setChapters(projectChapters.map(chapter => ({ id: chapter.id, title: chapter.title })));
+
+      const threads = await plotService.getPlotThreads(projectId);
+      const synced = await plotService.syncTensionCurves(threads, events, projectChapters.map(chapter => chapter.id));
+      setPlotThreads(synced);
+    } catch (error) {
+      console.error('Error loading tension data:', error);
+    } finally {
+      setIsLoadingTension(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (viewMode === 'tension') loadTensionData();
+  }, [viewMode, loadTensionData]);
+
+  const handleEventTensionChange = useCallback(async (eventId: string, tension: number) => {
+    const previous = plotEvents;
+    const events = plotEvents.map(event => event.id === eventId ? { ...event, tension_level: tension } : event);
+    setPlotEvents(events);
+
+    try {
+      await plotService.updatePlotEvent(eventId, { tension_level: tension });
+      const threadId = events.find(event => event.id === eventId)?.thread_id;
+      const thread = plotThreads.find(item => item.id === threadId);
+      if (thread) {
+        const [synced] = await plotService.syncTensionCurves([thread], events, chapters.map(chapter => chapter.id));
+        setPlotThreads(prev => prev.map(item => item.id === synced.id ? { ...item, tension_curve: synced.tension_curve } : item));
+      }
+    } catch (error) {
+      console.error('Error updating event tension:', error);
+      setPlotEvents(previous);
+    }
+  }, [plotEvents, plotThreads, chapters]);
+
   const handleCreateThread = useCallback(async (threadData: CreatePlotThreadRequest): Promise<PlotThread | null> => {
     try {
       setIsCreating(true);
@@ -137,6 +189,13 @@ export function PlotPage({ onBack, projectId }: PlotPageProps) {
     setDetailModalOpen(true);
   }, []);
 
+  useEffect(() => {
+    if (!focusThreadId || isLoading) return;
+    const thread = plotThreads.find(item => item.id === focusThreadId);
+    if (thread) handleThreadClick(thread);
+    onFocusHandled?.();
+  }, [focusThreadId, isLoading, plotThreads, handleThreadClick, onFocusHandled]);
+
   const handleViewThread = useCallback((e: React.MouseEvent, thread: PlotThread) => {
     e.stopPropagation();
     setThreadToView(thread);
@@ -366,12 +425,42 @@ export function PlotPage({ onBack, projectId }: PlotPageProps) {
             showClearAll={hasActiveFilters}
             className="max-w-2xl"
           />
+
+          {/* View toggle */}
+          <div className="flex items-center gap-1 mt-4">
+            {([
+              { mode: 'threads', label: 'Threads', icon: LayoutGrid },
+              { mode: 'tension', label: 'Tension', icon: Activity }
+            ] as const).map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  viewMode === mode ? 'bg-[#e8ddc1] text-gray-900 font-semibold' : 'text-[#889096] hover:bg-gray-100'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Content */}
-        <div className="flex-1 overflow-hidden">
+        <div className={`flex-1 ${viewMode === 'tension' ? 'overflow-y-auto' : 'overflow-hidden'}`}>
           <div className="p-6">
-            {filteredThreads.length === 0 ? (
+            {viewMode === 'tension' ? (
+              isLoadingTension && chapters.length === 0 ? (
+                <div className="text-center py-8 text-sm text-gray-500">Loading tension curve...</div>
+              ) : (
+                <TensionChart
+                  threads={filteredThreads}
+                  events={plotEvents}
+                  chapters={chapters}
+                  onEventTensionChange={handleEventTensionChange}
+                />
+              )
+            ) : filteredThreads.length === 0 ? (
               <div className="flex items-center justify-center h-64">
                 <div className="text-center">
                   <BookOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
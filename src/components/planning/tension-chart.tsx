@@ -0,0 +1,249 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { PlotEvent, PlotThread } from '../../types/plot';
+import {
+  MAX_TENSION,
+  MIN_TENSION,
+  PacingWarning,
+  analysePacing,
+  buildTensionCurve,
+  clampTension,
+  combineCurves
+} from '../../utils/tensionCurve';
+
+interface TensionChartProps {
+  threads: PlotThread[];
+  events: PlotEvent[];
+  chapters: Array<{ id: string; title: string }>;
+  onEventTensionChange: (eventId: string, tension: number) => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 320;
+const PADDING = { top: 16, right: 24, bottom: 36, left: 36 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const WARNING_COLORS: Record<PacingWarning['kind'], string> = {
+  flat: '#e5e7eb',
+  early_climax: '#fde68a',
+  no_relief: '#fecaca'
+};
+
+export const TensionChart: React.FC<TensionChartProps> = ({
+  threads,
+  events,
+  chapters,
+  onEventTensionChange
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hiddenThreads, setHiddenThreads] = useState<string[]>([]);
+  // Event being dragged and its tension so far
+  const [drag, setDrag] = useState<{ eventId: string; tension: number } | null>(null);
+
+  const chapterIds = useMemo(() => chapters.map(chapter => chapter.id), [chapters]);
+  const chapterIndex = useMemo(() => new Map(chapterIds.map((id, index) => [id, index])), [chapterIds]);
+
+  // Show the drag in progress before it is saved
+  const liveEvents = useMemo(() => drag
+    ? events.map(event => event.id === drag.eventId ? { ...event, tension_level: drag.tension } : event)
+    : events, [events, drag]);
+
+  const curves = useMemo(() => threads.map(thread => ({
+    thread,
+    curve: buildTensionCurve(liveEvents.filter(event => event.thread_id === thread.id), chapterIds)
+  })), [threads, liveEvents, chapterIds]);
+
+  const visible = curves.filter(({ thread }) => !hiddenThreads.includes(thread.id));
+  const overall = combineCurves(visible.map(({ curve }) => curve), chapterIds.length);
+
+  // Judge pacing by the latest event marked as the climax, if any
+  const climaxIndex = liveEvents
+    .filter(event => event.event_type === 'climax' && event.chapter_id && chapterIndex.has(event.chapter_id))
+    .filter(event => visible.some(({ thread }) => thread.id === event.thread_id))
+    .reduce<number | null>((latest, event) => Math.max(latest ?? 0, chapterIndex.get(event.chapter_id!) as number), null);
+  const warnings = analysePacing(overall, climaxIndex);
+
+  const x = (index: number) =>
+    PADDING.left + (chapterIds.length <= 1 ? PLOT_WIDTH / 2 : (index / (chapterIds.length - 1)) * PLOT_WIDTH);
+  const y = (tension: number) =>
+    PADDING.top + PLOT_HEIGHT - ((tension - MIN_TENSION) / (MAX_TENSION - MIN_TENSION)) * PLOT_HEIGHT;
+  const path = (curve: number[]) => curve.map((value, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(value)}`).join(' ');
+  const band = (start: number, end: number) => {
+    const step = chapterIds.length <= 1 ? PLOT_WIDTH : PLOT_WIDTH / (chapterIds.length - 1);
+    return { x: x(start) - step / 2, width: (end - start + 1) * step };
+  };
+
+  // Tension under the pointer, from the SVG's own coordinates
+  const tensionAt = (clientY: number) => {
+    const svg = svgRef.current;
+    if (!svg) return MIN_TENSION;
+    const rect = svg.getBoundingClientRect();
+    const svgY = ((clientY - rect.top) / rect.height) * HEIGHT;
+    return clampTension(MIN_TENSION + ((PADDING.top + PLOT_HEIGHT - svgY) / PLOT_HEIGHT) * (MAX_TENSION - MIN_TENSION));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, plotEvent: PlotEvent) => {
+    event.preventDefault();
+    (event.target as Element).setPointerCapture(event.pointerId);
+    setDrag({ eventId: plotEvent.id, tension: plotEvent.tension_level });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const tension = tensionAt(event.clientY);
+    if (tension !== drag.tension) setDrag({ ...drag, tension });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const original = events.find(event => event.id === drag.eventId);
+    if (original && original.tension_level !== drag.tension) {
+      onEventTensionChange(drag.eventId, drag.tension);
+    }
+    setDrag(null);
+  };
+
+  const toggleThread = (threadId: string) => {
+    setHiddenThreads(prev => prev.includes(threadId) ? prev.filter(id => id !== threadId) : [...prev, threadId]);
+  };
+
+  if (chapters.length === 0) {
+    return (
+      <div className="text-center py-8 bg-white border border-gray-200 rounded-lg text-sm text-gray-500">
+        Write some chapters and link plot events to them to see the tension curve.
+      </div>
+    );
+  }
+
+  const unplaced = events.filter(event => !event.chapter_id || !chapterIndex.has(event.chapter_id)).length;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        {curves.map(({ thread, curve }) => (
+          <button
+            key={thread.id}
+            onClick={() => toggleThread(thread.id)}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded-full border transition-opacity ${
+              hiddenThreads.includes(thread.id) ? 'opacity-40 border-gray-200' : 'border-gray-300'
+            }`}
+            title={curve.length === 0 ? 'No events linked to chapters yet' : 'Show or hide this thread'}
+          >
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: thread.color || '#3B82F6' }} />
+            {thread.title}
+            {curve.length === 0 && <span className="text-gray-400">(no events)</span>}
+          </button>
+        ))}
+        <span className="flex items-center gap-1.5 text-gray-500">
+          <span className="w-4 border-t-2 border-dashed border-gray-500" /> Overall
+        </span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        {/* Pacing warnings behind everything */}
+        {warnings.map((warning, index) => {
+          const { x: bandX, width } = band(warning.startIndex, warning.endIndex);
+          return (
+            <rect
+              key={index}
+              x={bandX}
+              y={PADDING.top}
+              width={width}
+              height={PLOT_HEIGHT}
+              fill={WARNING_COLORS[warning.kind]}
+              opacity={0.5}
+            >
+              <title>{warning.message}</title>
+            </rect>
+          );
+        })}
+
+        {/* Grid */}
+        {[1, 4, 7, 10].map(level => (
+          <g key={level}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(level)} y2={y(level)} stroke="#f3f4f6" />
+            <text x={PADDING.left - 8} y={y(level) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">{level}</text>
+          </g>
+        ))}
+        {chapters.map((chapter, index) => (
+          <text
+            key={chapter.id}
+            x={x(index)}
+            y={HEIGHT - PADDING.bottom + 18}
+            textAnchor="middle"
+            className="fill-gray-400 text-[10px]"
+          >
+            <title>{chapter.title}</title>
+            {index + 1}
+          </text>
+        ))}
+
+        {/* Overall tension */}
+        {overall.length > 0 && (
+          <path d={path(overall)} fill="none" stroke="#6b7280" strokeWidth={2} strokeDasharray="6 4" />
+        )}
+
+        {/* Threads */}
+        {visible.map(({ thread, curve }) => curve.length > 0 && (
+          <path
+            key={thread.id}
+            d={path(curve)}
+            fill="none"
+            stroke={thread.color || '#3B82F6'}
+            strokeWidth={2}
+            opacity={0.8}
+          />
+        ))}
+
+        {/* Event points, draggable up and down */}
+        {visible.map(({ thread }) => liveEvents
+          .filter(event => event.thread_id === thread.id && event.chapter_id && chapterIndex.has(event.chapter_id))
+          .map(event => (
+            <circle
+              key={event.id}
+              cx={x(chapterIndex.get(event.chapter_id!) as number)}
+              cy={y(clampTension(event.tension_level))}
+              r={drag?.eventId === event.id ? 7 : 5}
+              fill="white"
+              stroke={thread.color || '#3B82F6'}
+              strokeWidth={2.5}
+              className="cursor-ns-resize"
+              onPointerDown={e => handlePointerDown(e, event)}
+            >
+              <title>{`${event.title} — tension ${event.tension_level}/10 (drag to change)`}</title>
+            </circle>
+          )))}
+      </svg>
+
+      {unplaced > 0 && (
+        <p className="text-xs text-gray-500">
+          {unplaced} event{unplaced === 1 ? ' isn\'t' : 's aren\'t'} linked to a chapter and {unplaced === 1 ? 'is' : 'are'} not shown.
+        </p>
+      )}
+
+      {/* Pacing warnings */}
+      {warnings.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900">Pacing</h3>
+          {warnings.map((warning, index) => (
+            <div key={index} className="flex items-start gap-2 text-sm text-gray-700">
+              <AlertTriangle
+                className={`w-4 h-4 mt-0.5 flex-shrink-0 ${warning.kind === 'no_relief' ? 'text-red-500' : 'text-amber-500'}`}
+              />
+              {warning.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
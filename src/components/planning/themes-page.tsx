@@ -9,9 +9,12 @@ import type { Theme, CreateThemeData } from '../../services/theme-service';
 interface ThemePageProps {
   onBack: () => void;
   projectId: string;
+  // Theme to open once loaded, e.g. picked from project search
+  focusThemeId?: string;
+  onFocusHandled?: () => void;
 }
 
-export const ThemesPage: React.FC<ThemePageProps> = ({ onBack, projectId }) => {
+export const ThemesPage: React.FC<ThemePageProps> = ({ onBack, projectId, focusThemeId, onFocusHandled }) => {
   const [themes, setThemes] = useState<Theme[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -139,6 +142,13 @@ export const ThemesPage: React.FC<ThemePageProps> = ({ onBack, projectId }) => {
     setDetailModalOpen(true);
   }, []);
 
+  useEffect(() => {
+    if (!focusThemeId || isLoading) return;
+    const theme = themes.find(item => item.id === focusThemeId);
+    if (theme) handleThemeClick(theme);
+    onFocusHandled?.();
+  }, [focusThemeId, isLoading, themes, handleThemeClick, onFocusHandled]);
+
   const handleViewTheme = useCallback((e: React.MouseEvent, theme: Theme) => {
     e.stopPropagation();
     setThemeToView(theme);
@@ -17,7 +17,8 @@ export interface UseNotesResult {
   refreshDeletedNotes: () => Promise<void>;
 }
 
-export function useNotes(): UseNotesResult {
+// With a project, its notes plus those that belong to no project; new notes go to it
+export function useNotes(projectId?: string): UseNotesResult {
   const [notes, setNotes] = useState<Note[]>([]);
   const [deletedNotes, setDeletedNotes] = useState<DeletedNote[]>([]);
   const [loading, setLoading] = useState(true);
@@ -28,7 +29,7 @@ export function useNotes(): UseNotesResult {
     try {
       setLoading(true);
       setError(null);
-      const notesData = await notesService.getNotes();
+      const notesData = await notesService.getNotes(projectId);
       setNotes(notesData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load notes');
@@ -36,7 +37,7 @@ export function useNotes(): UseNotesResult {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [projectId]);
 
   // Load deleted notes for history
   const loadDeletedNotes = useCallback(async () => {
@@ -52,13 +53,13 @@ export function useNotes(): UseNotesResult {
   const createNote = useCallback(async (noteData: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>) => {
     try {
       setError(null);
-      const newNote = await notesService.createNote(noteData);
+      const newNote = await notesService.createNote({ projectId: projectId ?? null, ...noteData });
       setNotes(prev => [newNote, ...prev]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create note');
       throw err;
     }
-  }, []);
+  }, [projectId]);
 
   // Update an existing note
   const updateNote = useCallback(async (id: string, updates: Partial<Note>) => {
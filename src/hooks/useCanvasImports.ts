@@ -1,10 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { AIAnalysisService, AnalysisError, RateLimitError } from '../services/ai-analysis-service';
+import { aiCreditService } from '../services/ai-credit-service';
 import type { 
   ImportedItem, 
   AnalysisResponse, 
-  RateLimitInfo 
+  AIUsageStatus 
 } from '../types/ai-analysis';
 
 interface CanvasImportsState {
@@ -13,7 +14,7 @@ interface CanvasImportsState {
   error: string | null;
   isAnalyzing: boolean;
   analysisProgress: { completed: number; total: number } | null;
-  rateLimitInfo: RateLimitInfo | null;
+  rateLimitInfo: AIUsageStatus | null;
 }
 
 interface UseCanvasImportsReturn extends CanvasImportsState {
@@ -31,7 +32,7 @@ interface UseCanvasImportsReturn extends CanvasImportsState {
   // AI Status management
   updateNodeAIStatus: (itemId: string, status: 'pending' | 'analyzing' | 'completed' | 'failed') => Promise<void>;
   clearNodeAIInsights: (itemId: string) => Promise<void>;
-  checkRateLimit: () => Promise<RateLimitInfo>;
+  checkRateLimit: () => Promise<AIUsageStatus | null>;
   
   // Utility functions
   getNodesByAnalysisStatus: (status: 'pending' | 'analyzing' | 'completed' | 'failed') => any[];
@@ -263,13 +264,14 @@ export function useCanvasImports(): UseCanvasImportsReturn {
     }));
 
     try {
-      // Check rate limit first
-      const rateLimitInfo = await AIAnalysisService.checkRateLimit();
+      // Warn before starting a batch the limits can't cover. The edge
+      // function enforces them either way.
+      const rateLimitInfo = await aiCreditService.getStatus();
       setState(prev => ({ ...prev, rateLimitInfo }));
 
-      if (!rateLimitInfo.allowed) {
+      if (rateLimitInfo && rateLimitInfo.hourly_count + itemIds.length > rateLimitInfo.hourly_limit) {
         throw new RateLimitError(
-          `Rate limit exceeded. You can make ${rateLimitInfo.hourly_limit - rateLimitInfo.hourly_count} more requests this hour.`,
+          `Rate limit exceeded. You can make ${Math.max(0, rateLimitInfo.hourly_limit - rateLimitInfo.hourly_count)} more requests this hour.`,
           rateLimitInfo
         );
       }
@@ -357,26 +359,16 @@ export function useCanvasImports(): UseCanvasImportsReturn {
     }
   }, [refreshImports]);
 
-  // Check rate limit
-  const checkRateLimit = useCallback(async (): Promise<RateLimitInfo> => {
-    try {
-      const rateLimitInfo = await AIAnalysisService.checkRateLimit();
-      setState(prev => ({ ...prev, rateLimitInfo }));
-      return rateLimitInfo;
-
-    } catch (error) {
-      console.error('Error checking rate limit:', error);
-      const fallbackInfo: RateLimitInfo = {
-        allowed: false,
-        hourly_count: 10,
-        hourly_limit: 10,
-        daily_count: 50,
-        daily_limit: 50,
-        reset_time: new Date(Date.now() + 3600000).toISOString()
-      };
-      setState(prev => ({ ...prev, rateLimitInfo: fallbackInfo }));
-      return fallbackInfo;
-    }
+  // Check rate limit. When the server can't be reached there is nothing
+  // to show, rather than made-up counts.
+  const checkRateLimit = useCallback(async (): Promise<AIUsageStatus | null> => {
+    const rateLimitInfo = await aiCreditService.getStatus();
+    setState(prev => ({
+      ...prev,
+      rateLimitInfo,
+      error: rateLimitInfo ? prev.error : 'Could not load AI usage limits'
+    }));
+    return rateLimitInfo;
   }, []);
 
   // Utility functions
@@ -1,6 +1,7 @@
 // src/hooks/useCanvasPlanningData.ts - Complete Enhanced Version
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
+import { syncService } from '../services/sync-service';
 
 // Existing interfaces (from your current file)
 export interface CanvasCharacterData {
@@ -1310,7 +1311,7 @@ export const useCanvasPlanningData = (projectId?: string) => {
           connected_character_ids: locationData.connectedCharacters // Also store in details for compatibility
         };
 
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('world_elements')
           .update({
             title: locationData.name,
@@ -1320,12 +1321,16 @@ export const useCanvasPlanningData = (projectId?: string) => {
             updated_at: new Date().toISOString()
           })
           .eq('id', locationData.id)
-          .eq('user_id', user.id);
+          .eq('user_id', user.id)
+          .select()
+          .single();
 
         if (error) {
           console.error('Error syncing world element location:', error);
           return false;
         }
+
+        await syncService.recordServerRow('world_elements', data);
       }
 
       // Refresh local data
@@ -1343,7 +1348,7 @@ export const useCanvasPlanningData = (projectId?: string) => {
       const { user } = await getCurrentUserAndProject();
       if (!user) return false;
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('characters')
         .update({
           name: characterData.name,
@@ -1361,13 +1366,17 @@ export const useCanvasPlanningData = (projectId?: string) => {
           updated_at: new Date().toISOString()
         })
         .eq('id', characterData.id)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select()
+        .single();
 
       if (error) {
         console.error('Error syncing character:', error);
         return false;
       }
 
+      await syncService.recordServerRow('characters', data);
+
       await loadCharacters();
       return true;
     } catch (err) {
@@ -1451,6 +1460,7 @@ export const useCanvasPlanningData = (projectId?: string) => {
         return null;
       }
 
+      await syncService.recordServerRow('characters', data);
       await loadCharacters();
 
       return {
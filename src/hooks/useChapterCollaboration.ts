@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  collaborationService,
+  CollaborationSession,
+  Collaborator,
+  RemoteCursor
+} from '../services/collaboration-service';
+
+/**
+ * Real-time co-editing for a chapter. While the writer is alone the session
+ * only listens for others joining and the editor keeps its normal save path;
+ * once someone else is present, edits, cursors and undo go through the
+ * shared document.
+ */
+export function useChapterCollaboration(
+  chapterId: string | null,
+  initialHtml: string,
+  onRemoteContent: (html: string) => void
+) {
+  const { user } = useAuth();
+  const sessionRef = useRef<CollaborationSession | null>(null);
+  const [peers, setPeers] = useState<Collaborator[]>([]);
+  const [cursors, setCursors] = useState<RemoteCursor[]>([]);
+
+  // Read the latest values when (re)joining without re-subscribing on every keystroke
+  const initialHtmlRef = useRef(initialHtml);
+  initialHtmlRef.current = initialHtml;
+  const onRemoteContentRef = useRef(onRemoteContent);
+  onRemoteContentRef.current = onRemoteContent;
+
+  useEffect(() => {
+    if (!chapterId || !user) return;
+
+    const session = collaborationService.joinChapter(
+      chapterId,
+      { id: user.id, name: user.user_metadata?.full_name || user.email || 'Anonymous' },
+      {
+        onContentChange: html => onRemoteContentRef.current(html),
+        onPeersChange: setPeers,
+        onCursorsChange: setCursors
+      },
+      initialHtmlRef.current
+    );
+    sessionRef.current = session;
+
+    return () => {
+      session.disconnect();
+      sessionRef.current = null;
+      setPeers([]);
+      setCursors([]);
+    };
+  }, [chapterId, user]);
+
+  const applyLocalHtml = useCallback((html: string) => {
+    sessionRef.current?.applyLocalHtml(html);
+  }, []);
+
+  const updateCursor = useCallback((anchor: number, head: number) => {
+    sessionRef.current?.updateCursor(anchor, head);
+  }, []);
+
+  const undo = useCallback(() => {
+    sessionRef.current?.undo();
+  }, []);
+
+  const redo = useCallback(() => {
+    sessionRef.current?.redo();
+  }, []);
+
+  const reportSaveRejected = useCallback(() => {
+    sessionRef.current?.reportSaveRejected();
+  }, []);
+
+  const isCollaborating = peers.length > 0;
+
+  return {
+    peers,
+    cursors,
+    isCollaborating,
+    // Alone, every writer persists; together, one elected writer saves for everyone
+    shouldPersist: () => sessionRef.current?.isPersistenceLeader() ?? true,
+    reportSaveRejected,
+    applyLocalHtml,
+    updateCursor,
+    undo,
+    redo
+  };
+}
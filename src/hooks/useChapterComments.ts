@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, RefObject } from 'react';
+import { commentService, CommentThread, CommentStatus } from '../services/comment-service';
+import { createAnchor, resolveAnchor, AnchorRange } from '../utils/textAnchors';
+
+// Wait for typing to settle before writing moved anchors back
+const ANCHOR_SAVE_DELAY_MS = 3000;
+
+/**
+ * Comment threads for a chapter, re-anchored against the editor text whenever
+ * it changes. `positions` maps thread id to its current range, or null when
+ * the commented text is gone (the thread is shown as detached).
+ */
+export function useChapterComments(
+  chapterId: string | null,
+  editorRef: RefObject<HTMLDivElement>,
+  contentVersion: string
+) {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [positions, setPositions] = useState<Map<string, AnchorRange | null>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!chapterId) {
+      setThreads([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    commentService.getChapterThreads(chapterId).then(loaded => {
+      if (cancelled) return;
+      setThreads(loaded);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterId]);
+
+  // Re-anchor on every edit; persist anchors that moved once editing pauses
+  useEffect(() => {
+    const text = editorRef.current?.textContent || '';
+    const resolved = new Map(threads.map(thread => [thread.id, resolveAnchor(text, thread.anchor)]));
+    setPositions(resolved);
+
+    const moved = threads
+      .map(thread => ({ thread, range: resolved.get(thread.id) }))
+      .filter(({ thread, range }) => range && (range.start !== thread.anchor.start || range.end !== thread.anchor.end))
+      .map(({ thread, range }) => ({ id: thread.id, anchor: createAnchor(text, range!.start, range!.end) }));
+    if (moved.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      if (!(await commentService.updateAnchors(moved))) return;
+      const anchors = new Map(moved.map(update => [update.id, update.anchor]));
+      setThreads(current => current.map(thread =>
+        anchors.has(thread.id) ? { ...thread, anchor: anchors.get(thread.id)! } : thread
+      ));
+    }, ANCHOR_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [threads, contentVersion, editorRef]);
+
+  const addThread = useCallback(async (range: AnchorRange, body: string) => {
+    if (!chapterId) return null;
+    const text = editorRef.current?.textContent || '';
+    const thread = await commentService.createThread(chapterId, createAnchor(text, range.start, range.end), body);
+    if (thread) setThreads(current => [...current, thread]);
+    return thread;
+  }, [chapterId, editorRef]);
+
+  const reply = useCallback(async (thread: CommentThread, body: string) => {
+    const comment = await commentService.addReply(thread, body);
+    if (comment) {
+      setThreads(current => current.map(item =>
+        item.id === thread.id ? { ...item, replies: [...item.replies, comment] } : item
+      ));
+    }
+  }, []);
+
+  const setStatus = useCallback(async (thread: CommentThread, status: CommentStatus) => {
+    if (await commentService.setThreadStatus(thread.id, status)) {
+      setThreads(current => current.map(item => item.id === thread.id ? { ...item, status } : item));
+    }
+  }, []);
+
+  const deleteThread = useCallback(async (thread: CommentThread) => {
+    if (await commentService.deleteComment(thread.id)) {
+      setThreads(current => current.filter(item => item.id !== thread.id));
+    }
+  }, []);
+
+  return { threads, positions, loading, addThread, reply, setStatus, deleteThread };
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { characterMentionService, MentionIndex } from '../services/character-mention-service';
+
+/**
+ * Where each character of a project is mentioned in the manuscript
+ */
+export function useCharacterMentions(projectId?: string) {
+  const [index, setIndex] = useState<MentionIndex | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (force: boolean) => {
+    if (!projectId) {
+      setIndex(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setIndex(await characterMentionService.indexProject(projectId, force));
+    } catch (err) {
+      console.error('Error indexing character mentions:', err);
+      setError('Failed to index character mentions');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { index, loading, error, refresh };
+}
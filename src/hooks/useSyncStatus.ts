@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { syncService, SyncState } from '../services/sync-service';
+
+/**
+ * Subscribe to the offline sync queue: connectivity, pending changes and conflicts
+ */
+export function useSyncStatus(): SyncState {
+  const [state, setState] = useState<SyncState>(syncService.getState());
+
+  useEffect(() => syncService.subscribe(setState), []);
+
+  return state;
+}
@@ -2,8 +2,12 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './routes/App.tsx';  // ✅ Updated path
 import { AuthProvider } from './contexts/AuthContext';
+import { syncService } from './services/sync-service';
 import './index.css';
 
+// Replay edits queued while offline in a previous session
+syncService.init();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <AuthProvider>
@@ -3,12 +3,12 @@ import { Sidebar } from '../components/Sidebar';
 import { Breadcrumb } from '../components/Breadcrumb';
 import { Editor } from '../components/Editor';
 import { NotesPanel } from '../components/NotesPanel';
-import { KanbanApp } from '../components/KanbanApp';
+import { DashboardPage } from '../components/DashboardPage';
 import { StatusDashboard } from '../components/StatusDashboard';
 import { Files } from '../components/Files';
 import { ProjectsPage } from '../components/projects-page';
 import { AuthPage } from '../components/auth/AuthPage';
-import { Search } from 'lucide-react';
+import { Search, Replace } from 'lucide-react';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { useAutoSave } from '../hooks/useAutoSave';
 import { ThemeProvider } from '../contexts/ThemeContext';
@@ -18,8 +18,15 @@ import type { User } from '@supabase/supabase-js';
 import { LandingPage } from '../components/landing-page';
 import { chapterService } from '../services/chapterService';
 import { ProfilePage } from '../components/ProfilePage';
+import { AISettingsPage } from '../components/AISettingsPage';
 import { ResetPasswordPage } from '../components/ResetPasswordPage';
 import { WelcomeModal } from '../components/WelcomeModal';
+import { CommandPalette } from '../components/CommandPalette';
+import { FindReplaceModal } from '../components/FindReplaceModal';
+import { useKeyboard } from '../hooks/useUtilities';
+import { searchService } from '../services/search-service';
+import type { SearchResult, SearchResultType } from '../services/search-service';
+import type { TaskLink } from '../types/kanban';
 
 // Define types directly in this file to avoid import issues
 interface EditorContent {
@@ -52,6 +59,19 @@ import { GetStartedPage } from '../components/help/GetStartedPage';
 import { AskQuestionPage } from '../components/help/AskQuestionPage';
 import { GiveFeedbackPage } from '../components/help/GiveFeedbackPage';
 
+// The page each kind of search result opens on (chapters and notes are handled separately)
+const SEARCH_RESULT_VIEWS: Record<SearchResultType, string> = {
+  chapter: 'editor',
+  note: 'write',
+  character: 'characters',
+  plot_thread: 'plot',
+  plot_event: 'plot',
+  theme: 'themes',
+  world_element: 'world-building',
+  outline_node: 'outline',
+  imported_item: 'files'
+};
+
 // Lazy load heavy components
 const Canvas = lazy(() => import('../components/Canvas').then(module => ({ default: module.default || module })));
 const Integration = lazy(() => import('../components/Integration').then(module => ({ default: module.default || module })));
@@ -119,6 +139,14 @@ function AppContent() {
   
   // Add project state for plot management
   const [currentProject, setCurrentProject] = useState<{ id: string; title: string } | null>(null);
+
+  // Project search: the palette, and where a chosen result should land once its view is showing
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [searchFocus, setSearchFocus] = useState<{ type: SearchResultType; id: string } | null>(null);
+  const [editorFocus, setEditorFocus] = useState<{ chapterId: string; start: number; end: number } | null>(null);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+
+  useKeyboard({ 'ctrl+k': () => setShowCommandPalette(true) }, []);
   
   // Editor content state
   const [editorContent, setEditorContent] = useLocalStorage<EditorContent>('editorContent', {
@@ -254,6 +282,54 @@ function AppContent() {
       });
   }, [currentChapter, editorContent, chapterContents, setEditorContent, setChapterContents]);
 
+  const clearSearchFocus = useCallback(() => setSearchFocus(null), []);
+  const clearEditorFocus = useCallback(() => setEditorFocus(null), []);
+
+  const handleSearchSelect = useCallback((result: SearchResult) => {
+    const { document } = result;
+
+    if (document.type === 'chapter') {
+      setEditorFocus({ chapterId: document.id, ...(result.range || { start: 0, end: 0 }) });
+      if (currentChapter?.id === document.id) {
+        setActiveView('editor');
+      } else {
+        handleSelectChapter(document.id, document.title || document.subtitle || 'Loading...');
+      }
+      return;
+    }
+
+    if (document.type === 'note') {
+      setNotesPanelCollapsed(false);
+      if (activeView !== 'write' && activeView !== 'editor') handleViewChange('write');
+    } else {
+      handleViewChange(SEARCH_RESULT_VIEWS[document.type]);
+    }
+    setSearchFocus({ type: document.type, id: document.id });
+  }, [activeView, currentChapter, handleSelectChapter, handleViewChange]);
+
+  // Open a Kanban task's linked chapter, character or world element in its project
+  const handleOpenTaskLink = useCallback((project: { id: string; title: string }, link: TaskLink) => {
+    setCurrentProject({ id: project.id, title: project.title });
+    if (link.type === 'chapter') {
+      handleSelectChapter(link.id, link.title);
+      return;
+    }
+    handleViewChange(SEARCH_RESULT_VIEWS[link.type]);
+    setSearchFocus({ type: link.type, id: link.id });
+  }, [handleSelectChapter, handleViewChange]);
+
+  // Reload the open chapter if a project-wide replace (or its undo) changed it
+  const handleReplaceApplied = useCallback((chapterIds: string[]) => {
+    if (currentProject) searchService.invalidate(currentProject.id);
+    if (currentChapter && chapterIds.includes(currentChapter.id)) {
+      handleSelectChapter(currentChapter.id, currentChapter.title);
+    }
+  }, [currentProject, currentChapter, handleSelectChapter]);
+
+  const searchFocusId = useCallback((...types: SearchResultType[]) => {
+    return searchFocus && types.includes(searchFocus.type) ? searchFocus.id : undefined;
+  }, [searchFocus]);
+
   const handleNavigateToWriteFromProject = useCallback((projectId: string, chapterId?: string) => {
     if (chapterId) {
       handleSelectChapter(chapterId, 'Loading...');
@@ -380,6 +456,8 @@ function AppContent() {
                   content={editorContent}
                   onChange={handleEditorChange}
                   selectedChapter={currentChapter}
+                  focusRange={editorFocus}
+                  onFocusHandled={clearEditorFocus}
                 />
               </div>
               <NotesPanel
@@ -389,6 +467,9 @@ function AppContent() {
                 onDeleteNote={handleDeleteNote}
                 isCollapsed={notesPanelCollapsed}
                 onToggleCollapse={() => setNotesPanelCollapsed(!notesPanelCollapsed)}
+                projectId={currentProject?.id}
+                focusNoteId={searchFocusId('note')}
+                onFocusHandled={clearSearchFocus}
               />
             </div>
           </ErrorBoundary>
@@ -404,6 +485,8 @@ function AppContent() {
                   content={editorContent}
                   onChange={handleEditorChange}
                   selectedChapter={currentChapter}
+                  focusRange={editorFocus}
+                  onFocusHandled={clearEditorFocus}
                 />
               </div>
               <NotesPanel
@@ -413,6 +496,9 @@ function AppContent() {
                 onDeleteNote={handleDeleteNote}
                 isCollapsed={notesPanelCollapsed}
                 onToggleCollapse={() => setNotesPanelCollapsed(!notesPanelCollapsed)}
+                projectId={currentProject?.id}
+                focusNoteId={searchFocusId('note')}
+                onFocusHandled={clearSearchFocus}
               />
             </div>
           </ErrorBoundary>
@@ -422,7 +508,7 @@ function AppContent() {
         return (
           <ErrorBoundary>
             <Suspense fallback={<LoadingSpinner message="Loading Visual Canvas..." />}>
-              <Canvas />
+              <Canvas projectId={currentProject?.id} />
             </Suspense>
           </ErrorBoundary>
         );
@@ -443,7 +529,7 @@ function AppContent() {
         return (
           <ErrorBoundary>
             <Suspense fallback={<LoadingSpinner message="Loading Project Dashboard..." />}>
-              <KanbanApp />
+              <DashboardPage onViewChange={handleViewChange} projectId={currentProject?.id} onOpenTaskLink={handleOpenTaskLink} />
             </Suspense>
           </ErrorBoundary>
         );
@@ -452,7 +538,10 @@ function AppContent() {
         return (
           <ErrorBoundary>
             <Suspense fallback={<LoadingSpinner message="Loading Files..." />}>
-              <Files onBack={handleBackToWrite} />
+              <Files
+                focusItemId={searchFocusId('imported_item')}
+                onFocusHandled={clearSearchFocus}
+              />
             </Suspense>
           </ErrorBoundary>
         );
@@ -461,7 +550,12 @@ function AppContent() {
       case 'outline':
         return (
           <ErrorBoundary>
-            <OutlinePage onBack={handleBackToPlanning} />
+            <OutlinePage
+              onBack={handleBackToPlanning}
+              projectId={currentProject?.id}
+              focusNodeId={searchFocusId('outline_node')}
+              onFocusHandled={clearSearchFocus}
+            />
           </ErrorBoundary>
         );
 
@@ -473,6 +567,8 @@ function AppContent() {
                 <PlotPage 
                   onBack={handleBackToPlanning} 
                   projectId={currentProject.id}
+                  focusThreadId={searchFocusId('plot_thread', 'plot_event')}
+                  onFocusHandled={clearSearchFocus}
                 />
               ) : (
                 <div className="flex-1 flex items-center justify-center bg-white rounded-t-[17px]">
@@ -505,6 +601,8 @@ function AppContent() {
                 <ThemesPage 
                   onBack={handleBackToPlanning} 
                   projectId={currentProject.id}
+                  focusThemeId={searchFocusId('theme')}
+                  onFocusHandled={clearSearchFocus}
                 />
               ) : (
                 <div className="flex-1 flex items-center justify-center bg-white rounded-t-[17px]">
@@ -535,8 +633,9 @@ function AppContent() {
             <div className="flex-1 pr-[20px]">
               {currentProject ? (
                 <CharactersPage 
-                  onBack={handleBackToPlanning} 
                   projectId={currentProject.id}
+                  focusCharacterId={searchFocusId('character')}
+                  onFocusHandled={clearSearchFocus}
                 />
               ) : (
                 <div className="flex-1 flex items-center justify-center bg-white rounded-t-[17px]">
@@ -569,6 +668,8 @@ function AppContent() {
                 <WorldBuildingPage 
                   onBack={handleBackToPlanning} 
                   projectId={currentProject.id}
+                  focusElementId={searchFocusId('world_element')}
+                  onFocusHandled={clearSearchFocus}
                 />
               ) : (
                 <div className="flex-1 flex items-center justify-center bg-white rounded-t-[17px]">
@@ -610,6 +711,13 @@ function AppContent() {
           </ErrorBoundary>
         );
       
+      case 'ai-settings':
+        return (
+          <ErrorBoundary>
+            <AISettingsPage onBack={handleBackToSettings} />
+          </ErrorBoundary>
+        );
+
       case 'history':
         return (
           <ErrorBoundary>
@@ -734,6 +842,12 @@ function AppContent() {
           >
             Integrations
           </button>
+          <button
+            onClick={() => setActiveView('ai-settings')}
+            className="block w-full max-w-xs mx-auto px-4 py-2 bg-[#eae4d3] hover:bg-[#eae4d3] rounded-lg transition-colors font-medium"
+          >
+            AI Models
+          </button>
           <button
             onClick={handleSignOut}
             className="block w-full max-w-xs mx-auto px-4 py-2 bg-red-100 hover:bg-red-200 text-red-700 rounded-lg transition-colors font-medium"
@@ -829,7 +943,12 @@ case 'help':
     editorLoading,
     currentChapter,
     handleNavigateToWriteFromProject,
-    currentProject
+    handleOpenTaskLink,
+    currentProject,
+    searchFocusId,
+    editorFocus,
+    clearSearchFocus,
+    clearEditorFocus
   ]);
 
   // Check authentication state on mount
@@ -938,22 +1057,30 @@ case 'help':
               
               {/* Center - Enhanced search bar */}
               <div className="flex-1 flex justify-center mx-8">
-                <div className={`bg-[#FAF9F9] rounded-[20px] h-[29px] flex items-center px-3 gap-2 transition-all duration-200 ${
-                  (activeView === 'write' || activeView === 'editor') 
-                    ? 'w-[240px]'
-                    : 'w-[171px]'
-                }`}>
+                <button
+                  onClick={() => setShowCommandPalette(true)}
+                  title="Search project (Ctrl+K)"
+                  className={`bg-[#FAF9F9] rounded-[20px] h-[29px] flex items-center px-3 gap-2 transition-all duration-200 hover:bg-white ${
+                    (activeView === 'write' || activeView === 'editor') 
+                      ? 'w-[240px]'
+                      : 'w-[171px]'
+                  }`}
+                >
                   <Search className="w-[17px] h-[17px] text-[#889096] flex-shrink-0" />
-                  <input 
-                    type="text" 
-                    placeholder={
-                      (activeView === 'write' || activeView === 'editor') 
-                        ? "Search chapters, notes..." 
-                        : "Search..."
-                    }
-                    className="bg-transparent text-sm text-gray-600 outline-none flex-1 font-inter"
-                  />
-                </div>
+                  <span className="text-sm text-[#889096] flex-1 text-left font-inter truncate">
+                    {(activeView === 'write' || activeView === 'editor') 
+                      ? "Search chapters, notes..." 
+                      : "Search..."}
+                  </span>
+                  <kbd className="text-[10px] text-[#889096] font-inter">Ctrl K</kbd>
+                </button>
+                <button
+                  onClick={() => setShowFindReplace(true)}
+                  title="Find and replace across chapters"
+                  className="ml-2 w-[29px] h-[29px] rounded-full bg-[#FAF9F9] flex items-center justify-center hover:bg-white transition-colors"
+                >
+                  <Replace className="w-[15px] h-[15px] text-[#889096]" />
+                </button>
               </div>
               
               {/* Right side - Empty space for balance */}
@@ -965,6 +1092,20 @@ case 'help':
         {renderContent()}
       </div>
 
+      <CommandPalette
+        isOpen={showCommandPalette}
+        projectId={currentProject?.id || null}
+        onClose={() => setShowCommandPalette(false)}
+        onSelect={handleSearchSelect}
+      />
+
+      <FindReplaceModal
+        isOpen={showFindReplace}
+        projectId={currentProject?.id || null}
+        onClose={() => setShowFindReplace(false)}
+        onApplied={handleReplaceApplied}
+      />
+
       {/* Welcome Modal */}
       {showWelcomeModal && (
         <WelcomeModal
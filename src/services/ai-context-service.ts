@@ -0,0 +1,231 @@
+// src/services/ai-context-service.ts
+import { characterService, Character } from './character-service';
+import { relationshipService } from './relationship-service';
+import { worldBuildingService, WorldElement } from './world-building-service';
+import { themeService, Theme } from './theme-service';
+import { plotService } from './plot-service';
+import { chapterService, Chapter } from './chapterService';
+import type { AITask } from './ai-providers';
+import type { PlotThread } from '../types/plot';
+import { CharacterRelationship, relationshipType } from '../utils/relationshipGraph';
+import {
+  ContextItem,
+  ContextKind,
+  ContextTarget,
+  PackedContext,
+  packContext,
+  rankContextItems
+} from '../utils/aiContext';
+
+// The AI tasks, plus imported content analysis (the analyze-content edge
+// function), which takes the context text in its request
+export type ContextTask = AITask | 'content-analysis';
+
+// Tokens of story context each task may send, on top of its own prompt
+export const CONTEXT_BUDGETS: Record<ContextTask, number> = {
+  'character-analysis': 1200,
+  'character-suggestions': 1500,
+  'story-structure': 2000,
+  'story-coherence': 4000,
+  'relationship-suggestions': 2500,
+  'character-arcs': 2000,
+  'story-template': 800,
+  'content-analysis': 1500
+};
+
+// What each task most needs to know about, as a ranking bonus by kind
+const TASK_FOCUS: Record<ContextTask, Partial<Record<ContextKind, number>>> = {
+  'character-analysis': { character: 20, relationship: 15, world: 5 },
+  'character-suggestions': { character: 25, theme: 15, world: 10 },
+  'story-structure': { plot: 25, chapter: 20, theme: 10 },
+  'story-coherence': { plot: 20, chapter: 20, character: 15, relationship: 10 },
+  'relationship-suggestions': { relationship: 25, character: 20, plot: 10 },
+  'character-arcs': { character: 15, relationship: 15, plot: 15, chapter: 10 },
+  'story-template': { theme: 20, world: 15 },
+  'content-analysis': { character: 15, world: 10, chapter: 10 }
+};
+
+const ROLE_WEIGHTS: Record<Character['role'], number> = {
+  protagonist: 15,
+  antagonist: 12,
+  supporting: 6,
+  minor: 2
+};
+
+const THEME_WEIGHTS: Record<Theme['theme_type'], number> = {
+  major: 10,
+  minor: 5,
+  motif: 3
+};
+
+const PLOT_WEIGHTS: Record<PlotThread['type'], number> = {
+  main: 12,
+  subplot: 6,
+  character_arc: 6,
+  side_story: 3
+};
+
+// A project's bible is loaded once for a burst of requests, e.g. one per
+// character when tracing arcs
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Assembles the story context sent with AI requests: the project's
+ * characters, relationships, plot threads, themes, world and chapter
+ * summaries, ranked for the request and cut to the task's token budget.
+ */
+class AIContextService {
+  private cache = new Map<string, { loadedAt: number; items: ContextItem[] }>();
+
+  async build(projectId: string, task: ContextTask, target: ContextTarget = {}): Promise<PackedContext> {
+    const items = await this.getItems(projectId);
+    const ranked = rankContextItems(items, target, TASK_FOCUS[task]);
+    return packContext(ranked, CONTEXT_BUDGETS[task], target.label || null);
+  }
+
+  // Drops the cached bible, e.g. after the project's planning data changes
+  invalidate(projectId?: string): void {
+    if (projectId) this.cache.delete(projectId);
+    else this.cache.clear();
+  }
+
+  private async getItems(projectId: string): Promise<ContextItem[]> {
+    const cached = this.cache.get(projectId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.items;
+
+    // Whatever can't be loaded is left out rather than failing the request
+    const [characters, relationships, plotThreads, themes, worldElements, chapters] = await Promise.all([
+      this.load(() => characterService.getCharacters(projectId), 'characters'),
+      this.load(() => relationshipService.getRelationships(projectId), 'relationships'),
+      this.load(() => plotService.getPlotThreads(projectId), 'plot threads'),
+      this.load(() => themeService.getThemes(projectId), 'themes'),
+      this.load(() => worldBuildingService.getWorldElements(projectId), 'world elements'),
+      this.load(() => chapterService.getProjectChapters(projectId), 'chapters')
+    ]);
+
+    const names = new Map(characters.map(character => [character.id, character.name]));
+    const items = [
+      ...characters.map(characterItem),
+      ...relationships.map(relationship => relationshipItem(relationship, names)),
+      ...plotThreads.map(thread => plotItem(thread, names)),
+      ...themes.map(themeItem),
+      ...worldElements.map(worldItem),
+      ...chapters.filter(chapter => chapter.summary?.trim()).map(chapterItem)
+    ];
+
+    this.cache.set(projectId, { loadedAt: Date.now(), items });
+    return items;
+  }
+
+  private async load<T>(fetch: () => Promise<T[]>, what: string): Promise<T[]> {
+    try {
+      return await fetch();
+    } catch (error) {
+      console.error(`Error loading ${what} for AI context:`, error);
+      return [];
+    }
+  }
+}
+
+function characterItem(character: Character): ContextItem {
+  const details = [character.role, character.occupation, character.age ? `age ${character.age}` : null]
+    .filter(Boolean)
+    .join(', ');
+  const parts = [
+    `${character.name} (${details}): ${character.description || 'no description'}`,
+    character.background ? `Background: ${character.background}` : '',
+    character.traits?.length ? `Traits: ${character.traits.join(', ')}` : ''
+  ];
+
+  return {
+    id: character.id,
+    kind: 'character',
+    label: character.name,
+    text: parts.filter(Boolean).join(' '),
+    links: [],
+    names: characterNames(character.name),
+    weight: ROLE_WEIGHTS[character.role] ?? 0
+  };
+}
+
+// The full name, and the first name on its own as prose mostly uses it
+function characterNames(name: string): string[] {
+  const [first, ...rest] = name.trim().split(/\s+/);
+  return rest.length > 0 && !['the', 'a', 'an'].includes(first.toLowerCase()) ? [name, first] : [name];
+}
+
+function relationshipItem(relationship: CharacterRelationship, names: Map<string, string>): ContextItem {
+  const from = names.get(relationship.fromId) || 'Unknown';
+  const to = names.get(relationship.toId) || 'Unknown';
+  const description = relationship.description ? `: ${relationship.description}` : '';
+
+  return {
+    id: relationship.id,
+    kind: 'relationship',
+    label: `${from} & ${to}`,
+    text: `${from} ${relationshipType(relationship.type).verb} ${to} (strength ${relationship.strength}/10)${description}`,
+    links: [relationship.fromId, relationship.toId],
+    names: [],
+    weight: relationship.strength / 2
+  };
+}
+
+function plotItem(thread: PlotThread, names: Map<string, string>): ContextItem {
+  const cast = (thread.connected_character_ids || []).map(id => names.get(id)).filter(Boolean);
+
+  return {
+    id: thread.id,
+    kind: 'plot',
+    label: thread.title,
+    text: [
+      `${thread.title} (${thread.type.replace('_', ' ')}, ${thread.completion_percentage}% complete): ${thread.description || 'no description'}`,
+      cast.length > 0 ? `Characters: ${cast.join(', ')}` : ''
+    ].filter(Boolean).join(' '),
+    links: [...(thread.connected_character_ids || []), ...(thread.connected_thread_ids || [])],
+    names: [thread.title],
+    weight: PLOT_WEIGHTS[thread.type] ?? 0
+  };
+}
+
+function themeItem(theme: Theme): ContextItem {
+  return {
+    id: theme.id,
+    kind: 'theme',
+    label: theme.title,
+    text: `${theme.title} (${theme.theme_type}): ${theme.description || 'no description'}`,
+    links: [
+      ...(theme.character_connections || []).map(connection => connection.characterId),
+      ...(theme.plot_connections || []).map(connection => connection.plotThreadId),
+      ...(theme.location_connections || []).map(connection => connection.locationId)
+    ],
+    names: [theme.title],
+    weight: THEME_WEIGHTS[theme.theme_type] ?? 0
+  };
+}
+
+function worldItem(element: WorldElement): ContextItem {
+  return {
+    id: element.id,
+    kind: 'world',
+    label: element.title,
+    text: `${element.title} (${element.category}): ${element.description || 'no description'}`,
+    links: [],
+    names: [element.title],
+    weight: element.category === 'location' ? 4 : 2
+  };
+}
+
+function chapterItem(chapter: Chapter): ContextItem {
+  return {
+    id: chapter.id,
+    kind: 'chapter',
+    label: chapter.title,
+    text: `${chapter.title}: ${chapter.summary}`,
+    links: [],
+    names: [chapter.title],
+    weight: 3,
+    order: chapter.orderIndex
+  };
+}
+
+export const aiContextService = new AIContextService();
@@ -0,0 +1,84 @@
+// src/services/ai-credit-service.ts
+import { supabase, logSupabaseError } from '../lib/supabase';
+import { AI_TASKS } from './ai-settings-service';
+import type { AIUsageBreakdown, AIUsageRecord, AIUsageStatus } from '../types/ai-analysis';
+
+// Display names for ai_usage.analysis_type: the AI tasks plus the imported
+// content analysis, which has its own edge function
+const OPERATION_LABELS: Record<string, string> = {
+  ...Object.fromEntries(AI_TASKS.map(({ task, label }) => [task, label])),
+  'content-analysis': 'Imported content analysis'
+};
+
+export function operationLabel(operation: string): string {
+  return OPERATION_LABELS[operation] || operation;
+}
+
+/**
+ * Read-only view of the AI credit ledger. Credits are only ever charged by
+ * the edge functions that make AI requests, so nothing here can spend them.
+ */
+class AICreditService {
+  // Credits left, the plan's allowance and the request limits
+  async getStatus(): Promise<AIUsageStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_ai_usage_status');
+
+      if (error) {
+        logSupabaseError(error, 'AICreditService.getStatus');
+        throw error;
+      }
+
+      return data as AIUsageStatus;
+    } catch (error) {
+      console.error('Error fetching AI usage status:', error);
+      return null;
+    }
+  }
+
+  // Settled usage since a date, totalled by operation, largest first
+  async getBreakdown(since: Date): Promise<AIUsageBreakdown[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_ai_usage_breakdown', { p_since: since.toISOString() });
+
+      if (error) {
+        logSupabaseError(error, 'AICreditService.getBreakdown');
+        throw error;
+      }
+
+      // bigint totals arrive as strings
+      return (data || []).map((row: Record<string, string | number>) => ({
+        operation: String(row.operation),
+        requests: Number(row.requests),
+        input_tokens: Number(row.input_tokens),
+        output_tokens: Number(row.output_tokens),
+        credits: Number(row.credits)
+      }));
+    } catch (error) {
+      console.error('Error fetching AI usage breakdown:', error);
+      return [];
+    }
+  }
+
+  async getHistory(limit = 50): Promise<AIUsageRecord[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ai_usage')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        logSupabaseError(error, 'AICreditService.getHistory');
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching AI usage history:', error);
+      return [];
+    }
+  }
+}
+
+export const aiCreditService = new AICreditService();
@@ -0,0 +1,281 @@
+// src/services/ai-providers.ts
+import { supabase } from '../lib/supabase';
+import { readEventStream } from '../utils/sse';
+
+export type AIProviderId = 'anthropic' | 'openai-compatible' | 'mock';
+
+// Every kind of request the app makes, so each can use its own model
+export type AITask =
+  | 'character-analysis'
+  | 'character-suggestions'
+  | 'story-structure'
+  | 'story-coherence'
+  | 'relationship-suggestions'
+  | 'character-arcs'
+  | 'story-template';
+
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  task: AITask;
+  model: string;
+  system?: string;
+  messages: AIMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface AICompletion {
+  text: string;
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface AIStreamOptions {
+  // Aborting cancels the request; the promise rejects with an AbortError
+  signal?: AbortSignal;
+  // Called with each piece of text as it arrives, when given
+  onText?: (text: string) => void;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  complete(request: AICompletionRequest, options?: AIStreamOptions): Promise<AICompletion>;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+const abortError = () => new DOMException('The AI request was cancelled', 'AbortError');
+
+export const AI_PROVIDERS: { id: AIProviderId; label: string; description: string }[] = [
+  { id: 'anthropic', label: 'Anthropic', description: 'Claude models, called through the server so no key reaches the browser' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any server with the OpenAI chat API, such as Ollama or llama.cpp running locally' },
+  { id: 'mock', label: 'Offline (mock)', description: 'Fixed sample answers for development and tests' }
+];
+
+// Non-2xx replies arrive as a generic error; the function's own message,
+// such as a credit or rate limit, is in the response body
+export async function edgeFunctionError(error: { message?: string; context?: unknown }): Promise<string> {
+  if (error.context instanceof Response) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // not JSON; fall back to the generic message
+    }
+  }
+  return error.message || 'AI service unavailable';
+}
+
+/**
+ * Anthropic through the ai-complete edge function. The API key stays on the
+ * server; the browser sends the signed-in user's session instead.
+ */
+class EdgeFunctionProvider implements AIProvider {
+  id: AIProviderId = 'anthropic';
+
+  async complete(request: AICompletionRequest, options: AIStreamOptions = {}): Promise<AICompletion> {
+    // functions.invoke can't stream or be cancelled
+    if (options.onText || options.signal) return this.stream(request, options);
+
+    const { data, error } = await supabase.functions.invoke('ai-complete', {
+      body: { provider: this.id, ...request }
+    });
+
+    if (error) throw new Error(await edgeFunctionError(error));
+    if (!data?.success) throw new Error(data?.error || 'AI request failed');
+
+    return { text: data.text || '', model: data.model || request.model, usage: data.usage };
+  }
+
+  /**
+   * The same request with stream: true, read as server-sent events. If it's
+   * cancelled the function stops the model and charges only what was used.
+   */
+  private async stream(request: AICompletionRequest, { signal, onText }: AIStreamOptions): Promise<AICompletion> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-complete`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+        Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`
+      },
+      body: JSON.stringify({ provider: this.id, ...request, stream: true }),
+      signal
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `AI service returned ${response.status}`);
+    }
+
+    let text = '';
+    let completion: AICompletion | null = null;
+    let failure: string | null = null;
+
+    await readEventStream(response, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      if (event === 'delta') {
+        text += payload.text;
+        onText?.(payload.text);
+      } else if (event === 'done') {
+        completion = { text, model: payload.model || request.model, usage: payload.usage };
+      } else if (event === 'error') {
+        failure = payload.error || 'AI request failed';
+      }
+    });
+
+    if (failure) throw new Error(failure);
+    return completion || { text, model: request.model };
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API. Meant for models
+ * the writer runs themselves (Ollama serves one at http://localhost:11434/v1),
+ * so no API key is sent.
+ */
+class OpenAICompatibleProvider implements AIProvider {
+  id: AIProviderId = 'openai-compatible';
+
+  constructor(private baseUrl: string) {}
+
+  async complete(request: AICompletionRequest, { signal, onText }: AIStreamOptions = {}): Promise<AICompletion> {
+    if (!this.baseUrl) throw new Error('No OpenAI-compatible server is set in AI settings');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          ...request.messages
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: !!onText
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI server returned ${response.status} ${response.statusText}`.trim());
+    }
+
+    if (onText) {
+      let text = '';
+      let model = request.model;
+      await readEventStream(response, ({ data }) => {
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        model = chunk.model || model;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      });
+      return { text, model };
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || request.model,
+      usage: data.usage
+        ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        : undefined
+    };
+  }
+}
+
+// Fixed answers in the shape each task asks for
+export const MOCK_RESPONSES: Record<AITask, unknown> = {
+  'character-analysis': {
+    characterName: null,
+    role: 'supporting',
+    fantasyClass: null,
+    relationships: [],
+    confidence: 0.5
+  },
+  'character-suggestions': [
+    'A mentor who has already failed at what the protagonist is attempting',
+    'A rival who wants the same thing for a better reason',
+    'Someone from the protagonist\'s past who knows their secret'
+  ],
+  'story-structure': [
+    'Raise the stakes at the midpoint so the second half has a new goal',
+    'Plant the climax\'s key object or skill in the first act',
+    'Give the subplot a turning point that mirrors the main plot'
+  ],
+  'story-coherence': {
+    overallScore: 75,
+    issues: [],
+    suggestions: ['Sample analysis from the offline AI provider'],
+    plotHoles: []
+  },
+  'relationship-suggestions': [],
+  'character-arcs': {
+    characterId: '',
+    stages: [],
+    development: [],
+    conflicts: [],
+    growth: 5
+  },
+  'story-template': {
+    name: 'Sample Template',
+    description: 'A minimal template from the offline AI provider',
+    nodes: [
+      { id: 'hero', type: 'character', position: { x: 0, y: 0 }, data: { name: 'Hero', role: 'protagonist', description: '' } },
+      { id: 'inciting', type: 'plot', position: { x: 320, y: 0 }, data: { title: 'Inciting Incident', type: 'event', description: '' } }
+    ],
+    edges: [
+      { id: 'hero-inciting', source: 'hero', target: 'inciting', label: 'drives', type: 'smoothstep' }
+    ]
+  }
+};
+
+const MOCK_CHUNK_SIZE = 24;
+const MOCK_CHUNK_DELAY_MS = 30;
+
+// Same request, same answer: nothing is sent anywhere. Streaming trickles the
+// answer out in small pieces so progress and cancelling can be tried offline.
+class MockProvider implements AIProvider {
+  id: AIProviderId = 'mock';
+
+  async complete(request: AICompletionRequest, { signal, onText }: AIStreamOptions = {}): Promise<AICompletion> {
+    const text = JSON.stringify(MOCK_RESPONSES[request.task], null, 2);
+    if (signal?.aborted) throw abortError();
+
+    if (onText) {
+      for (let index = 0; index < text.length; index += MOCK_CHUNK_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+        if (signal?.aborted) throw abortError();
+        onText(text.slice(index, index + MOCK_CHUNK_SIZE));
+      }
+    }
+
+    return { text, model: 'mock', usage: { inputTokens: 0, outputTokens: 0 } };
+  }
+}
+
+export function createAIProvider(id: AIProviderId, options: { openAICompatibleUrl?: string } = {}): AIProvider {
+  switch (id) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(options.openAICompatibleUrl || '');
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new EdgeFunctionProvider();
+  }
+}
@@ -0,0 +1,92 @@
+// src/services/ai-settings-service.ts
+import type { AIProviderId, AITask } from './ai-providers';
+
+const SETTINGS_KEY = 'aiSettings';
+
+export interface AITaskModel {
+  provider: AIProviderId;
+  model: string;
+}
+
+export interface AISettings {
+  // Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  openAICompatibleUrl: string;
+  tasks: Record<AITask, AITaskModel>;
+}
+
+export const AI_TASKS: { task: AITask; label: string; description: string }[] = [
+  { task: 'character-analysis', label: 'Character tagging', description: 'Reads imported text for names, roles and classes' },
+  { task: 'character-suggestions', label: 'Character ideas', description: 'Suggests characters the cast is missing' },
+  { task: 'story-structure', label: 'Structure tips', description: 'Quick suggestions on the plot outline' },
+  { task: 'story-coherence', label: 'Coherence check', description: 'Looks for plot holes and contradictions' },
+  { task: 'relationship-suggestions', label: 'Relationship ideas', description: 'Proposes new links between canvas elements' },
+  { task: 'character-arcs', label: 'Character arcs', description: 'Traces how each character changes' },
+  { task: 'story-template', label: 'Story templates', description: 'Builds a starting canvas for a genre' }
+];
+
+export const SUGGESTED_MODELS: Record<AIProviderId, string[]> = {
+  anthropic: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+  'openai-compatible': ['llama3.1', 'mistral', 'qwen2.5'],
+  mock: ['mock']
+};
+
+const FAST: AITaskModel = { provider: 'anthropic', model: 'claude-3-5-haiku-latest' };
+const THOROUGH: AITaskModel = { provider: 'anthropic', model: 'claude-3-5-sonnet-latest' };
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  openAICompatibleUrl: 'http://localhost:11434/v1',
+  tasks: {
+    'character-analysis': FAST,
+    'character-suggestions': FAST,
+    'story-structure': FAST,
+    'story-coherence': THOROUGH,
+    'relationship-suggestions': FAST,
+    'character-arcs': THOROUGH,
+    'story-template': THOROUGH
+  }
+};
+
+// Which provider and model each AI task uses. Nothing secret is kept here:
+// Anthropic's key lives with the edge function, and OpenAI-compatible
+// servers are expected to be the writer's own.
+class AISettingsService {
+  getSettings(): AISettings {
+    try {
+      const stored = window.localStorage.getItem(SETTINGS_KEY);
+      if (!stored) return DEFAULT_AI_SETTINGS;
+      const parsed = JSON.parse(stored) as Partial<AISettings>;
+      return {
+        openAICompatibleUrl: parsed.openAICompatibleUrl ?? DEFAULT_AI_SETTINGS.openAICompatibleUrl,
+        tasks: { ...DEFAULT_AI_SETTINGS.tasks, ...parsed.tasks }
+      };
+    } catch (error) {
+      console.warn('Error reading AI settings:', error);
+      return DEFAULT_AI_SETTINGS;
+    }
+  }
+
+  saveSettings(settings: AISettings): AISettings {
+    try {
+      window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Error saving AI settings:', error);
+    }
+    return settings;
+  }
+
+  resetSettings(): AISettings {
+    window.localStorage.removeItem(SETTINGS_KEY);
+    return DEFAULT_AI_SETTINGS;
+  }
+
+  /**
+   * The provider and model for a task. VITE_AI_PROVIDER=mock sends every
+   * task to the offline provider, for development without a network.
+   */
+  modelFor(task: AITask): AITaskModel {
+    if (import.meta.env.VITE_AI_PROVIDER === 'mock') return { provider: 'mock', model: 'mock' };
+    return this.getSettings().tasks[task];
+  }
+}
+
+export const aiSettingsService = new AISettingsService();
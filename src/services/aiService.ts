@@ -1,7 +1,56 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { supabase } from '../lib/supabase';
+import { createAIProvider, edgeFunctionError, isAbortError, AIMessage, AIStreamOptions, AITask } from './ai-providers';
+import { aiSettingsService } from './ai-settings-service';
+import { aiContextService } from './ai-context-service';
+import type { ContextTarget, PackedContext } from '../utils/aiContext';
+import type { AnalysisRequest, AnalysisResponse } from '../types/ai-analysis';
+import {
+  Schema,
+  SchemaIssue,
+  Validation,
+  array,
+  extractJSON,
+  extractPartialJSON,
+  formatIssues,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  validate
+} from '../utils/aiSchema';
+
+// How many times a request is sent, counting re-asks after a bad reply
+const MAX_ATTEMPTS = 3;
+
+/**
+ * What an AI request produced. `partial` means the reply was usable but
+ * some of it was dropped, e.g. two of five suggestions were malformed;
+ * `failed` means there is nothing to show, and the UI should say so.
+ */
+export type AIResult<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'partial'; data: T; issues: SchemaIssue[] }
+  | { status: 'failed'; error: string; issues: SchemaIssue[] }
+  | { status: 'cancelled' };
+
+export interface AIRequestOptions<T> {
+  // Aborting stops the request; the result is then 'cancelled'
+  signal?: AbortSignal;
+  // Streams the reply, calling this with as much of it as validates so far
+  onPartial?: (data: T) => void;
+  // Sends the project's story bible along with the prompt
+  projectId?: string;
+  // Called with the story context as sent, once per request made
+  onContext?: (context: PackedContext) => void;
+}
+
+export interface AIBatchOptions<T> extends AIRequestOptions<T> {
+  onProgress?: (progress: { completed: number; total: number }) => void;
+}
 
-// Keep existing interfaces
-interface AITaggingResult {
+export interface AITaggingResult {
   characterName?: string;
   role?: 'protagonist' | 'antagonist' | 'supporting' | 'minor';
   fantasyClass?: string;
@@ -64,27 +113,128 @@ export interface DevelopmentMetric {
   evidence: string[];
 }
 
-class AIService {
-  private anthropic: Anthropic;
+export interface StoryTemplate {
+  name: string;
+  description: string;
+  nodes: TemplateNode[];
+  edges: TemplateEdge[];
+}
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY,
-      dangerouslyAllowBrowser: true
-    });
-  }
+export interface TemplateNode {
+  id: string;
+  type: 'character' | 'plot' | 'location' | 'theme' | 'conflict';
+  position: { x: number; y: number };
+  data: Record<string, unknown>;
+}
 
-  // Keep existing methods
-  async analyzeCharacterContent(content: string): Promise<AITaggingResult> {
-    try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 200,
-        temperature: 0.3,
-        messages: [
-          {
-            role: "user",
-            content: `You are an expert at analyzing character descriptions for fantasy/RPG stories. 
+export interface TemplateEdge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  type: string;
+}
+
+const severity = oneOf(['critical', 'moderate', 'minor'] as const);
+
+const taggingSchema = object<AITaggingResult>({
+  characterName: optional(string()),
+  role: optional(oneOf(['protagonist', 'antagonist', 'supporting', 'minor'] as const)),
+  fantasyClass: optional(string()),
+  relationships: optional(array(string())),
+  confidence: number({ min: 0, max: 1 })
+});
+
+const suggestionsSchema = array(string(), { dropInvalid: true });
+
+const coherenceSchema = object<StoryCoherenceResult>({
+  overallScore: number({ min: 0, max: 100 }),
+  issues: array(object<CoherenceIssue>({
+    type: oneOf(['character_inconsistency', 'plot_contradiction', 'timeline_error', 'motivation_gap'] as const),
+    severity,
+    description: string(),
+    affectedNodes: optional(array(string()), []),
+    suggestedFix: string()
+  }), { dropInvalid: true }),
+  suggestions: optional(suggestionsSchema, []),
+  plotHoles: optional(array(object<PlotHole>({
+    id: string(),
+    description: string(),
+    location: string(),
+    severity,
+    suggestedResolution: string(),
+    affectedCharacters: optional(array(string()), [])
+  }), { dropInvalid: true }), [])
+});
+
+// Suggestions may only connect nodes that exist
+const relationshipSuggestionsSchema = (nodeIds: string[]) => {
+  const nodeId = oneOf(nodeIds);
+  return array(object<RelationshipSuggestion>({
+    fromNodeId: nodeId,
+    toNodeId: nodeId,
+    relationshipType: string(),
+    strength: number({ min: 1, max: 10 }),
+    reasoning: string(),
+    confidence: number({ min: 0, max: 1 })
+  }), { dropInvalid: true });
+};
+
+const characterArcSchema = object<CharacterArc>({
+  characterId: optional(string(), ''),
+  stages: array(object<ArcStage>({
+    plotPointId: string(),
+    stage: oneOf(['introduction', 'development', 'crisis', 'resolution'] as const),
+    characterState: string(),
+    growth: number({ min: 0, max: 10 })
+  }), { dropInvalid: true }),
+  development: optional(array(object<DevelopmentMetric>({
+    aspect: oneOf(['personality', 'relationships', 'skills', 'worldview'] as const),
+    change: number({ min: -10, max: 10 }),
+    evidence: optional(array(string()), [])
+  }), { dropInvalid: true }), []),
+  conflicts: optional(array(string()), []),
+  growth: number({ min: 0, max: 10 })
+});
+
+const storyTemplateSchema = object<StoryTemplate>({
+  name: string(),
+  description: optional(string(), ''),
+  nodes: array(object<TemplateNode>({
+    id: string(),
+    type: oneOf(['character', 'plot', 'location', 'theme', 'conflict'] as const),
+    position: object({ x: number(), y: number() }),
+    data: record()
+  }), { dropInvalid: true }),
+  edges: optional(array(object<TemplateEdge>({
+    id: string(),
+    source: string(),
+    target: string(),
+    label: optional(string()),
+    type: optional(string(), 'smoothstep')
+  }), { dropInvalid: true }), [])
+});
+
+interface CompletionOptions {
+  maxTokens: number;
+  temperature: number;
+  system?: string;
+}
+
+// Canvas nodes linked to planning data stand for those entities
+function nodeTarget(nodes: any[], label?: string): ContextTarget {
+  return {
+    label,
+    ids: nodes.map(n => n.data?.planningId || n.id),
+    text: nodes.map(n => [n.data?.name || n.data?.title, n.data?.description].filter(Boolean).join(': ')).join('\n')
+  };
+}
+
+// Story analysis prompts. Each request goes to the provider and model chosen
+// for its task in AI settings.
+class AIService {
+  async analyzeCharacterContent(content: string, request: AIRequestOptions<AITaggingResult> = {}): Promise<AIResult<AITaggingResult>> {
+    return this.completeWithSchema('character-analysis', `You are an expert at analyzing character descriptions for fantasy/RPG stories. 
             Extract character information and classify roles and fantasy classes.
             
             Fantasy Classes: Battle Mage, Demon, Assassin, Monster, Mage, Archer, Martial Artist, Swordsman, Tracker, Demi God
@@ -97,94 +247,34 @@ class AIService {
               "confidence": 0-1
             }
             
-            CONTENT: ${content}`
-          }
-        ]
-      });
-
-      const result = JSON.parse(response.content[0].text || '{}');
-      return result;
-    } catch (error) {
-      console.error('AI analysis failed:', error);
-      return { confidence: 0 };
-    }
+            CONTENT: ${content}`, taggingSchema, { maxTokens: 200, temperature: 0.3 }, request, { text: content });
   }
 
-  async generateCharacterSuggestions(existingCharacters: any[]): Promise<string[]> {
-    try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 300,
-        temperature: 0.7,
-        messages: [
-          {
-            role: "user",
-            content: `Based on these existing characters: ${JSON.stringify(existingCharacters.map(c => ({ name: c.name, role: c.role })))}, 
-            suggest 3 character types that would enhance the story. Return as a JSON array of strings.`
-          }
-        ]
-      });
-
-      const suggestions = JSON.parse(response.content[0].text || '[]');
-      return Array.isArray(suggestions) ? suggestions : [
-        "Consider adding a mentor figure to guide the protagonist",
-        "A rival character could create interesting tension",
-        "Think about the protagonist's family relationships"
-      ];
-    } catch (error) {
-      console.error('Character suggestions failed:', error);
-      return [
-        "Consider adding a mentor figure to guide the protagonist",
-        "A rival character could create interesting tension",
-        "Think about the protagonist's family relationships"
-      ];
-    }
+  async generateCharacterSuggestions(existingCharacters: any[], request: AIRequestOptions<string[]> = {}): Promise<AIResult<string[]>> {
+    return this.completeWithSchema('character-suggestions', `Based on these existing characters: ${JSON.stringify(existingCharacters.map(c => ({ name: c.name, role: c.role })))}, 
+            suggest 3 character types that would enhance the story. Return as a JSON array of strings.`, suggestionsSchema, { maxTokens: 300, temperature: 0.7 }, request, {
+      ids: existingCharacters.map(c => c.id),
+      text: existingCharacters.map(c => c.name).join('\n')
+    });
   }
 
-  async analyzeStoryStructure(plotNodes: any[]): Promise<string[]> {
-    try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 400,
-        temperature: 0.5,
-        messages: [
-          {
-            role: "user",
-            content: `Analyze this story structure: ${JSON.stringify(plotNodes.map(p => ({ title: p.title, type: p.type })))}.
-            Provide 3 suggestions for improving the plot structure. Return as JSON array of strings.`
-          }
-        ]
-      });
-
-      const suggestions = JSON.parse(response.content[0].text || '[]');
-      return Array.isArray(suggestions) ? suggestions : [
-        "Consider adding more conflict in the middle section",
-        "The resolution could benefit from additional setup",
-        "Add a subplot to enrich the main narrative"
-      ];
-    } catch (error) {
-      console.error('Story structure analysis failed:', error);
-      return [
-        "Consider adding more conflict in the middle section",
-        "The resolution could benefit from additional setup",
-        "Add a subplot to enrich the main narrative"
-      ];
-    }
+  async analyzeStoryStructure(plotNodes: any[], request: AIRequestOptions<string[]> = {}): Promise<AIResult<string[]>> {
+    return this.completeWithSchema('story-structure', `Analyze this story structure: ${JSON.stringify(plotNodes.map(p => ({ title: p.title, type: p.type })))}.
+            Provide 3 suggestions for improving the plot structure. Return as JSON array of strings.`, suggestionsSchema, { maxTokens: 400, temperature: 0.5 }, request, {
+      ids: plotNodes.map(p => p.id),
+      text: plotNodes.map(p => p.title).join('\n')
+    });
   }
 
   // NEW ENHANCED METHODS
-  async analyzeStoryCoherence(nodes: any[], edges: any[]): Promise<StoryCoherenceResult> {
-    try {
-      const storyContext = this.buildStoryContext(nodes, edges);
-      
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-sonnet-20240229",
-        max_tokens: 2000,
-        temperature: 0.3,
-        messages: [
-          {
-            role: "user",
-            content: `You are an expert story analyst. Analyze this story structure for coherence, plot holes, and character consistency.
+  async analyzeStoryCoherence(
+    nodes: any[],
+    edges: any[],
+    request: AIRequestOptions<StoryCoherenceResult> = {}
+  ): Promise<AIResult<StoryCoherenceResult>> {
+    const storyContext = this.buildStoryContext(nodes, edges);
+
+    return this.completeWithSchema('story-coherence', `You are an expert story analyst. Analyze this story structure for coherence, plot holes, and character consistency.
 
 STORY STRUCTURE:
 ${storyContext}
@@ -212,37 +302,19 @@ Provide analysis in this JSON format:
       "affectedCharacters": ["character names"]
     }
   ]
-}`
-          }
-        ]
-      });
-
-      return JSON.parse(response.content[0].text || '{}');
-    } catch (error) {
-      console.error('Story coherence analysis failed:', error);
-      return {
-        overallScore: 50,
-        issues: [],
-        suggestions: ['Unable to analyze story coherence at this time'],
-        plotHoles: []
-      };
-    }
+}`, coherenceSchema, { maxTokens: 2000, temperature: 0.3 }, request, nodeTarget(nodes));
   }
 
-  async generateRelationshipSuggestions(nodes: any[], edges: any[]): Promise<RelationshipSuggestion[]> {
-    try {
-      const characters = nodes.filter(n => n.type === 'character');
-      const plotPoints = nodes.filter(n => n.type === 'plot');
-      const existingRelationships = edges.map(e => `${e.source}-${e.target}`);
-
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 1500,
-        temperature: 0.7,
-        messages: [
-          {
-            role: "user",
-            content: `Analyze these story elements and suggest meaningful relationships:
+  async generateRelationshipSuggestions(
+    nodes: any[],
+    edges: any[],
+    request: AIRequestOptions<RelationshipSuggestion[]> = {}
+  ): Promise<AIResult<RelationshipSuggestion[]>> {
+    const characters = nodes.filter(n => n.type === 'character');
+    const plotPoints = nodes.filter(n => n.type === 'plot');
+    const existingRelationships = edges.map(e => `${e.source}-${e.target}`);
+
+    return this.completeWithSchema('relationship-suggestions', `Analyze these story elements and suggest meaningful relationships:
 
 CHARACTERS: ${JSON.stringify(characters.map(c => ({ id: c.id, name: c.data.name, role: c.data.role, description: c.data.description })))}
 
@@ -260,38 +332,33 @@ Suggest 3-5 new meaningful relationships. Return as JSON:
     "reasoning": "why this relationship makes sense",
     "confidence": 0.0-1.0
   }
-]`
-          }
-        ]
-      });
-
-      return JSON.parse(response.content[0].text || '[]');
-    } catch (error) {
-      console.error('Relationship suggestion failed:', error);
-      return [];
-    }
+]`, relationshipSuggestionsSchema([...characters, ...plotPoints].map(n => n.id)), { maxTokens: 1500, temperature: 0.7 }, request, nodeTarget(nodes));
   }
 
-  async analyzeCharacterArcs(nodes: any[], edges: any[]): Promise<CharacterArc[]> {
-    try {
-      const characters = nodes.filter(n => n.type === 'character');
-      const plotPoints = nodes.filter(n => n.type === 'plot').sort((a, b) => 
-        (a.data.order || 0) - (b.data.order || 0)
-      );
-
-      const arcs: CharacterArc[] = [];
-
-      for (const character of characters) {
-        const connectedPlots = this.findConnectedPlotPoints(character.id, edges, plotPoints);
-        
-        const response = await this.anthropic.messages.create({
-          model: "claude-3-sonnet-20240229",
-          max_tokens: 800,
-          temperature: 0.4,
-          messages: [
-            {
-              role: "user",
-              content: `Analyze the character arc for this character:
+  /**
+   * One request per character. Characters whose analysis fails are left out
+   * and reported in `issues`, so the arcs that did come back can be shown.
+   * onPartial receives every arc so far, including the one being written.
+   */
+  async analyzeCharacterArcs(
+    nodes: any[],
+    edges: any[],
+    request: AIBatchOptions<CharacterArc[]> = {}
+  ): Promise<AIResult<CharacterArc[]>> {
+    const characters = nodes.filter(n => n.type === 'character');
+    const plotPoints = nodes.filter(n => n.type === 'plot').sort((a, b) => 
+      (a.data.order || 0) - (b.data.order || 0)
+    );
+
+    const arcs: CharacterArc[] = [];
+    const issues: SchemaIssue[] = [];
+
+    request.onProgress?.({ completed: 0, total: characters.length });
+
+    for (const [index, character] of characters.entries()) {
+      const connectedPlots = this.findConnectedPlotPoints(character.id, edges, plotPoints);
+      
+      const result = await this.completeWithSchema('character-arcs', `Analyze the character arc for this character:
 
 CHARACTER: ${JSON.stringify({ 
   name: character.data.name, 
@@ -321,34 +388,40 @@ Create a character arc analysis. Return as JSON:
   ],
   "conflicts": ["internal/external conflicts"],
   "growth": 0-10
-}`
-            }
-          ]
-        });
-
-        const arc = JSON.parse(response.content[0].text || '{}');
-        if (arc.characterId) {
-          arcs.push(arc);
-        }
+}`, characterArcSchema, { maxTokens: 800, temperature: 0.4 }, {
+        signal: request.signal,
+        onPartial: request.onPartial && (arc => request.onPartial?.([...arcs, { ...arc, characterId: character.id }])),
+        projectId: request.projectId,
+        onContext: request.onContext
+      }, nodeTarget([character, ...connectedPlots], character.data.name));
+
+      if (result.status === 'cancelled') return result;
+      request.onProgress?.({ completed: index + 1, total: characters.length });
+
+      const name = character.data.name || character.id;
+      if (result.status === 'failed') {
+        issues.push({ path: name, message: result.error });
+        continue;
       }
+      if (result.status === 'partial') {
+        issues.push(...result.issues.map(issue => ({ ...issue, path: `${name}.${issue.path}` })));
+      }
+      // The arc belongs to the character asked about, whatever id came back
+      arcs.push({ ...result.data, characterId: character.id });
+    }
 
-      return arcs;
-    } catch (error) {
-      console.error('Character arc analysis failed:', error);
-      return [];
+    if (characters.length > 0 && arcs.length === 0) {
+      return { status: 'failed', error: 'No character arcs could be analyzed', issues };
     }
+    return issues.length > 0 ? { status: 'partial', data: arcs, issues } : { status: 'ok', data: arcs };
   }
 
-  async generateStoryTemplate(genre: string, complexity: 'simple' | 'complex' | 'epic'): Promise<any> {
-    try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-sonnet-20240229",
-        max_tokens: 2000,
-        temperature: 0.6,
-        messages: [
-          {
-            role: "user",
-            content: `Create a story structure template for a ${complexity} ${genre} story.
+  async generateStoryTemplate(
+    genre: string,
+    complexity: 'simple' | 'complex' | 'epic',
+    request: AIRequestOptions<StoryTemplate> = {}
+  ): Promise<AIResult<StoryTemplate>> {
+    return this.completeWithSchema('story-template', `Create a story structure template for a ${complexity} ${genre} story.
 
 Generate nodes and connections suitable for a visual canvas. Include:
 - Main characters with roles and brief descriptions
@@ -383,19 +456,143 @@ Return as JSON:
       "type": "smoothstep"
     }
   ]
-}`
-          }
-        ]
-      });
+}`, storyTemplateSchema, { maxTokens: 2000, temperature: 0.6 }, request, { text: genre });
+  }
+
+  /**
+   * Analyzes an imported item with the analyze-content edge function, which
+   * saves the insights to the item. With a projectId, the story context most
+   * relevant to the item is sent along and the server adds it to the prompt.
+   */
+  async analyzeImportedContent(
+    item: Omit<AnalysisRequest, 'context'>,
+    { projectId, onContext }: Pick<AIRequestOptions<unknown>, 'projectId' | 'onContext'> = {}
+  ): Promise<AnalysisResponse> {
+    try {
+      let context: string | undefined;
+      if (projectId) {
+        // The function only reads the start of the content, so rank by that
+        const packed = await aiContextService.build(projectId, 'content-analysis', { text: item.content.slice(0, 1500) });
+        onContext?.(packed);
+        context = packed.text || undefined;
+      }
 
-      return JSON.parse(response.content[0].text || '{}');
+      const { data, error } = await supabase.functions.invoke('analyze-content', {
+        body: { ...item, context }
+      });
+      if (error) return { success: false, error: await edgeFunctionError(error) };
+      return data as AnalysisResponse;
     } catch (error) {
-      console.error('Template generation failed:', error);
-      return null;
+      console.error('Content analysis failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Analysis failed' };
     }
   }
 
   // HELPER METHODS
+
+  /**
+   * Sends the prompt and checks the reply against `schema`. A reply that
+   * can't be used is sent back to the model along with what was wrong with
+   * it, up to MAX_ATTEMPTS in all. Never throws.
+   *
+   * With a projectId, the story context most relevant to `target` goes in
+   * the system prompt.
+   */
+  private async completeWithSchema<T>(
+    task: AITask,
+    prompt: string,
+    schema: Schema<T>,
+    options: CompletionOptions,
+    { signal, onPartial, projectId, onContext }: AIRequestOptions<T> = {},
+    target: ContextTarget = {}
+  ): Promise<AIResult<T>> {
+    const messages: AIMessage[] = [{ role: 'user', content: prompt }];
+    let best: Validation<T> | null = null;
+    let last: Validation<T> = { value: undefined, issues: [] };
+
+    try {
+      if (projectId) {
+        const context = await aiContextService.build(projectId, task, target);
+        onContext?.(context);
+        if (context.text) options = { ...options, system: context.text };
+      }
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const text = await this.complete(task, messages, options, {
+          signal,
+          onText: onPartial && this.partialReader(schema, onPartial)
+        });
+        last = this.check(schema, text);
+
+        if (last.value !== undefined && last.issues.length === 0) {
+          return { status: 'ok', data: last.value };
+        }
+        if (last.value !== undefined && (!best || last.issues.length < best.issues.length)) {
+          best = last;
+        }
+
+        messages.push(
+          { role: 'assistant', content: text },
+          {
+            role: 'user',
+            content: `That reply could not be used:\n${formatIssues(last.issues)}\n\nReply again with only the corrected JSON, in the format asked for above.`
+          }
+        );
+      }
+    } catch (error) {
+      if (isAbortError(error)) return { status: 'cancelled' };
+      console.error(`AI request failed (${task}):`, error);
+      return { status: 'failed', error: error instanceof Error ? error.message : 'AI request failed', issues: [] };
+    }
+
+    if (best && best.value !== undefined) {
+      console.warn(`AI reply partly unusable (${task}):`, best.issues);
+      return { status: 'partial', data: best.value, issues: best.issues };
+    }
+    console.error(`AI reply unusable (${task}):`, last.issues);
+    return { status: 'failed', error: 'The AI reply was not in the expected format', issues: last.issues };
+  }
+
+  // Reads streamed text, reporting what validates each time it changes
+  private partialReader<T>(schema: Schema<T>, onPartial: (data: T) => void): (text: string) => void {
+    let text = '';
+    let last = '';
+    return delta => {
+      text += delta;
+      const { value } = validate(schema, extractPartialJSON(text));
+      if (value === undefined) return;
+      const serialized = JSON.stringify(value);
+      if (serialized !== last) {
+        last = serialized;
+        onPartial(value);
+      }
+    };
+  }
+
+  private check<T>(schema: Schema<T>, text: string): Validation<T> {
+    try {
+      return validate(schema, extractJSON(text));
+    } catch (error) {
+      return { value: undefined, issues: [{ path: '', message: error instanceof Error ? error.message : 'Unreadable reply' }] };
+    }
+  }
+
+  private async complete(
+    task: AITask,
+    messages: AIMessage[],
+    options: CompletionOptions,
+    stream: AIStreamOptions = {}
+  ): Promise<string> {
+    const { provider, model } = aiSettingsService.modelFor(task);
+    const completion = await createAIProvider(provider, aiSettingsService.getSettings()).complete({
+      task,
+      model,
+      messages,
+      ...options
+    }, stream);
+    return completion.text;
+  }
+
   private buildStoryContext(nodes: any[], edges: any[]): string {
     const characters = nodes.filter(n => n.type === 'character');
     const plotPoints = nodes.filter(n => n.type === 'plot');
@@ -1,5 +1,7 @@
 // src/services/autoSaveService.ts
 import { supabase } from '../lib/supabase';
+import { syncService, isNetworkError } from './sync-service';
+import type { DbChapter } from './chapterService';
 
 export interface AutoSaveData {
   chapterId: string;
@@ -17,6 +19,18 @@ export interface AutoSaveResult {
   error?: string;
 }
 
+// A row of the content_drafts table
+interface DbDraft {
+  id: string;
+  chapter_id: string;
+  content: string;
+  title: string;
+  word_count: number;
+  save_type: ContentDraft['saveType'];
+  label: string | null;
+  created_at: string;
+}
+
 export interface ContentDraft {
   id: string;
   chapterId: string;
@@ -24,6 +38,7 @@ export interface ContentDraft {
   title: string;
   wordCount: number;
   saveType: 'auto' | 'manual' | 'backup';
+  label?: string;
   createdAt: Date;
 }
 
@@ -32,6 +47,10 @@ class AutoSaveService {
    * Save chapter content using the optimized auto-save function
    */
   async saveChapterContent(data: AutoSaveData): Promise<AutoSaveResult> {
+    if (!syncService.isOnline()) {
+      return this.queueOfflineSave(data);
+    }
+
     try {
       const { data: result, error } = await supabase.rpc('handle_auto_save', {
         p_chapter_id: data.chapterId,
@@ -43,12 +62,24 @@ class AutoSaveService {
 
       if (error) {
         console.error('Auto-save error:', error);
+        if (isNetworkError(error)) {
+          return this.queueOfflineSave(data);
+        }
         return {
           success: false,
           error: error.message
         };
       }
 
+      if (result.success) {
+        // Merge later offline edits against what was saved here
+        await syncService.recordServerWrite('chapters', data.chapterId, {
+          content: data.content,
+          title: data.title,
+          word_count: data.wordCount
+        });
+      }
+
       return {
         success: result.success,
         savedAt: result.saved_at ? new Date(result.saved_at) : undefined,
@@ -82,21 +113,94 @@ class AutoSaveService {
         return [];
       }
 
-      return data.map(draft => ({
-        id: draft.id,
-        chapterId: draft.chapter_id,
-        content: draft.content,
-        title: draft.title,
-        wordCount: draft.word_count,
-        saveType: draft.save_type,
-        createdAt: new Date(draft.created_at)
-      }));
+      return data.map(this.mapDbDraftToDraft);
     } catch (error) {
       console.error('Error fetching chapter drafts:', error);
       return [];
     }
   }
 
+  /**
+   * Get every named snapshot for a chapter. These are kept regardless of age.
+   */
+  async getNamedSnapshots(chapterId: string): Promise<ContentDraft[]> {
+    try {
+      const { data, error } = await supabase
+        .from('content_drafts')
+        .select('*')
+        .eq('chapter_id', chapterId)
+        .not('label', 'is', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching named snapshots:', error);
+        return [];
+      }
+
+      return data.map(this.mapDbDraftToDraft);
+    } catch (error) {
+      console.error('Error fetching named snapshots:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the current chapter content as a named snapshot
+   */
+  async createSnapshot(data: AutoSaveData, label: string): Promise<ContentDraft | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data: draft, error } = await supabase
+        .from('content_drafts')
+        .insert({
+          chapter_id: data.chapterId,
+          user_id: user.id,
+          content: data.content,
+          title: data.title,
+          word_count: data.wordCount,
+          save_type: 'manual',
+          label: label.trim()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating snapshot:', error);
+        return null;
+      }
+
+      return this.mapDbDraftToDraft(draft);
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Name or rename a draft. Passing null turns it back into a regular draft,
+   * which makes it eligible for cleanup again.
+   */
+  async setDraftLabel(draftId: string, label: string | null): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('content_drafts')
+        .update({ label: label?.trim() || null })
+        .eq('id', draftId);
+
+      if (error) {
+        console.error('Error updating draft label:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating draft label:', error);
+      return false;
+    }
+  }
+
   /**
    * Create a manual backup before major changes
    */
@@ -217,23 +321,63 @@ class AutoSaveService {
   }
 
   /**
-   * Clean up old drafts manually (usually called by admin)
+   * Clean up old drafts manually (usually called by admin). Named snapshots
+   * are never removed.
    */
   async cleanupOldDrafts(): Promise<{ success: boolean; deletedCount?: number }> {
     try {
-      const { error } = await supabase.rpc('cleanup_old_drafts');
+      const { data, error } = await supabase.rpc('cleanup_old_drafts');
 
       if (error) {
         console.error('Error cleaning up drafts:', error);
         return { success: false };
       }
 
-      return { success: true };
+      return { success: true, deletedCount: typeof data === 'number' ? data : undefined };
     } catch (error) {
       console.error('Error in cleanup function:', error);
       return { success: false };
     }
   }
+
+  /**
+   * Keep the save in the offline queue so it survives a reload and is sent
+   * when the connection returns
+   */
+  private async queueOfflineSave(data: AutoSaveData): Promise<AutoSaveResult> {
+    try {
+      await syncService.queueUpdate<DbChapter>('chapters', data.chapterId, {
+        content: data.content,
+        title: data.title,
+        word_count: data.wordCount
+      });
+      return {
+        success: true,
+        savedAt: new Date(),
+        saveType: 'offline',
+        wordCount: data.wordCount
+      };
+    } catch (error) {
+      console.error('Offline save error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private mapDbDraftToDraft(draft: DbDraft): ContentDraft {
+    return {
+      id: draft.id,
+      chapterId: draft.chapter_id,
+      content: draft.content,
+      title: draft.title,
+      wordCount: draft.word_count,
+      saveType: draft.save_type,
+      label: draft.label || undefined,
+      createdAt: new Date(draft.created_at)
+    };
+  }
 }
 
 export const autoSaveService = new AutoSaveService();
@@ -0,0 +1,30 @@
+// src/services/beat-sheet-service.ts
+import { projectService } from './projectService';
+import { BeatSheetState, DEFAULT_BEAT_SHEET_STATE } from '../utils/beatSheets';
+
+// The chosen beat sheet, custom sheets and beat assignments are stored in
+// projects.settings.beatSheets.
+class BeatSheetService {
+  async getState(projectId: string): Promise<BeatSheetState> {
+    try {
+      const project = await projectService.getProject(projectId);
+      const stored = project?.settings?.beatSheets;
+      return stored ? { ...DEFAULT_BEAT_SHEET_STATE, ...stored } : DEFAULT_BEAT_SHEET_STATE;
+    } catch (error) {
+      console.error('Error loading beat sheets:', error);
+      return DEFAULT_BEAT_SHEET_STATE;
+    }
+  }
+
+  async saveState(projectId: string, state: BeatSheetState): Promise<boolean> {
+    const project = await projectService.getProject(projectId);
+    if (!project) return false;
+
+    const updated = await projectService.updateProject(projectId, {
+      settings: { ...(project.settings || {}), beatSheets: state }
+    });
+    return !!updated;
+  }
+}
+
+export const beatSheetService = new BeatSheetService();
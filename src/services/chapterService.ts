@@ -1,4 +1,7 @@
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../lib/supabase';
+import { syncService, isNetworkError } from './sync-service';
+import { acceptedHtml } from '../utils/trackChanges';
 
 export interface Chapter {
   id: string;
@@ -13,6 +16,22 @@ export interface Chapter {
   updatedAt: string;
 }
 
+// A row of the chapters table
+export interface DbChapter {
+  id: string;
+  project_id: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  word_count: number;
+  order_index: number;
+  status: Chapter['status'];
+  created_at: string;
+  updated_at: string;
+}
+
+type ChapterUpdates = Partial<Omit<Chapter, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>>;
+
 export const chapterService = {
   /**
    * Get all chapters for the current authenticated user across all projects
@@ -64,6 +83,10 @@ export const chapterService = {
    * Get all chapters for a project
    */
   async getProjectChapters(projectId: string): Promise<Chapter[]> {
+    if (!syncService.isOnline()) {
+      return this.getCachedProjectChapters(projectId);
+    }
+
     try {
       const { data: authUser } = await supabase.auth.getUser();
       
@@ -81,28 +104,37 @@ export const chapterService = {
         throw error;
       }
       
-      return data.map(chapter => ({
-        id: chapter.id,
-        projectId: chapter.project_id,
-        title: chapter.title,
-        content: chapter.content,
-        summary: chapter.summary,
-        wordCount: chapter.word_count,
-        orderIndex: chapter.order_index,
-        status: chapter.status,
-        createdAt: chapter.created_at,
-        updatedAt: chapter.updated_at
-      }));
+      await syncService.cacheRows<DbChapter>('chapters', data);
+      // Chapters with unsynced local edits are served from the offline copy
+      const cached = await syncService.getCachedRows<DbChapter>('chapters', row => row.project_id === projectId);
+      const localRows = new Map(cached.map(row => [row.id, row]));
+      
+      return data.map((chapter: DbChapter) => this.mapDbChapter(localRows.get(chapter.id) || chapter));
     } catch (error) {
       console.error('Error getting project chapters:', error);
-      return [];
+      return this.getCachedProjectChapters(projectId);
     }
   },
   
+  /**
+   * Read a project's chapters from the offline copy
+   */
+  async getCachedProjectChapters(projectId: string): Promise<Chapter[]> {
+    const rows = await syncService.getCachedRows<DbChapter>('chapters', row => row.project_id === projectId);
+    return rows
+      .map(row => this.mapDbChapter(row))
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+  },
+  
   /**
    * Get a chapter by ID
    */
   async getChapter(id: string): Promise<Chapter | null> {
+    if (!syncService.isOnline()) {
+      const cached = await syncService.getCachedRow<DbChapter>('chapters', id);
+      return cached ? this.mapDbChapter(cached) : null;
+    }
+
     try {
       const { data: authUser } = await supabase.auth.getUser();
       
@@ -124,21 +156,15 @@ export const chapterService = {
         throw error;
       }
       
-      return {
-        id: data.id,
-        projectId: data.project_id,
-        title: data.title,
-        content: data.content,
-        summary: data.summary,
-        wordCount: data.word_count,
-        orderIndex: data.order_index,
-        status: data.status,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at
-      };
+      await syncService.cacheRows<DbChapter>('chapters', [data]);
+      // Prefer the offline copy if it still holds edits that have not synced
+      const cached = await syncService.getCachedRow<DbChapter>('chapters', id);
+      
+      return this.mapDbChapter(cached || data);
     } catch (error) {
       console.error('Error getting chapter:', error);
-      return null;
+      const cached = await syncService.getCachedRow<DbChapter>('chapters', id);
+      return cached ? this.mapDbChapter(cached) : null;
     }
   },
   
@@ -146,6 +172,10 @@ export const chapterService = {
    * Create a new chapter
    */
   async createChapter(chapter: Omit<Chapter, 'id' | 'createdAt' | 'updatedAt'>): Promise<Chapter | null> {
+    if (!syncService.isOnline()) {
+      return this.queueChapterCreate(chapter);
+    }
+
     try {
       const { data: authUser } = await supabase.auth.getUser();
       
@@ -203,21 +233,45 @@ export const chapterService = {
       
       // Update project word count
       await this.updateProjectWordCount(chapter.projectId);
+      await syncService.recordServerRow<DbChapter>('chapters', data);
       
-      return {
-        id: data.id,
-        projectId: data.project_id,
-        title: data.title,
-        content: data.content,
-        summary: data.summary,
-        wordCount: data.word_count,
-        orderIndex: data.order_index,
-        status: data.status,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at
-      };
+      return this.mapDbChapter(data);
     } catch (error) {
       console.error('Error creating chapter:', error);
+      if (isNetworkError(error)) {
+        return this.queueChapterCreate(chapter);
+      }
+      return null;
+    }
+  },
+  
+  /**
+   * Create a chapter in the offline copy and queue it for sync
+   */
+  async queueChapterCreate(chapter: Omit<Chapter, 'id' | 'createdAt' | 'updatedAt'>): Promise<Chapter | null> {
+    try {
+      let orderIndex = chapter.orderIndex;
+      if (orderIndex === undefined) {
+        const cached = await this.getCachedProjectChapters(chapter.projectId);
+        orderIndex = cached.length > 0 ? cached[cached.length - 1].orderIndex + 1 : 1;
+      }
+      
+      const now = new Date().toISOString();
+      const row = await syncService.queueCreate<DbChapter>('chapters', {
+        id: uuidv4(),
+        project_id: chapter.projectId,
+        title: chapter.title,
+        content: chapter.content,
+        summary: chapter.summary ?? null,
+        word_count: chapter.wordCount || this.countWords(chapter.content),
+        order_index: orderIndex,
+        status: chapter.status,
+        created_at: now,
+        updated_at: now
+      });
+      return this.mapDbChapter(row);
+    } catch (error) {
+      console.error('Error queueing chapter create:', error);
       return null;
     }
   },
@@ -225,7 +279,11 @@ export const chapterService = {
   /**
    * Update a chapter
    */
-  async updateChapter(id: string, updates: Partial<Omit<Chapter, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>>): Promise<Chapter | null> {
+  async updateChapter(id: string, updates: ChapterUpdates): Promise<Chapter | null> {
+    if (!syncService.isOnline()) {
+      return this.queueChapterUpdate(id, updates);
+    }
+
     try {
       const { data: authUser } = await supabase.auth.getUser();
       
@@ -244,6 +302,10 @@ export const chapterService = {
         .eq('projects.user_id', authUser.user.id)
         .single();
       
+      if (chapterError && isNetworkError(chapterError)) {
+        throw chapterError;
+      }
+      
       if (chapterError || !chapterData) {
         throw new Error('Chapter not found or access denied');
       }
@@ -277,28 +339,71 @@ export const chapterService = {
         await this.updateProjectWordCount(data.project_id);
       }
       
-      return {
-        id: data.id,
-        projectId: data.project_id,
-        title: data.title,
-        content: data.content,
-        summary: data.summary,
-        wordCount: data.word_count,
-        orderIndex: data.order_index,
-        status: data.status,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at
-      };
+      await syncService.recordServerRow<DbChapter>('chapters', data);
+      
+      return this.mapDbChapter(data);
     } catch (error) {
       console.error('Error updating chapter:', error);
+      // Keep the edit locally and send it once the connection is back
+      if (isNetworkError(error)) {
+        return this.queueChapterUpdate(id, updates);
+      }
       return null;
     }
   },
   
+  /**
+   * Apply a chapter update to the offline copy and queue it for sync
+   */
+  async queueChapterUpdate(id: string, updates: ChapterUpdates): Promise<Chapter | null> {
+    const patch: Partial<DbChapter> = {};
+    
+    if (updates.title !== undefined) patch.title = updates.title;
+    if (updates.content !== undefined) {
+      patch.content = updates.content;
+      patch.word_count = this.countWords(updates.content);
+    }
+    if (updates.summary !== undefined) patch.summary = updates.summary;
+    if (updates.wordCount !== undefined) patch.word_count = updates.wordCount;
+    if (updates.orderIndex !== undefined) patch.order_index = updates.orderIndex;
+    if (updates.status !== undefined) patch.status = updates.status;
+    
+    try {
+      const row = await syncService.queueUpdate<DbChapter>('chapters', id, patch);
+      // Without a cached copy there is no full chapter to return yet
+      return row.project_id ? this.mapDbChapter(row) : null;
+    } catch (error) {
+      console.error('Error queueing chapter update:', error);
+      return null;
+    }
+  },
+  
+  /**
+   * Map a database chapter row to Chapter
+   */
+  mapDbChapter(row: DbChapter): Chapter {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      title: row.title,
+      content: row.content,
+      summary: row.summary ?? undefined,
+      wordCount: row.word_count,
+      orderIndex: row.order_index,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  },
+  
   /**
    * Delete a chapter
    */
   async deleteChapter(id: string): Promise<boolean> {
+    if (!syncService.isOnline()) {
+      return this.queueChapterDelete(id);
+    }
+
     try {
       const { data: authUser } = await supabase.auth.getUser();
       
@@ -317,6 +422,10 @@ export const chapterService = {
         .eq('projects.user_id', authUser.user.id)
         .single();
       
+      if (chapterError && isNetworkError(chapterError)) {
+        throw chapterError;
+      }
+      
       if (chapterError || !chapterData) {
         throw new Error('Chapter not found or access denied');
       }
@@ -334,10 +443,27 @@ export const chapterService = {
       
       // Update project word count
       await this.updateProjectWordCount(projectId);
+      await syncService.forgetRow('chapters', id);
       
       return true;
     } catch (error) {
       console.error('Error deleting chapter:', error);
+      if (isNetworkError(error)) {
+        return this.queueChapterDelete(id);
+      }
+      return false;
+    }
+  },
+  
+  /**
+   * Remove a chapter from the offline copy and queue the delete for sync
+   */
+  async queueChapterDelete(id: string): Promise<boolean> {
+    try {
+      await syncService.queueDelete('chapters', id);
+      return true;
+    } catch (error) {
+      console.error('Error queueing chapter delete:', error);
       return false;
     }
   },
@@ -376,6 +502,7 @@ export const chapterService = {
         if (error) {
           throw error;
         }
+        await syncService.recordServerWrite('chapters', chapterIds[i], { order_index: i + 1 });
       }
       
       return true;
@@ -391,8 +518,8 @@ export const chapterService = {
   countWords(text: string): number {
     if (!text) return 0;
     
-    // Remove HTML tags if present
-    const cleanText = text.replace(/<[^>]*>/g, ' ');
+    // Remove HTML tags if present, counting pending suggestions as accepted
+    const cleanText = acceptedHtml(text).replace(/<[^>]*>/g, ' ');
     
     // Split by whitespace and filter out empty strings
     const words = cleanText.split(/\s+/).filter(word => word.length > 0);
@@ -0,0 +1,233 @@
+// src/services/character-mention-service.ts
+import { chapterService, Chapter } from './chapterService';
+import { characterService, Character } from './character-service';
+import { htmlToParagraphs } from '../utils/textDiff';
+import { acceptedHtml } from '../utils/trackChanges';
+
+export interface CharacterMention {
+  characterId: string;
+  chapterId: string;
+  paragraphIndex: number;
+  // Position within the paragraph's plain text
+  offset: number;
+  length: number;
+  matchedText: string;
+}
+
+export interface IndexedChapter {
+  id: string;
+  title: string;
+  orderIndex: number;
+}
+
+export interface CharacterAppearanceSummary {
+  characterId: string;
+  totalMentions: number;
+  // One entry per chapter in manuscript order, zero when the character is absent
+  chapterCounts: number[];
+  // Chapter IDs where the character appears, in manuscript order
+  appearances: string[];
+  firstChapterId: string | null;
+  lastChapterId: string | null;
+  // Longest run of chapters without a mention after the first appearance
+  longestAbsence: number;
+  isVanishing: boolean;
+}
+
+export interface MentionIndex {
+  projectId: string;
+  chapters: IndexedChapter[];
+  mentions: CharacterMention[];
+  summaries: Record<string, CharacterAppearanceSummary>;
+  indexedAt: Date;
+}
+
+// A character missing for this many chapters in a row is flagged
+export const VANISH_CHAPTER_GAP = 5;
+
+// Reuse a recent index instead of re-reading every chapter (many canvas nodes ask at once)
+const CACHE_TTL_MS = 60000;
+
+function splitNames(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  if (typeof value === 'string') return value.split(',');
+  return [];
+}
+
+/**
+ * Names a character goes by: their name, aliases and nicknames from
+ * character_data, and their first name when the full name has several words.
+ */
+export function getCharacterNames(character: Pick<Character, 'name' | 'character_data'>): string[] {
+  const name = (character.name || '').trim();
+  const names = [
+    name,
+    ...splitNames(character.character_data?.aliases),
+    ...splitNames(character.character_data?.nicknames)
+  ];
+
+  const firstName = name.split(/\s+/)[0];
+  if (firstName && firstName !== name && firstName.length >= 3) names.push(firstName);
+
+  return Array.from(new Set(names.map(item => item.trim()).filter(Boolean)));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Map each name to the character it identifies. A name shared by several
+ * characters (two siblings' surname, say) is ambiguous and left out.
+ */
+function buildNameTable(characters: Character[]): Map<string, string> {
+  const owners = new Map<string, Set<string>>();
+  characters.forEach(character => {
+    getCharacterNames(character).forEach(name => {
+      if (!owners.has(name)) owners.set(name, new Set());
+      owners.get(name)!.add(character.id);
+    });
+  });
+
+  const table = new Map<string, string>();
+  owners.forEach((ids, name) => {
+    if (ids.size === 1) table.set(name, Array.from(ids)[0]);
+  });
+  return table;
+}
+
+/**
+ * Find every mention of the given characters in the chapters. Matching is
+ * case-sensitive and on whole words; longer names win over names they
+ * contain, so "Anna Marsh" is one mention rather than two.
+ */
+export function findMentions(chapters: Pick<Chapter, 'id' | 'content'>[], characters: Character[]): CharacterMention[] {
+  const table = buildNameTable(characters);
+  if (table.size === 0) return [];
+
+  const alternatives = Array.from(table.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives})(?![\\p{L}\\p{N}_])`, 'gu');
+
+  const mentions: CharacterMention[] = [];
+  chapters.forEach(chapter => {
+    htmlToParagraphs(acceptedHtml(chapter.content)).forEach((paragraph, paragraphIndex) => {
+      for (const match of paragraph.text.matchAll(pattern)) {
+        mentions.push({
+          characterId: table.get(match[0])!,
+          chapterId: chapter.id,
+          paragraphIndex,
+          offset: match.index || 0,
+          length: match[0].length,
+          matchedText: match[0]
+        });
+      }
+    });
+  });
+
+  return mentions;
+}
+
+export function summarizeAppearances(
+  characterId: string,
+  chapters: IndexedChapter[],
+  mentions: CharacterMention[]
+): CharacterAppearanceSummary {
+  const position = new Map(chapters.map((chapter, index) => [chapter.id, index]));
+  const chapterCounts = chapters.map(() => 0);
+
+  mentions
+    .filter(mention => mention.characterId === characterId)
+    .forEach(mention => {
+      const index = position.get(mention.chapterId);
+      if (index !== undefined) chapterCounts[index]++;
+    });
+
+  const present = chapterCounts
+    .map((count, index) => (count > 0 ? index : -1))
+    .filter(index => index !== -1);
+
+  // Gaps between appearances, and after the last one to the end of the manuscript
+  let longestAbsence = 0;
+  present.forEach((index, i) => {
+    const next = i + 1 < present.length ? present[i + 1] : chapters.length;
+    longestAbsence = Math.max(longestAbsence, next - index - 1);
+  });
+
+  return {
+    characterId,
+    totalMentions: chapterCounts.reduce((sum, count) => sum + count, 0),
+    chapterCounts,
+    appearances: present.map(index => chapters[index].id),
+    firstChapterId: present.length > 0 ? chapters[present[0]].id : null,
+    lastChapterId: present.length > 0 ? chapters[present[present.length - 1]].id : null,
+    longestAbsence,
+    isVanishing: longestAbsence >= VANISH_CHAPTER_GAP
+  };
+}
+
+class CharacterMentionService {
+  private cache = new Map<string, { index: Promise<MentionIndex>; createdAt: number }>();
+
+  /**
+   * Index every character mention in a project's chapters. Results are cached
+   * briefly; pass force to re-read the manuscript now.
+   */
+  indexProject(projectId: string, force = false): Promise<MentionIndex> {
+    const cached = this.cache.get(projectId);
+    if (!force && cached && Date.now() - cached.createdAt < CACHE_TTL_MS) {
+      return cached.index;
+    }
+
+    const index = this.buildIndex(projectId);
+    this.cache.set(projectId, { index, createdAt: Date.now() });
+    // A failed run shouldn't be served from the cache
+    index.catch(() => this.cache.delete(projectId));
+    return index;
+  }
+
+  private async buildIndex(projectId: string): Promise<MentionIndex> {
+    const [chapters, characters] = await Promise.all([
+      chapterService.getProjectChapters(projectId),
+      characterService.getCharacters(projectId)
+    ]);
+
+    const indexedChapters: IndexedChapter[] = [...chapters]
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(chapter => ({ id: chapter.id, title: chapter.title, orderIndex: chapter.orderIndex }));
+    const mentions = findMentions(chapters, characters);
+
+    const summaries: Record<string, CharacterAppearanceSummary> = {};
+    characters.forEach(character => {
+      summaries[character.id] = summarizeAppearances(character.id, indexedChapters, mentions);
+    });
+
+    await this.storeAppearances(characters, summaries);
+
+    return { projectId, chapters: indexedChapters, mentions, summaries, indexedAt: new Date() };
+  }
+
+  // Keep character_data.appearances in step with the manuscript
+  private async storeAppearances(characters: Character[], summaries: Record<string, CharacterAppearanceSummary>): Promise<void> {
+    const changed = characters.filter(character => {
+      const stored: string[] = character.character_data?.appearances || [];
+      const current = summaries[character.id].appearances;
+      return stored.length !== current.length || stored.some((id, index) => id !== current[index]);
+    });
+
+    await Promise.all(changed.map(character =>
+      characterService
+        .updateCharacter(character.id, {
+          character_data: {
+            ...(character.character_data || {}),
+            appearances: summaries[character.id].appearances
+          }
+        })
+        .catch(error => console.error('Error storing character appearances:', error))
+    ));
+  }
+}
+
+export const characterMentionService = new CharacterMentionService();
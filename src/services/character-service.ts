@@ -1,4 +1,6 @@
+import { v4 as uuidv4 } from 'uuid';
 import { supabase, logSupabaseError } from '../lib/supabase';
+import { syncService } from './sync-service';
 
 export interface Character {
   id: string;
@@ -19,6 +21,12 @@ export interface Character {
   user_id: string;
 }
 
+// Extra details kept in the character_data JSONB column
+export interface CharacterData {
+  aliases?: string[];
+  [key: string]: unknown;
+}
+
 export interface CreateCharacterData {
   name: string;
   role: 'protagonist' | 'antagonist' | 'supporting' | 'minor';
@@ -30,6 +38,7 @@ export interface CreateCharacterData {
   occupation?: string;
   tags?: string[];
   project_id?: string;
+  character_data?: CharacterData;
 }
 
 export interface UpdateCharacterData extends Partial<CreateCharacterData> {
@@ -38,6 +47,10 @@ export interface UpdateCharacterData extends Partial<CreateCharacterData> {
 
 class CharacterService {
   async getCharacters(projectId?: string): Promise<Character[]> {
+    if (!syncService.isOnline()) {
+      return syncService.getCachedRows<Character>('characters', row => !projectId || row.project_id === projectId);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -59,6 +72,7 @@ class CharacterService {
         throw error;
       }
 
+      await syncService.cacheRows<Character>('characters', data || []);
       return data || [];
     } catch (error) {
       console.error('Error fetching characters:', error);
@@ -92,6 +106,20 @@ class CharacterService {
   }
 
   async createCharacter(characterData: CreateCharacterData): Promise<Character> {
+    if (!syncService.isOnline()) {
+      const now = new Date().toISOString();
+      return syncService.queueCreate<Character>('characters', {
+        ...characterData,
+        id: uuidv4(),
+        user_id: await syncService.getUserId(),
+        completeness_score: this.calculateCompletenessScore(characterData),
+        tags: characterData.tags || [],
+        traits: characterData.traits || [],
+        created_at: now,
+        updated_at: now,
+      });
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -117,6 +145,7 @@ class CharacterService {
         throw error;
       }
 
+      await syncService.recordServerRow<Character>('characters', data);
       return data;
     } catch (error) {
       console.error('Error creating character:', error);
@@ -125,6 +154,10 @@ class CharacterService {
   }
 
   async updateCharacter(id: string, updates: UpdateCharacterData): Promise<Character> {
+    if (!syncService.isOnline()) {
+      return syncService.queueUpdate<Character>('characters', id, updates);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -156,6 +189,7 @@ class CharacterService {
         throw error;
       }
 
+      await syncService.recordServerRow<Character>('characters', data);
       return data;
     } catch (error) {
       console.error('Error updating character:', error);
@@ -164,6 +198,10 @@ class CharacterService {
   }
 
   async deleteCharacter(id: string): Promise<void> {
+    if (!syncService.isOnline()) {
+      return syncService.queueDelete('characters', id);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -178,6 +216,8 @@ class CharacterService {
         logSupabaseError(error, 'CharacterService.deleteCharacter');
         throw error;
       }
+
+      await syncService.forgetRow('characters', id);
     } catch (error) {
       console.error('Error deleting character:', error);
       throw error;
@@ -0,0 +1,414 @@
+// src/services/collaboration-service.ts
+import * as Y from 'yjs';
+import { v4 as uuidv4 } from 'uuid';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export interface Collaborator {
+  sessionId: string;
+  userId: string;
+  name: string;
+  color: string;
+  // False once the database has refused this writer's save, e.g. for a
+  // co-writer who doesn't own the project
+  canSave: boolean;
+}
+
+// What each session shares through presence
+type PresenceState = Omit<Collaborator, 'sessionId'>;
+
+export interface RemoteCursor extends Omit<Collaborator, 'canSave'> {
+  // Plain-text offsets into the chapter, like a DOM selection's anchor and focus
+  anchor: number;
+  head: number;
+}
+
+export interface CollaborationUser {
+  id: string;
+  name: string;
+}
+
+export interface CollaborationCallbacks {
+  // Chapter HTML changed because of a remote edit or an undo/redo
+  onContentChange: (html: string) => void;
+  onPeersChange: (peers: Collaborator[]) => void;
+  onCursorsChange: (cursors: RemoteCursor[]) => void;
+}
+
+const CURSOR_COLORS = ['#ff4e00', '#2563eb', '#16a34a', '#9333ea', '#db2777', '#0891b2', '#ca8a04', '#dc2626'];
+
+// How long to wait for a peer to send the live document before asking again,
+// or, for the persistence leader, before seeding it from the database
+const SYNC_TIMEOUT_MS = 2000;
+const CURSOR_THROTTLE_MS = 80;
+
+export function colorForUser(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) >>> 0;
+  }
+  return CURSOR_COLORS[hash % CURSOR_COLORS.length];
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Where a diff boundary at `index` falls inside a tag or character reference,
+// the index of its opening '<' or '&'; otherwise `index`. Looks only before
+// the boundary, i.e. at the text both sides of a diff share.
+function unitStart(html: string, index: number): number {
+  const tag = html.lastIndexOf('<', index - 1);
+  if (tag > html.lastIndexOf('>', index - 1)) return tag;
+  const entity = html.lastIndexOf('&', index - 1);
+  return entity >= 0 && /^&[#a-zA-Z0-9]*$/.test(html.slice(entity, index)) ? entity : index;
+}
+
+// The same going forward: the index just past the closing '>' or ';' of a
+// tag or character reference the boundary falls inside, looking only after it
+function unitEnd(html: string, index: number): number {
+  const close = html.indexOf('>', index);
+  const open = html.indexOf('<', index);
+  if (close >= 0 && (open < 0 || close < open)) return close + 1;
+  const entity = html.slice(index, index + 32).match(/^[#a-zA-Z0-9]*;/);
+  return entity ? index + entity[0].length : index;
+}
+
+// Merged concurrent edits keep every tag whole but can leave them unbalanced,
+// e.g. one writer joins two paragraphs while another restyles the second
+function repairHtml(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.innerHTML;
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * One writer's connection to a chapter's shared document. The chapter HTML is
+ * kept in a Yjs text type; updates, sync handshakes and cursors travel over a
+ * Supabase Realtime broadcast channel and presence tracks who is in the room.
+ */
+export class CollaborationSession {
+  readonly sessionId = uuidv4();
+  private readonly doc = new Y.Doc();
+  private readonly text = this.doc.getText('content');
+  private readonly localOrigin = { sessionId: this.sessionId };
+  private readonly undoManager: Y.UndoManager;
+  private readonly color: string;
+  private channel: RealtimeChannel | null = null;
+  private peers: Collaborator[] = [];
+  private cursors = new Map<string, RemoteCursor>();
+  private isReady = false;
+  private canSave = true;
+  private pendingHtml: string | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private cursorTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingCursor: { anchor: number; head: number } | null = null;
+
+  constructor(
+    private readonly chapterId: string,
+    private readonly user: CollaborationUser,
+    private readonly callbacks: CollaborationCallbacks
+  ) {
+    this.color = colorForUser(user.id);
+    // Only this writer's own edits are undoable here
+    this.undoManager = new Y.UndoManager(this.text, {
+      trackedOrigins: new Set([this.localOrigin]),
+      captureTimeout: 500
+    });
+
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== 'remote') {
+        this.broadcast('update', { update: toBase64(update) });
+      }
+      if (origin !== this.localOrigin && this.isReady) {
+        this.emitContent();
+      }
+    });
+  }
+
+  /**
+   * Join the chapter's room. The live document is fetched from writers
+   * already there; only the persistence leader seeds it from `initialHtml`
+   * when nobody has it yet, so two writers opening an empty room at once
+   * don't each add their own copy. The others keep asking until it's seeded.
+   */
+  connect(initialHtml: string): void {
+    const channel = supabase.channel(`chapter-collab:${this.chapterId}`, {
+      config: {
+        broadcast: { self: false },
+        presence: { key: this.sessionId }
+      }
+    });
+    this.channel = channel;
+
+    channel
+      .on('broadcast', { event: 'update' }, ({ payload }) => {
+        Y.applyUpdate(this.doc, fromBase64(payload.update), 'remote');
+      })
+      .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+        if (!this.isReady) return;
+        this.broadcast('sync-response', {
+          to: payload.from,
+          update: toBase64(Y.encodeStateAsUpdate(this.doc, fromBase64(payload.stateVector)))
+        });
+      })
+      .on('broadcast', { event: 'sync-response' }, ({ payload }) => {
+        if (payload.to !== this.sessionId) return;
+        Y.applyUpdate(this.doc, fromBase64(payload.update), 'remote');
+        this.markReady();
+      })
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        if (payload.sessionId === this.sessionId) return;
+        this.cursors.set(payload.sessionId, payload as RemoteCursor);
+        this.emitCursors();
+      })
+      .on('presence', { event: 'sync' }, () => {
+        this.updatePeers();
+      })
+      .subscribe(async status => {
+        if (status !== 'SUBSCRIBED') return;
+
+        await channel.track(this.presence());
+        this.updatePeers();
+
+        if (this.peers.length === 0) {
+          this.seed(initialHtml);
+          return;
+        }
+        this.requestSync(initialHtml);
+      });
+  }
+
+  private requestSync(initialHtml: string): void {
+    if (this.isReady) return;
+
+    this.broadcast('sync-request', {
+      from: this.sessionId,
+      stateVector: toBase64(Y.encodeStateVector(this.doc))
+    });
+    // Nobody answering means nobody has the document yet: the leader seeds
+    // it from the saved chapter and everyone else asks again
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      if (this.isReady) return;
+      if (this.isPersistenceLeader()) this.seed(initialHtml);
+      else this.requestSync(initialHtml);
+    }, SYNC_TIMEOUT_MS);
+  }
+
+  disconnect(): void {
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    if (this.cursorTimer) clearTimeout(this.cursorTimer);
+    if (this.channel) {
+      this.channel.untrack();
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    this.undoManager.destroy();
+    this.doc.destroy();
+  }
+
+  /**
+   * Other writers currently in the chapter (not including this session)
+   */
+  getPeers(): Collaborator[] {
+    return this.peers;
+  }
+
+  isCollaborating(): boolean {
+    return this.peers.length > 0;
+  }
+
+  /**
+   * With several writers in the room only one of them persists the chapter,
+   * so saves don't race each other: the first session whose saves haven't
+   * been refused. Alone, this session always persists.
+   */
+  isPersistenceLeader(): boolean {
+    const sessions = [{ sessionId: this.sessionId, canSave: this.canSave }, ...this.peers];
+    const candidates = sessions.some(session => session.canSave)
+      ? sessions.filter(session => session.canSave)
+      : sessions;
+    return candidates.some(session => session.sessionId === this.sessionId)
+      && candidates.every(session => session.sessionId >= this.sessionId);
+  }
+
+  /**
+   * The database refused this session's save, so hand persisting over to the
+   * next writer in the room
+   */
+  reportSaveRejected(): void {
+    if (!this.canSave) return;
+    this.canSave = false;
+    this.channel?.track(this.presence());
+  }
+
+  /**
+   * Record the editor's new HTML as a local edit. Only the changed span
+   * between the old and new text is written to the shared document.
+   */
+  applyLocalHtml(html: string): void {
+    if (!this.isReady) {
+      this.pendingHtml = html;
+      return;
+    }
+    this.replaceChanged(html, this.localOrigin);
+  }
+
+  /**
+   * Write the span where `html` differs from the shared text. The span is
+   * widened to whole tags and character references, so a tag is only ever
+   * inserted or deleted as a unit and a concurrent edit can't land inside it.
+   */
+  private replaceChanged(html: string, origin: unknown): void {
+    const current = this.text.toString();
+    if (current === html) return;
+
+    let start = 0;
+    const maxStart = Math.min(current.length, html.length);
+    while (start < maxStart && current[start] === html[start]) start++;
+
+    let endCurrent = current.length;
+    let endNext = html.length;
+    while (endCurrent > start && endNext > start && current[endCurrent - 1] === html[endNext - 1]) {
+      endCurrent--;
+      endNext--;
+    }
+
+    // The prefix and suffix are shared, so both texts widen by the same amount
+    start = unitStart(current, start);
+    const widen = unitEnd(current, endCurrent) - endCurrent;
+    endCurrent += widen;
+    endNext += widen;
+
+    this.doc.transact(() => {
+      if (endCurrent > start) this.text.delete(start, endCurrent - start);
+      if (endNext > start) this.text.insert(start, html.slice(start, endNext));
+    }, origin);
+  }
+
+  updateCursor(anchor: number, head: number): void {
+    this.pendingCursor = { anchor, head };
+    if (this.cursorTimer) return;
+
+    this.cursorTimer = setTimeout(() => {
+      this.cursorTimer = null;
+      if (!this.pendingCursor) return;
+      this.broadcast('cursor', {
+        sessionId: this.sessionId,
+        userId: this.user.id,
+        name: this.user.name,
+        color: this.color,
+        ...this.pendingCursor
+      });
+    }, CURSOR_THROTTLE_MS);
+  }
+
+  canUndo(): boolean {
+    return this.undoManager.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undoManager.redoStack.length > 0;
+  }
+
+  undo(): void {
+    this.undoManager.undo();
+  }
+
+  redo(): void {
+    this.undoManager.redo();
+  }
+
+  // Broadcast like any other update, so writers waiting for the document get it
+  private seed(initialHtml: string): void {
+    if (this.isReady) return;
+    this.text.insert(0, initialHtml || '');
+    this.markReady();
+  }
+
+  private markReady(): void {
+    if (this.isReady) return;
+    this.isReady = true;
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    // Edits typed while joining are applied on top of the live document
+    if (this.pendingHtml !== null) {
+      const html = this.pendingHtml;
+      this.pendingHtml = null;
+      this.applyLocalHtml(html);
+    }
+
+    this.emitContent();
+  }
+
+  /**
+   * Hand the shared HTML to the editor, repaired if merging left it
+   * malformed. The leader also writes the repair back so every writer's
+   * next edit starts from the same markup.
+   */
+  private emitContent(): void {
+    const html = this.text.toString();
+    const repaired = repairHtml(html);
+    if (repaired !== html && this.isPersistenceLeader()) {
+      this.replaceChanged(repaired, 'repair');
+    }
+    this.callbacks.onContentChange(repaired);
+  }
+
+  private updatePeers(): void {
+    if (!this.channel) return;
+
+    const state = this.channel.presenceState<PresenceState>();
+    this.peers = Object.entries(state)
+      .filter(([sessionId]) => sessionId !== this.sessionId)
+      .map(([sessionId, presences]) => ({ sessionId, ...presences[0] }))
+      // Sessions that don't report canSave predate it and save as before
+      .map(({ sessionId, userId, name, color, canSave }) => ({ sessionId, userId, name, color, canSave: canSave !== false }));
+
+    // Drop cursors of writers who left
+    const present = new Set(this.peers.map(peer => peer.sessionId));
+    Array.from(this.cursors.keys()).forEach(sessionId => {
+      if (!present.has(sessionId)) this.cursors.delete(sessionId);
+    });
+
+    this.callbacks.onPeersChange(this.peers);
+    this.emitCursors();
+  }
+
+  private presence(): PresenceState {
+    return { userId: this.user.id, name: this.user.name, color: this.color, canSave: this.canSave };
+  }
+
+  private emitCursors(): void {
+    this.callbacks.onCursorsChange(Array.from(this.cursors.values()));
+  }
+
+  private broadcast(event: string, payload: Record<string, unknown>): void {
+    this.channel?.send({ type: 'broadcast', event, payload });
+  }
+}
+
+class CollaborationService {
+  joinChapter(chapterId: string, user: CollaborationUser, callbacks: CollaborationCallbacks, initialHtml: string): CollaborationSession {
+    const session = new CollaborationSession(chapterId, user, callbacks);
+    session.connect(initialHtml);
+    return session;
+  }
+}
+
+export const collaborationService = new CollaborationService();
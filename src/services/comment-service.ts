@@ -0,0 +1,237 @@
+// src/services/comment-service.ts
+import { supabase, logSupabaseError } from '../lib/supabase';
+import type { TextAnchor } from '../utils/textAnchors';
+
+export type CommentStatus = 'open' | 'resolved';
+
+export interface ChapterComment {
+  id: string;
+  chapterId: string;
+  userId: string;
+  authorName: string;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A thread is its root comment (which carries the anchor) plus replies
+export interface CommentThread extends ChapterComment {
+  anchor: TextAnchor;
+  status: CommentStatus;
+  replies: ChapterComment[];
+}
+
+// A row of the chapter_comments table; only root comments carry an anchor
+interface DbComment {
+  id: string;
+  chapter_id: string;
+  user_id: string;
+  parent_id: string | null;
+  author_name: string | null;
+  body: string | null;
+  anchor_text: string | null;
+  anchor_prefix: string | null;
+  anchor_suffix: string | null;
+  anchor_start: number | null;
+  anchor_end: number | null;
+  status: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+class CommentService {
+  // Get every comment thread on a chapter, oldest first, with replies attached
+  async getChapterThreads(chapterId: string): Promise<CommentThread[]> {
+    try {
+      const { data, error } = await supabase
+        .from('chapter_comments')
+        .select('*')
+        .eq('chapter_id', chapterId)
+        .order('created_at');
+
+      if (error) {
+        logSupabaseError(error, 'CommentService.getChapterThreads');
+        return [];
+      }
+
+      const rows: DbComment[] = data || [];
+      const threads = rows.filter(row => !row.parent_id).map(row => this.mapDbThread(row));
+      const byId = new Map(threads.map(thread => [thread.id, thread]));
+
+      rows.filter(row => row.parent_id).forEach(row => {
+        byId.get(row.parent_id!)?.replies.push(this.mapDbComment(row));
+      });
+
+      return threads;
+    } catch (error) {
+      console.error('Error fetching chapter comments:', error);
+      return [];
+    }
+  }
+
+  async createThread(chapterId: string, anchor: TextAnchor, body: string): Promise<CommentThread | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('chapter_comments')
+        .insert({
+          chapter_id: chapterId,
+          user_id: user.id,
+          author_name: this.authorName(user),
+          body,
+          anchor_text: anchor.text,
+          anchor_prefix: anchor.prefix,
+          anchor_suffix: anchor.suffix,
+          anchor_start: anchor.start,
+          anchor_end: anchor.end,
+          status: 'open'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'CommentService.createThread');
+        return null;
+      }
+
+      return this.mapDbThread(data);
+    } catch (error) {
+      console.error('Error creating comment:', error);
+      return null;
+    }
+  }
+
+  async addReply(thread: CommentThread, body: string): Promise<ChapterComment | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('chapter_comments')
+        .insert({
+          chapter_id: thread.chapterId,
+          parent_id: thread.id,
+          user_id: user.id,
+          author_name: this.authorName(user),
+          body
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'CommentService.addReply');
+        return null;
+      }
+
+      return this.mapDbComment(data);
+    } catch (error) {
+      console.error('Error replying to comment:', error);
+      return null;
+    }
+  }
+
+  async setThreadStatus(threadId: string, status: CommentStatus): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('chapter_comments')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', threadId);
+
+      if (error) {
+        logSupabaseError(error, 'CommentService.setThreadStatus');
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating comment status:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store re-anchored positions after the chapter text moved under the threads
+   */
+  async updateAnchors(updates: { id: string; anchor: TextAnchor }[]): Promise<boolean> {
+    try {
+      const results = await Promise.all(updates.map(({ id, anchor }) =>
+        supabase
+          .from('chapter_comments')
+          .update({
+            anchor_text: anchor.text,
+            anchor_prefix: anchor.prefix,
+            anchor_suffix: anchor.suffix,
+            anchor_start: anchor.start,
+            anchor_end: anchor.end
+          })
+          .eq('id', id)
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        logSupabaseError(failed.error, 'CommentService.updateAnchors');
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating comment anchors:', error);
+      return false;
+    }
+  }
+
+  // Deleting a thread root also deletes its replies (ON DELETE CASCADE)
+  async deleteComment(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('chapter_comments')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        logSupabaseError(error, 'CommentService.deleteComment');
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      return false;
+    }
+  }
+
+  private authorName(user: { email?: string; user_metadata?: { full_name?: string } }): string {
+    return user.user_metadata?.full_name || user.email?.split('@')[0] || 'Anonymous';
+  }
+
+  private mapDbComment(row: DbComment): ChapterComment {
+    return {
+      id: row.id,
+      chapterId: row.chapter_id,
+      userId: row.user_id,
+      authorName: row.author_name || 'Anonymous',
+      body: row.body || '',
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapDbThread(row: DbComment): CommentThread {
+    return {
+      ...this.mapDbComment(row),
+      anchor: {
+        text: row.anchor_text || '',
+        prefix: row.anchor_prefix || '',
+        suffix: row.anchor_suffix || '',
+        start: row.anchor_start ?? 0,
+        end: row.anchor_end ?? 0
+      },
+      status: row.status === 'resolved' ? 'resolved' : 'open',
+      replies: []
+    };
+  }
+}
+
+export const commentService = new CommentService();
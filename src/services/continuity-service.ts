@@ -0,0 +1,408 @@
+// src/services/continuity-service.ts
+import { chapterService, Chapter } from './chapterService';
+import { characterService, Character } from './character-service';
+import { plotService } from './plot-service';
+import { worldBuildingService, WorldElement } from './world-building-service';
+import { storyCalendarService } from './story-calendar-service';
+import { findMentions, getCharacterNames, CharacterMention } from './character-mention-service';
+import { htmlToParagraphs } from '../utils/textDiff';
+import { StoryCalendar, TimelineEventInput, TimelineIssueKind, resolveTimeline } from '../utils/storyCalendar';
+import type { ConflictData } from '../types/masterCanvas';
+import type { PlotEvent, PlotThread } from '../types/plot';
+
+// Everything the rules cross-reference. Chapters may be in any order.
+export interface ContinuitySource {
+  chapters: Chapter[];
+  characters: Character[];
+  threads: PlotThread[];
+  events: PlotEvent[];
+  worldElements: WorldElement[];
+  calendar?: StoryCalendar;
+  timeline?: TimelineEventInput[];
+}
+
+// A place-like name has to turn up this often before it's reported
+const MIN_LOCATION_MENTIONS = 2;
+
+const DEATH_WORDS = /\b(dies|died|death|killed|murdered|slain|executed|perishes|perished|funeral)\b/i;
+const EXIT_WORDS = /\b(departs|departed|exiled|banished|vanishes|vanished|disappears|disappeared|leaves for good|never returns|sails away)\b/i;
+// Wording that names who the death or exit happens to, e.g. "Tomas dies" or "the murder of Tomas"
+const SUBJECT_AFTER = /^\s*(?:\S+\s+){0,2}?(?:dies|died|is killed|was killed|is murdered|was murdered|is slain|was slain|perishes|perished|is executed|was executed|is exiled|was exiled|is banished|was banished|departs|departed|vanishes|vanished|disappears|disappeared|leaves for good|never returns)\b/i;
+const SUBJECT_BEFORE = /(?:death of|murder of|funeral of|kills|killed|murders|murdered|slays|slew|executes|executed|exiles|exiled|banishes|banished)\s+$/i;
+
+const LOCATION_PREPOSITIONS = 'in|at|to|from|near|into|towards?|through|across|outside|inside|beyond|reached|entered|left|around|above|below|under|over';
+
+// Capitalised words that commonly follow a preposition without being a place
+const NOT_PLACES = new Set([
+  'I', 'God', 'Mr', 'Mrs', 'Ms', 'Miss', 'Dr', 'Sir', 'Lady', 'Lord', 'Father', 'Mother',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September',
+  'October', 'November', 'December', 'Christmas', 'Easter', 'Chapter', 'English', 'French'
+]);
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// Either case for the first letter, so "Twenty-three" matches at the start of a sentence
+const word = (value: string) => `[${value[0].toUpperCase()}${value[0]}]${value.slice(1)}`;
+const AGE_PATTERN = `(\\d{1,3}|(?:${TENS.map(word).join('|')})(?:[- ](?:${ONES.slice(1, 10).join('|')}))?|${ONES.slice(1).reverse().map(word).join('|')})`;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Read "23", "twenty-three" or "Twenty three"
+export function parseAge(text: string): number | null {
+  const value = text.toLowerCase().trim();
+  if (/^\d+$/.test(value)) return Number(value);
+  const [tens, ones] = value.split(/[- ]/);
+  const tensIndex = TENS.indexOf(tens);
+  if (tensIndex !== -1) {
+    const onesIndex = ones ? ONES.indexOf(ones) : 0;
+    return onesIndex >= 0 && onesIndex < 10 ? (tensIndex + 2) * 10 + onesIndex : null;
+  }
+  const index = ONES.indexOf(value);
+  return index === -1 ? null : index;
+}
+
+const sortChapters = (chapters: Chapter[]) => [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+
+const namePattern = (names: string[]) =>
+  names.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+/**
+ * Characters a death or exit event happens to: those the wording points at,
+ * or the only character named, or the thread's only character.
+ */
+function subjectsOf(text: string, characters: Character[], thread?: PlotThread): Character[] {
+  const named = characters.filter(character =>
+    getCharacterNames(character).some(name =>
+      new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'u').test(text)
+    )
+  );
+
+  const pointed = named.filter(character =>
+    getCharacterNames(character).some(name => {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'gu');
+      for (const match of text.matchAll(pattern)) {
+        const index = match.index || 0;
+        if (SUBJECT_AFTER.test(text.slice(index + match[0].length)) || SUBJECT_BEFORE.test(text.slice(0, index))) {
+          return true;
+        }
+      }
+      return false;
+    })
+  );
+
+  if (pointed.length > 0) return pointed;
+  if (named.length === 1) return named;
+  if (named.length === 0 && thread?.connected_character_ids?.length === 1) {
+    return characters.filter(character => character.id === thread.connected_character_ids[0]);
+  }
+  return [];
+}
+
+/**
+ * Characters still mentioned in chapters after a plot event where they die or
+ * leave the story.
+ */
+export function checkCharacterExits(
+  source: ContinuitySource,
+  mentions: CharacterMention[] = findMentions(source.chapters, source.characters)
+): ConflictData[] {
+  const chapters = sortChapters(source.chapters);
+  const position = new Map(chapters.map((chapter, index) => [chapter.id, index]));
+  const threads = new Map(source.threads.map(thread => [thread.id, thread]));
+  const findings: ConflictData[] = [];
+  const reported = new Set<string>();
+
+  // Earliest exit first, so a character who dies twice is reported once
+  const exits = source.events
+    .filter(event => event.chapter_id && position.has(event.chapter_id))
+    .sort((a, b) => (position.get(a.chapter_id!) as number) - (position.get(b.chapter_id!) as number));
+
+  exits.forEach(event => {
+    const text = `${event.title}. ${event.description || ''}`;
+    const isDeath = DEATH_WORDS.test(text);
+    if (!isDeath && !EXIT_WORDS.test(text)) return;
+
+    const exitIndex = position.get(event.chapter_id!) as number;
+    subjectsOf(text, source.characters, threads.get(event.thread_id)).forEach(character => {
+      if (reported.has(character.id)) return;
+
+      const later = new Map<string, number>();
+      mentions
+        .filter(mention => mention.characterId === character.id && (position.get(mention.chapterId) ?? -1) > exitIndex)
+        .forEach(mention => later.set(mention.chapterId, (later.get(mention.chapterId) || 0) + 1));
+      if (later.size === 0) return;
+
+      reported.add(character.id);
+      const laterChapters = chapters.filter(chapter => later.has(chapter.id));
+      const first = laterChapters[0];
+
+      findings.push({
+        id: `continuity:exit:${character.id}:${event.id}`,
+        type: 'character',
+        severity: isDeath ? 'high' : 'medium',
+        description: `${character.name} ${isDeath ? 'dies' : 'leaves the story'} in "${chapters[exitIndex].title}" ` +
+          `("${event.title}") but is mentioned in ${laterChapters.length} later chapter${laterChapters.length === 1 ? '' : 's'}, ` +
+          `first in "${first.title}".`,
+        suggestedFix: 'If these are memories or flashbacks, dismiss this; otherwise move the event later or revise the scenes after it.',
+        confidence: isDeath ? 0.75 : 0.6,
+        chapterId: first.id,
+        characterId: character.id
+      });
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Plot events whose chapters run backwards against their order within the
+ * thread.
+ */
+export function checkPlotEventOrder(source: ContinuitySource): ConflictData[] {
+  const chapters = sortChapters(source.chapters);
+  const position = new Map(chapters.map((chapter, index) => [chapter.id, index]));
+  const findings: ConflictData[] = [];
+
+  source.threads.forEach(thread => {
+    const events = source.events
+      .filter(event => event.thread_id === thread.id && event.chapter_id && position.has(event.chapter_id))
+      .sort((a, b) => a.order_index - b.order_index);
+
+    let latest: PlotEvent | null = null;
+    events.forEach(event => {
+      const index = position.get(event.chapter_id!) as number;
+      if (latest && index < (position.get(latest.chapter_id!) as number) && event.order_index > latest.order_index) {
+        findings.push({
+          id: `continuity:event-order:${latest.id}:${event.id}`,
+          type: 'logic',
+          severity: 'medium',
+          description: `In "${thread.title}", "${event.title}" comes after "${latest.title}" but is set in an earlier chapter ` +
+            `("${chapters[index].title}" before "${chapters[position.get(latest.chapter_id!) as number].title}").`,
+          suggestedFix: 'Reorder the events in the thread, or move one of them to a different chapter.',
+          confidence: 0.9,
+          chapterId: event.chapter_id
+        });
+      }
+      if (!latest || index >= (position.get(latest.chapter_id!) as number)) latest = event;
+    });
+  });
+
+  return findings;
+}
+
+const TIMELINE_SEVERITY: Partial<Record<TimelineIssueKind, ConflictData['severity']>> = {
+  conflict: 'high',
+  cycle: 'medium',
+  order: 'medium'
+};
+
+// Timeline events whose dates contradict their order or relative times
+export function checkTimeline(source: ContinuitySource): ConflictData[] {
+  if (!source.calendar || !source.timeline?.length) return [];
+  const titles = new Map(source.timeline.map(event => [event.id, event.title]));
+
+  return resolveTimeline(source.calendar, source.timeline).issues
+    .filter(issue => TIMELINE_SEVERITY[issue.kind])
+    .map(issue => ({
+      id: `continuity:timeline:${issue.kind}:${issue.eventId}`,
+      type: 'timeline' as const,
+      severity: TIMELINE_SEVERITY[issue.kind] as ConflictData['severity'],
+      description: `"${titles.get(issue.eventId)}": ${issue.message}.`,
+      suggestedFix: issue.kind === 'cycle'
+        ? 'Give one of these events a date of its own.'
+        : 'Fix the date, the relative time or the order so they agree.',
+      confidence: 0.95
+    }));
+}
+
+/**
+ * Capitalised names that follow place words ("in", "towards", "reached")
+ * in the prose but match no world element or character.
+ */
+export function checkUnknownLocations(source: ContinuitySource): ConflictData[] {
+  const chapters = sortChapters(source.chapters);
+  const known = new Set<string>();
+  source.worldElements.forEach(element => {
+    known.add(element.title.toLowerCase());
+    element.title.split(/\s+/).forEach(part => known.add(part.toLowerCase()));
+  });
+  source.characters.forEach(character => {
+    getCharacterNames(character).forEach(name => {
+      known.add(name.toLowerCase());
+      name.split(/\s+/).forEach(part => known.add(part.toLowerCase()));
+    });
+  });
+  source.calendar?.months.forEach(month => known.add(month.name.toLowerCase()));
+  source.calendar?.weekdays.forEach(day => known.add(day.toLowerCase()));
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}])(?:${LOCATION_PREPOSITIONS}) (?:the )?(\\p{Lu}[\\p{L}'-]+(?: (?:of )?\\p{Lu}[\\p{L}'-]+){0,3})`,
+    'gu'
+  );
+
+  const found = new Map<string, { count: number; chapterId: string; chapterTitle: string }>();
+  chapters.forEach(chapter => {
+    htmlToParagraphs(chapter.content).forEach(paragraph => {
+      for (const match of paragraph.text.matchAll(pattern)) {
+        const name = match[1].replace(/'s$/, '');
+        const words = name.split(' ').filter(part => part !== 'of');
+        if (known.has(name.toLowerCase()) || words.some(part => NOT_PLACES.has(part) || known.has(part.toLowerCase()))) continue;
+
+        const entry = found.get(name);
+        if (entry) entry.count++;
+        else found.set(name, { count: 1, chapterId: chapter.id, chapterTitle: chapter.title });
+      }
+    });
+  });
+
+  return Array.from(found.entries())
+    .filter(([, entry]) => entry.count >= MIN_LOCATION_MENTIONS)
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([name, entry]) => ({
+      id: `continuity:location:${name.toLowerCase()}`,
+      type: 'logic' as const,
+      severity: 'low' as const,
+      description: `"${name}" reads like a place (${entry.count} mentions, first in "${entry.chapterTitle}") but isn't in your world elements.`,
+      suggestedFix: `Add ${name} as a location in World Building, or dismiss this if it isn't a place.`,
+      confidence: Math.min(0.8, (3 + entry.count) / 10),
+      chapterId: entry.chapterId
+    }));
+}
+
+/**
+ * Ages stated in the prose ("Mira was twelve years old", "the
+ * 40-year-old Tomas") that go backwards between chapters, or never match
+ * the character's profile.
+ */
+export function checkAges(source: ContinuitySource): ConflictData[] {
+  const chapters = sortChapters(source.chapters);
+  const paragraphs = chapters.map(chapter => htmlToParagraphs(chapter.content).map(paragraph => paragraph.text));
+  const findings: ConflictData[] = [];
+
+  source.characters.forEach(character => {
+    const names = namePattern(getCharacterNames(character));
+    if (!names) return;
+
+    const boundary = (inner: string) => `(?<![\\p{L}\\p{N}_])${inner}(?![\\p{L}\\p{N}_])`;
+    const patterns = [
+      new RegExp(boundary(`(?:${names}),? (?:was|is|was now|is now|had been) (?:only |just )?${AGE_PATTERN}(?: years old| years of age)`), 'gu'),
+      new RegExp(boundary(`(?:${names}) (?:had )?(?:just )?turned ${AGE_PATTERN}`), 'gu'),
+      new RegExp(boundary(`(?:${names}), aged? ${AGE_PATTERN}`), 'gu'),
+      new RegExp(boundary(`${AGE_PATTERN}-year-old (?:${names})`), 'gu')
+    ];
+
+    const statements: Array<{ chapterIndex: number; age: number }> = [];
+    paragraphs.forEach((texts, chapterIndex) => {
+      texts.forEach(text => {
+        patterns.forEach(pattern => {
+          for (const match of text.matchAll(pattern)) {
+            const age = parseAge(match[1]);
+            if (age !== null) statements.push({ chapterIndex, age });
+          }
+        });
+      });
+    });
+    if (statements.length === 0) return;
+
+    let oldest = statements[0];
+    statements.forEach(statement => {
+      if (statement.chapterIndex > oldest.chapterIndex && statement.age < oldest.age) {
+        findings.push({
+          id: `continuity:age-order:${character.id}:${chapters[statement.chapterIndex].id}`,
+          type: 'character',
+          severity: 'medium',
+          description: `${character.name} is ${statement.age} in "${chapters[statement.chapterIndex].title}" ` +
+            `but already ${oldest.age} in the earlier "${chapters[oldest.chapterIndex].title}".`,
+          suggestedFix: 'Correct one of the ages, or dismiss this if the later chapter is a flashback.',
+          confidence: 0.7,
+          chapterId: chapters[statement.chapterIndex].id,
+          characterId: character.id
+        });
+      }
+      if (statement.age > oldest.age) oldest = statement;
+    });
+
+    if (typeof character.age === 'number' && !statements.some(statement => statement.age === character.age)) {
+      const first = statements[0];
+      findings.push({
+        id: `continuity:age-profile:${character.id}`,
+        type: 'character',
+        severity: 'low',
+        description: `${character.name}'s profile gives their age as ${character.age}, but ` +
+          `"${chapters[first.chapterIndex].title}" says ${first.age}.`,
+        suggestedFix: 'Update the character profile or the text so they agree.',
+        confidence: 0.5,
+        chapterId: chapters[first.chapterIndex].id,
+        characterId: character.id
+      });
+    }
+  });
+
+  return findings;
+}
+
+const SEVERITY_ORDER: Record<ConflictData['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+// Every rule, most severe findings first
+export function checkContinuity(source: ContinuitySource): ConflictData[] {
+  const mentions = findMentions(source.chapters, source.characters);
+  return [
+    ...checkCharacterExits(source, mentions),
+    ...checkPlotEventOrder(source),
+    ...checkTimeline(source),
+    ...checkUnknownLocations(source),
+    ...checkAges(source)
+  ].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.confidence - a.confidence);
+}
+
+// Dismissed findings are remembered per project so re-running doesn't bring them back
+const dismissedKey = (projectId: string) => `continuityDismissed:${projectId}`;
+
+class ContinuityService {
+  /**
+   * Run every rule against a project's planning data and manuscript. Pass
+   * the canvas timeline events to check their dates too. Findings the writer
+   * dismissed before come back with userDismissed set.
+   */
+  async checkProject(projectId: string, timeline: TimelineEventInput[] = []): Promise<ConflictData[]> {
+    const [chapters, characters, threads, events, worldElements, calendar] = await Promise.all([
+      chapterService.getProjectChapters(projectId),
+      characterService.getCharacters(projectId).catch(() => []),
+      plotService.getPlotThreads(projectId).catch(() => []),
+      plotService.getPlotEvents(undefined, projectId).catch(() => []),
+      worldBuildingService.getWorldElements(projectId).catch(() => []),
+      storyCalendarService.getCalendar(projectId)
+    ]);
+
+    const dismissed = new Set(this.getDismissed(projectId));
+    return checkContinuity({ chapters, characters, threads, events, worldElements, calendar, timeline })
+      .map(finding => ({ ...finding, userDismissed: dismissed.has(finding.id) }));
+  }
+
+  getDismissed(projectId: string): string[] {
+    try {
+      const stored = window.localStorage.getItem(dismissedKey(projectId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Error reading dismissed continuity findings:', error);
+      return [];
+    }
+  }
+
+  dismiss(projectId: string, findingId: string): void {
+    try {
+      const dismissed = new Set(this.getDismissed(projectId));
+      dismissed.add(findingId);
+      window.localStorage.setItem(dismissedKey(projectId), JSON.stringify(Array.from(dismissed)));
+    } catch (error) {
+      console.warn('Error saving dismissed continuity finding:', error);
+    }
+  }
+}
+
+export const continuityService = new ContinuityService();
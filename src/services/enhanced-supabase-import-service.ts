@@ -2,6 +2,15 @@
 
 import { supabase } from '../lib/supabase';
 import { ImportedDatabase, ImportedRecord } from './notion-import-service';
+import {
+  CHARACTER_DATA_PREFIX,
+  FieldMapping,
+  MappedRecord,
+  NotionRecordType,
+  applyMapping,
+  guessMapping,
+  titleField
+} from '../utils/notionMapping';
 
 export interface ImportResult {
   success: boolean;
@@ -23,12 +32,32 @@ export interface ImportResult {
   };
 }
 
+// The table each kind of Notion record is imported into, and the id prefix its rows get
+export const NOTION_RECORD_TABLES: Record<NotionRecordType, { table: string; prefix: string }> = {
+  character: { table: 'characters', prefix: 'char' },
+  plot: { table: 'plot_threads', prefix: 'plot' },
+  chapter: { table: 'chapters', prefix: 'chapter' },
+  location: { table: 'locations', prefix: 'loc' },
+  unknown: { table: 'world_elements', prefix: 'world' },
+};
+
+// Columns buildRow fills from a field other than their own
+const COLUMN_SOURCES: Record<string, string> = {
+  order: 'chapter_number',
+};
+
+export function notionRecordId(type: NotionRecordType, projectId: string, pageId: string): string {
+  return `${projectId}-${NOTION_RECORD_TABLES[type].prefix}-${pageId}`;
+}
+
 export class EnhancedSupabaseImportService {
   
   async importFromNotion(
     databases: ImportedDatabase[], 
     projectName: string,
-    userId: string
+    userId: string,
+    // Field mappings by database id; databases without one use the guessed mapping
+    mappings: Record<string, FieldMapping> = {}
   ): Promise<ImportResult> {
     const result: ImportResult = {
       success: false,
@@ -45,7 +74,8 @@ export class EnhancedSupabaseImportService {
       // Process each database type
       for (const database of databases) {
         try {
-          await this.importDatabaseWithDistribution(database, project.id, result);
+          const mapping = mappings[database.id] || guessMapping(database.type, database.properties);
+          await this.importDatabaseWithDistribution(database, project.id, result, mapping);
         } catch (error) {
           console.error(`Failed to import database ${database.name}:`, error);
           result.errors.push(`Failed to import ${database.name}: ${error.message}`);
@@ -86,34 +116,124 @@ export class EnhancedSupabaseImportService {
     return data;
   }
 
-  private async importDatabaseWithDistribution(database: ImportedDatabase, projectId: string, result: ImportResult) {
+  private async importDatabaseWithDistribution(
+    database: ImportedDatabase,
+    projectId: string,
+    result: ImportResult,
+    mapping: FieldMapping
+  ) {
+    const records = database.records.map(record => applyMapping(record, database.type, mapping));
     const importMap = {
-      'character': () => this.importCharacters(database.records, projectId, result),
-      'plot': () => this.importPlots(database.records, projectId, result),
-      'chapter': () => this.importChaptersWithDistribution(database.records, projectId, result),
-      'location': () => this.importLocationsWithDistribution(database.records, projectId, result),
+      'character': () => this.importCharacters(records, projectId, result),
+      'plot': () => this.importPlots(records, projectId, result),
+      'chapter': () => this.importChaptersWithDistribution(records, projectId, result),
+      'location': () => this.importLocationsWithDistribution(records, projectId, result),
     };
 
-    const importFn = importMap[database.type] || (() => this.importAsWorldElements(database.records, projectId, result));
+    const importFn = importMap[database.type] || (() => this.importAsWorldElements(records, projectId, result));
     await importFn();
   }
 
+  /**
+   * The columns a mapped record fills in its table, without ids or import
+   * stamps. Sync uses the same conversion to update rows after Notion edits.
+   */
+  buildRow(type: NotionRecordType, { record, fields, data }: MappedRecord): Record<string, unknown> {
+    switch (type) {
+      case 'character':
+        return {
+          name: this.text(fields.name),
+          role: this.mapNotionRoleToApp(this.text(fields.role)),
+          age: this.number(fields.age),
+          description: this.text(fields.description),
+          background: this.text(fields.background),
+          physical_description: this.text(fields.physical_description),
+          occupation: this.text(fields.occupation),
+          traits: this.list(fields.traits),
+          tags: this.list(fields.tags),
+          fantasy_class: this.text(fields.fantasy_class),
+          character_data: data,
+        };
+      case 'plot':
+        return {
+          title: this.text(fields.title),
+          description: this.text(fields.description),
+          type: this.mapPlotType(this.text(fields.type) || 'subplot'),
+          status: this.mapStatus(this.text(fields.status) || 'in_progress'),
+          completion_percentage: Math.min(100, Math.max(0, this.number(fields.completion_percentage) || 0)),
+          tags: this.list(fields.tags),
+        };
+      case 'chapter':
+        return {
+          title: this.text(fields.title),
+          chapter_number: this.number(fields.chapter_number) || 0,
+          description: this.text(fields.description),
+          status: this.mapChapterStatus(this.text(fields.status) || 'not_started'),
+          word_count: this.number(fields.word_count) || 0,
+          order: this.number(fields.chapter_number) || 0,
+        };
+      case 'location':
+        return {
+          name: this.text(fields.name),
+          description: this.text(fields.description),
+          geography: this.text(fields.geography),
+          culture: this.text(fields.culture),
+          climate: this.text(fields.climate),
+        };
+      default:
+        return {
+          title: this.text(fields.title),
+          category: this.mapWorldCategory(this.text(fields.category)) || this.detectWorldElementCategory(record),
+          description: this.text(fields.description),
+          tags: this.list(fields.tags),
+        };
+    }
+  }
+
+  /**
+   * The columns of buildRow that a mapping fills. A sync writes and compares
+   * only these, so columns no property feeds keep their Nimbus values
+   * instead of being reset to buildRow's defaults.
+   */
+  syncedColumns(type: NotionRecordType, mapping: FieldMapping): string[] {
+    const keys = new Set([...Object.values(mapping), titleField(type)]);
+    const blank: ImportedRecord = { id: '', name: '', properties: {}, type };
+
+    return Object.keys(this.buildRow(type, { record: blank, fields: {}, data: {} })).filter(column =>
+      column === 'character_data'
+        ? [...keys].some(key => key.startsWith(CHARACTER_DATA_PREFIX))
+        : keys.has(COLUMN_SOURCES[column] || column)
+    );
+  }
+
+  // buildRow cut to the synced columns, keeping a description taken from the page content
+  buildSyncedRow(type: NotionRecordType, mapped: MappedRecord, mapping: FieldMapping): Record<string, unknown> {
+    const columns = this.syncedColumns(type, mapping);
+    if (mapped.fields.description !== undefined) columns.push('description');
+    return Object.fromEntries(Object.entries(this.buildRow(type, mapped)).filter(([column]) => columns.includes(column)));
+  }
+
+  // A row's values in the synced columns, with only the mapped character data
+  syncedValues(type: NotionRecordType, row: Record<string, unknown>, mapping: FieldMapping): Record<string, unknown> {
+    const dataKeys = Object.values(mapping)
+      .filter(key => key.startsWith(CHARACTER_DATA_PREFIX))
+      .map(key => key.slice(CHARACTER_DATA_PREFIX.length));
+    const data = (row.character_data || {}) as Record<string, unknown>;
+
+    return Object.fromEntries(this.syncedColumns(type, mapping).map(column => [
+      column,
+      column === 'character_data' ? Object.fromEntries(dataKeys.map(key => [key, data[key]])) : row[column]
+    ]));
+  }
+
   // ===== CHARACTER IMPORT =====
-  private async importCharacters(records: ImportedRecord[], projectId: string, result: ImportResult) {
+  private async importCharacters(records: MappedRecord[], projectId: string, result: ImportResult) {
     if (records.length === 0) return;
 
-    const charactersToInsert = records.map(record => ({
-      id: `${projectId}-char-${record.id}`,
+    const charactersToInsert = records.map(mapped => ({
+      id: notionRecordId('character', projectId, mapped.record.id),
       project_id: projectId,
-      name: record.name,
-      role: this.mapNotionRoleToApp(record.properties.Role || record.properties.Type || ''),
-      age: this.extractAge(record.properties.Age || record.properties['Age '] || ''),
-      description: this.buildDescription(record),
-      background: record.properties.Background || record.properties.Backstory || '',
-      physical_description: record.properties['Face Claim'] || record.properties.Appearance || '',
-      traits: this.extractTraits(record.properties),
-      tags: this.extractTags(record.properties),
-      fantasy_class: this.extractFantasyClass(record.properties),
+      ...this.buildRow('character', mapped),
       imported_from: 'notion',
       imported_at: new Date().toISOString(),
     }));
@@ -128,19 +248,14 @@ export class EnhancedSupabaseImportService {
   }
 
   // ===== PLOT IMPORT =====
-  private async importPlots(records: ImportedRecord[], projectId: string, result: ImportResult) {
+  private async importPlots(records: MappedRecord[], projectId: string, result: ImportResult) {
     if (records.length === 0) return;
 
-    const plotThreadsToInsert = records.map(record => ({
-      id: `${projectId}-plot-${record.id}`,
+    const plotThreadsToInsert = records.map(mapped => ({
+      id: notionRecordId('plot', projectId, mapped.record.id),
       project_id: projectId,
-      title: record.name,
-      description: record.properties.content || record.properties.Description || '',
-      type: this.mapPlotType(record.properties.Stats || record.properties.Type || 'subplot'),
-      status: this.mapStatus(record.properties.Finished || record.properties.Status || 'in_progress'),
-      color: this.getPlotColor(record.properties.Stats || record.properties.Type),
-      completion_percentage: this.parseProgress(record.properties.Progress || '0%'),
-      tags: this.extractTags(record.properties),
+      ...this.buildRow('plot', mapped),
+      color: this.getPlotColor(this.text(mapped.fields.type)),
       imported_from: 'notion',
       imported_at: new Date().toISOString(),
     }));
@@ -155,18 +270,13 @@ export class EnhancedSupabaseImportService {
   }
 
   // ===== CHAPTER IMPORT =====
-  private async importChaptersWithDistribution(records: ImportedRecord[], projectId: string, result: ImportResult) {
+  private async importChaptersWithDistribution(records: MappedRecord[], projectId: string, result: ImportResult) {
     if (records.length === 0) return;
 
-    const chaptersToInsert = records.map(record => ({
-      id: `${projectId}-chapter-${record.id}`,
+    const chaptersToInsert = records.map(mapped => ({
+      id: notionRecordId('chapter', projectId, mapped.record.id),
       project_id: projectId,
-      title: record.name,
-      chapter_number: record.properties.Chapter || record.properties['Chapter '] || 0,
-      description: record.properties.Notes || record.properties['Notes '] || record.properties.Description || '',
-      status: this.mapChapterStatus(record.properties.Status || 'not_started'),
-      word_count: record.properties['Word Count'] || 0,
-      order: record.properties.Chapter || record.properties['Chapter '] || 0,
+      ...this.buildRow('chapter', mapped),
       imported_from: 'notion',
       imported_at: new Date().toISOString(),
     }));
@@ -186,18 +296,14 @@ export class EnhancedSupabaseImportService {
   }
 
   // ===== LOCATION IMPORT =====
-  private async importLocationsWithDistribution(records: ImportedRecord[], projectId: string, result: ImportResult) {
+  private async importLocationsWithDistribution(records: MappedRecord[], projectId: string, result: ImportResult) {
     if (records.length === 0) return;
 
     // Import to locations table
-    const locationsToInsert = records.map(record => ({
-      id: `${projectId}-loc-${record.id}`,
+    const locationsToInsert = records.map(mapped => ({
+      id: notionRecordId('location', projectId, mapped.record.id),
       project_id: projectId,
-      name: record.name,
-      description: record.properties.content || record.properties.Description || '',
-      geography: record.properties.Geography || '',
-      culture: record.properties.Culture || '',
-      climate: record.properties.Climate || '',
+      ...this.buildRow('location', mapped),
       imported_from: 'notion',
       imported_at: new Date().toISOString(),
     }));
@@ -208,13 +314,13 @@ export class EnhancedSupabaseImportService {
     result.imported.locations = locationsData?.length || 0;
 
     // Also import as world elements
-    const worldElementsToInsert = records.map(record => ({
+    const worldElementsToInsert = records.map(({ record, fields }) => ({
       id: `${projectId}-world-${record.id}`,
       project_id: projectId,
-      title: record.name,
+      title: this.text(fields.name),
       category: 'location',
-      description: record.properties.content || record.properties.Description || '',
-      tags: this.extractTags(record.properties),
+      description: this.text(fields.description),
+      tags: this.list(fields.tags),
       imported_from: 'notion',
       imported_at: new Date().toISOString(),
     }));
@@ -228,16 +334,13 @@ export class EnhancedSupabaseImportService {
   }
 
   // ===== WORLD ELEMENTS IMPORT =====
-  private async importAsWorldElements(records: ImportedRecord[], projectId: string, result: ImportResult) {
+  private async importAsWorldElements(records: MappedRecord[], projectId: string, result: ImportResult) {
     if (records.length === 0) return;
 
-    const worldElementsToInsert = records.map(record => ({
-      id: `${projectId}-world-${record.id}`,
+    const worldElementsToInsert = records.map(mapped => ({
+      id: notionRecordId('unknown', projectId, mapped.record.id),
       project_id: projectId,
-      title: record.name,
-      category: this.detectWorldElementCategory(record),
-      description: record.properties.content || record.properties.Description || '',
-      tags: this.extractTags(record.properties),
+      ...this.buildRow('unknown', mapped),
       imported_from: 'notion',
       imported_at: new Date().toISOString(),
     }));
@@ -295,7 +398,7 @@ export class EnhancedSupabaseImportService {
   }
 
   // ===== OUTLINE CREATION =====
-  private async createOutlineFromChapters(records: ImportedRecord[], projectId: string): Promise<number> {
+  private async createOutlineFromChapters(records: MappedRecord[], projectId: string): Promise<number> {
     const chaptersByBook = this.groupChaptersByBook(records);
     let totalNodes = 0;
 
@@ -323,10 +426,10 @@ export class EnhancedSupabaseImportService {
           .insert([{
             project_id: projectId,
             parent_id: actNode.id,
-            title: chapter.name,
+            title: this.text(chapter.fields.title),
             type: 'chapter',
-            description: chapter.properties.Notes || chapter.properties['Notes '] || '',
-            order: chapter.properties.Chapter || chapter.properties['Chapter '] || 1,
+            description: this.text(chapter.fields.description),
+            order: this.number(chapter.fields.chapter_number) || 1,
           }]);
 
         if (!chapterError) totalNodes++;
@@ -337,24 +440,17 @@ export class EnhancedSupabaseImportService {
   }
 
   // ===== HELPER FUNCTIONS =====
-  private extractAge(ageStr: string): number | undefined {
-    const match = ageStr.match(/(\d+)/);
-    return match ? parseInt(match[1], 10) : undefined;
+  // Mapped values are already converted to their field's kind; these narrow them for inserts
+  private text(value: MappedRecord['fields'][string] | undefined): string {
+    return typeof value === 'string' ? value : '';
   }
 
-  private buildDescription(record: ImportedRecord): string {
-    const parts = [];
-    if (record.properties.content) parts.push(record.properties.content);
-    if (record.properties.Description) parts.push(record.properties.Description);
-    return parts.join('\n\n');
+  private number(value: MappedRecord['fields'][string] | undefined): number | undefined {
+    return typeof value === 'number' ? value : undefined;
   }
 
-  private extractTraits(props: any): string[] {
-    const traits = [];
-    if (Array.isArray(props.Abilities)) traits.push(...props.Abilities);
-    if (Array.isArray(props.Techniques)) traits.push(...props.Techniques);
-    if (Array.isArray(props['Multi-select'])) traits.push(...props['Multi-select']);
-    return [...new Set(traits)];
+  private list(value: MappedRecord['fields'][string] | undefined): string[] {
+    return Array.isArray(value) ? value : [];
   }
 
   private extractTags(props: any): string[] {
@@ -371,16 +467,6 @@ export class EnhancedSupabaseImportService {
     return [...new Set(tags)];
   }
 
-  private extractFantasyClass(props: any): string {
-    const fields = ['Multi-select', 'Class', 'Fantasy Class', 'Role'];
-    for (const field of fields) {
-      if (props[field]) {
-        return Array.isArray(props[field]) ? props[field].join(', ') : props[field];
-      }
-    }
-    return '';
-  }
-
   private extractContentForLibrary(record: ImportedRecord): string {
     const parts = [];
     if (record.content) parts.push(record.content);
@@ -428,11 +514,6 @@ export class EnhancedSupabaseImportService {
     return { 'Main Plot': '#3B82F6', 'Sub Plot': '#10B981', 'Side Story': '#8B5CF6' }[type] || '#6B7280';
   }
 
-  private parseProgress(progress: string): number {
-    const match = progress.match(/(\d+)/);
-    return match ? Math.min(100, Math.max(0, parseInt(match[1], 10))) : 0;
-  }
-
   private mapChapterStatus(status: string): string {
     const map = { 'Not started': 'not_started', 'In progress': 'in_progress', 'Done': 'completed' };
     return map[status] || 'planned';
@@ -442,6 +523,11 @@ export class EnhancedSupabaseImportService {
     return (status === 'Yes' || status === 'Done') ? 'completed' : 'in_progress';
   }
 
+  private mapWorldCategory(category: string): string {
+    const normalized = category.trim().toLowerCase();
+    return ['location', 'culture', 'technology', 'economy', 'hierarchy'].includes(normalized) ? normalized : '';
+  }
+
   private detectWorldElementCategory(record: ImportedRecord): string {
     const name = record.name.toLowerCase();
     const content = (record.properties.content || '').toLowerCase();
@@ -452,23 +538,16 @@ export class EnhancedSupabaseImportService {
     return 'location';
   }
 
-  private groupChaptersByBook(records: ImportedRecord[]): Record<string, ImportedRecord[]> {
-    const groups: Record<string, ImportedRecord[]> = {};
+  private groupChaptersByBook(records: MappedRecord[]): Record<string, MappedRecord[]> {
+    const groups: Record<string, MappedRecord[]> = {};
     for (const record of records) {
-      const bookName = this.extractBookName(record);
+      const bookName = this.text(record.fields.book).split(', ')[0] || 'Imported Story';
       if (!groups[bookName]) groups[bookName] = [];
       groups[bookName].push(record);
     }
     return groups;
   }
 
-  private extractBookName(record: ImportedRecord): string {
-    const props = record.properties;
-    if (props.Books?.[0]) return props.Books[0];
-    if (props['Books ']?.[0]) return props['Books '][0];
-    return 'Imported Story';
-  }
-
   private getTotalImported(imported: ImportResult['imported']): number {
     return Object.values(imported).reduce((sum, count) => sum + count, 0);
   }
@@ -0,0 +1,286 @@
+// src/services/find-replace-service.ts
+import { v4 as uuidv4 } from 'uuid';
+import { chapterService, Chapter } from './chapterService';
+import { autoSaveService } from './autoSaveService';
+import { characterService } from './character-service';
+import { worldBuildingService } from './world-building-service';
+import { FindOptions, TextMatch, findMatches, replaceMatches, replaceInText } from '../utils/findReplace';
+
+export interface ChapterMatches {
+  chapter: Chapter;
+  matches: TextMatch[];
+}
+
+export interface EntityRename {
+  kind: 'character' | 'world_element';
+  id: string;
+  before: string;
+  after: string;
+}
+
+export interface ReplacedChapter {
+  chapterId: string;
+  title: string;
+  // Draft taken before the replace; undo restores from it
+  snapshotId: string;
+  count: number;
+  // When the replace saved the chapter; a later save means it was edited since
+  replacedAt?: string;
+  // Draft taken before undoing the replace
+  undoSnapshotId?: string;
+}
+
+export interface ReplaceBatch {
+  id: string;
+  projectId: string;
+  query: string;
+  replacement: string;
+  createdAt: string;
+  chapters: ReplacedChapter[];
+  renames: EntityRename[];
+  undoneAt?: string;
+}
+
+export interface ReplaceRequest {
+  projectId: string;
+  query: string;
+  pattern: RegExp;
+  replacement: string;
+  options: FindOptions;
+  // The chapters as previewed, with the ids of the matches to replace
+  selections: Array<{ chapter: Chapter; matchIds: string[] }>;
+  renames: EntityRename[];
+}
+
+export interface ReplaceResult {
+  batch: ReplaceBatch | null;
+  skipped: Array<{ title: string; reason: string }>;
+}
+
+// Recent batches per project are kept so they can be undone after the dialog
+// closes. Older batches give up their snapshots' names, so the drafts are
+// cleaned up like any other.
+const MAX_STORED_BATCHES = 10;
+const storageKey = (projectId: string) => `replaceBatches:${projectId}`;
+
+class FindReplaceService {
+  async getChapters(projectId: string): Promise<Chapter[]> {
+    const chapters = await chapterService.getProjectChapters(projectId);
+    return [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+
+  findInChapters(chapters: Chapter[], pattern: RegExp, replacement: string, options: FindOptions): ChapterMatches[] {
+    return chapters
+      .map(chapter => ({ chapter, matches: findMatches(chapter.content, pattern, replacement, options) }))
+      .filter(result => result.matches.length > 0);
+  }
+
+  /**
+   * Characters and world elements whose name contains a match, with the name
+   * they would get.
+   */
+  async findEntityRenames(projectId: string, pattern: RegExp, replacement: string, options: FindOptions): Promise<EntityRename[]> {
+    const [characters, elements] = await Promise.all([
+      characterService.getCharacters(projectId).catch(() => []),
+      worldBuildingService.getWorldElements(projectId).catch(() => [])
+    ]);
+
+    const rename = (kind: EntityRename['kind'], id: string, name: string): EntityRename | null => {
+      const after = replaceInText(name, pattern, replacement, options);
+      return after !== name ? { kind, id, before: name, after } : null;
+    };
+
+    return [
+      ...characters.map(character => rename('character', character.id, character.name)),
+      ...elements.map(element => rename('world_element', element.id, element.title))
+    ].filter((item): item is EntityRename => item !== null);
+  }
+
+  /**
+   * Apply a replace across chapters as one batch. Each chapter gets a named
+   * snapshot first; a chapter that changed since the preview, or whose
+   * snapshot couldn't be saved, is left alone and reported as skipped.
+   */
+  async applyBatch(request: ReplaceRequest): Promise<ReplaceResult> {
+    const { projectId, query, pattern, replacement, options } = request;
+    const label = `Before replacing "${query}" with "${replacement}"`;
+    const chapters: ReplacedChapter[] = [];
+    const renames: EntityRename[] = [];
+    const skipped: ReplaceResult['skipped'] = [];
+
+    for (const { chapter, matchIds } of request.selections) {
+      if (matchIds.length === 0) continue;
+      const included = new Set(matchIds);
+
+      const current = await chapterService.getChapter(chapter.id);
+      if (!current || current.content !== chapter.content) {
+        skipped.push({ title: chapter.title, reason: 'Changed since the preview' });
+        continue;
+      }
+
+      const snapshot = await autoSaveService.createSnapshot({
+        chapterId: chapter.id,
+        title: current.title,
+        content: current.content,
+        wordCount: current.wordCount
+      }, label);
+      if (!snapshot) {
+        skipped.push({ title: chapter.title, reason: 'Could not save a snapshot' });
+        continue;
+      }
+
+      const { html, count } = replaceMatches(current.content, pattern, replacement, options, id => included.has(id));
+      const updated = count > 0
+        ? await chapterService.updateChapter(chapter.id, { content: html })
+        : null;
+      if (!updated) {
+        skipped.push({ title: chapter.title, reason: 'Could not save the chapter' });
+        continue;
+      }
+
+      chapters.push({ chapterId: chapter.id, title: chapter.title, snapshotId: snapshot.id, count, replacedAt: updated.updatedAt });
+    }
+
+    for (const rename of request.renames) {
+      try {
+        await this.renameEntity(rename.kind, rename.id, rename.after);
+        renames.push(rename);
+      } catch (error) {
+        console.error('Error renaming during replace:', error);
+        skipped.push({ title: rename.before, reason: 'Could not rename' });
+      }
+    }
+
+    if (chapters.length === 0 && renames.length === 0) {
+      return { batch: null, skipped };
+    }
+
+    const batch: ReplaceBatch = {
+      id: uuidv4(),
+      projectId,
+      query,
+      replacement,
+      createdAt: new Date().toISOString(),
+      chapters,
+      renames
+    };
+    this.storeBatches(projectId, [batch, ...this.getBatches(projectId)]);
+    return { batch, skipped };
+  }
+
+  /**
+   * Put every chapter and name in a batch back the way it was. Chapters are
+   * restored from their snapshots, after snapshotting the current text so the
+   * undo can itself be reverted from version history. A chapter edited or an
+   * entity renamed since the replace is left alone and reported as edited, so
+   * the edits aren't lost.
+   */
+  async undoBatch(batch: ReplaceBatch): Promise<{ restored: number; failed: string[]; edited: string[] }> {
+    const failed: string[] = [];
+    const edited: string[] = [];
+    const undoSnapshots = new Map<string, string>();
+    let restored = 0;
+
+    for (const item of batch.chapters) {
+      try {
+        const [previous, current] = await Promise.all([
+          autoSaveService.recoverFromDraft(item.snapshotId),
+          chapterService.getChapter(item.chapterId)
+        ]);
+        if (!previous.success || previous.content === undefined || !current) throw new Error(previous.error || 'Chapter not found');
+        if (item.replacedAt && current.updatedAt !== item.replacedAt) {
+          edited.push(item.title);
+          continue;
+        }
+
+        const snapshot = await autoSaveService.createSnapshot({
+          chapterId: item.chapterId,
+          title: current.title,
+          content: current.content,
+          wordCount: current.wordCount
+        }, `Before undoing replace of "${batch.query}"`);
+        if (snapshot) undoSnapshots.set(item.chapterId, snapshot.id);
+
+        const updated = await chapterService.updateChapter(item.chapterId, { content: previous.content });
+        if (!updated) throw new Error('Could not save the chapter');
+        restored++;
+      } catch (error) {
+        console.error('Error undoing replace:', error);
+        failed.push(item.title);
+      }
+    }
+
+    for (const rename of batch.renames) {
+      try {
+        const name = await this.entityName(rename.kind, rename.id);
+        if (name === null) throw new Error('Not found');
+        if (name !== rename.after) {
+          edited.push(name);
+          continue;
+        }
+
+        await this.renameEntity(rename.kind, rename.id, rename.before);
+        restored++;
+      } catch (error) {
+        console.error('Error undoing rename:', error);
+        failed.push(rename.after);
+      }
+    }
+
+    this.storeBatches(batch.projectId, this.getBatches(batch.projectId).map(item =>
+      item.id === batch.id
+        ? {
+            ...item,
+            undoneAt: new Date().toISOString(),
+            chapters: item.chapters.map(chapter => ({ ...chapter, undoSnapshotId: undoSnapshots.get(chapter.chapterId) }))
+          }
+        : item
+    ));
+    return { restored, failed, edited };
+  }
+
+  getBatches(projectId: string): ReplaceBatch[] {
+    try {
+      const stored = window.localStorage.getItem(storageKey(projectId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Error reading replace history:', error);
+      return [];
+    }
+  }
+
+  private storeBatches(projectId: string, batches: ReplaceBatch[]): void {
+    try {
+      window.localStorage.setItem(storageKey(projectId), JSON.stringify(batches.slice(0, MAX_STORED_BATCHES)));
+    } catch (error) {
+      console.warn('Error saving replace history:', error);
+      return;
+    }
+    this.releaseSnapshots(batches.slice(MAX_STORED_BATCHES));
+  }
+
+  // Unname the snapshots of batches that can no longer be undone
+  private async releaseSnapshots(batches: ReplaceBatch[]): Promise<void> {
+    const draftIds = batches.flatMap(batch => batch.chapters.flatMap(chapter =>
+      chapter.undoSnapshotId ? [chapter.snapshotId, chapter.undoSnapshotId] : [chapter.snapshotId]
+    ));
+    await Promise.all(draftIds.map(draftId => autoSaveService.setDraftLabel(draftId, null)));
+  }
+
+  private async entityName(kind: EntityRename['kind'], id: string): Promise<string | null> {
+    if (kind === 'character') {
+      return (await characterService.getCharacter(id))?.name ?? null;
+    }
+    return (await worldBuildingService.getWorldElement(id))?.title ?? null;
+  }
+
+  private async renameEntity(kind: EntityRename['kind'], id: string, name: string): Promise<void> {
+    if (kind === 'character') {
+      await characterService.updateCharacter(id, { name });
+    } else {
+      await worldBuildingService.updateWorldElement(id, { title: name });
+    }
+  }
+}
+
+export const findReplaceService = new FindReplaceService();
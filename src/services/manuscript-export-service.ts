@@ -0,0 +1,910 @@
+// src/services/manuscript-export-service.ts
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { chapterService, Chapter } from './chapterService';
+import { projectService } from './projectService';
+import { acceptedHtml } from '../utils/trackChanges';
+
+export type ManuscriptFormat = 'epub' | 'docx' | 'markdown';
+
+export type ManuscriptPreset = 'default' | 'standard_manuscript';
+
+export type ChapterStatus = Chapter['status'];
+
+export interface ManuscriptExportOptions {
+  format: ManuscriptFormat;
+  preset: ManuscriptPreset;
+  // Only chapters with these statuses are exported; empty or undefined exports everything
+  statuses?: ChapterStatus[];
+  includeTitlePage: boolean;
+  includeTableOfContents: boolean;
+  includeSummaries: boolean;
+  title?: string;
+  author?: string;
+}
+
+export interface ManuscriptExportResult {
+  blob: Blob;
+  filename: string;
+  chapterCount: number;
+  wordCount: number;
+}
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export type BlockAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export type ManuscriptBlock =
+  | { type: 'paragraph'; runs: InlineRun[]; align?: BlockAlignment }
+  | { type: 'heading'; level: number; runs: InlineRun[] }
+  | { type: 'listItem'; ordered: boolean; runs: InlineRun[] }
+  | { type: 'sceneBreak' };
+
+interface ManuscriptChapter {
+  id: string;
+  number: number;
+  title: string;
+  summary?: string;
+  wordCount: number;
+  blocks: ManuscriptBlock[];
+}
+
+interface Manuscript {
+  title: string;
+  author: string;
+  wordCount: number;
+  chapters: ManuscriptChapter[];
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ManuscriptExportOptions = {
+  format: 'docx',
+  preset: 'default',
+  statuses: [],
+  includeTitlePage: true,
+  includeTableOfContents: true,
+  includeSummaries: false
+};
+
+// Default text the Editor seeds empty chapters with - never part of the book
+const PLACEHOLDER_PATTERN = /^(start writing (here|your (chapter|story) here)\.\.\.)$/i;
+
+// Lines writers commonly type to mark a scene break
+const SCENE_BREAK_PATTERN = /^\s*(\*\s*){3,}$|^\s*#\s*$|^\s*(~\s*){3,}$|^\s*(-\s*){3,}$/;
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'HR', 'PRE', 'SECTION', 'ARTICLE'
+]);
+
+// ---------------------------------------------------------------------------
+// HTML -> manuscript blocks
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert the contentEditable HTML produced by the Editor into a flat list of
+ * formatting-aware blocks that every output format can render.
+ */
+export function htmlToBlocks(html: string): ManuscriptBlock[] {
+  if (!html || !html.trim()) return [];
+
+  // Pending suggestions are exported as if accepted
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${acceptedHtml(html)}</body></html>`, 'text/html');
+  const blocks: ManuscriptBlock[] = [];
+  let pendingRuns: InlineRun[] = [];
+
+  const flushParagraph = (align?: BlockAlignment) => {
+    const runs = normalizeRuns(pendingRuns);
+    pendingRuns = [];
+    if (runs.length === 0) return;
+
+    const text = runs.map(run => run.text).join('');
+    if (PLACEHOLDER_PATTERN.test(text.trim())) return;
+    if (SCENE_BREAK_PATTERN.test(text)) {
+      blocks.push({ type: 'sceneBreak' });
+      return;
+    }
+    blocks.push({ type: 'paragraph', runs, align });
+  };
+
+  const walkBlock = (element: Element) => {
+    const tag = element.tagName;
+    const align = readAlignment(element);
+
+    if (tag === 'HR') {
+      flushParagraph();
+      blocks.push({ type: 'sceneBreak' });
+      return;
+    }
+
+    if (/^H[1-6]$/.test(tag)) {
+      flushParagraph();
+      const runs = normalizeRuns(collectRuns(element, {}));
+      if (runs.length > 0) {
+        blocks.push({ type: 'heading', level: Number(tag[1]), runs });
+      }
+      return;
+    }
+
+    if (tag === 'UL' || tag === 'OL') {
+      flushParagraph();
+      Array.from(element.children).forEach(child => {
+        if (child.tagName !== 'LI') return;
+        const runs = normalizeRuns(collectRuns(child, {}));
+        if (runs.length > 0) {
+          blocks.push({ type: 'listItem', ordered: tag === 'OL', runs });
+        }
+      });
+      return;
+    }
+
+    // Paragraph-like containers: split on nested blocks and line breaks
+    flushParagraph();
+    element.childNodes.forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName)) {
+        flushParagraph(align);
+        walkBlock(child as Element);
+      } else if (child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === 'BR') {
+        flushParagraph(align);
+      } else {
+        pendingRuns.push(...collectRuns(child, {}));
+      }
+    });
+    flushParagraph(align);
+  };
+
+  // Top-level text and inline nodes (contentEditable often leaves the first line bare)
+  doc.body.childNodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName)) {
+      flushParagraph();
+      walkBlock(node as Element);
+    } else if (node.nodeType === Node.ELEMENT_NODE && (node as Element).tagName === 'BR') {
+      flushParagraph();
+    } else {
+      pendingRuns.push(...collectRuns(node, {}));
+    }
+  });
+  flushParagraph();
+
+  // Drop leading/trailing and doubled scene breaks
+  return blocks.filter((block, index) => {
+    if (block.type !== 'sceneBreak') return true;
+    const previous = blocks[index - 1];
+    return index > 0 && index < blocks.length - 1 && previous?.type !== 'sceneBreak';
+  });
+}
+
+function collectRuns(node: Node, format: Omit<InlineRun, 'text'>): InlineRun[] {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return [{ ...format, text: node.textContent || '' }];
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const element = node as HTMLElement;
+  const tag = element.tagName;
+  if (tag === 'BR') return [{ ...format, text: ' ' }];
+  if (tag === 'SCRIPT' || tag === 'STYLE') return [];
+
+  const style = element.getAttribute('style') || '';
+  const nextFormat = {
+    bold: format.bold || tag === 'B' || tag === 'STRONG' || /font-weight:\s*(bold|[6-9]00)/i.test(style),
+    italic: format.italic || tag === 'I' || tag === 'EM' || /font-style:\s*italic/i.test(style),
+    underline: format.underline || tag === 'U' || /text-decoration[^;]*underline/i.test(style)
+  };
+
+  return Array.from(element.childNodes).flatMap(child => collectRuns(child, nextFormat));
+}
+
+function normalizeRuns(runs: InlineRun[]): InlineRun[] {
+  const merged: InlineRun[] = [];
+
+  runs.forEach(run => {
+    const text = run.text.replace(/[\s\u00a0]+/g, ' ');
+    if (!text) return;
+
+    const last = merged[merged.length - 1];
+    if (last && !!last.bold === !!run.bold && !!last.italic === !!run.italic && !!last.underline === !!run.underline) {
+      last.text += text;
+    } else {
+      merged.push({ text, bold: run.bold, italic: run.italic, underline: run.underline });
+    }
+  });
+
+  // Trim paragraph edges
+  if (merged.length > 0) {
+    merged[0].text = merged[0].text.replace(/^ +/, '');
+    const last = merged[merged.length - 1];
+    last.text = last.text.replace(/ +$/, '');
+  }
+
+  return merged.filter(run => run.text.length > 0);
+}
+
+function readAlignment(element: Element): BlockAlignment | undefined {
+  const style = element.getAttribute('style') || '';
+  const match = style.match(/text-align:\s*(left|center|right|justify)/i);
+  if (match) return match[1].toLowerCase() as BlockAlignment;
+
+  const alignAttr = element.getAttribute('align');
+  if (alignAttr && ['left', 'center', 'right', 'justify'].includes(alignAttr.toLowerCase())) {
+    return alignAttr.toLowerCase() as BlockAlignment;
+  }
+  return undefined;
+}
+
+function runsToPlainText(runs: InlineRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-') || 'manuscript';
+}
+
+/**
+ * Word counts on a standard manuscript title page are rounded:
+ * to the nearest 100 for short fiction and the nearest 1,000 for novels.
+ */
+export function roundManuscriptWordCount(wordCount: number): number {
+  if (wordCount < 1000) return Math.max(100, Math.round(wordCount / 100) * 100);
+  if (wordCount < 20000) return Math.round(wordCount / 100) * 100;
+  return Math.round(wordCount / 1000) * 1000;
+}
+
+function authorSurname(author: string): string {
+  const parts = author.trim().split(/\s+/);
+  return parts[parts.length - 1] || author;
+}
+
+function sceneBreakGlyph(preset: ManuscriptPreset): string {
+  return preset === 'standard_manuscript' ? '#' : '* * *';
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1').replace(/^(#+|>|-|\+|\d+\.)(\s)/, '\\$1$2');
+}
+
+function runsToMarkdown(runs: InlineRun[]): string {
+  return runs.map(run => {
+    let text = escapeMarkdown(run.text);
+    // Keep surrounding spaces outside the emphasis markers
+    const [, lead, core, trail] = text.match(/^(\s*)(.*?)(\s*)$/s) || ['', '', text, ''];
+    text = core;
+    if (!text) return lead + trail;
+    if (run.bold) text = `**${text}**`;
+    if (run.italic) text = `*${text}*`;
+    if (run.underline) text = `<u>${text}</u>`;
+    return lead + text + trail;
+  }).join('');
+}
+
+function renderMarkdown(manuscript: Manuscript, options: ManuscriptExportOptions): string {
+  const lines: string[] = [];
+
+  if (options.includeTitlePage) {
+    lines.push(`# ${escapeMarkdown(manuscript.title)}`, '');
+    if (manuscript.author) lines.push(`by ${escapeMarkdown(manuscript.author)}`, '');
+    lines.push(`About ${roundManuscriptWordCount(manuscript.wordCount).toLocaleString()} words`, '');
+  }
+
+  if (options.includeTableOfContents) {
+    lines.push('## Contents', '');
+    manuscript.chapters.forEach(chapter => {
+      lines.push(`${chapter.number}. [${escapeMarkdown(chapter.title)}](#chapter-${chapter.number})`);
+    });
+    lines.push('');
+  }
+
+  manuscript.chapters.forEach(chapter => {
+    lines.push(`<a id="chapter-${chapter.number}"></a>`, '', `## ${escapeMarkdown(chapter.title)}`, '');
+
+    if (options.includeSummaries && chapter.summary) {
+      lines.push(`> *${escapeMarkdown(chapter.summary)}*`, '');
+    }
+
+    chapter.blocks.forEach((block, index) => {
+      switch (block.type) {
+        case 'heading':
+          lines.push(`${'#'.repeat(Math.min(6, block.level + 2))} ${runsToMarkdown(block.runs)}`, '');
+          break;
+        case 'listItem':
+          // Markdown renumbers ordered lists itself
+          lines.push(`${block.ordered ? '1.' : '-'} ${runsToMarkdown(block.runs)}`);
+          if (chapter.blocks[index + 1]?.type !== 'listItem') lines.push('');
+          break;
+        case 'sceneBreak':
+          lines.push(sceneBreakGlyph(options.preset) === '#' ? '\\#' : '\\* \\* \\*', '');
+          break;
+        default:
+          lines.push(runsToMarkdown(block.runs), '');
+      }
+    });
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// EPUB 3
+// ---------------------------------------------------------------------------
+
+function runsToXhtml(runs: InlineRun[]): string {
+  return runs.map(run => {
+    let text = escapeXml(run.text);
+    if (run.underline) text = `<span class="underline">${text}</span>`;
+    if (run.italic) text = `<em>${text}</em>`;
+    if (run.bold) text = `<strong>${text}</strong>`;
+    return text;
+  }).join('');
+}
+
+function blocksToXhtml(blocks: ManuscriptBlock[], preset: ManuscriptPreset): string {
+  const html: string[] = [];
+  let openList: 'ol' | 'ul' | null = null;
+
+  const closeList = () => {
+    if (openList) {
+      html.push(`</${openList}>`);
+      openList = null;
+    }
+  };
+
+  blocks.forEach(block => {
+    if (block.type === 'listItem') {
+      const listTag = block.ordered ? 'ol' : 'ul';
+      if (openList !== listTag) {
+        closeList();
+        html.push(`<${listTag}>`);
+        openList = listTag;
+      }
+      html.push(`<li>${runsToXhtml(block.runs)}</li>`);
+      return;
+    }
+
+    closeList();
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(6, block.level + 1);
+        html.push(`<h${level}>${runsToXhtml(block.runs)}</h${level}>`);
+        break;
+      }
+      case 'sceneBreak':
+        html.push(`<p class="scene-break">${escapeXml(sceneBreakGlyph(preset))}</p>`);
+        break;
+      default: {
+        const alignClass = block.align && block.align !== 'left' ? ` class="align-${block.align}"` : '';
+        html.push(`<p${alignClass}>${runsToXhtml(block.runs)}</p>`);
+      }
+    }
+  });
+  closeList();
+
+  return html.join('\n');
+}
+
+function xhtmlDocument(title: string, body: string, extraNamespace = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"${extraNamespace} xml:lang="en" lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function epubStylesheet(preset: ManuscriptPreset): string {
+  const body = preset === 'standard_manuscript'
+    ? 'font-family: "Courier New", Courier, monospace; font-size: 12pt; line-height: 2;'
+    : 'font-family: Georgia, "Times New Roman", serif; line-height: 1.5;';
+
+  return `body { ${body} margin: 0 5%; }
+h1, h2 { text-align: center; font-weight: normal; margin: 3em 0 1.5em; page-break-before: always; }
+p { margin: 0; text-indent: 1.5em; }
+h1 + p, h2 + p, .scene-break + p, .summary + p { text-indent: 0; }
+.scene-break { text-align: center; text-indent: 0; margin: 1em 0; }
+.summary { font-style: italic; text-indent: 0; margin-bottom: 1.5em; }
+.align-center { text-align: center; text-indent: 0; }
+.align-right { text-align: right; text-indent: 0; }
+.align-justify { text-align: justify; }
+.underline { text-decoration: underline; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { page-break-before: avoid; font-size: 2em; }
+.title-page p { text-indent: 0; margin: 0.5em 0; }
+nav ol { list-style: none; padding: 0; }
+nav li { margin: 0.5em 0; }
+`;
+}
+
+async function renderEpub(manuscript: Manuscript, options: ManuscriptExportOptions): Promise<Blob> {
+  const zip = new JSZip();
+  const identifier = `urn:uuid:${uuidv4()}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const chapterFile = (chapter: ManuscriptChapter) => `chapter-${String(chapter.number).padStart(3, '0')}.xhtml`;
+
+  // The mimetype entry must be first and uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+  const oebps = zip.folder('OEBPS')!;
+  oebps.file('styles.css', epubStylesheet(options.preset));
+
+  const manifest: string[] = [
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>'
+  ];
+  const spine: string[] = [];
+
+  if (options.includeTitlePage) {
+    const byline = manuscript.author ? `<p>by ${escapeXml(manuscript.author)}</p>` : '';
+    oebps.file('title.xhtml', xhtmlDocument(manuscript.title, `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(manuscript.title)}</h1>
+${byline}
+</section>`));
+    manifest.push('<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="title"/>');
+  }
+
+  // The navigation document is required by EPUB 3 even when it is not shown in reading order
+  const navItems = manuscript.chapters
+    .map(chapter => `<li><a href="${chapterFile(chapter)}">${escapeXml(chapter.title)}</a></li>`)
+    .join('\n');
+  oebps.file('nav.xhtml', xhtmlDocument('Contents', `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${navItems}
+</ol>
+</nav>`));
+  spine.push(`<itemref idref="nav"${options.includeTableOfContents ? '' : ' linear="no"'}/>`);
+
+  manuscript.chapters.forEach(chapter => {
+    const id = `chapter-${chapter.number}`;
+    const summary = options.includeSummaries && chapter.summary
+      ? `<p class="summary">${escapeXml(chapter.summary)}</p>\n`
+      : '';
+    oebps.file(chapterFile(chapter), xhtmlDocument(chapter.title, `<section epub:type="chapter" id="${id}">
+<h2>${escapeXml(chapter.title)}</h2>
+${summary}${blocksToXhtml(chapter.blocks, options.preset)}
+</section>`));
+    manifest.push(`<item id="${id}" href="${chapterFile(chapter)}" media-type="application/xhtml+xml"/>`);
+    spine.push(`<itemref idref="${id}"/>`);
+  });
+
+  // EPUB 2 NCX for older reading systems
+  const navPoints = manuscript.chapters.map((chapter, index) => `    <navPoint id="nav-${chapter.number}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(chapter.title)}</text></navLabel>
+      <content src="${chapterFile(chapter)}"/>
+    </navPoint>`).join('\n');
+  oebps.file('toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${identifier}"/>
+  </head>
+  <docTitle><text>${escapeXml(manuscript.title)}</text></docTitle>
+  <navMap>
+${navPoints}
+  </navMap>
+</ncx>
+`);
+
+  const creator = manuscript.author ? `\n    <dc:creator>${escapeXml(manuscript.author)}</dc:creator>` : '';
+  oebps.file('content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(manuscript.title)}</dc:title>
+    <dc:language>en</dc:language>${creator}
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+}
+
+// ---------------------------------------------------------------------------
+// DOCX (Office Open XML)
+// ---------------------------------------------------------------------------
+
+const WORD_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+function docxRun(text: string, run: Omit<InlineRun, 'text'> = {}): string {
+  const props = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.underline ? '<w:u w:val="single"/>' : ''
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function docxParagraph(content: string, props = ''): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function docxAlignment(align?: BlockAlignment): string {
+  if (!align || align === 'left') return '';
+  return `<w:jc w:val="${align === 'justify' ? 'both' : align}"/>`;
+}
+
+function blocksToDocx(blocks: ManuscriptBlock[], preset: ManuscriptPreset): string {
+  return blocks.map((block, index) => {
+    const runs = 'runs' in block ? block.runs.map(run => docxRun(run.text, run)).join('') : '';
+    switch (block.type) {
+      case 'heading':
+        return docxParagraph(runs, '<w:pStyle w:val="Heading2"/>');
+      case 'listItem':
+        return docxParagraph(docxRun(block.ordered ? `${listOrdinal(blocks, index)}. ` : '\u2022 ') + runs, '<w:pStyle w:val="FirstParagraph"/><w:ind w:left="720" w:hanging="360"/>');
+      case 'sceneBreak':
+        return docxParagraph(docxRun(sceneBreakGlyph(preset)), '<w:pStyle w:val="SceneBreak"/>');
+      default: {
+        const previous = blocks[index - 1];
+        const firstInSection = !previous || previous.type === 'sceneBreak' || previous.type === 'heading';
+        const style = firstInSection ? '<w:pStyle w:val="FirstParagraph"/>' : '';
+        return docxParagraph(runs, style + docxAlignment(block.align));
+      }
+    }
+  }).join('');
+}
+
+function listOrdinal(blocks: ManuscriptBlock[], index: number): number {
+  let ordinal = 1;
+  for (let i = index - 1; i >= 0; i--) {
+    const block = blocks[i];
+    if (block.type !== 'listItem' || !block.ordered) break;
+    ordinal++;
+  }
+  return ordinal;
+}
+
+function docxStyles(preset: ManuscriptPreset): string {
+  const standard = preset === 'standard_manuscript';
+  const font = standard ? 'Courier New' : 'Times New Roman';
+  // Line spacing is expressed in 240ths of a line: 480 = double, 276 = 1.15
+  const lineSpacing = standard ? 480 : 276;
+  // Standard manuscript chapters start roughly a third of the way down the page
+  const chapterSpacingBefore = standard ? 3600 : 480;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${WORD_NAMESPACE}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="${lineSpacing}" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:ind w:firstLine="720"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="FirstParagraph">
+    <w:name w:val="First Paragraph"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>
+    <w:pPr><w:ind w:firstLine="${standard ? 720 : 0}"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/><w:spacing w:before="${standard ? 3600 : 2400}"/></w:pPr>
+    <w:rPr>${standard ? '' : '<w:sz w:val="48"/><w:szCs w:val="48"/>'}</w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Byline">
+    <w:name w:val="Byline"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="WordCount">
+    <w:name w:val="Word Count"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:jc w:val="right"/><w:ind w:firstLine="0"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1">
+    <w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="FirstParagraph"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:pageBreakBefore/><w:jc w:val="center"/><w:ind w:firstLine="0"/><w:spacing w:before="${chapterSpacingBefore}" w:after="480"/><w:outlineLvl w:val="0"/></w:pPr>
+    <w:rPr>${standard ? '' : '<w:b/><w:sz w:val="32"/><w:szCs w:val="32"/>'}</w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2">
+    <w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="FirstParagraph"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:jc w:val="center"/><w:ind w:firstLine="0"/><w:spacing w:before="240" w:after="240"/><w:outlineLvl w:val="1"/></w:pPr>
+    <w:rPr>${standard ? '' : '<w:b/>'}</w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Summary">
+    <w:name w:val="Chapter Summary"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:ind w:firstLine="0"/><w:spacing w:after="240"/></w:pPr>
+    <w:rPr><w:i/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="SceneBreak">
+    <w:name w:val="Scene Break"/><w:basedOn w:val="Normal"/><w:next w:val="FirstParagraph"/>
+    <w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="TOCHeading">
+    <w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:pageBreakBefore/><w:jc w:val="center"/><w:ind w:firstLine="0"/><w:spacing w:after="480"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="TOC1">
+    <w:name w:val="toc 1"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:ind w:firstLine="0"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Header">
+    <w:name w:val="header"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:jc w:val="right"/><w:ind w:firstLine="0"/><w:spacing w:line="240" w:lineRule="auto"/></w:pPr>
+  </w:style>
+</w:styles>
+`;
+}
+
+function docxHeader(manuscript: Manuscript, preset: ManuscriptPreset): string {
+  // Standard manuscript running head: Surname / TITLE / page
+  const label = preset === 'standard_manuscript'
+    ? `${manuscript.author ? `${authorSurname(manuscript.author)} / ` : ''}${manuscript.title.toUpperCase()} / `
+    : '';
+  const pageField = '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${WORD_NAMESPACE}>
+  ${docxParagraph((label ? docxRun(label) : '') + pageField, '<w:pStyle w:val="Header"/>')}
+</w:hdr>
+`;
+}
+
+async function renderDocx(manuscript: Manuscript, options: ManuscriptExportOptions): Promise<Blob> {
+  const zip = new JSZip();
+  const standard = options.preset === 'standard_manuscript';
+  const body: string[] = [];
+
+  if (options.includeTitlePage) {
+    const roundedCount = `about ${roundManuscriptWordCount(manuscript.wordCount).toLocaleString()} words`;
+    if (standard) {
+      body.push(docxParagraph(docxRun(manuscript.author || ''), '<w:ind w:firstLine="0"/>'));
+      body.push(docxParagraph(docxRun(roundedCount), '<w:pStyle w:val="WordCount"/>'));
+    }
+    body.push(docxParagraph(docxRun(standard ? manuscript.title.toUpperCase() : manuscript.title), '<w:pStyle w:val="Title"/>'));
+    if (manuscript.author) {
+      body.push(docxParagraph(docxRun(`by ${manuscript.author}`), '<w:pStyle w:val="Byline"/>'));
+    }
+    if (!standard) {
+      body.push(docxParagraph(docxRun(roundedCount), '<w:pStyle w:val="Byline"/>'));
+    }
+  }
+
+  if (options.includeTableOfContents) {
+    body.push(docxParagraph(docxRun('Contents'), '<w:pStyle w:val="TOCHeading"/>'));
+    // A real TOC field whose cached result lists the chapters; Word refreshes page numbers on open
+    const entries = manuscript.chapters.map((chapter, index) => {
+      const fieldStart = index === 0
+        ? '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-1" \\h \\z </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>'
+        : '';
+      const fieldEnd = index === manuscript.chapters.length - 1 ? '<w:r><w:fldChar w:fldCharType="end"/></w:r>' : '';
+      return docxParagraph(fieldStart + docxRun(chapter.title) + fieldEnd, '<w:pStyle w:val="TOC1"/>');
+    });
+    body.push(...entries);
+  }
+
+  manuscript.chapters.forEach((chapter, index) => {
+    const pageBreakOverride = index === 0 && !options.includeTitlePage && !options.includeTableOfContents
+      ? '<w:pageBreakBefore w:val="0"/>'
+      : '';
+    body.push(docxParagraph(docxRun(chapter.title), `<w:pStyle w:val="Heading1"/>${pageBreakOverride}`));
+    if (options.includeSummaries && chapter.summary) {
+      body.push(docxParagraph(docxRun(chapter.summary), '<w:pStyle w:val="Summary"/>'));
+    }
+    body.push(blocksToDocx(chapter.blocks, options.preset));
+  });
+
+  if (standard) {
+    body.push(docxParagraph(docxRun('END'), '<w:pStyle w:val="SceneBreak"/><w:spacing w:before="480"/>'));
+  }
+
+  // 1" margins all round (1440 twips); title page carries no running head
+  const sectionProps = `<w:sectPr>
+      <w:headerReference w:type="default" r:id="rIdHeader"/>
+      <w:pgSz w:w="12240" w:h="15840"/>
+      <w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>
+      ${options.includeTitlePage ? '<w:titlePg/>' : ''}
+    </w:sectPr>`;
+
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`);
+
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`);
+
+  zip.file('docProps/core.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(manuscript.title)}</dc:title>
+  <dc:creator>${escapeXml(manuscript.author)}</dc:creator>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>
+</cp:coreProperties>
+`);
+
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>
+  <Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+</Relationships>
+`);
+
+  zip.file('word/settings.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings ${WORD_NAMESPACE}>
+  ${options.includeTableOfContents ? '<w:updateFields w:val="true"/>' : ''}
+  <w:defaultTabStop w:val="720"/>
+</w:settings>
+`);
+
+  zip.file('word/styles.xml', docxStyles(options.preset));
+  zip.file('word/header1.xml', docxHeader(manuscript, options.preset));
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NAMESPACE}>
+  <w:body>
+    ${body.join('\n    ')}
+    ${sectionProps}
+  </w:body>
+</w:document>
+`);
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    compression: 'DEFLATE'
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+const FILE_EXTENSIONS: Record<ManuscriptFormat, string> = {
+  epub: 'epub',
+  docx: 'docx',
+  markdown: 'md'
+};
+
+class ManuscriptExportService {
+  /**
+   * Assemble a project's chapters (ordered by orderIndex) into an in-memory manuscript
+   */
+  async buildManuscript(projectId: string, options: ManuscriptExportOptions): Promise<Manuscript> {
+    const [project, chapters] = await Promise.all([
+      projectService.getProject(projectId),
+      chapterService.getProjectChapters(projectId)
+    ]);
+
+    const statuses = options.statuses || [];
+    const selected = chapters
+      .filter(chapter => statuses.length === 0 || statuses.includes(chapter.status))
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+
+    if (selected.length === 0) {
+      throw new Error(statuses.length > 0
+        ? `No chapters with status ${statuses.join(' or ')} to export`
+        : 'This project has no chapters to export');
+    }
+
+    const manuscriptChapters: ManuscriptChapter[] = selected.map((chapter, index) => {
+      const blocks = htmlToBlocks(chapter.content);
+      const text = blocks.map(block => ('runs' in block ? runsToPlainText(block.runs) : '')).join(' ');
+      return {
+        id: chapter.id,
+        number: index + 1,
+        title: chapter.title?.trim() || `Chapter ${index + 1}`,
+        summary: chapter.summary?.trim() || undefined,
+        wordCount: chapterService.countWords(text),
+        blocks
+      };
+    });
+
+    return {
+      title: options.title?.trim() || project?.title || 'Untitled Manuscript',
+      author: options.author?.trim() || '',
+      wordCount: manuscriptChapters.reduce((sum, chapter) => sum + chapter.wordCount, 0),
+      chapters: manuscriptChapters
+    };
+  }
+
+  /**
+   * Export a project as EPUB 3, DOCX or a single Markdown file
+   */
+  async exportManuscript(projectId: string, options: ManuscriptExportOptions): Promise<ManuscriptExportResult> {
+    const manuscript = await this.buildManuscript(projectId, options);
+
+    let blob: Blob;
+    switch (options.format) {
+      case 'epub':
+        blob = await renderEpub(manuscript, options);
+        break;
+      case 'docx':
+        blob = await renderDocx(manuscript, options);
+        break;
+      case 'markdown':
+        blob = new Blob([renderMarkdown(manuscript, options)], { type: 'text/markdown;charset=utf-8' });
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${options.format}`);
+    }
+
+    return {
+      blob,
+      filename: `${slugify(manuscript.title)}.${FILE_EXTENSIONS[options.format]}`,
+      chapterCount: manuscript.chapters.length,
+      wordCount: manuscript.wordCount
+    };
+  }
+
+  /**
+   * Trigger a browser download for an export result
+   */
+  downloadExport(result: ManuscriptExportResult): void {
+    const url = URL.createObjectURL(result.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = result.filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Options for the standard manuscript format used in agent submissions
+   */
+  getStandardManuscriptOptions(overrides: Partial<ManuscriptExportOptions> = {}): ManuscriptExportOptions {
+    return {
+      ...DEFAULT_EXPORT_OPTIONS,
+      format: 'docx',
+      preset: 'standard_manuscript',
+      includeTableOfContents: false,
+      includeSummaries: false,
+      ...overrides
+    };
+  }
+}
+
+export const manuscriptExportService = new ManuscriptExportService();
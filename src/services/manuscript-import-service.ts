@@ -0,0 +1,312 @@
+// src/services/manuscript-import-service.ts
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { v4 as uuidv4 } from 'uuid';
+import { chapterService, Chapter } from './chapterService';
+import { createSceneBreakHtml, sceneService } from './scene-service';
+import { notesService } from './notes-service';
+import {
+  BinderItem,
+  DEFAULT_SPLIT_OPTIONS,
+  PAGE_BREAK_HTML,
+  SplitOptions,
+  htmlText,
+  markdownToHtml,
+  parseFrontMatter,
+  parseScrivenerBinder,
+  rtfToHtml,
+  splitManuscript,
+  textToHtml
+} from '../utils/manuscriptParsers';
+
+export type ManuscriptSource = 'manuscript' | 'markdown' | 'scrivener';
+
+export interface SceneDraft {
+  title: string;
+  summary: string;
+}
+
+export interface ChapterDraft {
+  title: string;
+  content: string;
+  summary?: string;
+  // Scrivener document notes, kept as a note beside the chapter
+  notes?: string;
+  status?: Chapter['status'];
+  // Titles and synopses for the scenes marked in content, in order
+  scenes?: SceneDraft[];
+  // File or binder path the chapter came from, shown in the preview
+  source: string;
+}
+
+export interface ManuscriptImportProgress {
+  current: number;
+  total: number;
+  title: string;
+}
+
+export interface ManuscriptImportResult {
+  chapters: Chapter[];
+  failed: string[];
+}
+
+interface SourceFile {
+  path: string;
+  text: () => Promise<string>;
+  arrayBuffer: () => Promise<ArrayBuffer>;
+}
+
+const CHAPTER_STATUSES: Chapter['status'][] = ['outline', 'draft', 'revision', 'final'];
+
+const naturalCompare = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+/**
+ * Files from a zip archive or a folder picked with a directory input,
+ * keyed by their path inside it
+ */
+export async function readFileSet(files: File[]): Promise<SourceFile[]> {
+  if (files.length === 1 && /\.zip$/i.test(files[0].name)) {
+    const zip = await JSZip.loadAsync(files[0]);
+    return Object.values(zip.files)
+      .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'))
+      .map(entry => ({
+        path: entry.name,
+        text: () => entry.async('string'),
+        arrayBuffer: () => entry.async('arraybuffer')
+      }));
+  }
+
+  return files.map(file => ({
+    path: (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name,
+    text: () => file.text(),
+    arrayBuffer: () => file.arrayBuffer()
+  }));
+}
+
+class ManuscriptImportService {
+  /**
+   * One manuscript file (.docx, .txt or .md) split into chapters
+   */
+  async parseManuscriptFile(file: File, options: SplitOptions = DEFAULT_SPLIT_OPTIONS): Promise<ChapterDraft[]> {
+    const name = file.name.toLowerCase();
+    let html: string;
+
+    if (name.endsWith('.docx')) {
+      const result = await mammoth.convertToHtml(
+        { arrayBuffer: await file.arrayBuffer() },
+        { styleMap: ["br[type='page'] => hr.page-break"] }
+      );
+      html = result.value;
+    } else if (name.endsWith('.md') || name.endsWith('.markdown')) {
+      html = markdownToHtml(parseFrontMatter(await file.text()).body);
+    } else if (name.endsWith('.txt')) {
+      html = textToHtml(await file.text());
+    } else {
+      throw new Error('Choose a .docx, .txt or .md manuscript');
+    }
+
+    return splitManuscript(html, options, stripExtension(file.name)).map(chapter => ({
+      title: chapter.title,
+      content: chapter.html,
+      source: file.name
+    }));
+  }
+
+  /**
+   * A zip or folder of Markdown files, one chapter per file in path order.
+   * Front matter may set title, summary (or synopsis), status and order.
+   */
+  async parseMarkdownFiles(files: File[]): Promise<ChapterDraft[]> {
+    const sources = (await readFileSet(files))
+      .filter(file => /\.(md|markdown)$/i.test(file.path) && !baseName(file.path).startsWith('.'))
+      .sort((a, b) => naturalCompare(a.path, b.path));
+
+    if (sources.length === 0) {
+      throw new Error('No Markdown files were found');
+    }
+
+    const drafts = await Promise.all(sources.map(async (source, index) => {
+      const { data, body } = parseFrontMatter(await source.text());
+      let markdown = body.trim();
+      let title = typeof data.title === 'string' ? data.title : '';
+
+      // Without a title in front matter, a leading heading names the chapter
+      const heading = markdown.match(/^#{1,2}\s+(.+?)\s*#*\s*(\n|$)/);
+      if (heading && !title) {
+        title = heading[1];
+        markdown = markdown.slice(heading[0].length);
+      }
+
+      const summary = data.summary ?? data.synopsis ?? data.description;
+      const status = String(data.status || '').toLowerCase() as Chapter['status'];
+
+      return {
+        order: typeof data.order === 'number' ? data.order : index,
+        draft: {
+          title: title || stripExtension(baseName(source.path)).replace(/^\d+[\s._-]*/, '') || `Chapter ${index + 1}`,
+          content: markdownToHtml(markdown).replace(new RegExp(PAGE_BREAK_HTML, 'g'), '<hr>'),
+          summary: summary === undefined ? undefined : String(summary),
+          status: CHAPTER_STATUSES.includes(status) ? status : undefined,
+          source: source.path
+        } as ChapterDraft
+      };
+    }));
+
+    return drafts.sort((a, b) => a.order - b.order).map(item => item.draft);
+  }
+
+  /**
+   * A Scrivener project, zipped or as its .scriv folder. Every top-level
+   * item in the Draft becomes a chapter; folders of folders are parts and
+   * their folders become the chapters. A chapter folder's documents become
+   * its scenes, with their synopses as scene summaries.
+   */
+  async parseScrivener(files: File[]): Promise<ChapterDraft[]> {
+    const sources = await readFileSet(files);
+    const projectFile = sources.find(file => /\.scrivx$/i.test(file.path));
+    if (!projectFile) {
+      throw new Error('No .scrivx project file was found. Choose the .scriv folder or a zip of it.');
+    }
+
+    const root = projectFile.path.includes('/') ? projectFile.path.slice(0, projectFile.path.lastIndexOf('/') + 1) : '';
+    const byPath = new Map(sources.map(file => [file.path, file]));
+    const read = async (...paths: string[]) => {
+      for (const path of paths) {
+        const file = byPath.get(root + path);
+        if (file) return file.text();
+      }
+      return '';
+    };
+
+    // Scrivener 3 keeps each document in Files/Data/<UUID>/, Scrivener 2 in Files/Docs/<ID>
+    const loadDocument = async (item: BinderItem) => {
+      const [rtf, synopsis, notes] = await Promise.all([
+        read(`Files/Data/${item.id}/content.rtf`, `Files/Docs/${item.id}.rtf`),
+        read(`Files/Data/${item.id}/synopsis.txt`, `Files/Docs/${item.id}_synopsis.txt`),
+        read(`Files/Data/${item.id}/notes.rtf`, `Files/Docs/${item.id}_notes.rtf`)
+      ]);
+      return {
+        html: rtf ? rtfToHtml(rtf) : '',
+        synopsis: synopsis.trim(),
+        notes: rtfToHtml(notes).split('</p>').map(htmlText).filter(Boolean).join('\n\n')
+      };
+    };
+
+    // A scene's text includes any documents nested beneath it
+    const loadScene = async (item: BinderItem): Promise<{ html: string; synopsis: string; notes: string }> => {
+      const document = await loadDocument(item);
+      for (const child of item.children) {
+        const nested = await loadScene(child);
+        document.html += nested.html;
+        if (nested.notes) document.notes = [document.notes, nested.notes].filter(Boolean).join('\n\n');
+      }
+      return document;
+    };
+
+    const flatten = (items: BinderItem[]): BinderItem[] => items.flatMap(item =>
+      item.children.length > 0 && item.children.every(child => child.children.length > 0 || child.type === 'Folder')
+        ? flatten(item.children)
+        : [item]);
+
+    const chapters = flatten(parseScrivenerBinder(await projectFile.text()));
+    const drafts: ChapterDraft[] = [];
+
+    for (const item of chapters) {
+      const own = await loadDocument(item);
+      const children = await Promise.all(item.children.map(async child => ({ item: child, ...(await loadScene(child)) })));
+      const notes = [own.notes, ...children.filter(child => child.notes).map(child => `${child.item.title}: ${child.notes}`)]
+        .filter(Boolean)
+        .join('\n\n');
+
+      // The folder's own text opens the chapter, then one scene per document
+      const content = [
+        own.html,
+        ...children.map((child, index) =>
+          index === 0 && !htmlText(own.html) ? child.html : createSceneBreakHtml(uuidv4()) + child.html)
+      ].join('');
+
+      drafts.push({
+        title: item.title,
+        content,
+        summary: own.synopsis || undefined,
+        notes: notes || undefined,
+        scenes: children.length > 0
+          ? [
+              ...(htmlText(own.html) ? [{ title: '', summary: '' }] : []),
+              ...children.map(child => ({ title: child.item.title, summary: child.synopsis }))
+            ]
+          : undefined,
+        source: baseName(projectFile.path)
+      });
+    }
+
+    if (drafts.length === 0) {
+      throw new Error('The Scrivener Draft folder is empty');
+    }
+    return drafts;
+  }
+
+  /**
+   * Create chapters after the project's existing ones, in draft order. Scene
+   * titles and synopses are applied once each chapter's scenes exist, and
+   * Scrivener notes are saved as notes named after their chapter.
+   */
+  async importChapters(
+    projectId: string,
+    drafts: ChapterDraft[],
+    onProgress?: (progress: ManuscriptImportProgress) => void
+  ): Promise<ManuscriptImportResult> {
+    const existing = await chapterService.getProjectChapters(projectId);
+    let orderIndex = existing.reduce((max, chapter) => Math.max(max, chapter.orderIndex), 0);
+    const result: ManuscriptImportResult = { chapters: [], failed: [] };
+
+    for (const [index, draft] of drafts.entries()) {
+      onProgress?.({ current: index + 1, total: drafts.length, title: draft.title });
+      orderIndex += 1;
+
+      const chapter = await chapterService.createChapter({
+        projectId,
+        title: draft.title,
+        content: draft.content,
+        summary: draft.summary,
+        wordCount: 0,
+        orderIndex,
+        status: draft.status || 'draft'
+      });
+
+      if (!chapter) {
+        result.failed.push(draft.title);
+        continue;
+      }
+      result.chapters.push(chapter);
+
+      try {
+        const sceneDetails = draft.scenes || [];
+        if (sceneDetails.length > 0) {
+          const scenes = await sceneService.syncChapterScenes(chapter.id, chapter.content);
+          await Promise.all(scenes.map((scene, sceneIndex) => {
+            const details = sceneDetails[sceneIndex];
+            return details && (details.title || details.summary)
+              ? sceneService.updateScene(scene.id, { title: details.title, summary: details.summary })
+              : null;
+          }));
+        }
+
+        if (draft.notes) {
+          await notesService.createNote({ title: `Notes: ${draft.title}`, content: draft.notes, category: 'Misc' });
+        }
+      } catch (error) {
+        console.error(`Error importing scenes and notes for "${draft.title}":`, error);
+      }
+    }
+
+    return result;
+  }
+}
+
+export const manuscriptImportService = new ManuscriptImportService();
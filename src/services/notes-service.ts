@@ -1,19 +1,52 @@
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../lib/supabase';
 import { Note, NoteCategory } from '../types';
+import { syncService } from './sync-service';
 
 export interface DeletedNote extends Note {
   deletedAt: Date;
   deletedReason?: string;
 }
 
+// A row of the notes table
+interface DbNote {
+  id: string;
+  user_id: string;
+  project_id?: string | null;
+  title: string;
+  content: string;
+  category: NoteCategory;
+  deleted_at?: string | null;
+  deleted_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 class NotesService {
   // Create a new note
   async createNote(note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>): Promise<Note> {
+    if (!syncService.isOnline()) {
+      const now = new Date().toISOString();
+      return this.formatNoteFromDb(await syncService.queueCreate<DbNote>('notes', {
+        id: uuidv4(),
+        user_id: await syncService.getUserId(),
+        project_id: note.projectId ?? null,
+        title: note.title,
+        content: note.content,
+        category: note.category,
+        created_at: now,
+        updated_at: now,
+      }));
+    }
+
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) throw new Error('User not authenticated');
 
     const newNote = {
-      ...note,
+      title: note.title,
+      content: note.content,
+      category: note.category,
+      project_id: note.projectId ?? null,
       user_id: user.user.id,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -27,23 +60,37 @@ class NotesService {
 
     if (error) throw error;
 
+    await syncService.recordServerRow<DbNote>('notes', data);
     return this.formatNoteFromDb(data);
   }
 
-  // Get all active notes for the current user
-  async getNotes(): Promise<Note[]> {
+  // Get all active notes for the current user; with a project, only its
+  // notes and those that belong to no project
+  async getNotes(projectId?: string): Promise<Note[]> {
+    if (!syncService.isOnline()) {
+      const cached = await syncService.getCachedRows<DbNote>('notes', row =>
+        !row.deleted_at && (!projectId || !row.project_id || row.project_id === projectId));
+      return cached
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .map(this.formatNoteFromDb);
+    }
+
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) throw new Error('User not authenticated');
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('notes')
       .select('*')
       .eq('user_id', user.user.id)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false });
+      .is('deleted_at', null);
+
+    if (projectId) query = query.or(`project_id.eq.${projectId},project_id.is.null`);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (error) throw error;
 
+    await syncService.cacheRows<DbNote>('notes', data || []);
     return data?.map(this.formatNoteFromDb) || [];
   }
 
@@ -67,6 +114,14 @@ class NotesService {
 
   // Update a note
   async updateNote(id: string, updates: Partial<Note>): Promise<Note> {
+    if (!syncService.isOnline()) {
+      const { title, content, category } = updates;
+      const patch: Partial<DbNote> = Object.fromEntries(
+        Object.entries({ title, content, category }).filter(([, value]) => value !== undefined)
+      );
+      return this.formatNoteFromDb(await syncService.queueUpdate<DbNote>('notes', id, patch));
+    }
+
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) throw new Error('User not authenticated');
 
@@ -85,11 +140,19 @@ class NotesService {
 
     if (error) throw error;
 
+    await syncService.recordServerRow<DbNote>('notes', data);
     return this.formatNoteFromDb(data);
   }
 
   // Soft delete a note (marks as deleted but keeps in database for history)
   async deleteNote(id: string, reason?: string): Promise<void> {
+    if (!syncService.isOnline()) {
+      // Sent as an update when the connection returns; no history entry is kept
+      const now = new Date().toISOString();
+      await syncService.queueUpdate<DbNote>('notes', id, { deleted_at: now, deleted_reason: reason ?? null });
+      return;
+    }
+
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) throw new Error('User not authenticated');
 
@@ -104,17 +167,19 @@ class NotesService {
     if (fetchError) throw fetchError;
 
     // Mark note as deleted
+    const deletion = {
+      deleted_at: new Date().toISOString(),
+      deleted_reason: reason,
+      updated_at: new Date().toISOString(),
+    };
     const { error: deleteError } = await supabase
       .from('notes')
-      .update({
-        deleted_at: new Date().toISOString(),
-        deleted_reason: reason,
-        updated_at: new Date().toISOString(),
-      })
+      .update(deletion)
       .eq('id', id)
       .eq('user_id', user.user.id);
 
     if (deleteError) throw deleteError;
+    await syncService.recordServerWrite('notes', id, deletion);
 
     // Add to history
     await this.addToHistory({
@@ -168,6 +233,7 @@ class NotesService {
       .single();
 
     if (error) throw error;
+    await syncService.recordServerRow<DbNote>('notes', data);
 
     // Add to history
     await this.addToHistory({
@@ -185,6 +251,10 @@ class NotesService {
 
   // Permanently delete a note
   async permanentlyDeleteNote(id: string): Promise<void> {
+    if (!syncService.isOnline()) {
+      return syncService.queueDelete('notes', id);
+    }
+
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) throw new Error('User not authenticated');
 
@@ -195,6 +265,7 @@ class NotesService {
       .eq('user_id', user.user.id);
 
     if (error) throw error;
+    await syncService.forgetRow('notes', id);
   }
 
   // Search notes
@@ -247,6 +318,7 @@ class NotesService {
       title: dbNote.title || '',
       content: dbNote.content || '',
       category: dbNote.category as NoteCategory,
+      projectId: dbNote.project_id ?? null,
       createdAt: new Date(dbNote.created_at),
       updatedAt: new Date(dbNote.updated_at),
     };
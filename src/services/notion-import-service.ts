@@ -16,6 +16,7 @@ interface NotionDatabase {
 interface NotionPage {
   object: 'page';
   id: string;
+  last_edited_time: string;
   properties: Record<string, any>;
   parent: { database_id: string };
 }
@@ -33,6 +34,8 @@ export interface ImportedRecord {
   properties: Record<string, any>;
   content?: string;
   type: 'character' | 'plot' | 'chapter' | 'location' | 'unknown';
+  // When the page was last edited in Notion, to tell later syncs what changed
+  lastEditedTime?: string;
 }
 
 export interface ImportedDatabase {
@@ -144,7 +147,7 @@ export class NotionImportService {
     }
   }
 
-  async queryDatabase(databaseId: string, startCursor?: string): Promise<NotionQueryResponse> {
+  async queryDatabase(databaseId: string, startCursor?: string, editedSince?: string): Promise<NotionQueryResponse> {
     const body: any = {
       page_size: 100,
     };
@@ -153,6 +156,13 @@ export class NotionImportService {
       body.start_cursor = startCursor;
     }
 
+    if (editedSince) {
+      body.filter = {
+        timestamp: 'last_edited_time',
+        last_edited_time: { on_or_after: editedSince },
+      };
+    }
+
     try {
       return await this.makeRequest(`/databases/${databaseId}/query`, {
         method: 'POST',
@@ -163,13 +173,13 @@ export class NotionImportService {
     }
   }
 
-  async getAllDatabaseRecords(databaseId: string): Promise<NotionPage[]> {
+  async getAllDatabaseRecords(databaseId: string, editedSince?: string): Promise<NotionPage[]> {
     const allRecords: NotionPage[] = [];
     let hasMore = true;
     let nextCursor: string | undefined;
 
     while (hasMore) {
-      const response = await this.queryDatabase(databaseId, nextCursor);
+      const response = await this.queryDatabase(databaseId, nextCursor, editedSince);
       allRecords.push(...response.results);
       hasMore = response.has_more;
       nextCursor = response.next_cursor;
@@ -296,9 +306,33 @@ export class NotionImportService {
       properties,
       content,
       type: dbType,
+      lastEditedTime: page.last_edited_time,
     };
   }
 
+  /**
+   * Pages edited since a sync, as records. Notion rounds last_edited_time
+   * to the minute, so the filter may return pages from the minute of the
+   * last sync again; callers compare against the edit time they stored.
+   */
+  async getChangedRecords(databaseId: string, dbType: ImportedDatabase['type'], since: string): Promise<ImportedRecord[]> {
+    const pages = await this.getAllDatabaseRecords(databaseId, since);
+    return pages.map(page => this.mapNotionRecordToImported(page, dbType));
+  }
+
+  // Write property values back to a page; returns the page as it now is
+  async updatePage(pageId: string, properties: Record<string, unknown>, dbType: ImportedDatabase['type']): Promise<ImportedRecord> {
+    try {
+      const page: NotionPage = await this.makeRequest(`/pages/${pageId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ properties }),
+      });
+      return this.mapNotionRecordToImported(page, dbType);
+    } catch (error) {
+      throw new Error(`Failed to update page ${pageId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async importFromDatabase(databaseId: string): Promise<ImportedDatabase> {
     try {
       // Get database metadata
@@ -425,100 +459,3 @@ export class NotionImportService {
     return validFormats.some(format => format.test(token));
   }
 }
-
-// Database mapping utilities for your app's schema
-export class DatabaseMapper {
-  static mapCharacterToApp(record: ImportedRecord, projectId: string) {
-    const props = record.properties;
-    
-    return {
-      id: `${projectId}-char-${record.id}`,
-      project_id: projectId,
-      name: record.name,
-      role: this.mapNotionRoleToApp(props.Role || props.Type || ''),
-      age: this.extractAge(props['Age '] || props.Age || ''), // Handle "Age " with space
-      description: record.content || props.Description || '',
-      // Map specific character fields from your Notion schema
-      race: Array.isArray(props['Race ']) 
-        ? props['Race '][0] 
-        : (props['Race '] || ''),
-      abilities: Array.isArray(props.Abilities) ? props.Abilities : [],
-      techniques: Array.isArray(props.Techniques) ? props.Techniques : [],
-      fantasy_class: Array.isArray(props['Multi-select']) ? props['Multi-select'].join(', ') : '',
-      appearance: props['Face Claim'] || '',
-      backstory: record.content || '', // Your character content is rich backstory
-      motivation: '', // Could be extracted from content if available
-      personality: record.content || '', // Character personality in content
-      imported_from: 'notion',
-      imported_at: new Date().toISOString(),
-    };
-  }
-
-  static mapPlotToApp(record: ImportedRecord, projectId: string) {
-    const props = record.properties;
-    
-    return {
-      id: `${projectId}-plot-${record.id}`,
-      project_id: projectId,
-      name: record.name,
-      description: record.content || props.Description || '',
-      progress: props.Progress || '',
-      storyline: props.Storyline || '',
-      stats: props.Stats || '',
-      status: props.Finished ? 'completed' : 'in_progress',
-      imported_from: 'notion',
-      imported_at: new Date().toISOString(),
-    };
-  }
-
-  static mapChapterToApp(record: ImportedRecord, projectId: string) {
-    const props = record.properties;
-    
-    return {
-      id: `${projectId}-chapter-${record.id}`,
-      project_id: projectId,
-      title: record.name,
-      chapter_number: props.Chapter || props['Chapter '] || 0,
-      description: props.Notes || props['Notes '] || '',
-      status: this.mapNotionStatusToApp(props.Status || ''),
-      word_count: props['Word Count'] || 0,
-      published: props.Published === 'Yes' || props.Published === true,
-      imported_from: 'notion',
-      imported_at: new Date().toISOString(),
-    };
-  }
-
-  private static mapNotionRoleToApp(notionRole: string): string {
-    const roleMap: Record<string, string> = {
-      'Main Character': 'protagonist',
-      'Secondary Character': 'supporting', 
-      'Minor Character': 'minor',
-      'Supported Character': 'supporting',
-      'Protagonist': 'protagonist',
-      'Antagonist': 'antagonist',
-      'Deuteragonist': 'supporting',
-      'Tertagonists': 'supporting',
-      'Foil Character': 'supporting',
-      'Confidant': 'supporting',
-      'Love Interest': 'supporting',
-    };
-    return roleMap[notionRole] || 'minor';
-  }
-
-  private static mapNotionStatusToApp(notionStatus: string): string {
-    const statusMap: Record<string, string> = {
-      'Not started': 'not_started',
-      'In progress': 'in_progress',
-      'Rough Editing': 'draft', 
-      'Final Editing': 'editing',
-      'Done': 'completed',
-    };
-    return statusMap[notionStatus] || 'not_started';
-  }
-
-  private static extractAge(ageStr: string): number | undefined {
-    if (!ageStr) return undefined;
-    const match = ageStr.match(/(\d+)/);
-    return match ? parseInt(match[1], 10) : undefined;
-  }
-}
@@ -0,0 +1,53 @@
+// src/services/notion-mapping-service.ts
+import type { MappingProfile } from '../utils/notionMapping';
+
+const PROFILES_KEY = 'notionMappingProfiles';
+
+// Saved Notion field mappings. They hold no content, only property names,
+// so they live in the browser alongside the rest of the import settings.
+class NotionMappingService {
+  getProfiles(): MappingProfile[] {
+    try {
+      const stored = window.localStorage.getItem(PROFILES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Error reading Notion mapping profiles:', error);
+      return [];
+    }
+  }
+
+  // Profiles saved for this database first, newest first, then the rest to reuse
+  getProfilesFor(databaseId: string): MappingProfile[] {
+    return this.getProfiles().sort((a, b) =>
+      Number(b.databaseId === databaseId) - Number(a.databaseId === databaseId) ||
+      b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // The mapping last saved for this database, used when it is loaded again
+  getLatestFor(databaseId: string): MappingProfile | null {
+    return this.getProfilesFor(databaseId).find(profile => profile.databaseId === databaseId) || null;
+  }
+
+  saveProfile(profile: MappingProfile): MappingProfile[] {
+    const saved = { ...profile, updatedAt: new Date().toISOString() };
+    const profiles = [...this.getProfiles().filter(existing => existing.id !== profile.id), saved];
+    this.store(profiles);
+    return profiles;
+  }
+
+  deleteProfile(profileId: string): MappingProfile[] {
+    const profiles = this.getProfiles().filter(profile => profile.id !== profileId);
+    this.store(profiles);
+    return profiles;
+  }
+
+  private store(profiles: MappingProfile[]): void {
+    try {
+      window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    } catch (error) {
+      console.warn('Error saving Notion mapping profiles:', error);
+    }
+  }
+}
+
+export const notionMappingService = new NotionMappingService();
@@ -0,0 +1,442 @@
+// src/services/notion-sync-service.ts
+import { supabase } from '../lib/supabase';
+import { ImportedDatabase, ImportedRecord, NotionImportService } from './notion-import-service';
+import {
+  EnhancedSupabaseImportService,
+  NOTION_RECORD_TABLES,
+  notionRecordId
+} from './enhanced-supabase-import-service';
+import {
+  FieldMapping,
+  NotionRecordType,
+  applyMapping,
+  contentHash,
+  targetLabel,
+  toNotionProperties
+} from '../utils/notionMapping';
+
+// A database as it was imported, with what is needed to map it again
+export interface NotionSyncDatabase {
+  id: string;
+  name: string;
+  type: NotionRecordType;
+  properties: ImportedDatabase['properties'];
+  mapping: FieldMapping;
+}
+
+export interface NotionIntegration {
+  id: string;
+  user_id: string;
+  project_id: string;
+  name: string;
+  databases: NotionSyncDatabase[];
+  last_synced_at: string | null;
+  created_at: string;
+}
+
+export interface NotionSyncLink {
+  id: string;
+  integration_id: string;
+  database_id: string;
+  notion_page_id: string;
+  record_table: string;
+  record_id: string;
+  notion_edited_at: string | null;
+  nimbus_updated_at: string | null;
+  // Hashes of the synced values on each side at the last sync
+  notion_hash: string | null;
+  nimbus_hash: string | null;
+}
+
+// A row of one of the synced tables, as read for a sync
+export type SyncRow = { id: string; updated_at: string } & Record<string, unknown>;
+
+export interface SyncConflict {
+  link: NotionSyncLink;
+  database: NotionSyncDatabase;
+  title: string;
+  notionRecord: ImportedRecord;
+  nimbusRow: SyncRow;
+  // Fields whose values differ, for showing side by side
+  changes: Array<{ field: string; label: string; notion: string; nimbus: string }>;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  created: number;
+  conflicts: SyncConflict[];
+  errors: string[];
+}
+
+export interface SyncLogEntry {
+  id: string;
+  integration_id: string;
+  started_at: string;
+  finished_at: string;
+  status: 'success' | 'conflicts' | 'failed';
+  pulled: number;
+  pushed: number;
+  created: number;
+  conflicts: number;
+  messages: string[];
+}
+
+/**
+ * Whether one side changed since the last sync. Notion edit times are
+ * rounded to the minute, so an edit just after a sync can carry the same
+ * time: an edit at or after the sync counts if the content hash differs.
+ * Links made before hashes were stored go by the edit time alone.
+ */
+function hasChanged(
+  editedAt: string | null | undefined,
+  syncedAt: string | null,
+  hash: string,
+  syncedHash: string | null
+): boolean {
+  if (!editedAt) return false;
+  if (!syncedAt) return true;
+  const edited = Date.parse(editedAt);
+  const synced = Date.parse(syncedAt);
+  return syncedHash ? edited >= synced && hash !== syncedHash : edited > synced;
+}
+
+const display = (value: unknown) =>
+  Array.isArray(value) ? value.join(', ') : value === null || value === undefined ? '' : String(value);
+
+// The fields a sync writes, compared one by one to describe a conflict
+function describeChanges(
+  type: NotionRecordType,
+  notionRow: Record<string, unknown>,
+  nimbusRow: Record<string, unknown>
+): SyncConflict['changes'] {
+  return Object.entries(notionRow)
+    .filter(([field]) => field !== 'character_data')
+    .map(([field, value]) => ({ field, label: targetLabel(type, field), notion: display(value), nimbus: display(nimbusRow[field]) }))
+    .filter(change => change.notion !== change.nimbus);
+}
+
+class NotionSyncService {
+  private builder = new EnhancedSupabaseImportService();
+
+  /**
+   * Remember an import so it can be synced later: the databases and
+   * mappings used, and a link from every imported row to its page.
+   */
+  async createIntegration(
+    userId: string,
+    projectId: string,
+    name: string,
+    databases: ImportedDatabase[],
+    mappings: Record<string, FieldMapping>
+  ): Promise<NotionIntegration | null> {
+    try {
+      const { data: integration, error } = await supabase
+        .from('notion_integrations')
+        .insert({
+          user_id: userId,
+          project_id: projectId,
+          name,
+          databases: databases.map(database => ({
+            id: database.id,
+            name: database.name,
+            type: database.type,
+            properties: database.properties,
+            mapping: mappings[database.id] || {}
+          })),
+          last_synced_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      for (const database of databases) {
+        const { table } = NOTION_RECORD_TABLES[database.type];
+        const recordIds = database.records.map(record => notionRecordId(database.type, projectId, record.id));
+        const { data: rows } = await supabase.from(table).select('*').in('id', recordIds);
+        const rowsById = new Map<string, SyncRow>((rows || []).map(row => [row.id, row]));
+        const synced = { ...database, mapping: mappings[database.id] || {} };
+
+        const links = database.records
+          .filter(record => rowsById.has(notionRecordId(database.type, projectId, record.id)))
+          .map(record => {
+            const row = rowsById.get(notionRecordId(database.type, projectId, record.id))!;
+            return {
+              integration_id: integration.id,
+              user_id: userId,
+              database_id: database.id,
+              notion_page_id: record.id,
+              record_table: table,
+              record_id: row.id,
+              notion_edited_at: record.lastEditedTime || null,
+              nimbus_updated_at: row.updated_at,
+              notion_hash: this.notionHash(synced, record),
+              nimbus_hash: this.nimbusHash(synced, row)
+            };
+          });
+
+        if (links.length > 0) {
+          const { error: linkError } = await supabase.from('notion_sync_links').insert(links);
+          if (linkError) throw linkError;
+        }
+      }
+
+      return integration;
+    } catch (error) {
+      console.error('Error creating Notion integration:', error);
+      return null;
+    }
+  }
+
+  async getIntegrations(userId: string): Promise<NotionIntegration[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notion_integrations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching Notion integrations:', error);
+      return [];
+    }
+  }
+
+  async getLog(integrationId: string, limit = 10): Promise<SyncLogEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notion_sync_log')
+        .select('*')
+        .eq('integration_id', integrationId)
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching Notion sync log:', error);
+      return [];
+    }
+  }
+
+  async deleteIntegration(integrationId: string): Promise<boolean> {
+    const { error } = await supabase.from('notion_integrations').delete().eq('id', integrationId);
+    if (error) {
+      console.error('Error deleting Notion integration:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Pull pages edited in Notion since the last sync, push rows edited in
+   * Nimbus, create rows for new pages and collect conflicts where both
+   * sides changed. The sync point only moves forward when nothing was left
+   * unresolved, so conflicted pages are fetched again next time.
+   */
+  async sync(integration: NotionIntegration, token: string): Promise<SyncResult> {
+    const startedAt = new Date().toISOString();
+    const notion = new NotionImportService(token);
+    const result: SyncResult = { pulled: 0, pushed: 0, created: 0, conflicts: [], errors: [] };
+
+    const { data: links, error } = await supabase
+      .from('notion_sync_links')
+      .select('*')
+      .eq('integration_id', integration.id);
+
+    if (error) {
+      result.errors.push(`Failed to load sync links: ${error.message}`);
+    } else {
+      for (const database of integration.databases) {
+        try {
+          await this.syncDatabase(integration, database, (links || []).filter(link => link.database_id === database.id), notion, result);
+        } catch (syncError) {
+          console.error(`Error syncing ${database.name}:`, syncError);
+          result.errors.push(`${database.name}: ${syncError instanceof Error ? syncError.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    if (result.errors.length === 0 && result.conflicts.length === 0) {
+      await supabase.from('notion_integrations').update({ last_synced_at: startedAt }).eq('id', integration.id);
+    }
+    await this.writeLog(integration, startedAt, result);
+
+    return result;
+  }
+
+  private async syncDatabase(
+    integration: NotionIntegration,
+    database: NotionSyncDatabase,
+    links: NotionSyncLink[],
+    notion: NotionImportService,
+    result: SyncResult
+  ): Promise<void> {
+    const { table } = NOTION_RECORD_TABLES[database.type];
+    const since = integration.last_synced_at || integration.created_at;
+    const changed = await notion.getChangedRecords(database.id, database.type, since);
+    const changedByPage = new Map(changed.map(record => [record.id, record]));
+
+    const { data: rows, error } = links.length > 0
+      ? await supabase.from(table).select('*').in('id', links.map(link => link.record_id))
+      : { data: [], error: null };
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    const rowsById = new Map<string, SyncRow>((rows || []).map(row => [row.id, row]));
+
+    for (const link of links) {
+      const row = rowsById.get(link.record_id);
+      const page = changedByPage.get(link.notion_page_id);
+      changedByPage.delete(link.notion_page_id);
+      // Rows deleted in Nimbus are not recreated or pushed
+      if (!row) continue;
+
+      const notionChanged = !!page &&
+        hasChanged(page.lastEditedTime, link.notion_edited_at, this.notionHash(database, page), link.notion_hash);
+      const nimbusChanged =
+        hasChanged(row.updated_at, link.nimbus_updated_at, this.nimbusHash(database, row), link.nimbus_hash);
+
+      if (notionChanged && nimbusChanged) {
+        const notionRow = this.builder.buildSyncedRow(database.type, applyMapping(page!, database.type, database.mapping), database.mapping);
+        result.conflicts.push({
+          link,
+          database,
+          title: display(row.name ?? row.title) || page!.name,
+          notionRecord: page!,
+          nimbusRow: row,
+          changes: describeChanges(database.type, notionRow, row)
+        });
+      } else if (notionChanged) {
+        await this.pull(link, page!, row, database);
+        result.pulled++;
+      } else if (nimbusChanged) {
+        await this.push(link, row, database, notion);
+        result.pushed++;
+      }
+    }
+
+    // Pages added in Notion since the last sync
+    for (const page of changedByPage.values()) {
+      await this.create(integration, database, page);
+      result.created++;
+    }
+  }
+
+  // Resolve a conflict by keeping one side and overwriting the other
+  async resolveConflict(conflict: SyncConflict, keep: 'notion' | 'nimbus', token: string): Promise<void> {
+    if (keep === 'notion') {
+      await this.pull(conflict.link, conflict.notionRecord, conflict.nimbusRow, conflict.database);
+    } else {
+      await this.push(conflict.link, conflict.nimbusRow, conflict.database, new NotionImportService(token));
+    }
+  }
+
+  // Only the columns the mapping fills are written; the rest of the row is left as Nimbus has it
+  private async pull(link: NotionSyncLink, page: ImportedRecord, row: SyncRow, database: NotionSyncDatabase) {
+    const values = this.builder.buildSyncedRow(database.type, applyMapping(page, database.type, database.mapping), database.mapping);
+    // Keep character data Nimbus adds itself, such as aliases and appearances
+    if (values.character_data) {
+      values.character_data = { ...((row.character_data || {}) as object), ...(values.character_data as object) };
+    }
+
+    const { data, error } = await supabase
+      .from(link.record_table)
+      .update(values)
+      .eq('id', link.record_id)
+      .select('*')
+      .single();
+    if (error) throw new Error(`Failed to update ${page.name}: ${error.message}`);
+
+    await this.updateLink(link.id, {
+      notion_edited_at: page.lastEditedTime || null,
+      nimbus_updated_at: data.updated_at,
+      notion_hash: this.notionHash(database, page),
+      nimbus_hash: this.nimbusHash(database, data)
+    });
+  }
+
+  private async push(link: NotionSyncLink, row: SyncRow, database: NotionSyncDatabase, notion: NotionImportService) {
+    const properties = toNotionProperties(row, database.mapping, database.properties);
+    const page = Object.keys(properties).length > 0
+      ? await notion.updatePage(link.notion_page_id, properties, database.type)
+      : null;
+
+    await this.updateLink(link.id, {
+      notion_edited_at: page ? page.lastEditedTime || null : link.notion_edited_at,
+      nimbus_updated_at: row.updated_at,
+      notion_hash: page ? this.notionHash(database, page) : link.notion_hash,
+      nimbus_hash: this.nimbusHash(database, row)
+    });
+  }
+
+  private async create(integration: NotionIntegration, database: NotionSyncDatabase, page: ImportedRecord) {
+    const { table } = NOTION_RECORD_TABLES[database.type];
+    const recordId = notionRecordId(database.type, integration.project_id, page.id);
+
+    const { data, error } = await supabase
+      .from(table)
+      .insert({
+        id: recordId,
+        project_id: integration.project_id,
+        ...this.builder.buildRow(database.type, applyMapping(page, database.type, database.mapping)),
+        imported_from: 'notion',
+        imported_at: new Date().toISOString()
+      })
+      .select('*')
+      .single();
+    if (error) throw new Error(`Failed to add ${page.name}: ${error.message}`);
+
+    const { error: linkError } = await supabase.from('notion_sync_links').insert({
+      integration_id: integration.id,
+      user_id: integration.user_id,
+      database_id: database.id,
+      notion_page_id: page.id,
+      record_table: table,
+      record_id: recordId,
+      notion_edited_at: page.lastEditedTime || null,
+      nimbus_updated_at: data.updated_at,
+      notion_hash: this.notionHash(database, page),
+      nimbus_hash: this.nimbusHash(database, data)
+    });
+    if (linkError) throw new Error(`Failed to link ${page.name}: ${linkError.message}`);
+  }
+
+  private async updateLink(
+    linkId: string,
+    changes: Pick<NotionSyncLink, 'notion_edited_at' | 'nimbus_updated_at' | 'notion_hash' | 'nimbus_hash'>
+  ) {
+    const { error } = await supabase.from('notion_sync_links').update(changes).eq('id', linkId);
+    if (error) throw new Error(`Failed to update sync link: ${error.message}`);
+  }
+
+  private notionHash(database: Pick<NotionSyncDatabase, 'type' | 'mapping'>, page: ImportedRecord): string {
+    return contentHash(this.builder.buildSyncedRow(database.type, applyMapping(page, database.type, database.mapping), database.mapping));
+  }
+
+  private nimbusHash(database: Pick<NotionSyncDatabase, 'type' | 'mapping'>, row: Record<string, unknown>): string {
+    return contentHash(this.builder.syncedValues(database.type, row, database.mapping));
+  }
+
+  private async writeLog(integration: NotionIntegration, startedAt: string, result: SyncResult) {
+    const { error } = await supabase.from('notion_sync_log').insert({
+      integration_id: integration.id,
+      user_id: integration.user_id,
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      status: result.errors.length > 0 ? 'failed' : result.conflicts.length > 0 ? 'conflicts' : 'success',
+      pulled: result.pulled,
+      pushed: result.pushed,
+      created: result.created,
+      conflicts: result.conflicts.length,
+      messages: [
+        ...result.errors,
+        ...result.conflicts.map(conflict => `Conflict: ${conflict.title} (${conflict.database.name})`)
+      ]
+    });
+    if (error) console.error('Error writing Notion sync log:', error);
+  }
+}
+
+export const notionSyncService = new NotionSyncService();
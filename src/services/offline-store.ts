@@ -0,0 +1,181 @@
+// src/services/offline-store.ts
+// IndexedDB-backed local copy of synced rows plus the outbound mutation queue
+// and the conflicts waiting on the user.
+import { FieldConflict } from '../utils/threeWayMerge';
+
+const DB_NAME = 'nimbus-offline';
+const DB_VERSION = 2;
+const ENTITY_STORE = 'entities';
+const MUTATION_STORE = 'mutations';
+const CONFLICT_STORE = 'conflicts';
+
+export type SyncedTable =
+  | 'chapters'
+  | 'notes'
+  | 'characters'
+  | 'plot_threads'
+  | 'plot_events'
+  | 'world_elements'
+  | 'themes';
+
+// A row as stored in Supabase (snake_case). Services narrow it to their own
+// row types, e.g. DbChapter, at the syncService boundary.
+export type StoredRow = { id: string; updated_at?: string | null } & Record<string, unknown>;
+
+// Fields to write to a row
+export type RowPatch = Record<string, unknown>;
+
+export interface OfflineEntity {
+  table: SyncedTable;
+  id: string;
+  // Latest local copy of the row
+  row: StoredRow;
+  // Last copy confirmed by the server; the common ancestor for merges
+  base: StoredRow | null;
+  dirty: boolean;
+  cachedAt: number;
+}
+
+export type MutationKind = 'create' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  id?: number;
+  // Mutations queued before creates and deletes were supported are updates
+  kind?: MutationKind;
+  table: SyncedTable;
+  entityId: string;
+  // Fields to update; the whole new row for a create; empty for a delete
+  patch: RowPatch;
+  // updated_at of the server row this edit was based on
+  baseUpdatedAt: string | null;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+  // Refused by the server for a reason other than the connection, so it is
+  // not resent until the user retries
+  rejected?: boolean;
+}
+
+// A queued update that could not be merged with the server's copy
+export interface SyncConflict {
+  mutationId: number;
+  table: SyncedTable;
+  entityId: string;
+  title: string;
+  // Fields that merged cleanly; applied together with the user's resolutions
+  merged: RowPatch;
+  conflicts: FieldConflict[];
+  serverUpdatedAt: string | null;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class OfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ENTITY_STORE)) {
+            const entities = db.createObjectStore(ENTITY_STORE, { keyPath: ['table', 'id'] });
+            entities.createIndex('table', 'table');
+          }
+          if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+            const mutations = db.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+            mutations.createIndex('entity', ['table', 'entityId']);
+          }
+          if (!db.objectStoreNames.contains(CONFLICT_STORE)) {
+            db.createObjectStore(CONFLICT_STORE, { keyPath: 'mutationId' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDb();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async getEntity(table: SyncedTable, id: string): Promise<OfflineEntity | null> {
+    const store = await this.store(ENTITY_STORE, 'readonly');
+    return (await requestToPromise(store.get([table, id]))) || null;
+  }
+
+  async getEntities(table: SyncedTable): Promise<OfflineEntity[]> {
+    const store = await this.store(ENTITY_STORE, 'readonly');
+    return requestToPromise(store.index('table').getAll(table));
+  }
+
+  async putEntity(entity: OfflineEntity): Promise<void> {
+    const store = await this.store(ENTITY_STORE, 'readwrite');
+    await requestToPromise(store.put(entity));
+  }
+
+  async deleteEntity(table: SyncedTable, id: string): Promise<void> {
+    const store = await this.store(ENTITY_STORE, 'readwrite');
+    await requestToPromise(store.delete([table, id]));
+  }
+
+  async getMutations(): Promise<QueuedMutation[]> {
+    const store = await this.store(MUTATION_STORE, 'readonly');
+    return requestToPromise(store.getAll());
+  }
+
+  async getMutation(id: number): Promise<QueuedMutation | null> {
+    const store = await this.store(MUTATION_STORE, 'readonly');
+    return (await requestToPromise(store.get(id))) || null;
+  }
+
+  async getEntityMutations(table: SyncedTable, entityId: string): Promise<QueuedMutation[]> {
+    const store = await this.store(MUTATION_STORE, 'readonly');
+    return requestToPromise(store.index('entity').getAll([table, entityId]));
+  }
+
+  async putMutation(mutation: QueuedMutation): Promise<number> {
+    const store = await this.store(MUTATION_STORE, 'readwrite');
+    return Number(await requestToPromise(store.put(mutation)));
+  }
+
+  async deleteMutation(id: number): Promise<void> {
+    const store = await this.store(MUTATION_STORE, 'readwrite');
+    await requestToPromise(store.delete(id));
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    const store = await this.store(CONFLICT_STORE, 'readonly');
+    return requestToPromise(store.getAll());
+  }
+
+  async putConflict(conflict: SyncConflict): Promise<void> {
+    const store = await this.store(CONFLICT_STORE, 'readwrite');
+    await requestToPromise(store.put(conflict));
+  }
+
+  async deleteConflict(mutationId: number): Promise<void> {
+    const store = await this.store(CONFLICT_STORE, 'readwrite');
+    await requestToPromise(store.delete(mutationId));
+  }
+}
+
+export const offlineStore = new OfflineStore();
@@ -9,6 +9,7 @@ import type {
   UpdatePlotEventRequest,
   PlotStatistics 
 } from '../types/plot';
+import { buildTensionCurve, curvesEqual } from '../utils/tensionCurve';
 
 export class PlotService {
   /**
@@ -523,6 +524,25 @@ export class PlotService {
     }
   }
 
+  /**
+   * Recompute each thread's tension curve from its events, one value per
+   * chapter in manuscript order, and save the curves that changed
+   */
+  async syncTensionCurves(threads: PlotThread[], events: PlotEvent[], chapterIds: string[]): Promise<PlotThread[]> {
+    return Promise.all(threads.map(async thread => {
+      const curve = buildTensionCurve(events.filter(event => event.thread_id === thread.id), chapterIds);
+      if (curvesEqual(thread.tension_curve, curve)) return thread;
+
+      try {
+        const updated = await this.updatePlotThread(thread.id, { tension_curve: curve });
+        return updated ? { ...thread, tension_curve: updated.tension_curve } : thread;
+      } catch (error) {
+        console.error('Error saving tension curve:', error);
+        return { ...thread, tension_curve: curve };
+      }
+    }));
+  }
+
   /**
    * Calculate completeness score for a plot thread
    */
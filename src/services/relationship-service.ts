@@ -0,0 +1,194 @@
+// src/services/relationship-service.ts
+import { supabase, logSupabaseError } from '../lib/supabase';
+import { CharacterRelationship, RelationshipChange } from '../utils/relationshipGraph';
+
+export interface RelationshipInput {
+  fromId: string;
+  toId: string;
+  type: string;
+  description: string;
+  strength: number;
+  introducedChapterId: string | null;
+}
+
+export type RelationshipChangeInput = Omit<RelationshipChange, 'id' | 'relationshipId'>;
+
+// A row of the character_relationships table
+interface DbRelationship {
+  id: string;
+  project_id: string;
+  character_a_id: string;
+  character_b_id: string;
+  relationship_type: string | null;
+  description: string | null;
+  strength: number | null;
+  introduced_chapter_id: string | null;
+}
+
+// A row of the character_relationship_changes table
+interface DbRelationshipChange {
+  id: string;
+  relationship_id: string;
+  chapter_id: string;
+  relationship_type: string | null;
+  strength: number | null;
+  description: string | null;
+  ended: boolean;
+}
+
+// Relationships read "character A <type> character B"; changes[] records how
+// each one develops from a given chapter on.
+class RelationshipService {
+  async getRelationships(projectId: string): Promise<CharacterRelationship[]> {
+    try {
+      const [relationshipsResult, changesResult] = await Promise.all([
+        supabase.from('character_relationships').select('*').eq('project_id', projectId),
+        supabase.from('character_relationship_changes').select('*').eq('project_id', projectId)
+      ]);
+
+      if (relationshipsResult.error) {
+        logSupabaseError(relationshipsResult.error, 'RelationshipService.getRelationships');
+        throw relationshipsResult.error;
+      }
+      // Projects without the changes table yet still show their relationships
+      if (changesResult.error) {
+        logSupabaseError(changesResult.error, 'RelationshipService.getRelationships');
+      }
+
+      const changes = (changesResult.data || []).map(row => this.mapDbChange(row));
+      return (relationshipsResult.data || []).map(row => ({
+        ...this.mapDbRelationship(row),
+        changes: changes.filter(change => change.relationshipId === row.id)
+      }));
+    } catch (error) {
+      console.error('Error fetching character relationships:', error);
+      return [];
+    }
+  }
+
+  async createRelationship(projectId: string, input: RelationshipInput): Promise<CharacterRelationship | null> {
+    try {
+      const { data, error } = await supabase
+        .from('character_relationships')
+        .insert({ ...this.mapRelationshipToDb(input), project_id: projectId })
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'RelationshipService.createRelationship');
+        throw error;
+      }
+
+      return { ...this.mapDbRelationship(data), changes: [] };
+    } catch (error) {
+      console.error('Error creating character relationship:', error);
+      return null;
+    }
+  }
+
+  async updateRelationship(relationship: CharacterRelationship): Promise<CharacterRelationship | null> {
+    try {
+      const { data, error } = await supabase
+        .from('character_relationships')
+        .update(this.mapRelationshipToDb(relationship))
+        .eq('id', relationship.id)
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'RelationshipService.updateRelationship');
+        throw error;
+      }
+
+      return { ...this.mapDbRelationship(data), changes: relationship.changes };
+    } catch (error) {
+      console.error('Error updating character relationship:', error);
+      return null;
+    }
+  }
+
+  async deleteRelationship(id: string): Promise<boolean> {
+    const { error } = await supabase.from('character_relationships').delete().eq('id', id);
+    if (error) {
+      logSupabaseError(error, 'RelationshipService.deleteRelationship');
+      return false;
+    }
+    return true;
+  }
+
+  // Record how a relationship stands from a chapter on, replacing any earlier entry for that chapter
+  async saveChange(relationship: CharacterRelationship, change: RelationshipChangeInput): Promise<RelationshipChange | null> {
+    try {
+      const { data, error } = await supabase
+        .from('character_relationship_changes')
+        .upsert({
+          relationship_id: relationship.id,
+          project_id: relationship.projectId,
+          chapter_id: change.chapterId,
+          relationship_type: change.type,
+          strength: change.strength,
+          description: change.description,
+          ended: change.ended
+        }, { onConflict: 'relationship_id,chapter_id' })
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'RelationshipService.saveChange');
+        throw error;
+      }
+
+      return this.mapDbChange(data);
+    } catch (error) {
+      console.error('Error saving relationship change:', error);
+      return null;
+    }
+  }
+
+  async deleteChange(id: string): Promise<boolean> {
+    const { error } = await supabase.from('character_relationship_changes').delete().eq('id', id);
+    if (error) {
+      logSupabaseError(error, 'RelationshipService.deleteChange');
+      return false;
+    }
+    return true;
+  }
+
+  private mapRelationshipToDb(input: RelationshipInput) {
+    return {
+      character_a_id: input.fromId,
+      character_b_id: input.toId,
+      relationship_type: input.type,
+      description: input.description,
+      strength: input.strength,
+      introduced_chapter_id: input.introducedChapterId
+    };
+  }
+
+  private mapDbRelationship(row: DbRelationship): Omit<CharacterRelationship, 'changes'> {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      fromId: row.character_a_id,
+      toId: row.character_b_id,
+      type: row.relationship_type || '',
+      description: row.description || '',
+      strength: row.strength ?? 5,
+      introducedChapterId: row.introduced_chapter_id || null
+    };
+  }
+
+  private mapDbChange(row: DbRelationshipChange): RelationshipChange {
+    return {
+      id: row.id,
+      relationshipId: row.relationship_id,
+      chapterId: row.chapter_id,
+      type: row.relationship_type || null,
+      strength: row.strength ?? null,
+      description: row.description ?? null,
+      ended: !!row.ended
+    };
+  }
+}
+
+export const relationshipService = new RelationshipService();
@@ -0,0 +1,360 @@
+// src/services/scene-service.ts
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, logSupabaseError } from '../lib/supabase';
+import { chapterService } from './chapterService';
+import type { SceneData } from '../types/masterCanvas';
+
+export interface Scene {
+  id: string;
+  projectId: string;
+  chapterId: string;
+  outlineNodeId?: string;
+  title: string;
+  summary: string;
+  povCharacterId?: string;
+  locationId?: string;
+  characterIds: string[];
+  wordCount: number;
+  orderIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpdateSceneData {
+  title?: string;
+  summary?: string;
+  outlineNodeId?: string | null;
+  povCharacterId?: string | null;
+  locationId?: string | null;
+  characterIds?: string[];
+}
+
+// A row of the scenes table
+interface DbScene {
+  id: string;
+  project_id: string;
+  chapter_id: string;
+  outline_node_id: string | null;
+  title: string | null;
+  summary: string | null;
+  pov_character_id: string | null;
+  location_id: string | null;
+  character_ids: string[] | null;
+  word_count: number | null;
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SceneSegment {
+  sceneId: string | null;
+  html: string;
+}
+
+// Scene boundaries live inside chapter HTML as <hr class="scene-break" data-scene-id="...">
+const SCENE_BREAK_PATTERN = /<hr\b[^>]*\bdata-scene-id="([^"]+)"[^>]*\/?>/gi;
+
+/**
+ * Markup for a scene break that starts the given scene
+ */
+export function createSceneBreakHtml(sceneId: string): string {
+  return `<hr class="scene-break" data-scene-id="${sceneId}">`;
+}
+
+/**
+ * Split chapter HTML on scene-break markers. The first segment (text before
+ * any marker) has a null sceneId and belongs to the chapter's lead scene.
+ */
+export function splitChapterIntoSegments(html: string): SceneSegment[] {
+  const segments: SceneSegment[] = [];
+  let currentId: string | null = null;
+  let lastIndex = 0;
+
+  for (const match of (html || '').matchAll(SCENE_BREAK_PATTERN)) {
+    segments.push({ sceneId: currentId, html: html.slice(lastIndex, match.index) });
+    currentId = match[1];
+    lastIndex = (match.index || 0) + match[0].length;
+  }
+  segments.push({ sceneId: currentId, html: (html || '').slice(lastIndex) });
+
+  return segments;
+}
+
+/**
+ * Rebuild chapter HTML from ordered scene segments. The first scene is the
+ * lead scene and carries no marker; every following scene opens with one.
+ */
+export function buildChapterHtml(segments: SceneSegment[]): string {
+  return segments
+    .map((segment, index) => (index === 0 || !segment.sceneId ? '' : createSceneBreakHtml(segment.sceneId)) + segment.html)
+    .join('');
+}
+
+function hasText(html: string): boolean {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim().length > 0;
+}
+
+class SceneService {
+  // Get all scenes in a chapter, in reading order
+  async getChapterScenes(chapterId: string): Promise<Scene[]> {
+    try {
+      const { data, error } = await supabase
+        .from('scenes')
+        .select('*')
+        .eq('chapter_id', chapterId)
+        .order('order_index');
+
+      if (error) {
+        logSupabaseError(error, 'SceneService.getChapterScenes');
+        return [];
+      }
+
+      return (data || []).map(this.mapDbSceneToScene);
+    } catch (error) {
+      console.error('Error fetching chapter scenes:', error);
+      return [];
+    }
+  }
+
+  // Get every scene in a project, grouped in chapter order then scene order
+  async getProjectScenes(projectId: string): Promise<Scene[]> {
+    try {
+      const [chapters, { data, error }] = await Promise.all([
+        chapterService.getProjectChapters(projectId),
+        supabase
+          .from('scenes')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('order_index')
+      ]);
+
+      if (error) {
+        logSupabaseError(error, 'SceneService.getProjectScenes');
+        return [];
+      }
+
+      const chapterOrder = new Map(chapters.map(chapter => [chapter.id, chapter.orderIndex]));
+      return (data || [])
+        .map(this.mapDbSceneToScene)
+        .sort((a, b) =>
+          (chapterOrder.get(a.chapterId) ?? 0) - (chapterOrder.get(b.chapterId) ?? 0) ||
+          a.orderIndex - b.orderIndex
+        );
+    } catch (error) {
+      console.error('Error fetching project scenes:', error);
+      return [];
+    }
+  }
+
+  // Update scene metadata (POV, location, summary...). Content lives in the chapter.
+  async updateScene(id: string, updates: UpdateSceneData): Promise<Scene | null> {
+    try {
+      const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (updates.title !== undefined) updateData.title = updates.title;
+      if (updates.summary !== undefined) updateData.summary = updates.summary;
+      if (updates.outlineNodeId !== undefined) updateData.outline_node_id = updates.outlineNodeId;
+      if (updates.povCharacterId !== undefined) updateData.pov_character_id = updates.povCharacterId;
+      if (updates.locationId !== undefined) updateData.location_id = updates.locationId;
+      if (updates.characterIds !== undefined) updateData.character_ids = updates.characterIds;
+
+      const { data, error } = await supabase
+        .from('scenes')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'SceneService.updateScene');
+        return null;
+      }
+
+      return this.mapDbSceneToScene(data);
+    } catch (error) {
+      console.error('Error updating scene:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Reconcile scene records with the scene-break markers in a chapter's HTML:
+   * creates records for new breaks, refreshes word counts and order, and
+   * removes scenes whose break was deleted. `leadSceneId` names the scene
+   * that owns the unmarked opening text, e.g. one just moved to the top.
+   */
+  async syncChapterScenes(chapterId: string, html: string, leadSceneId?: string): Promise<Scene[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data: chapter, error: chapterError } = await supabase
+        .from('chapters')
+        .select('id, project_id')
+        .eq('id', chapterId)
+        .single();
+
+      if (chapterError || !chapter) {
+        throw new Error('Chapter not found or access denied');
+      }
+
+      const existing = await this.getChapterScenes(chapterId);
+      const segments = this.resolveSegments(html, existing, leadSceneId);
+      const now = new Date().toISOString();
+
+      const rows = segments.map((segment, index) => ({
+        id: segment.sceneId!,
+        project_id: chapter.project_id,
+        chapter_id: chapterId,
+        user_id: user.id,
+        word_count: chapterService.countWords(segment.html),
+        order_index: index,
+        updated_at: now
+      }));
+
+      if (rows.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('scenes')
+          .upsert(rows, { onConflict: 'id' });
+
+        if (upsertError) {
+          logSupabaseError(upsertError, 'SceneService.syncChapterScenes');
+          throw upsertError;
+        }
+      }
+
+      const keptIds = new Set(rows.map(row => row.id));
+      const removedIds = existing.filter(scene => !keptIds.has(scene.id)).map(scene => scene.id);
+      if (removedIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('scenes')
+          .delete()
+          .in('id', removedIds)
+          .eq('chapter_id', chapterId);
+
+        if (deleteError) {
+          logSupabaseError(deleteError, 'SceneService.syncChapterScenes');
+        }
+      }
+
+      return this.getChapterScenes(chapterId);
+    } catch (error) {
+      console.error('Error syncing chapter scenes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Move a scene to a position in the same or another chapter. The scene's
+   * prose moves with it, so both chapters' content is rewritten.
+   */
+  async moveScene(sceneId: string, targetChapterId: string, targetIndex: number): Promise<boolean> {
+    try {
+      const { data: sceneRow, error: sceneError } = await supabase
+        .from('scenes')
+        .select('*')
+        .eq('id', sceneId)
+        .single();
+
+      if (sceneError || !sceneRow) {
+        throw new Error('Scene not found or access denied');
+      }
+
+      const sourceChapterId: string = sceneRow.chapter_id;
+      const sourceChapter = await chapterService.getChapter(sourceChapterId);
+      const targetChapter = sourceChapterId === targetChapterId
+        ? sourceChapter
+        : await chapterService.getChapter(targetChapterId);
+
+      if (!sourceChapter || !targetChapter) {
+        throw new Error('Chapter not found or access denied');
+      }
+
+      const sourceSegments = this.resolveSegments(sourceChapter.content, await this.getChapterScenes(sourceChapterId));
+      const movingIndex = sourceSegments.findIndex(segment => segment.sceneId === sceneId);
+      if (movingIndex === -1) {
+        throw new Error('Scene is not present in its chapter content');
+      }
+      const [moving] = sourceSegments.splice(movingIndex, 1);
+
+      if (sourceChapterId === targetChapterId) {
+        const index = Math.max(0, Math.min(targetIndex, sourceSegments.length));
+        sourceSegments.splice(index, 0, moving);
+        const content = buildChapterHtml(sourceSegments);
+        await chapterService.updateChapter(sourceChapterId, { content });
+        await this.syncChapterScenes(sourceChapterId, content, sourceSegments[0].sceneId!);
+        return true;
+      }
+
+      const targetSegments = this.resolveSegments(targetChapter.content, await this.getChapterScenes(targetChapterId));
+      const index = Math.max(0, Math.min(targetIndex, targetSegments.length));
+      targetSegments.splice(index, 0, moving);
+
+      const targetContent = buildChapterHtml(targetSegments);
+      const sourceContent = buildChapterHtml(sourceSegments);
+
+      await chapterService.updateChapter(targetChapterId, { content: targetContent });
+      await chapterService.updateChapter(sourceChapterId, { content: sourceContent });
+
+      // Sync the target first so the moved scene is re-parented before the source
+      // prunes it. The first scene of each chapter loses its marker, so name it.
+      await this.syncChapterScenes(targetChapterId, targetContent, targetSegments[0].sceneId!);
+      await this.syncChapterScenes(sourceChapterId, sourceContent, sourceSegments[0]?.sceneId ?? undefined);
+
+      return true;
+    } catch (error) {
+      console.error('Error moving scene:', error);
+      return false;
+    }
+  }
+
+  // Map a scene to the canvas SceneData shape
+  toSceneData(scene: Scene): SceneData {
+    return {
+      id: scene.id,
+      title: scene.title,
+      summary: scene.summary,
+      characters: Array.from(new Set([
+        ...(scene.povCharacterId ? [scene.povCharacterId] : []),
+        ...scene.characterIds
+      ])),
+      location: scene.locationId,
+      order: scene.orderIndex
+    };
+  }
+
+  // Attach a scene id to every segment, reusing the lead scene for unmarked text
+  private resolveSegments(html: string, scenes: Scene[], leadSceneId?: string): SceneSegment[] {
+    const segments = splitChapterIntoSegments(html);
+    const markedIds = new Set(segments.map(segment => segment.sceneId).filter(Boolean));
+    const leadScene = leadSceneId ? { id: leadSceneId } : scenes.find(scene => !markedIds.has(scene.id));
+
+    return segments
+      // A chapter that opens with a scene break has no lead scene; an empty chapter keeps one
+      .filter(segment => segment.sceneId !== null || hasText(segment.html) || segments.length === 1)
+      .map(segment => ({
+        sceneId: segment.sceneId ?? leadScene?.id ?? uuidv4(),
+        html: segment.html
+      }));
+  }
+
+  // Map database scene to Scene
+  private mapDbSceneToScene(dbScene: DbScene): Scene {
+    return {
+      id: dbScene.id,
+      projectId: dbScene.project_id,
+      chapterId: dbScene.chapter_id,
+      outlineNodeId: dbScene.outline_node_id || undefined,
+      title: dbScene.title || '',
+      summary: dbScene.summary || '',
+      povCharacterId: dbScene.pov_character_id || undefined,
+      locationId: dbScene.location_id || undefined,
+      characterIds: dbScene.character_ids || [],
+      wordCount: dbScene.word_count || 0,
+      orderIndex: dbScene.order_index,
+      createdAt: new Date(dbScene.created_at),
+      updatedAt: new Date(dbScene.updated_at)
+    };
+  }
+}
+
+export const sceneService = new SceneService();
@@ -0,0 +1,399 @@
+// src/services/search-service.ts
+import Fuse from 'fuse.js';
+import type { FuseResultMatch } from 'fuse.js';
+import { supabase } from '../lib/supabase';
+import { chapterService, Chapter } from './chapterService';
+import { notesService } from './notes-service';
+import { characterService } from './character-service';
+import { plotService } from './plot-service';
+import { themeService } from './theme-service';
+import { worldBuildingService } from './world-building-service';
+import { outlineService, OutlineNode } from './outlineService';
+import { isSuggestedDeletion } from '../utils/trackChanges';
+
+export type SearchResultType =
+  | 'chapter'
+  | 'note'
+  | 'character'
+  | 'plot_thread'
+  | 'plot_event'
+  | 'theme'
+  | 'world_element'
+  | 'outline_node'
+  | 'imported_item';
+
+export interface SearchDocument {
+  // Unique across the index; chapters have one document per paragraph
+  key: string;
+  type: SearchResultType;
+  // The entity to open. Plot events open their thread.
+  id: string;
+  title: string;
+  body: string;
+  // Short context shown next to the title (role, category, chapter title...)
+  subtitle?: string;
+  // Chapter paragraphs: where the body starts in the editor's plain text
+  offset?: number;
+  // Chapter paragraphs: suggested deletions left out of the body, as
+  // [position in the body, length], to map matches back to the editor
+  gaps?: Array<[number, number]>;
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  // 0 is a perfect match, 1 no match at all
+  score: number;
+  titleHighlights: HighlightRange[];
+  snippet: string;
+  snippetHighlights: HighlightRange[];
+  // Chapter results: the matched text as plain-text offsets in the chapter
+  range?: HighlightRange;
+}
+
+export interface SearchIndex {
+  projectId: string;
+  documents: SearchDocument[];
+  fuse: Fuse<SearchDocument>;
+  indexedAt: Date;
+}
+
+// Re-reading every table on each keystroke is too slow; the palette forces a refresh when opened
+const CACHE_TTL_MS = 30000;
+const DEFAULT_LIMIT = 40;
+// Keep one long chapter from crowding out everything else
+const MAX_RESULTS_PER_CHAPTER = 3;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 60;
+
+const stripHtml = (html: string) => (html || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Split chapter HTML into paragraphs the way the editor lays it out, with the
+ * offset of each paragraph in the editor's plain text (textContent), so a
+ * match can be selected in the editor directly. Paragraph text reads as if
+ * pending suggestions were accepted.
+ */
+export function chapterParagraphs(html: string): Array<{ text: string; offset: number; gaps: Array<[number, number]> }> {
+  if (!html) return [];
+
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+  const paragraphs: Array<{ text: string; offset: number; gaps: Array<[number, number]> }> = [];
+  let offset = 0;
+
+  doc.body.childNodes.forEach(node => {
+    const walker = doc.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+    const textNodes: Node[] = node.nodeType === Node.TEXT_NODE ? [node] : [];
+    while (walker.nextNode()) textNodes.push(walker.currentNode);
+
+    let text = '';
+    const gaps: Array<[number, number]> = [];
+    textNodes.forEach(textNode => {
+      const value = textNode.textContent || '';
+      if (isSuggestedDeletion(textNode)) gaps.push([text.length, value.length]);
+      else text += value;
+    });
+
+    if (text.trim()) paragraphs.push({ text, offset, gaps });
+    offset += (node.textContent || '').length;
+  });
+
+  return paragraphs;
+}
+
+// Position in the editor's plain text of a position in a paragraph's body
+function editorOffset(document: SearchDocument, position: number, inclusive: boolean): number {
+  const skipped = (document.gaps || [])
+    .filter(([at]) => (inclusive ? at <= position : at < position))
+    .reduce((sum, [, length]) => sum + length, 0);
+  return (document.offset ?? 0) + position + skipped;
+}
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+  return merged;
+}
+
+/**
+ * Ranges to highlight in a field. Literal occurrences of the query words are
+ * preferred; fuzzy matches fall back to the ranges Fuse reported.
+ */
+export function findHighlights(text: string, query: string, match?: FuseResultMatch): HighlightRange[] {
+  const lower = text.toLowerCase();
+  const ranges: HighlightRange[] = [];
+
+  query.toLowerCase().split(/\s+/).filter(term => term.length >= 2).forEach(term => {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+
+  if (ranges.length === 0 && match) {
+    match.indices.forEach(([start, end]) => {
+      if (end - start >= 1) ranges.push({ start, end: end + 1 });
+    });
+  }
+
+  return mergeRanges(ranges);
+}
+
+// A window of text around the first highlight, with highlights moved into it
+export function makeSnippet(text: string, highlights: HighlightRange[]): { snippet: string; highlights: HighlightRange[] } {
+  const flat = text.replace(/\s/g, ' ');
+  if (flat.length <= SNIPPET_LENGTH) return { snippet: flat, highlights };
+
+  const first = highlights[0]?.start ?? 0;
+  const start = Math.max(0, Math.min(first - SNIPPET_LEAD, flat.length - SNIPPET_LENGTH));
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    snippet: prefix + flat.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(range => range.end > start && range.start < end)
+      .map(range => ({
+        start: Math.max(range.start, start) + shift,
+        end: Math.min(range.end, end) + shift
+      }))
+  };
+}
+
+function flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
+  return nodes.flatMap(node => [node, ...flattenOutline(node.children || [])]);
+}
+
+// One failing source (a missing table, say) shouldn't empty the whole palette
+async function collect<T>(source: string, load: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return (await load()) || [];
+  } catch (error) {
+    console.error(`Error loading ${source} for search:`, error);
+    return [];
+  }
+}
+
+class SearchService {
+  private cache = new Map<string, { index: Promise<SearchIndex>; createdAt: number }>();
+
+  /**
+   * Build (or reuse) the search index for a project. Results are cached
+   * briefly; pass force to re-read everything now.
+   */
+  indexProject(projectId: string, force = false): Promise<SearchIndex> {
+    const cached = this.cache.get(projectId);
+    if (!force && cached && Date.now() - cached.createdAt < CACHE_TTL_MS) {
+      return cached.index;
+    }
+
+    const index = this.buildIndex(projectId);
+    this.cache.set(projectId, { index, createdAt: Date.now() });
+    index.catch(() => this.cache.delete(projectId));
+    return index;
+  }
+
+  /**
+   * Search everything in a project at once, best matches first.
+   */
+  async search(projectId: string, query: string, limit = DEFAULT_LIMIT): Promise<SearchResult[]> {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) return [];
+
+    const { fuse } = await this.indexProject(projectId);
+    const perChapter = new Map<string, number>();
+    const results: SearchResult[] = [];
+
+    for (const hit of fuse.search(trimmed)) {
+      const document = hit.item;
+      if (document.type === 'chapter') {
+        const count = perChapter.get(document.id) || 0;
+        if (count >= MAX_RESULTS_PER_CHAPTER) continue;
+        perChapter.set(document.id, count + 1);
+      }
+
+      const titleMatch = hit.matches?.find(match => match.key === 'title');
+      const bodyMatch = hit.matches?.find(match => match.key === 'body');
+      const bodyHighlights = findHighlights(document.body, trimmed, bodyMatch);
+      const { snippet, highlights } = makeSnippet(document.body, bodyHighlights);
+
+      const result: SearchResult = {
+        document,
+        score: hit.score ?? 1,
+        titleHighlights: findHighlights(document.title, trimmed, titleMatch),
+        snippet,
+        snippetHighlights: highlights
+      };
+
+      if (document.type === 'chapter' && document.offset !== undefined) {
+        const first = bodyHighlights[0];
+        result.range = first
+          ? { start: editorOffset(document, first.start, true), end: editorOffset(document, first.end, false) }
+          : { start: document.offset, end: document.offset };
+      }
+
+      results.push(result);
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  invalidate(projectId?: string): void {
+    if (projectId) this.cache.delete(projectId);
+    else this.cache.clear();
+  }
+
+  private async buildIndex(projectId: string): Promise<SearchIndex> {
+    const [chapters, notes, characters, threads, events, themes, elements, outline, imported] = await Promise.all([
+      collect('chapters', () => chapterService.getProjectChapters(projectId)),
+      collect('notes', () => notesService.getNotes(projectId)),
+      collect('characters', () => characterService.getCharacters(projectId)),
+      collect('plot threads', () => plotService.getPlotThreads(projectId)),
+      collect('plot events', () => plotService.getPlotEvents(undefined, projectId)),
+      collect('themes', () => themeService.getThemes(projectId)),
+      collect('world elements', () => worldBuildingService.getWorldElements(projectId)),
+      collect('outline', () => outlineService.getOutlineNodes(projectId)),
+      collect('imported items', () => this.getImportedItems(projectId))
+    ]);
+
+    const documents: SearchDocument[] = [
+      ...chapters.flatMap(chapter => this.chapterDocuments(chapter)),
+      ...notes.map(note => ({
+        key: `note:${note.id}`,
+        type: 'note' as const,
+        id: note.id,
+        title: note.title || 'Untitled note',
+        body: note.content || '',
+        subtitle: note.category
+      })),
+      ...characters.map(character => ({
+        key: `character:${character.id}`,
+        type: 'character' as const,
+        id: character.id,
+        title: character.name,
+        body: [character.description, character.background, character.occupation, character.physical_description]
+          .filter(Boolean)
+          .join(' '),
+        subtitle: character.role
+      })),
+      ...threads.map(thread => ({
+        key: `plot_thread:${thread.id}`,
+        type: 'plot_thread' as const,
+        id: thread.id,
+        title: thread.title,
+        body: thread.description || '',
+        subtitle: thread.type
+      })),
+      ...events.map(event => ({
+        key: `plot_event:${event.id}`,
+        type: 'plot_event' as const,
+        id: event.thread_id,
+        title: event.title,
+        body: event.description || '',
+        subtitle: threads.find(thread => thread.id === event.thread_id)?.title
+      })),
+      ...themes.map(theme => ({
+        key: `theme:${theme.id}`,
+        type: 'theme' as const,
+        id: theme.id,
+        title: theme.title,
+        body: theme.description || '',
+        subtitle: theme.theme_type
+      })),
+      ...elements.map(element => ({
+        key: `world_element:${element.id}`,
+        type: 'world_element' as const,
+        id: element.id,
+        title: element.title,
+        body: [element.description, element.details].filter(Boolean).join(' '),
+        subtitle: element.category
+      })),
+      ...flattenOutline(outline).map(node => ({
+        key: `outline_node:${node.id}`,
+        type: 'outline_node' as const,
+        id: node.id,
+        title: node.title,
+        body: node.description || '',
+        subtitle: node.type
+      })),
+      ...imported.map(item => ({
+        key: `imported_item:${item.id}`,
+        type: 'imported_item' as const,
+        id: item.id,
+        title: item.title,
+        body: stripHtml(item.content),
+        subtitle: item.content_type
+      }))
+    ];
+
+    const fuse = new Fuse(documents, {
+      keys: [
+        { name: 'title', weight: 2 },
+        { name: 'body', weight: 1 }
+      ],
+      includeScore: true,
+      includeMatches: true,
+      ignoreLocation: true,
+      threshold: 0.35,
+      minMatchCharLength: 2
+    });
+
+    return { projectId, documents, fuse, indexedAt: new Date() };
+  }
+
+  // The chapter itself (matched by title) plus one document per paragraph
+  private chapterDocuments(chapter: Chapter): SearchDocument[] {
+    const paragraphs = chapterParagraphs(chapter.content);
+    const heading: SearchDocument = {
+      key: `chapter:${chapter.id}`,
+      type: 'chapter',
+      id: chapter.id,
+      title: chapter.title,
+      body: paragraphs[0]?.text || '',
+      subtitle: `Chapter ${chapter.orderIndex + 1}`,
+      offset: paragraphs[0]?.offset ?? 0,
+      gaps: paragraphs[0]?.gaps
+    };
+
+    return [
+      heading,
+      ...paragraphs.slice(1).map((paragraph, index) => ({
+        key: `chapter:${chapter.id}:${index + 1}`,
+        type: 'chapter' as const,
+        id: chapter.id,
+        title: '',
+        body: paragraph.text,
+        subtitle: chapter.title,
+        offset: paragraph.offset,
+        gaps: paragraph.gaps
+      }))
+    ];
+  }
+
+  private async getImportedItems(projectId: string): Promise<Array<{ id: string; title: string; content: string; content_type: string }>> {
+    const { data, error } = await supabase
+      .from('imported_items')
+      .select('id, title, content, content_type')
+      // Items added through the import wizard belong to no project
+      .or(`project_id.eq.${projectId},project_id.is.null`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
+
+export const searchService = new SearchService();
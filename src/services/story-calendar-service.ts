@@ -0,0 +1,30 @@
+// src/services/story-calendar-service.ts
+import { projectService } from './projectService';
+import { GREGORIAN_CALENDAR, StoryCalendar } from '../utils/storyCalendar';
+
+// Each project's in-world calendar is stored in projects.settings.storyCalendar.
+// Projects without one use the Gregorian calendar.
+class StoryCalendarService {
+  async getCalendar(projectId: string): Promise<StoryCalendar> {
+    try {
+      const project = await projectService.getProject(projectId);
+      const stored = project?.settings?.storyCalendar;
+      return stored ? { ...GREGORIAN_CALENDAR, ...stored } : GREGORIAN_CALENDAR;
+    } catch (error) {
+      console.error('Error loading story calendar:', error);
+      return GREGORIAN_CALENDAR;
+    }
+  }
+
+  async saveCalendar(projectId: string, calendar: StoryCalendar): Promise<boolean> {
+    const project = await projectService.getProject(projectId);
+    if (!project) return false;
+
+    const updated = await projectService.updateProject(projectId, {
+      settings: { ...(project.settings || {}), storyCalendar: calendar }
+    });
+    return !!updated;
+  }
+}
+
+export const storyCalendarService = new StoryCalendarService();
@@ -0,0 +1,696 @@
+// src/services/sync-service.ts
+import { supabase, logSupabaseError } from '../lib/supabase';
+import { offlineStore, OfflineEntity, QueuedMutation, RowPatch, StoredRow, SyncConflict, SyncedTable } from './offline-store';
+import { mergeRecords } from '../utils/threeWayMerge';
+import { acceptedHtml } from '../utils/trackChanges';
+
+export type { SyncConflict };
+
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'offline' | 'error' | 'conflict';
+
+export interface SyncState {
+  status: SyncStatus;
+  isOnline: boolean;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+}
+
+type SyncListener = (state: SyncState) => void;
+
+// How long to wait before retrying when requests fail while the browser reports a connection
+const RETRY_DELAY_MS = 30000;
+
+// Fields the server computes or that are recalculated from other fields after a merge
+const IGNORED_FIELDS = ['updated_at', 'word_count', 'completeness_score'];
+
+// Postgres error for an insert whose primary key already exists
+const UNIQUE_VIOLATION = '23505';
+
+function countWords(html: string): number {
+  return acceptedHtml(html || '').replace(/<[^>]*>/g, ' ').split(/\s+/).filter(word => word.length > 0).length;
+}
+
+// fetch() rejects with a TypeError when the network is unreachable
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string })?.message || '';
+  return /failed to fetch|network|load failed/i.test(message);
+}
+
+class SyncService {
+  private state: SyncState = {
+    status: 'synced',
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    pendingCount: 0,
+    conflicts: [],
+    lastSyncedAt: null,
+    lastError: null
+  };
+  private listeners = new Set<SyncListener>();
+  private flushPromise: Promise<void> | null = null;
+  private initialized = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushRequested = false;
+  // Mutations being sent; they are no longer merged into or dropped
+  private inFlight = new Set<number>();
+  // Serializes changes to the queue and offline rows
+  private queueLock: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Start listening for connectivity changes and replay anything queued
+   * from a previous session. Safe to call more than once.
+   */
+  init(): void {
+    if (this.initialized || typeof window === 'undefined' || !offlineStore.isAvailable()) return;
+    this.initialized = true;
+
+    window.addEventListener('online', () => {
+      this.setState({ isOnline: true });
+      this.flush();
+    });
+    window.addEventListener('offline', () => {
+      this.setState({ isOnline: false, status: 'offline' });
+    });
+
+    this.loadConflicts()
+      .then(() => this.refreshPendingCount())
+      .then(() => this.flush());
+  }
+
+  getState(): SyncState {
+    return this.state;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isOnline(): boolean {
+    return this.state.isOnline;
+  }
+
+  /**
+   * The signed-in user's id, from the stored session so it is known offline
+   */
+  async getUserId(): Promise<string> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) throw new Error('User not authenticated');
+    return session.user.id;
+  }
+
+  /**
+   * Remember rows fetched from the server so they can be read offline and
+   * used as the merge base for later edits. Rows with unsynced local edits
+   * keep their local copy.
+   */
+  async cacheRows<T extends { id: string }>(table: SyncedTable, rows: T[]): Promise<void> {
+    if (!offlineStore.isAvailable()) return;
+    try {
+      await Promise.all(rows.map(async row => {
+        const existing = await offlineStore.getEntity(table, row.id);
+        if (existing?.dirty) return;
+        const stored = row as unknown as StoredRow;
+        await offlineStore.putEntity({ table, id: row.id, row: stored, base: stored, dirty: false, cachedAt: Date.now() });
+      }));
+    } catch (error) {
+      console.warn('Failed to cache rows for offline use:', error);
+    }
+  }
+
+  async getCachedRow<T extends { id: string }>(table: SyncedTable, id: string): Promise<T | null> {
+    if (!offlineStore.isAvailable()) return null;
+    try {
+      const entity = await offlineStore.getEntity(table, id);
+      return entity ? (entity.row as unknown as T) : null;
+    } catch (error) {
+      console.warn('Failed to read offline cache:', error);
+      return null;
+    }
+  }
+
+  async getCachedRows<T extends { id: string }>(table: SyncedTable, predicate: (row: T) => boolean = () => true): Promise<T[]> {
+    if (!offlineStore.isAvailable()) return [];
+    try {
+      return (await offlineStore.getEntities(table)).map(entity => entity.row as unknown as T).filter(predicate);
+    } catch (error) {
+      console.warn('Failed to read offline cache:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a row just written online, so the offline copy and the base that
+   * later offline edits are merged against include the write.
+   */
+  async recordServerRow<T extends { id: string }>(table: SyncedTable, row: T): Promise<void> {
+    await this.applyServerWrite(table, row.id, row as unknown as RowPatch, true);
+  }
+
+  /**
+   * Like recordServerRow for writes that only return some fields, e.g. the
+   * auto-save RPC. Without updated_at the next offline edit is merged
+   * three-way, which is clean for fields recorded here.
+   */
+  async recordServerWrite(table: SyncedTable, id: string, written: RowPatch): Promise<void> {
+    await this.applyServerWrite(table, id, written, false);
+  }
+
+  // Services call the queue* methods instead of Supabase while offline. The
+  // change is applied to the offline copy straight away and queued in
+  // IndexedDB; flush() sends the queue in order once the connection returns,
+  // including after a reload.
+
+  /**
+   * Add a row created offline, with an id made on the client, and queue the
+   * insert. Edits made before it reaches the server are folded into it.
+   */
+  async queueCreate<T extends { id: string }>(table: SyncedTable, row: T): Promise<T> {
+    this.assertAvailable();
+    const stored = row as unknown as StoredRow;
+
+    await this.exclusive(async () => {
+      await offlineStore.putEntity({ table, id: row.id, row: stored, base: null, dirty: true, cachedAt: Date.now() });
+      await offlineStore.putMutation({
+        kind: 'create',
+        table,
+        entityId: row.id,
+        patch: stored,
+        baseUpdatedAt: null,
+        createdAt: Date.now(),
+        attempts: 0
+      });
+    });
+
+    await this.afterQueue();
+    return row;
+  }
+
+  /**
+   * Apply an update locally and queue it for the server. Consecutive edits
+   * to the same row are coalesced into one queued mutation, unless that one
+   * is being sent right now. Returns the updated local row.
+   */
+  async queueUpdate<T extends { id: string }>(table: SyncedTable, id: string, patch: Partial<T>): Promise<T> {
+    this.assertAvailable();
+    const fields = patch as RowPatch;
+
+    const row = await this.exclusive(async () => {
+      const queued = await offlineStore.getEntityMutations(table, id);
+      if (queued.some(mutation => mutation.kind === 'delete')) {
+        throw new Error('This item is waiting to be deleted');
+      }
+
+      const now = new Date().toISOString();
+      const entity: OfflineEntity = (await offlineStore.getEntity(table, id)) || {
+        table, id, row: { id }, base: null, dirty: false, cachedAt: Date.now()
+      };
+      const updated: StoredRow = { ...entity.row, ...fields, id, updated_at: now };
+      await offlineStore.putEntity({ ...entity, row: updated, dirty: true, cachedAt: Date.now() });
+
+      const open = queued.find(mutation => this.isOpen(mutation));
+      if (open) {
+        await offlineStore.putMutation({ ...open, patch: { ...open.patch, ...fields } });
+      } else {
+        await offlineStore.putMutation({
+          kind: 'update',
+          table,
+          entityId: id,
+          patch: fields,
+          baseUpdatedAt: entity.base?.updated_at ?? null,
+          createdAt: Date.now(),
+          attempts: 0
+        });
+      }
+      return updated;
+    });
+
+    await this.afterQueue();
+    return row as unknown as T;
+  }
+
+  /**
+   * Remove a row locally and queue the delete. A row that was created
+   * offline and never sent is just dropped, along with its queued edits.
+   */
+  async queueDelete(table: SyncedTable, id: string): Promise<void> {
+    this.assertAvailable();
+
+    await this.exclusive(async () => {
+      const queued = await offlineStore.getEntityMutations(table, id);
+      const waiting = queued.filter(mutation => !this.inFlight.has(mutation.id!));
+      const neverSent = waiting.some(mutation => mutation.kind === 'create');
+
+      // Nothing queued for the row matters once it is deleted
+      await Promise.all(waiting.map(mutation => offlineStore.deleteMutation(mutation.id!)));
+      await this.dropConflicts(waiting.map(mutation => mutation.id!));
+
+      await offlineStore.deleteEntity(table, id);
+      if (neverSent) return;
+
+      await offlineStore.putMutation({
+        kind: 'delete',
+        table,
+        entityId: id,
+        patch: {},
+        baseUpdatedAt: null,
+        createdAt: Date.now(),
+        attempts: 0
+      });
+    });
+
+    await this.afterQueue();
+  }
+
+  /**
+   * Drop a row deleted online from the offline copy
+   */
+  async forgetRow(table: SyncedTable, id: string): Promise<void> {
+    if (!offlineStore.isAvailable()) return;
+    try {
+      await this.exclusive(() => offlineStore.deleteEntity(table, id));
+    } catch (error) {
+      console.warn('Failed to update offline cache:', error);
+    }
+  }
+
+  /**
+   * Replay queued mutations in order. Rows changed on the server since the
+   * edit was made are merged three-way; anything that cannot be merged is
+   * held back as a conflict for the user to resolve. A change the server
+   * refuses outright, e.g. by a policy, is not resent until retry().
+   */
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      // Pick up whatever was queued after this flush read the queue
+      this.flushRequested = true;
+      return this.flushPromise;
+    }
+    this.flushPromise = this.runFlush().finally(() => {
+      this.flushPromise = null;
+      if (this.flushRequested) {
+        this.flushRequested = false;
+        this.flush();
+      }
+    });
+    return this.flushPromise;
+  }
+
+  private async runFlush(): Promise<void> {
+    if (!offlineStore.isAvailable()) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine !== this.state.isOnline) {
+      this.setState({ isOnline: navigator.onLine });
+    }
+    if (!this.state.isOnline) return;
+
+    const mutations = await offlineStore.getMutations();
+    const blocked = this.heldBack(mutations);
+    const toReplay = mutations.filter(mutation => !blocked.has(mutation.id!));
+    const refused = mutations.find(mutation => mutation.rejected)?.lastError ?? null;
+    if (toReplay.length === 0) {
+      this.setState(refused ? { status: 'error', lastError: refused } : { status: this.statusFor(mutations.length) });
+      return;
+    }
+
+    this.setState({ status: 'syncing', lastError: refused });
+
+    // Rows with a change refused during this flush; later edits wait behind it
+    const refusedRows = new Set<string>();
+
+    for (const { id, table, entityId } of toReplay) {
+      if (refusedRows.has(`${table}:${entityId}`)) continue;
+
+      // Re-read the mutation and freeze it in one step, so an edit made
+      // while it is being sent goes into a new mutation instead
+      const mutation = await this.exclusive(async () => {
+        const current = await offlineStore.getMutation(id!);
+        if (current) this.inFlight.add(id!);
+        return current;
+      });
+      if (!mutation) continue;
+
+      try {
+        await this.replay(mutation);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Sync failed';
+        if (isNetworkError(error)) {
+          this.setState({ isOnline: false, lastError: message });
+          this.scheduleRetry();
+          break;
+        }
+        // Sending it again would be refused the same way
+        console.error('Failed to replay queued change:', error);
+        await offlineStore.putMutation({ ...mutation, attempts: mutation.attempts + 1, lastError: message, rejected: true });
+        refusedRows.add(`${table}:${entityId}`);
+        this.setState({ lastError: message });
+      } finally {
+        this.inFlight.delete(id!);
+      }
+    }
+
+    await this.refreshPendingCount();
+    this.setState({
+      status: this.state.lastError && this.state.isOnline ? 'error' : this.statusFor(this.state.pendingCount),
+      lastSyncedAt: this.state.pendingCount === 0 ? new Date() : this.state.lastSyncedAt
+    });
+  }
+
+  private async replay(mutation: QueuedMutation): Promise<void> {
+    if (mutation.kind === 'create') return this.replayCreate(mutation);
+    if (mutation.kind === 'delete') return this.replayDelete(mutation);
+
+    const { data: server, error } = await supabase
+      .from(mutation.table)
+      .select('*')
+      .eq('id', mutation.entityId)
+      .maybeSingle<StoredRow>();
+
+    if (error) {
+      logSupabaseError(error, 'SyncService.replay');
+      throw error;
+    }
+
+    if (!server) {
+      // The row was deleted elsewhere; there is nothing left to update
+      await this.exclusive(async () => {
+        await offlineStore.deleteMutation(mutation.id!);
+        await offlineStore.deleteEntity(mutation.table, mutation.entityId);
+      });
+      return;
+    }
+
+    let patch = mutation.patch;
+    const changedOnServer = mutation.baseUpdatedAt !== null && server.updated_at !== mutation.baseUpdatedAt;
+
+    if (changedOnServer) {
+      const entity = await offlineStore.getEntity(mutation.table, mutation.entityId);
+      const base = entity?.base || {};
+      const local = this.withoutIgnoredFields(mutation.patch);
+      const { merged, conflicts } = mergeRecords(base, local, server);
+
+      if (conflicts.length > 0) {
+        await this.addConflict({
+          mutationId: mutation.id!,
+          table: mutation.table,
+          entityId: mutation.entityId,
+          title: String(server.title || server.name || 'Untitled'),
+          merged,
+          conflicts,
+          serverUpdatedAt: server.updated_at ?? null
+        });
+        return;
+      }
+
+      patch = merged;
+    }
+
+    await this.push(mutation, patch);
+  }
+
+  private async replayCreate(mutation: QueuedMutation): Promise<void> {
+    const { data, error } = await supabase
+      .from(mutation.table)
+      .insert(mutation.patch)
+      .select()
+      .single<StoredRow>();
+
+    if (error && error.code !== UNIQUE_VIOLATION) {
+      logSupabaseError(error, 'SyncService.replayCreate');
+      throw error;
+    }
+
+    // A duplicate id means an earlier attempt got through before the
+    // connection dropped
+    await this.settle(mutation, data || { ...mutation.patch, id: mutation.entityId });
+  }
+
+  private async replayDelete(mutation: QueuedMutation): Promise<void> {
+    const { error } = await supabase
+      .from(mutation.table)
+      .delete()
+      .eq('id', mutation.entityId);
+
+    if (error) {
+      logSupabaseError(error, 'SyncService.replayDelete');
+      throw error;
+    }
+
+    await offlineStore.deleteMutation(mutation.id!);
+  }
+
+  private async push(mutation: QueuedMutation, patch: RowPatch): Promise<void> {
+    const updateData: RowPatch = { ...patch, updated_at: new Date().toISOString() };
+    if (mutation.table === 'chapters' && typeof patch.content === 'string') {
+      updateData.word_count = countWords(patch.content);
+    }
+
+    const { data, error } = await supabase
+      .from(mutation.table)
+      .update(updateData)
+      .eq('id', mutation.entityId)
+      .select()
+      .single<StoredRow>();
+
+    if (error) {
+      logSupabaseError(error, 'SyncService.push');
+      throw error;
+    }
+
+    await this.settle(mutation, data);
+  }
+
+  // Remove a sent mutation and make the server's row the new base
+  private async settle(mutation: QueuedMutation, server: StoredRow): Promise<void> {
+    await this.exclusive(async () => {
+      await offlineStore.deleteMutation(mutation.id!);
+      const remaining = await offlineStore.getEntityMutations(mutation.table, mutation.entityId);
+
+      // Edits queued meanwhile were made on top of what was just sent
+      await Promise.all(remaining.filter(queued => this.isOpen(queued)).map(queued =>
+        offlineStore.putMutation({ ...queued, baseUpdatedAt: server.updated_at ?? null })
+      ));
+
+      const pendingPatch = remaining.reduce<RowPatch>((acc, queued) => ({ ...acc, ...queued.patch }), {});
+      await offlineStore.putEntity({
+        table: mutation.table,
+        id: mutation.entityId,
+        // Later queued edits still need to be visible locally
+        row: { ...server, ...pendingPatch },
+        base: server,
+        dirty: remaining.length > 0,
+        cachedAt: Date.now()
+      });
+    });
+  }
+
+  private async applyServerWrite(table: SyncedTable, id: string, written: RowPatch, complete: boolean): Promise<void> {
+    if (!offlineStore.isAvailable()) return;
+
+    try {
+      await this.exclusive(async () => {
+        const entity = await offlineStore.getEntity(table, id);
+        const row = { ...written, id } as StoredRow;
+
+        if (!entity || !entity.dirty) {
+          // A partial write can't stand in for a row that was never cached
+          if (!entity && !complete) return;
+          const updated = entity ? { ...entity.row, ...row } : row;
+          await offlineStore.putEntity({ table, id, row: updated, base: updated, dirty: false, cachedAt: Date.now() });
+          return;
+        }
+
+        // The write is newer than offline edits queued for the same fields
+        const writtenFields = Object.keys(written).filter(field => field !== 'updated_at' && field !== 'id');
+        const queued = await offlineStore.getEntityMutations(table, id);
+        const remaining: QueuedMutation[] = [];
+        for (const mutation of queued) {
+          if (!this.isOpen(mutation) || mutation.kind === 'create') {
+            remaining.push(mutation);
+            continue;
+          }
+          const patch = Object.fromEntries(Object.entries(mutation.patch).filter(([field]) => !writtenFields.includes(field)));
+          if (Object.keys(patch).length === 0) {
+            await offlineStore.deleteMutation(mutation.id!);
+          } else {
+            await offlineStore.putMutation({ ...mutation, patch });
+            remaining.push({ ...mutation, patch });
+          }
+        }
+
+        const pendingPatch = remaining.reduce<RowPatch>((acc, mutation) => ({ ...acc, ...mutation.patch }), {});
+        await offlineStore.putEntity({
+          ...entity,
+          row: { ...entity.row, ...row, ...pendingPatch },
+          // Keep the base's updated_at, so queued edits are merged against
+          // the server copy rather than written over it
+          base: entity.base ? { ...entity.base, ...row, updated_at: entity.base.updated_at } : null,
+          dirty: remaining.length > 0,
+          cachedAt: Date.now()
+        });
+      });
+      await this.refreshPendingCount();
+    } catch (error) {
+      console.warn('Failed to update offline cache:', error);
+    }
+  }
+
+  /**
+   * Finish a conflict with the user's chosen values for the conflicting
+   * fields. The result is written over the current server copy.
+   */
+  async resolveConflict(mutationId: number, resolved: RowPatch): Promise<boolean> {
+    const conflict = this.state.conflicts.find(c => c.mutationId === mutationId);
+    if (!conflict) return false;
+
+    const mutations = await offlineStore.getEntityMutations(conflict.table, conflict.entityId);
+    const mutation = mutations.find(m => m.id === mutationId);
+    if (!mutation) return false;
+
+    try {
+      await this.push(mutation, { ...conflict.merged, ...resolved });
+      await this.dropConflicts([mutationId]);
+      await this.refreshPendingCount();
+      this.setState({ status: this.statusFor(this.state.pendingCount) });
+      this.flush();
+      return true;
+    } catch (error) {
+      console.error('Failed to resolve sync conflict:', error);
+      this.setState({ lastError: error instanceof Error ? error.message : 'Failed to resolve conflict' });
+      return false;
+    }
+  }
+
+  /**
+   * Throw away the local edit and keep the server copy
+   */
+  async discardLocalChange(mutationId: number): Promise<void> {
+    const conflict = this.state.conflicts.find(c => c.mutationId === mutationId);
+    if (!conflict) return;
+
+    await this.exclusive(async () => {
+      await offlineStore.deleteMutation(mutationId);
+      await offlineStore.deleteEntity(conflict.table, conflict.entityId);
+      await this.dropConflicts([mutationId]);
+    });
+    await this.refreshPendingCount();
+    this.setState({ status: this.statusFor(this.state.pendingCount) });
+  }
+
+  /**
+   * Send changes the server refused once more, e.g. after the user has
+   * fixed their access to the project
+   */
+  async retry(): Promise<void> {
+    if (!offlineStore.isAvailable()) return;
+    await this.exclusive(async () => {
+      const refused = (await offlineStore.getMutations()).filter(mutation => mutation.rejected);
+      await Promise.all(refused.map(mutation => offlineStore.putMutation({ ...mutation, rejected: false })));
+    });
+    await this.flush();
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, RETRY_DELAY_MS);
+  }
+
+  private withoutIgnoredFields(patch: RowPatch): RowPatch {
+    return Object.fromEntries(Object.entries(patch).filter(([field]) => !IGNORED_FIELDS.includes(field)));
+  }
+
+  // Still collecting edits: not being sent, refused or held back as a conflict
+  private isOpen(mutation: QueuedMutation): boolean {
+    return mutation.kind !== 'delete'
+      && !mutation.rejected
+      && !this.inFlight.has(mutation.id!)
+      && !this.state.conflicts.some(conflict => conflict.mutationId === mutation.id);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queueLock.then(task, task);
+    this.queueLock = run.catch(() => undefined);
+    return run;
+  }
+
+  private assertAvailable(): void {
+    if (!offlineStore.isAvailable()) {
+      throw new Error('Offline storage is not available in this browser');
+    }
+  }
+
+  private async afterQueue(): Promise<void> {
+    await this.refreshPendingCount();
+    if (this.state.isOnline) this.flush();
+  }
+
+  // Conflicts and refused changes, along with anything queued after a
+  // refused change for the same row
+  private heldBack(mutations: QueuedMutation[]): Set<number> {
+    const held = new Set(this.state.conflicts.map(conflict => conflict.mutationId));
+    const refused = mutations.filter(mutation => mutation.rejected);
+    mutations.forEach(mutation => {
+      if (refused.some(r => r.table === mutation.table && r.entityId === mutation.entityId && r.id! <= mutation.id!)) {
+        held.add(mutation.id!);
+      }
+    });
+    return held;
+  }
+
+  private async loadConflicts(): Promise<void> {
+    try {
+      this.setState({ conflicts: await offlineStore.getConflicts() });
+    } catch (error) {
+      console.warn('Failed to read sync conflicts:', error);
+    }
+  }
+
+  private async addConflict(conflict: SyncConflict): Promise<void> {
+    await offlineStore.putConflict(conflict);
+    this.setState({
+      conflicts: [...this.state.conflicts.filter(c => c.mutationId !== conflict.mutationId), conflict]
+    });
+  }
+
+  private async dropConflicts(mutationIds: number[]): Promise<void> {
+    const dropped = this.state.conflicts.filter(conflict => mutationIds.includes(conflict.mutationId));
+    if (dropped.length === 0) return;
+    await Promise.all(dropped.map(conflict => offlineStore.deleteConflict(conflict.mutationId)));
+    this.setState({ conflicts: this.state.conflicts.filter(conflict => !mutationIds.includes(conflict.mutationId)) });
+  }
+
+  private statusFor(pendingCount: number): SyncStatus {
+    if (this.state.conflicts.length > 0) return 'conflict';
+    if (!this.state.isOnline) return 'offline';
+    return pendingCount > 0 ? 'pending' : 'synced';
+  }
+
+  private async refreshPendingCount(): Promise<void> {
+    try {
+      const mutations = await offlineStore.getMutations();
+      this.setState({ pendingCount: mutations.length });
+    } catch (error) {
+      console.warn('Failed to read sync queue:', error);
+    }
+  }
+
+  private setState(updates: Partial<SyncState>): void {
+    this.state = { ...this.state, ...updates };
+    if (updates.isOnline !== undefined || updates.conflicts !== undefined) {
+      // Keep the headline status consistent with connectivity and conflicts
+      if (this.state.status !== 'syncing') {
+        this.state.status = this.statusFor(this.state.pendingCount);
+      }
+    }
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export const syncService = new SyncService();
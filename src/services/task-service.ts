@@ -0,0 +1,359 @@
+// src/services/task-service.ts
+import { supabase, logSupabaseError } from '../lib/supabase';
+import { chapterService } from './chapterService';
+import { characterService } from './character-service';
+import { worldBuildingService } from './world-building-service';
+import { outlineService, OutlineNode } from './outlineService';
+import { Task, TaskLink, KanbanColumn } from '../types/kanban';
+
+export type NewTask = Omit<Task, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Everything a task can link to in a project, for pickers and for resolving links
+export interface TaskLinkTargets {
+  chapters: TaskLink[];
+  characters: TaskLink[];
+  worldElements: TaskLink[];
+}
+
+export const EMPTY_LINK_TARGETS: TaskLinkTargets = { chapters: [], characters: [], worldElements: [] };
+
+/**
+ * The link a task carries, resolved against the project's current records.
+ * A link whose target no longer exists comes back with an empty title.
+ */
+export function resolveTaskLink(task: Task, targets: TaskLinkTargets): TaskLink | null {
+  const find = (type: TaskLink['type'], id: string, list: TaskLink[]) =>
+    list.find(target => target.id === id) || { type, id, title: '' };
+
+  if (task.linkedChapterId) return find('chapter', task.linkedChapterId, targets.chapters);
+  if (task.linkedCharacterId) return find('character', task.linkedCharacterId, targets.characters);
+  if (task.linkedWorldElementId) return find('world_element', task.linkedWorldElementId, targets.worldElements);
+  return null;
+}
+
+// The board's columns, each holding its tasks in position order
+export function groupTasks(tasks: Task[], columns: Omit<KanbanColumn, 'tasks'>[]): KanbanColumn[] {
+  return columns.map(column => ({
+    ...column,
+    tasks: tasks
+      .filter(task => task.status === column.id)
+      .sort((a, b) => a.positionInColumn - b.positionInColumn)
+  }));
+}
+
+/**
+ * Move a task into a column at the given index (the end when omitted) and
+ * renumber both columns. Returns every task, plus the ones whose column or
+ * position changed.
+ */
+export function moveTask(
+  tasks: Task[],
+  taskId: string,
+  status: Task['status'],
+  index?: number
+): { tasks: Task[]; changed: Task[] } {
+  const moving = tasks.find(task => task.id === taskId);
+  if (!moving) return { tasks, changed: [] };
+
+  const target = tasks
+    .filter(task => task.status === status && task.id !== taskId)
+    .sort((a, b) => a.positionInColumn - b.positionInColumn);
+  target.splice(index === undefined ? target.length : Math.min(index, target.length), 0, { ...moving, status });
+
+  const source = tasks
+    .filter(task => task.status === moving.status && task.id !== taskId && moving.status !== status)
+    .sort((a, b) => a.positionInColumn - b.positionInColumn);
+
+  const placed = new Map<string, Task>();
+  [target, source].forEach(column => column.forEach((task, position) => {
+    placed.set(task.id, { ...task, positionInColumn: position });
+  }));
+
+  const changed = tasks.filter(task => {
+    const next = placed.get(task.id);
+    return next && (next.status !== task.status || next.positionInColumn !== task.positionInColumn);
+  }).map(task => placed.get(task.id) as Task);
+
+  return { tasks: tasks.map(task => placed.get(task.id) || task), changed };
+}
+
+const LEGACY_BOARD_KEY = (projectId: string) => `kanban-${projectId}`;
+
+// A row of the tasks table
+interface DbTask {
+  id: string;
+  title: string;
+  description: string;
+  task_type: Task['taskType'];
+  priority: Task['priority'];
+  status: Task['status'];
+  position: number;
+  due_date: string | null;
+  linked_chapter_id: string | null;
+  linked_character_id: string | null;
+  linked_world_element_id: string | null;
+  outline_node_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+class TaskService {
+  async getTasks(projectId: string): Promise<Task[]> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('archived', false)
+        .order('position');
+
+      if (error) {
+        logSupabaseError(error, 'TaskService.getTasks');
+        throw error;
+      }
+
+      return (data || []).map(row => this.mapDbTask(row));
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+      return [];
+    }
+  }
+
+  async createTask(projectId: string, task: NewTask): Promise<Task | null> {
+    const created = await this.insertTasks(projectId, [task]);
+    return created[0] || null;
+  }
+
+  async updateTask(task: Task): Promise<Task | null> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(this.mapTaskToDb(task))
+        .eq('id', task.id)
+        .select()
+        .single();
+
+      if (error) {
+        logSupabaseError(error, 'TaskService.updateTask');
+        throw error;
+      }
+
+      return this.mapDbTask(data);
+    } catch (error) {
+      console.error('Error updating task:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a task. Tasks made from outline nodes are archived instead so
+   * syncOutlineTasks does not bring them back.
+   */
+  async deleteTask(task: Task): Promise<boolean> {
+    try {
+      const { error } = task.outlineNodeId
+        ? await supabase.from('tasks').update({ archived: true }).eq('id', task.id)
+        : await supabase.from('tasks').delete().eq('id', task.id);
+
+      if (error) {
+        logSupabaseError(error, 'TaskService.deleteTask');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      return false;
+    }
+  }
+
+  // Save the column and position of every task whose place changed
+  async saveOrder(tasks: Pick<Task, 'id' | 'status' | 'positionInColumn'>[]): Promise<boolean> {
+    try {
+      const results = await Promise.all(tasks.map(task =>
+        supabase
+          .from('tasks')
+          .update({ status: task.status, position: task.positionInColumn })
+          .eq('id', task.id)
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        logSupabaseError(failed.error, 'TaskService.saveOrder');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving task order:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a task for each planned outline chapter or scene that has none
+   * yet, and complete open tasks whose node has moved past planned.
+   * Returns the tasks that were created or changed.
+   */
+  async syncOutlineTasks(projectId: string, tasks: Task[]): Promise<Task[]> {
+    try {
+      const nodes = this.flattenOutline(await outlineService.getOutlineNodes(projectId))
+        .filter(node => node.type !== 'act');
+
+      // Archived tasks count too, so deleted ones stay deleted
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('outline_node_id')
+        .eq('project_id', projectId)
+        .not('outline_node_id', 'is', null);
+
+      if (error) {
+        logSupabaseError(error, 'TaskService.syncOutlineTasks');
+        return [];
+      }
+
+      const tracked = new Set((data || []).map(row => row.outline_node_id as string));
+      const todoCount = tasks.filter(task => task.status === 'todo').length;
+
+      const newTasks: NewTask[] = nodes
+        .filter(node => node.status === 'planned' && !tracked.has(node.id))
+        .map((node, index) => ({
+          title: `Write "${node.title}"`,
+          description: node.description,
+          taskType: 'chapter',
+          priority: 'medium',
+          status: 'todo',
+          outlineNodeId: node.id,
+          positionInColumn: todoCount + index
+        }));
+
+      const created = newTasks.length > 0 ? await this.insertTasks(projectId, newTasks) : [];
+
+      const finishedNodes = new Set(nodes.filter(node => node.status !== 'planned').map(node => node.id));
+      const completedCount = tasks.filter(task => task.status === 'completed').length;
+      const finished = tasks
+        .filter(task => task.outlineNodeId && finishedNodes.has(task.outlineNodeId) && task.status !== 'completed')
+        .map((task, index) => ({ ...task, status: 'completed' as const, positionInColumn: completedCount + index }));
+
+      if (finished.length > 0) await this.saveOrder(finished);
+
+      return [...created, ...finished];
+    } catch (error) {
+      console.error('Error creating tasks from the outline:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Move a board kept in this browser's localStorage (before tasks were
+   * stored in Supabase) into the tasks table, then forget the local copy.
+   * Returns the number of tasks moved.
+   */
+  async migrateLocalBoard(projectId: string): Promise<number> {
+    const key = LEGACY_BOARD_KEY(projectId);
+    const stored = localStorage.getItem(key);
+    if (!stored) return 0;
+
+    try {
+      const columns = JSON.parse(stored) as KanbanColumn[];
+      const legacyTasks: NewTask[] = columns.flatMap(column => (column.tasks || []).map((task, index) => ({
+        title: task.title,
+        description: task.description,
+        taskType: task.taskType,
+        priority: task.priority,
+        status: task.status,
+        dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+        linkedChapterId: task.linkedChapterId,
+        linkedCharacterId: task.linkedCharacterId,
+        positionInColumn: index
+      })));
+
+      if (legacyTasks.length > 0) {
+        const created = await this.insertTasks(projectId, legacyTasks);
+        // Keep the local board if the upload failed, to try again next time
+        if (created.length !== legacyTasks.length) return 0;
+      }
+
+      localStorage.removeItem(key);
+      return legacyTasks.length;
+    } catch (error) {
+      console.error('Error migrating the local Kanban board:', error);
+      return 0;
+    }
+  }
+
+  async getLinkTargets(projectId: string): Promise<TaskLinkTargets> {
+    const [chapters, characters, worldElements] = await Promise.all([
+      chapterService.getProjectChapters(projectId).catch(() => []),
+      characterService.getCharacters(projectId).catch(() => []),
+      worldBuildingService.getWorldElements(projectId).catch(() => [])
+    ]);
+
+    return {
+      chapters: chapters.map(chapter => ({ type: 'chapter', id: chapter.id, title: chapter.title })),
+      characters: characters.map(character => ({ type: 'character', id: character.id, title: character.name })),
+      worldElements: worldElements.map(element => ({ type: 'world_element', id: element.id, title: element.title }))
+    };
+  }
+
+  private async insertTasks(projectId: string, tasks: NewTask[]): Promise<Task[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert(tasks.map(task => ({ ...this.mapTaskToDb(task), project_id: projectId, user_id: user.id })))
+        .select();
+
+      if (error) {
+        logSupabaseError(error, 'TaskService.insertTasks');
+        throw error;
+      }
+
+      return (data || []).map(row => this.mapDbTask(row));
+    } catch (error) {
+      console.error('Error creating tasks:', error);
+      return [];
+    }
+  }
+
+  private flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
+    return nodes.flatMap(node => [node, ...this.flattenOutline(node.children || [])]);
+  }
+
+  private mapTaskToDb(task: NewTask) {
+    return {
+      title: task.title,
+      description: task.description || '',
+      task_type: task.taskType,
+      priority: task.priority,
+      status: task.status,
+      position: task.positionInColumn,
+      due_date: task.dueDate ? task.dueDate.toISOString().split('T')[0] : null,
+      linked_chapter_id: task.linkedChapterId || null,
+      linked_character_id: task.linkedCharacterId || null,
+      linked_world_element_id: task.linkedWorldElementId || null,
+      outline_node_id: task.outlineNodeId || null
+    };
+  }
+
+  private mapDbTask(row: DbTask): Task {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description || undefined,
+      taskType: row.task_type,
+      priority: row.priority,
+      status: row.status,
+      dueDate: row.due_date ? new Date(row.due_date) : undefined,
+      linkedChapterId: row.linked_chapter_id || undefined,
+      linkedCharacterId: row.linked_character_id || undefined,
+      linkedWorldElementId: row.linked_world_element_id || undefined,
+      outlineNodeId: row.outline_node_id || undefined,
+      positionInColumn: row.position,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+export const taskService = new TaskService();
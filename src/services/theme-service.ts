@@ -1,5 +1,7 @@
 // src/services/theme-service.ts
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../lib/supabase';
+import { syncService } from './sync-service';
 
 export interface Theme {
   id: string;
@@ -51,6 +53,10 @@ export interface UpdateThemeData {
 
 class ThemeService {
   async getThemes(projectId?: string): Promise<Theme[]> {
+    if (!syncService.isOnline()) {
+      return syncService.getCachedRows<Theme>('themes', row => !projectId || row.project_id === projectId);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -68,6 +74,7 @@ class ThemeService {
       const { data, error } = await query;
       if (error) throw error;
 
+      await syncService.cacheRows<Theme>('themes', data || []);
       return data || [];
     } catch (error) {
       console.error('Error fetching themes:', error);
@@ -100,6 +107,25 @@ class ThemeService {
   }
 
   async createTheme(data: CreateThemeData): Promise<Theme> {
+    if (!syncService.isOnline()) {
+      const now = new Date().toISOString();
+      const newTheme = {
+        ...data,
+        character_connections: data.character_connections || [],
+        plot_connections: data.plot_connections || [],
+        location_connections: data.location_connections || []
+      };
+      const theme = await syncService.queueCreate('themes', {
+        ...newTheme,
+        id: uuidv4(),
+        user_id: await syncService.getUserId(),
+        completeness_score: this.calculateCompletenessScore(newTheme),
+        created_at: now,
+        updated_at: now
+      });
+      return theme as Theme;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -127,6 +153,7 @@ class ThemeService {
         .single();
 
       if (error) throw error;
+      await syncService.recordServerRow<Theme>('themes', theme);
       return theme;
     } catch (error) {
       console.error('Error creating theme:', error);
@@ -135,6 +162,10 @@ class ThemeService {
   }
 
   async updateTheme(id: string, updates: UpdateThemeData): Promise<Theme> {
+    if (!syncService.isOnline()) {
+      return syncService.queueUpdate<Theme>('themes', id, updates);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -159,6 +190,7 @@ class ThemeService {
         .single();
 
       if (error) throw error;
+      await syncService.recordServerRow<Theme>('themes', data);
       return data;
     } catch (error) {
       console.error('Error updating theme:', error);
@@ -167,6 +199,10 @@ class ThemeService {
   }
 
   async deleteTheme(id: string): Promise<void> {
+    if (!syncService.isOnline()) {
+      return syncService.queueDelete('themes', id);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -178,6 +214,7 @@ class ThemeService {
         .eq('user_id', user.id);
 
       if (error) throw error;
+      await syncService.forgetRow('themes', id);
     } catch (error) {
       console.error('Error deleting theme:', error);
       throw error;
@@ -124,7 +124,8 @@ export const userService = {
   },
   
   /**
-   * Get AI credits usage for the current user
+   * Get AI credits remaining for the current user. Credits are charged by
+   * the AI edge functions; see aiCreditService for limits and history.
    */
   async getAICreditsUsage(): Promise<number> {
     try {
@@ -153,67 +154,5 @@ export const userService = {
       console.error('Error getting AI credits usage:', error);
       return 0;
     }
-  },
-  
-  /**
-   * Use AI credits for a specific operation
-   */
-  async useAICredits(amount: number, operationType: string): Promise<boolean> {
-    try {
-      const { data: authUser } = await supabase.auth.getUser();
-      
-      if (!authUser.user) {
-        return false;
-      }
-
-      // First, check if user has enough credits
-      const { data: userData, error: userError } = await supabase
-        .from('user_profiles')
-        .select('ai_credits_remaining')
-        .eq('id', authUser.user.id)
-        .limit(1);
-      
-      if (userError) {
-        throw userError;
-      }
-      
-      if (!userData || userData.length === 0) {
-        throw new Error('User profile not found');
-      }
-      
-      if (userData[0].ai_credits_remaining < amount) {
-        throw new Error('Insufficient AI credits');
-      }
-      
-      // Update user's credits
-      const { error: updateError } = await supabase
-        .from('user_profiles')
-        .update({
-          ai_credits_remaining: userData[0].ai_credits_remaining - amount
-        })
-        .eq('id', authUser.user.id);
-      
-      if (updateError) {
-        throw updateError;
-      }
-      
-      // Log the usage
-      const { error: usageError } = await supabase
-        .from('ai_usage')
-        .insert({
-          user_id: authUser.user.id,
-          analysis_type: operationType,
-          tokens_used: amount
-        });
-      
-      if (usageError) {
-        console.error('Error logging AI usage:', usageError);
-      }
-      
-      return true;
-    } catch (error) {
-      console.error('Error using AI credits:', error);
-      return false;
-    }
   }
 };
@@ -1,4 +1,6 @@
+import { v4 as uuidv4 } from 'uuid';
 import { supabase, logSupabaseError } from '../lib/supabase';
+import { syncService } from './sync-service';
 
 export interface WorldElement {
   id: string;
@@ -45,6 +47,10 @@ class WorldBuildingService {
   private readonly MAX_SINGLE_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB per image max
 
   async getWorldElements(projectId?: string): Promise<WorldElement[]> {
+    if (!syncService.isOnline()) {
+      return syncService.getCachedRows<WorldElement>('world_elements', row => !projectId || row.project_id === projectId);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -66,6 +72,7 @@ class WorldBuildingService {
         throw error;
       }
 
+      await syncService.cacheRows<WorldElement>('world_elements', data || []);
       return data || [];
     } catch (error) {
       console.error('Error fetching world elements:', error);
@@ -99,6 +106,21 @@ class WorldBuildingService {
   }
 
   async createWorldElement(elementData: CreateWorldElementData): Promise<WorldElement> {
+    if (!syncService.isOnline()) {
+      const now = new Date().toISOString();
+      return syncService.queueCreate<WorldElement>('world_elements', {
+        ...elementData,
+        id: uuidv4(),
+        user_id: await syncService.getUserId(),
+        tags: elementData.tags || [],
+        image_urls: elementData.image_urls || [],
+        connections: elementData.connections || {},
+        metadata: {},
+        created_at: now,
+        updated_at: now,
+      });
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -125,6 +147,7 @@ class WorldBuildingService {
         throw error;
       }
 
+      await syncService.recordServerRow<WorldElement>('world_elements', data);
       return data;
     } catch (error) {
       console.error('Error creating world element:', error);
@@ -133,6 +156,10 @@ class WorldBuildingService {
   }
 
   async updateWorldElement(id: string, updates: Partial<CreateWorldElementData>): Promise<WorldElement> {
+    if (!syncService.isOnline()) {
+      return syncService.queueUpdate<WorldElement>('world_elements', id, updates);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -155,6 +182,7 @@ class WorldBuildingService {
         throw error;
       }
 
+      await syncService.recordServerRow<WorldElement>('world_elements', data);
       return data;
     } catch (error) {
       console.error('Error updating world element:', error);
@@ -163,6 +191,11 @@ class WorldBuildingService {
   }
 
   async deleteWorldElement(id: string): Promise<void> {
+    if (!syncService.isOnline()) {
+      // The element's images are left in storage; they can only be removed online
+      return syncService.queueDelete('world_elements', id);
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -190,6 +223,8 @@ class WorldBuildingService {
         logSupabaseError(error, 'WorldBuildingService.deleteWorldElement');
         throw error;
       }
+
+      await syncService.forgetRow('world_elements', id);
     } catch (error) {
       console.error('Error deleting world element:', error);
       throw error;
@@ -0,0 +1,376 @@
+// src/services/writing-stats-service.ts
+import { supabase, logSupabaseError } from '../lib/supabase';
+import { projectService, Project } from './projectService';
+import { syncService, isNetworkError } from './sync-service';
+
+// Words added and removed in one chapter during one local hour
+export interface WritingActivity {
+  date: string;
+  hour: number;
+  chapterId: string | null;
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface WritingChallenge {
+  name: string;
+  targetWords: number;
+  // Inclusive local dates, YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+}
+
+// Stored per project in projects.settings.writingGoals
+export interface WritingGoals {
+  dailyWords: number | null;
+  weeklyWords: number | null;
+  deadline: string | null;
+  challenge: WritingChallenge | null;
+}
+
+export interface DailyTotal {
+  date: string;
+  // Net words: added minus removed
+  words: number;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  metToday: boolean;
+}
+
+export interface DeadlineProjection {
+  remainingWords: number;
+  daysLeft: number;
+  requiredPerDay: number;
+  // Average over the last seven days
+  averagePerDay: number;
+  projectedFinish: string | null;
+  onTrack: boolean;
+}
+
+export interface ChallengeProgress {
+  wordsWritten: number;
+  dayNumber: number;
+  totalDays: number;
+  // Where an even pace would have you by the end of today
+  parWords: number;
+  requiredPerDay: number;
+  daily: DailyTotal[];
+}
+
+export interface ChallengePreset {
+  id: string;
+  name: string;
+  targetWords: number;
+  days: number;
+}
+
+export const CHALLENGE_PRESETS: ChallengePreset[] = [
+  { id: 'nanowrimo', name: 'NaNoWriMo', targetWords: 50000, days: 30 }
+];
+
+// A word-count change saved while offline, sent when the connection returns
+interface PendingActivity {
+  chapterId: string;
+  delta: number;
+  date: string;
+  hour: number;
+}
+
+interface DbActivity {
+  log_date: string;
+  hour: number;
+  chapter_id: string | null;
+  words_added: number | null;
+  words_removed: number | null;
+}
+
+const PENDING_KEY = 'nimbus-pending-writing-activity';
+const MAX_PENDING = 500;
+
+export const EMPTY_GOALS: WritingGoals = { dailyWords: null, weeklyWords: null, deadline: null, challenge: null };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local calendar date as YYYY-MM-DD
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(key: string, days: number): string {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Whole days from one date key to another
+export function daysBetween(from: string, to: string): number {
+  return Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / 86400000);
+}
+
+export function createChallenge(preset: ChallengePreset, startDate: string): WritingChallenge {
+  return {
+    name: preset.name,
+    targetWords: preset.targetWords,
+    startDate,
+    endDate: addDays(startDate, preset.days - 1)
+  };
+}
+
+const netWords = (row: WritingActivity) => row.wordsAdded - row.wordsRemoved;
+
+/**
+ * Net words per day from `from` to `to` inclusive, with zero for days
+ * nothing was written.
+ */
+export function dailyTotals(activity: WritingActivity[], from: string, to: string): DailyTotal[] {
+  const byDate = new Map<string, number>();
+  activity.forEach(row => byDate.set(row.date, (byDate.get(row.date) || 0) + netWords(row)));
+
+  const totals: DailyTotal[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    totals.push({ date, words: byDate.get(date) || 0 });
+  }
+  return totals;
+}
+
+// Net words for each hour of the day, across all days
+export function hourlyTotals(activity: WritingActivity[]): number[] {
+  const hours = new Array(24).fill(0);
+  activity.forEach(row => {
+    hours[row.hour] += netWords(row);
+  });
+  return hours;
+}
+
+export function chapterTotals(activity: WritingActivity[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  activity.forEach(row => {
+    if (row.chapterId) totals.set(row.chapterId, (totals.get(row.chapterId) || 0) + netWords(row));
+  });
+  return totals;
+}
+
+/**
+ * Consecutive days meeting the daily goal (or with any net words when there
+ * is no goal). Today only breaks the current streak once it's over, so an
+ * unfinished today counts from yesterday.
+ */
+export function summarizeStreaks(activity: WritingActivity[], dailyGoal: number | null, today: string): StreakSummary {
+  const threshold = Math.max(1, dailyGoal || 0);
+  const byDate = new Map<string, number>();
+  activity.forEach(row => byDate.set(row.date, (byDate.get(row.date) || 0) + netWords(row)));
+  const met = (date: string) => (byDate.get(date) || 0) >= threshold;
+
+  const dates = Array.from(byDate.keys()).filter(met).sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  dates.forEach(date => {
+    run = previous && daysBetween(previous, date) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  let current = 0;
+  let cursor = met(today) ? today : addDays(today, -1);
+  while (met(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, longest, metToday: met(today) };
+}
+
+/**
+ * What it takes to reach the target by the deadline, and when the recent
+ * pace would get there.
+ */
+export function projectDeadline(
+  activity: WritingActivity[],
+  currentWords: number,
+  targetWords: number,
+  deadline: string | null,
+  today: string
+): DeadlineProjection {
+  const remainingWords = Math.max(0, targetWords - currentWords);
+  const recent = dailyTotals(activity, addDays(today, -6), today);
+  const averagePerDay = Math.max(0, Math.round(recent.reduce((sum, day) => sum + day.words, 0) / recent.length));
+
+  // Today counts as a day left
+  const daysLeft = deadline ? Math.max(0, daysBetween(today, deadline) + 1) : 0;
+  const requiredPerDay = daysLeft > 0 ? Math.ceil(remainingWords / daysLeft) : remainingWords;
+  const projectedFinish = remainingWords === 0
+    ? today
+    : averagePerDay > 0 ? addDays(today, Math.ceil(remainingWords / averagePerDay) - 1) : null;
+
+  return {
+    remainingWords,
+    daysLeft,
+    requiredPerDay,
+    averagePerDay,
+    projectedFinish,
+    onTrack: remainingWords === 0 || (!!deadline && !!projectedFinish && projectedFinish <= deadline)
+  };
+}
+
+export function challengeProgress(activity: WritingActivity[], challenge: WritingChallenge, today: string): ChallengeProgress {
+  const totalDays = daysBetween(challenge.startDate, challenge.endDate) + 1;
+  const lastDay = today < challenge.endDate ? today : challenge.endDate;
+  const daily = today < challenge.startDate ? [] : dailyTotals(activity, challenge.startDate, lastDay);
+  const wordsWritten = daily.reduce((sum, day) => sum + day.words, 0);
+  const dayNumber = Math.min(totalDays, Math.max(0, daysBetween(challenge.startDate, today) + 1));
+  const daysLeft = Math.max(0, totalDays - dayNumber + 1);
+
+  return {
+    wordsWritten,
+    dayNumber,
+    totalDays,
+    parWords: Math.round((challenge.targetWords / totalDays) * dayNumber),
+    requiredPerDay: daysLeft > 0 ? Math.ceil(Math.max(0, challenge.targetWords - wordsWritten) / daysLeft) : 0,
+    daily
+  };
+}
+
+class WritingStatsService {
+  private listening = false;
+  private flushing = false;
+
+  /**
+   * Record a word-count change from an auto-save against the writer's local
+   * date and hour. Changes made offline are kept and sent, with the date
+   * and hour they were made, once the connection is back.
+   */
+  async logWords(chapterId: string, delta: number, at: Date = new Date()): Promise<void> {
+    if (!delta) return;
+    this.listenForOnline();
+
+    const entry: PendingActivity = { chapterId, delta, date: toDateKey(at), hour: at.getHours() };
+    if (!syncService.isOnline() || !(await this.send(entry))) {
+      this.savePending([...this.loadPending(), entry]);
+      return;
+    }
+    await this.flushPending();
+  }
+
+  // Sends logged changes kept while offline, oldest first
+  async flushPending(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      let pending = this.loadPending();
+      while (pending.length > 0 && (await this.send(pending[0]))) {
+        // Re-read in case more was logged while sending
+        pending = this.loadPending().slice(1);
+        this.savePending(pending);
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  // False when the change should be kept for later; other failures are only logged
+  private async send(entry: PendingActivity): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('log_writing_activity', {
+        p_chapter_id: entry.chapterId,
+        p_words_delta: entry.delta,
+        p_log_date: entry.date,
+        p_hour: entry.hour
+      });
+
+      if (error) {
+        if (isNetworkError(error)) return false;
+        logSupabaseError(error, 'WritingStatsService.logWords');
+      }
+      return true;
+    } catch (error) {
+      if (isNetworkError(error)) return false;
+      console.error('Error logging writing activity:', error);
+      return true;
+    }
+  }
+
+  private listenForOnline(): void {
+    if (this.listening || typeof window === 'undefined') return;
+    this.listening = true;
+    window.addEventListener('online', () => this.flushPending());
+  }
+
+  private loadPending(): PendingActivity[] {
+    try {
+      const stored = window.localStorage.getItem(PENDING_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private savePending(pending: PendingActivity[]): void {
+    try {
+      if (pending.length === 0) window.localStorage.removeItem(PENDING_KEY);
+      else window.localStorage.setItem(PENDING_KEY, JSON.stringify(pending.slice(-MAX_PENDING)));
+    } catch (error) {
+      console.error('Error saving pending writing activity:', error);
+    }
+  }
+
+  // Activity for a project, optionally from a date onwards
+  async getActivity(projectId: string, since?: string): Promise<WritingActivity[]> {
+    try {
+      let query = supabase
+        .from('writing_activity')
+        .select('log_date, hour, chapter_id, words_added, words_removed')
+        .eq('project_id', projectId)
+        .order('log_date');
+
+      if (since) query = query.gte('log_date', since);
+
+      const { data, error } = await query;
+      if (error) {
+        logSupabaseError(error, 'WritingStatsService.getActivity');
+        return [];
+      }
+
+      return (data || []).map(row => this.mapDbActivity(row));
+    } catch (error) {
+      console.error('Error fetching writing activity:', error);
+      return [];
+    }
+  }
+
+  getGoals(project: Pick<Project, 'settings'> | null): WritingGoals {
+    return { ...EMPTY_GOALS, ...(project?.settings?.writingGoals || {}) };
+  }
+
+  // Goals live in the project settings; the manuscript target is its own column
+  async saveGoals(projectId: string, goals: WritingGoals, wordCountTarget?: number): Promise<Project | null> {
+    const project = await projectService.getProject(projectId);
+    if (!project) return null;
+
+    return projectService.updateProject(projectId, {
+      settings: { ...(project.settings || {}), writingGoals: goals },
+      ...(wordCountTarget !== undefined ? { wordCountTarget } : {})
+    });
+  }
+
+  private mapDbActivity(row: DbActivity): WritingActivity {
+    return {
+      date: row.log_date,
+      hour: row.hour,
+      chapterId: row.chapter_id,
+      wordsAdded: row.words_added || 0,
+      wordsRemoved: row.words_removed || 0
+    };
+  }
+}
+
+export const writingStatsService = new WritingStatsService();
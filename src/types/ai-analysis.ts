@@ -1,22 +1,32 @@
 // src/types/ai-analysis.ts
 
+// As written to imported_items.ai_insights by the analyze-content function
 export interface AIInsight {
-  type: string;
-  summary: string;
-  suggestions: string[];
-  confidence: number;
-  details?: Record<string, any>;
+  id: string;
+  type: 'conflict' | 'suggestion' | 'question' | 'improvement';
+  severity: 'low' | 'medium' | 'high';
+  title: string;
+  description: string;
+  suggestion?: string;
+  guidingQuestions?: string[];
+  confidence: number; // 0-100
+  category: string;
+  createdAt: string;
 }
 
 export interface AnalysisRequest {
   content: string;
   contentType: 'character' | 'plot' | 'research' | 'chapter';
   itemId: string;
+  // Story context to ground the analysis in, from aiContextService
+  context?: string;
 }
 
 export interface AnalysisResponse {
   success: boolean;
   insights?: AIInsight[];
+  // 'failed' when the AI reply couldn't be used; no placeholder insights are sent
+  status?: string;
   error?: string;
 }
 
@@ -38,14 +48,43 @@ export interface ImportedItemWithAI {
   last_analyzed?: string;
 }
 
+// One AI request, as recorded by the credit ledger
 export interface AIUsageRecord {
   id: string;
   user_id: string;
   analysis_type: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
   tokens_used: number;
-  item_id: string;
+  credits_charged: number;
+  // 'reserved' while the request is still running; 'expired' if it never
+  // finished and its credits were given back
+  status: 'reserved' | 'settled' | 'refunded' | 'expired';
+  item_id: string | null;
   created_at: string;
 }
+
+// Credits and request limits, as returned by get_ai_usage_status()
+export interface AIUsageStatus {
+  subscription_tier: 'free' | 'premium' | 'pro';
+  credits_remaining: number;
+  monthly_credits: number;
+  next_refill: string;
+  hourly_count: number;
+  hourly_limit: number;
+  daily_count: number;
+  daily_limit: number;
+  hourly_reset: string;
+}
+
+export interface AIUsageBreakdown {
+  operation: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  credits: number;
+}
     super(message);
     this.name = 'RateLimitError';
   }
@@ -3,6 +3,8 @@ export interface Note {
   title: string;
   content: string;
   category: 'Person' | 'Place' | 'Plot' | 'Misc';
+  // Notes from before notes belonged to projects have none
+  projectId?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
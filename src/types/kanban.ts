@@ -10,11 +10,21 @@ export interface Task {
   dueDate?: Date;
   linkedCharacterId?: string;
   linkedChapterId?: string;
+  linkedWorldElementId?: string;
+  // Set on tasks the board created for a planned outline node
+  outlineNodeId?: string;
   positionInColumn: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A chapter, character or world element a task points at, with its current title
+export interface TaskLink {
+  type: 'chapter' | 'character' | 'world_element';
+  id: string;
+  title: string;
+}
+
 export interface KanbanColumn {
   id: string;
   title: string;
@@ -81,7 +81,7 @@ export interface SceneData {
 }
 
 export interface OutlineData {
-  structure: 'three_act' | 'heros_journey' | 'five_act' | 'custom';
+  structure: 'three_act' | 'heros_journey' | 'five_act' | 'save_the_cat' | 'seven_point' | 'kishotenketsu' | 'custom';
   acts: ActData[];
 }
 
@@ -91,6 +91,9 @@ export type PlotViewMode = 'threads' | 'timeline' | 'tension';
 export interface PlotPageProps {
   onBack: () => void;
   projectId: string;
+  // Thread to open once loaded, e.g. picked from project search
+  focusThreadId?: string;
+  onFocusHandled?: () => void;
 }
 
 // Utility types for filtering and sorting
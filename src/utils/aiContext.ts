@@ -0,0 +1,184 @@
+// Story context for AI prompts: ranking what the project knows about its
+// cast, world and plot by relevance to a request, and packing the most
+// relevant of it into a token budget
+
+export type ContextKind = 'character' | 'relationship' | 'plot' | 'theme' | 'world' | 'chapter'
+
+export interface ContextItem {
+  id: string
+  kind: ContextKind
+  label: string
+  text: string
+  // Ids of the project entities this item is about or connected to
+  links: string[]
+  // Names the item goes by, to spot it being mentioned
+  names: string[]
+  // How much the item matters on its own, e.g. a protagonist or main plot
+  weight: number
+  // Story order, for chapters
+  order?: number
+}
+
+// What a request is about: project entities by id, and text that may
+// mention others by name
+export interface ContextTarget {
+  label?: string
+  ids?: string[]
+  text?: string
+}
+
+export interface ContextEntry {
+  id: string
+  kind: ContextKind
+  label: string
+  text: string
+  tokens: number
+  score: number
+  // Why the entry was ranked where it was, e.g. "mentioned in the request"
+  reasons: string[]
+  order?: number
+}
+
+export interface PackedContext {
+  target: string | null
+  budget: number
+  // Estimated tokens of `text`
+  tokens: number
+  included: ContextEntry[]
+  omitted: ContextEntry[]
+  // Exactly what is sent to the model
+  text: string
+}
+
+export const CONTEXT_SECTIONS: { kind: ContextKind; title: string }[] = [
+  { kind: 'character', title: 'CHARACTERS' },
+  { kind: 'relationship', title: 'RELATIONSHIPS' },
+  { kind: 'plot', title: 'PLOT THREADS' },
+  { kind: 'theme', title: 'THEMES' },
+  { kind: 'world', title: 'WORLD' },
+  { kind: 'chapter', title: 'CHAPTERS SO FAR' }
+]
+
+const CONTEXT_PREAMBLE = 'Story bible for the project this request is about. Use it to stay consistent with the established cast, world and plot.'
+
+const TARGET_SCORE = 100
+const LINKED_SCORE = 40
+const MENTIONED_SCORE = 30
+// Longer entries are cut so one item can't crowd out the rest
+const MAX_ITEM_CHARS = 700
+// Names shorter than this match too much ordinary text
+const MIN_NAME_LENGTH = 3
+
+// Roughly four characters per token, as the edge functions estimate credits
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function truncate(text: string, maxChars = MAX_ITEM_CHARS): string {
+  const trimmed = text.replace(/\s+/g, ' ').trim()
+  return trimmed.length > maxChars ? `${trimmed.slice(0, maxChars - 1).trimEnd()}…` : trimmed
+}
+
+/**
+ * Scores each item for a request: the entities it's about first, then what
+ * is linked to or mentioned by them, then by `focus` (per-kind bonus for the
+ * kind of request) and the item's own weight. Highest score first.
+ */
+export function rankContextItems(
+  items: ContextItem[],
+  target: ContextTarget,
+  focus: Partial<Record<ContextKind, number>> = {}
+): ContextEntry[] {
+  const targetIds = new Set(target.ids || [])
+  const targetText = (target.text || '').toLowerCase()
+  const labels = new Map(items.map(item => [item.id, item.label]))
+  // Links go both ways: a plot thread's cast is linked to the thread too
+  const linkedFrom = new Map<string, string[]>()
+  items.filter(item => targetIds.has(item.id)).forEach(item => {
+    item.links.forEach(id => linkedFrom.set(id, [...(linkedFrom.get(id) || []), item.id]))
+  })
+
+  const entries = items.map(item => {
+    const reasons: string[] = []
+    let score = item.weight + (focus[item.kind] || 0)
+
+    if (targetIds.has(item.id)) {
+      score += TARGET_SCORE
+      reasons.push('part of the request')
+    }
+
+    const linked = [...new Set([...item.links.filter(id => targetIds.has(id)), ...(linkedFrom.get(item.id) || [])])]
+      .filter(id => id !== item.id)
+    if (linked.length > 0) {
+      score += LINKED_SCORE + (linked.length - 1) * 5
+      reasons.push(`linked to ${linked.map(id => labels.get(id) || id).join(', ')}`)
+    }
+
+    if (!targetIds.has(item.id) && item.names.some(name => mentions(targetText, name))) {
+      score += MENTIONED_SCORE
+      reasons.push('mentioned in the request')
+    }
+
+    const text = truncate(item.text)
+    return {
+      id: item.id,
+      kind: item.kind,
+      label: item.label,
+      text,
+      tokens: estimateTokens(`- ${text}\n`),
+      score,
+      reasons,
+      order: item.order
+    }
+  })
+
+  return entries.sort((a, b) => b.score - a.score || (a.order ?? 0) - (b.order ?? 0))
+}
+
+/**
+ * Takes ranked entries in order while they fit in `budget` tokens, skipping
+ * any too big for what's left, and formats them by section. Chapters are
+ * listed in story order; everything else most relevant first.
+ */
+export function packContext(entries: ContextEntry[], budget: number, target: string | null = null): PackedContext {
+  const included: ContextEntry[] = []
+  const omitted: ContextEntry[] = []
+  const sections = new Set<ContextKind>()
+  let used = estimateTokens(CONTEXT_PREAMBLE)
+
+  entries.forEach(entry => {
+    const header = sections.has(entry.kind) ? 0 : estimateTokens(`\n${sectionTitle(entry.kind)}:\n`)
+    if (used + header + entry.tokens > budget) {
+      omitted.push(entry)
+      return
+    }
+    used += header + entry.tokens
+    sections.add(entry.kind)
+    included.push(entry)
+  })
+
+  const text = included.length === 0 ? '' : formatContext(included)
+  return { target, budget, tokens: estimateTokens(text), included, omitted, text }
+}
+
+function formatContext(entries: ContextEntry[]): string {
+  const sections = CONTEXT_SECTIONS
+    .map(({ kind, title }) => {
+      const inSection = entries.filter(entry => entry.kind === kind)
+      if (kind === 'chapter') inSection.sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      return inSection.length > 0 ? `${title}:\n${inSection.map(entry => `- ${entry.text}`).join('\n')}` : ''
+    })
+    .filter(Boolean)
+
+  return [CONTEXT_PREAMBLE, ...sections].join('\n\n')
+}
+
+function sectionTitle(kind: ContextKind): string {
+  return CONTEXT_SECTIONS.find(section => section.kind === kind)?.title || kind.toUpperCase()
+}
+
+function mentions(text: string, name: string): boolean {
+  if (!text || name.length < MIN_NAME_LENGTH) return false
+  const escaped = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text)
+}
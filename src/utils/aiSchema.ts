@@ -0,0 +1,274 @@
+// Checking the JSON that AI models send back: pull it out of whatever prose
+// or code fences surround it, validate it field by field, and describe any
+// problems in words that can be sent back to the model to fix.
+
+export interface SchemaIssue {
+  // Where the problem is, e.g. "issues[2].severity"; empty for the whole reply
+  path: string
+  message: string
+}
+
+export interface Schema<T> {
+  /**
+   * The value as T, or undefined when it can't be used. Problems are added
+   * to `issues`, including ones that were recovered from, such as an array
+   * item that had to be dropped.
+   */
+  check(value: unknown, path: string, issues: SchemaIssue[]): T | undefined
+  // May be missing or null inside an object
+  optional?: boolean
+}
+
+export interface Validation<T> {
+  value: T | undefined
+  issues: SchemaIssue[]
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): Validation<T> {
+  const issues: SchemaIssue[] = []
+  return { value: schema.check(value, '', issues), issues }
+}
+
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `- ${issue.path || 'reply'}: ${issue.message}`).join('\n')
+}
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'object' ? 'an object' : JSON.stringify(value)
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key
+
+export function string(): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value === 'string') return value
+      if (typeof value === 'number') return String(value)
+      issues.push({ path, message: `expected a string, got ${describe(value)}` })
+      return undefined
+    }
+  }
+}
+
+// Numeric strings such as "7" are accepted; out-of-range numbers are not
+export function number(range: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check(value, path, issues) {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        issues.push({ path, message: `expected a number, got ${describe(value)}` })
+        return undefined
+      }
+      if ((range.min !== undefined && parsed < range.min) || (range.max !== undefined && parsed > range.max)) {
+        issues.push({ path, message: `expected a number from ${range.min ?? '-∞'} to ${range.max ?? '∞'}, got ${parsed}` })
+        return undefined
+      }
+      return parsed
+    }
+  }
+}
+
+// One of a fixed set of strings, matched without regard to case
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      const match = typeof value === 'string'
+        ? values.find(option => option.toLowerCase() === value.trim().toLowerCase())
+        : undefined
+      if (match === undefined) {
+        issues.push({ path, message: `expected one of ${values.join(', ')}, got ${describe(value)}` })
+      }
+      return match
+    }
+  }
+}
+
+// A field that may be missing or null, in which case `fallback` is used
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T>
+export function optional<T>(schema: Schema<T>): Schema<T | undefined>
+export function optional<T>(schema: Schema<T>, fallback?: T): Schema<T | undefined> {
+  return {
+    optional: true,
+    check(value, path, issues) {
+      if (value === undefined || value === null) return fallback
+      return schema.check(value, path, issues)
+    }
+  }
+}
+
+// Any object, passed through without looking at its fields
+export function record(): Schema<Record<string, unknown>> {
+  return {
+    check(value, path, issues) {
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return value as Record<string, unknown>
+      }
+      issues.push({ path, message: `expected an object, got ${describe(value)}` })
+      return undefined
+    }
+  }
+}
+
+/**
+ * An array of items. With `dropInvalid`, items that fail are left out and
+ * the rest kept (each failure is still reported); otherwise one bad item
+ * fails the whole array.
+ */
+export function array<T>(item: Schema<T>, options: { dropInvalid?: boolean } = {}): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array, got ${describe(value)}` })
+        return undefined
+      }
+      const items: T[] = []
+      let failed = false
+      value.forEach((entry, index) => {
+        const checked = item.check(entry, join(path, index), issues)
+        if (checked === undefined) failed = true
+        else items.push(checked)
+      })
+      return failed && !options.dropInvalid ? undefined : items
+    }
+  }
+}
+
+export function object<T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` })
+        return undefined
+      }
+      const fields = value as Record<string, unknown>
+      const result: Partial<T> = {}
+      let failed = false
+      ;(Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+        const schema = shape[key]
+        const fieldPath = join(path, key)
+        const field = fields[key]
+        if ((field === undefined || field === null) && schema.optional) {
+          const fallback = schema.check(field, fieldPath, issues)
+          if (fallback !== undefined) result[key] = fallback
+          return
+        }
+        if (field === undefined) {
+          issues.push({ path: fieldPath, message: 'is missing' })
+          failed = true
+          return
+        }
+        const checked = schema.check(field, fieldPath, issues)
+        if (checked === undefined) failed = true
+        else result[key] = checked
+      })
+      return failed ? undefined : result as T
+    }
+  }
+}
+
+/**
+ * The JSON value in a model's reply. Models often wrap it in a ```json
+ * fence or a sentence of explanation, and sometimes leave trailing commas;
+ * all of those are tolerated. Throws when no JSON can be found.
+ */
+export function extractJSON(text: string): unknown {
+  const candidates: string[] = []
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  if (fenced) candidates.push(fenced[1])
+  candidates.push(text)
+
+  for (const candidate of candidates) {
+    const parsed = parseLoosely(candidate.trim())
+    if (parsed.ok) return parsed.value
+
+    // Otherwise the first balanced {...} or [...] that parses
+    for (let start = 0; start < candidate.length; start++) {
+      const char = candidate[start]
+      if (char !== '{' && char !== '[') continue
+      const end = matchingBracket(candidate, start)
+      if (end === -1) continue
+      const inner = parseLoosely(candidate.slice(start, end + 1))
+      if (inner.ok) return inner.value
+    }
+  }
+
+  throw new Error('The reply did not contain any JSON')
+}
+
+/**
+ * As much of an unfinished reply as can be read so far, for showing results
+ * while they stream in. The JSON is cut back to the last complete value and
+ * its open brackets closed, so `{"issues": [{"a": 1}, {"b` reads as
+ * `{"issues": [{"a": 1}, {}]}`. Undefined until anything can be read.
+ */
+export function extractPartialJSON(text: string): unknown {
+  const fence = text.match(/```(?:json)?\s*/i)
+  const body = fence && fence.index !== undefined ? text.slice(fence.index + fence[0].length) : text
+  const start = body.search(/[{[]/)
+  if (start === -1) return undefined
+
+  // Places the text could be cut, with the brackets open at each
+  let cut = -1
+  let closers = ''
+  const stack: string[] = []
+  let inString = false
+
+  for (let index = start; index < body.length; index++) {
+    const char = body[index]
+    if (inString) {
+      if (char === '\\') index++
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') inString = true
+    else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']')
+      cut = index + 1
+      closers = stack.slice().reverse().join('')
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+      cut = index + 1
+      closers = stack.slice().reverse().join('')
+      if (stack.length === 0) break
+    } else if (char === ',') {
+      cut = index
+      closers = stack.slice().reverse().join('')
+    }
+  }
+
+  const parsed = parseLoosely(body.slice(start, cut) + closers)
+  return parsed.ok ? parsed.value : undefined
+}
+
+function parseLoosely(text: string): { ok: true; value: unknown } | { ok: false } {
+  for (const attempt of [text, text.replace(/,\s*([}\]])/g, '$1')]) {
+    try {
+      return { ok: true, value: JSON.parse(attempt) }
+    } catch {
+      // try the next repair
+    }
+  }
+  return { ok: false }
+}
+
+// Index of the bracket closing the one at `start`, skipping over strings
+function matchingBracket(text: string, start: number): number {
+  const stack: string[] = []
+  let inString = false
+  for (let index = start; index < text.length; index++) {
+    const char = text[index]
+    if (inString) {
+      if (char === '\\') index++
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"') inString = true
+    else if (char === '{') stack.push('}')
+    else if (char === '[') stack.push(']')
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1
+      if (stack.length === 0) return index
+    }
+  }
+  return -1
+}
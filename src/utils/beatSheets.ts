@@ -0,0 +1,245 @@
+// Story structure beat sheets. A beat's position is where the template
+// expects it as a percentage of the book's length; outline nodes and
+// manuscript chapters assigned to the beat show where it actually lands.
+
+export interface Beat {
+  id: string
+  name: string
+  description: string
+  // Expected start, 0-100 percent of the target word count
+  position: number
+}
+
+export interface BeatSheet {
+  id: string
+  name: string
+  description: string
+  beats: Beat[]
+  builtIn?: boolean
+}
+
+export interface BeatAssignment {
+  kind: 'outline' | 'chapter'
+  id: string
+}
+
+// The project's chosen sheet, its own sheets and what is assigned to each beat
+export interface BeatSheetState {
+  sheetId: string
+  customSheets: BeatSheet[]
+  // Keyed by `${sheetId}:${beatId}` so switching sheets keeps each sheet's assignments
+  assignments: Record<string, BeatAssignment[]>
+}
+
+// Where one assigned item starts, as a percentage of the target
+export interface PlacedItem {
+  assignment: BeatAssignment
+  title: string
+  position: number
+}
+
+export interface BeatProgress {
+  beat: Beat
+  items: PlacedItem[]
+  // Position of the earliest assigned item, or null when nothing is assigned
+  actual: number | null
+  // actual - expected, in percentage points
+  offset: number | null
+  status: 'unassigned' | 'on_track' | 'early' | 'late'
+}
+
+// Simple shapes of the outline and manuscript, in reading order
+export interface OutlineItem {
+  id: string
+  title: string
+  wordCountTarget: number
+  children?: OutlineItem[]
+}
+
+export interface ChapterItem {
+  id: string
+  title: string
+  wordCount: number
+}
+
+// A beat within this many percentage points of the template is on track
+export const BEAT_TOLERANCE = 5
+
+const beat = (id: string, name: string, position: number, description: string): Beat =>
+  ({ id, name, position, description })
+
+export const SAVE_THE_CAT: BeatSheet = {
+  id: 'save_the_cat',
+  name: 'Save the Cat',
+  description: 'Blake Snyder\'s fifteen beats',
+  builtIn: true,
+  beats: [
+    beat('opening_image', 'Opening Image', 0, 'A snapshot of the hero\'s world before the story changes it'),
+    beat('setup', 'Set-Up', 1, 'The hero\'s life, flaws and what is missing'),
+    beat('theme_stated', 'Theme Stated', 5, 'Someone hints at what the hero needs to learn'),
+    beat('catalyst', 'Catalyst', 10, 'The event that upends the status quo'),
+    beat('debate', 'Debate', 12, 'The hero hesitates over what to do'),
+    beat('break_into_two', 'Break into Two', 20, 'The hero chooses to act and enters a new world'),
+    beat('b_story', 'B Story', 22, 'A new relationship that carries the theme'),
+    beat('fun_and_games', 'Fun and Games', 25, 'The promise of the premise'),
+    beat('midpoint', 'Midpoint', 50, 'A false victory or false defeat raises the stakes'),
+    beat('bad_guys_close_in', 'Bad Guys Close In', 55, 'Pressure mounts from outside and within'),
+    beat('all_is_lost', 'All Is Lost', 75, 'The lowest point, often with a loss'),
+    beat('dark_night', 'Dark Night of the Soul', 77, 'The hero wallows before the realisation'),
+    beat('break_into_three', 'Break into Three', 80, 'The solution, found by joining A and B stories'),
+    beat('finale', 'Finale', 80, 'The hero applies the lesson and wins'),
+    beat('final_image', 'Final Image', 99, 'The opposite of the opening image')
+  ]
+}
+
+export const HEROS_JOURNEY: BeatSheet = {
+  id: 'heros_journey',
+  name: 'Hero\'s Journey',
+  description: 'Vogler\'s twelve stages',
+  builtIn: true,
+  beats: [
+    beat('ordinary_world', 'Ordinary World', 0, 'The hero at home, before the adventure'),
+    beat('call', 'Call to Adventure', 10, 'A challenge or quest appears'),
+    beat('refusal', 'Refusal of the Call', 15, 'Fear or duty holds the hero back'),
+    beat('mentor', 'Meeting the Mentor', 20, 'Advice, training or a gift'),
+    beat('threshold', 'Crossing the Threshold', 25, 'The hero commits and leaves the known world'),
+    beat('tests', 'Tests, Allies, Enemies', 30, 'Learning the rules of the new world'),
+    beat('approach', 'Approach to the Inmost Cave', 45, 'Preparing for the central ordeal'),
+    beat('ordeal', 'The Ordeal', 50, 'A life-or-death crisis'),
+    beat('reward', 'Reward', 60, 'The hero seizes the prize'),
+    beat('road_back', 'The Road Back', 75, 'Consequences follow the hero home'),
+    beat('resurrection', 'Resurrection', 90, 'A final test that proves the change'),
+    beat('return', 'Return with the Elixir', 97, 'Home again, transformed')
+  ]
+}
+
+export const THREE_ACT: BeatSheet = {
+  id: 'three_act',
+  name: 'Three-Act Structure',
+  description: 'Setup, confrontation, resolution',
+  builtIn: true,
+  beats: [
+    beat('setup', 'Setup', 0, 'Characters, world and stakes'),
+    beat('inciting_incident', 'Inciting Incident', 12, 'The event that starts the story'),
+    beat('plot_point_1', 'Plot Point 1', 25, 'The hero is locked into the conflict'),
+    beat('midpoint', 'Midpoint', 50, 'A reversal that changes the hero\'s approach'),
+    beat('plot_point_2', 'Plot Point 2', 75, 'The final piece falls into place, or everything falls apart'),
+    beat('climax', 'Climax', 88, 'The decisive confrontation'),
+    beat('resolution', 'Resolution', 97, 'The new normal')
+  ]
+}
+
+export const SEVEN_POINT: BeatSheet = {
+  id: 'seven_point',
+  name: 'Seven-Point Structure',
+  description: 'Dan Wells\' seven points, planned from the resolution back',
+  builtIn: true,
+  beats: [
+    beat('hook', 'Hook', 0, 'The hero\'s starting state, opposite of the resolution'),
+    beat('plot_turn_1', 'Plot Turn 1', 15, 'The call that sets the story moving'),
+    beat('pinch_1', 'Pinch 1', 35, 'Pressure from the antagonist forces action'),
+    beat('midpoint', 'Midpoint', 50, 'The hero moves from reacting to acting'),
+    beat('pinch_2', 'Pinch 2', 65, 'The plan fails; the hero is alone'),
+    beat('plot_turn_2', 'Plot Turn 2', 85, 'The hero finds the last thing they need'),
+    beat('resolution', 'Resolution', 97, 'The climax and the hero\'s end state')
+  ]
+}
+
+export const KISHOTENKETSU: BeatSheet = {
+  id: 'kishotenketsu',
+  name: 'Kishōtenketsu',
+  description: 'Four acts built on contrast rather than conflict',
+  builtIn: true,
+  beats: [
+    beat('ki', 'Ki — Introduction', 0, 'Characters and setting'),
+    beat('sho', 'Shō — Development', 25, 'The situation deepens without a major change'),
+    beat('ten', 'Ten — Twist', 50, 'An unexpected turn or new element'),
+    beat('ketsu', 'Ketsu — Reconciliation', 75, 'The parts are brought together')
+  ]
+}
+
+export const BUILT_IN_BEAT_SHEETS: BeatSheet[] = [SAVE_THE_CAT, HEROS_JOURNEY, THREE_ACT, SEVEN_POINT, KISHOTENKETSU]
+
+export const DEFAULT_BEAT_SHEET_STATE: BeatSheetState = {
+  sheetId: THREE_ACT.id,
+  customSheets: [],
+  assignments: {}
+}
+
+export function assignmentKey(sheetId: string, beatId: string): string {
+  return `${sheetId}:${beatId}`
+}
+
+export function findSheet(state: BeatSheetState, sheetId: string = state.sheetId): BeatSheet {
+  return [...BUILT_IN_BEAT_SHEETS, ...state.customSheets].find(sheet => sheet.id === sheetId) || THREE_ACT
+}
+
+// A blank sheet, or a copy of another to adapt
+export function createCustomSheet(from?: BeatSheet): BeatSheet {
+  const id = `custom_${Date.now().toString(36)}`
+  return from
+    ? { id, name: `${from.name} (custom)`, description: from.description, beats: from.beats.map(item => ({ ...item })) }
+    : { id, name: 'Custom beat sheet', description: '', beats: [beat('beat_1', 'Opening', 0, '')] }
+}
+
+/**
+ * Where every outline node and chapter starts, as a percentage of the
+ * target. Outline nodes are placed by the planned word counts of the nodes
+ * before them (a parent starts where its first child does and only leaves
+ * count towards length); chapters by the words written before them.
+ */
+export function placeItems(
+  outline: OutlineItem[],
+  chapters: ChapterItem[],
+  targetWords: number
+): Map<string, { title: string; position: number }> {
+  const places = new Map<string, { title: string; position: number }>()
+  const percent = (words: number) => targetWords > 0 ? Math.round((words / targetWords) * 1000) / 10 : 0
+
+  let planned = 0
+  const walk = (nodes: OutlineItem[]) => {
+    nodes.forEach(node => {
+      places.set(`outline:${node.id}`, { title: node.title, position: percent(planned) })
+      if (node.children && node.children.length > 0) walk(node.children)
+      else planned += node.wordCountTarget || 0
+    })
+  }
+  walk(outline)
+
+  let written = 0
+  chapters.forEach(chapter => {
+    places.set(`chapter:${chapter.id}`, { title: chapter.title, position: percent(written) })
+    written += chapter.wordCount || 0
+  })
+
+  return places
+}
+
+// The sum of the outline's leaf targets, for projects without a target of their own
+export function outlineTargetWords(outline: OutlineItem[]): number {
+  return outline.reduce((sum, node) =>
+    sum + (node.children && node.children.length > 0 ? outlineTargetWords(node.children) : node.wordCountTarget || 0), 0)
+}
+
+export function beatProgress(
+  sheet: BeatSheet,
+  assignments: Record<string, BeatAssignment[]>,
+  places: Map<string, { title: string; position: number }>
+): BeatProgress[] {
+  return sheet.beats.map(item => {
+    const placed = (assignments[assignmentKey(sheet.id, item.id)] || [])
+      .map(assignment => {
+        const place = places.get(`${assignment.kind}:${assignment.id}`)
+        return place ? { assignment, title: place.title, position: place.position } : null
+      })
+      .filter((entry): entry is PlacedItem => entry !== null)
+      .sort((a, b) => a.position - b.position)
+
+    if (placed.length === 0) return { beat: item, items: placed, actual: null, offset: null, status: 'unassigned' }
+
+    const actual = placed[0].position
+    const offset = Math.round((actual - item.position) * 10) / 10
+    const status = Math.abs(offset) <= BEAT_TOLERANCE ? 'on_track' : offset < 0 ? 'early' : 'late'
+    return { beat: item, items: placed, actual, offset, status }
+  })
+}
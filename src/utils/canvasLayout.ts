@@ -0,0 +1,318 @@
+// One-click layouts for the story canvas. Each works out new positions for
+// the nodes it arranges; pinned nodes keep theirs and the rest are placed
+// around them.
+
+import { forceLayout, Point } from './relationshipGraph'
+
+export type LayoutKind = 'hierarchical' | 'force' | 'radial' | 'chronological'
+
+export interface LayoutNode {
+  id: string
+  // The kind of story element, e.g. plot, chapter, scene or character
+  type?: string
+  position: Point
+  pinned?: boolean
+}
+
+export interface LayoutEdge {
+  source: string
+  target: string
+}
+
+export interface LayoutOptions {
+  // Node the radial layout circles around
+  centerId?: string
+  // Timeline node ids in story order, for the chronological layout
+  chronologicalOrder?: string[]
+  // When false, pinned nodes are rearranged like any other
+  keepPinned?: boolean
+}
+
+export const LAYOUTS: { kind: LayoutKind; label: string; description: string }[] = [
+  { kind: 'hierarchical', label: 'Hierarchy', description: 'Plot points above the chapters and scenes they lead to' },
+  { kind: 'force', label: 'Web', description: 'Characters pulled together by their relationships' },
+  { kind: 'radial', label: 'Radial', description: 'Rings around the selected element' },
+  { kind: 'chronological', label: 'Chronological', description: 'Timeline events left to right in story order' }
+]
+
+// Room for one node plus a gap; canvas nodes are at most about 280px wide
+const SPACING = { x: 320, y: 240 }
+const RING_SPACING = 340
+
+// Hierarchy rows by node type: plot points, then chapters, then the scenes
+// and timeline events in them. Other types are placed by their edges alone.
+const TYPE_LEVELS: Record<string, number> = {
+  plot: 0,
+  conflict: 0,
+  chapter: 1,
+  scene: 2,
+  timeline: 2
+}
+
+// The only nodes the web layout arranges
+const WEB_TYPES = new Set(['character'])
+
+const typeLevel = (node: LayoutNode) => (node.type ? TYPE_LEVELS[node.type] : undefined)
+
+/**
+ * New positions for the nodes a layout moves, keyed by node id. Nodes left
+ * out (pinned ones, and anything the layout does not arrange) stay where
+ * they are.
+ */
+export function computeLayout(
+  kind: LayoutKind,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions = {}
+): Record<string, Point> {
+  const keepPinned = options.keepPinned ?? true
+  const isPinned = (node: LayoutNode) => keepPinned && !!node.pinned
+  const ids = new Set(nodes.map(node => node.id))
+  const known = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target) && edge.source !== edge.target)
+
+  switch (kind) {
+    case 'hierarchical':
+      return place(nodes, hierarchical(nodes, known), topLeft(nodes), isPinned)
+    case 'force': {
+      const cast = nodes.filter(node => node.type && WEB_TYPES.has(node.type))
+      const castIds = new Set(cast.map(node => node.id))
+      return forceDirected(cast, known.filter(edge => castIds.has(edge.source) && castIds.has(edge.target)), isPinned)
+    }
+    case 'radial': {
+      const center = nodes.find(node => node.id === options.centerId)
+      if (!center) return {}
+      return place(nodes, radial(center.id, nodes, known), center.position, isPinned)
+    }
+    case 'chronological': {
+      const order = (options.chronologicalOrder || []).filter(id => ids.has(id))
+      const timeline = new Set(order)
+      const others = nodes.filter(node => !timeline.has(node.id))
+      // The timeline runs along the top, above everything it leaves alone
+      const origin = others.length > 0
+        ? { x: topLeft(nodes).x, y: topLeft(others).y - SPACING.y }
+        : topLeft(nodes)
+      const raw: Record<string, Point> = {}
+      order.forEach((id, index) => { raw[id] = { x: index * SPACING.x, y: 0 } })
+      return place(nodes.filter(node => timeline.has(node.id)), raw, origin, isPinned)
+    }
+  }
+}
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2)
+
+// Positions part way (t from 0 to 1) between two layouts, eased, for animating
+export function interpolatePositions(
+  from: Record<string, Point>,
+  to: Record<string, Point>,
+  t: number
+): Record<string, Point> {
+  const eased = easeInOut(Math.min(Math.max(t, 0), 1))
+  const result: Record<string, Point> = {}
+  Object.entries(to).forEach(([id, end]) => {
+    const start = from[id] || end
+    result[id] = {
+      x: start.x + (end.x - start.x) * eased,
+      y: start.y + (end.y - start.y) * eased
+    }
+  })
+  return result
+}
+
+function topLeft(nodes: LayoutNode[]): Point {
+  if (nodes.length === 0) return { x: 0, y: 0 }
+  return {
+    x: Math.min(...nodes.map(node => node.position.x)),
+    y: Math.min(...nodes.map(node => node.position.y))
+  }
+}
+
+/**
+ * Move a layout worked out around (0, 0) onto the canvas. With pinned nodes
+ * among those laid out, the layout is shifted to sit as close to them as it
+ * can; otherwise its origin goes at `origin`. Pinned nodes are left out of
+ * the result.
+ */
+function place(
+  nodes: LayoutNode[],
+  raw: Record<string, Point>,
+  origin: Point,
+  isPinned: (node: LayoutNode) => boolean
+): Record<string, Point> {
+  const laidOut = nodes.filter(node => raw[node.id])
+  const pinned = laidOut.filter(isPinned)
+  const offset = pinned.length > 0
+    ? {
+        x: pinned.reduce((sum, node) => sum + node.position.x - raw[node.id].x, 0) / pinned.length,
+        y: pinned.reduce((sum, node) => sum + node.position.y - raw[node.id].y, 0) / pinned.length
+      }
+    : origin
+
+  const result: Record<string, Point> = {}
+  laidOut.filter(node => !isPinned(node)).forEach(node => {
+    result[node.id] = { x: Math.round(raw[node.id].x + offset.x), y: Math.round(raw[node.id].y + offset.y) }
+  })
+  return result
+}
+
+/**
+ * Layered layout following node type and edge direction: plot points, then
+ * chapters, then scenes, each node at least one row below the lowest of the
+ * nodes pointing to it. Rows are ordered to keep edges short, and untyped
+ * unconnected nodes fill a final row. Edges that would close a cycle, or run
+ * back up the hierarchy (a scene pointing to its plot point), are ignored.
+ */
+function hierarchical(nodes: LayoutNode[], allEdges: LayoutEdge[]): Record<string, Point> {
+  const levels = new Map(nodes.map(node => [node.id, typeLevel(node)]))
+  const edges = allEdges.filter(edge => (levels.get(edge.source) ?? -1) <= (levels.get(edge.target) ?? Infinity))
+  const children = new Map<string, string[]>()
+  edges.forEach(edge => children.set(edge.source, [...(children.get(edge.source) || []), edge.target]))
+
+  // Drop back edges found by a depth-first walk so the rest form a DAG
+  const acyclic: LayoutEdge[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    ;(children.get(id) || []).forEach(target => {
+      if (state.get(target) === 'visiting') return
+      acyclic.push({ source: id, target })
+      if (!state.has(target)) visit(target)
+    })
+    state.set(id, 'done')
+  }
+  // Start from nodes nothing points to, left to right as they sit now
+  const sorted = [...nodes].sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y)
+  const targets = new Set(edges.map(edge => edge.target))
+  sorted.filter(node => !targets.has(node.id)).forEach(node => { if (!state.has(node.id)) visit(node.id) })
+  sorted.forEach(node => { if (!state.has(node.id)) visit(node.id) })
+
+  const parents = new Map<string, string[]>()
+  acyclic.forEach(edge => parents.set(edge.target, [...(parents.get(edge.target) || []), edge.source]))
+
+  // Typed nodes take their type's row even with nothing connected to them
+  const connected = new Set(acyclic.flatMap(edge => [edge.source, edge.target]))
+  nodes.forEach(node => { if (typeLevel(node) !== undefined) connected.add(node.id) })
+  const rank = new Map<string, number>()
+  const rankOf = (id: string): number => {
+    const known = rank.get(id)
+    if (known !== undefined) return known
+    const value = Math.max(levels.get(id) ?? 0, Math.max(-1, ...(parents.get(id) || []).map(rankOf)) + 1)
+    rank.set(id, value)
+    return value
+  }
+  sorted.filter(node => connected.has(node.id)).forEach(node => rankOf(node.id))
+
+  const ranked: string[][] = []
+  sorted.filter(node => connected.has(node.id)).forEach(node => {
+    const row = rank.get(node.id) || 0
+    ranked[row] = [...(ranked[row] || []), node.id]
+  })
+  // Close up rows left empty, e.g. no chapters between plot points and scenes
+  const rows = ranked.filter(row => row !== undefined)
+
+  // Order each row by the average place of its parents in the row above
+  for (let row = 1; row < rows.length; row++) {
+    const above = new Map(rows[row - 1].map((id, index) => [id, index]))
+    const weight = (id: string) => {
+      const places = (parents.get(id) || []).map(parent => above.get(parent)).filter((place): place is number => place !== undefined)
+      return places.length > 0 ? places.reduce((sum, place) => sum + place, 0) / places.length : Infinity
+    }
+    rows[row] = [...rows[row]].sort((a, b) => weight(a) - weight(b))
+  }
+
+  const loose = sorted.filter(node => !connected.has(node.id)).map(node => node.id)
+  if (loose.length > 0) {
+    const perRow = Math.max(4, ...rows.map(row => row.length))
+    for (let start = 0; start < loose.length; start += perRow) {
+      rows.push(loose.slice(start, start + perRow))
+    }
+  }
+
+  // Centre every row under the widest one
+  const widest = Math.max(...rows.map(row => row.length))
+  const positions: Record<string, Point> = {}
+  rows.forEach((row, rowIndex) => {
+    const indent = ((widest - row.length) * SPACING.x) / 2
+    row.forEach((id, index) => {
+      positions[id] = { x: indent + index * SPACING.x, y: rowIndex * SPACING.y }
+    })
+  })
+  return positions
+}
+
+/**
+ * Rings around one node: its neighbours on the first ring, theirs on the
+ * next, and anything unconnected on the outermost. Each node is placed
+ * near the angle of the node that led to it.
+ */
+function radial(centerId: string, nodes: LayoutNode[], edges: LayoutEdge[]): Record<string, Point> {
+  const neighbours = new Map<string, string[]>()
+  edges.forEach(edge => {
+    neighbours.set(edge.source, [...(neighbours.get(edge.source) || []), edge.target])
+    neighbours.set(edge.target, [...(neighbours.get(edge.target) || []), edge.source])
+  })
+
+  const angle = new Map<string, number>([[centerId, 0]])
+  const positions: Record<string, Point> = { [centerId]: { x: 0, y: 0 } }
+  const reached = new Set([centerId])
+  let ring = [centerId]
+  let depth = 0
+
+  const placeRing = (ids: string[], parentOf: Map<string, string>) => {
+    depth++
+    ids.sort((a, b) => (angle.get(parentOf.get(a) || '') || 0) - (angle.get(parentOf.get(b) || '') || 0))
+    // Widen the ring when its nodes would not fit around it
+    const radius = Math.max(depth * RING_SPACING, (ids.length * SPACING.x) / (2 * Math.PI))
+    ids.forEach((id, index) => {
+      const theta = (2 * Math.PI * index) / ids.length - Math.PI / 2
+      angle.set(id, theta)
+      positions[id] = { x: radius * Math.cos(theta), y: radius * Math.sin(theta) }
+    })
+  }
+
+  while (ring.length > 0) {
+    const parentOf = new Map<string, string>()
+    ring.forEach(id => (neighbours.get(id) || []).forEach(next => {
+      if (!reached.has(next)) {
+        reached.add(next)
+        parentOf.set(next, id)
+      }
+    }))
+    const next = Array.from(parentOf.keys())
+    if (next.length > 0) placeRing(next, parentOf)
+    ring = next
+  }
+
+  const loose = nodes.map(node => node.id).filter(id => !reached.has(id))
+  if (loose.length > 0) placeRing(loose, new Map())
+
+  return positions
+}
+
+// Force-directed arrangement of the given nodes, pulling connected ones together
+function forceDirected(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  isPinned: (node: LayoutNode) => boolean
+): Record<string, Point> {
+  if (nodes.length === 0) return {}
+  const origin = topLeft(nodes)
+  const side = Math.ceil(Math.sqrt(nodes.length)) * SPACING.x * 1.8
+  const fixed: Record<string, Point> = {}
+  nodes.filter(isPinned).forEach(node => {
+    fixed[node.id] = { x: node.position.x - origin.x, y: node.position.y - origin.y }
+  })
+
+  const laidOut = forceLayout(
+    nodes.map(node => node.id),
+    edges.map(edge => ({ from: edge.source, to: edge.target, strength: 5 })),
+    side,
+    side,
+    fixed
+  )
+
+  const result: Record<string, Point> = {}
+  nodes.filter(node => !isPinned(node)).forEach(node => {
+    result[node.id] = { x: Math.round(laidOut[node.id].x + origin.x), y: Math.round(laidOut[node.id].y + origin.y) }
+  })
+  return result
+}
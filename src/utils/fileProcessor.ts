@@ -1,4 +1,5 @@
 import mammoth from 'mammoth'
+import { markdownToHtml, parseFrontMatter } from './manuscriptParsers'
 
 export interface ProcessedFile {
   title: string
@@ -8,7 +9,7 @@ export interface ProcessedFile {
 }
 
 export async function processFile(file: File): Promise<ProcessedFile> {
-  const title = file.name.replace(/\.(docx|txt)$/i, '')
+  const title = file.name.replace(/\.(docx|txt|md)$/i, '')
   let content = ''
   
   try {
@@ -18,6 +19,8 @@ export async function processFile(file: File): Promise<ProcessedFile> {
       content = result.value
     } else if (file.name.toLowerCase().endsWith('.txt')) {
       content = await file.text()
+    } else if (file.name.toLowerCase().endsWith('.md')) {
+      content = markdownToHtml(parseFrontMatter(await file.text()).body)
     } else {
       throw new Error('Unsupported file type')
     }
@@ -76,7 +79,7 @@ function suggestContentType(title: string, content: string, wordCount: number):
 
 export function validateFile(file: File): { valid: boolean; error?: string } {
   const maxSize = 10 * 1024 * 1024 // 10MB
-  const allowedTypes = ['.docx', '.txt']
+  const allowedTypes = ['.docx', '.txt', '.md']
   
   if (file.size > maxSize) {
     return { valid: false, error: 'File size must be less than 10MB' }
@@ -84,7 +87,7 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   
   const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
   if (!allowedTypes.includes(fileExtension)) {
-    return { valid: false, error: 'Only .docx and .txt files are supported' }
+    return { valid: false, error: 'Only .docx, .txt and .md files are supported' }
   }
   
   return { valid: true }
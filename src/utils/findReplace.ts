@@ -0,0 +1,144 @@
+// Find and replace over chapter HTML. Matching runs on text nodes only, so
+// markup is never touched; text split across formatting (half a word in
+// bold) isn't matched. Text in pending suggested deletions is skipped.
+
+import { isSuggestedDeletion } from './trackChanges'
+
+export interface FindOptions {
+  caseSensitive: boolean
+  wholeWord: boolean
+  regex: boolean
+}
+
+export interface TextMatch {
+  // Stable for a given HTML string: text node position and offset within it
+  id: string
+  text: string
+  replacement: string
+  // Surrounding text for the preview
+  before: string
+  after: string
+}
+
+const CONTEXT_LENGTH = 40
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Compile the search into a global regular expression. Throws SyntaxError for
+ * an invalid pattern in regex mode.
+ */
+export function buildPattern(query: string, options: FindOptions): RegExp {
+  let source = options.regex ? query : escapeRegExp(query)
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu')
+}
+
+/**
+ * The text to put in place of a match. In regex mode the replacement may
+ * use $&, $1..$99, $<name> and $$ like String.prototype.replace.
+ */
+export function expandReplacement(match: RegExpExecArray, replacement: string, options: FindOptions): string {
+  if (!options.regex) return replacement
+
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return match[0]
+    if (name !== undefined) return match.groups?.[name] ?? ''
+    const group = Number(ref)
+    return group > 0 && group < match.length ? match[group] ?? '' : token
+  })
+}
+
+// Every non-empty match in a string, with its position
+function* matchesIn(text: string, pattern: RegExp): Generator<RegExpExecArray> {
+  const regex = new RegExp(pattern.source, pattern.flags)
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++
+      continue
+    }
+    yield match
+  }
+}
+
+function parseBody(html: string): HTMLElement {
+  return new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html').body
+}
+
+function textNodesOf(root: HTMLElement): Text[] {
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const nodes: Text[] = []
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text)
+  return nodes
+}
+
+export function findMatches(html: string, pattern: RegExp, replacement: string, options: FindOptions): TextMatch[] {
+  if (!html) return []
+  const matches: TextMatch[] = []
+
+  textNodesOf(parseBody(html)).forEach((node, nodeIndex) => {
+    if (isSuggestedDeletion(node)) return
+    const text = node.data
+    for (const match of matchesIn(text, pattern)) {
+      const start = match.index
+      const end = start + match[0].length
+      matches.push({
+        id: `${nodeIndex}:${start}`,
+        text: match[0],
+        replacement: expandReplacement(match, replacement, options),
+        before: (start > CONTEXT_LENGTH ? '…' : '') + text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+        after: text.slice(end, end + CONTEXT_LENGTH) + (end + CONTEXT_LENGTH < text.length ? '…' : '')
+      })
+    }
+  })
+
+  return matches
+}
+
+/**
+ * Replace the matches whose ids are included. Ids come from findMatches on
+ * the same HTML, so the HTML must not have changed in between.
+ */
+export function replaceMatches(
+  html: string,
+  pattern: RegExp,
+  replacement: string,
+  options: FindOptions,
+  include: (id: string) => boolean
+): { html: string; count: number } {
+  const body = parseBody(html)
+  let count = 0
+
+  textNodesOf(body).forEach((node, nodeIndex) => {
+    if (isSuggestedDeletion(node)) return
+    const text = node.data
+    let result = ''
+    let position = 0
+
+    for (const match of matchesIn(text, pattern)) {
+      if (!include(`${nodeIndex}:${match.index}`)) continue
+      result += text.slice(position, match.index) + expandReplacement(match, replacement, options)
+      position = match.index + match[0].length
+      count++
+    }
+
+    if (position > 0) node.data = result + text.slice(position)
+  })
+
+  return { html: count > 0 ? body.innerHTML : html, count }
+}
+
+// Replace every match in a plain string, such as a character's name
+export function replaceInText(text: string, pattern: RegExp, replacement: string, options: FindOptions): string {
+  let result = ''
+  let position = 0
+  for (const match of matchesIn(text, pattern)) {
+    result += text.slice(position, match.index) + expandReplacement(match, replacement, options)
+    position = match.index + match[0].length
+  }
+  return result + text.slice(position)
+}
@@ -0,0 +1,466 @@
+// Parsers for manuscripts written elsewhere: Markdown with front matter,
+// Scrivener's RTF documents and binder, and long single-file manuscripts
+// split into chapters. Everything here turns text into the editor's HTML.
+
+export interface SplitOptions {
+  // "Chapter 1", "CHAPTER ONE: The Storm", "Ch. IV" and the like
+  chapterHeadings: boolean
+  // Top-level headings: "# Title" in Markdown, Heading 1 in DOCX
+  headings: boolean
+  // Page breaks in DOCX and form feeds in plain text
+  pageBreaks: boolean
+  // Extra regular expression a chapter's opening line matches, or ''
+  customPattern: string
+}
+
+export interface SplitChapter {
+  title: string
+  html: string
+}
+
+export interface BinderItem {
+  id: string
+  type: string
+  title: string
+  children: BinderItem[]
+}
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = {
+  chapterHeadings: true,
+  headings: true,
+  pageBreaks: true,
+  customPattern: ''
+}
+
+// Marks a page break in imported HTML until the manuscript is split
+export const PAGE_BREAK_HTML = '<hr class="page-break">'
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty'
+const CHAPTER_HEADING = new RegExp(
+  `^(chapter|ch\\.)\\s+(\\d+|[ivxlcdm]+|(${NUMBER_WORDS})([-\\s](${NUMBER_WORDS}))?)\\b`,
+  'i'
+)
+const SCENE_BREAK_LINE = /^\s*(\*\s*\*\s*\*|#|-{3,}|\*{3,}|~{3,})\s*$/
+// Lines longer than this are prose, not a chapter heading
+const MAX_HEADING_LENGTH = 100
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+export function htmlText(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+// ===== FRONT MATTER =====
+
+function parseYamlValue(raw: string): string | number | string[] {
+  const value = raw.trim()
+  if (/^\[.*\]$/.test(value)) {
+    return value.slice(1, -1).split(',').map(item => item.trim().replace(/^["']|["']$/g, '')).filter(Boolean)
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  return value.replace(/^["']|["']$/g, '')
+}
+
+/**
+ * Split YAML front matter from a Markdown file. Only the flat subset
+ * writing tools produce is understood: `key: value`, inline `[a, b]` lists
+ * and `- item` lists under a key.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | number | string[]>; body: string } {
+  const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n(---|\.\.\.)\r?\n?/)
+  if (!match) return { data: {}, body: text }
+
+  const data: Record<string, string | number | string[]> = {}
+  let listKey: string | null = null
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s+(.*)$/)
+    if (item && listKey) {
+      data[listKey] = [...(data[listKey] as string[]), String(parseYamlValue(item[1]))]
+      return
+    }
+    const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/)
+    if (!pair) return
+    const key = pair[1].toLowerCase()
+    if (pair[2].trim() === '') {
+      data[key] = []
+      listKey = key
+    } else {
+      data[key] = parseYamlValue(pair[2])
+      listKey = null
+    }
+  })
+
+  return { data, body: text.slice(match[0].length) }
+}
+
+// ===== MARKDOWN =====
+
+function markdownInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(?=\S)([\s\S]*?\S)\1/g, '<em>$2</em>')
+    .replace(/ {2,}\n/g, '<br>')
+    .replace(/\n/g, ' ')
+}
+
+/**
+ * Markdown to the editor's HTML: headings, paragraphs, lists, block quotes
+ * and scene breaks (---, ***, * * *). Code blocks become plain paragraphs
+ * and images are dropped; neither has a place in a chapter.
+ */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = []
+  let paragraph: string[] = []
+  let list: { ordered: boolean; items: string[] } | null = null
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) html.push(`<p>${markdownInline(paragraph.join('\n'))}</p>`)
+    paragraph = []
+  }
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul'
+      html.push(`<${tag}>${list.items.map(item => `<li>${markdownInline(item)}</li>`).join('')}</${tag}>`)
+    }
+    list = null
+  }
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/)
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/)
+    const listItem = bullet || numbered
+    const quote = line.match(/^>\s?(.*)$/)
+
+    if (line.trim() === '' || line.trim().startsWith('```')) {
+      flushParagraph()
+      flushList()
+    } else if (line.includes('\f')) {
+      flushParagraph()
+      flushList()
+      html.push(PAGE_BREAK_HTML)
+    } else if (SCENE_BREAK_LINE.test(line) && !heading) {
+      flushParagraph()
+      flushList()
+      html.push('<hr>')
+    } else if (heading) {
+      flushParagraph()
+      flushList()
+      html.push(`<h${heading[1].length}>${markdownInline(heading[2])}</h${heading[1].length}>`)
+    } else if (listItem) {
+      flushParagraph()
+      const ordered = !!numbered
+      if (list && list.ordered !== ordered) flushList()
+      if (!list) list = { ordered, items: [] }
+      list.items.push(listItem[1])
+    } else if (quote) {
+      flushParagraph()
+      flushList()
+      html.push(`<blockquote><p>${markdownInline(quote[1])}</p></blockquote>`)
+    } else if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`
+    } else {
+      flushList()
+      paragraph.push(line)
+    }
+  })
+  flushParagraph()
+  flushList()
+
+  return html.join('')
+}
+
+// ===== PLAIN TEXT =====
+
+/**
+ * Plain text to HTML. Blank lines separate paragraphs when the text has
+ * any; otherwise every line is a paragraph. Form feeds are page breaks and
+ * lines like "* * *" or "#" are scene breaks.
+ */
+export function textToHtml(text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\f/g, '\n\f\n')
+  // Not \s: it would swallow the form feeds
+  const blankLines = /\n[ \t]*\n/.test(normalized)
+  const blocks = blankLines ? normalized.split(/\n[ \t]*\n/) : normalized.split('\n')
+
+  return blocks.flatMap(block => block.split('\f').flatMap((part, index) => [
+    ...(index > 0 ? [PAGE_BREAK_HTML] : []),
+    ...(part.trim() === '' ? [] : [SCENE_BREAK_LINE.test(part)
+      ? '<hr>'
+      : `<p>${part.trim().split('\n').map(line => escapeHtml(line.trim())).join('<br>')}</p>`])
+  ])).join('')
+}
+
+// ===== RTF =====
+
+// Groups whose text is formatting data, not document content
+const RTF_SKIP_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer', 'headerl', 'headerr', 'footerl',
+  'footerr', 'listtable', 'listoverridetable', 'generator', 'xmlnstbl', 'themedata', 'latentstyles',
+  'rsidtbl', 'mmathPr', 'datastore', 'filetbl', 'revtbl', 'object', 'footnote', 'fldinst', 'nonshppict'
+])
+
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', bullet: '•', tab: ' '
+}
+
+interface RtfState {
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  skip: boolean
+  // Characters to skip after \uN, from \ucN
+  unicodeSkip: number
+}
+
+/**
+ * RTF to HTML paragraphs keeping bold, italic and underline. Enough for
+ * the prose Scrivener stores; tables, images and footnotes are dropped.
+ */
+export function rtfToHtml(rtf: string): string {
+  const paragraphs: string[] = []
+  let runs: Array<{ text: string; bold: boolean; italic: boolean; underline: boolean }> = []
+  let state: RtfState = { bold: false, italic: false, underline: false, skip: false, unicodeSkip: 1 }
+  const stack: RtfState[] = []
+  let pendingSkip = 0
+  let groupStart = false
+  const decoder = typeof TextDecoder !== 'undefined' ? new TextDecoder('windows-1252') : null
+
+  const emit = (text: string) => {
+    if (state.skip || !text) return
+    if (pendingSkip > 0) {
+      const skipped = Math.min(pendingSkip, text.length)
+      pendingSkip -= skipped
+      text = text.slice(skipped)
+      if (!text) return
+    }
+    const last = runs[runs.length - 1]
+    if (last && last.bold === state.bold && last.italic === state.italic && last.underline === state.underline) {
+      last.text += text
+    } else {
+      runs.push({ text, bold: state.bold, italic: state.italic, underline: state.underline })
+    }
+  }
+
+  const endParagraph = () => {
+    const html = runs.map(run => {
+      let text = escapeHtml(run.text).replace(/\n/g, '<br>')
+      if (run.underline) text = `<u>${text}</u>`
+      if (run.italic) text = `<em>${text}</em>`
+      if (run.bold) text = `<strong>${text}</strong>`
+      return text
+    }).join('')
+    if (htmlText(html)) paragraphs.push(SCENE_BREAK_LINE.test(htmlText(html)) ? '<hr>' : `<p>${html}</p>`)
+    runs = []
+  }
+
+  let i = 0
+  while (i < rtf.length) {
+    const char = rtf[i]
+
+    if (char === '{') {
+      stack.push({ ...state })
+      groupStart = true
+      i++
+      continue
+    }
+    if (char === '}') {
+      state = stack.pop() || state
+      groupStart = false
+      i++
+      continue
+    }
+    if (char === '\r' || char === '\n') {
+      i++
+      continue
+    }
+    if (char !== '\\') {
+      const next = rtf.slice(i).search(/[\\{}\r\n]/)
+      const text = next === -1 ? rtf.slice(i) : rtf.slice(i, i + next)
+      emit(text)
+      groupStart = false
+      i += text.length
+      continue
+    }
+
+    // Control symbols
+    const symbol = rtf[i + 1]
+    if (symbol === '\\' || symbol === '{' || symbol === '}') {
+      emit(symbol)
+      i += 2
+      continue
+    }
+    if (symbol === '~') { emit(' '); i += 2; continue }
+    if (symbol === '_') { emit('-'); i += 2; continue }
+    if (symbol === '-') { i += 2; continue }
+    if (symbol === '\n' || symbol === '\r') { endParagraph(); i += 2; continue }
+    if (symbol === '*') {
+      if (groupStart) state.skip = true
+      i += 2
+      continue
+    }
+    if (symbol === '\'') {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16)
+      if (!Number.isNaN(byte)) emit(decoder ? decoder.decode(new Uint8Array([byte])) : String.fromCharCode(byte))
+      i += 4
+      continue
+    }
+
+    // Control words: letters, an optional numeric parameter and an optional space
+    const match = rtf.slice(i + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/)
+    if (!match) {
+      i += 2
+      continue
+    }
+    const [whole, word, param] = match
+    i += 1 + whole.length
+    const wasGroupStart = groupStart
+    groupStart = false
+
+    if (wasGroupStart && RTF_SKIP_DESTINATIONS.has(word)) {
+      state.skip = true
+      continue
+    }
+
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+        endParagraph()
+        break
+      case 'line':
+        emit('\n')
+        break
+      case 'b':
+        state.bold = param !== '0'
+        break
+      case 'i':
+        state.italic = param !== '0'
+        break
+      case 'ul':
+        state.underline = param !== '0'
+        break
+      case 'ulnone':
+        state.underline = false
+        break
+      case 'plain':
+        state.bold = false
+        state.italic = false
+        state.underline = false
+        break
+      case 'uc':
+        state.unicodeSkip = Number(param || 1)
+        break
+      case 'u': {
+        const code = Number(param)
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code))
+        pendingSkip = state.unicodeSkip
+        break
+      }
+      default:
+        if (RTF_SYMBOLS[word]) emit(RTF_SYMBOLS[word])
+    }
+  }
+  endParagraph()
+
+  return paragraphs.join('')
+}
+
+// ===== SCRIVENER =====
+
+function binderItem(element: Element): BinderItem {
+  const children = Array.from(element.children).find(child => child.tagName === 'Children')
+  return {
+    // Scrivener 3 uses UUID, Scrivener 2 a numeric ID
+    id: element.getAttribute('UUID') || element.getAttribute('ID') || '',
+    type: element.getAttribute('Type') || 'Text',
+    title: Array.from(element.children).find(child => child.tagName === 'Title')?.textContent?.trim() || 'Untitled',
+    children: children
+      ? Array.from(children.children).filter(child => child.tagName === 'BinderItem').map(binderItem)
+      : []
+  }
+}
+
+// The items in a .scrivx project's Draft (or Manuscript) folder, in binder order
+export function parseScrivenerBinder(xml: string): BinderItem[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const binder = doc.getElementsByTagName('Binder')[0]
+  if (!binder) throw new Error('This is not a Scrivener project file')
+
+  const roots = Array.from(binder.children).filter(child => child.tagName === 'BinderItem').map(binderItem)
+  const draft = roots.find(item => item.type === 'DraftFolder')
+  if (!draft) throw new Error('The Scrivener project has no Draft folder')
+  return draft.children
+}
+
+// ===== CHAPTER SPLITTING =====
+
+/**
+ * Split one long manuscript's HTML into chapters at the breaks the options
+ * allow. The line that opens a chapter becomes its title and is removed
+ * from the text; a page break followed straight away by a heading counts
+ * once. Text before the first break is kept under the fallback title.
+ */
+export function splitManuscript(html: string, options: SplitOptions, fallbackTitle: string): SplitChapter[] {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html')
+  let custom: RegExp | null = null
+  try {
+    custom = options.customPattern.trim() ? new RegExp(options.customPattern.trim(), 'i') : null
+  } catch {
+    custom = null
+  }
+
+  const chapters: Array<{ title: string; parts: string[] }> = [{ title: '', parts: [] }]
+  const current = () => chapters[chapters.length - 1]
+  const isEmpty = (chapter: { parts: string[] }) => !htmlText(chapter.parts.join(''))
+
+  const startChapter = (title: string) => {
+    const chapter = current()
+    // A chapter a page break just opened takes the heading as its title
+    if (isEmpty(chapter) && !chapter.title) {
+      chapter.title = title
+      chapter.parts = []
+      return
+    }
+    chapters.push({ title, parts: [] })
+  }
+
+  Array.from(doc.body.childNodes).forEach(node => {
+    const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : null
+    const outer = element ? element.outerHTML : (node.textContent || '').trim() ? `<p>${escapeHtml(node.textContent || '')}</p>` : ''
+    const text = (node.textContent || '').replace(/\s+/g, ' ').trim()
+
+    if (element?.tagName === 'HR' && element.classList.contains('page-break')) {
+      if (options.pageBreaks) {
+        if (!isEmpty(current())) chapters.push({ title: '', parts: [] })
+      }
+      return
+    }
+
+    const isHeadingLine = text.length > 0 && text.length <= MAX_HEADING_LENGTH
+    const opensChapter = isHeadingLine && (
+      (options.headings && element?.tagName === 'H1') ||
+      (options.chapterHeadings && CHAPTER_HEADING.test(text)) ||
+      (!!custom && custom.test(text))
+    )
+
+    if (opensChapter) {
+      startChapter(text)
+    } else if (outer) {
+      current().parts.push(outer)
+    }
+  })
+
+  return chapters
+    .filter(chapter => !isEmpty(chapter) || chapter.title)
+    .map((chapter, index) => ({
+      title: chapter.title || (index === 0 ? fallbackTitle : `Chapter ${index + 1}`),
+      html: chapter.parts.join('')
+    }))
+}
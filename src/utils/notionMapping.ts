@@ -0,0 +1,331 @@
+// Field mappings from a Notion database's properties to Nimbus fields.
+// Every workspace names its properties differently, so a mapping is guessed
+// from the schema, adjusted by the user and saved as a profile to reuse.
+
+import type { ImportedDatabase, ImportedRecord } from '../services/notion-import-service'
+
+export type NotionRecordType = ImportedDatabase['type']
+
+// Notion property name -> target field key, '' to skip the property or
+// `character_data.<key>` to keep it in the character's JSON data
+export type FieldMapping = Record<string, string>
+
+export interface TargetField {
+  key: string
+  label: string
+  kind: 'text' | 'number' | 'list'
+}
+
+export interface MappingProfile {
+  id: string
+  name: string
+  databaseId: string
+  recordType: NotionRecordType
+  fields: FieldMapping
+  updatedAt: string
+}
+
+// A record after mapping: values converted to their field's kind
+export interface MappedRecord {
+  record: ImportedRecord
+  fields: Record<string, string | number | string[]>
+  data: Record<string, unknown>
+}
+
+export const IGNORE_FIELD = ''
+export const CHARACTER_DATA_PREFIX = 'character_data.'
+
+const field = (key: string, label: string, kind: TargetField['kind'] = 'text'): TargetField => ({ key, label, kind })
+
+// The first field of each type is its name or title
+export const TARGET_FIELDS: Record<NotionRecordType, TargetField[]> = {
+  character: [
+    field('name', 'Name'),
+    field('role', 'Role'),
+    field('age', 'Age', 'number'),
+    field('description', 'Description'),
+    field('background', 'Background'),
+    field('physical_description', 'Physical description'),
+    field('occupation', 'Occupation'),
+    field('traits', 'Traits', 'list'),
+    field('tags', 'Tags', 'list'),
+    field('fantasy_class', 'Class')
+  ],
+  plot: [
+    field('title', 'Title'),
+    field('description', 'Description'),
+    field('type', 'Thread type'),
+    field('status', 'Status'),
+    field('completion_percentage', 'Progress', 'number'),
+    field('tags', 'Tags', 'list')
+  ],
+  chapter: [
+    field('title', 'Title'),
+    field('chapter_number', 'Chapter number', 'number'),
+    field('description', 'Notes'),
+    field('status', 'Status'),
+    field('word_count', 'Word count', 'number'),
+    field('book', 'Book')
+  ],
+  location: [
+    field('name', 'Name'),
+    field('description', 'Description'),
+    field('geography', 'Geography'),
+    field('culture', 'Culture'),
+    field('climate', 'Climate'),
+    field('tags', 'Tags', 'list')
+  ],
+  unknown: [
+    field('title', 'Title'),
+    field('description', 'Description'),
+    field('category', 'Category'),
+    field('tags', 'Tags', 'list')
+  ]
+}
+
+// Property names, trimmed and lower-cased, that usually hold each field
+const ALIASES: Record<NotionRecordType, Record<string, string[]>> = {
+  character: {
+    role: ['role', 'type'],
+    age: ['age'],
+    description: ['description', 'content'],
+    background: ['background', 'backstory'],
+    physical_description: ['face claim', 'appearance', 'physical description'],
+    occupation: ['occupation', 'job'],
+    traits: ['traits', 'abilities', 'techniques', 'multi-select'],
+    tags: ['tags'],
+    fantasy_class: ['class', 'fantasy class']
+  },
+  plot: {
+    description: ['description', 'content'],
+    type: ['type', 'stats'],
+    status: ['status', 'finished'],
+    completion_percentage: ['progress'],
+    tags: ['tags']
+  },
+  chapter: {
+    chapter_number: ['chapter', 'chapter number', 'number'],
+    description: ['notes', 'description'],
+    status: ['status'],
+    word_count: ['word count', 'words'],
+    book: ['books', 'book']
+  },
+  location: {
+    description: ['description', 'content'],
+    geography: ['geography'],
+    culture: ['culture'],
+    climate: ['climate'],
+    tags: ['tags']
+  },
+  unknown: {
+    description: ['description', 'content'],
+    category: ['category', 'type'],
+    tags: ['tags']
+  }
+}
+
+export function titleField(recordType: NotionRecordType): string {
+  return TARGET_FIELDS[recordType][0].key
+}
+
+// A key for character_data from a property name, e.g. "Race " -> "race"
+export function dataKey(propertyName: string): string {
+  return propertyName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field'
+}
+
+/**
+ * A starting mapping for a schema. The title property becomes the name,
+ * properties whose names match a known alias map to that field, and any
+ * other character property is kept in character_data rather than dropped.
+ * Properties are taken in schema order, so the first alias found wins.
+ */
+export function guessMapping(recordType: NotionRecordType, properties: ImportedDatabase['properties']): FieldMapping {
+  const aliases = ALIASES[recordType]
+  const kinds = new Map(TARGET_FIELDS[recordType].map(target => [target.key, target.kind]))
+  const mapping: FieldMapping = {}
+  const used = new Set<string>()
+
+  Object.entries(properties).forEach(([name, property]) => {
+    const normalized = name.trim().toLowerCase()
+    // Only lists take more than one property by default, so "Role" and "Type" don't run together
+    const match = Object.entries(aliases).find(([key, names]) =>
+      names.includes(normalized) && (kinds.get(key) === 'list' || !used.has(key)))
+
+    if (property.type === 'title') {
+      mapping[name] = titleField(recordType)
+    } else if (match) {
+      mapping[name] = match[0]
+      used.add(match[0])
+    } else {
+      mapping[name] = recordType === 'character' ? `${CHARACTER_DATA_PREFIX}${dataKey(name)}` : IGNORE_FIELD
+    }
+  })
+
+  return mapping
+}
+
+// A saved profile laid over a schema: properties the profile doesn't know keep their guess
+export function applyProfile(
+  profile: Pick<MappingProfile, 'fields' | 'recordType'>,
+  properties: ImportedDatabase['properties']
+): FieldMapping {
+  const guess = guessMapping(profile.recordType, properties)
+  return Object.fromEntries(Object.keys(properties).map(name =>
+    [name, name in profile.fields ? profile.fields[name] : guess[name]]))
+}
+
+function toText(value: unknown): string {
+  if (Array.isArray(value)) return value.filter(item => item !== null && item !== '').join(', ')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' ? '' : String(value)
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  const match = toText(value).match(/-?\d+(\.\d+)?/)
+  return match ? Number(match[0]) : undefined
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean)
+  return toText(value).split(',').map(item => item.trim()).filter(Boolean)
+}
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+
+/**
+ * Convert one record with a mapping. Several properties may feed the same
+ * field: text is joined with blank lines, lists are merged and the first
+ * number wins. The name falls back to the page title and the description
+ * to the page's detected content.
+ */
+export function applyMapping(record: ImportedRecord, recordType: NotionRecordType, mapping: FieldMapping): MappedRecord {
+  const targets = new Map(TARGET_FIELDS[recordType].map(target => [target.key, target]))
+  const fields: MappedRecord['fields'] = {}
+  const data: MappedRecord['data'] = {}
+
+  Object.entries(mapping).forEach(([property, key]) => {
+    const value = record.properties[property]
+    if (key === IGNORE_FIELD || isEmpty(value)) return
+
+    if (key.startsWith(CHARACTER_DATA_PREFIX)) {
+      data[key.slice(CHARACTER_DATA_PREFIX.length)] = value
+      return
+    }
+
+    const target = targets.get(key)
+    if (!target) return
+    const existing = fields[key]
+
+    if (target.kind === 'number') {
+      const number = toNumber(value)
+      if (existing === undefined && number !== undefined) fields[key] = number
+    } else if (target.kind === 'list') {
+      fields[key] = Array.from(new Set([...(existing as string[] || []), ...toList(value)]))
+    } else {
+      const text = toText(value)
+      if (text) fields[key] = existing ? `${existing}\n\n${text}` : text
+    }
+  })
+
+  const title = titleField(recordType)
+  if (!fields[title]) fields[title] = record.name
+  if (!fields.description && record.content) fields.description = record.content
+
+  return { record, fields, data }
+}
+
+// What a target key means, for showing in the editor and preview
+export function targetLabel(recordType: NotionRecordType, key: string): string {
+  if (key === IGNORE_FIELD) return 'Skip'
+  if (key.startsWith(CHARACTER_DATA_PREFIX)) return `Extra data: ${key.slice(CHARACTER_DATA_PREFIX.length)}`
+  return TARGET_FIELDS[recordType].find(target => target.key === key)?.label || key
+}
+
+// Fields normalised on import (e.g. "Main Character" -> "protagonist"), so
+// the Nimbus value isn't one of the Notion property's own options
+export const PULL_ONLY_FIELDS = ['role', 'status', 'type', 'category']
+
+const richText = (text: string) => [{ type: 'text', text: { content: text.slice(0, 2000) } }]
+
+/**
+ * The reverse of applyMapping for sync: Notion property values for a Nimbus
+ * row, keyed by property name. Only properties whose Notion type can be
+ * written are included; relations, formulas, rollups and the like are
+ * left alone, as are pull-only fields and fields fed by several properties,
+ * since the merged value can't be split back between them.
+ */
+export function toNotionProperties(
+  row: Record<string, unknown>,
+  mapping: FieldMapping,
+  properties: ImportedDatabase['properties']
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  const characterData = (row.character_data || {}) as Record<string, unknown>
+  const sources = new Map<string, number>()
+  Object.values(mapping).forEach(key => sources.set(key, (sources.get(key) || 0) + 1))
+
+  Object.entries(mapping).forEach(([name, key]) => {
+    const property = properties[name]
+    if (!property || key === IGNORE_FIELD || PULL_ONLY_FIELDS.includes(key) || (sources.get(key) || 0) > 1) return
+
+    const value = key.startsWith(CHARACTER_DATA_PREFIX)
+      ? characterData[key.slice(CHARACTER_DATA_PREFIX.length)]
+      : row[key]
+    if (value === undefined) return
+
+    switch (property.type) {
+      case 'title':
+        values[name] = { title: richText(toText(value)) }
+        break
+      case 'rich_text':
+        values[name] = { rich_text: richText(toText(value)) }
+        break
+      case 'number':
+        values[name] = { number: toNumber(value) ?? null }
+        break
+      case 'select': {
+        const text = toText(value)
+        values[name] = { select: text ? { name: text.replace(/,/g, '') } : null }
+        break
+      }
+      case 'multi_select':
+        values[name] = { multi_select: toList(value).map(item => ({ name: item.replace(/,/g, '') })) }
+        break
+      case 'checkbox':
+        values[name] = { checkbox: value === true || /^(yes|true|done|completed)$/i.test(toText(value)) }
+        break
+    }
+  })
+
+  return values
+}
+
+/**
+ * A short hash of the values a sync writes, stored on each link so an edit
+ * time that moved without the content changing isn't taken for an edit.
+ * Keys are sorted and empty values dropped, so the same content from either
+ * side hashes alike.
+ */
+export function contentHash(values: Record<string, unknown>): string {
+  const json = stableJson(values)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => !isEmpty(item))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
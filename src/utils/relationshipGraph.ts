@@ -0,0 +1,221 @@
+// Character relationship graph: the catalog of relationship types, the
+// state of each relationship at a point in the story, and a force-directed
+// layout for the Relationships view.
+
+export interface RelationshipType {
+  id: string
+  label: string
+  // How the relationship reads from A to B, e.g. "mentors"
+  verb: string
+  // Symmetric types read the same both ways and are drawn without an arrow
+  symmetric: boolean
+  color: string
+}
+
+export interface RelationshipChange {
+  id: string
+  relationshipId: string
+  chapterId: string
+  type: string | null
+  strength: number | null
+  description: string | null
+  ended: boolean
+}
+
+export interface CharacterRelationship {
+  id: string
+  projectId: string
+  fromId: string
+  toId: string
+  type: string
+  description: string
+  strength: number
+  // Chapter the relationship begins in; null means from the start
+  introducedChapterId: string | null
+  changes: RelationshipChange[]
+}
+
+// A relationship as it stands at one point in the story
+export interface RelationshipState {
+  type: string
+  strength: number
+  description: string
+  active: boolean
+}
+
+export interface GraphEdge {
+  from: string
+  to: string
+  strength: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = [
+  { id: 'friend', label: 'Friend', verb: 'is friends with', symmetric: true, color: '#16a34a' },
+  { id: 'family', label: 'Family', verb: 'is family to', symmetric: true, color: '#0891b2' },
+  { id: 'romantic', label: 'Romantic', verb: 'is involved with', symmetric: true, color: '#db2777' },
+  { id: 'ally', label: 'Ally', verb: 'is allied with', symmetric: true, color: '#2563eb' },
+  { id: 'rival', label: 'Rival', verb: 'is rivals with', symmetric: true, color: '#ca8a04' },
+  { id: 'enemy', label: 'Enemy', verb: 'is enemies with', symmetric: true, color: '#dc2626' },
+  { id: 'mentor', label: 'Mentor', verb: 'mentors', symmetric: false, color: '#7c3aed' },
+  { id: 'parent', label: 'Parent', verb: 'is a parent of', symmetric: false, color: '#0e7490' },
+  { id: 'leader', label: 'Leader', verb: 'leads', symmetric: false, color: '#4f46e5' },
+  { id: 'loves', label: 'Loves', verb: 'loves', symmetric: false, color: '#e11d48' },
+  { id: 'admires', label: 'Admires', verb: 'admires', symmetric: false, color: '#059669' },
+  { id: 'resents', label: 'Resents', verb: 'resents', symmetric: false, color: '#ea580c' },
+  { id: 'fears', label: 'Fears', verb: 'fears', symmetric: false, color: '#9333ea' },
+  { id: 'betrayed', label: 'Betrayed', verb: 'betrayed', symmetric: false, color: '#991b1b' },
+  { id: 'protects', label: 'Protects', verb: 'protects', symmetric: false, color: '#0d9488' }
+]
+
+const UNKNOWN_TYPE_COLOR = '#6b7280'
+
+// Types stored before the catalog existed are free text; they show as-is
+export function relationshipType(id: string): RelationshipType {
+  const normalized = id.trim().toLowerCase()
+  return RELATIONSHIP_TYPES.find(type => type.id === normalized) || {
+    id: normalized,
+    label: id.trim() || 'Related',
+    verb: `is ${normalized || 'related'} to`,
+    symmetric: true,
+    color: UNKNOWN_TYPE_COLOR
+  }
+}
+
+/**
+ * A relationship's type, strength and description as of the given chapter,
+ * applying its changes in story order. chapterOrder maps chapter ids to
+ * their position; a null position means the end of the story.
+ */
+export function relationshipAt(
+  relationship: CharacterRelationship,
+  chapterOrder: Map<string, number>,
+  position: number | null
+): RelationshipState {
+  const reached = (chapterId: string) => {
+    const order = chapterOrder.get(chapterId)
+    return order !== undefined && (position === null || order <= position)
+  }
+
+  const state: RelationshipState = {
+    type: relationship.type,
+    strength: relationship.strength,
+    description: relationship.description,
+    active: !relationship.introducedChapterId || reached(relationship.introducedChapterId)
+  }
+
+  relationship.changes
+    .filter(change => reached(change.chapterId))
+    .sort((a, b) => (chapterOrder.get(a.chapterId) || 0) - (chapterOrder.get(b.chapterId) || 0))
+    .forEach(change => {
+      if (change.type) state.type = change.type
+      if (change.strength !== null) state.strength = change.strength
+      if (change.description !== null) state.description = change.description
+      state.active = !change.ended
+    })
+
+  return state
+}
+
+/**
+ * Force-directed positions for the given nodes inside a width × height box
+ * (Fruchterman-Reingold). Stronger edges pull their ends closer. Nodes
+ * start on a circle in the order given, so the same graph always settles
+ * the same way; `fixed` positions are kept as they are.
+ */
+export function forceLayout(
+  nodeIds: string[],
+  edges: GraphEdge[],
+  width: number,
+  height: number,
+  fixed: Record<string, Point> = {},
+  iterations = 300
+): Record<string, Point> {
+  const positions: Record<string, Point> = {}
+  const count = nodeIds.length
+  if (count === 0) return positions
+
+  const center = { x: width / 2, y: height / 2 }
+  const radius = Math.min(width, height) * 0.35
+  nodeIds.forEach((id, index) => {
+    const angle = (2 * Math.PI * index) / count
+    positions[id] = fixed[id] ? { ...fixed[id] } : {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle)
+    }
+  })
+  if (count === 1 && !fixed[nodeIds[0]]) {
+    positions[nodeIds[0]] = center
+    return positions
+  }
+
+  const ideal = Math.sqrt((width * height) / count) * 0.6
+  const known = edges.filter(edge => positions[edge.from] && positions[edge.to] && edge.from !== edge.to)
+  let temperature = Math.min(width, height) / 8
+
+  for (let step = 0; step < iterations; step++) {
+    const shift: Record<string, Point> = {}
+    nodeIds.forEach(id => { shift[id] = { x: 0, y: 0 } })
+
+    // Every pair of nodes pushes apart
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = positions[nodeIds[i]]
+        const b = positions[nodeIds[j]]
+        let dx = a.x - b.x
+        let dy = a.y - b.y
+        let distance = Math.hypot(dx, dy)
+        if (distance < 0.01) {
+          // Nudge coincident nodes apart in a fixed direction
+          dx = 0.01 * (i - j)
+          dy = 0.01
+          distance = Math.hypot(dx, dy)
+        }
+        const force = (ideal * ideal) / distance
+        shift[nodeIds[i]].x += (dx / distance) * force
+        shift[nodeIds[i]].y += (dy / distance) * force
+        shift[nodeIds[j]].x -= (dx / distance) * force
+        shift[nodeIds[j]].y -= (dy / distance) * force
+      }
+    }
+
+    // Edges pull their ends together, strong ones more
+    known.forEach(edge => {
+      const a = positions[edge.from]
+      const b = positions[edge.to]
+      const dx = a.x - b.x
+      const dy = a.y - b.y
+      const distance = Math.max(Math.hypot(dx, dy), 0.01)
+      const force = ((distance * distance) / ideal) * (0.5 + Math.min(Math.max(edge.strength, 1), 10) / 10)
+      shift[edge.from].x -= (dx / distance) * force
+      shift[edge.from].y -= (dy / distance) * force
+      shift[edge.to].x += (dx / distance) * force
+      shift[edge.to].y += (dy / distance) * force
+    })
+
+    // A light pull toward the middle keeps unconnected groups off the edges
+    nodeIds.forEach(id => {
+      shift[id].x += (center.x - positions[id].x) * 1.2
+      shift[id].y += (center.y - positions[id].y) * 1.2
+    })
+
+    nodeIds.forEach(id => {
+      if (fixed[id]) return
+      const { x, y } = shift[id]
+      const length = Math.max(Math.hypot(x, y), 0.01)
+      const move = Math.min(length, temperature)
+      positions[id] = {
+        x: Math.min(width - 40, Math.max(40, positions[id].x + (x / length) * move)),
+        y: Math.min(height - 40, Math.max(40, positions[id].y + (y / length) * move))
+      }
+    })
+
+    temperature = Math.max(temperature * 0.98, 0.5)
+  }
+
+  return positions
+}
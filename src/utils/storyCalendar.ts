@@ -0,0 +1,662 @@
+// In-world calendars and the timeline engine behind the canvas timeline view.
+// Points in time are day numbers: whole days since the first day of year 1,
+// with the time of day as a fraction. Years are counted continuously (year 0
+// is the year before year 1); eras only change how years are displayed.
+
+import type { Node } from 'reactflow'
+
+export interface CalendarMonth {
+  name: string
+  days: number
+}
+
+export interface CalendarEra {
+  name: string
+  abbreviation: string
+  // First year of the era. A backward era (like BC) counts down towards the
+  // era after it and also covers every year before its start.
+  startYear: number
+  backward?: boolean
+}
+
+// A day added to one month in leap years: every `every` years, except every
+// `except` years, unless every `unless` years (the Gregorian 4/100/400 rule)
+export interface LeapRule {
+  month: number
+  every: number
+  except?: number | null
+  unless?: number | null
+}
+
+export interface StoryCalendar {
+  name: string
+  months: CalendarMonth[]
+  weekdays: string[]
+  eras: CalendarEra[]
+  leap?: LeapRule | null
+  // Weekday index of the first day of year 1
+  epochWeekday: number
+  // The story's "now", which characters' ages are given as of
+  present?: string | null
+}
+
+export interface StoryDate {
+  year: number
+  // Zero-based month index
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+export type TimeUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'
+
+export interface RelativeTime {
+  anchor: string
+  // 'same' places the event at the anchor; 'after' and 'before' without an
+  // amount only order it against the anchor
+  direction: 'after' | 'before' | 'same'
+  amount: number | null
+  unit: TimeUnit | null
+}
+
+export interface TimelineEventInput {
+  id: string
+  title: string
+  absoluteTime?: string
+  relativeTime?: string
+  duration?: string
+  order?: number
+}
+
+// Timeline nodes on the canvas as inputs for resolveTimeline
+export function timelineEventsFromNodes(nodes: Node[]): TimelineEventInput[] {
+  return nodes
+    .filter(node => node.type === 'timeline')
+    .map(node => ({
+      id: node.id,
+      title: node.data?.title || node.data?.name || 'Untitled event',
+      absoluteTime: node.data?.absoluteTime,
+      relativeTime: node.data?.relativeTime,
+      duration: node.data?.duration,
+      order: node.data?.order
+    }))
+}
+
+export type TimelineIssueKind = 'unparsed' | 'missing_anchor' | 'cycle' | 'unresolved' | 'conflict' | 'order'
+
+export interface TimelineIssue {
+  eventId: string
+  kind: TimelineIssueKind
+  message: string
+}
+
+export interface ResolvedEvent {
+  id: string
+  title: string
+  start: number | null
+  end: number | null
+  source: 'absolute' | 'relative' | null
+  // The event this one was placed relative to
+  anchorId: string | null
+}
+
+export interface ResolvedTimeline {
+  // Placed events in chronological order, then the ones that couldn't be placed
+  events: ResolvedEvent[]
+  issues: TimelineIssue[]
+}
+
+export const GREGORIAN_CALENDAR: StoryCalendar = {
+  name: 'Gregorian',
+  months: [
+    { name: 'January', days: 31 },
+    { name: 'February', days: 28 },
+    { name: 'March', days: 31 },
+    { name: 'April', days: 30 },
+    { name: 'May', days: 31 },
+    { name: 'June', days: 30 },
+    { name: 'July', days: 31 },
+    { name: 'August', days: 31 },
+    { name: 'September', days: 30 },
+    { name: 'October', days: 31 },
+    { name: 'November', days: 30 },
+    { name: 'December', days: 31 }
+  ],
+  weekdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  eras: [
+    { name: 'Before Christ', abbreviation: 'BC', startYear: 0, backward: true },
+    { name: 'Anno Domini', abbreviation: 'AD', startYear: 1 }
+  ],
+  leap: { month: 1, every: 4, except: 100, unless: 400 },
+  epochWeekday: 0,
+  present: null
+}
+
+// A starting point for invented calendars
+export const SIMPLE_FANTASY_CALENDAR: StoryCalendar = {
+  name: 'Twelve moons',
+  months: [
+    'Deepwinter', 'Thawing', 'Seedtime', 'Rains', 'Blossom', 'Highsun',
+    'Midsummer', 'Harvest', 'Leaffall', 'Mists', 'Frostfall', 'Longnight'
+  ].map(name => ({ name, days: 30 })),
+  weekdays: ['Firstday', 'Seconday', 'Thirdday', 'Fourthday', 'Fifthday', 'Restday'],
+  eras: [{ name: 'After the Founding', abbreviation: 'AF', startYear: 1 }],
+  leap: null,
+  epochWeekday: 0,
+  present: null
+}
+
+export const CALENDAR_PRESETS: StoryCalendar[] = [GREGORIAN_CALENDAR, SIMPLE_FANTASY_CALENDAR]
+
+const MINUTES_PER_DAY = 24 * 60
+
+const mod = (value: number, divisor: number) => ((value % divisor) + divisor) % divisor
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ')
+
+// Leap years in 1..n, or minus the leap years in n+1..0 when n is negative
+function leapYearsThrough(calendar: StoryCalendar, n: number): number {
+  const rule = calendar.leap
+  if (!rule || rule.every <= 0) return 0
+  let count = Math.floor(n / rule.every)
+  if (rule.except) count -= Math.floor(n / rule.except)
+  if (rule.except && rule.unless) count += Math.floor(n / rule.unless)
+  return count
+}
+
+export function isLeapYear(calendar: StoryCalendar, year: number): boolean {
+  const rule = calendar.leap
+  if (!rule || rule.every <= 0 || mod(year, rule.every) !== 0) return false
+  if (rule.except && mod(year, rule.except) === 0) {
+    return !!rule.unless && mod(year, rule.unless) === 0
+  }
+  return true
+}
+
+export function monthLength(calendar: StoryCalendar, year: number, month: number): number {
+  const leapDay = calendar.leap && calendar.leap.month === month && isLeapYear(calendar, year) ? 1 : 0
+  return calendar.months[month].days + leapDay
+}
+
+const baseYearLength = (calendar: StoryCalendar) =>
+  calendar.months.reduce((sum, month) => sum + month.days, 0)
+
+export function yearLength(calendar: StoryCalendar, year: number): number {
+  return baseYearLength(calendar) + (isLeapYear(calendar, year) ? 1 : 0)
+}
+
+// Average length of a year, for scales and fractional amounts
+export function averageYearLength(calendar: StoryCalendar): number {
+  const rule = calendar.leap
+  if (!rule || rule.every <= 0) return baseYearLength(calendar)
+  const cycle = rule.except && rule.unless ? rule.unless : rule.except || rule.every
+  return baseYearLength(calendar) + leapYearsThrough(calendar, cycle) / cycle
+}
+
+const yearStart = (calendar: StoryCalendar, year: number) =>
+  (year - 1) * baseYearLength(calendar) + leapYearsThrough(calendar, year - 1)
+
+export function toDayNumber(calendar: StoryCalendar, date: StoryDate): number {
+  let days = yearStart(calendar, date.year)
+  for (let month = 0; month < date.month; month++) days += monthLength(calendar, date.year, month)
+  return days + date.day - 1 + (date.hour * 60 + date.minute) / MINUTES_PER_DAY
+}
+
+export function fromDayNumber(calendar: StoryCalendar, dayNumber: number): StoryDate {
+  const whole = Math.floor(dayNumber)
+  let year = Math.floor(whole / averageYearLength(calendar)) + 1
+  while (yearStart(calendar, year) > whole) year--
+  while (yearStart(calendar, year + 1) <= whole) year++
+
+  let remaining = whole - yearStart(calendar, year)
+  let month = 0
+  while (month < calendar.months.length - 1 && remaining >= monthLength(calendar, year, month)) {
+    remaining -= monthLength(calendar, year, month)
+    month++
+  }
+
+  const minutes = Math.min(MINUTES_PER_DAY - 1, Math.round((dayNumber - whole) * MINUTES_PER_DAY))
+  return { year, month, day: remaining + 1, hour: Math.floor(minutes / 60), minute: minutes % 60 }
+}
+
+export function weekdayOf(calendar: StoryCalendar, dayNumber: number): string | null {
+  if (calendar.weekdays.length === 0) return null
+  return calendar.weekdays[mod(calendar.epochWeekday + Math.floor(dayNumber), calendar.weekdays.length)]
+}
+
+function eraFor(calendar: StoryCalendar, year: number): { era: CalendarEra; next: CalendarEra | null } | null {
+  const eras = [...calendar.eras].sort((a, b) => a.startYear - b.startYear)
+  if (eras.length === 0) return null
+  let index = 0
+  eras.forEach((era, i) => {
+    if (era.startYear <= year) index = i
+  })
+  return { era: eras[index], next: eras[index + 1] || null }
+}
+
+// The year as written in its era, e.g. year 0 of the Gregorian calendar is 1 BC
+export function displayYear(calendar: StoryCalendar, year: number): { year: number; era: CalendarEra | null } {
+  const found = eraFor(calendar, year)
+  if (!found) return { year, era: null }
+  const { era, next } = found
+  if (era.backward) return { year: (next ? next.startYear : era.startYear + 1) - year, era }
+  return { year: year - era.startYear + 1, era }
+}
+
+function yearInEra(calendar: StoryCalendar, year: number, eraText: string): number | null {
+  const eras = [...calendar.eras].sort((a, b) => a.startYear - b.startYear)
+  const key = normalize(eraText).replace(/\./g, '')
+  const index = eras.findIndex(era =>
+    normalize(era.abbreviation).replace(/\./g, '') === key || normalize(era.name) === key
+  )
+  if (index === -1) return null
+  const era = eras[index]
+  if (era.backward) return (eras[index + 1] ? eras[index + 1].startYear : era.startYear + 1) - year
+  return era.startYear + year - 1
+}
+
+export function formatYear(calendar: StoryCalendar, year: number): string {
+  const shown = displayYear(calendar, year)
+  return shown.era ? `${shown.year} ${shown.era.abbreviation}` : String(shown.year)
+}
+
+export function formatStoryDate(
+  calendar: StoryCalendar,
+  dayNumber: number,
+  options: { weekday?: boolean; time?: boolean } = {}
+): string {
+  const date = fromDayNumber(calendar, dayNumber)
+  let text = `${date.day} ${calendar.months[date.month].name} ${formatYear(calendar, date.year)}`
+  const weekday = options.weekday ? weekdayOf(calendar, dayNumber) : null
+  if (weekday) text = `${weekday}, ${text}`
+  if (options.time && (date.hour || date.minute)) {
+    text += `, ${String(date.hour).padStart(2, '0')}:${String(date.minute).padStart(2, '0')}`
+  }
+  return text
+}
+
+function buildDate(
+  calendar: StoryCalendar,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0
+): number | null {
+  if (month < 0 || month >= calendar.months.length) return null
+  if (day < 1 || day > monthLength(calendar, year, month)) return null
+  if (hour > 23 || minute > 59) return null
+  return toDayNumber(calendar, { year, month, day, hour, minute })
+}
+
+function findMonth(calendar: StoryCalendar, text: string): number {
+  const key = normalize(text)
+  const exact = calendar.months.findIndex(month => normalize(month.name) === key)
+  if (exact !== -1) return exact
+  // Abbreviations such as "Jan" or "Frost"
+  return key.length >= 3 ? calendar.months.findIndex(month => normalize(month.name).startsWith(key)) : -1
+}
+
+/**
+ * Read a date in the calendar. Accepts numeric dates ("1042-3-15", with an
+ * optional time; ISO timestamps work for the Gregorian calendar), written
+ * dates ("15 Frostfall 1042 AF", "Frostfall 15, 1042"), a month and year, or
+ * just a year. Years without an era count from year 1. Returns null when the
+ * text isn't a valid date.
+ */
+export function parseStoryDate(calendar: StoryCalendar, text: string): number | null {
+  const value = text.trim()
+  if (!value) return null
+
+  const withEra = (year: number, eraText?: string) =>
+    eraText ? yearInEra(calendar, year, eraText) : year
+
+  const numeric = value.match(
+    /^(-?\d+)-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?(?:\s+(.+))?$/i
+  )
+  if (numeric) {
+    const year = withEra(Number(numeric[1]), numeric[6])
+    if (year === null) return null
+    return buildDate(calendar, year, Number(numeric[2]) - 1, Number(numeric[3]), Number(numeric[4] || 0), Number(numeric[5] || 0))
+  }
+
+  const dayFirst = value.match(/^(\d{1,3})(?:st|nd|rd|th)?(?: of)? ([^\d,]+?),? (-?\d+)(?: (.+))?$/i)
+  if (dayFirst) {
+    const month = findMonth(calendar, dayFirst[2])
+    const year = withEra(Number(dayFirst[3]), dayFirst[4])
+    if (month === -1 || year === null) return null
+    return buildDate(calendar, year, month, Number(dayFirst[1]))
+  }
+
+  const monthFirst = value.match(/^([^\d,]+?) (\d{1,3})(?:st|nd|rd|th)?, (-?\d+)(?: (.+))?$/i)
+  if (monthFirst) {
+    const month = findMonth(calendar, monthFirst[1])
+    const year = withEra(Number(monthFirst[3]), monthFirst[4])
+    if (month === -1 || year === null) return null
+    return buildDate(calendar, year, month, Number(monthFirst[2]))
+  }
+
+  const monthYear = value.match(/^([^\d,]+?),? (-?\d+)(?: (.+))?$/i)
+  if (monthYear) {
+    const month = findMonth(calendar, monthYear[1])
+    const year = withEra(Number(monthYear[2]), monthYear[3])
+    if (month === -1 || year === null) return null
+    return buildDate(calendar, year, month, 1)
+  }
+
+  const yearOnly = value.match(/^(?:year )?(-?\d+)(?: (.+))?$/i)
+  if (yearOnly) {
+    const year = withEra(Number(yearOnly[1]), yearOnly[2])
+    return year === null ? null : buildDate(calendar, year, 0, 1)
+  }
+
+  return null
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, twenty: 20, thirty: 30, hundred: 100
+}
+
+const UNIT_PATTERN = '(minute|hour|day|week|month|year|decade|century|centurie)s?'
+
+function readAmount(text: string): number | null {
+  const key = text.toLowerCase()
+  if (key in NUMBER_WORDS) return NUMBER_WORDS[key]
+  const value = Number(key)
+  return Number.isFinite(value) ? value : null
+}
+
+function readUnit(text: string): { unit: TimeUnit; factor: number } {
+  const key = text.toLowerCase()
+  if (key === 'decade') return { unit: 'year', factor: 10 }
+  if (key === 'century' || key === 'centurie') return { unit: 'year', factor: 100 }
+  return { unit: key as TimeUnit, factor: 1 }
+}
+
+/**
+ * Read a relative time such as "3 days after the coronation", "two years
+ * before Mira's birth", "the day after X", "same day as X" or just "after X".
+ * The anchor is another event's title.
+ */
+export function parseRelativeTime(text: string): RelativeTime | null {
+  const value = text.trim().replace(/\.$/, '')
+  if (!value) return null
+
+  const same = value.match(/^(?:on |at )?(?:the )?(?:same (?:day|time) as|same time as|simultaneous(?:ly)? with|during|at|when) (.+)$/i)
+  if (same) return { anchor: same[1], direction: 'same', amount: null, unit: null }
+
+  const offset = value.match(new RegExp(
+    `^(?:the )?(?:(\\d+(?:\\.\\d+)?|[a-z]+) )?${UNIT_PATTERN} (after|later than|following|before|earlier than|prior to) (.+)$`,
+    'i'
+  ))
+  if (offset) {
+    const amount = offset[1] ? readAmount(offset[1]) : 1
+    const { unit, factor } = readUnit(offset[2])
+    const direction = /^(after|later than|following)$/i.test(offset[3]) ? 'after' : 'before'
+    // "Several days after X" still orders the event
+    if (amount === null) return { anchor: offset[4], direction, amount: null, unit: null }
+    return { anchor: offset[4], direction, amount: amount * factor, unit }
+  }
+
+  const ordering = value.match(/^(?:some ?time |sometime |shortly |long |just )?(after|later than|following|before|earlier than|prior to) (.+)$/i)
+  if (ordering) {
+    const direction = /^(after|later than|following)$/i.test(ordering[1]) ? 'after' : 'before'
+    return { anchor: ordering[2], direction, amount: null, unit: null }
+  }
+
+  return null
+}
+
+/**
+ * Move a point in time by an amount. Months and years follow the calendar
+ * (the day is kept, or clamped to the end of a shorter month); fractional
+ * months and years use average lengths.
+ */
+export function addTime(calendar: StoryCalendar, dayNumber: number, amount: number, unit: TimeUnit): number {
+  switch (unit) {
+    case 'minute':
+      return dayNumber + amount / MINUTES_PER_DAY
+    case 'hour':
+      return dayNumber + amount / 24
+    case 'day':
+      return dayNumber + amount
+    case 'week':
+      return dayNumber + amount * (calendar.weekdays.length || 7)
+    case 'month':
+    case 'year': {
+      if (!Number.isInteger(amount)) return dayNumber + amount * unitLength(calendar, unit)
+      const date = fromDayNumber(calendar, dayNumber)
+      const months = unit === 'month' ? amount : amount * calendar.months.length
+      const total = date.month + months
+      const year = date.year + Math.floor(total / calendar.months.length)
+      const month = mod(total, calendar.months.length)
+      const day = Math.min(date.day, monthLength(calendar, year, month))
+      return toDayNumber(calendar, { ...date, year, month, day })
+    }
+  }
+}
+
+function unitLength(calendar: StoryCalendar, unit: TimeUnit): number {
+  switch (unit) {
+    case 'minute':
+      return 1 / MINUTES_PER_DAY
+    case 'hour':
+      return 1 / 24
+    case 'day':
+      return 1
+    case 'week':
+      return calendar.weekdays.length || 7
+    case 'month':
+      return averageYearLength(calendar) / calendar.months.length
+    case 'year':
+      return averageYearLength(calendar)
+  }
+}
+
+// Length of a duration such as "3 days" or "2 weeks and 4 days", in days.
+// Months and years are average lengths.
+export function parseDuration(calendar: StoryCalendar, text: string): number | null {
+  const parts = text.trim().toLowerCase().split(/\s*(?:,|\band\b)\s*/).filter(Boolean)
+  if (parts.length === 0) return null
+
+  let days = 0
+  for (const part of parts) {
+    const match = part.match(new RegExp(`^(?:(\\d+(?:\\.\\d+)?|[a-z]+) )?${UNIT_PATTERN}$`))
+    if (!match) return null
+    const amount = match[1] ? readAmount(match[1]) : 1
+    if (amount === null) return null
+    const { unit, factor } = readUnit(match[2])
+    days += amount * factor * unitLength(calendar, unit)
+  }
+  return days
+}
+
+const anchorKey = (title: string) =>
+  normalize(title.trim().replace(/^["'“‘]|["'”’]$/g, '')).replace(/^the /, '')
+
+const sameMinute = (a: number, b: number) => Math.abs(a - b) < 0.5 / MINUTES_PER_DAY
+
+/**
+ * Place events on the calendar. Absolute dates are used as given; relative
+ * times are resolved through their anchors. Reports dates that can't be read,
+ * anchors that don't exist, chains of relative times that loop back on
+ * themselves, events that are only ordered (never dated), absolute dates that
+ * contradict the event's relative time, and explicit orders that contradict
+ * the dates.
+ */
+export function resolveTimeline(calendar: StoryCalendar, inputs: TimelineEventInput[]): ResolvedTimeline {
+  const issues: TimelineIssue[] = []
+  const byId = new Map(inputs.map(input => [input.id, input]))
+  const byTitle = new Map<string, TimelineEventInput>()
+  inputs.forEach(input => {
+    const key = anchorKey(input.title)
+    if (key && !byTitle.has(key)) byTitle.set(key, input)
+  })
+
+  const absolute = new Map<string, number>()
+  const relative = new Map<string, { time: RelativeTime; anchor: TimelineEventInput }>()
+
+  inputs.forEach(input => {
+    if (input.absoluteTime?.trim()) {
+      const parsed = parseStoryDate(calendar, input.absoluteTime)
+      if (parsed === null) {
+        issues.push({ eventId: input.id, kind: 'unparsed', message: `Couldn't read the date "${input.absoluteTime}"` })
+      } else {
+        absolute.set(input.id, parsed)
+      }
+    }
+
+    if (input.relativeTime?.trim()) {
+      const time = parseRelativeTime(input.relativeTime)
+      if (!time) {
+        issues.push({ eventId: input.id, kind: 'unparsed', message: `Couldn't read the relative time "${input.relativeTime}"` })
+        return
+      }
+      const anchor = byId.get(time.anchor) || byTitle.get(anchorKey(time.anchor))
+      if (!anchor) {
+        issues.push({ eventId: input.id, kind: 'missing_anchor', message: `No event called "${time.anchor}"` })
+      } else if (anchor.id === input.id) {
+        issues.push({ eventId: input.id, kind: 'cycle', message: 'Is placed relative to itself' })
+      } else {
+        relative.set(input.id, { time, anchor })
+      }
+    }
+  })
+
+  // Relative times only place events that have no absolute date of their own
+  const starts = new Map<string, number | null>()
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: string[] = []
+
+  const resolve = (id: string): number | null => {
+    if (state.get(id) === 'done') return starts.get(id) ?? null
+    if (state.get(id) === 'visiting') {
+      const loop = stack.slice(stack.indexOf(id))
+      const names = loop.map(item => byId.get(item)?.title || item)
+      loop.forEach(item => {
+        issues.push({ eventId: item, kind: 'cycle', message: `Relative times loop: ${[...names, names[0]].join(' → ')}` })
+        starts.set(item, null)
+        state.set(item, 'done')
+      })
+      return null
+    }
+
+    state.set(id, 'visiting')
+    stack.push(id)
+
+    let start: number | null = absolute.get(id) ?? null
+    const link = relative.get(id)
+    if (start === null && link) {
+      const anchorStart = resolve(link.anchor.id)
+      if (state.get(id) === 'done') {
+        // Part of a loop found further down the chain
+        stack.pop()
+        return null
+      }
+      if (anchorStart === null) {
+        issues.push({ eventId: id, kind: 'unresolved', message: `"${link.anchor.title}" isn't on the timeline yet` })
+      } else {
+        const { time } = link
+        if (time.direction === 'same') {
+          start = anchorStart
+        } else if (time.amount !== null && time.unit) {
+          start = addTime(calendar, anchorStart, time.direction === 'after' ? time.amount : -time.amount, time.unit)
+        } else {
+          issues.push({
+            eventId: id,
+            kind: 'unresolved',
+            message: `Only known to be ${time.direction} "${link.anchor.title}"; give it a date or an amount of time`
+          })
+        }
+      }
+    }
+
+    stack.pop()
+    starts.set(id, start)
+    state.set(id, 'done')
+    return start
+  }
+
+  inputs.forEach(input => resolve(input.id))
+
+  // Events with both kinds of time must agree
+  relative.forEach(({ time, anchor }, id) => {
+    const own = absolute.get(id)
+    const anchorStart = starts.get(anchor.id)
+    if (own === undefined || anchorStart === null || anchorStart === undefined) return
+
+    let consistent = true
+    if (time.direction === 'same') {
+      consistent = Math.floor(own) === Math.floor(anchorStart)
+    } else if (time.amount !== null && time.unit) {
+      consistent = sameMinute(own, addTime(calendar, anchorStart, time.direction === 'after' ? time.amount : -time.amount, time.unit))
+    } else {
+      consistent = time.direction === 'after' ? own > anchorStart : own < anchorStart
+    }
+
+    if (!consistent) {
+      issues.push({
+        eventId: id,
+        kind: 'conflict',
+        message: `Its date (${formatStoryDate(calendar, own)}) doesn't fit "${byId.get(id)?.relativeTime?.trim()}"`
+      })
+    }
+  })
+
+  const events: ResolvedEvent[] = inputs.map(input => {
+    const start = starts.get(input.id) ?? null
+    let end: number | null = null
+    if (start !== null && input.duration?.trim()) {
+      const length = parseDuration(calendar, input.duration)
+      if (length === null) {
+        issues.push({ eventId: input.id, kind: 'unparsed', message: `Couldn't read the duration "${input.duration}"` })
+      } else {
+        end = start + length
+      }
+    }
+
+    return {
+      id: input.id,
+      title: input.title,
+      start,
+      end,
+      source: start === null ? null : absolute.has(input.id) ? 'absolute' : 'relative',
+      anchorId: start !== null && !absolute.has(input.id) ? relative.get(input.id)?.anchor.id ?? null : null
+    }
+  })
+
+  // An explicit story order should match the chronology
+  const ordered = events.filter(event => event.start !== null && byId.get(event.id)?.order)
+  ordered.forEach(event => {
+    const order = byId.get(event.id)?.order || 0
+    const earlier = ordered.find(other =>
+      (byId.get(other.id)?.order || 0) < order && (other.start as number) > (event.start as number)
+    )
+    if (earlier) {
+      issues.push({ eventId: event.id, kind: 'order', message: `Ordered after "${earlier.title}" but dated before it` })
+    }
+  })
+
+  events.sort((a, b) => {
+    if (a.start === null || b.start === null) return a.start === null ? (b.start === null ? 0 : 1) : -1
+    return a.start - b.start || (byId.get(a.id)?.order || 0) - (byId.get(b.id)?.order || 0)
+  })
+
+  return { events, issues }
+}
+
+/**
+ * A character's age at a point in time, given their age at another point.
+ * Birthdays are unknown, so a year is counted on each anniversary of the
+ * reference date. Negative ages mean the character isn't born yet.
+ */
+export function ageAt(calendar: StoryCalendar, age: number, asOf: number, at: number): number {
+  const from = fromDayNumber(calendar, asOf)
+  const to = fromDayNumber(calendar, at)
+  // Compare positions within the year by month and day, so leap days don't shift anniversaries
+  const position = (date: StoryDate) => date.month * 100 + date.day
+
+  return age + to.year - from.year - (position(to) < position(from) ? 1 : 0)
+}
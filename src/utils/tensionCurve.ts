@@ -0,0 +1,150 @@
+// Tension curves derived from plot events. Each thread's curve has one value
+// per chapter in manuscript order: the highest tension among the thread's
+// events in that chapter, interpolated across chapters the thread skips.
+
+import type { PlotEvent } from '../types/plot'
+
+export type PacingWarningKind = 'flat' | 'early_climax' | 'no_relief'
+
+export interface PacingWarning {
+  kind: PacingWarningKind
+  message: string
+  // Inclusive chapter index range the warning covers
+  startIndex: number
+  endIndex: number
+}
+
+export const MIN_TENSION = 1
+export const MAX_TENSION = 10
+
+// Chapters in a row whose tension stays within FLAT_SPREAD of each other
+const FLAT_RUN = 4
+const FLAT_SPREAD = 1
+// Tension that counts as high, and how many high chapters in a row need a break
+const HIGH_TENSION = 8
+const HIGH_RUN = 3
+// The peak should come after this share of the book
+const CLIMAX_EARLIEST = 0.6
+
+export function clampTension(value: number): number {
+  return Math.min(MAX_TENSION, Math.max(MIN_TENSION, Math.round(value)))
+}
+
+/**
+ * Highest event tension per chapter, or null where the thread has no event
+ * in the chapter. Events without a chapter, or in a chapter not listed,
+ * are left out.
+ */
+export function eventTensionByChapter(events: PlotEvent[], chapterIds: string[]): Array<number | null> {
+  const position = new Map(chapterIds.map((id, index) => [id, index]))
+  const values: Array<number | null> = chapterIds.map(() => null)
+
+  events.forEach(event => {
+    const index = event.chapter_id ? position.get(event.chapter_id) : undefined
+    if (index === undefined) return
+    const level = clampTension(event.tension_level)
+    values[index] = Math.max(values[index] ?? MIN_TENSION, level)
+  })
+
+  return values
+}
+
+/**
+ * Fill the gaps: linear between known chapters, flat before the first and
+ * after the last. Returns an empty curve when nothing is known.
+ */
+export function interpolateCurve(values: Array<number | null>): number[] {
+  const known = values
+    .map((value, index) => ({ value, index }))
+    .filter((point): point is { value: number; index: number } => point.value !== null)
+  if (known.length === 0) return []
+
+  return values.map((value, index) => {
+    if (value !== null) return value
+    const after = known.find(point => point.index > index)
+    const before = [...known].reverse().find(point => point.index < index)
+    if (!before) return after!.value
+    if (!after) return before.value
+    const t = (index - before.index) / (after.index - before.index)
+    return Math.round((before.value + (after.value - before.value) * t) * 10) / 10
+  })
+}
+
+export function buildTensionCurve(events: PlotEvent[], chapterIds: string[]): number[] {
+  return interpolateCurve(eventTensionByChapter(events, chapterIds))
+}
+
+// The story's overall tension: whichever thread is highest in each chapter
+export function combineCurves(curves: number[][], chapterCount: number): number[] {
+  const filled = curves.filter(curve => curve.length === chapterCount)
+  if (filled.length === 0) return []
+  return Array.from({ length: chapterCount }, (_, index) => Math.max(...filled.map(curve => curve[index])))
+}
+
+export function curvesEqual(a: number[] | undefined, b: number[]): boolean {
+  return !!a && a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+const chapterRange = (start: number, end: number) =>
+  start === end ? `chapter ${start + 1}` : `chapters ${start + 1}–${end + 1}`
+
+/**
+ * Pacing problems in the overall curve: long stretches where tension barely
+ * moves, a peak in the first part of the book, and runs of high tension
+ * with no chapter to breathe. climaxIndex is the chapter of an event marked
+ * as the climax, when there is one; otherwise the curve's peak is used.
+ */
+export function analysePacing(curve: number[], climaxIndex?: number | null): PacingWarning[] {
+  const warnings: PacingWarning[] = []
+  if (curve.length === 0) return warnings
+
+  // Flat stretches, each reported once at its full length
+  let start = 0
+  for (let index = 1; index <= curve.length; index++) {
+    const run = curve.slice(start, index + 1)
+    const flat = index < curve.length && Math.max(...run) - Math.min(...run) <= FLAT_SPREAD
+    if (flat) continue
+    if (index - start >= FLAT_RUN) {
+      warnings.push({
+        kind: 'flat',
+        message: `Tension barely changes across ${chapterRange(start, index - 1)}`,
+        startIndex: start,
+        endIndex: index - 1
+      })
+    }
+    start = Math.max(index - 1, start + 1)
+  }
+
+  // Peak too early
+  if (curve.length >= FLAT_RUN) {
+    const peak = climaxIndex ?? curve.indexOf(Math.max(...curve))
+    if (peak < Math.floor(curve.length * CLIMAX_EARLIEST)) {
+      warnings.push({
+        kind: 'early_climax',
+        message: `The ${climaxIndex !== undefined && climaxIndex !== null ? 'climax' : 'tension peak'} comes in chapter ${peak + 1} of ${curve.length}, leaving little to build towards`,
+        startIndex: peak,
+        endIndex: peak
+      })
+    }
+  }
+
+  // High tension without relief
+  let highStart = -1
+  for (let index = 0; index <= curve.length; index++) {
+    const high = index < curve.length && curve[index] >= HIGH_TENSION
+    if (high && highStart === -1) highStart = index
+    if (!high && highStart !== -1) {
+      if (index - highStart >= HIGH_RUN) {
+        warnings.push({
+          kind: 'no_relief',
+          message: `${index - highStart} high-tension chapters in a row (${chapterRange(highStart, index - 1)}) with no relief`,
+          startIndex: highStart,
+          endIndex: index - 1
+        })
+      }
+      highStart = -1
+    }
+  }
+
+  return warnings
+}
@@ -0,0 +1,97 @@
+// Anchors that pin a comment to a span of chapter text and find it again after
+// the text has been edited. Offsets are plain-text offsets (see textOffsets).
+
+export interface TextAnchor {
+  text: string
+  prefix: string
+  suffix: string
+  start: number
+  end: number
+}
+
+export interface AnchorRange {
+  start: number
+  end: number
+}
+
+const CONTEXT_LENGTH = 32
+const MAX_CANDIDATES = 500
+
+export function createAnchor(fullText: string, start: number, end: number): TextAnchor {
+  const from = Math.max(0, Math.min(start, end))
+  const to = Math.min(fullText.length, Math.max(start, end))
+
+  return {
+    text: fullText.slice(from, to),
+    prefix: fullText.slice(Math.max(0, from - CONTEXT_LENGTH), from),
+    suffix: fullText.slice(to, to + CONTEXT_LENGTH),
+    start: from,
+    end: to
+  }
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++
+  return length
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[length] === b[length]) length++
+  return length
+}
+
+function occurrences(haystack: string, needle: string): number[] {
+  const found: number[] = []
+  if (!needle) return found
+
+  let index = haystack.indexOf(needle)
+  while (index !== -1 && found.length < MAX_CANDIDATES) {
+    found.push(index)
+    index = haystack.indexOf(needle, index + 1)
+  }
+  return found
+}
+
+/**
+ * Find where an anchor's text is now. Among several copies of the quoted text
+ * the one whose surroundings best match the stored context wins, then the one
+ * nearest the old position. If the quote itself was edited, the span between
+ * the surviving prefix and suffix is used. Returns null when the anchor can no
+ * longer be placed.
+ */
+export function resolveAnchor(fullText: string, anchor: TextAnchor): AnchorRange | null {
+  if (fullText.slice(anchor.start, anchor.end) === anchor.text &&
+      fullText.slice(Math.max(0, anchor.start - anchor.prefix.length), anchor.start) === anchor.prefix) {
+    return { start: anchor.start, end: anchor.end }
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null
+  for (const start of occurrences(fullText, anchor.text)) {
+    const end = start + anchor.text.length
+    const score =
+      commonSuffixLength(fullText.slice(Math.max(0, start - anchor.prefix.length), start), anchor.prefix) +
+      commonPrefixLength(fullText.slice(end, end + anchor.suffix.length), anchor.suffix)
+    const distance = Math.abs(start - anchor.start)
+
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, score, distance }
+    }
+  }
+  if (best) return { start: best.start, end: best.start + anchor.text.length }
+
+  // The quoted text changed: look for its old surroundings instead
+  if (anchor.prefix.length < 8 || anchor.suffix.length < 8) return null
+
+  const maxGap = anchor.text.length * 2 + 50
+  for (const prefixStart of occurrences(fullText, anchor.prefix)) {
+    const start = prefixStart + anchor.prefix.length
+    const suffixStart = fullText.indexOf(anchor.suffix, start)
+    if (suffixStart !== -1 && suffixStart - start <= maxGap && suffixStart > start) {
+      return { start, end: suffixStart }
+    }
+  }
+
+  return null
+}
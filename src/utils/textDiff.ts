@@ -0,0 +1,255 @@
+export type DiffOp = 'equal' | 'insert' | 'delete'
+
+export interface WordDiffPart {
+  op: DiffOp
+  text: string
+}
+
+export interface ParagraphBlock {
+  html: string
+  text: string
+}
+
+export interface ParagraphDiff {
+  op: DiffOp | 'modify'
+  // Paragraph from the older version (missing for insertions)
+  before?: ParagraphBlock
+  // Paragraph from the newer version (missing for deletions)
+  after?: ParagraphBlock
+  // Index of `after` in the newer version, or where `before` would be re-inserted
+  afterIndex: number
+  words: WordDiffPart[]
+}
+
+const MAX_WORD_DIFF_CELLS = 4_000_000
+
+// Elements that flow with the text around them rather than starting a block
+const INLINE_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BR', 'CITE', 'CODE', 'DEL', 'EM', 'I', 'IMG', 'INS', 'MARK', 'S', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'U'
+])
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Text node content as innerHTML would write it
+const escapeText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;')
+
+function nodeHtml(node: Node): string {
+  if (node.nodeType === Node.ELEMENT_NODE) return (node as Element).outerHTML
+  if (node.nodeType === Node.TEXT_NODE) return escapeText(node.textContent || '')
+  if (node.nodeType === Node.COMMENT_NODE) return `<!--${node.textContent || ''}-->`
+  return ''
+}
+
+/**
+ * Split chapter HTML into top-level blocks. Every node keeps its markup, so
+ * joining the blocks gives the chapter back whole, empty paragraphs and
+ * line breaks included. Text and inline elements outside any block run
+ * together as one block, and whitespace between blocks stays with the
+ * block before it.
+ */
+export function htmlToParagraphs(html: string): ParagraphBlock[] {
+  if (!html) return []
+
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html')
+  const blocks: ParagraphBlock[] = []
+  let run: { html: string; text: string } | null = null
+
+  const endRun = () => {
+    if (run) blocks.push({ html: run.html, text: normalizeText(run.text) })
+    run = null
+  }
+
+  doc.body.childNodes.forEach(node => {
+    const markup = nodeHtml(node)
+    const text = node.nodeType === Node.COMMENT_NODE ? '' : node.nodeName === 'BR' ? ' ' : node.textContent || ''
+
+    if (node.nodeType === Node.ELEMENT_NODE && !INLINE_TAGS.has((node as Element).tagName)) {
+      endRun()
+      // Scene breaks have no text but are still meaningful structure
+      blocks.push({ html: markup, text: normalizeText(text) || ((node as Element).tagName === 'HR' ? '* * *' : '') })
+    } else if (!run && node.nodeType === Node.TEXT_NODE && !text.trim() && blocks.length > 0) {
+      blocks[blocks.length - 1].html += markup
+    } else {
+      run = run ? { html: run.html + markup, text: run.text + text } : { html: markup, text }
+    }
+  })
+  endRun()
+
+  return blocks
+}
+
+export function paragraphsToHtml(blocks: ParagraphBlock[]): string {
+  return blocks.map(block => block.html).join('')
+}
+
+// Longest common subsequence over two token lists, returned as aligned operations
+export function alignSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<{ op: DiffOp; a?: number; b?: number }> {
+  const n = a.length
+  const m = b.length
+  const table: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const result: Array<{ op: DiffOp; a?: number; b?: number }> = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (equals(a[i], b[j])) {
+      result.push({ op: 'equal', a: i++, b: j++ })
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      result.push({ op: 'delete', a: i++ })
+    } else {
+      result.push({ op: 'insert', b: j++ })
+    }
+  }
+  while (i < n) result.push({ op: 'delete', a: i++ })
+  while (j < m) result.push({ op: 'insert', b: j++ })
+
+  return result
+}
+
+/**
+ * Word-level diff between two strings. Whitespace is kept attached to the
+ * preceding word so the parts can be rendered back-to-back.
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const tokenize = (text: string) => text.match(/\S+\s*/g) || []
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const parts: WordDiffPart[] = []
+
+  // Very long unbroken paragraphs would make the LCS table too large to be worth it
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    if (before) parts.push({ op: 'delete', text: before })
+    if (after) parts.push({ op: 'insert', text: after })
+    return parts
+  }
+
+  for (const step of alignSequences(a, b, (x, y) => x.trim() === y.trim())) {
+    const text = step.op === 'insert' ? b[step.b!] : a[step.a!]
+    const last = parts[parts.length - 1]
+    if (last && last.op === step.op) {
+      last.text += text
+    } else {
+      parts.push({ op: step.op, text })
+    }
+  }
+
+  return parts
+}
+
+/**
+ * Paragraph-aligned diff between two versions of a chapter. Unmatched
+ * paragraphs that sit in the same gap are paired up as modifications and
+ * get a word-level diff; the rest are plain insertions or deletions.
+ */
+export function diffParagraphs(beforeHtml: string, afterHtml: string): ParagraphDiff[] {
+  const before = htmlToParagraphs(beforeHtml)
+  const after = htmlToParagraphs(afterHtml)
+  const steps = alignSequences(before, after, (x, y) => x.text === y.text)
+  const diffs: ParagraphDiff[] = []
+
+  let deleted: number[] = []
+  let inserted: number[] = []
+  let afterPosition = 0
+
+  const flushGap = () => {
+    const paired = Math.min(deleted.length, inserted.length)
+    for (let k = 0; k < paired; k++) {
+      diffs.push({
+        op: 'modify',
+        before: before[deleted[k]],
+        after: after[inserted[k]],
+        afterIndex: inserted[k],
+        words: diffWords(before[deleted[k]].text, after[inserted[k]].text)
+      })
+    }
+    for (const index of deleted.slice(paired)) {
+      diffs.push({
+        op: 'delete',
+        before: before[index],
+        // Re-insert after any paragraphs in this gap that were paired as modifications
+        afterIndex: afterPosition + paired,
+        words: [{ op: 'delete', text: before[index].text }]
+      })
+    }
+    for (const index of inserted.slice(paired)) {
+      diffs.push({
+        op: 'insert',
+        after: after[index],
+        afterIndex: index,
+        words: [{ op: 'insert', text: after[index].text }]
+      })
+    }
+    deleted = []
+    inserted = []
+  }
+
+  for (const step of steps) {
+    if (step.op === 'equal') {
+      flushGap()
+      diffs.push({
+        op: 'equal',
+        before: before[step.a!],
+        after: after[step.b!],
+        afterIndex: step.b!,
+        words: [{ op: 'equal', text: after[step.b!].text }]
+      })
+      afterPosition = step.b! + 1
+    } else if (step.op === 'delete') {
+      deleted.push(step.a!)
+    } else {
+      inserted.push(step.b!)
+    }
+  }
+  flushGap()
+
+  return diffs
+}
+
+/**
+ * Apply a single paragraph change from the older version onto the newer
+ * version's HTML: modified paragraphs are reverted, deleted paragraphs are
+ * re-inserted and inserted paragraphs are removed.
+ */
+export function cherryPickParagraph(afterHtml: string, diff: ParagraphDiff): string {
+  const blocks = htmlToParagraphs(afterHtml)
+
+  switch (diff.op) {
+    case 'modify':
+      if (diff.before) blocks.splice(diff.afterIndex, 1, diff.before)
+      break
+    case 'delete':
+      if (diff.before) blocks.splice(diff.afterIndex, 0, diff.before)
+      break
+    case 'insert':
+      blocks.splice(diff.afterIndex, 1)
+      break
+    default:
+      break
+  }
+
+  return paragraphsToHtml(blocks)
+}
+
+export function summarizeDiff(diffs: ParagraphDiff[]): { added: number; removed: number } {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+  let added = 0
+  let removed = 0
+
+  diffs.forEach(diff => {
+    diff.words.forEach(part => {
+      if (part.op === 'insert') added += countWords(part.text)
+      if (part.op === 'delete') removed += countWords(part.text)
+    })
+  })
+
+  return { added, removed }
+}
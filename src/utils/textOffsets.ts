@@ -0,0 +1,94 @@
+// Helpers for addressing positions in a contentEditable element by plain-text
+// offset, so selections survive the element's HTML being replaced.
+
+export interface TextSelection {
+  anchor: number
+  head: number
+}
+
+function textNodes(root: Node): Text[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const nodes: Text[] = []
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text)
+  return nodes
+}
+
+function offsetOf(root: Node, node: Node, offset: number): number {
+  const range = document.createRange()
+  range.selectNodeContents(root)
+  range.setEnd(node, offset)
+  return range.toString().length
+}
+
+// Resolve a plain-text offset to a DOM position inside root
+function positionAt(root: Node, offset: number): { node: Node; offset: number } {
+  let remaining = Math.max(0, offset)
+  const nodes = textNodes(root)
+
+  for (const node of nodes) {
+    const length = node.data.length
+    if (remaining <= length) return { node, offset: remaining }
+    remaining -= length
+  }
+
+  const last = nodes[nodes.length - 1]
+  return last ? { node: last, offset: last.data.length } : { node: root, offset: root.childNodes.length }
+}
+
+export function getSelectionOffsets(root: HTMLElement): TextSelection | null {
+  const selection = window.getSelection()
+  if (!selection || !selection.anchorNode || !selection.focusNode) return null
+  if (!root.contains(selection.anchorNode) || !root.contains(selection.focusNode)) return null
+
+  return {
+    anchor: offsetOf(root, selection.anchorNode, selection.anchorOffset),
+    head: offsetOf(root, selection.focusNode, selection.focusOffset)
+  }
+}
+
+export function getRangeOffsets(root: HTMLElement, range: Range): { start: number; end: number } {
+  return {
+    start: offsetOf(root, range.startContainer, range.startOffset),
+    end: offsetOf(root, range.endContainer, range.endOffset)
+  }
+}
+
+export function setSelectionOffsets(root: HTMLElement, { anchor, head }: TextSelection): void {
+  const selection = window.getSelection()
+  if (!selection) return
+
+  const start = positionAt(root, anchor)
+  const end = positionAt(root, head)
+  selection.setBaseAndExtent(start.node, start.offset, end.node, end.offset)
+}
+
+/**
+ * Client rects covering the text between two offsets. A collapsed range
+ * returns a single zero-width rect for drawing a caret.
+ */
+export function getRectsForOffsets(root: HTMLElement, from: number, to: number): DOMRect[] {
+  const start = positionAt(root, Math.min(from, to))
+  const end = positionAt(root, Math.max(from, to))
+  const range = document.createRange()
+  range.setStart(start.node, start.offset)
+  range.setEnd(end.node, end.offset)
+
+  const rects = Array.from(range.getClientRects())
+  if (rects.length > 0) return rects
+
+  const rect = range.getBoundingClientRect()
+  return rect.height > 0 ? [rect] : []
+}
+
+/**
+ * Move a plain-text offset to account for an edit that turned oldText into
+ * newText. Offsets after the changed region shift by the change in length.
+ */
+export function shiftOffset(offset: number, oldText: string, newText: string): number {
+  let start = 0
+  const max = Math.min(oldText.length, newText.length)
+  while (start < max && oldText[start] === newText[start]) start++
+
+  if (offset <= start) return offset
+  return Math.max(start, offset + newText.length - oldText.length)
+}
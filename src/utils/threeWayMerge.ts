@@ -0,0 +1,157 @@
+import { alignSequences, htmlToParagraphs, paragraphsToHtml, ParagraphBlock } from './textDiff'
+
+export interface MergeChunk {
+  conflict: boolean
+  // Resolved paragraphs for clean chunks; empty for conflicts until resolved
+  merged: ParagraphBlock[]
+  base: ParagraphBlock[]
+  local: ParagraphBlock[]
+  server: ParagraphBlock[]
+}
+
+export interface TextMergeResult {
+  clean: boolean
+  chunks: MergeChunk[]
+  // Merged HTML, only set when there were no conflicts
+  html?: string
+}
+
+export interface FieldConflict {
+  field: string
+  base: unknown
+  local: unknown
+  server: unknown
+  // Paragraph-level chunks for rich text fields
+  chunks?: MergeChunk[]
+}
+
+export interface RecordMergeResult {
+  merged: Record<string, unknown>
+  conflicts: FieldConflict[]
+}
+
+const sameBlocks = (a: ParagraphBlock[], b: ParagraphBlock[]) =>
+  a.length === b.length && a.every((block, index) => block.html === b[index].html)
+
+// Map each base index to its matching index in the other version
+function matchIndexes(base: ParagraphBlock[], other: ParagraphBlock[]): Array<number | undefined> {
+  const matches: Array<number | undefined> = new Array(base.length)
+  alignSequences(base, other, (x, y) => x.html === y.html).forEach(step => {
+    if (step.op === 'equal') matches[step.a!] = step.b!
+  })
+  return matches
+}
+
+/**
+ * Paragraph-level diff3 of chapter HTML. Regions changed on only one side
+ * merge cleanly; regions changed differently on both sides become conflicts.
+ */
+export function mergeText(baseHtml: string, localHtml: string, serverHtml: string): TextMergeResult {
+  const base = htmlToParagraphs(baseHtml)
+  const local = htmlToParagraphs(localHtml)
+  const server = htmlToParagraphs(serverHtml)
+  const localMatches = matchIndexes(base, local)
+  const serverMatches = matchIndexes(base, server)
+  const chunks: MergeChunk[] = []
+
+  const pushChunk = (b: ParagraphBlock[], l: ParagraphBlock[], s: ParagraphBlock[]) => {
+    if (b.length === 0 && l.length === 0 && s.length === 0) return
+
+    if (sameBlocks(l, b)) {
+      chunks.push({ conflict: false, merged: s, base: b, local: l, server: s })
+    } else if (sameBlocks(s, b) || sameBlocks(l, s)) {
+      chunks.push({ conflict: false, merged: l, base: b, local: l, server: s })
+    } else {
+      chunks.push({ conflict: true, merged: [], base: b, local: l, server: s })
+    }
+  }
+
+  let i = 0
+  let l = 0
+  let s = 0
+
+  while (i < base.length || l < local.length || s < server.length) {
+    // Stable run: base paragraphs kept in place on both sides
+    let k = 0
+    while (i + k < base.length && localMatches[i + k] === l + k && serverMatches[i + k] === s + k) k++
+
+    if (k > 0) {
+      const stable = base.slice(i, i + k)
+      chunks.push({ conflict: false, merged: stable, base: stable, local: stable, server: stable })
+      i += k
+      l += k
+      s += k
+      continue
+    }
+
+    // Unstable run up to the next base paragraph that both sides still have
+    let j = i
+    while (j < base.length && (localMatches[j] === undefined || serverMatches[j] === undefined)) j++
+
+    if (j === base.length) {
+      pushChunk(base.slice(i), local.slice(l), server.slice(s))
+      break
+    }
+
+    const nextLocal = localMatches[j]!
+    const nextServer = serverMatches[j]!
+    pushChunk(base.slice(i, j), local.slice(l, nextLocal), server.slice(s, nextServer))
+    i = j
+    l = nextLocal
+    s = nextServer
+  }
+
+  const clean = chunks.every(chunk => !chunk.conflict)
+  return {
+    clean,
+    chunks,
+    html: clean ? paragraphsToHtml(chunks.flatMap(chunk => chunk.merged)) : undefined
+  }
+}
+
+/**
+ * Rebuild HTML from merge chunks once every conflict has a resolution
+ */
+export function applyChunkResolutions(chunks: MergeChunk[], resolutions: Record<number, ParagraphBlock[]>): string {
+  return paragraphsToHtml(chunks.flatMap((chunk, index) =>
+    chunk.conflict ? resolutions[index] ?? chunk.local : chunk.merged
+  ))
+}
+
+/**
+ * Field-by-field three-way merge of a database row. Only fields present in
+ * `local` are considered; HTML content fields get a paragraph-level merge.
+ */
+export function mergeRecords(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  richTextFields: string[] = ['content']
+): RecordMergeResult {
+  const merged: Record<string, unknown> = {}
+  const conflicts: FieldConflict[] = []
+  const equal = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+  Object.keys(local).forEach(field => {
+    const baseValue = base[field]
+    const localValue = local[field]
+    const serverValue = server[field]
+
+    if (equal(localValue, serverValue) || equal(serverValue, baseValue)) {
+      merged[field] = localValue
+    } else if (equal(localValue, baseValue)) {
+      merged[field] = serverValue
+    } else if (richTextFields.includes(field) && typeof localValue === 'string' && typeof serverValue === 'string') {
+      const result = mergeText(typeof baseValue === 'string' ? baseValue : '', localValue, serverValue)
+      if (result.clean) {
+        merged[field] = result.html
+      } else {
+        conflicts.push({ field, base: baseValue, local: localValue, server: serverValue, chunks: result.chunks })
+      }
+    } else {
+      conflicts.push({ field, base: baseValue, local: localValue, server: serverValue })
+    }
+  })
+
+  return { merged, conflicts }
+}
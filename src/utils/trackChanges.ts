@@ -0,0 +1,285 @@
+// Suggestion (track-changes) mode for the chapter editor. Proposed insertions
+// and deletions are kept in the chapter HTML as
+// <ins|del data-suggestion-id data-author-id data-author data-created> elements
+// until someone accepts or rejects them.
+
+import { v4 as uuidv4 } from 'uuid'
+import { getRangeOffsets, setSelectionOffsets } from './textOffsets'
+
+export interface SuggestionAuthor {
+  id: string
+  name: string
+}
+
+export interface Suggestion {
+  id: string
+  type: 'insert' | 'delete'
+  text: string
+  authorId: string
+  authorName: string
+  createdAt: Date
+}
+
+const SUGGESTION_SELECTOR = 'ins[data-suggestion-id], del[data-suggestion-id]'
+const DELETION_SELECTOR = 'del[data-suggestion-id]'
+
+// Suggested deletions hold text only, so they never nest
+const DELETION_PATTERN = /<del\b[^>]*\bdata-suggestion-id\b[^>]*>[\s\S]*?<\/del>/gi
+const INSERTION_TAG_PATTERN = /<ins\b[^>]*\bdata-suggestion-id\b[^>]*>|<\/ins>/gi
+
+/**
+ * Chapter HTML as it reads with every pending suggestion accepted: suggested
+ * deletions dropped and suggested insertions unwrapped. Word counts, search,
+ * mentions and export all work on this view.
+ */
+export function acceptedHtml(html: string): string {
+  if (!html || !html.includes('data-suggestion-id')) return html
+  return html.replace(DELETION_PATTERN, '').replace(INSERTION_TAG_PATTERN, '')
+}
+
+// Whether a text node is part of a pending suggested deletion
+export function isSuggestedDeletion(node: Node): boolean {
+  return !!node.parentElement?.closest(DELETION_SELECTOR)
+}
+
+// Plain text of a node with every pending suggestion accepted
+export function acceptedText(node: Node): string {
+  if (!(node instanceof Element) || !node.querySelector(DELETION_SELECTOR)) return node.textContent || ''
+  const copy = node.cloneNode(true) as Element
+  copy.querySelectorAll(DELETION_SELECTOR).forEach(mark => mark.remove())
+  return copy.textContent || ''
+}
+
+function createMark(tag: 'ins' | 'del', author: SuggestionAuthor, suggestionId = uuidv4()): HTMLElement {
+  const mark = document.createElement(tag)
+  mark.className = 'suggestion'
+  mark.dataset.suggestionId = suggestionId
+  mark.dataset.authorId = author.id
+  mark.dataset.author = author.name
+  mark.dataset.created = new Date().toISOString()
+  return mark
+}
+
+function closestMark(node: Node, tag: 'ins' | 'del', root: HTMLElement): HTMLElement | null {
+  const element = node instanceof Element ? node : node.parentElement
+  const mark = element?.closest<HTMLElement>(`${tag}[data-suggestion-id]`)
+  return mark && root.contains(mark) ? mark : null
+}
+
+function isOwnMark(node: Node | null, tag: 'ins' | 'del', author: SuggestionAuthor): node is HTMLElement {
+  return node instanceof HTMLElement &&
+    node.tagName.toLowerCase() === tag &&
+    !!node.dataset.suggestionId &&
+    node.dataset.authorId === author.id
+}
+
+function textNodesIn(range: Range): Text[] {
+  const container = range.commonAncestorContainer
+  if (container.nodeType === Node.TEXT_NODE) return [container as Text]
+
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  const nodes: Text[] = []
+  while (walker.nextNode()) {
+    if (range.intersectsNode(walker.currentNode)) nodes.push(walker.currentNode as Text)
+  }
+  return nodes
+}
+
+function toRange(target: StaticRange): Range {
+  const range = document.createRange()
+  range.setStart(target.startContainer, target.startOffset)
+  range.setEnd(target.endContainer, target.endOffset)
+  return range
+}
+
+// The range an input event will act on, as reported by the browser
+function targetRange(event: InputEvent, selection: Selection): Range | null {
+  const [target] = event.getTargetRanges ? event.getTargetRanges() : []
+  if (target) return toRange(target)
+  return selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null
+}
+
+/**
+ * Mark the text in range as a suggested deletion. The author's own pending
+ * insertions are removed outright instead. Returns the plain-text offset where
+ * the caret should go.
+ */
+function markDeleted(root: HTMLElement, range: Range, author: SuggestionAuthor, backward: boolean): number {
+  const offsets = getRangeOffsets(root, range)
+  let removed = 0
+  // Every element of one deletion shares an id, e.g. across paragraphs
+  let suggestionId: string | undefined
+
+  for (const node of textNodesIn(range)) {
+    const start = node === range.startContainer ? range.startOffset : 0
+    const end = node === range.endContainer ? range.endOffset : node.data.length
+    if (end <= start || closestMark(node, 'del', root)) continue
+
+    if (end < node.data.length) node.splitText(end)
+    const part = start > 0 ? node.splitText(start) : node
+
+    const insertion = closestMark(part, 'ins', root)
+    if (insertion && insertion.dataset.authorId === author.id) {
+      removed += part.data.length
+      part.remove()
+      if (!insertion.textContent) insertion.remove()
+      continue
+    }
+
+    // Extend an adjacent deletion by the same author, so repeated backspaces make one suggestion
+    if (isOwnMark(part.previousSibling, 'del', author)) {
+      suggestionId ??= part.previousSibling.dataset.suggestionId
+      part.previousSibling.appendChild(part)
+    } else if (isOwnMark(part.nextSibling, 'del', author)) {
+      suggestionId ??= part.nextSibling.dataset.suggestionId
+      part.nextSibling.insertBefore(part, part.nextSibling.firstChild)
+    } else {
+      suggestionId ??= uuidv4()
+      const mark = createMark('del', author, suggestionId)
+      part.parentNode?.insertBefore(mark, part)
+      mark.appendChild(part)
+    }
+  }
+
+  return backward ? offsets.start : offsets.end - removed
+}
+
+// Insert text as a suggested insertion at the (collapsed) selection
+function insertSuggested(root: HTMLElement, selection: Selection, text: string, author: SuggestionAuthor): void {
+  const range = selection.getRangeAt(0)
+  range.collapse(true)
+
+  // Never type inside a pending deletion
+  const deletion = closestMark(range.startContainer, 'del', root)
+  if (deletion) range.setStartAfter(deletion)
+
+  // Keep typing into the author's own insertion when the caret is already in one
+  const insertion = closestMark(range.startContainer, 'ins', root)
+  if (insertion?.dataset.authorId === author.id && range.startContainer.nodeType === Node.TEXT_NODE && !text.includes('\n')) {
+    const node = range.startContainer as Text
+    const offset = range.startOffset
+    node.insertData(offset, text)
+    selection.collapse(node, offset + text.length)
+    return
+  }
+
+  const mark = createMark('ins', author)
+  text.split('\n').forEach((line, index) => {
+    if (index > 0) mark.appendChild(document.createElement('br'))
+    if (line) mark.appendChild(document.createTextNode(line))
+  })
+  range.insertNode(mark)
+
+  const last = mark.lastChild
+  if (last && last.nodeType === Node.TEXT_NODE) {
+    selection.collapse(last, (last as Text).data.length)
+  } else {
+    selection.collapse(mark, mark.childNodes.length)
+  }
+}
+
+/**
+ * Handle a native beforeinput event while suggesting. Typing, pasting and
+ * deleting text become suggestions; structural edits such as new paragraphs
+ * are left to the browser. Returns true when the content was changed here.
+ */
+export function handleSuggestionInput(event: InputEvent, root: HTMLElement, author: SuggestionAuthor): boolean {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return false
+  if (!root.contains(selection.getRangeAt(0).commonAncestorContainer)) return false
+
+  // IME composition can't be cancelled; composed text goes in untracked
+  const { inputType } = event
+  if (event.isComposing || inputType === 'insertCompositionText') return false
+
+  if (inputType.startsWith('insert') && inputType !== 'insertParagraph' && inputType !== 'insertLineBreak') {
+    const text = event.data ?? event.dataTransfer?.getData('text/plain') ?? ''
+    if (!text) return false
+    event.preventDefault()
+
+    const target = targetRange(event, selection)
+    if (target && !target.collapsed) {
+      const caret = markDeleted(root, target, author, false)
+      setSelectionOffsets(root, { anchor: caret, head: caret })
+    }
+    insertSuggested(root, selection, text, author)
+    return true
+  }
+
+  if (inputType.startsWith('delete')) {
+    const target = targetRange(event, selection)
+    // Joining paragraphs removes no text; let the browser do it
+    if (!target || target.toString() === '') return false
+    event.preventDefault()
+
+    const caret = markDeleted(root, target, author, inputType.includes('Backward'))
+    setSelectionOffsets(root, { anchor: caret, head: caret })
+    return true
+  }
+
+  return false
+}
+
+/**
+ * Pending suggestions in document order. A deletion spanning paragraphs is
+ * several elements sharing one suggestion id.
+ */
+export function getSuggestions(root: HTMLElement): Suggestion[] {
+  const byId = new Map<string, Suggestion>()
+
+  root.querySelectorAll<HTMLElement>(SUGGESTION_SELECTOR).forEach(mark => {
+    const id = mark.dataset.suggestionId!
+    const existing = byId.get(id)
+    if (existing) {
+      existing.text += mark.textContent || ''
+      return
+    }
+    byId.set(id, {
+      id,
+      type: mark.tagName.toLowerCase() === 'ins' ? 'insert' : 'delete',
+      text: mark.textContent || '',
+      authorId: mark.dataset.authorId || '',
+      authorName: mark.dataset.author || 'Unknown',
+      createdAt: mark.dataset.created ? new Date(mark.dataset.created) : new Date()
+    })
+  })
+
+  return Array.from(byId.values())
+}
+
+function unwrap(element: HTMLElement): void {
+  const parent = element.parentNode
+  if (!parent) return
+  while (element.firstChild) parent.insertBefore(element.firstChild, element)
+  element.remove()
+}
+
+function resolveMarks(root: HTMLElement, marks: HTMLElement[], accept: boolean): void {
+  marks.forEach(mark => {
+    const isInsert = mark.tagName.toLowerCase() === 'ins'
+    if (isInsert === accept) unwrap(mark)
+    else mark.remove()
+  })
+  root.normalize()
+}
+
+function marksFor(root: HTMLElement, id: string): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>(SUGGESTION_SELECTOR))
+    .filter(mark => mark.dataset.suggestionId === id)
+}
+
+export function acceptSuggestion(root: HTMLElement, id: string): void {
+  resolveMarks(root, marksFor(root, id), true)
+}
+
+export function rejectSuggestion(root: HTMLElement, id: string): void {
+  resolveMarks(root, marksFor(root, id), false)
+}
+
+export function acceptAllSuggestions(root: HTMLElement): void {
+  resolveMarks(root, Array.from(root.querySelectorAll<HTMLElement>(SUGGESTION_SELECTOR)), true)
+}
+
+export function rejectAllSuggestions(root: HTMLElement): void {
+  resolveMarks(root, Array.from(root.querySelectorAll<HTMLElement>(SUGGESTION_SELECTOR)), false)
+}
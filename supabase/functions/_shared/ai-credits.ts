@@ -0,0 +1,102 @@
+// =============================================================================
+// SHARED: AI CREDIT LEDGER
+// File: supabase/functions/_shared/ai-credits.ts
+// =============================================================================
+//
+// Every AI endpoint reserves credits before calling a model and settles them
+// afterwards with the tokens actually used (see the ai_credit_ledger
+// migration). The ledger functions only accept the service role, so users
+// can't charge themselves less.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Rough token count for text we haven't sent yet
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export interface UsageStatus {
+  subscription_tier: string;
+  credits_remaining: number;
+  monthly_credits: number;
+  next_refill: string;
+  hourly_count: number;
+  hourly_limit: number;
+  daily_count: number;
+  daily_limit: number;
+  hourly_reset: string;
+}
+
+export type Reservation =
+  | { allowed: true; usageId: string; status: UsageStatus }
+  | { allowed: false; reason: 'hourly_limit' | 'daily_limit' | 'insufficient_credits'; message: string; status: UsageStatus };
+
+const LIMIT_MESSAGES = {
+  hourly_limit: 'Hourly AI request limit reached. Try again later.',
+  daily_limit: 'Daily AI request limit reached. Try again tomorrow.',
+  insufficient_credits: 'Not enough AI credits left this month.'
+};
+
+function ledgerClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+}
+
+export async function reserveCredits(
+  userId: string,
+  operation: string,
+  estimatedCredits: number,
+  itemId?: string
+): Promise<Reservation> {
+  const { data, error } = await ledgerClient().rpc('reserve_ai_credits', {
+    p_user_id: userId,
+    p_operation: operation,
+    p_estimated_credits: Math.max(0, Math.ceil(estimatedCredits)),
+    p_item_id: itemId ?? null
+  });
+
+  if (error) {
+    console.error('Credit reservation error:', error);
+    throw new Error('Could not check AI credits');
+  }
+
+  const { allowed, reason, usage_id, ...status } = data;
+  return allowed
+    ? { allowed: true, usageId: usage_id, status }
+    : { allowed: false, reason, message: LIMIT_MESSAGES[reason as keyof typeof LIMIT_MESSAGES], status };
+}
+
+/**
+ * Charge a reservation for what the request really used. Call with no
+ * tokens to refund it when the request failed. Errors are logged rather
+ * than thrown, since the reply to the user is already decided by then.
+ */
+export async function settleCredits(
+  usageId: string,
+  usage: { model?: string; inputTokens: number; outputTokens: number } = { inputTokens: 0, outputTokens: 0 }
+): Promise<UsageStatus | null> {
+  const { data, error } = await ledgerClient().rpc('settle_ai_credits', {
+    p_usage_id: usageId,
+    p_model: usage.model ?? null,
+    p_input_tokens: usage.inputTokens,
+    p_output_tokens: usage.outputTokens
+  });
+
+  if (error) {
+    console.error('Credit settlement error:', error);
+    return null;
+  }
+  return data;
+}
+
+// The JSON error sent when a reservation is refused
+export function limitResponseBody(reservation: Extract<Reservation, { allowed: false }>) {
+  return {
+    success: false,
+    error: reservation.message,
+    reason: reservation.reason,
+    usage: reservation.status
+  };
+}
@@ -0,0 +1,69 @@
+// =============================================================================
+// SHARED: JSON IN AI REPLIES
+// File: supabase/functions/_shared/ai-json.ts
+// =============================================================================
+//
+// Edge function copy of extractJSON from src/utils/aiSchema.ts; functions are
+// deployed on their own and can't import from src.
+
+/**
+ * The JSON value in a model's reply. Models often wrap it in a ```json
+ * fence or a sentence of explanation, and sometimes leave trailing commas;
+ * all of those are tolerated. Throws when no JSON can be found.
+ */
+export function extractJSON(text: string): unknown {
+  const candidates: string[] = [];
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1]);
+  candidates.push(text);
+
+  for (const candidate of candidates) {
+    const parsed = parseLoosely(candidate.trim());
+    if (parsed.ok) return parsed.value;
+
+    // Otherwise the first balanced {...} or [...] that parses
+    for (let start = 0; start < candidate.length; start++) {
+      const char = candidate[start];
+      if (char !== '{' && char !== '[') continue;
+      const end = matchingBracket(candidate, start);
+      if (end === -1) continue;
+      const inner = parseLoosely(candidate.slice(start, end + 1));
+      if (inner.ok) return inner.value;
+    }
+  }
+
+  throw new Error('The reply did not contain any JSON');
+}
+
+function parseLoosely(text: string): { ok: true; value: unknown } | { ok: false } {
+  for (const attempt of [text, text.replace(/,\s*([}\]])/g, '$1')]) {
+    try {
+      return { ok: true, value: JSON.parse(attempt) };
+    } catch {
+      // try the next repair
+    }
+  }
+  return { ok: false };
+}
+
+// Index of the bracket closing the one at `start`, skipping over strings
+function matchingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (inString) {
+      if (char === '\\') index++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return index;
+    }
+  }
+  return -1;
+}
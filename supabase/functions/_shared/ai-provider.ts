@@ -0,0 +1,177 @@
+// =============================================================================
+// SHARED: AI PROVIDER
+// File: supabase/functions/_shared/ai-provider.ts
+// =============================================================================
+//
+// Server side of the app's AI providers (src/services/ai-providers.ts): every
+// edge function that calls a model goes through here, with the key taken
+// from ANTHROPIC_API_KEY. Setting AI_PROVIDER=mock answers with fixed sample
+// replies instead, so the functions can be run without a key, as the app
+// does with VITE_AI_PROVIDER=mock.
+
+import { readEventStream } from './sse.ts';
+
+export const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ModelRequest {
+  model: string;
+  system?: string;
+  messages: ModelMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface ModelReply {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Mock replies are streamed in pieces this long
+const MOCK_CHUNK_SIZE = 24;
+
+export class ProviderNotConfiguredError extends Error {
+  constructor() {
+    super('The AI service is not configured');
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
+
+export function isMockProvider(): boolean {
+  return Deno.env.get('AI_PROVIDER') === 'mock';
+}
+
+// Only Claude models are served; the app's model settings offer the same
+export function isSupportedModel(model: unknown): model is string {
+  return typeof model === 'string' && model.startsWith('claude-');
+}
+
+// Whether requests can be answered: a key is set, or no key is needed
+export function isProviderConfigured(): boolean {
+  return isMockProvider() || Boolean(Deno.env.get('ANTHROPIC_API_KEY'));
+}
+
+export function anthropicKey(): string {
+  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+  if (!apiKey) throw new ProviderNotConfiguredError();
+  return apiKey;
+}
+
+/**
+ * Sends the request to Anthropic, returning the raw response so streaming
+ * callers can read it as events. Throws when the provider refuses it.
+ */
+export async function requestAnthropic(
+  apiKey: string,
+  request: ModelRequest,
+  options: { stream?: boolean; signal?: AbortSignal } = {}
+): Promise<Response> {
+  const response = await fetch(ANTHROPIC_URL, {
+    method: 'POST',
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: request.model,
+      system: request.system,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(options.stream ? { stream: true } : {}),
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    console.error('Anthropic API error:', response.status, await response.text());
+    throw new Error(`AI provider error: ${response.status}`);
+  }
+
+  return response;
+}
+
+/**
+ * The model's whole reply to `request`. With AI_PROVIDER=mock nothing is
+ * sent and `mockText` is the reply, charged as no tokens.
+ */
+export async function completeMessages(request: ModelRequest, mockText: string): Promise<ModelReply> {
+  if (isMockProvider()) {
+    return { text: mockText, model: 'mock', inputTokens: 0, outputTokens: 0 };
+  }
+
+  const response = await requestAnthropic(anthropicKey(), request);
+  const data = await response.json();
+  const text = (data.content || [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join('');
+
+  if (!text) {
+    throw new Error('No reply received from AI');
+  }
+
+  return {
+    text,
+    model: data.model || request.model,
+    inputTokens: data.usage?.input_tokens ?? 0,
+    outputTokens: data.usage?.output_tokens ?? 0
+  };
+}
+
+/**
+ * The model's reply to `request`, passed to onText piece by piece as it is
+ * written. `reply` is filled in as the stream arrives, so a caller that
+ * aborts through `signal` still knows the tokens used so far. With
+ * AI_PROVIDER=mock, `mockText` is streamed instead and charged as no tokens.
+ */
+export async function streamMessages(
+  request: ModelRequest,
+  mockText: string,
+  reply: ModelReply,
+  options: { signal?: AbortSignal; onText: (text: string) => void }
+): Promise<ModelReply> {
+  const { signal, onText } = options;
+
+  if (isMockProvider()) {
+    reply.model = 'mock';
+    for (let index = 0; index < mockText.length; index += MOCK_CHUNK_SIZE) {
+      if (signal?.aborted) throw new DOMException('The request was cancelled', 'AbortError');
+      const piece = mockText.slice(index, index + MOCK_CHUNK_SIZE);
+      reply.text += piece;
+      onText(piece);
+    }
+    return reply;
+  }
+
+  const response = await requestAnthropic(anthropicKey(), request, { stream: true, signal });
+  await readEventStream(response, ({ data }) => {
+    const message = JSON.parse(data);
+    switch (message.type) {
+      case 'message_start':
+        reply.model = message.message?.model || reply.model;
+        reply.inputTokens = message.message?.usage?.input_tokens ?? 0;
+        break;
+      case 'content_block_delta':
+        if (message.delta?.type === 'text_delta') {
+          reply.text += message.delta.text;
+          onText(message.delta.text);
+        }
+        break;
+      case 'message_delta':
+        reply.outputTokens = message.usage?.output_tokens ?? reply.outputTokens;
+        break;
+      case 'error':
+        throw new Error(message.error?.message || 'AI provider error');
+    }
+  });
+  return reply;
+}
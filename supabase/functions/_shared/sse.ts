@@ -0,0 +1,59 @@
+// =============================================================================
+// SHARED: SERVER-SENT EVENTS
+// File: supabase/functions/_shared/sse.ts
+// =============================================================================
+//
+// Edge function copy of src/utils/sse.ts, plus formatting events to send.
+
+export interface ServerSentEvent {
+  // "message" when the event has no event: line
+  event: string;
+  data: string;
+}
+
+// Calls onEvent for each event in the response body until the stream ends
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) throw new Error('The response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // Events end with a blank line
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : blocks.pop() ?? '';
+    blocks.forEach(block => {
+      const event = parseEvent(block);
+      if (event) onEvent(event);
+    });
+
+    if (done) return;
+  }
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split(/\r?\n/).forEach(line => {
+    if (!line || line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  });
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+export function formatEvent(event: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
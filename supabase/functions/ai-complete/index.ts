@@ -0,0 +1,268 @@
+// =============================================================================
+// SUPABASE EDGE FUNCTION: AI COMPLETION
+// File: supabase/functions/ai-complete/index.ts
+// =============================================================================
+//
+// Server side of the app's Anthropic provider (src/services/ai-providers.ts).
+// The browser sends a prompt and the model chosen for the task; this function
+// adds ANTHROPIC_API_KEY, so the key never ships to the client, and charges
+// the tokens used to the user's AI credits.
+//
+// With stream: true the reply is sent as server-sent events while the model
+// writes it (see streamCompletion). With AI_PROVIDER=mock each task gets a
+// fixed sample reply instead.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { estimateTokens, limitResponseBody, reserveCredits, settleCredits } from '../_shared/ai-credits.ts';
+import { formatEvent } from '../_shared/sse.ts';
+import {
+  completeMessages,
+  isProviderConfigured,
+  isSupportedModel,
+  ModelReply,
+  streamMessages
+} from '../_shared/ai-provider.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_TOKENS_LIMIT = 4096;
+
+// Edge function copy of MOCK_RESPONSES in src/services/ai-providers.ts, so
+// the app gets usable answers with AI_PROVIDER=mock
+const MOCK_REPLIES: Record<string, unknown> = {
+  'character-analysis': {
+    characterName: null,
+    role: 'supporting',
+    fantasyClass: null,
+    relationships: [],
+    confidence: 0.5
+  },
+  'character-suggestions': [
+    'A mentor who has already failed at what the protagonist is attempting',
+    'A rival who wants the same thing for a better reason',
+    'Someone from the protagonist\'s past who knows their secret'
+  ],
+  'story-structure': [
+    'Raise the stakes at the midpoint so the second half has a new goal',
+    'Plant the climax\'s key object or skill in the first act',
+    'Give the subplot a turning point that mirrors the main plot'
+  ],
+  'story-coherence': {
+    overallScore: 75,
+    issues: [],
+    suggestions: ['Sample analysis from the mock AI provider'],
+    plotHoles: []
+  },
+  'relationship-suggestions': [],
+  'character-arcs': {
+    characterId: '',
+    stages: [],
+    development: [],
+    conflicts: [],
+    growth: 5
+  },
+  'story-template': {
+    name: 'Sample Template',
+    description: 'A minimal template from the mock AI provider',
+    nodes: [
+      { id: 'hero', type: 'character', position: { x: 0, y: 0 }, data: { name: 'Hero', role: 'protagonist', description: '' } },
+      { id: 'inciting', type: 'plot', position: { x: 320, y: 0 }, data: { title: 'Inciting Incident', type: 'event', description: '' } }
+    ],
+    edges: [
+      { id: 'hero-inciting', source: 'hero', target: 'inciting', label: 'drives', type: 'smoothstep' }
+    ]
+  }
+};
+
+interface CompletionRequest {
+  provider: 'anthropic';
+  task: string;
+  model: string;
+  system?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  maxTokens: number;
+  temperature: number;
+  stream?: boolean;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let usageId: string | null = null;
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization') ?? '' },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+      error: userError
+    } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    if (!isProviderConfigured()) {
+      return jsonResponse({ success: false, error: 'The AI service is not configured' }, 503);
+    }
+
+    const body: CompletionRequest = await req.json();
+    const error = validateRequest(body);
+    if (error) {
+      return jsonResponse({ success: false, error }, 400);
+    }
+
+    const maxTokens = Math.min(body.maxTokens, MAX_TOKENS_LIMIT);
+    const promptText = [body.system ?? '', ...body.messages.map(message => message.content)].join('\n');
+    const reservation = await reserveCredits(user.id, body.task, estimateTokens(promptText) + maxTokens);
+    if (!reservation.allowed) {
+      return jsonResponse(limitResponseBody(reservation), 429);
+    }
+    usageId = reservation.usageId;
+
+    if (body.stream) {
+      const stream = streamCompletion(body, maxTokens, usageId, req.signal);
+      // The stream settles the reservation itself when it ends
+      usageId = null;
+      return new Response(stream, {
+        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+      });
+    }
+
+    let reply: ModelReply;
+    try {
+      reply = await completeMessages({ ...body, maxTokens }, mockReply(body.task));
+    } catch (error) {
+      return jsonResponse({ success: false, error: error.message }, 502);
+    }
+
+    const usage = { inputTokens: reply.inputTokens, outputTokens: reply.outputTokens };
+    const credits = await settleCredits(usageId, { model: reply.model, ...usage });
+    usageId = null;
+
+    return jsonResponse({
+      success: true,
+      text: reply.text,
+      model: reply.model,
+      usage,
+      credits
+    });
+
+  } catch (error) {
+    console.error('AI completion error:', error);
+    return jsonResponse({ success: false, error: error.message || 'AI completion failed' }, 500);
+  } finally {
+    // Anything still reserved here didn't produce a reply, so refund it
+    if (usageId) await settleCredits(usageId);
+  }
+});
+
+/**
+ * Anthropic's stream relayed as our own events: `delta` {text} as text
+ * arrives, then `done` {model, usage, credits} or `error` {error}.
+ *
+ * When the browser cancels, the model request is aborted too and only the
+ * tokens used so far are charged, refunding the rest of the reservation.
+ * A request that fails on Anthropic's side is refunded in full, as without
+ * streaming.
+ */
+function streamCompletion(
+  body: CompletionRequest,
+  maxTokens: number,
+  usageId: string,
+  clientSignal: AbortSignal
+): ReadableStream<Uint8Array> {
+  const upstream = new AbortController();
+  // Filled in as the reply streams
+  const reply: ModelReply = { text: '', model: body.model, inputTokens: 0, outputTokens: 0 };
+  let settled = false;
+
+  const settle = async (charge: boolean) => {
+    if (settled) return null;
+    settled = true;
+    if (!charge) return settleCredits(usageId);
+    // Output tokens are only reported as the message ends, so estimate them
+    // for a reply that was cut off
+    return settleCredits(usageId, {
+      model: reply.model,
+      inputTokens: reply.inputTokens,
+      outputTokens: reply.outputTokens || (reply.model === 'mock' ? 0 : estimateTokens(reply.text))
+    });
+  };
+
+  clientSignal.addEventListener('abort', () => upstream.abort());
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(formatEvent(event, data));
+        } catch {
+          // the browser has gone; nothing to tell it
+        }
+      };
+
+      try {
+        await streamMessages({ ...body, maxTokens }, mockReply(body.task), reply, {
+          signal: upstream.signal,
+          onText: text => send('delta', { text })
+        });
+
+        const credits = await settle(true);
+        const usage = { inputTokens: reply.inputTokens, outputTokens: reply.outputTokens };
+        send('done', { model: reply.model, usage, credits });
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          await settle(true);
+        } else {
+          console.error('AI streaming error:', error);
+          await settle(false);
+          send('error', { error: error.message || 'AI completion failed' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // already closed by the browser cancelling
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+}
+
+function mockReply(task: string): string {
+  return JSON.stringify(MOCK_REPLIES[task] ?? {}, null, 2);
+}
+
+function validateRequest(body: CompletionRequest): string | null {
+  if (body.provider !== 'anthropic') return `Unsupported provider: ${body.provider}`;
+  if (!isSupportedModel(body.model)) return 'Unknown model';
+  if (!Array.isArray(body.messages) || body.messages.length === 0) return 'Missing messages';
+  if (typeof body.maxTokens !== 'number' || body.maxTokens <= 0) return 'Invalid maxTokens';
+  return null;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
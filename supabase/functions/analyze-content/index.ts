@@ -5,6 +5,9 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { extractJSON } from '../_shared/ai-json.ts';
+import { estimateTokens, limitResponseBody, reserveCredits, settleCredits } from '../_shared/ai-credits.ts';
+import { completeMessages, isSupportedModel, ModelMessage, ProviderNotConfiguredError } from '../_shared/ai-provider.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,6 +19,11 @@ interface AnalysisRequest {
   content: string;
   contentType: 'character' | 'plot' | 'research' | 'chapter';
   analysisType?: 'full' | 'conflict_only' | 'suggestions_only';
+  // The model chosen in the app's AI settings; DEFAULT_ANALYSIS_MODEL otherwise
+  model?: string;
+  // Story context assembled by the app (characters, world, plot so far),
+  // sent as part of the system prompt
+  context?: string;
 }
 
 interface AIInsight {
@@ -31,12 +39,48 @@ interface AIInsight {
   createdAt: string;
 }
 
+// Requests per analysis, counting re-asks after a reply that didn't validate
+const MAX_ATTEMPTS = 2;
+const MAX_OUTPUT_TOKENS = 1000;
+const DEFAULT_ANALYSIS_MODEL = 'claude-3-5-haiku-latest';
+const SYSTEM_PROMPT = 'You are an expert writing assistant that analyzes story content and provides constructive feedback. Always respond with valid JSON.';
+
+// The reply given with AI_PROVIDER=mock
+const MOCK_REPLY = JSON.stringify({
+  insights: [
+    {
+      type: 'suggestion',
+      severity: 'low',
+      title: 'Sample insight',
+      description: 'A fixed insight from the mock AI provider; nothing was sent to a model.',
+      guidingQuestions: ['What does this piece need next?'],
+      confidence: 50,
+      category: 'development'
+    }
+  ]
+});
+// Longer context is cut, keeping each reservation bounded
+const MAX_CONTEXT_CHARS = 12000;
+
+interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const INSIGHT_TYPES = ['conflict', 'suggestion', 'question', 'improvement'];
+const SEVERITIES = ['low', 'medium', 'high'];
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  let usageId: string | null = null;
+  // Tokens used by every attempt, charged however the analysis ends
+  const tokens: TokenUsage = { model: DEFAULT_ANALYSIS_MODEL, inputTokens: 0, outputTokens: 0 };
+
   try {
     // Initialize Supabase client
     const supabaseClient = createClient(
@@ -59,39 +103,80 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    // Check rate limiting
-    const { data: canAnalyze } = await supabaseClient.rpc('check_ai_usage_limit', {
-      user_uuid: user.id,
-      daily_limit: 10
-    });
+    // Parse request body
+    const body: AnalysisRequest = await req.json();
+    const { itemId, content, contentType, analysisType = 'full' } = body;
+    const model = body.model ?? DEFAULT_ANALYSIS_MODEL;
+    const context = typeof body.context === 'string' ? body.context.slice(0, MAX_CONTEXT_CHARS) : '';
 
-    if (!canAnalyze) {
+    if (!content || !contentType || !itemId) {
+      throw new Error('Missing required fields: content, contentType, itemId');
+    }
+    if (!isSupportedModel(model)) {
+      throw new Error(`Unknown model: ${model}`);
+    }
+
+    // Check rate limits and hold credits for every attempt. The prompt only
+    // includes the first 1500 characters of the content, and each retry
+    // resends the replies before it.
+    const promptTokens = estimateTokens(content.slice(0, 1500) + context) + 300;
+    const reservation = await reserveCredits(
+      user.id,
+      'content-analysis',
+      MAX_ATTEMPTS * promptTokens + MAX_OUTPUT_TOKENS * MAX_ATTEMPTS * (MAX_ATTEMPTS + 1) / 2,
+      itemId
+    );
+
+    if (!reservation.allowed) {
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: 'Daily analysis limit reached. Try again tomorrow.',
-          remainingAnalyses: 0
-        }),
+        JSON.stringify(limitResponseBody(reservation)),
         {
           status: 429,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         }
       );
     }
-
-    // Parse request body
-    const body: AnalysisRequest = await req.json();
-    const { itemId, content, contentType, analysisType = 'full' } = body;
-
-    if (!content || !contentType || !itemId) {
-      throw new Error('Missing required fields: content, contentType, itemId');
-    }
+    usageId = reservation.usageId;
 
     // Start analysis timer
     const startTime = Date.now();
 
-    // Analyze content with OpenAI/Claude
-    const insights = await analyzeContentWithAI(content, contentType, analysisType);
+    // Analyze content with the configured provider. A failure is recorded as
+    // such rather than papered over with generic insights.
+    tokens.model = model;
+    let insights: AIInsight[];
+    try {
+      insights = await analyzeContentWithAI(content, contentType, analysisType, context, tokens);
+    } catch (error) {
+      console.error('AI analysis error:', error);
+      if (error instanceof ProviderNotConfiguredError) {
+        return new Response(
+          JSON.stringify({ success: false, error: error.message, insights: [], status: 'error' }),
+          {
+            status: 503,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      await supabaseClient
+        .from('imported_items')
+        .update({ ai_status: 'failed', last_analyzed: new Date().toISOString() })
+        .eq('id', itemId)
+        .eq('user_id', user.id);
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message || 'Analysis failed',
+          insights: [],
+          status: 'failed'
+        }),
+        {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
     // Determine overall status
     const status = determineAnalysisStatus(insights);
@@ -116,10 +201,9 @@ serve(async (req) => {
       throw new Error('Failed to save analysis results');
     }
 
-    // Increment usage counter
-    await supabaseClient.rpc('increment_ai_usage', {
-      user_uuid: user.id
-    });
+    // Charge what the analysis actually used
+    const credits = await settleCredits(usageId, tokens);
+    usageId = null;
 
     // Return results
     const response = {
@@ -128,9 +212,11 @@ serve(async (req) => {
       status,
       processingTime,
       usage: {
-        tokensUsed: estimateTokenUsage(content),
-        cost: 0.002 // Estimated cost
-      }
+        tokensUsed: tokens.inputTokens + tokens.outputTokens,
+        inputTokens: tokens.inputTokens,
+        outputTokens: tokens.outputTokens
+      },
+      credits
     };
 
     return new Response(JSON.stringify(response), {
@@ -152,6 +238,10 @@ serve(async (req) => {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
+  } finally {
+    // A failed analysis is charged for the tokens its attempts used, which
+    // is nothing when no request reached the model
+    if (usageId) await settleCredits(usageId, tokens);
   }
 });
 
@@ -162,54 +252,62 @@ serve(async (req) => {
 async function analyzeContentWithAI(
   content: string, 
   contentType: string, 
-  analysisType: string
+  analysisType: string,
+  context: string,
+  tokens: TokenUsage
 ): Promise<AIInsight[]> {
-  const prompt = buildAnalysisPrompt(content, contentType, analysisType);
-  
-  try {
-    // Using OpenAI API (replace with your preferred AI service)
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert writing assistant that analyzes story content and provides constructive feedback. Always respond with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+  const system = context ? `${SYSTEM_PROMPT}\n\n${context}` : SYSTEM_PROMPT;
+  const messages: ModelMessage[] = [
+    {
+      role: 'user',
+      content: buildAnalysisPrompt(content, contentType, analysisType)
     }
-
-    const data = await response.json();
-    const analysisText = data.choices[0]?.message?.content;
-
-    if (!analysisText) {
-      throw new Error('No analysis received from AI');
+  ];
+  let best: { insights: AIInsight[]; errors: string[] } | null = null;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const analysisText = await requestCompletion(system, messages, tokens);
+    const result = parseAIResponse(analysisText, contentType);
+    if (result.errors.length === 0) return result.insights;
+
+    errors = result.errors;
+    if (result.insights.length > 0 && (!best || result.errors.length < best.errors.length)) {
+      best = result;
     }
 
-    // Parse AI response to insights
-    return parseAIResponse(analysisText, contentType);
+    // Ask again, saying exactly what was wrong
+    messages.push(
+      { role: 'assistant', content: analysisText },
+      {
+        role: 'user',
+        content: `That reply could not be used:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON, in the format asked for above.`
+      }
+    );
+  }
 
-  } catch (error) {
-    console.error('AI analysis error:', error);
-    // Fallback to basic analysis
-    return generateBasicInsights(content, contentType);
+  // Keep the insights that were valid and drop the rest
+  if (best) {
+    console.warn('Some AI insights were dropped:', best.errors);
+    return best.insights;
   }
+  throw new Error(`AI analysis was not in the expected format (${errors.slice(0, 3).join('; ')})`);
+}
+
+// Adds the tokens the request used to `tokens`
+async function requestCompletion(system: string, messages: ModelMessage[], tokens: TokenUsage): Promise<string> {
+  const reply = await completeMessages({
+    model: tokens.model,
+    system,
+    messages,
+    maxTokens: MAX_OUTPUT_TOKENS,
+    temperature: 0.3
+  }, MOCK_REPLY);
+
+  tokens.model = reply.model;
+  tokens.inputTokens += reply.inputTokens;
+  tokens.outputTokens += reply.outputTokens;
+  return reply.text;
 }
 
 function buildAnalysisPrompt(content: string, contentType: string, analysisType: string): string {
@@ -286,122 +384,78 @@ Respond with JSON format as specified above.`
   return prompts[contentType as keyof typeof prompts] || prompts.chapter;
 }
 
-function parseAIResponse(analysisText: string, contentType: string): AIInsight[] {
+/**
+ * Insights from the model's reply, with a field-level error for each one
+ * that had to be dropped (e.g. "insights[2].severity: expected one of low,
+ * medium, high"). Errors with no insights mean nothing in the reply was usable.
+ */
+function parseAIResponse(analysisText: string, contentType: string): { insights: AIInsight[]; errors: string[] } {
+  let parsed: unknown;
   try {
-    // Clean up the response text
-    const cleanText = analysisText.replace(/```json|```/g, '').trim();
-    const parsed = JSON.parse(cleanText);
-    
-    const insights = parsed.insights || [];
-    
-    return insights.map((insight: any, index: number) => ({
-      id: crypto.randomUUID(),
-      type: insight.type || 'suggestion',
-      severity: insight.severity || 'medium',
-      title: insight.title || `Analysis ${index + 1}`,
-      description: insight.description || 'No description provided',
-      suggestion: insight.suggestion,
-      guidingQuestions: insight.guidingQuestions || [],
-      confidence: insight.confidence || 75,
-      category: insight.category || contentType,
-      createdAt: new Date().toISOString()
-    }));
-
+    parsed = extractJSON(analysisText);
   } catch (error) {
-    console.error('Failed to parse AI response:', error);
-    // Return basic fallback insight
-    return [{
-      id: crypto.randomUUID(),
-      type: 'improvement',
-      severity: 'low',
-      title: 'Analysis Complete',
-      description: 'Content analyzed but detailed insights could not be generated.',
-      confidence: 50,
-      category: contentType,
-      createdAt: new Date().toISOString()
-    }];
+    return { insights: [], errors: [error.message] };
   }
-}
 
-function generateBasicInsights(content: string, contentType: string): AIInsight[] {
-  const wordCount = content.split(/\s+/).length;
-  const insights: AIInsight[] = [];
-
-  // Basic word count feedback
-  if (wordCount < 50) {
-    insights.push({
-      id: crypto.randomUUID(),
-      type: 'suggestion',
-      severity: 'medium',
-      title: 'Content Length',
-      description: `This ${contentType} is quite brief (${wordCount} words). Consider expanding with more detail.`,
-      suggestion: 'Add more descriptive details, background information, or specific examples.',
-      guidingQuestions: [
-        'What additional details would help readers understand this better?',
-        'Are there missing elements that should be included?'
-      ],
-      confidence: 80,
-      category: 'development',
-      createdAt: new Date().toISOString()
-    });
+  const raw = Array.isArray(parsed) ? parsed : (parsed as { insights?: unknown } | null)?.insights;
+  if (!Array.isArray(raw)) {
+    return { insights: [], errors: ['insights: expected an array of insights'] };
   }
 
-  // Content type specific suggestions
-  const typeSpecificInsights = {
-    character: {
-      title: 'Character Development',
-      description: 'Consider developing this character further with background, motivations, and relationships.',
-      guidingQuestions: [
-        'What drives this character?',
-        'What is their biggest fear or desire?',
-        'How do they relate to other characters?'
-      ]
-    },
-    plot: {
-      title: 'Plot Development',
-      description: 'Consider the conflict, stakes, and resolution for this plot element.',
-      guidingQuestions: [
-        'What is the central conflict?',
-        'What are the stakes if the protagonist fails?',
-        'How does this advance the overall story?'
-      ]
-    },
-    research: {
-      title: 'Research Organization',
-      description: 'Consider how this research connects to your story and what additional information might be needed.',
-      guidingQuestions: [
-        'How does this research apply to your story?',
-        'What questions does this information raise?',
-        'Are there related topics to explore?'
-      ]
-    },
-    chapter: {
-      title: 'Chapter Structure',
-      description: 'Consider the chapter\'s pacing, character development, and plot advancement.',
-      guidingQuestions: [
-        'Does this chapter advance the plot?',
-        'How do characters change or grow?',
-        'What tension or conflict drives the scene?'
-      ]
+  const insights: AIInsight[] = [];
+  const errors: string[] = [];
+
+  raw.forEach((item: unknown, index: number) => {
+    const insight = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const path = `insights[${index}]`;
+    const itemErrors: string[] = [];
+    const type = String(insight.type ?? '').toLowerCase();
+    const severity = String(insight.severity ?? '').toLowerCase();
+    const confidence = Number(insight.confidence);
+
+    if (!INSIGHT_TYPES.includes(type)) {
+      itemErrors.push(`${path}.type: expected one of ${INSIGHT_TYPES.join(', ')}, got ${JSON.stringify(insight.type)}`);
+    }
+    if (!SEVERITIES.includes(severity)) {
+      itemErrors.push(`${path}.severity: expected one of ${SEVERITIES.join(', ')}, got ${JSON.stringify(insight.severity)}`);
+    }
+    if (typeof insight.title !== 'string' || !insight.title.trim()) {
+      itemErrors.push(`${path}.title: expected a non-empty string`);
+    }
+    if (typeof insight.description !== 'string' || !insight.description.trim()) {
+      itemErrors.push(`${path}.description: expected a non-empty string`);
+    }
+    if (insight.suggestion != null && typeof insight.suggestion !== 'string') {
+      itemErrors.push(`${path}.suggestion: expected a string`);
+    }
+    if (insight.guidingQuestions != null &&
+      (!Array.isArray(insight.guidingQuestions) || insight.guidingQuestions.some((q: unknown) => typeof q !== 'string'))) {
+      itemErrors.push(`${path}.guidingQuestions: expected an array of strings`);
+    }
+    if (!Number.isFinite(confidence) || confidence < 0 || confidence > 100) {
+      itemErrors.push(`${path}.confidence: expected a number from 0 to 100, got ${JSON.stringify(insight.confidence)}`);
+    }
+
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors);
+      return;
     }
-  };
 
-  const specific = typeSpecificInsights[contentType as keyof typeof typeSpecificInsights];
-  if (specific) {
     insights.push({
       id: crypto.randomUUID(),
-      type: 'question',
-      severity: 'low',
-      title: specific.title,
-      description: specific.description,
-      guidingQuestions: specific.guidingQuestions,
-      confidence: 70,
-      category: contentType,
+      type: type as AIInsight['type'],
+      severity: severity as AIInsight['severity'],
+      title: insight.title as string,
+      description: insight.description as string,
+      suggestion: (insight.suggestion as string | null) ?? undefined,
+      guidingQuestions: (insight.guidingQuestions as string[] | null) ?? [],
+      confidence,
+      category: typeof insight.category === 'string' && insight.category ? insight.category : contentType,
       createdAt: new Date().toISOString()
     });
-  }
+  });
 
-  return insights;
+  return { insights, errors };
 }
 
 function determineAnalysisStatus(insights: AIInsight[]): string {
@@ -416,8 +470,3 @@ function determineAnalysisStatus(insights: AIInsight[]): string {
   
   return 'good';
 }
-
-function estimateTokenUsage(content: string): number {
-  // Rough estimation: ~4 characters per token
-  return Math.ceil(content.length / 4);
-}
@@ -0,0 +1,81 @@
+/*
+  # Scenes Migration
+
+  Adds first-class scenes inside chapters so the editor, outline and canvas
+  timeline all refer to the same scene entities.
+
+  Tables Created:
+  - scenes: one row per scene, ordered within its chapter
+
+  Chapter content stays a single HTML document. Scene boundaries are stored in
+  that document as <hr class="scene-break" data-scene-id="..."> markers; the
+  text before the first marker belongs to the chapter's lead scene.
+
+  Security:
+  - Row Level Security scoped to the owning user
+*/
+
+-- =====================================================
+-- 1. CREATE SCENES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS scenes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  chapter_id UUID REFERENCES chapters(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  outline_node_id UUID, -- optional link to a 'scene' outline node
+  title TEXT NOT NULL DEFAULT '',
+  summary TEXT DEFAULT '',
+  pov_character_id UUID REFERENCES characters(id) ON DELETE SET NULL,
+  location_id UUID REFERENCES world_elements(id) ON DELETE SET NULL,
+  character_ids UUID[] DEFAULT '{}',
+  word_count INTEGER DEFAULT 0,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS scenes_project_id_idx ON scenes(project_id);
+CREATE INDEX IF NOT EXISTS scenes_chapter_id_idx ON scenes(chapter_id);
+CREATE INDEX IF NOT EXISTS scenes_user_id_idx ON scenes(user_id);
+CREATE INDEX IF NOT EXISTS scenes_order_idx ON scenes(chapter_id, order_index);
+CREATE INDEX IF NOT EXISTS scenes_pov_character_idx ON scenes(pov_character_id);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE scenes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'scenes' AND policyname = 'Users can manage their scenes') THEN
+    CREATE POLICY "Users can manage their scenes" ON scenes
+      FOR ALL USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 4. CREATE UPDATE TRIGGERS
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_scenes_updated_at') THEN
+    CREATE TRIGGER update_scenes_updated_at
+      BEFORE UPDATE ON scenes
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON scenes TO authenticated;
@@ -0,0 +1,104 @@
+/*
+  # Named Chapter Snapshots Migration
+
+  Lets writers label a chapter draft ("Sent to beta readers") so it shows up
+  as a named snapshot in the revision timeline and is never removed by the
+  draft cleanup job.
+
+  Changes:
+  - content_drafts: ensure the table exists and add a nullable label column
+  - cleanup_old_drafts(): skip drafts that have a label, and only touch the
+    calling user's drafts
+
+  Security:
+  - Row Level Security scoped to the owning user
+  - cleanup_old_drafts() can only be called by signed-in users
+*/
+
+-- =====================================================
+-- 1. ENSURE CONTENT DRAFTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS content_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id UUID REFERENCES chapters(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  content TEXT DEFAULT '',
+  title TEXT DEFAULT '',
+  word_count INTEGER DEFAULT 0,
+  save_type TEXT DEFAULT 'auto' CHECK (save_type IN ('auto', 'manual', 'backup')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. ADD SNAPSHOT LABEL
+-- =====================================================
+
+ALTER TABLE content_drafts ADD COLUMN IF NOT EXISTS label TEXT;
+
+-- =====================================================
+-- 3. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS content_drafts_chapter_created_idx ON content_drafts(chapter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS content_drafts_user_id_idx ON content_drafts(user_id);
+CREATE INDEX IF NOT EXISTS content_drafts_named_idx ON content_drafts(chapter_id) WHERE label IS NOT NULL;
+
+-- =====================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE content_drafts ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'content_drafts' AND policyname = 'Users can manage their content drafts') THEN
+    CREATE POLICY "Users can manage their content drafts" ON content_drafts
+      FOR ALL USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. CLEANUP FUNCTION THAT KEEPS NAMED SNAPSHOTS
+-- =====================================================
+
+-- Removes the caller's unnamed drafts older than 30 days, always keeping the
+-- 10 most recent drafts of each chapter. Named snapshots are never deleted.
+-- It runs as its owner, so it filters to auth.uid() itself.
+-- Dropped first in case an existing version has a different return type.
+DROP FUNCTION IF EXISTS cleanup_old_drafts();
+
+CREATE OR REPLACE FUNCTION cleanup_old_drafts()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  WITH ranked AS (
+    SELECT id,
+           created_at,
+           ROW_NUMBER() OVER (PARTITION BY chapter_id ORDER BY created_at DESC) AS recency
+    FROM content_drafts
+    WHERE label IS NULL
+      AND user_id = auth.uid()
+  )
+  DELETE FROM content_drafts
+  WHERE user_id = auth.uid()
+    AND id IN (
+      SELECT id FROM ranked
+      WHERE recency > 10
+        AND created_at < NOW() - INTERVAL '30 days'
+    );
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON content_drafts TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION cleanup_old_drafts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cleanup_old_drafts() TO authenticated;
@@ -0,0 +1,112 @@
+/*
+  # Chapter Comments Migration
+
+  Adds anchored comment threads on chapter text for editors and beta readers.
+
+  Tables Created:
+  - chapter_comments: thread roots (with a text anchor) and their replies
+
+  A thread root stores the commented text together with a little of the text
+  around it, so the editor can re-anchor the thread after the chapter is
+  edited. Replies point at their root through parent_id and carry no anchor.
+
+  Suggested insertions and deletions are not stored here; they live in the
+  chapter HTML as <ins>/<del> elements until accepted or rejected.
+
+  Security:
+  - Row Level Security: comments can only be read and added on chapters of
+    the user's own projects; only their author can edit or delete them
+*/
+
+-- =====================================================
+-- 1. CREATE CHAPTER COMMENTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS chapter_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id UUID REFERENCES chapters(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES chapter_comments(id) ON DELETE CASCADE,
+  author_name TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL DEFAULT '',
+  -- Anchor (thread roots only): plain-text offsets plus surrounding context
+  anchor_text TEXT,
+  anchor_prefix TEXT,
+  anchor_suffix TEXT,
+  anchor_start INTEGER,
+  anchor_end INTEGER,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS chapter_comments_chapter_id_idx ON chapter_comments(chapter_id);
+CREATE INDEX IF NOT EXISTS chapter_comments_parent_id_idx ON chapter_comments(parent_id);
+CREATE INDEX IF NOT EXISTS chapter_comments_user_id_idx ON chapter_comments(user_id);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE chapter_comments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'chapter_comments' AND policyname = 'Users can view comments on their chapters') THEN
+    CREATE POLICY "Users can view comments on their chapters" ON chapter_comments
+      FOR SELECT USING (
+        EXISTS (
+          SELECT 1 FROM chapters
+          JOIN projects ON projects.id = chapters.project_id
+          WHERE chapters.id = chapter_comments.chapter_id
+          AND projects.user_id = auth.uid()
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'chapter_comments' AND policyname = 'Users can comment on their chapters') THEN
+    CREATE POLICY "Users can comment on their chapters" ON chapter_comments
+      FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+          SELECT 1 FROM chapters
+          JOIN projects ON projects.id = chapters.project_id
+          WHERE chapters.id = chapter_comments.chapter_id
+          AND projects.user_id = auth.uid()
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'chapter_comments' AND policyname = 'Users can update their own comments') THEN
+    CREATE POLICY "Users can update their own comments" ON chapter_comments
+      FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'chapter_comments' AND policyname = 'Users can delete their own comments') THEN
+    CREATE POLICY "Users can delete their own comments" ON chapter_comments
+      FOR DELETE USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 4. CREATE UPDATE TRIGGERS
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_chapter_comments_updated_at') THEN
+    CREATE TRIGGER update_chapter_comments_updated_at
+      BEFORE UPDATE ON chapter_comments
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON chapter_comments TO authenticated;
@@ -0,0 +1,120 @@
+/*
+  # Writing Activity Migration
+
+  Tracks how many words are written over time so the dashboard can show
+  goals, streaks and session statistics.
+
+  Tables Created:
+  - writing_activity: words added and removed per chapter, per local hour
+
+  Rows are buckets rather than individual saves: each auto-save adds its
+  word-count delta to the bucket for the writer's local date and hour via
+  log_writing_activity(), which keeps the table small and makes the
+  per-day, per-chapter and time-of-day charts simple sums.
+
+  Goals, deadlines and challenges are stored in projects.settings.
+
+  Security:
+  - Row Level Security: users only see and log their own activity
+*/
+
+-- =====================================================
+-- 1. CREATE WRITING ACTIVITY TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS writing_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  chapter_id UUID REFERENCES chapters(id) ON DELETE SET NULL,
+  -- The writer's local calendar date and hour (0-23)
+  log_date DATE NOT NULL,
+  hour SMALLINT NOT NULL CHECK (hour BETWEEN 0 AND 23),
+  words_added INTEGER NOT NULL DEFAULT 0,
+  words_removed INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, chapter_id, log_date, hour)
+);
+
+-- =====================================================
+-- 2. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS writing_activity_project_date_idx ON writing_activity(project_id, log_date);
+CREATE INDEX IF NOT EXISTS writing_activity_user_id_idx ON writing_activity(user_id);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE writing_activity ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'writing_activity' AND policyname = 'Users can manage their writing activity') THEN
+    CREATE POLICY "Users can manage their writing activity" ON writing_activity
+      FOR ALL USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 4. CREATE UPDATE TRIGGERS
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_writing_activity_updated_at') THEN
+    CREATE TRIGGER update_writing_activity_updated_at
+      BEFORE UPDATE ON writing_activity
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. CREATE LOGGING FUNCTION
+-- =====================================================
+
+-- Add a word-count delta to the caller's bucket for the given local date and hour.
+-- The project is taken from the chapter, which RLS limits to the caller's own.
+CREATE OR REPLACE FUNCTION log_writing_activity(
+  p_chapter_id UUID,
+  p_words_delta INTEGER,
+  p_log_date DATE,
+  p_hour SMALLINT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  IF p_words_delta = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT project_id INTO v_project_id FROM chapters WHERE id = p_chapter_id;
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Chapter not found';
+  END IF;
+
+  INSERT INTO writing_activity (user_id, project_id, chapter_id, log_date, hour, words_added, words_removed)
+  VALUES (
+    auth.uid(),
+    v_project_id,
+    p_chapter_id,
+    p_log_date,
+    p_hour,
+    GREATEST(p_words_delta, 0),
+    GREATEST(-p_words_delta, 0)
+  )
+  ON CONFLICT (user_id, chapter_id, log_date, hour) DO UPDATE SET
+    words_added = writing_activity.words_added + EXCLUDED.words_added,
+    words_removed = writing_activity.words_removed + EXCLUDED.words_removed;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON writing_activity TO authenticated;
+GRANT EXECUTE ON FUNCTION log_writing_activity(UUID, INTEGER, DATE, SMALLINT) TO authenticated;
@@ -0,0 +1,136 @@
+/*
+  # Notion Sync Migration
+
+  Keeps Notion imports connected to their source so later edits on either
+  side can be synced instead of re-importing.
+
+  Tables Created:
+  - notion_integrations: one per import, with the project it created, the
+    databases it read and the field mapping used for each
+  - notion_sync_links: the Notion page behind every imported row, with the
+    edit times on both sides at the last sync and a hash of the synced
+    values on each side
+  - notion_sync_log: one entry per sync run, shown in the Integrations tab
+
+  A page changed in Notion when its last_edited_time is at or after the
+  stored notion_edited_at and its mapped values no longer match
+  notion_hash; a row changed in Nimbus likewise against nimbus_updated_at
+  and nimbus_hash. Notion rounds edit times to the minute, so the hash is
+  what tells an edit made just after a sync from the sync itself. When both
+  sides changed the sync reports a conflict and leaves both alone until it
+  is resolved.
+
+  The Notion token is not stored; it is entered again for each sync.
+
+  Security:
+  - Row Level Security: users only see and change their own integrations,
+    links and log entries
+*/
+
+-- =====================================================
+-- 1. CREATE NOTION SYNC TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS notion_integrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- [{ id, name, type, properties, mapping }] for each synced database
+  databases JSONB NOT NULL DEFAULT '[]',
+  last_synced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notion_sync_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  integration_id UUID REFERENCES notion_integrations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  database_id TEXT NOT NULL,
+  notion_page_id TEXT NOT NULL,
+  record_table TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  notion_edited_at TIMESTAMPTZ,
+  nimbus_updated_at TIMESTAMPTZ,
+  notion_hash TEXT,
+  nimbus_hash TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (integration_id, notion_page_id)
+);
+
+CREATE TABLE IF NOT EXISTS notion_sync_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  integration_id UUID REFERENCES notion_integrations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL CHECK (status IN ('success', 'conflicts', 'failed')),
+  pulled INTEGER NOT NULL DEFAULT 0,
+  pushed INTEGER NOT NULL DEFAULT 0,
+  created INTEGER NOT NULL DEFAULT 0,
+  conflicts INTEGER NOT NULL DEFAULT 0,
+  messages JSONB NOT NULL DEFAULT '[]'
+);
+
+-- =====================================================
+-- 2. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS notion_integrations_user_id_idx ON notion_integrations(user_id);
+CREATE INDEX IF NOT EXISTS notion_sync_links_integration_idx ON notion_sync_links(integration_id, database_id);
+CREATE INDEX IF NOT EXISTS notion_sync_log_integration_idx ON notion_sync_log(integration_id, started_at DESC);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE notion_integrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notion_sync_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notion_sync_log ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'notion_integrations' AND policyname = 'Users can manage their Notion integrations') THEN
+    CREATE POLICY "Users can manage their Notion integrations" ON notion_integrations
+      FOR ALL USING (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'notion_sync_links' AND policyname = 'Users can manage their Notion sync links') THEN
+    CREATE POLICY "Users can manage their Notion sync links" ON notion_sync_links
+      FOR ALL USING (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'notion_sync_log' AND policyname = 'Users can manage their Notion sync log') THEN
+    CREATE POLICY "Users can manage their Notion sync log" ON notion_sync_log
+      FOR ALL USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 4. CREATE UPDATE TRIGGERS
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_notion_integrations_updated_at') THEN
+    CREATE TRIGGER update_notion_integrations_updated_at
+      BEFORE UPDATE ON notion_integrations
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_notion_sync_links_updated_at') THEN
+    CREATE TRIGGER update_notion_sync_links_updated_at
+      BEFORE UPDATE ON notion_sync_links
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON notion_integrations TO authenticated;
+GRANT ALL ON notion_sync_links TO authenticated;
+GRANT ALL ON notion_sync_log TO authenticated;
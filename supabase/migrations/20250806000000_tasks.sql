@@ -0,0 +1,91 @@
+/*
+  # Kanban Tasks Migration
+
+  Moves the project Kanban board out of the browser's localStorage so tasks
+  follow the writer between devices.
+
+  Tables Created:
+  - tasks: one row per card, with its column (status) and position in it
+
+  Links to a chapter, character or world element are stored as plain ids
+  without foreign keys, since imported records use text ids; a link whose
+  target was deleted is shown as missing on the card.
+
+  Tasks created from planned outline nodes keep the node's id in
+  outline_node_id. Deleting one archives it instead, so the board does not
+  create it again the next time it loads.
+
+  Security:
+  - Row Level Security: project owners manage the tasks on their projects
+*/
+
+-- =====================================================
+-- 1. CREATE TASKS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  task_type TEXT NOT NULL DEFAULT 'chapter' CHECK (task_type IN ('chapter', 'character', 'research', 'worldbuilding', 'publishing')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  status TEXT NOT NULL DEFAULT 'todo' CHECK (status IN ('todo', 'active', 'in_progress', 'completed')),
+  position INTEGER NOT NULL DEFAULT 0,
+  due_date DATE,
+  linked_chapter_id TEXT,
+  linked_character_id TEXT,
+  linked_world_element_id TEXT,
+  outline_node_id TEXT,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS tasks_project_status_idx ON tasks(project_id, status, position);
+CREATE UNIQUE INDEX IF NOT EXISTS tasks_outline_node_idx ON tasks(project_id, outline_node_id)
+  WHERE outline_node_id IS NOT NULL;
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'tasks' AND policyname = 'Project owners can manage their tasks') THEN
+    CREATE POLICY "Project owners can manage their tasks" ON tasks
+      FOR ALL USING (
+        EXISTS (
+          SELECT 1 FROM projects
+          WHERE projects.id = tasks.project_id
+          AND projects.user_id = auth.uid()
+        )
+      );
+  END IF;
+END $$;
+
+-- =====================================================
+-- 4. CREATE UPDATE TRIGGERS
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_tasks_updated_at') THEN
+    CREATE TRIGGER update_tasks_updated_at
+      BEFORE UPDATE ON tasks
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON tasks TO authenticated;
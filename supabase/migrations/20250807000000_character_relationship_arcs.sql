@@ -0,0 +1,100 @@
+/*
+  # Character Relationship Arcs Migration
+
+  Makes character relationships directional and lets them change over the
+  course of the story, for the Relationships view on the canvas.
+
+  Tables Changed:
+  - character_relationships: a row now reads "character A <type> character
+    B" (A mentors B). Symmetric types such as friend or sibling read the
+    same both ways. B's feelings toward A are a separate row, which the
+    existing UNIQUE(character_a_id, character_b_id) already allows.
+    introduced_chapter_id is the chapter where the relationship begins;
+    NULL means it exists from the start.
+
+  Tables Created:
+  - character_relationship_changes: from a given chapter on, the
+    relationship takes a new type, strength or description, or ends
+
+  Security:
+  - Row Level Security: project owners manage the changes on their projects
+*/
+
+-- =====================================================
+-- 1. EXTEND CHARACTER RELATIONSHIPS
+-- =====================================================
+
+ALTER TABLE character_relationships
+  ADD COLUMN IF NOT EXISTS introduced_chapter_id UUID REFERENCES chapters(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- =====================================================
+-- 2. CREATE RELATIONSHIP CHANGES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS character_relationship_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  relationship_id UUID REFERENCES character_relationships(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  chapter_id UUID REFERENCES chapters(id) ON DELETE CASCADE NOT NULL,
+  -- NULL keeps the value the relationship had before this chapter
+  relationship_type TEXT,
+  strength INTEGER CHECK (strength BETWEEN 1 AND 10),
+  description TEXT,
+  ended BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (relationship_id, chapter_id)
+);
+
+-- =====================================================
+-- 3. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS character_relationship_changes_project_idx ON character_relationship_changes(project_id);
+CREATE INDEX IF NOT EXISTS character_relationship_changes_relationship_idx ON character_relationship_changes(relationship_id);
+
+-- =====================================================
+-- 4. ENABLE ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE character_relationship_changes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'character_relationship_changes' AND policyname = 'Project owners can manage relationship changes') THEN
+    CREATE POLICY "Project owners can manage relationship changes" ON character_relationship_changes
+      FOR ALL USING (
+        EXISTS (
+          SELECT 1 FROM projects
+          WHERE projects.id = character_relationship_changes.project_id
+          AND projects.user_id = auth.uid()
+        )
+      );
+  END IF;
+END $$;
+
+-- =====================================================
+-- 5. CREATE UPDATE TRIGGERS
+-- =====================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_character_relationships_updated_at') THEN
+    CREATE TRIGGER update_character_relationships_updated_at
+      BEFORE UPDATE ON character_relationships
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_character_relationship_changes_updated_at') THEN
+    CREATE TRIGGER update_character_relationship_changes_updated_at
+      BEFORE UPDATE ON character_relationship_changes
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT ALL ON character_relationship_changes TO authenticated;
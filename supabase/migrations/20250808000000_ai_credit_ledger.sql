@@ -0,0 +1,360 @@
+/*
+  # AI Credit Ledger Migration
+
+  Moves AI credit accounting to the server. Until now the browser read
+  ai_credits_remaining, subtracted and wrote it back, which raced between
+  tabs and let anyone give themselves credits.
+
+  Credits are tokens: a request costs its input plus output tokens as
+  reported by the model provider.
+
+  Tables Created:
+  - ai_plan_limits: monthly credits and hourly/daily request limits per
+    subscription tier
+
+  Tables Changed:
+  - ai_usage: one row per AI request, now with the model, token counts,
+    credits charged and whether it is still in flight
+  - user_profiles: ai_credits_refilled_at, when the monthly allowance was
+    last restored
+
+  A request goes through two calls, both made by edge functions with the
+  service role:
+  - reserve_ai_credits() locks the user's profile row, restores the monthly
+    allowance if a new month has started, checks the hourly and daily
+    limits, then holds an estimated amount and records a 'reserved' row.
+    Because the row lock serialises a user's requests, two at once cannot
+    both pass a check that only one should.
+  - settle_ai_credits() replaces the estimate with the real token counts,
+    or refunds it in full when the request failed.
+
+  A reservation never settled, e.g. because the edge function was killed
+  mid-request, is refunded and marked 'expired' by the user's next
+  reserve_ai_credits() once it is older than any request can run. It still
+  counts towards the request limits, and a settle that arrives after all
+  charges only the tokens used.
+
+  Security:
+  - Users can read their own usage but no longer insert it
+  - Users can no longer change their own credits or tier; a trigger keeps
+    those columns as they were for any update made by a signed-in user
+  - The ledger functions can only be called with the service role
+*/
+
+-- =====================================================
+-- 1. CREATE PLAN LIMITS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ai_plan_limits (
+  subscription_tier TEXT PRIMARY KEY CHECK (subscription_tier IN ('free', 'premium', 'pro')),
+  monthly_credits INTEGER NOT NULL,
+  hourly_requests INTEGER NOT NULL,
+  daily_requests INTEGER NOT NULL
+);
+
+INSERT INTO ai_plan_limits (subscription_tier, monthly_credits, hourly_requests, daily_requests) VALUES
+  ('free', 25000, 10, 50),
+  ('premium', 250000, 60, 300),
+  ('pro', 1000000, 200, 1000)
+ON CONFLICT (subscription_tier) DO NOTHING;
+
+-- =====================================================
+-- 2. EXTEND AI USAGE AND PROFILES
+-- =====================================================
+
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS input_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS output_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS credits_reserved INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS credits_charged INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'settled'
+  CHECK (status IN ('reserved', 'settled', 'refunded', 'expired'));
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS settled_at TIMESTAMPTZ;
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS item_id UUID REFERENCES imported_items(id) ON DELETE SET NULL;
+
+-- Rows written before the ledger charged what they recorded
+UPDATE ai_usage SET credits_charged = tokens_used WHERE credits_charged = 0 AND tokens_used > 0;
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS ai_credits_refilled_at TIMESTAMPTZ DEFAULT NOW();
+
+-- =====================================================
+-- 3. LOCK DOWN CREDITS
+-- =====================================================
+
+DROP POLICY IF EXISTS "System can insert AI usage" ON ai_usage;
+
+ALTER TABLE ai_plan_limits ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'ai_plan_limits' AND policyname = 'Anyone signed in can view plan limits') THEN
+    CREATE POLICY "Anyone signed in can view plan limits" ON ai_plan_limits
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
+
+-- Signed-in users may edit their profile, but not what they are allowed to spend
+CREATE OR REPLACE FUNCTION protect_ai_credit_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.subscription_tier := 'free';
+      NEW.ai_credits_remaining := (SELECT monthly_credits FROM ai_plan_limits WHERE subscription_tier = 'free');
+      NEW.ai_credits_refilled_at := NOW();
+    ELSE
+      NEW.subscription_tier := OLD.subscription_tier;
+      NEW.ai_credits_remaining := OLD.ai_credits_remaining;
+      NEW.ai_credits_refilled_at := OLD.ai_credits_refilled_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'protect_user_profiles_ai_credits') THEN
+    CREATE TRIGGER protect_user_profiles_ai_credits
+      BEFORE INSERT OR UPDATE ON user_profiles
+      FOR EACH ROW EXECUTE FUNCTION protect_ai_credit_columns();
+  END IF;
+END $$;
+
+-- =====================================================
+-- 4. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS ai_usage_reserved_idx ON ai_usage(user_id, created_at) WHERE status = 'reserved';
+
+-- =====================================================
+-- 5. CREATE LEDGER FUNCTIONS
+-- =====================================================
+
+-- Restore the monthly allowance once per calendar month (UTC). Unused credits
+-- do not carry over. The caller must already hold the profile row lock.
+CREATE OR REPLACE FUNCTION refill_ai_credits(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE user_profiles p
+  SET ai_credits_remaining = l.monthly_credits,
+      ai_credits_refilled_at = NOW()
+  FROM ai_plan_limits l
+  WHERE p.id = p_user_id
+    AND l.subscription_tier = COALESCE(p.subscription_tier, 'free')
+    AND date_trunc('month', COALESCE(p.ai_credits_refilled_at, p.created_at)) < date_trunc('month', NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund reservations older than any request can run, which were never
+-- settled. The caller must already hold the profile row lock.
+CREATE OR REPLACE FUNCTION expire_ai_reservations(p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_refund INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE ai_usage
+    SET status = 'expired',
+        settled_at = NOW()
+    WHERE user_id = p_user_id
+      AND status = 'reserved'
+      AND created_at < NOW() - INTERVAL '15 minutes'
+    RETURNING credits_reserved
+  )
+  SELECT COALESCE(SUM(credits_reserved), 0) INTO v_refund FROM expired;
+
+  IF v_refund > 0 THEN
+    UPDATE user_profiles
+    SET ai_credits_remaining = ai_credits_remaining + v_refund
+    WHERE id = p_user_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Credits, limits and request counts for one user, without changing anything
+CREATE OR REPLACE FUNCTION ai_usage_status_for(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_profile user_profiles%ROWTYPE;
+  v_limits ai_plan_limits%ROWTYPE;
+  v_hourly INTEGER;
+  v_daily INTEGER;
+  v_oldest_in_hour TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  SELECT * INTO v_limits FROM ai_plan_limits WHERE subscription_tier = COALESCE(v_profile.subscription_tier, 'free');
+
+  -- Refunded requests don't count against the limits
+  SELECT
+    COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 hour'),
+    COUNT(*),
+    MIN(created_at) FILTER (WHERE created_at > NOW() - INTERVAL '1 hour')
+  INTO v_hourly, v_daily, v_oldest_in_hour
+  FROM ai_usage
+  WHERE user_id = p_user_id
+    AND status <> 'refunded'
+    AND created_at > NOW() - INTERVAL '1 day';
+
+  RETURN jsonb_build_object(
+    'subscription_tier', COALESCE(v_profile.subscription_tier, 'free'),
+    'credits_remaining', v_profile.ai_credits_remaining,
+    'monthly_credits', v_limits.monthly_credits,
+    'next_refill', date_trunc('month', NOW()) + INTERVAL '1 month',
+    'hourly_count', v_hourly,
+    'hourly_limit', v_limits.hourly_requests,
+    'daily_count', v_daily,
+    'daily_limit', v_limits.daily_requests,
+    -- When the oldest request in the past hour stops counting
+    'hourly_reset', COALESCE(v_oldest_in_hour + INTERVAL '1 hour', NOW())
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hold credits for a request about to be made. Returns the status plus
+-- allowed = false and a reason when a limit would be exceeded, otherwise
+-- allowed = true and the usage_id to settle.
+CREATE OR REPLACE FUNCTION reserve_ai_credits(
+  p_user_id UUID,
+  p_operation TEXT,
+  p_estimated_credits INTEGER,
+  p_item_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_status JSONB;
+  v_usage_id UUID;
+BEGIN
+  PERFORM 1 FROM user_profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  PERFORM expire_ai_reservations(p_user_id);
+  PERFORM refill_ai_credits(p_user_id);
+  v_status := ai_usage_status_for(p_user_id);
+
+  IF (v_status->>'hourly_count')::INTEGER >= (v_status->>'hourly_limit')::INTEGER THEN
+    RETURN v_status || jsonb_build_object('allowed', false, 'reason', 'hourly_limit');
+  END IF;
+  IF (v_status->>'daily_count')::INTEGER >= (v_status->>'daily_limit')::INTEGER THEN
+    RETURN v_status || jsonb_build_object('allowed', false, 'reason', 'daily_limit');
+  END IF;
+  IF (v_status->>'credits_remaining')::INTEGER < p_estimated_credits THEN
+    RETURN v_status || jsonb_build_object('allowed', false, 'reason', 'insufficient_credits');
+  END IF;
+
+  UPDATE user_profiles
+  SET ai_credits_remaining = ai_credits_remaining - p_estimated_credits
+  WHERE id = p_user_id;
+
+  INSERT INTO ai_usage (user_id, analysis_type, item_id, credits_reserved, status)
+  VALUES (p_user_id, p_operation, p_item_id, p_estimated_credits, 'reserved')
+  RETURNING id INTO v_usage_id;
+
+  RETURN ai_usage_status_for(p_user_id) || jsonb_build_object('allowed', true, 'usage_id', v_usage_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Charge a reserved request for the tokens it actually used, returning the
+-- difference from the estimate. With zero tokens the reservation is refunded.
+-- Credits never go below zero: a request that ran over is still recorded in
+-- full, the balance just stops at nothing. An expired reservation was
+-- already refunded, so settling it late charges the tokens alone.
+CREATE OR REPLACE FUNCTION settle_ai_credits(
+  p_usage_id UUID,
+  p_model TEXT,
+  p_input_tokens INTEGER,
+  p_output_tokens INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID;
+  v_usage ai_usage%ROWTYPE;
+  v_held INTEGER;
+  v_charged INTEGER := GREATEST(COALESCE(p_input_tokens, 0), 0) + GREATEST(COALESCE(p_output_tokens, 0), 0);
+BEGIN
+  SELECT user_id INTO v_user_id FROM ai_usage WHERE id = p_usage_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Usage record not found';
+  END IF;
+
+  -- Profile first, as reserve_ai_credits() does; the usage row is read again
+  -- under the lock so a settle or expiry that got there first is seen
+  PERFORM 1 FROM user_profiles WHERE id = v_user_id FOR UPDATE;
+  SELECT * INTO v_usage FROM ai_usage WHERE id = p_usage_id FOR UPDATE;
+
+  -- Settling twice would refund or charge twice
+  IF v_usage.status NOT IN ('reserved', 'expired') THEN
+    RETURN ai_usage_status_for(v_usage.user_id);
+  END IF;
+
+  v_held := CASE WHEN v_usage.status = 'reserved' THEN v_usage.credits_reserved ELSE 0 END;
+
+  UPDATE user_profiles
+  SET ai_credits_remaining = GREATEST(ai_credits_remaining + v_held - v_charged, 0)
+  WHERE id = v_usage.user_id;
+
+  UPDATE ai_usage
+  SET model = p_model,
+      input_tokens = GREATEST(COALESCE(p_input_tokens, 0), 0),
+      output_tokens = GREATEST(COALESCE(p_output_tokens, 0), 0),
+      tokens_used = v_charged,
+      credits_charged = v_charged,
+      status = CASE WHEN v_charged = 0 THEN 'refunded' ELSE 'settled' END,
+      settled_at = NOW()
+  WHERE id = p_usage_id;
+
+  RETURN ai_usage_status_for(v_usage.user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The signed-in user's own credits and limits, for the app to display
+CREATE OR REPLACE FUNCTION get_ai_usage_status()
+RETURNS JSONB AS $$
+BEGIN
+  PERFORM 1 FROM user_profiles WHERE id = auth.uid() FOR UPDATE;
+  PERFORM refill_ai_credits(auth.uid());
+  RETURN ai_usage_status_for(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The signed-in user's usage since a date, totalled by operation
+CREATE OR REPLACE FUNCTION get_ai_usage_breakdown(p_since TIMESTAMPTZ)
+RETURNS TABLE (operation TEXT, requests BIGINT, input_tokens BIGINT, output_tokens BIGINT, credits BIGINT) AS $$
+  SELECT
+    analysis_type,
+    COUNT(*),
+    COALESCE(SUM(input_tokens), 0),
+    COALESCE(SUM(output_tokens), 0),
+    COALESCE(SUM(credits_charged), 0)
+  FROM ai_usage
+  WHERE user_id = auth.uid()
+    AND status = 'settled'
+    AND created_at >= p_since
+  GROUP BY analysis_type
+  ORDER BY SUM(credits_charged) DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- =====================================================
+-- 6. GRANT PERMISSIONS
+-- =====================================================
+
+GRANT SELECT ON ai_plan_limits TO authenticated;
+
+-- Supabase grants new functions to anon and authenticated directly, not
+-- only through PUBLIC, so all three are revoked
+REVOKE EXECUTE ON FUNCTION refill_ai_credits(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_ai_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ai_usage_status_for(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_ai_credits(UUID, TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_ai_credits(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_ai_credits(UUID, TEXT, INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_ai_credits(UUID, TEXT, INTEGER, INTEGER) TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_ai_usage_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_ai_usage_breakdown(TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,23 @@
+/*
+  # Notes Project Migration
+
+  Ties notes to the project they were written in, so project search and
+  the notes panel show a project's own notes rather than every note the
+  user has.
+
+  Tables Changed:
+  - notes: project_id, the project the note belongs to. Notes written
+    before this have none and are shown with every project.
+*/
+
+-- =====================================================
+-- 1. EXTEND NOTES
+-- =====================================================
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE CASCADE;
+
+-- =====================================================
+-- 2. CREATE PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS notes_project_id_idx ON notes(project_id);